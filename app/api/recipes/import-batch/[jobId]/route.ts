@@ -0,0 +1,46 @@
+/**
+ * GET /api/recipes/import-batch/:jobId
+ * Progress of a batch import, per URL
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { v4 as uuidv4 } from 'uuid';
+import { batchImportService } from '@/lib/scraper';
+import { toApiError, getErrorStatusCode } from '@/lib/utils/errors';
+import { BatchImportResponse } from '@/types';
+
+export async function GET(_request: NextRequest, { params }: { params: { jobId: string } }) {
+  const requestId = uuidv4();
+  const startTime = Date.now();
+
+  try {
+    const job = batchImportService.getJob(params.jobId);
+
+    return NextResponse.json<BatchImportResponse>(
+      {
+        success: true,
+        data: job,
+        meta: {
+          requestId,
+          processingTime: Date.now() - startTime,
+        },
+      },
+      { status: 200 }
+    );
+  } catch (error) {
+    const apiError = toApiError(error);
+    const statusCode = getErrorStatusCode(error);
+
+    return NextResponse.json<BatchImportResponse>(
+      {
+        success: false,
+        error: apiError,
+        meta: {
+          requestId,
+          processingTime: Date.now() - startTime,
+        },
+      },
+      { status: statusCode }
+    );
+  }
+}
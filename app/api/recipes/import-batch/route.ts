@@ -0,0 +1,86 @@
+/**
+ * POST /api/recipes/import-batch
+ * Start scraping a list of recipe URLs; poll the returned job for progress
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { v4 as uuidv4 } from 'uuid';
+import { batchImportService } from '@/lib/scraper';
+import { toApiError, getErrorStatusCode } from '@/lib/utils/errors';
+import { BatchImportResponse, ErrorCode } from '@/types';
+
+export async function POST(request: NextRequest) {
+  const requestId = uuidv4();
+  const startTime = Date.now();
+
+  try {
+    let body: unknown;
+    try {
+      body = await request.json();
+    } catch {
+      return NextResponse.json<BatchImportResponse>(
+        {
+          success: false,
+          error: {
+            code: ErrorCode.VALIDATION_ERROR,
+            message: 'Invalid JSON body',
+          },
+          meta: {
+            requestId,
+            processingTime: Date.now() - startTime,
+          },
+        },
+        { status: 400 }
+      );
+    }
+
+    const { urls } = body as { urls?: unknown };
+
+    // Validate URLs
+    if (!Array.isArray(urls) || urls.some((url) => typeof url !== 'string' || !url.trim())) {
+      return NextResponse.json<BatchImportResponse>(
+        {
+          success: false,
+          error: {
+            code: ErrorCode.VALIDATION_ERROR,
+            message: 'URLs must be a list of non-empty strings',
+          },
+          meta: {
+            requestId,
+            processingTime: Date.now() - startTime,
+          },
+        },
+        { status: 400 }
+      );
+    }
+
+    const job = batchImportService.createJob(urls);
+
+    return NextResponse.json<BatchImportResponse>(
+      {
+        success: true,
+        data: job,
+        meta: {
+          requestId,
+          processingTime: Date.now() - startTime,
+        },
+      },
+      { status: 202 }
+    );
+  } catch (error) {
+    const apiError = toApiError(error);
+    const statusCode = getErrorStatusCode(error);
+
+    return NextResponse.json<BatchImportResponse>(
+      {
+        success: false,
+        error: apiError,
+        meta: {
+          requestId,
+          processingTime: Date.now() - startTime,
+        },
+      },
+      { status: statusCode }
+    );
+  }
+}
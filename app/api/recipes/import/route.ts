@@ -0,0 +1,107 @@
+/**
+ * POST /api/recipes/import
+ * Import a recipe from pasted text or HTML
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { v4 as uuidv4 } from 'uuid';
+import { scraperService } from '@/lib/scraper';
+import { toApiError, getErrorStatusCode } from '@/lib/utils/errors';
+import { ErrorCode, ParseRecipeResponse } from '@/types';
+
+// Longer than any recipe; keeps whole pasted documents out
+const MAX_TEXT_LENGTH = 100_000;
+
+export async function POST(request: NextRequest) {
+  const requestId = uuidv4();
+  const startTime = Date.now();
+
+  try {
+    let body: unknown;
+    try {
+      body = await request.json();
+    } catch {
+      return NextResponse.json<ParseRecipeResponse>(
+        {
+          success: false,
+          error: {
+            code: ErrorCode.VALIDATION_ERROR,
+            message: 'Invalid JSON body',
+          },
+          meta: {
+            requestId,
+            processingTime: Date.now() - startTime,
+          },
+        },
+        { status: 400 }
+      );
+    }
+
+    const { text } = body as { text?: unknown };
+
+    // Validate text
+    if (!text || typeof text !== 'string' || !text.trim()) {
+      return NextResponse.json<ParseRecipeResponse>(
+        {
+          success: false,
+          error: {
+            code: ErrorCode.VALIDATION_ERROR,
+            message: 'Recipe text is required',
+          },
+          meta: {
+            requestId,
+            processingTime: Date.now() - startTime,
+          },
+        },
+        { status: 400 }
+      );
+    }
+
+    if (text.length > MAX_TEXT_LENGTH) {
+      return NextResponse.json<ParseRecipeResponse>(
+        {
+          success: false,
+          error: {
+            code: ErrorCode.VALIDATION_ERROR,
+            message: 'Recipe text is too long',
+            details: { maxLength: MAX_TEXT_LENGTH },
+          },
+          meta: {
+            requestId,
+            processingTime: Date.now() - startTime,
+          },
+        },
+        { status: 400 }
+      );
+    }
+
+    const recipe = await scraperService.importRecipe(text);
+
+    return NextResponse.json<ParseRecipeResponse>(
+      {
+        success: true,
+        data: recipe,
+        meta: {
+          requestId,
+          processingTime: Date.now() - startTime,
+        },
+      },
+      { status: 200 }
+    );
+  } catch (error) {
+    const apiError = toApiError(error);
+    const statusCode = getErrorStatusCode(error);
+
+    return NextResponse.json<ParseRecipeResponse>(
+      {
+        success: false,
+        error: apiError,
+        meta: {
+          requestId,
+          processingTime: Date.now() - startTime,
+        },
+      },
+      { status: statusCode }
+    );
+  }
+}
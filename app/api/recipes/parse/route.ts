@@ -6,7 +6,6 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { v4 as uuidv4 } from 'uuid';
 import { scraperService } from '@/lib/scraper';
-import { ingredientParser } from '@/lib/ingredient';
 import { toApiError, getErrorStatusCode } from '@/lib/utils/errors';
 import { ErrorCode, ParseRecipeResponse } from '@/types';
 
@@ -55,24 +54,13 @@ export async function POST(request: NextRequest) {
       );
     }
 
-    // Scrape the recipe
+    // Scrape the recipe (ingredients come back parsed)
     const recipe = await scraperService.scrapeRecipe(url);
 
-    // Parse ingredients for better structured data
-    const parsedIngredients = await ingredientParser.parseIngredients(
-      recipe.rawData?.ingredients || recipe.ingredients.map((i) => i.original)
-    );
-
-    // Update recipe with parsed ingredients
-    const enrichedRecipe = {
-      ...recipe,
-      ingredients: parsedIngredients,
-    };
-
     return NextResponse.json<ParseRecipeResponse>(
       {
         success: true,
-        data: enrichedRecipe,
+        data: recipe,
         meta: {
           requestId,
           processingTime: Date.now() - startTime,
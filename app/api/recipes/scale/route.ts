@@ -5,7 +5,7 @@
 
 import { NextRequest, NextResponse } from 'next/server';
 import { v4 as uuidv4 } from 'uuid';
-import { scalingService } from '@/lib/scaling';
+import { scalingService, MIN_MULTIPLIER, MAX_MULTIPLIER } from '@/lib/scaling';
 import { toApiError, getErrorStatusCode } from '@/lib/utils/errors';
 import { ErrorCode, ScaleRecipeResponse, Recipe, ScalingOptions } from '@/types';
 
@@ -54,14 +54,63 @@ export async function POST(request: NextRequest) {
       );
     }
 
-    // Validate multiplier
-    if (typeof options.multiplier !== 'number' || options.multiplier < 0.1 || options.multiplier > 10) {
+    // Validate constraints (the scaling service checks them against the recipe)
+    const { targetServings, ingredientConstraint } = options;
+    if (
+      (targetServings !== undefined && typeof targetServings !== 'number') ||
+      (ingredientConstraint !== undefined &&
+        (typeof ingredientConstraint?.ingredientId !== 'string' ||
+          typeof ingredientConstraint.amount !== 'number' ||
+          (ingredientConstraint.unit != null && typeof ingredientConstraint.unit !== 'string')))
+    ) {
+      return NextResponse.json<ScaleRecipeResponse>(
+        {
+          success: false,
+          error: {
+            code: ErrorCode.VALIDATION_ERROR,
+            message:
+              'targetServings must be a number; ingredientConstraint needs ingredientId, amount and a string or null unit',
+          },
+          meta: {
+            requestId,
+            processingTime: Date.now() - startTime,
+          },
+        },
+        { status: 400 }
+      );
+    }
+
+    if (targetServings !== undefined && typeof recipe.servings?.amount !== 'number') {
+      return NextResponse.json<ScaleRecipeResponse>(
+        {
+          success: false,
+          error: {
+            code: ErrorCode.VALIDATION_ERROR,
+            message: 'Recipe servings are required to scale to targetServings',
+          },
+          meta: {
+            requestId,
+            processingTime: Date.now() - startTime,
+          },
+        },
+        { status: 400 }
+      );
+    }
+
+    // Validate multiplier when it drives scaling
+    const usesMultiplier = targetServings === undefined && ingredientConstraint === undefined;
+    if (
+      usesMultiplier &&
+      (typeof options.multiplier !== 'number' ||
+        options.multiplier < MIN_MULTIPLIER ||
+        options.multiplier > MAX_MULTIPLIER)
+    ) {
       return NextResponse.json<ScaleRecipeResponse>(
         {
           success: false,
           error: {
             code: ErrorCode.INVALID_MULTIPLIER,
-            message: 'Multiplier must be between 0.1 and 10',
+            message: `Multiplier must be between ${MIN_MULTIPLIER} and ${MAX_MULTIPLIER}`,
           },
           meta: {
             requestId,
@@ -0,0 +1,55 @@
+/**
+ * GET/POST/PUT /api/self-hosted/recipes
+ * GET/PATCH/DELETE /api/self-hosted/recipes/:id
+ * Forward saved-recipe requests to the self-hosted recipe API (see server/)
+ *
+ * Self-hosted installs have no sign-in, so this checks nobody: anyone who
+ * can reach the app can read and change every saved recipe. It's meant for
+ * a trusted network only, with the API itself reachable just from the app.
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { createError, toApiError, getErrorStatusCode } from '@/lib/utils/errors';
+import { ApiResponse, ErrorCode } from '@/types';
+
+async function forward(request: NextRequest, { params }: { params: { path?: string[] } }) {
+  try {
+    const baseUrl = process.env.RECIPE_API_URL;
+    if (!baseUrl) {
+      throw createError(ErrorCode.INTERNAL_ERROR, 'RECIPE_API_URL is not set');
+    }
+
+    const path = ['recipes', ...(params.path ?? [])].map(encodeURIComponent).join('/');
+    const hasBody = request.method !== 'GET' && request.method !== 'DELETE';
+
+    let response: Response;
+    try {
+      response = await fetch(`${baseUrl.replace(/\/+$/, '')}/${path}${request.nextUrl.search}`, {
+        method: request.method,
+        headers: {
+          Accept: 'application/json',
+          'Content-Type': 'application/json',
+        },
+        body: hasBody ? await request.text() : undefined,
+        cache: 'no-store',
+      });
+    } catch (error) {
+      throw createError(
+        ErrorCode.NETWORK_ERROR,
+        error instanceof Error ? error.message : 'Network error'
+      );
+    }
+
+    return new NextResponse(await response.text(), {
+      status: response.status,
+      headers: { 'Content-Type': 'application/json' },
+    });
+  } catch (error) {
+    return NextResponse.json<ApiResponse<never>>(
+      { success: false, error: toApiError(error) },
+      { status: getErrorStatusCode(error) }
+    );
+  }
+}
+
+export { forward as GET, forward as POST, forward as PUT, forward as PATCH, forward as DELETE };
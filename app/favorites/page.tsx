@@ -4,18 +4,49 @@
  * Favorites page - displays all saved recipes
  */
 
-import { useState, useEffect, useCallback, useRef } from 'react';
+import { useState, useEffect, useCallback, useMemo, useRef } from 'react';
 import { useRouter } from 'next/navigation';
 import SearchBar from '@/components/favorites/SearchBar';
 import FavoritesList from '@/components/favorites/FavoritesList';
+import BulkImport from '@/components/favorites/BulkImport';
+import CollectionsBar from '@/components/favorites/CollectionsBar';
+import CollectionForm from '@/components/favorites/CollectionForm';
+import CollectionHeader from '@/components/favorites/CollectionHeader';
+import ShareButton from '@/components/recipe/ShareButton';
 import { useFavorites } from '@/contexts/FavoritesContext';
+import { useBatchImport } from '@/hooks/useBatchImport';
+import { useCollections } from '@/hooks/useCollections';
+import { useShareLinks } from '@/hooks/useShareLinks';
 import { SavedRecipe } from '@/services/favorites';
+import { RECIPE_FILE_EXTENSIONS, recipeFileService } from '@/lib/interchange';
+import { collectionService, type CollectionInput } from '@/lib/collections';
+import { shareService } from '@/lib/share';
+import { RecipeCollection, RecipeFile, RecipeFileFormat } from '@/types';
 import './page.css';
 
+const FILE_FORMATS: { value: RecipeFileFormat; label: string }[] = [
+  { value: 'bundle', label: 'Recipe Journal (.json)' },
+  { value: 'json-ld', label: 'Schema.org JSON-LD' },
+  { value: 'paprika', label: 'Paprika (.paprikarecipes)' },
+];
+
+/**
+ * Save an exported file through the browser's download prompt
+ */
+function downloadFile(file: RecipeFile) {
+  const url = URL.createObjectURL(new Blob([new Uint8Array(file.data)], { type: file.mimeType }));
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = file.filename;
+  link.click();
+  URL.revokeObjectURL(url);
+}
+
 type ConfirmRemoveState =
   | { kind: 'single'; recipe: SavedRecipe }
   | { kind: 'bulk'; ids: string[] }
-  | { kind: 'all'; ids: string[] };
+  | { kind: 'all'; ids: string[] }
+  | { kind: 'collection'; collection: RecipeCollection };
 
 export default function FavoritesPage() {
   const router = useRouter();
@@ -24,6 +55,8 @@ export default function FavoritesPage() {
     loading,
     searchFavorites: searchFavoritesContext,
     removeFavorite: removeFavoriteContext,
+    addFavorite,
+    isFavorite,
   } = useFavorites();
 
   const [recipes, setRecipes] = useState<SavedRecipe[]>([]);
@@ -36,7 +69,30 @@ export default function FavoritesPage() {
     text: string;
   } | null>(null);
   const [isRemoving, setIsRemoving] = useState(false);
+  const [showImport, setShowImport] = useState(false);
+  const batchImport = useBatchImport();
+  const [exportFormat, setExportFormat] = useState<RecipeFileFormat>('bundle');
+  const [isTransferring, setIsTransferring] = useState(false);
+  const fileInputRef = useRef<HTMLInputElement>(null);
   const favoritesRef = useRef<SavedRecipe[]>([]);
+  const collections = useCollections();
+  const [activeCollectionId, setActiveCollectionId] = useState<string | null>(null);
+  // Collection being edited, or 'new' while creating one
+  const [editingCollection, setEditingCollection] = useState<RecipeCollection | 'new' | null>(
+    null
+  );
+  const [targetCollectionId, setTargetCollectionId] = useState('');
+
+  const activeCollection =
+    collections.collections.find((c) => c.id === activeCollectionId) ?? null;
+
+  const shareLinks = useShareLinks('collection', activeCollection?.id ?? null);
+
+  // Recipes shown: the search results, narrowed to the open collection in its order
+  const visibleRecipes = useMemo(
+    () => (activeCollection ? collectionService.getRecipes(activeCollection, recipes) : recipes),
+    [activeCollection, recipes]
+  );
 
   useEffect(() => {
     favoritesRef.current = favorites;
@@ -82,6 +138,12 @@ export default function FavoritesPage() {
     router.push('/');
   };
 
+  const handleEdit = (recipe: SavedRecipe) => {
+    if (recipe.id) {
+      router.push(`/recipes/${encodeURIComponent(recipe.id)}/edit`);
+    }
+  };
+
   const handleRemove = (recipe: SavedRecipe) => {
     setConfirmRemove({ kind: 'single', recipe });
   };
@@ -90,11 +152,11 @@ export default function FavoritesPage() {
   useEffect(() => {
     setSelectedIds((prev) => {
       if (!selectionMode) return prev;
-      const visible = new Set(recipes.map((r) => r.id).filter(Boolean) as string[]);
+      const visible = new Set(visibleRecipes.map((r) => r.id).filter(Boolean) as string[]);
       const next = new Set([...prev].filter((id) => visible.has(id)));
       return next;
     });
-  }, [recipes, selectionMode]);
+  }, [visibleRecipes, selectionMode]);
 
   const startBulkRemove = () => {
     const ids = [...selectedIds];
@@ -147,6 +209,15 @@ export default function FavoritesPage() {
   const confirmRemoveRecipe = async () => {
     if (!confirmRemove) return;
 
+    if (confirmRemove.kind === 'collection') {
+      const { collection } = confirmRemove;
+      setConfirmRemove(null);
+      setActiveCollectionId(null);
+      await collections.deleteCollection(collection.id);
+      setActionMessage({ type: 'success', text: `Deleted the “${collection.name}” collection.` });
+      return;
+    }
+
     const ids =
       confirmRemove.kind === 'single'
         ? confirmRemove.recipe.id
@@ -171,12 +242,108 @@ export default function FavoritesPage() {
 
   const selectAllVisible = () => {
     setSelectedIds(
-      new Set(recipes.map((r) => r.id).filter(Boolean) as string[])
+      new Set(visibleRecipes.map((r) => r.id).filter(Boolean) as string[])
     );
   };
 
   const clearSelection = () => setSelectedIds(new Set());
 
+  const handleSaveCollection = async (input: CollectionInput) => {
+    if (editingCollection === 'new') {
+      const created = await collections.createCollection(input);
+      setActiveCollectionId(created.id);
+    } else if (editingCollection) {
+      await collections.updateCollection(editingCollection.id, input);
+    }
+    setEditingCollection(null);
+  };
+
+  const addSelectedToCollection = async () => {
+    const target = collections.collections.find((c) => c.id === targetCollectionId);
+    if (!target || selectedIds.size === 0) return;
+
+    await collections.addRecipes(target.id, [...selectedIds]);
+    setActionMessage({
+      type: 'success',
+      text: `Added ${selectedIds.size} recipe${selectedIds.size === 1 ? '' : 's'} to “${target.name}”.`,
+    });
+    setSelectedIds(new Set());
+  };
+
+  const removeSelectedFromCollection = async () => {
+    if (!activeCollection || selectedIds.size === 0) return;
+
+    await collections.removeRecipes(activeCollection.id, [...selectedIds]);
+    setSelectedIds(new Set());
+  };
+
+  // Recipe counts per collection, counting only recipes that are still saved
+  const collectionCounts = Object.fromEntries(
+    collections.collections.map((c) => [c.id, collectionService.getRecipes(c, favorites).length])
+  );
+  const activeIndex = activeCollection
+    ? collections.collections.indexOf(activeCollection)
+    : -1;
+
+  const handleExport = async () => {
+    setActionMessage(null);
+    setIsTransferring(true);
+    try {
+      downloadFile(await recipeFileService.exportRecipes(favorites, exportFormat));
+    } catch (err) {
+      setActionMessage({
+        type: 'error',
+        text: err instanceof Error ? err.message : 'Could not export your recipes.',
+      });
+    } finally {
+      setIsTransferring(false);
+    }
+  };
+
+  const handleImportFile = async (file: File) => {
+    setActionMessage(null);
+    setIsTransferring(true);
+    try {
+      const recipes = await recipeFileService.importFile(new Uint8Array(await file.arrayBuffer()));
+      let imported = 0;
+      let skipped = 0;
+
+      // One at a time, so duplicates within the file are caught too
+      for (const { notes, userTags, lastScaledMultiplier, ...recipe } of recipes) {
+        if (await isFavorite(recipe.source.url)) {
+          skipped++;
+          continue;
+        }
+        const saved = await addFavorite(recipe, {
+          notes,
+          userTags,
+          multiplier: lastScaledMultiplier,
+        });
+        if (saved) imported++;
+      }
+
+      const failed = recipes.length - imported - skipped;
+      setActionMessage({
+        type: failed > 0 ? 'error' : 'success',
+        text: [
+          `Imported ${imported} recipe${imported === 1 ? '' : 's'}.`,
+          skipped > 0 ? `${skipped} already saved.` : '',
+          failed > 0 ? `${failed} could not be saved.` : '',
+        ]
+          .filter(Boolean)
+          .join(' '),
+      });
+    } catch (err) {
+      setActionMessage({
+        type: 'error',
+        text: err instanceof Error ? err.message : 'Could not import the file.',
+      });
+    } finally {
+      setIsTransferring(false);
+      if (fileInputRef.current) fileInputRef.current.value = '';
+    }
+  };
+
   if (loading) {
     return (
       <div className="favorites-page">
@@ -193,10 +360,63 @@ export default function FavoritesPage() {
       <div className="favorites-page__header">
         <h1>My Saved Recipes</h1>
         <p className="favorites-page__count">
-          {recipes.length} {recipes.length === 1 ? 'recipe' : 'recipes'} saved
+          {visibleRecipes.length} {visibleRecipes.length === 1 ? 'recipe' : 'recipes'} saved
         </p>
       </div>
 
+      <CollectionsBar
+        collections={collections.collections}
+        activeId={activeCollection?.id ?? null}
+        counts={collectionCounts}
+        onSelect={(id) => {
+          setActiveCollectionId(id);
+          setEditingCollection(null);
+        }}
+        onCreate={() => setEditingCollection('new')}
+      />
+
+      {editingCollection && (
+        <CollectionForm
+          key={editingCollection === 'new' ? 'new' : editingCollection.id}
+          initial={editingCollection === 'new' ? undefined : editingCollection}
+          onSubmit={handleSaveCollection}
+          onCancel={() => setEditingCollection(null)}
+        />
+      )}
+
+      {activeCollection && (
+        <CollectionHeader
+          collection={activeCollection}
+          recipes={favorites}
+          isFirst={activeIndex === 0}
+          isLast={activeIndex === collections.collections.length - 1}
+          onEdit={() => setEditingCollection(activeCollection)}
+          onDelete={() => setConfirmRemove({ kind: 'collection', collection: activeCollection })}
+          onMove={(offset) => collections.moveCollection(activeCollection.id, offset)}
+          onMoveRecipe={(recipeId, offset) =>
+            collections.moveRecipe(activeCollection.id, recipeId, offset)
+          }
+          onRemoveRecipe={(recipeId) => collections.removeRecipes(activeCollection.id, [recipeId])}
+          actions={
+            <ShareButton
+              links={shareLinks.links}
+              canShare={shareLinks.canShare}
+              error={shareLinks.error}
+              onCreate={(options) =>
+                shareLinks.createLink(
+                  shareService.createCollectionLink(
+                    activeCollection,
+                    collectionService.getRecipes(activeCollection, favorites),
+                    options
+                  )
+                )
+              }
+              onRevoke={shareLinks.revokeLink}
+            />
+          }
+        />
+      )}
+
       <div className="favorites-page__actions">
         <button
           type="button"
@@ -207,6 +427,56 @@ export default function FavoritesPage() {
           {selectionMode ? 'Done' : 'Select'}
         </button>
 
+        <button
+          type="button"
+          className="favorites-page__action"
+          onClick={() => setShowImport((prev) => !prev)}
+          aria-pressed={showImport}
+        >
+          Import URLs
+        </button>
+
+        <div className="favorites-page__files" aria-label="Import and export">
+          <select
+            className="favorites-page__format"
+            value={exportFormat}
+            onChange={(e) => setExportFormat(e.target.value as RecipeFileFormat)}
+            aria-label="Export format"
+          >
+            {FILE_FORMATS.map((format) => (
+              <option key={format.value} value={format.value}>
+                {format.label}
+              </option>
+            ))}
+          </select>
+          <button
+            type="button"
+            className="favorites-page__action"
+            onClick={handleExport}
+            disabled={favorites.length === 0 || isTransferring}
+          >
+            Export
+          </button>
+          <button
+            type="button"
+            className="favorites-page__action"
+            onClick={() => fileInputRef.current?.click()}
+            disabled={isTransferring}
+          >
+            Import file
+          </button>
+          <input
+            ref={fileInputRef}
+            type="file"
+            accept={RECIPE_FILE_EXTENSIONS.join(',')}
+            hidden
+            onChange={(e) => {
+              const file = e.target.files?.[0];
+              if (file) handleImportFile(file);
+            }}
+          />
+        </div>
+
         {selectionMode && (
           <div className="favorites-page__bulk-actions" aria-label="Bulk actions">
             <span className="favorites-page__selected-count">
@@ -216,7 +486,7 @@ export default function FavoritesPage() {
               type="button"
               className="favorites-page__action"
               onClick={selectAllVisible}
-              disabled={recipes.length === 0}
+              disabled={visibleRecipes.length === 0}
             >
               Select all
             </button>
@@ -237,6 +507,43 @@ export default function FavoritesPage() {
               Remove selected
             </button>
 
+            {collections.collections.length > 0 && (
+              <>
+                <select
+                  className="favorites-page__format"
+                  value={targetCollectionId}
+                  onChange={(e) => setTargetCollectionId(e.target.value)}
+                  aria-label="Collection to add to"
+                >
+                  <option value="">Choose a collection…</option>
+                  {collections.collections.map((collection) => (
+                    <option key={collection.id} value={collection.id}>
+                      {collection.name}
+                    </option>
+                  ))}
+                </select>
+                <button
+                  type="button"
+                  className="favorites-page__action"
+                  onClick={addSelectedToCollection}
+                  disabled={selectedIds.size === 0 || !targetCollectionId}
+                >
+                  Add to collection
+                </button>
+              </>
+            )}
+
+            {activeCollection && (
+              <button
+                type="button"
+                className="favorites-page__action"
+                onClick={removeSelectedFromCollection}
+                disabled={selectedIds.size === 0}
+              >
+                Remove from collection
+              </button>
+            )}
+
             {!searchQuery.trim() && (
               <button
                 type="button"
@@ -251,6 +558,15 @@ export default function FavoritesPage() {
         )}
       </div>
 
+      {showImport && (
+        <BulkImport
+          items={batchImport.items}
+          running={batchImport.running}
+          error={batchImport.error}
+          onSubmit={batchImport.start}
+        />
+      )}
+
       {actionMessage && (
         <div
           className={[
@@ -273,16 +589,19 @@ export default function FavoritesPage() {
       </div>
 
       <FavoritesList
-        recipes={recipes}
+        recipes={visibleRecipes}
         onSelect={handleSelect}
         onRemove={handleRemove}
+        onEdit={handleEdit}
         selectionMode={selectionMode}
         selectedIds={selectedIds}
         onToggleSelected={handleSelect}
         emptyMessage={
           searchQuery
             ? `No recipes found for "${searchQuery}"`
-            : 'No saved recipes yet'
+            : activeCollection
+              ? 'No recipes in this collection yet. Use Select to add some.'
+              : 'No saved recipes yet'
         }
       />
 
@@ -298,10 +617,17 @@ export default function FavoritesPage() {
                 ? 'Remove Recipe?'
                 : confirmRemove.kind === 'all'
                   ? 'Remove All Recipes?'
-                  : 'Remove Selected Recipes?'}
+                  : confirmRemove.kind === 'collection'
+                    ? 'Delete Collection?'
+                    : 'Remove Selected Recipes?'}
             </h3>
             <p>
-              {confirmRemove.kind === 'single' ? (
+              {confirmRemove.kind === 'collection' ? (
+                <>
+                  Delete &ldquo;{confirmRemove.collection.name}&rdquo;? Its recipes stay in your
+                  favorites.
+                </>
+              ) : confirmRemove.kind === 'single' ? (
                 <>
                   Are you sure you want to remove &ldquo;{confirmRemove.recipe.title}&rdquo; from
                   your favorites?
@@ -327,7 +653,11 @@ export default function FavoritesPage() {
                 onClick={confirmRemoveRecipe}
                 disabled={isRemoving}
               >
-                {isRemoving ? 'Removing…' : 'Remove'}
+                {isRemoving
+                  ? 'Removing…'
+                  : confirmRemove.kind === 'collection'
+                    ? 'Delete'
+                    : 'Remove'}
               </button>
             </div>
           </div>
@@ -0,0 +1,156 @@
+'use client';
+
+/**
+ * Meal plan page - a weekly calendar of saved recipes
+ */
+
+import { useState } from 'react';
+import { useRouter } from 'next/navigation';
+import { MealSlotCell } from '@/components/mealPlan';
+import { useFavorites } from '@/contexts/FavoritesContext';
+import { useMealPlan } from '@/hooks/useMealPlan';
+import { useShoppingList } from '@/hooks/useShoppingList';
+import { MEAL_SLOTS, addDays, fromDateKey, mealPlanService, toDateKey } from '@/lib/mealPlan';
+import './page.css';
+
+function formatDay(date: string, options: Intl.DateTimeFormatOptions): string {
+  return fromDateKey(date).toLocaleDateString(undefined, options);
+}
+
+export default function MealPlanPage() {
+  const router = useRouter();
+  const { favorites } = useFavorites();
+  const {
+    entries,
+    weekStart,
+    days,
+    loading,
+    previousWeek,
+    nextWeek,
+    currentWeek,
+    addEntry,
+    setMultiplier,
+    moveEntry,
+    removeEntry,
+  } = useMealPlan();
+  const { createList } = useShoppingList();
+  const [message, setMessage] = useState<string | null>(null);
+
+  const today = toDateKey(new Date());
+  const weekLabel = `${formatDay(weekStart, { month: 'short', day: 'numeric' })} – ${formatDay(
+    addDays(weekStart, 6),
+    { month: 'short', day: 'numeric' }
+  )}`;
+  const plannedCount = mealPlanService.getWeekEntries(entries, weekStart).length;
+
+  const handleShoppingList = async () => {
+    const { inputs, missing } = mealPlanService.getShoppingInput(entries, weekStart, favorites);
+    if (inputs.length === 0) {
+      setMessage('None of the planned recipes are saved anymore.');
+      return;
+    }
+    if (missing.length > 0) {
+      setMessage(`Skipped recipes that are no longer saved: ${missing.join(', ')}`);
+    }
+    await createList(`Meal plan ${weekLabel}`, inputs);
+    router.push('/shopping-list');
+  };
+
+  return (
+    <div className="meal-plan-page">
+      <div className="meal-plan-page__header">
+        <h1>Meal Plan</h1>
+        <p className="meal-plan-page__subtitle">
+          Plan the week with your saved recipes, then shop for all of it at once
+        </p>
+      </div>
+
+      <div className="meal-plan-page__toolbar">
+        <div className="meal-plan-page__week-nav">
+          <button
+            type="button"
+            className="meal-plan-page__button"
+            onClick={previousWeek}
+            aria-label="Previous week"
+          >
+            ‹
+          </button>
+          <h2 className="meal-plan-page__week-label">{weekLabel}</h2>
+          <button
+            type="button"
+            className="meal-plan-page__button"
+            onClick={nextWeek}
+            aria-label="Next week"
+          >
+            ›
+          </button>
+          <button type="button" className="meal-plan-page__button" onClick={currentWeek}>
+            This week
+          </button>
+        </div>
+
+        <button
+          type="button"
+          className="meal-plan-page__button meal-plan-page__button--primary"
+          onClick={handleShoppingList}
+          disabled={plannedCount === 0}
+        >
+          Shopping list for this week
+        </button>
+      </div>
+
+      {message && (
+        <div className="meal-plan-page__message" role="status">
+          {message}
+        </div>
+      )}
+
+      {favorites.length === 0 && (
+        <p className="meal-plan-page__muted">Save some recipes to start planning meals.</p>
+      )}
+
+      {loading ? (
+        <p className="meal-plan-page__muted">Loading...</p>
+      ) : (
+        <div className="meal-plan-page__grid">
+          {days.map((day) => (
+            <section
+              key={day.date}
+              className={`meal-plan-day ${day.date === today ? 'meal-plan-day--today' : ''}`}
+              aria-label={formatDay(day.date, { weekday: 'long', month: 'long', day: 'numeric' })}
+            >
+              <h3 className="meal-plan-day__title">
+                <span>{formatDay(day.date, { weekday: 'short' })}</span>
+                <span className="meal-plan-day__date">
+                  {formatDay(day.date, { month: 'short', day: 'numeric' })}
+                </span>
+              </h3>
+
+              {MEAL_SLOTS.map((slot) => (
+                <div key={slot.id} className="meal-plan-day__meal">
+                  <h4 className="meal-plan-day__meal-label">{slot.label}</h4>
+                  <MealSlotCell
+                    label={`${formatDay(day.date, { weekday: 'long' })} ${slot.label.toLowerCase()}`}
+                    entries={day.meals[slot.id]}
+                    recipes={favorites}
+                    onAdd={(recipe) =>
+                      addEntry({
+                        recipe,
+                        date: day.date,
+                        meal: slot.id,
+                        multiplier: recipe.lastScaledMultiplier ?? 1,
+                      })
+                    }
+                    onMultiplierChange={setMultiplier}
+                    onRemove={removeEntry}
+                    onDropEntry={(entryId) => moveEntry(entryId, day.date, slot.id)}
+                  />
+                </div>
+              ))}
+            </section>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -4,29 +4,35 @@
  * Home page - URL input and recipe display
  */
 
-import { useEffect, useRef, useState } from 'react';
+import { useEffect, useMemo, useRef, useState } from 'react';
 import Link from 'next/link';
 import { Recipe, ScaledRecipe, ScalingOptions } from '@/types';
 import UrlInput from '@/components/recipe/UrlInput';
+import TextImport from '@/components/recipe/TextImport';
 import RecipeCard from '@/components/recipe/RecipeCard';
 import ScalingControls from '@/components/recipe/ScalingControls';
 import IngredientList from '@/components/recipe/IngredientList';
 import InstructionsList from '@/components/recipe/InstructionsList';
 import ExportButton from '@/components/recipe/ExportButton';
+import PrintButton from '@/components/recipe/PrintButton';
+import ShareButton from '@/components/recipe/ShareButton';
 import SaveButton from '@/components/recipe/SaveButton';
+import { AddToShoppingListButton } from '@/components/shopping';
+import { CookMode } from '@/components/cookMode';
 import SmartScaleToggle from '@/components/recipe/SmartScaleToggle';
 import ScalingTips from '@/components/recipe/ScalingTips';
 import LoadingSpinner from '@/components/common/LoadingSpinner';
 import ErrorMessage from '@/components/common/ErrorMessage';
 import FavoriteCard from '@/components/favorites/FavoriteCard';
-import { parseRecipe, scaleRecipe, smartScaleRecipe } from '@/services/api';
+import { importRecipeText, parseRecipe, scaleRecipe, smartScaleRecipe } from '@/services/api';
 import { SmartScaledIngredient } from '@/types/api.types';
-import {
-  SavedRecipe,
-  getRecentFavorites,
-  removeFavorite,
-} from '@/services/favorites';
+import { SavedRecipe } from '@/services/favorites';
 import { useAuth } from '@/contexts';
+import { useFavorites } from '@/contexts/FavoritesContext';
+import { usePantry } from '@/hooks/usePantry';
+import { useShareLinks } from '@/hooks/useShareLinks';
+import { pantryService } from '@/lib/pantry';
+import { shareService } from '@/lib/share';
 import './page.css';
 
 export default function HomePage() {
@@ -38,8 +44,22 @@ export default function HomePage() {
   const [multiplier, setMultiplier] = useState<number>(1);
   const [loading, setLoading] = useState<boolean>(false);
   const [error, setError] = useState<string | null>(null);
-  const [recentFavorites, setRecentFavorites] = useState<SavedRecipe[]>([]);
   const [saveNotification, setSaveNotification] = useState<string | null>(null);
+  const { items: pantryItems, consume: consumePantry } = usePantry();
+  // The recipe the pantry was last updated for, so one cook is only taken out once
+  const [cookedRecipe, setCookedRecipe] = useState<Recipe | null>(null);
+  const [cooking, setCooking] = useState(false);
+  const [pasteMode, setPasteMode] = useState(false);
+  const shareLinks = useShareLinks('recipe', recipe?.source.url ?? null);
+  const { favorites, removeFavorite } = useFavorites();
+
+  const recentFavorites = useMemo(
+    () =>
+      [...favorites]
+        .sort((a, b) => new Date(b.lastViewedAt).getTime() - new Date(a.lastViewedAt).getTime())
+        .slice(0, 4),
+    [favorites]
+  );
 
   // Smart scaling state
   const [smartScaleEnabled, setSmartScaleEnabled] = useState(false);
@@ -55,11 +75,6 @@ export default function HomePage() {
   const smartScaleDebounceTimerRef = useRef<ReturnType<typeof setTimeout> | null>(null);
   const smartScaleAbortRef = useRef<AbortController | null>(null);
 
-  // Load recent favorites on mount
-  useEffect(() => {
-    loadRecentFavorites();
-  }, []);
-
   const cancelPendingSmartScale = () => {
     if (smartScaleDebounceTimerRef.current) {
       clearTimeout(smartScaleDebounceTimerRef.current);
@@ -157,14 +172,10 @@ export default function HomePage() {
     }, delayMs);
   };
 
-  const loadRecentFavorites = () => {
-    const recent = getRecentFavorites(4);
-    setRecentFavorites(recent);
-  };
-
   const loadSavedRecipe = async (savedRecipe: SavedRecipe) => {
     activeRecipeUrlRef.current = savedRecipe.source.url;
     setRecipe(savedRecipe);
+    setCooking(false);
     setLoading(true);
     setError(null);
     resetSmartScaleState([]);
@@ -182,17 +193,22 @@ export default function HomePage() {
     }
   };
 
-  const handleUrlSubmit = async (url: string) => {
+  const handleUrlSubmit = (url: string) => loadNewRecipe(() => parseRecipe(url));
+
+  const handleTextSubmit = (text: string) => loadNewRecipe(() => importRecipeText(text));
+
+  const loadNewRecipe = async (load: () => Promise<Recipe>) => {
     setLoading(true);
     setError(null);
     setRecipe(null);
     setScaledRecipe(null);
+    setCooking(false);
     setMultiplier(1);
     activeRecipeUrlRef.current = null;
     resetSmartScaleState([]);
 
     try {
-      const parsedRecipe = await parseRecipe(url);
+      const parsedRecipe = await load();
       activeRecipeUrlRef.current = parsedRecipe.source.url;
       setRecipe(parsedRecipe);
 
@@ -200,9 +216,6 @@ export default function HomePage() {
       const scaled = await scaleRecipe(parsedRecipe, { multiplier: 1 });
       setScaledRecipe(scaled);
       setScalingTips(scaled.scalingTips || []);
-
-      // Refresh recent favorites
-      loadRecentFavorites();
     } catch (err) {
       setError(err instanceof Error ? err.message : 'Failed to parse recipe');
     } finally {
@@ -210,16 +223,22 @@ export default function HomePage() {
     }
   };
 
-  const handleScale = async (newMultiplier: number) => {
+  const handleScale = (newMultiplier: number) => {
+    setMultiplier(newMultiplier);
+    return applyScaling({ multiplier: newMultiplier });
+  };
+
+  // For servings and ingredient constraints the API works out the multiplier
+  const applyScaling = async (options: ScalingOptions) => {
     if (!recipe) return;
 
-    setMultiplier(newMultiplier);
     setLoading(true);
     setError(null);
 
     try {
-      const options: ScalingOptions = { multiplier: newMultiplier };
       const scaled = await scaleRecipe(recipe, options);
+      const newMultiplier = scaled.scaling.multiplier;
+      setMultiplier(newMultiplier);
       setScaledRecipe(scaled);
 
       // If smart scaling is enabled, also get AI-powered scaling
@@ -259,7 +278,31 @@ export default function HomePage() {
   const handleSaveChange = (isSaved: boolean) => {
     setSaveNotification(isSaved ? 'Recipe saved!' : 'Recipe removed');
     setTimeout(() => setSaveNotification(null), 2000);
-    loadRecentFavorites();
+  };
+
+  const displayedIngredients = smartScaledIngredients || scaledRecipe?.scaledIngredients;
+
+  // Only mark lines once there's something in the pantry
+  const pantryCoverage = useMemo(
+    () =>
+      displayedIngredients && pantryItems.length > 0
+        ? pantryService.checkIngredients(displayedIngredients, pantryItems)
+        : undefined,
+    [displayedIngredients, pantryItems]
+  );
+
+  const handleCooked = async () => {
+    if (!displayedIngredients || !recipe || cookedRecipe === recipe) return;
+    setCookedRecipe(recipe);
+    try {
+      await consumePantry(displayedIngredients);
+    } catch (err) {
+      console.error('Failed to update pantry:', err);
+      setCookedRecipe(null);
+      return;
+    }
+    setSaveNotification('Pantry updated');
+    setTimeout(() => setSaveNotification(null), 2000);
   };
 
   const handleSelectRecent = (savedRecipe: SavedRecipe) => {
@@ -268,14 +311,24 @@ export default function HomePage() {
 
   const handleRemoveRecent = (savedRecipe: SavedRecipe) => {
     removeFavorite(savedRecipe.id!);
-    loadRecentFavorites();
   };
 
   return (
     <div className="home-page">
       <section className="url-section">
-        <h2>Paste a recipe URL to get started</h2>
-        <UrlInput onSubmit={handleUrlSubmit} disabled={loading} />
+        <h2>{pasteMode ? 'Paste the recipe text' : 'Paste a recipe URL to get started'}</h2>
+        {pasteMode ? (
+          <TextImport onSubmit={handleTextSubmit} disabled={loading} />
+        ) : (
+          <UrlInput onSubmit={handleUrlSubmit} disabled={loading} />
+        )}
+        <button
+          type="button"
+          className="url-section__mode-toggle"
+          onClick={() => setPasteMode((current) => !current)}
+        >
+          {pasteMode ? 'Have a link? Paste the URL instead' : 'No link? Paste the recipe text'}
+        </button>
       </section>
 
       {loading && <LoadingSpinner />}
@@ -300,7 +353,25 @@ export default function HomePage() {
                 multiplier={multiplier}
                 onSaveChange={handleSaveChange}
               />
+              <AddToShoppingListButton recipe={recipe} multiplier={multiplier} />
               <ExportButton recipe={scaledRecipe} />
+              <PrintButton
+                recipe={scaledRecipe}
+                ingredients={smartScaledIngredients || undefined}
+                tips={scalingTips}
+                cookingTimeAdjustment={cookingTimeAdjustment}
+                isAIPowered={isAIPowered}
+              />
+              <ShareButton
+                links={shareLinks.links}
+                defaultMultiplier={multiplier}
+                canShare={shareLinks.canShare}
+                error={shareLinks.error}
+                onCreate={(options) =>
+                  shareLinks.createLink(shareService.createRecipeLink(recipe, options))
+                }
+                onRevoke={shareLinks.revokeLink}
+              />
             </div>
           </div>
 
@@ -309,6 +380,10 @@ export default function HomePage() {
               <ScalingControls
                 currentMultiplier={multiplier}
                 onScale={handleScale}
+                onScaleTo={applyScaling}
+                servings={recipe.servings}
+                ingredients={recipe.ingredients}
+                constraint={scaledRecipe.scaling.constraint}
                 disabled={loading}
               />
               {canUseSmartScale && (
@@ -340,14 +415,47 @@ export default function HomePage() {
               <IngredientList
                 ingredients={smartScaledIngredients || scaledRecipe.scaledIngredients}
                 showAIBadges={smartScaleEnabled && !!smartScaledIngredients}
+                pantry={pantryCoverage}
               />
+              {pantryCoverage?.some((coverage) => coverage.itemId) && (
+                <button
+                  type="button"
+                  className="pantry-cooked-button"
+                  onClick={handleCooked}
+                  disabled={cookedRecipe === recipe}
+                >
+                  {cookedRecipe === recipe ? 'Pantry updated' : 'Cooked it — update pantry'}
+                </button>
+              )}
             </div>
 
             <div className="instructions-panel">
-              <h3>Instructions</h3>
-              <InstructionsList instructions={scaledRecipe.instructions} />
+              <h3>
+                Instructions
+                {scaledRecipe.scaledInstructions.length > 0 && (
+                  <button
+                    type="button"
+                    className="cook-mode-button"
+                    onClick={() => setCooking(true)}
+                  >
+                    Cook mode
+                  </button>
+                )}
+              </h3>
+              <InstructionsList instructions={scaledRecipe.scaledInstructions} />
             </div>
           </div>
+
+          {cooking && (
+            <CookMode
+              key={recipe.id || recipe.source.url}
+              recipeKey={recipe.id || recipe.source.url}
+              title={recipe.title}
+              instructions={scaledRecipe.scaledInstructions}
+              ingredients={smartScaledIngredients || scaledRecipe.scaledIngredients}
+              onClose={() => setCooking(false)}
+            />
+          )}
         </section>
       )}
 
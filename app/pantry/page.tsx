@@ -0,0 +1,149 @@
+'use client';
+
+/**
+ * Pantry page - ingredients on hand, used to mark recipe lines and shopping items as covered
+ */
+
+import { FormEvent, useState } from 'react';
+import { usePantry } from '@/hooks/usePantry';
+import { UNITS } from '@/constants';
+import type { PantryItem } from '@/types';
+import './page.css';
+
+const UNIT_OPTIONS = Object.keys(UNITS);
+
+function parseQuantity(value: string): number | null {
+  return value.trim() === '' ? null : Number(value);
+}
+
+export default function PantryPage() {
+  const { items, loading, addItem, updateAmount, removeItem } = usePantry();
+  const [name, setName] = useState('');
+  const [quantity, setQuantity] = useState('');
+  const [unit, setUnit] = useState('');
+  const [error, setError] = useState<string | null>(null);
+
+  const handleAdd = async (e: FormEvent) => {
+    e.preventDefault();
+    try {
+      await addItem({ name, quantity: parseQuantity(quantity), unit });
+      setName('');
+      setQuantity('');
+      setUnit('');
+      setError(null);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to add pantry item');
+    }
+  };
+
+  const handleQuantityChange = async (item: PantryItem, value: string) => {
+    const next = parseQuantity(value);
+    if (next === item.quantity) return;
+    try {
+      await updateAmount(item.id, next, next === null ? null : item.unit);
+      setError(null);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to update pantry item');
+    }
+  };
+
+  return (
+    <div className="pantry-page">
+      <div className="pantry-page__header">
+        <h1>Pantry</h1>
+        <p className="pantry-page__subtitle">
+          Keep track of what you have, and recipes will show what you still need to buy
+        </p>
+      </div>
+
+      <form className="pantry-page__form" onSubmit={handleAdd}>
+        <input
+          type="text"
+          className="pantry-page__input pantry-page__input--name"
+          placeholder="Ingredient (e.g., flour)"
+          value={name}
+          onChange={(e) => setName(e.target.value)}
+          aria-label="Ingredient"
+        />
+        <input
+          type="number"
+          min="0"
+          step="any"
+          className="pantry-page__input pantry-page__input--quantity"
+          placeholder="Amount"
+          value={quantity}
+          onChange={(e) => setQuantity(e.target.value)}
+          aria-label="Amount"
+        />
+        <input
+          type="text"
+          className="pantry-page__input pantry-page__input--unit"
+          placeholder="Unit"
+          list="pantry-units"
+          value={unit}
+          onChange={(e) => setUnit(e.target.value)}
+          aria-label="Unit"
+        />
+        <datalist id="pantry-units">
+          {UNIT_OPTIONS.map((option) => (
+            <option key={option} value={option} />
+          ))}
+        </datalist>
+        <button
+          type="submit"
+          className="pantry-page__button pantry-page__button--primary"
+          disabled={!name.trim()}
+        >
+          Add
+        </button>
+      </form>
+
+      {error && (
+        <div className="pantry-page__error" role="alert">
+          {error}
+        </div>
+      )}
+
+      {loading ? (
+        <p className="pantry-page__muted">Loading...</p>
+      ) : items.length === 0 ? (
+        <p className="pantry-page__muted">
+          Your pantry is empty. Leave the amount blank for staples you always have.
+        </p>
+      ) : (
+        <ul className="pantry-page__list">
+          {items.map((item) => (
+            <li key={item.id} className="pantry-item">
+              <span className="pantry-item__name">{item.name}</span>
+              <span className="pantry-item__amount">
+                <input
+                  // Remount when the amount changes elsewhere (e.g., after cooking)
+                  key={`${item.quantity}-${item.unit}`}
+                  type="number"
+                  min="0"
+                  step="any"
+                  className="pantry-page__input pantry-page__input--quantity"
+                  defaultValue={item.quantity ?? ''}
+                  placeholder="Some"
+                  onBlur={(e) => handleQuantityChange(item, e.target.value)}
+                  aria-label={`Amount of ${item.name}`}
+                />
+                {item.unit && (
+                  <span className="pantry-item__unit">{UNITS[item.unit]?.name ?? item.unit}</span>
+                )}
+              </span>
+              <button
+                type="button"
+                className="pantry-item__remove"
+                onClick={() => removeItem(item.id)}
+                aria-label={`Remove ${item.name}`}
+              >
+                ×
+              </button>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,61 @@
+'use client';
+
+/**
+ * Recipe edit page - edits a saved recipe and its version history
+ */
+
+import { useRouter } from 'next/navigation';
+import Link from 'next/link';
+import { RecipeEditor } from '@/components/editor';
+import { useFavorites } from '@/contexts/FavoritesContext';
+import './page.css';
+
+interface EditRecipePageProps {
+  params: { id: string };
+}
+
+export default function EditRecipePage({ params }: EditRecipePageProps) {
+  const router = useRouter();
+  const { favorites, loading, updateRecipeContent } = useFavorites();
+
+  const id = decodeURIComponent(params.id);
+  const recipe = favorites.find((r) => r.id === id);
+
+  if (loading) {
+    return (
+      <div className="edit-recipe-page">
+        <p className="edit-recipe-page__muted">Loading...</p>
+      </div>
+    );
+  }
+
+  if (!recipe) {
+    return (
+      <div className="edit-recipe-page">
+        <div className="edit-recipe-page__header">
+          <h1>Recipe not found</h1>
+          <p className="edit-recipe-page__muted">
+            Only saved recipes can be edited. <Link href="/favorites">Back to favorites</Link>
+          </p>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="edit-recipe-page">
+      <div className="edit-recipe-page__header">
+        <h1>Edit Recipe</h1>
+        <p className="edit-recipe-page__muted">
+          Changes are saved as new versions, so you can always go back
+        </p>
+      </div>
+
+      <RecipeEditor
+        recipe={recipe}
+        onSave={(content, versions) => updateRecipeContent(id, content, versions)}
+        onCancel={() => router.push('/favorites')}
+      />
+    </div>
+  );
+}
@@ -0,0 +1,119 @@
+/**
+ * Shared page - public, read-only view of a recipe or collection share link
+ * Rendered on the server; the link is checked through lib/supabase/server
+ */
+
+import type { Metadata } from 'next';
+import Link from 'next/link';
+import RecipeCard from '@/components/recipe/RecipeCard';
+import IngredientList from '@/components/recipe/IngredientList';
+import InstructionsList from '@/components/recipe/InstructionsList';
+import { getShareLink } from '@/lib/supabase/server';
+import { shareService } from '@/lib/share';
+import { scalingService } from '@/lib/scaling';
+import { Recipe, ScaledRecipe, ShareLinkStatus } from '@/types';
+import './page.css';
+
+export const metadata: Metadata = {
+  title: 'Shared recipe · Recipe Journal',
+  robots: { index: false, follow: false },
+};
+
+const UNAVAILABLE_MESSAGES: Record<Exclude<ShareLinkStatus, 'active'> | 'missing', string> = {
+  missing: 'This share link does not exist.',
+  expired: 'This share link has expired.',
+  revoked: 'This share link has been turned off by its owner.',
+};
+
+interface SharedRecipeProps {
+  recipe: Recipe;
+  scaled: ScaledRecipe;
+  multiplier: number;
+  anchor: string;
+}
+
+function SharedRecipe({ recipe, scaled, multiplier, anchor }: SharedRecipeProps) {
+  const { scaledServings } = scaled.scaling;
+
+  return (
+    <section className="shared-page__recipe" id={anchor}>
+      <RecipeCard recipe={recipe} scaledServings={scaledServings} multiplier={multiplier} />
+
+      <div className="shared-page__content">
+        <div className="shared-page__panel">
+          <h3>
+            Ingredients
+            <span className="shared-page__servings">
+              ({scaledServings.amount} {scaledServings.unit || 'servings'})
+            </span>
+          </h3>
+          <IngredientList ingredients={scaled.scaledIngredients} />
+        </div>
+
+        <div className="shared-page__panel">
+          <h3>Instructions</h3>
+          <InstructionsList instructions={scaled.scaledInstructions} />
+        </div>
+      </div>
+    </section>
+  );
+}
+
+export default async function SharedPage({ params }: { params: { token: string } }) {
+  const link = await getShareLink(params.token);
+  const status = link ? shareService.getStatus(link) : 'missing';
+
+  if (!link?.content || status !== 'active') {
+    return (
+      <div className="shared-page shared-page--unavailable">
+        <h1>Recipe unavailable</h1>
+        <p>{UNAVAILABLE_MESSAGES[status === 'active' ? 'missing' : status]}</p>
+        <Link href="/" className="shared-page__home">
+          Go to Recipe Journal
+        </Link>
+      </div>
+    );
+  }
+
+  const { content, multiplier } = link;
+  const recipes = content.type === 'recipe' ? [content.recipe] : content.recipes;
+  const scaled = await Promise.all(
+    recipes.map((recipe) => scalingService.scaleRecipe(recipe, { multiplier }))
+  );
+  const anchors = recipes.map((_, index) => `recipe-${index + 1}`);
+
+  return (
+    <div className="shared-page">
+      {content.type === 'collection' && (
+        <header className="shared-page__header">
+          {content.coverImage && (
+            <img className="shared-page__cover" src={content.coverImage} alt="" />
+          )}
+          <h1>{content.name}</h1>
+          {content.description && <p>{content.description}</p>}
+          <nav className="shared-page__contents" aria-label="Recipes in this collection">
+            {recipes.map((recipe, index) => (
+              <a key={anchors[index]} href={`#${anchors[index]}`}>
+                {recipe.title}
+              </a>
+            ))}
+          </nav>
+        </header>
+      )}
+
+      <p className="shared-page__note">
+        Shared read-only{multiplier !== 1 && ` at ${multiplier}x scale`}.
+      </p>
+
+      {recipes.map((recipe, index) => (
+        <SharedRecipe
+          key={anchors[index]}
+          recipe={recipe}
+          scaled={scaled[index]}
+          multiplier={multiplier}
+          anchor={anchors[index]}
+        />
+      ))}
+    </div>
+  );
+}
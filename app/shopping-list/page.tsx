@@ -0,0 +1,212 @@
+'use client';
+
+/**
+ * Shopping list page - builds a combined list from saved recipes
+ */
+
+import { useState } from 'react';
+import { AisleGroup, RecipePicker } from '@/components/shopping';
+import { useFavorites } from '@/contexts/FavoritesContext';
+import { useShoppingList } from '@/hooks/useShoppingList';
+import { usePantry } from '@/hooks/usePantry';
+import { shoppingListService, type ShoppingListRecipeInput } from '@/lib/shopping';
+import './page.css';
+
+function defaultListName(): string {
+  return `Shopping ${new Date().toLocaleDateString(undefined, { month: 'short', day: 'numeric' })}`;
+}
+
+export default function ShoppingListPage() {
+  const { favorites, loading: favoritesLoading } = useFavorites();
+  const {
+    lists,
+    activeList,
+    loading,
+    selectList,
+    createList,
+    addRecipes,
+    toggleItem,
+    clearChecked,
+    checkOffPantry,
+    deleteList,
+  } = useShoppingList();
+  const { items: pantryItems } = usePantry();
+
+  const [selected, setSelected] = useState<Map<string, number>>(new Map());
+  const [listName, setListName] = useState('');
+  const [message, setMessage] = useState<string | null>(null);
+
+  const selectedInputs = (): ShoppingListRecipeInput[] =>
+    favorites
+      .filter((recipe) => recipe.id && selected.has(recipe.id))
+      .map((recipe) => ({ recipe, multiplier: selected.get(recipe.id!) }));
+
+  const handleCreate = async () => {
+    const inputs = selectedInputs();
+    if (inputs.length === 0) return;
+    await createList(listName.trim() || defaultListName(), inputs);
+    setSelected(new Map());
+    setListName('');
+    setMessage(null);
+  };
+
+  const handleAddToCurrent = async () => {
+    const inputs = selectedInputs();
+    if (inputs.length === 0) return;
+    await addRecipes(inputs);
+    setSelected(new Map());
+    setMessage(`Added ${inputs.length} recipe${inputs.length === 1 ? '' : 's'} to the list.`);
+  };
+
+  const handleCopy = async () => {
+    if (!activeList) return;
+    try {
+      await navigator.clipboard.writeText(shoppingListService.formatForClipboard(activeList));
+      setMessage('Copied to clipboard.');
+    } catch {
+      setMessage('Could not copy to clipboard.');
+    }
+  };
+
+  const handleCheckOffPantry = async () => {
+    const count = await checkOffPantry(pantryItems);
+    setMessage(
+      count > 0
+        ? `Checked off ${count} item${count === 1 ? '' : 's'} from the pantry.`
+        : 'Nothing left on this list is covered by the pantry.'
+    );
+  };
+
+  const groups = activeList ? shoppingListService.groupByAisle(activeList.items) : [];
+  const checkedCount = activeList?.items.filter((item) => item.checked).length ?? 0;
+
+  return (
+    <div className="shopping-page">
+      <div className="shopping-page__header">
+        <h1>Shopping List</h1>
+        <p className="shopping-page__subtitle">
+          Combine ingredients from your saved recipes, grouped by aisle
+        </p>
+      </div>
+
+      <div className="shopping-page__layout">
+        <aside className="shopping-page__builder">
+          <h2>Recipes</h2>
+          {favoritesLoading ? (
+            <p className="shopping-page__muted">Loading...</p>
+          ) : (
+            <RecipePicker recipes={favorites} selected={selected} onChange={setSelected} />
+          )}
+
+          <input
+            type="text"
+            className="shopping-page__name-input"
+            placeholder={defaultListName()}
+            value={listName}
+            onChange={(e) => setListName(e.target.value)}
+            aria-label="List name"
+          />
+
+          <div className="shopping-page__builder-actions">
+            <button
+              type="button"
+              className="shopping-page__button shopping-page__button--primary"
+              onClick={handleCreate}
+              disabled={selected.size === 0}
+            >
+              Create list
+            </button>
+            {activeList && (
+              <button
+                type="button"
+                className="shopping-page__button"
+                onClick={handleAddToCurrent}
+                disabled={selected.size === 0}
+              >
+                Add to current list
+              </button>
+            )}
+          </div>
+        </aside>
+
+        <section className="shopping-page__list">
+          {loading ? (
+            <p className="shopping-page__muted">Loading...</p>
+          ) : !activeList ? (
+            <p className="shopping-page__muted">
+              Pick some recipes and create a list to get started.
+            </p>
+          ) : (
+            <>
+              <div className="shopping-page__list-header">
+                {lists.length > 1 ? (
+                  <select
+                    className="shopping-page__list-select"
+                    value={activeList.id}
+                    onChange={(e) => selectList(e.target.value)}
+                    aria-label="Shopping list"
+                  >
+                    {lists.map((list) => (
+                      <option key={list.id} value={list.id}>
+                        {list.name}
+                      </option>
+                    ))}
+                  </select>
+                ) : (
+                  <h2>{activeList.name}</h2>
+                )}
+                <p className="shopping-page__muted">
+                  {activeList.items.length - checkedCount} of {activeList.items.length} items left
+                  {activeList.recipes.length > 0 &&
+                    ` · ${activeList.recipes.map((r) => r.title).join(', ')}`}
+                </p>
+              </div>
+
+              <div className="shopping-page__list-actions">
+                <button type="button" className="shopping-page__button" onClick={handleCopy}>
+                  Copy
+                </button>
+                <button
+                  type="button"
+                  className="shopping-page__button"
+                  onClick={clearChecked}
+                  disabled={checkedCount === 0}
+                >
+                  Clear checked
+                </button>
+                {pantryItems.length > 0 && (
+                  <button
+                    type="button"
+                    className="shopping-page__button"
+                    onClick={handleCheckOffPantry}
+                  >
+                    Check off pantry items
+                  </button>
+                )}
+                <button
+                  type="button"
+                  className="shopping-page__button shopping-page__button--danger"
+                  onClick={() => deleteList(activeList.id)}
+                >
+                  Delete list
+                </button>
+              </div>
+
+              {message && (
+                <div className="shopping-page__message" role="status">
+                  {message}
+                </div>
+              )}
+
+              <div className="shopping-page__groups">
+                {groups.map((group) => (
+                  <AisleGroup key={group.aisle} group={group} onToggle={toggleItem} />
+                ))}
+              </div>
+            </>
+          )}
+        </section>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,42 @@
+import { render, screen } from '@testing-library/react';
+import userEvent from '@testing-library/user-event';
+import SyncConflicts from './SyncConflicts';
+
+describe('SyncConflicts', () => {
+  const conflicts = [
+    {
+      recipeId: 'recipe-1',
+      title: 'Tomato Soup',
+      fields: [
+        { field: 'title' as const, local: 'Weeknight Soup', remote: 'Roasted Tomato Soup' },
+        { field: 'tags' as const, local: ['soup'], remote: [] },
+      ],
+    },
+  ];
+
+  it('renders nothing without conflicts', () => {
+    const { container } = render(<SyncConflicts conflicts={[]} onResolve={jest.fn()} />);
+    expect(container.firstChild).toBeNull();
+  });
+
+  it('shows both versions and keeps this device by default', async () => {
+    const onResolve = jest.fn();
+    render(<SyncConflicts conflicts={conflicts} onResolve={onResolve} />);
+
+    expect(screen.getByText('Roasted Tomato Soup')).not.toBeNull();
+    expect(screen.getByText('(none)')).not.toBeNull();
+
+    await userEvent.click(screen.getByRole('button', { name: 'Keep selected' }));
+    expect(onResolve).toHaveBeenCalledWith('recipe-1', {});
+  });
+
+  it('sends the versions picked from the other device', async () => {
+    const onResolve = jest.fn();
+    render(<SyncConflicts conflicts={conflicts} onResolve={onResolve} />);
+
+    await userEvent.click(screen.getByRole('radio', { name: /Roasted Tomato Soup/ }));
+    await userEvent.click(screen.getByRole('button', { name: 'Keep selected' }));
+
+    expect(onResolve).toHaveBeenCalledWith('recipe-1', { title: 'remote' });
+  });
+});
@@ -0,0 +1,131 @@
+'use client';
+
+/**
+ * Sync Conflicts - lets the user pick between this device's and the other
+ * device's version of fields that couldn't be merged automatically
+ */
+
+import { useState } from 'react';
+import type { MergeableRecipeField } from '@/lib/offline';
+import type { RecipeConflict } from '@/services/sync';
+import type { Instruction, ParsedIngredient } from '@/types';
+import './SyncConflicts.css';
+
+type Choice = 'local' | 'remote';
+
+interface SyncConflictsProps {
+  conflicts: RecipeConflict[];
+  onResolve: (
+    recipeId: string,
+    choices: Partial<Record<MergeableRecipeField, Choice>>
+  ) => Promise<void> | void;
+}
+
+const FIELD_LABELS: Record<MergeableRecipeField, string> = {
+  title: 'Title',
+  description: 'Description',
+  notes: 'Notes',
+  tags: 'Tags',
+  is_favorite: 'Favorite',
+  ingredients: 'Ingredients',
+  instructions: 'Instructions',
+  nutrition: 'Nutrition',
+  nutrition_estimate: 'Nutrition estimate',
+  last_scale_multiplier: 'Scale',
+};
+
+/**
+ * Short, readable version of a field value
+ */
+function describeValue(field: MergeableRecipeField, value: unknown): string {
+  if (value === null || value === undefined || value === '') return '(empty)';
+
+  switch (field) {
+    case 'tags':
+      return (value as string[]).join(', ') || '(none)';
+    case 'is_favorite':
+      return value ? 'Yes' : 'No';
+    case 'ingredients':
+      return (value as ParsedIngredient[]).map((i) => i.original).join('\n');
+    case 'instructions':
+      return (value as Instruction[]).map((step, index) => `${index + 1}. ${step.text}`).join('\n');
+    case 'last_scale_multiplier':
+      return `${value}x`;
+    case 'nutrition':
+    case 'nutrition_estimate':
+      return 'Edited nutrition';
+    default:
+      return String(value);
+  }
+}
+
+function ConflictItem({
+  conflict,
+  onResolve,
+}: {
+  conflict: RecipeConflict;
+  onResolve: SyncConflictsProps['onResolve'];
+}) {
+  const [choices, setChoices] = useState<Partial<Record<MergeableRecipeField, Choice>>>({});
+  const [saving, setSaving] = useState(false);
+
+  const handleSave = async () => {
+    setSaving(true);
+    try {
+      await onResolve(conflict.recipeId, choices);
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <li className="sync-conflicts__recipe">
+      <h4 className="sync-conflicts__title">{conflict.title}</h4>
+
+      {conflict.fields.map(({ field, local, remote }) => (
+        <fieldset key={field} className="sync-conflicts__field">
+          <legend>{FIELD_LABELS[field]}</legend>
+          {(['local', 'remote'] as const).map((side) => (
+            <label key={side} className="sync-conflicts__option">
+              <input
+                type="radio"
+                name={`${conflict.recipeId}-${field}`}
+                checked={(choices[field] ?? 'local') === side}
+                onChange={() => setChoices((prev) => ({ ...prev, [field]: side }))}
+              />
+              <span className="sync-conflicts__side">
+                {side === 'local' ? 'This device' : 'Other device'}
+              </span>
+              <span className="sync-conflicts__value">
+                {describeValue(field, side === 'local' ? local : remote)}
+              </span>
+            </label>
+          ))}
+        </fieldset>
+      ))}
+
+      <button type="button" className="sync-conflicts__save" onClick={handleSave} disabled={saving}>
+        {saving ? 'Saving…' : 'Keep selected'}
+      </button>
+    </li>
+  );
+}
+
+export default function SyncConflicts({ conflicts, onResolve }: SyncConflictsProps) {
+  if (conflicts.length === 0) {
+    return null;
+  }
+
+  return (
+    <div className="sync-conflicts" role="dialog" aria-label="Sync conflicts">
+      <p className="sync-conflicts__intro">
+        These recipes were edited on another device too. Pick which version to keep.
+      </p>
+      <ul className="sync-conflicts__list">
+        {conflicts.map((conflict) => (
+          <ConflictItem key={conflict.recipeId} conflict={conflict} onResolve={onResolve} />
+        ))}
+      </ul>
+    </div>
+  );
+}
@@ -0,0 +1,79 @@
+import { render, screen } from '@testing-library/react';
+import userEvent from '@testing-library/user-event';
+import SyncDiagnostics from './SyncDiagnostics';
+import type { DeadSyncOperation, SyncOperation } from '@/lib/offline';
+
+describe('SyncDiagnostics', () => {
+  const pending: SyncOperation[] = [
+    {
+      id: 1,
+      operation: 'update',
+      recipeId: 'recipe-1',
+      userId: 'user-1',
+      data: { title: 'Tomato Soup' },
+      createdAt: '2026-10-18T10:00:00.000Z',
+      retryCount: 1,
+      lastError: 'Network request failed',
+      nextAttemptAt: '2099-01-01T00:00:00.000Z',
+    },
+  ];
+  const failed: DeadSyncOperation[] = [
+    {
+      id: 7,
+      operation: 'delete',
+      entity: 'collection',
+      recipeId: 'collection-1',
+      userId: 'user-1',
+      createdAt: '2026-10-18T09:00:00.000Z',
+      retryCount: 5,
+      lastError: 'permission denied for table collections',
+      failedAt: '2026-10-18T09:30:00.000Z',
+    },
+  ];
+
+  const renderPanel = (overrides: Partial<Parameters<typeof SyncDiagnostics>[0]> = {}) => {
+    const props = {
+      pending,
+      failed,
+      onRetryPending: jest.fn(),
+      onDiscardPending: jest.fn(),
+      onRetryFailed: jest.fn(),
+      onDiscardFailed: jest.fn(),
+      onExport: jest.fn(),
+      ...overrides,
+    };
+    render(<SyncDiagnostics {...props} />);
+    return props;
+  };
+
+  it('lists pending and failed operations with their last error', () => {
+    renderPanel();
+
+    expect(screen.getByText('Update recipe "Tomato Soup"')).not.toBeNull();
+    expect(screen.getByText(/^Attempt 2, next try/)).not.toBeNull();
+    expect(screen.getByText('Network request failed')).not.toBeNull();
+    expect(screen.getByText('Delete collection')).not.toBeNull();
+    expect(screen.getByText('permission denied for table collections')).not.toBeNull();
+  });
+
+  it('retries, discards and exports', async () => {
+    const props = renderPanel();
+
+    await userEvent.click(screen.getByRole('button', { name: 'Retry Delete collection' }));
+    await userEvent.click(
+      screen.getByRole('button', { name: 'Discard Update recipe "Tomato Soup"' })
+    );
+    await userEvent.click(screen.getByRole('button', { name: 'Export details' }));
+
+    expect(props.onRetryFailed).toHaveBeenCalledWith(7);
+    expect(props.onDiscardPending).toHaveBeenCalledWith(1);
+    expect(props.onExport).toHaveBeenCalled();
+  });
+
+  it('shows empty states', () => {
+    renderPanel({ pending: [], failed: [] });
+
+    expect(screen.getByText('Everything is synced.')).not.toBeNull();
+    expect(screen.getByText('Nothing has failed.')).not.toBeNull();
+  });
+});
@@ -0,0 +1,161 @@
+'use client';
+
+/**
+ * Sync Diagnostics - lists queued and failed sync operations with their last
+ * error, with retry, discard and export actions
+ */
+
+import type { DeadSyncOperation, SyncEntityType, SyncOperation } from '@/lib/offline';
+import './SyncDiagnostics.css';
+
+interface SyncDiagnosticsProps {
+  pending: SyncOperation[];
+  failed: DeadSyncOperation[];
+  onRetryPending: (id: number) => void;
+  onDiscardPending: (id: number) => void;
+  onRetryFailed: (id: number) => void;
+  onDiscardFailed: (id: number) => void;
+  onExport: () => void;
+}
+
+const ENTITY_LABELS: Record<SyncEntityType, string> = {
+  recipe: 'recipe',
+  'shopping-list': 'shopping list',
+  'meal-plan': 'meal plan entry',
+  pantry: 'pantry item',
+  collection: 'collection',
+};
+
+const OPERATION_LABELS: Record<SyncOperation['operation'], string> = {
+  create: 'Add',
+  update: 'Update',
+  delete: 'Delete',
+};
+
+/**
+ * e.g. 'Update recipe "Tomato Soup"'
+ */
+function describeOperation(op: SyncOperation | DeadSyncOperation): string {
+  const data = op.data as { title?: string; name?: string } | undefined;
+  const name = data?.title || data?.name;
+  const label = `${OPERATION_LABELS[op.operation]} ${ENTITY_LABELS[op.entity ?? 'recipe']}`;
+  return name ? `${label} "${name}"` : label;
+}
+
+function formatTime(iso: string): string {
+  return new Date(iso).toLocaleString(undefined, {
+    month: 'short',
+    day: 'numeric',
+    hour: 'numeric',
+    minute: '2-digit',
+  });
+}
+
+function OperationItem({
+  op,
+  detail,
+  onRetry,
+  onDiscard,
+}: {
+  op: SyncOperation | DeadSyncOperation;
+  detail: string | null;
+  onRetry: () => void;
+  onDiscard: () => void;
+}) {
+  const description = describeOperation(op);
+
+  return (
+    <li className="sync-diagnostics__item">
+      <div className="sync-diagnostics__summary">
+        <span className="sync-diagnostics__name">{description}</span>
+        {detail && <span className="sync-diagnostics__detail">{detail}</span>}
+      </div>
+      {op.lastError && <p className="sync-diagnostics__error">{op.lastError}</p>}
+      <div className="sync-diagnostics__actions">
+        <button type="button" onClick={onRetry} aria-label={`Retry ${description}`}>
+          Retry
+        </button>
+        <button
+          type="button"
+          className="sync-diagnostics__discard"
+          onClick={onDiscard}
+          aria-label={`Discard ${description}`}
+        >
+          Discard
+        </button>
+      </div>
+    </li>
+  );
+}
+
+export default function SyncDiagnostics({
+  pending,
+  failed,
+  onRetryPending,
+  onDiscardPending,
+  onRetryFailed,
+  onDiscardFailed,
+  onExport,
+}: SyncDiagnosticsProps) {
+  const now = Date.now();
+
+  return (
+    <div className="sync-diagnostics" role="dialog" aria-label="Sync details">
+      <section className="sync-diagnostics__section">
+        <h4 className="sync-diagnostics__heading">Failed ({failed.length})</h4>
+        {failed.length === 0 ? (
+          <p className="sync-diagnostics__empty">Nothing has failed.</p>
+        ) : (
+          <>
+            <p className="sync-diagnostics__hint">
+              These changes stopped retrying. Retry them, or discard them to keep the cloud copy.
+            </p>
+            <ul className="sync-diagnostics__list">
+              {failed.map((op) => (
+                <OperationItem
+                  key={op.id}
+                  op={op}
+                  detail={`Failed ${formatTime(op.failedAt)}`}
+                  onRetry={() => onRetryFailed(op.id!)}
+                  onDiscard={() => onDiscardFailed(op.id!)}
+                />
+              ))}
+            </ul>
+          </>
+        )}
+      </section>
+
+      <section className="sync-diagnostics__section">
+        <h4 className="sync-diagnostics__heading">Waiting to sync ({pending.length})</h4>
+        {pending.length === 0 ? (
+          <p className="sync-diagnostics__empty">Everything is synced.</p>
+        ) : (
+          <ul className="sync-diagnostics__list">
+            {pending.map((op) => (
+              <OperationItem
+                key={op.id}
+                op={op}
+                detail={
+                  op.nextAttemptAt && new Date(op.nextAttemptAt).getTime() > now
+                    ? `Attempt ${op.retryCount + 1}, next try ${formatTime(op.nextAttemptAt)}`
+                    : null
+                }
+                onRetry={() => onRetryPending(op.id!)}
+                onDiscard={() => onDiscardPending(op.id!)}
+              />
+            ))}
+          </ul>
+        )}
+      </section>
+
+      <button
+        type="button"
+        className="sync-diagnostics__export"
+        onClick={onExport}
+        disabled={pending.length === 0 && failed.length === 0}
+      >
+        Export details
+      </button>
+    </div>
+  );
+}
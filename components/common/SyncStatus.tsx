@@ -5,8 +5,10 @@
  */
 
 import { useState } from 'react';
-import { useSync } from '@/hooks';
+import { useSync, useSyncDiagnostics } from '@/hooks';
 import { useAuth } from '@/contexts/AuthContext';
+import SyncConflicts from './SyncConflicts';
+import SyncDiagnostics from './SyncDiagnostics';
 import './SyncStatus.css';
 
 interface SyncStatusProps {
@@ -19,8 +21,10 @@ export default function SyncStatus({
   showLabel = false,
 }: SyncStatusProps) {
   const { user } = useAuth();
-  const { syncStatus, isSyncing, sync } = useSync();
+  const { syncStatus, isSyncing, sync, conflicts, resolveConflicts } = useSync();
   const [showTooltip, setShowTooltip] = useState(false);
+  const [openPanel, setOpenPanel] = useState<'conflicts' | 'diagnostics' | null>(null);
+  const diagnostics = useSyncDiagnostics(openPanel === 'diagnostics');
 
   // Don't show for guests
   if (!user) {
@@ -28,6 +32,24 @@ export default function SyncStatus({
   }
 
   const hasPending = syncStatus.pendingOperations > 0;
+  const hasConflicts = conflicts.length > 0;
+  const hasFailed = syncStatus.failedOperations > 0;
+  const showConflicts = hasConflicts && openPanel === 'conflicts';
+
+  const togglePanel = (panel: 'conflicts' | 'diagnostics') => {
+    setOpenPanel((open) => (open === panel ? null : panel));
+  };
+
+  const handleExport = () => {
+    const url = URL.createObjectURL(
+      new Blob([diagnostics.getReport()], { type: 'application/json' })
+    );
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = `sync-diagnostics-${new Date().toISOString().slice(0, 10)}.json`;
+    link.click();
+    URL.revokeObjectURL(url);
+  };
 
   const handleSync = async () => {
     if (!isSyncing) {
@@ -37,6 +59,8 @@ export default function SyncStatus({
 
   const getStatusText = () => {
     if (isSyncing) return 'Syncing...';
+    if (hasConflicts) return `${conflicts.length} to review`;
+    if (hasFailed) return `${syncStatus.failedOperations} failed`;
     if (hasPending) return `${syncStatus.pendingOperations} pending`;
     if (syncStatus.lastSyncAt) {
       const lastSync = new Date(syncStatus.lastSyncAt);
@@ -81,11 +105,48 @@ export default function SyncStatus({
         )}
       </button>
 
+      {hasConflicts && (
+        <button
+          className="sync-status__conflicts"
+          onClick={() => togglePanel('conflicts')}
+          aria-expanded={showConflicts}
+        >
+          {conflicts.length} to review
+        </button>
+      )}
+
+      {showConflicts && (
+        <SyncConflicts conflicts={conflicts} onResolve={resolveConflicts} />
+      )}
+
+      {(hasPending || hasFailed || openPanel === 'diagnostics') && (
+        <button
+          className={`sync-status__details ${hasFailed ? 'sync-status__details--failed' : ''}`}
+          onClick={() => togglePanel('diagnostics')}
+          aria-expanded={openPanel === 'diagnostics'}
+          title="Sync details"
+        >
+          {hasFailed ? `${syncStatus.failedOperations} failed` : 'Details'}
+        </button>
+      )}
+
+      {openPanel === 'diagnostics' && (
+        <SyncDiagnostics
+          pending={diagnostics.pending}
+          failed={diagnostics.failed}
+          onRetryPending={diagnostics.retryPending}
+          onDiscardPending={diagnostics.discardPending}
+          onRetryFailed={diagnostics.retryFailed}
+          onDiscardFailed={diagnostics.discardFailed}
+          onExport={handleExport}
+        />
+      )}
+
       {showLabel && (
         <span className="sync-status__label">{getStatusText()}</span>
       )}
 
-      {showTooltip && !showLabel && (
+      {showTooltip && !showLabel && !showConflicts && openPanel !== 'diagnostics' && (
         <div className="sync-status__tooltip">{getStatusText()}</div>
       )}
     </div>
@@ -6,4 +6,6 @@ export { default as ErrorMessage } from './ErrorMessage';
 export { default as LoadingSpinner } from './LoadingSpinner';
 export { default as OfflineBanner } from './OfflineBanner';
 export { default as SyncStatus } from './SyncStatus';
+export { default as SyncConflicts } from './SyncConflicts';
+export { default as SyncDiagnostics } from './SyncDiagnostics';
 export { default as InstallPrompt } from './InstallPrompt';
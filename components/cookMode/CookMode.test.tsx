@@ -0,0 +1,88 @@
+import { act, fireEvent, render, screen } from '@testing-library/react';
+import CookMode from './CookMode';
+import { Instruction, ScaledIngredient } from '@/types';
+import { ingredientParser } from '@/lib/ingredient';
+import { scalingService } from '@/lib/scaling';
+
+describe('CookMode', () => {
+  const instructions: Instruction[] = [
+    { step: 1, text: 'Whisk the flour and salt.' },
+    {
+      step: 2,
+      text: 'Bake for 25 minutes.',
+      time: { value: 25, unit: 'minutes', originalText: '25 minutes' },
+    },
+  ];
+
+  const ingredients: ScaledIngredient[] = ['2 cups flour', '1 tsp salt', '2 eggs'].map((line) =>
+    scalingService.scaleIngredientForDisplay(ingredientParser.parseIngredient(line), 2)
+  );
+
+  const renderCookMode = (onClose = jest.fn()) =>
+    render(
+      <CookMode
+        recipeKey="recipe-1"
+        title="Bread"
+        instructions={instructions}
+        ingredients={ingredients}
+        onClose={onClose}
+      />
+    );
+
+  beforeEach(() => {
+    localStorage.clear();
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  it('shows one step with the scaled ingredients it mentions', () => {
+    const { container } = renderCookMode();
+
+    expect(screen.getByText('Whisk the flour and salt.')).not.toBeNull();
+    expect(screen.queryByText('Bake for 25 minutes.')).toBeNull();
+
+    const chips = container.querySelectorAll('.cook-mode__ingredients li');
+    expect(Array.from(chips).map((chip) => chip.textContent)).toEqual([
+      '4 cups flour',
+      '2 teaspoons salt',
+    ]);
+  });
+
+  it('moves between steps and finishes on the last one', () => {
+    const onClose = jest.fn();
+    renderCookMode(onClose);
+
+    fireEvent.click(screen.getByText('Next'));
+    expect(screen.getByText('Bake for 25 minutes.')).not.toBeNull();
+    expect(screen.getByText('Step 2 of 2')).not.toBeNull();
+
+    fireEvent.click(screen.getByText('Done'));
+    expect(onClose).toHaveBeenCalled();
+  });
+
+  it('resumes the saved step after a reload', () => {
+    const { unmount } = renderCookMode();
+    fireEvent.click(screen.getByText('Next'));
+    unmount();
+
+    renderCookMode();
+    expect(screen.getByText('Bake for 25 minutes.')).not.toBeNull();
+  });
+
+  it('starts a countdown timer from the step time', () => {
+    jest.useFakeTimers();
+    const { container } = renderCookMode();
+    fireEvent.click(screen.getByText('Next'));
+    fireEvent.click(screen.getByText('Start 25 minutes timer'));
+
+    expect(container.querySelector('.cook-timer__time')?.textContent).toBe('25:00');
+
+    act(() => {
+      jest.advanceTimersByTime(61_000);
+    });
+    expect(container.querySelector('.cook-timer__time')?.textContent).toBe('23:59');
+    expect(screen.getByText('Pause')).not.toBeNull();
+  });
+});
@@ -0,0 +1,202 @@
+'use client';
+
+/**
+ * Cook mode - one step at a time in large text, with the step's ingredients and timers
+ */
+
+import { useEffect, useMemo } from 'react';
+import { Instruction, ScaledIngredient } from '@/types';
+import { useCookMode } from '@/hooks/useCookMode';
+import { useWakeLock } from '@/hooks/useWakeLock';
+import { cookModeService, formatDuration } from '@/lib/cookMode';
+import './CookMode.css';
+
+interface CookModeProps {
+  /** Recipe ID or source URL, used to save progress */
+  recipeKey: string;
+  title: string;
+  instructions: Instruction[];
+  /** Ingredients at the current scale */
+  ingredients: ScaledIngredient[];
+  onClose: () => void;
+}
+
+function CookMode({ recipeKey, title, instructions, ingredients, onClose }: CookModeProps) {
+  const {
+    stepIndex,
+    timers,
+    now,
+    nextStep,
+    previousStep,
+    goToStep,
+    startTimer,
+    pauseTimer,
+    resetTimer,
+    dismissTimer,
+    restart,
+  } = useCookMode(recipeKey, instructions);
+  const screenLocked = useWakeLock(true);
+
+  const instruction = instructions[stepIndex];
+  const isLastStep = stepIndex >= instructions.length - 1;
+  const stepTimer = timers.find((timer) => timer.step === instruction?.step);
+
+  const stepIngredients = useMemo(
+    () => (instruction ? cookModeService.findStepIngredients(instruction.text, ingredients) : []),
+    [instruction, ingredients]
+  );
+
+  // Arrow keys move between steps, Escape leaves
+  useEffect(() => {
+    const handleKeyDown = (event: KeyboardEvent) => {
+      if (event.key === 'ArrowRight') nextStep();
+      if (event.key === 'ArrowLeft') previousStep();
+      if (event.key === 'Escape') onClose();
+    };
+    document.addEventListener('keydown', handleKeyDown);
+    return () => document.removeEventListener('keydown', handleKeyDown);
+  }, [nextStep, previousStep, onClose]);
+
+  // Stop the page behind from scrolling
+  useEffect(() => {
+    const previous = document.body.style.overflow;
+    document.body.style.overflow = 'hidden';
+    return () => {
+      document.body.style.overflow = previous;
+    };
+  }, []);
+
+  const resumeTimer = (step: number) => {
+    const timerStep = instructions.find((i) => i.step === step);
+    if (timerStep) startTimer(timerStep);
+  };
+
+  if (!instruction) {
+    return null;
+  }
+
+  return (
+    <div className="cook-mode" role="dialog" aria-modal="true" aria-label={`Cook mode: ${title}`}>
+      <header className="cook-mode__header">
+        <div>
+          <h2 className="cook-mode__title">{title}</h2>
+          <p className="cook-mode__progress-label">
+            Step {stepIndex + 1} of {instructions.length}
+            {screenLocked && <span className="cook-mode__awake"> · Screen stays on</span>}
+          </p>
+        </div>
+        <div className="cook-mode__header-actions">
+          <button type="button" className="cook-mode__button" onClick={restart}>
+            Start over
+          </button>
+          <button
+            type="button"
+            className="cook-mode__button"
+            onClick={onClose}
+            aria-label="Exit cook mode"
+          >
+            ×
+          </button>
+        </div>
+      </header>
+
+      <div className="cook-mode__progress" aria-hidden="true">
+        {instructions.map((step, index) => (
+          <button
+            key={step.step}
+            type="button"
+            tabIndex={-1}
+            className={`cook-mode__progress-dot ${index <= stepIndex ? 'cook-mode__progress-dot--done' : ''}`}
+            onClick={() => goToStep(index)}
+          />
+        ))}
+      </div>
+
+      <main className="cook-mode__step">
+        {instruction.section && <p className="cook-mode__section">{instruction.section}</p>}
+        <p className="cook-mode__step-text">{instruction.text}</p>
+
+        {stepIngredients.length > 0 && (
+          <ul className="cook-mode__ingredients" aria-label="Ingredients for this step">
+            {stepIngredients.map((ingredient) => (
+              <li key={ingredient.id}>{ingredient.displayText}</li>
+            ))}
+          </ul>
+        )}
+
+        {instruction.time && (!stepTimer || stepTimer.status === 'done') && (
+          <button
+            type="button"
+            className="cook-mode__button cook-mode__button--timer"
+            onClick={() => startTimer(instruction)}
+          >
+            Start {instruction.time.value} {instruction.time.unit} timer
+          </button>
+        )}
+      </main>
+
+      {timers.length > 0 && (
+        <ul className="cook-mode__timers" aria-label="Timers">
+          {timers.map((timer) => (
+            <li
+              key={timer.id}
+              className={`cook-timer cook-timer--${timer.status}`}
+              role={timer.status === 'done' ? 'alert' : undefined}
+            >
+              <span className="cook-timer__label">{timer.label}</span>
+              <span className="cook-timer__time">
+                {timer.status === 'done'
+                  ? 'Done!'
+                  : formatDuration(cookModeService.getRemainingSeconds(timer, now))}
+              </span>
+              <span className="cook-timer__actions">
+                {timer.status === 'running' && (
+                  <button type="button" onClick={() => pauseTimer(timer.id)}>
+                    Pause
+                  </button>
+                )}
+                {(timer.status === 'paused' || timer.status === 'idle') && (
+                  <button type="button" onClick={() => resumeTimer(timer.step)}>
+                    {timer.status === 'paused' ? 'Resume' : 'Start'}
+                  </button>
+                )}
+                {timer.status !== 'idle' && timer.status !== 'done' && (
+                  <button type="button" onClick={() => resetTimer(timer.id)}>
+                    Reset
+                  </button>
+                )}
+                <button
+                  type="button"
+                  onClick={() => dismissTimer(timer.id)}
+                  aria-label={`Dismiss ${timer.label} timer`}
+                >
+                  ×
+                </button>
+              </span>
+            </li>
+          ))}
+        </ul>
+      )}
+
+      <footer className="cook-mode__nav">
+        <button
+          type="button"
+          className="cook-mode__button cook-mode__button--nav"
+          onClick={previousStep}
+          disabled={stepIndex === 0}
+        >
+          Back
+        </button>
+        <button
+          type="button"
+          className="cook-mode__button cook-mode__button--nav cook-mode__button--primary"
+          onClick={isLastStep ? onClose : nextStep}
+        >
+          {isLastStep ? 'Done' : 'Next'}
+        </button>
+      </footer>
+    </div>
+  );
+}
+
+export default CookMode;
@@ -0,0 +1 @@
+export { default as CookMode } from './CookMode';
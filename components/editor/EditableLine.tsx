@@ -0,0 +1,124 @@
+'use client';
+
+/**
+ * A single editable ingredient or instruction line with reorder/remove controls
+ */
+
+import { useEffect, useState } from 'react';
+import './EditableLine.css';
+
+interface EditableLineProps {
+  value: string;
+  label: string;
+  onCommit: (text: string) => void;
+  onRemove: () => void;
+  onMoveUp?: () => void;
+  onMoveDown?: () => void;
+  /** Shown before the input (e.g., step number) */
+  prefix?: string;
+  /** Shown under the input (e.g., how the line was parsed) */
+  hint?: string;
+  warning?: boolean;
+  multiline?: boolean;
+}
+
+function EditableLine({
+  value,
+  label,
+  onCommit,
+  onRemove,
+  onMoveUp,
+  onMoveDown,
+  prefix,
+  hint,
+  warning = false,
+  multiline = false,
+}: EditableLineProps) {
+  const [draft, setDraft] = useState(value);
+
+  useEffect(() => {
+    setDraft(value);
+  }, [value]);
+
+  const commit = () => {
+    const trimmed = draft.trim();
+    if (!trimmed) {
+      setDraft(value);
+      return;
+    }
+    if (trimmed !== value) {
+      onCommit(trimmed);
+    }
+  };
+
+  return (
+    <li className="editable-line">
+      {prefix && <span className="editable-line__prefix">{prefix}</span>}
+
+      <div className="editable-line__body">
+        {multiline ? (
+          <textarea
+            className="editable-line__input"
+            value={draft}
+            rows={2}
+            onChange={(e) => setDraft(e.target.value)}
+            onBlur={commit}
+            aria-label={label}
+          />
+        ) : (
+          <input
+            type="text"
+            className="editable-line__input"
+            value={draft}
+            onChange={(e) => setDraft(e.target.value)}
+            onBlur={commit}
+            onKeyDown={(e) => {
+              if (e.key === 'Enter') {
+                e.preventDefault();
+                commit();
+              }
+            }}
+            aria-label={label}
+          />
+        )}
+        {hint && (
+          <span className={`editable-line__hint ${warning ? 'editable-line__hint--warning' : ''}`}>
+            {hint}
+          </span>
+        )}
+      </div>
+
+      <div className="editable-line__controls">
+        <button
+          type="button"
+          onClick={onMoveUp}
+          disabled={!onMoveUp}
+          aria-label={`Move ${label} up`}
+          title="Move up"
+        >
+          ↑
+        </button>
+        <button
+          type="button"
+          onClick={onMoveDown}
+          disabled={!onMoveDown}
+          aria-label={`Move ${label} down`}
+          title="Move down"
+        >
+          ↓
+        </button>
+        <button
+          type="button"
+          className="editable-line__remove"
+          onClick={onRemove}
+          aria-label={`Remove ${label}`}
+          title="Remove"
+        >
+          ×
+        </button>
+      </div>
+    </li>
+  );
+}
+
+export default EditableLine;
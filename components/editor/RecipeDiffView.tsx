@@ -0,0 +1,53 @@
+'use client';
+
+/**
+ * Shows added and removed ingredient/instruction lines
+ */
+
+import type { LineDiff, RecipeDiff } from '@/types';
+import './RecipeDiffView.css';
+
+interface RecipeDiffViewProps {
+  diff: RecipeDiff;
+}
+
+const MARKERS: Record<LineDiff['status'], string> = {
+  added: '+',
+  removed: '−',
+  unchanged: ' ',
+};
+
+function DiffSection({ title, lines }: { title: string; lines: LineDiff[] }) {
+  if (lines.length === 0) return null;
+
+  return (
+    <div className="recipe-diff__section">
+      <h4>{title}</h4>
+      <ul className="recipe-diff__lines">
+        {lines.map((line, index) => (
+          <li key={index} className={`recipe-diff__line recipe-diff__line--${line.status}`}>
+            <span className="recipe-diff__marker" aria-hidden="true">
+              {MARKERS[line.status]}
+            </span>
+            <span>{line.text}</span>
+          </li>
+        ))}
+      </ul>
+    </div>
+  );
+}
+
+function RecipeDiffView({ diff }: RecipeDiffViewProps) {
+  if (diff.changeCount === 0) {
+    return <p className="recipe-diff__empty">No changes.</p>;
+  }
+
+  return (
+    <div className="recipe-diff">
+      <DiffSection title="Ingredients" lines={diff.ingredients} />
+      <DiffSection title="Instructions" lines={diff.instructions} />
+    </div>
+  );
+}
+
+export default RecipeDiffView;
@@ -0,0 +1,255 @@
+'use client';
+
+/**
+ * RecipeEditor - edits a saved recipe's title, ingredients and instructions
+ * and manages its version history
+ */
+
+import { useMemo, useState } from 'react';
+import { recipeEditService } from '@/lib/editor';
+import type { ParsedIngredient, Recipe, RecipeContent, RecipeVersion } from '@/types';
+import EditableLine from './EditableLine';
+import RecipeDiffView from './RecipeDiffView';
+import VersionHistory from './VersionHistory';
+import './RecipeEditor.css';
+
+interface RecipeEditorProps {
+  recipe: Recipe;
+  /** Persist new content and versions; resolves to whether the save succeeded */
+  onSave: (content: RecipeContent, versions: RecipeVersion[]) => Promise<boolean>;
+  onCancel?: () => void;
+}
+
+/**
+ * Describe how an ingredient line was parsed
+ */
+function describeParse(ingredient: ParsedIngredient): string {
+  const parts = [ingredient.quantity?.displayValue, ingredient.unit, ingredient.ingredient].filter(
+    Boolean
+  );
+  return parts.join(' · ');
+}
+
+function RecipeEditor({ recipe, onSave, onCancel }: RecipeEditorProps) {
+  const [content, setContent] = useState<RecipeContent>(() => recipeEditService.getContent(recipe));
+  const [newIngredient, setNewIngredient] = useState('');
+  const [newStep, setNewStep] = useState('');
+  const [saving, setSaving] = useState(false);
+  const [message, setMessage] = useState<string | null>(null);
+  const [showDiff, setShowDiff] = useState(false);
+  const [comparing, setComparing] = useState<number | null>(null);
+
+  const versions = recipe.versions ?? [];
+  const originalDiff = useMemo(
+    () => recipeEditService.diffAgainstOriginal(recipe, content),
+    [recipe, content]
+  );
+  const comparedVersion = versions.find((v) => v.version === comparing);
+
+  const isDirty = JSON.stringify(content) !== JSON.stringify(recipeEditService.getContent(recipe));
+
+  const handleSave = async () => {
+    if (!isDirty) return;
+    setSaving(true);
+    const result = recipeEditService.commitEdit(recipe, content);
+    const saved = await onSave(result.content, result.versions);
+    setSaving(false);
+    setMessage(saved ? 'Changes saved.' : 'Could not save changes. Please try again.');
+  };
+
+  const handleRestore = async (version: number) => {
+    const result = recipeEditService.rollback(recipe, version);
+    if (!result) return;
+    setSaving(true);
+    const saved = await onSave(result.content, result.versions);
+    setSaving(false);
+    if (saved) {
+      setContent(result.content);
+      setComparing(null);
+      setMessage(`Restored version ${version}.`);
+    } else {
+      setMessage('Could not restore that version. Please try again.');
+    }
+  };
+
+  const handleAddIngredient = () => {
+    if (!newIngredient.trim()) return;
+    setContent((prev) => recipeEditService.addIngredient(prev, newIngredient));
+    setNewIngredient('');
+  };
+
+  const handleAddStep = () => {
+    if (!newStep.trim()) return;
+    setContent((prev) => recipeEditService.addInstruction(prev, newStep));
+    setNewStep('');
+  };
+
+  return (
+    <div className="recipe-editor">
+      <div className="recipe-editor__main">
+        <label className="recipe-editor__title">
+          <span>Title</span>
+          <input
+            type="text"
+            value={content.title}
+            onChange={(e) => setContent((prev) => ({ ...prev, title: e.target.value }))}
+          />
+        </label>
+
+        <section className="recipe-editor__section">
+          <h2>Ingredients</h2>
+          <ul className="recipe-editor__list">
+            {content.ingredients.map((ingredient, index) => (
+              <EditableLine
+                key={ingredient.id}
+                value={ingredient.original}
+                label={`ingredient ${index + 1}`}
+                hint={describeParse(ingredient)}
+                warning={ingredient.parseConfidence < 0.5}
+                onCommit={(text) =>
+                  setContent((prev) =>
+                    recipeEditService.updateIngredient(prev, ingredient.id, text)
+                  )
+                }
+                onRemove={() =>
+                  setContent((prev) => recipeEditService.removeIngredient(prev, ingredient.id))
+                }
+                onMoveUp={
+                  index > 0
+                    ? () =>
+                        setContent((prev) =>
+                          recipeEditService.moveIngredient(prev, index, index - 1)
+                        )
+                    : undefined
+                }
+                onMoveDown={
+                  index < content.ingredients.length - 1
+                    ? () =>
+                        setContent((prev) =>
+                          recipeEditService.moveIngredient(prev, index, index + 1)
+                        )
+                    : undefined
+                }
+              />
+            ))}
+          </ul>
+          <div className="recipe-editor__add">
+            <input
+              type="text"
+              placeholder="e.g., 2 cups flour"
+              value={newIngredient}
+              onChange={(e) => setNewIngredient(e.target.value)}
+              onKeyDown={(e) => e.key === 'Enter' && handleAddIngredient()}
+              aria-label="New ingredient"
+            />
+            <button type="button" onClick={handleAddIngredient} disabled={!newIngredient.trim()}>
+              Add
+            </button>
+          </div>
+        </section>
+
+        <section className="recipe-editor__section">
+          <h2>Instructions</h2>
+          <ol className="recipe-editor__list">
+            {content.instructions.map((instruction, index) => (
+              <EditableLine
+                key={`${instruction.step}-${instruction.text}`}
+                value={instruction.text}
+                label={`step ${instruction.step}`}
+                prefix={`${instruction.step}.`}
+                multiline
+                onCommit={(text) =>
+                  setContent((prev) => recipeEditService.updateInstruction(prev, index, text))
+                }
+                onRemove={() =>
+                  setContent((prev) => recipeEditService.removeInstruction(prev, index))
+                }
+                onMoveUp={
+                  index > 0
+                    ? () =>
+                        setContent((prev) =>
+                          recipeEditService.moveInstruction(prev, index, index - 1)
+                        )
+                    : undefined
+                }
+                onMoveDown={
+                  index < content.instructions.length - 1
+                    ? () =>
+                        setContent((prev) =>
+                          recipeEditService.moveInstruction(prev, index, index + 1)
+                        )
+                    : undefined
+                }
+              />
+            ))}
+          </ol>
+          <div className="recipe-editor__add">
+            <textarea
+              placeholder="Describe the next step"
+              rows={2}
+              value={newStep}
+              onChange={(e) => setNewStep(e.target.value)}
+              aria-label="New step"
+            />
+            <button type="button" onClick={handleAddStep} disabled={!newStep.trim()}>
+              Add
+            </button>
+          </div>
+        </section>
+
+        {message && (
+          <div className="recipe-editor__message" role="status">
+            {message}
+          </div>
+        )}
+
+        <div className="recipe-editor__actions">
+          {onCancel && (
+            <button type="button" className="recipe-editor__button" onClick={onCancel}>
+              Done
+            </button>
+          )}
+          <button
+            type="button"
+            className="recipe-editor__button recipe-editor__button--primary"
+            onClick={handleSave}
+            disabled={!isDirty || saving}
+          >
+            {saving ? 'Saving...' : 'Save changes'}
+          </button>
+        </div>
+      </div>
+
+      <aside className="recipe-editor__sidebar">
+        <section className="recipe-editor__panel">
+          <div className="recipe-editor__panel-header">
+            <h3>Changes from original</h3>
+            <button type="button" onClick={() => setShowDiff((prev) => !prev)}>
+              {showDiff ? 'Hide' : `Show (${originalDiff.changeCount})`}
+            </button>
+          </div>
+          {showDiff && <RecipeDiffView diff={originalDiff} />}
+        </section>
+
+        <section className="recipe-editor__panel">
+          <h3>Version history</h3>
+          <VersionHistory
+            versions={versions}
+            comparing={comparing}
+            onCompare={setComparing}
+            onRestore={handleRestore}
+            disabled={saving}
+          />
+          {comparedVersion && (
+            <div className="recipe-editor__compare">
+              <p>Changes since version {comparedVersion.version}</p>
+              <RecipeDiffView diff={recipeEditService.diffVersions(comparedVersion, content)} />
+            </div>
+          )}
+        </section>
+      </aside>
+    </div>
+  );
+}
+
+export default RecipeEditor;
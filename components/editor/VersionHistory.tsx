@@ -0,0 +1,73 @@
+'use client';
+
+/**
+ * Lists a recipe's saved versions with compare and restore actions
+ */
+
+import type { RecipeVersion } from '@/types';
+import './VersionHistory.css';
+
+interface VersionHistoryProps {
+  versions: RecipeVersion[];
+  /** Version currently being compared, if any */
+  comparing?: number | null;
+  onCompare: (version: number | null) => void;
+  onRestore: (version: number) => void;
+  disabled?: boolean;
+}
+
+function VersionHistory({
+  versions,
+  comparing = null,
+  onCompare,
+  onRestore,
+  disabled = false,
+}: VersionHistoryProps) {
+  if (versions.length === 0) {
+    return (
+      <p className="version-history__empty">No edits yet. Saving creates the first version.</p>
+    );
+  }
+
+  const latest = versions[versions.length - 1].version;
+
+  return (
+    <ol className="version-history">
+      {[...versions].reverse().map((version) => (
+        <li
+          key={version.version}
+          className={`version-history__item ${
+            comparing === version.version ? 'version-history__item--active' : ''
+          }`}
+        >
+          <div className="version-history__info">
+            <span className="version-history__label">
+              v{version.version}
+              {version.version === latest && ' (current)'}
+            </span>
+            <span className="version-history__summary">{version.summary}</span>
+            <time className="version-history__date" dateTime={version.createdAt}>
+              {new Date(version.createdAt).toLocaleString()}
+            </time>
+          </div>
+
+          {version.version !== latest && (
+            <div className="version-history__actions">
+              <button
+                type="button"
+                onClick={() => onCompare(comparing === version.version ? null : version.version)}
+              >
+                {comparing === version.version ? 'Hide' : 'Compare'}
+              </button>
+              <button type="button" onClick={() => onRestore(version.version)} disabled={disabled}>
+                Restore
+              </button>
+            </div>
+          )}
+        </li>
+      ))}
+    </ol>
+  );
+}
+
+export default VersionHistory;
@@ -0,0 +1,4 @@
+export { default as RecipeEditor } from './RecipeEditor';
+export { default as EditableLine } from './EditableLine';
+export { default as RecipeDiffView } from './RecipeDiffView';
+export { default as VersionHistory } from './VersionHistory';
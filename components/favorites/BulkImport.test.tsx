@@ -0,0 +1,43 @@
+import { fireEvent, render, screen } from '@testing-library/react';
+import { ErrorCode } from '@/types';
+import BulkImport from './BulkImport';
+
+describe('BulkImport', () => {
+  it('submits one URL per line, skipping comments and blank lines', () => {
+    const onSubmit = jest.fn();
+    render(<BulkImport items={[]} onSubmit={onSubmit} />);
+
+    fireEvent.change(screen.getByLabelText('Recipe URLs'), {
+      target: {
+        value: '# Soups\nhttps://a.com/soup\n\nhttps://b.com/stew  # slow cooker\n',
+      },
+    });
+    fireEvent.click(screen.getByText('Import 2 recipes'));
+
+    expect(onSubmit).toHaveBeenCalledWith(['https://a.com/soup', 'https://b.com/stew']);
+  });
+
+  it('shows progress and the error code of failed URLs', () => {
+    render(
+      <BulkImport
+        items={[
+          { url: 'https://a.com/soup', status: 'saved' },
+          { url: 'https://a.com/stew', status: 'duplicate' },
+          {
+            url: 'https://b.com/missing',
+            status: 'failed',
+            error: { code: ErrorCode.RECIPE_NOT_FOUND, message: 'No recipe' },
+          },
+          { url: 'https://c.com/pie', status: 'importing' },
+        ]}
+        running
+        onSubmit={jest.fn()}
+      />
+    );
+
+    expect(screen.getByRole('status').textContent).toBe('3 of 4 done');
+    expect(screen.getByText('Already saved')).not.toBeNull();
+    expect(screen.getByText('(RECIPE_NOT_FOUND)')).not.toBeNull();
+    expect((screen.getByText('Importing...') as HTMLButtonElement).disabled).toBe(true);
+  });
+});
@@ -0,0 +1,108 @@
+'use client';
+
+/**
+ * Form for importing a list of recipe URLs into favorites, with progress per URL
+ */
+
+import { useState, FormEvent } from 'react';
+import { BatchImportItem, BatchImportStatus } from '@/types';
+import './BulkImport.css';
+
+interface BulkImportProps {
+  items: BatchImportItem[];
+  running?: boolean;
+  error?: string | null;
+  onSubmit: (urls: string[]) => void;
+}
+
+const STATUS_LABELS: Record<BatchImportStatus, string> = {
+  queued: 'Queued',
+  importing: 'Importing…',
+  scraped: 'Saving…',
+  saved: 'Saved',
+  duplicate: 'Already saved',
+  failed: 'Failed',
+};
+
+/**
+ * One URL per line; blank lines and # comments are skipped, as in scripts/recipe-urls.txt
+ */
+function parseUrlList(text: string): string[] {
+  return text
+    .split(/\r?\n/)
+    .map((line) => line.replace(/#.*$/, '').trim())
+    .filter(Boolean);
+}
+
+function BulkImport({ items, running = false, error, onSubmit }: BulkImportProps) {
+  const [text, setText] = useState('');
+  const urls = parseUrlList(text);
+  const finished = items.filter(
+    (item) => !['queued', 'importing', 'scraped'].includes(item.status)
+  );
+
+  const handleSubmit = (e: FormEvent) => {
+    e.preventDefault();
+    if (urls.length > 0) {
+      onSubmit(urls);
+    }
+  };
+
+  return (
+    <div className="bulk-import">
+      <form className="bulk-import__form" onSubmit={handleSubmit}>
+        <textarea
+          className="bulk-import__input"
+          placeholder={'https://example.com/recipes/pancakes\nhttps://example.com/recipes/waffles'}
+          value={text}
+          onChange={(e) => setText(e.target.value)}
+          disabled={running}
+          rows={6}
+          aria-label="Recipe URLs"
+        />
+        <button
+          type="submit"
+          className="bulk-import__submit"
+          disabled={running || urls.length === 0}
+        >
+          {running
+            ? 'Importing...'
+            : `Import ${urls.length} ${urls.length === 1 ? 'recipe' : 'recipes'}`}
+        </button>
+        <p className="bulk-import__hint">One link per line. Lines starting with # are ignored.</p>
+      </form>
+
+      {error && (
+        <p className="bulk-import__error" role="alert">
+          {error}
+        </p>
+      )}
+
+      {items.length > 0 && (
+        <>
+          <p className="bulk-import__progress" role="status">
+            {finished.length} of {items.length} done
+          </p>
+          <ul className="bulk-import__list">
+            {items.map((item) => (
+              <li key={item.url} className={`bulk-import__item bulk-import__item--${item.status}`}>
+                <span className="bulk-import__url">{item.recipe?.title || item.url}</span>
+                <span className="bulk-import__status">
+                  {STATUS_LABELS[item.status]}
+                  {item.error && (
+                    <span className="bulk-import__reason" title={item.error.message}>
+                      {' '}
+                      ({item.error.code})
+                    </span>
+                  )}
+                </span>
+              </li>
+            ))}
+          </ul>
+        </>
+      )}
+    </div>
+  );
+}
+
+export default BulkImport;
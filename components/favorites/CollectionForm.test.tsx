@@ -0,0 +1,42 @@
+import { fireEvent, render, screen, waitFor } from '@testing-library/react';
+import { collectionService } from '@/lib/collections';
+import CollectionForm from './CollectionForm';
+
+describe('CollectionForm', () => {
+  it('submits the entered details', async () => {
+    const onSubmit = jest.fn();
+    render(<CollectionForm onSubmit={onSubmit} onCancel={jest.fn()} />);
+
+    fireEvent.change(screen.getByLabelText('Name'), { target: { value: 'Thanksgiving' } });
+    fireEvent.change(screen.getByLabelText('Description'), { target: { value: 'Sides too' } });
+    fireEvent.click(screen.getByText('Create collection'));
+
+    await waitFor(() =>
+      expect(onSubmit).toHaveBeenCalledWith({
+        name: 'Thanksgiving',
+        description: 'Sides too',
+        coverImage: '',
+      })
+    );
+  });
+
+  it('starts from the collection being edited and shows save errors', async () => {
+    const collection = collectionService.createCollection({ name: 'Soups' });
+    render(
+      <CollectionForm
+        initial={collection}
+        onSubmit={(input) => {
+          collectionService.updateDetails(collection, input);
+        }}
+        onCancel={jest.fn()}
+      />
+    );
+
+    expect((screen.getByLabelText('Name') as HTMLInputElement).value).toBe('Soups');
+
+    fireEvent.change(screen.getByLabelText('Cover image URL'), { target: { value: 'ftp://x' } });
+    fireEvent.click(screen.getByText('Save changes'));
+
+    expect((await screen.findByRole('alert')).textContent).toBe('Cover image must be a web link');
+  });
+});
@@ -0,0 +1,93 @@
+'use client';
+
+/**
+ * Form for creating a collection or editing its name, description and cover
+ */
+
+import { useState, FormEvent } from 'react';
+import { RecipeCollection } from '@/types';
+import type { CollectionInput } from '@/lib/collections';
+import './CollectionForm.css';
+
+interface CollectionFormProps {
+  /** Collection being edited; omitted when creating one */
+  initial?: RecipeCollection;
+  /** May throw (e.g., a validation error), which is shown on the form */
+  onSubmit: (input: CollectionInput) => Promise<void> | void;
+  onCancel: () => void;
+}
+
+function CollectionForm({ initial, onSubmit, onCancel }: CollectionFormProps) {
+  const [name, setName] = useState(initial?.name ?? '');
+  const [description, setDescription] = useState(initial?.description ?? '');
+  const [coverImage, setCoverImage] = useState(initial?.coverImage ?? '');
+  const [error, setError] = useState<string | null>(null);
+  const [saving, setSaving] = useState(false);
+
+  const handleSubmit = async (e: FormEvent) => {
+    e.preventDefault();
+    setError(null);
+    setSaving(true);
+    try {
+      await onSubmit({ name, description, coverImage });
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Could not save the collection.');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <form className="collection-form" onSubmit={handleSubmit}>
+      <label className="collection-form__field">
+        <span>Name</span>
+        <input
+          className="collection-form__input"
+          value={name}
+          onChange={(e) => setName(e.target.value)}
+          placeholder="Weeknight dinners"
+          maxLength={80}
+          required
+        />
+      </label>
+
+      <label className="collection-form__field">
+        <span>Description</span>
+        <textarea
+          className="collection-form__input"
+          value={description}
+          onChange={(e) => setDescription(e.target.value)}
+          rows={2}
+        />
+      </label>
+
+      <label className="collection-form__field">
+        <span>Cover image URL</span>
+        <input
+          className="collection-form__input"
+          type="url"
+          value={coverImage}
+          onChange={(e) => setCoverImage(e.target.value)}
+          placeholder="Leave blank to use the first recipe's photo"
+        />
+      </label>
+
+      {error && (
+        <p className="collection-form__error" role="alert">
+          {error}
+        </p>
+      )}
+
+      <div className="collection-form__actions">
+        <button type="button" className="collection-form__cancel" onClick={onCancel}>
+          Cancel
+        </button>
+        <button type="submit" className="collection-form__submit" disabled={saving}>
+          {initial ? 'Save changes' : 'Create collection'}
+        </button>
+      </div>
+    </form>
+  );
+}
+
+export default CollectionForm;
@@ -0,0 +1,65 @@
+import { fireEvent, render, screen } from '@testing-library/react';
+import { collectionService } from '@/lib/collections';
+import { SavedRecipe } from '@/services/favorites';
+import CollectionHeader from './CollectionHeader';
+
+const recipe = (id: string, title: string, image?: string) => ({ id, title, image }) as SavedRecipe;
+
+describe('CollectionHeader', () => {
+  const collection = collectionService.addRecipes(
+    collectionService.createCollection({ name: 'Thanksgiving', description: 'The big meal' }),
+    ['r2', 'r1', 'gone']
+  );
+  const recipes = [
+    recipe('r1', 'Stuffing', 'https://example.com/stuffing.jpg'),
+    recipe('r2', 'Turkey'),
+    recipe('r3', 'Pancakes'),
+  ];
+
+  const renderHeader = (props: Partial<Parameters<typeof CollectionHeader>[0]> = {}) =>
+    render(
+      <CollectionHeader
+        collection={collection}
+        recipes={recipes}
+        onEdit={jest.fn()}
+        onDelete={jest.fn()}
+        onMove={jest.fn()}
+        onMoveRecipe={jest.fn()}
+        onRemoveRecipe={jest.fn()}
+        {...props}
+      />
+    );
+
+  it('shows details, the saved recipe count and a fallback cover', () => {
+    const { container } = renderHeader({ isFirst: true });
+
+    expect(screen.getByText('The big meal')).not.toBeNull();
+    expect(screen.getByText('2 recipes')).not.toBeNull();
+    expect(container.querySelector('img')?.getAttribute('src')).toBe(
+      'https://example.com/stuffing.jpg'
+    );
+    expect((screen.getByLabelText('Move collection earlier') as HTMLButtonElement).disabled).toBe(
+      true
+    );
+  });
+
+  it('reorders and removes recipes in collection order', () => {
+    const onMoveRecipe = jest.fn();
+    const onRemoveRecipe = jest.fn();
+    renderHeader({ onMoveRecipe, onRemoveRecipe });
+
+    fireEvent.click(screen.getByText('Reorder recipes'));
+
+    expect(screen.getAllByRole('listitem').map((li) => li.firstChild?.textContent)).toEqual([
+      'Turkey',
+      'Stuffing',
+    ]);
+    expect((screen.getByLabelText('Move Turkey up') as HTMLButtonElement).disabled).toBe(true);
+
+    fireEvent.click(screen.getByLabelText('Move Stuffing up'));
+    fireEvent.click(screen.getByLabelText('Remove Turkey from collection'));
+
+    expect(onMoveRecipe).toHaveBeenCalledWith('r1', -1);
+    expect(onRemoveRecipe).toHaveBeenCalledWith('r2');
+  });
+});
@@ -0,0 +1,142 @@
+'use client';
+
+/**
+ * Header for an open collection: cover, details, and controls for editing,
+ * deleting and reordering
+ */
+
+import { useState, ReactNode } from 'react';
+import { RecipeCollection } from '@/types';
+import { SavedRecipe } from '@/services/favorites';
+import { collectionService } from '@/lib/collections';
+import './CollectionHeader.css';
+
+interface CollectionHeaderProps {
+  collection: RecipeCollection;
+  /** All saved recipes; the collection's ones are picked out in order */
+  recipes: SavedRecipe[];
+  isFirst?: boolean;
+  isLast?: boolean;
+  onEdit: () => void;
+  onDelete: () => void;
+  /** Move the collection earlier (-1) or later (1) among collections */
+  onMove: (offset: number) => void;
+  /** Move a recipe up (-1) or down (1) within the collection */
+  onMoveRecipe: (recipeId: string, offset: number) => void;
+  onRemoveRecipe: (recipeId: string) => void;
+  /** Extra controls shown with the header's buttons (e.g., sharing) */
+  actions?: ReactNode;
+}
+
+function CollectionHeader({
+  collection,
+  recipes,
+  isFirst = false,
+  isLast = false,
+  onEdit,
+  onDelete,
+  onMove,
+  onMoveRecipe,
+  onRemoveRecipe,
+  actions,
+}: CollectionHeaderProps) {
+  const [reordering, setReordering] = useState(false);
+  const items = collectionService.getRecipes(collection, recipes);
+  const cover = collectionService.getCoverImage(collection, recipes);
+
+  return (
+    <section className="collection-header" aria-label={collection.name}>
+      <div className="collection-header__summary">
+        {cover && <img className="collection-header__cover" src={cover} alt="" loading="lazy" />}
+        <div className="collection-header__details">
+          <h2 className="collection-header__name">{collection.name}</h2>
+          {collection.description && (
+            <p className="collection-header__description">{collection.description}</p>
+          )}
+          <p className="collection-header__count">
+            {items.length} {items.length === 1 ? 'recipe' : 'recipes'}
+          </p>
+        </div>
+      </div>
+
+      <div className="collection-header__actions">
+        <button type="button" className="collection-header__action" onClick={onEdit}>
+          Edit
+        </button>
+        <button
+          type="button"
+          className="collection-header__action"
+          onClick={() => setReordering((prev) => !prev)}
+          aria-pressed={reordering}
+          disabled={items.length < 2 && !reordering}
+        >
+          Reorder recipes
+        </button>
+        <button
+          type="button"
+          className="collection-header__action"
+          onClick={() => onMove(-1)}
+          disabled={isFirst}
+          aria-label="Move collection earlier"
+        >
+          ←
+        </button>
+        <button
+          type="button"
+          className="collection-header__action"
+          onClick={() => onMove(1)}
+          disabled={isLast}
+          aria-label="Move collection later"
+        >
+          →
+        </button>
+        {actions}
+        <button
+          type="button"
+          className="collection-header__action collection-header__action--danger"
+          onClick={onDelete}
+        >
+          Delete collection
+        </button>
+      </div>
+
+      {reordering && (
+        <ol className="collection-header__order">
+          {items.map((recipe, index) => (
+            <li key={recipe.id} className="collection-header__order-item">
+              <span className="collection-header__order-title">{recipe.title}</span>
+              <button
+                type="button"
+                className="collection-header__order-button"
+                onClick={() => onMoveRecipe(recipe.id as string, -1)}
+                disabled={index === 0}
+                aria-label={`Move ${recipe.title} up`}
+              >
+                ↑
+              </button>
+              <button
+                type="button"
+                className="collection-header__order-button"
+                onClick={() => onMoveRecipe(recipe.id as string, 1)}
+                disabled={index === items.length - 1}
+                aria-label={`Move ${recipe.title} down`}
+              >
+                ↓
+              </button>
+              <button
+                type="button"
+                className="collection-header__order-button"
+                onClick={() => onRemoveRecipe(recipe.id as string)}
+                aria-label={`Remove ${recipe.title} from collection`}
+              >
+                ×
+              </button>
+            </li>
+          ))}
+        </ol>
+      )}
+    </section>
+  );
+}
+
+export default CollectionHeader;
@@ -0,0 +1,60 @@
+'use client';
+
+/**
+ * Row of collections to filter favorites by, with "All recipes" first
+ */
+
+import { RecipeCollection } from '@/types';
+import './CollectionsBar.css';
+
+interface CollectionsBarProps {
+  collections: RecipeCollection[];
+  /** Selected collection, or null for all recipes */
+  activeId: string | null;
+  /** Number of saved recipes in each collection, by collection ID */
+  counts?: Record<string, number>;
+  onSelect: (id: string | null) => void;
+  onCreate: () => void;
+}
+
+function CollectionsBar({
+  collections,
+  activeId,
+  counts = {},
+  onSelect,
+  onCreate,
+}: CollectionsBarProps) {
+  return (
+    <nav className="collections-bar" aria-label="Collections">
+      <button
+        type="button"
+        className="collections-bar__item"
+        onClick={() => onSelect(null)}
+        aria-pressed={activeId === null}
+      >
+        All recipes
+      </button>
+
+      {collections.map((collection) => (
+        <button
+          key={collection.id}
+          type="button"
+          className="collections-bar__item"
+          onClick={() => onSelect(collection.id)}
+          aria-pressed={activeId === collection.id}
+        >
+          {collection.name}
+          <span className="collections-bar__count">
+            {counts[collection.id] ?? collection.recipeIds.length}
+          </span>
+        </button>
+      ))}
+
+      <button type="button" className="collections-bar__create" onClick={onCreate}>
+        + New collection
+      </button>
+    </nav>
+  );
+}
+
+export default CollectionsBar;
@@ -11,6 +11,7 @@ interface FavoriteCardProps {
   recipe: SavedRecipe;
   onSelect: (recipe: SavedRecipe) => void;
   onRemove: (recipe: SavedRecipe) => void;
+  onEdit?: (recipe: SavedRecipe) => void;
   selectionMode?: boolean;
   selected?: boolean;
   onToggleSelected?: (recipe: SavedRecipe) => void;
@@ -20,6 +21,7 @@ function FavoriteCard({
   recipe,
   onSelect,
   onRemove,
+  onEdit,
   selectionMode = false,
   selected = false,
   onToggleSelected,
@@ -51,6 +53,11 @@ function FavoriteCard({
     onRemove(recipe);
   };
 
+  const handleEdit = (e: React.MouseEvent) => {
+    e.stopPropagation();
+    onEdit?.(recipe);
+  };
+
   const handleToggleSelected = (e: React.MouseEvent) => {
     e.stopPropagation();
     onToggleSelected?.(recipe);
@@ -163,6 +170,20 @@ function FavoriteCard({
         )}
       </div>
 
+      {onEdit && !selectionMode && (
+        <button
+          className="favorite-card__edit"
+          onClick={handleEdit}
+          title="Edit recipe"
+          aria-label="Edit recipe"
+        >
+          <svg viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2">
+            <path d="M12 20h9" />
+            <path d="M16.5 3.5a2.121 2.121 0 0 1 3 3L7 19l-4 1 1-4L16.5 3.5z" />
+          </svg>
+        </button>
+      )}
+
       <button
         className="favorite-card__remove"
         onClick={handleRemove}
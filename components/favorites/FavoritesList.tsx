@@ -12,6 +12,7 @@ interface FavoritesListProps {
   recipes: SavedRecipe[];
   onSelect: (recipe: SavedRecipe) => void;
   onRemove: (recipe: SavedRecipe) => void;
+  onEdit?: (recipe: SavedRecipe) => void;
   selectionMode?: boolean;
   selectedIds?: Set<string>;
   onToggleSelected?: (recipe: SavedRecipe) => void;
@@ -22,6 +23,7 @@ function FavoritesList({
   recipes,
   onSelect,
   onRemove,
+  onEdit,
   selectionMode = false,
   selectedIds,
   onToggleSelected,
@@ -55,6 +57,7 @@ function FavoritesList({
           recipe={recipe}
           onSelect={onSelect}
           onRemove={onRemove}
+          onEdit={onEdit}
           selectionMode={selectionMode}
           selected={selectedIds?.has(recipe.id ?? '') ?? false}
           onToggleSelected={onToggleSelected}
@@ -1,3 +1,7 @@
+export { default as BulkImport } from './BulkImport';
+export { default as CollectionForm } from './CollectionForm';
+export { default as CollectionHeader } from './CollectionHeader';
+export { default as CollectionsBar } from './CollectionsBar';
 export { default as FavoriteCard } from './FavoriteCard';
 export { default as FavoritesList } from './FavoritesList';
 export { default as SearchBar } from './SearchBar';
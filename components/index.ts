@@ -6,3 +6,7 @@ export * from './common';
 export * from './layout';
 export * from './recipe';
 export * from './favorites';
+export * from './shopping';
+export * from './editor';
+export * from './mealPlan';
+export * from './cookMode';
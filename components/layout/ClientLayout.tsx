@@ -39,6 +39,40 @@ export default function ClientLayout({ children }: ClientLayoutProps) {
           </svg>
           <span>Favorites</span>
         </Link>
+        <Link
+          href="/shopping-list"
+          className={`nav-tab ${pathname === '/shopping-list' ? 'nav-tab--active' : ''}`}
+        >
+          <svg viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2">
+            <circle cx="9" cy="21" r="1" />
+            <circle cx="20" cy="21" r="1" />
+            <path d="M1 1h4l2.68 13.39a2 2 0 0 0 2 1.61h9.72a2 2 0 0 0 2-1.61L23 6H6" />
+          </svg>
+          <span>Shopping</span>
+        </Link>
+        <Link
+          href="/meal-plan"
+          className={`nav-tab ${pathname === '/meal-plan' ? 'nav-tab--active' : ''}`}
+        >
+          <svg viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2">
+            <rect x="3" y="4" width="18" height="18" rx="2" ry="2" />
+            <line x1="16" y1="2" x2="16" y2="6" />
+            <line x1="8" y1="2" x2="8" y2="6" />
+            <line x1="3" y1="10" x2="21" y2="10" />
+          </svg>
+          <span>Plan</span>
+        </Link>
+        <Link
+          href="/pantry"
+          className={`nav-tab ${pathname === '/pantry' ? 'nav-tab--active' : ''}`}
+        >
+          <svg viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2">
+            <path d="M21 8v13H3V8" />
+            <rect x="1" y="3" width="22" height="5" />
+            <line x1="10" y1="12" x2="14" y2="12" />
+          </svg>
+          <span>Pantry</span>
+        </Link>
       </nav>
 
       <main className="main-content">
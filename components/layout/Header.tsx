@@ -175,6 +175,18 @@ function Header() {
             Favorites
           </Link>
 
+          <Link href="/shopping-list" className="nav-link">
+            Shopping
+          </Link>
+
+          <Link href="/meal-plan" className="nav-link">
+            Meal plan
+          </Link>
+
+          <Link href="/pantry" className="nav-link">
+            Pantry
+          </Link>
+
           <SyncStatus />
           <UserMenu />
         </nav>
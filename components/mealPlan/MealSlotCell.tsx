@@ -0,0 +1,127 @@
+'use client';
+
+/**
+ * One meal on one day of the planner: planned recipes plus a picker to add more.
+ * Entries can be dragged between cells.
+ */
+
+import { useState, type DragEvent } from 'react';
+import { SavedRecipe } from '@/services/favorites';
+import { MealPlanEntry } from '@/types';
+import './MealSlotCell.css';
+
+const DRAG_TYPE = 'application/x-meal-plan-entry';
+
+interface MealSlotCellProps {
+  /** Accessible name (e.g., "Monday dinner") */
+  label: string;
+  entries: MealPlanEntry[];
+  recipes: SavedRecipe[];
+  onAdd: (recipe: SavedRecipe) => void;
+  onMultiplierChange: (entryId: string, multiplier: number) => void;
+  onRemove: (entryId: string) => void;
+  /** Called when an entry from another cell is dropped here */
+  onDropEntry: (entryId: string) => void;
+}
+
+function MealSlotCell({
+  label,
+  entries,
+  recipes,
+  onAdd,
+  onMultiplierChange,
+  onRemove,
+  onDropEntry,
+}: MealSlotCellProps) {
+  const [isDragOver, setIsDragOver] = useState(false);
+
+  const handleAdd = (recipeId: string) => {
+    const recipe = recipes.find((r) => r.id === recipeId);
+    if (recipe) onAdd(recipe);
+  };
+
+  const handleMultiplier = (entryId: string, value: string) => {
+    const multiplier = parseFloat(value);
+    if (isNaN(multiplier) || multiplier <= 0) return;
+    onMultiplierChange(entryId, multiplier);
+  };
+
+  const handleDragOver = (e: DragEvent) => {
+    if (!e.dataTransfer.types.includes(DRAG_TYPE)) return;
+    e.preventDefault();
+    setIsDragOver(true);
+  };
+
+  const handleDrop = (e: DragEvent) => {
+    e.preventDefault();
+    setIsDragOver(false);
+    const entryId = e.dataTransfer.getData(DRAG_TYPE);
+    if (entryId && !entries.some((entry) => entry.id === entryId)) {
+      onDropEntry(entryId);
+    }
+  };
+
+  return (
+    <div
+      className={`meal-slot ${isDragOver ? 'meal-slot--drag-over' : ''}`}
+      aria-label={label}
+      role="group"
+      onDragOver={handleDragOver}
+      onDragLeave={() => setIsDragOver(false)}
+      onDrop={handleDrop}
+    >
+      {entries.map((entry) => (
+        <div
+          key={entry.id}
+          className="meal-slot__entry"
+          draggable
+          onDragStart={(e) => e.dataTransfer.setData(DRAG_TYPE, entry.id)}
+        >
+          <span className="meal-slot__title" title={entry.recipeTitle}>
+            {entry.recipeTitle}
+          </span>
+          <label className="meal-slot__multiplier">
+            <span>×</span>
+            <input
+              type="number"
+              min="0.25"
+              max="10"
+              step="0.25"
+              value={entry.multiplier}
+              onChange={(e) => handleMultiplier(entry.id, e.target.value)}
+              aria-label={`Multiplier for ${entry.recipeTitle}`}
+            />
+          </label>
+          <button
+            type="button"
+            className="meal-slot__remove"
+            onClick={() => onRemove(entry.id)}
+            aria-label={`Remove ${entry.recipeTitle}`}
+          >
+            ×
+          </button>
+        </div>
+      ))}
+
+      {recipes.length > 0 && (
+        <select
+          className="meal-slot__add"
+          value=""
+          onChange={(e) => handleAdd(e.target.value)}
+          aria-label={`Add a recipe to ${label}`}
+        >
+          <option value="">+ Add</option>
+          {recipes
+            .filter((recipe) => recipe.id)
+            .map((recipe) => (
+              <option key={recipe.id} value={recipe.id}>
+                {recipe.title}
+              </option>
+            ))}
+        </select>
+      )}
+    </div>
+  );
+}
+
+export default MealSlotCell;
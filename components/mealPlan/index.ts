@@ -0,0 +1 @@
+export { default as MealSlotCell } from './MealSlotCell';
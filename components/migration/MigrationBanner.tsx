@@ -16,7 +16,13 @@ interface MigrationBannerProps {
 
 export default function MigrationBanner({ onMigrationComplete }: MigrationBannerProps) {
   const { user } = useAuth();
-  const { showMigrationPrompt, localRecipesCount, dismissMigrationPrompt, refreshFavorites } = useFavorites();
+  const {
+    showMigrationPrompt,
+    localRecipesCount,
+    localDataCount,
+    dismissMigrationPrompt,
+    refreshFavorites,
+  } = useFavorites();
   const [isMigrating, setIsMigrating] = useState(false);
   const [migrationResult, setMigrationResult] = useState<{
     success: boolean;
@@ -42,7 +48,7 @@ export default function MigrationBanner({ onMigrationComplete }: MigrationBanner
       if (result.success) {
         setMigrationResult({
           success: true,
-          message: `Successfully migrated ${result.migratedCount} recipe${result.migratedCount !== 1 ? 's' : ''}!${result.skippedCount > 0 ? ` (${result.skippedCount} already existed)` : ''}`,
+          message: `Successfully migrated ${result.migratedCount} recipe${result.migratedCount !== 1 ? 's' : ''}!${result.skippedCount > 0 ? ` (${result.skippedCount} already existed)` : ''}${result.adoptedCount > 0 ? ' Your shopping lists, meal plans and collections moved over too.' : ''}`,
         });
         await refreshFavorites();
         onMigrationComplete?.();
@@ -102,11 +108,20 @@ export default function MigrationBanner({ onMigrationComplete }: MigrationBanner
         <span className="migration-banner__icon">☁️</span>
         <div className="migration-banner__text">
           <p className="migration-banner__message">
-            You have <strong>{localRecipesCount}</strong> saved recipe{localRecipesCount !== 1 ? 's' : ''} on this device.
+            {localRecipesCount > 0 ? (
+              <>
+                You have <strong>{localRecipesCount}</strong> saved recipe
+                {localRecipesCount !== 1 ? 's' : ''} on this device.
+              </>
+            ) : (
+              'You have shopping lists, meal plans or collections on this device.'
+            )}{' '}
             Would you like to sync them to your account?
           </p>
           <p className="migration-banner__subtext">
-            This will make your recipes available on all your devices.
+            This will make your recipes
+            {localDataCount > 0 ? ', shopping lists, meal plans, pantry and collections' : ''}{' '}
+            available on all your devices.
           </p>
         </div>
       </div>
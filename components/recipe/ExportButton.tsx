@@ -23,9 +23,11 @@ function ExportButton({ recipe }: ExportButtonProps) {
     lines.push('='.repeat(recipe.title.length));
     lines.push('');
 
-    // Source
-    lines.push(`Source: ${recipe.source.url}`);
-    lines.push('');
+    // Source (pasted recipes have no page to link to)
+    if (recipe.source.scrapeMethod !== 'manual') {
+      lines.push(`Source: ${recipe.source.url}`);
+      lines.push('');
+    }
 
     // Servings
     lines.push(
@@ -36,7 +38,14 @@ function ExportButton({ recipe }: ExportButtonProps) {
     // Ingredients
     lines.push('INGREDIENTS');
     lines.push('-'.repeat(11));
-    recipe.scaledIngredients.forEach((ingredient) => {
+    recipe.scaledIngredients.forEach((ingredient, index) => {
+      if (
+        ingredient.section &&
+        ingredient.section !== recipe.scaledIngredients[index - 1]?.section
+      ) {
+        if (index > 0) lines.push('');
+        lines.push(`${ingredient.section}:`);
+      }
       lines.push(`- ${ingredient.displayText}`);
     });
     lines.push('');
@@ -44,7 +53,13 @@ function ExportButton({ recipe }: ExportButtonProps) {
     // Instructions
     lines.push('INSTRUCTIONS');
     lines.push('-'.repeat(12));
-    recipe.instructions.forEach((instruction) => {
+    recipe.scaledInstructions.forEach((instruction, index) => {
+      if (
+        instruction.section &&
+        instruction.section !== recipe.scaledInstructions[index - 1]?.section
+      ) {
+        lines.push(`${instruction.section}:`);
+      }
       lines.push(`${instruction.step}. ${instruction.text}`);
       lines.push('');
     });
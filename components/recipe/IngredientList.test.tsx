@@ -1,6 +1,6 @@
 import { render, screen, fireEvent } from '@testing-library/react';
 import IngredientList from './IngredientList';
-import { ScaledIngredient } from '@/types';
+import { PantryCoverage, ScaledIngredient } from '@/types';
 
 describe('IngredientList', () => {
   const createMockIngredient = (overrides: Partial<ScaledIngredient> = {}): ScaledIngredient => ({
@@ -168,6 +168,62 @@ describe('IngredientList', () => {
     });
   });
 
+  describe('pantry coverage', () => {
+    it('marks lines by pantry coverage', () => {
+      const ingredients = [
+        createMockIngredient({ id: 'ing-1' }),
+        createMockIngredient({ id: 'ing-2', displayText: '1 tsp salt' }),
+        createMockIngredient({ id: 'ing-3', displayText: '2 eggs' }),
+      ];
+      const pantry: PantryCoverage[] = [
+        { ingredientId: 'ing-1', status: 'short', needed: 4, available: 2.5, unit: 'cup' },
+        { ingredientId: 'ing-2', status: 'covered', needed: 1, available: null, unit: null },
+        { ingredientId: 'ing-3', status: 'missing', needed: 2, available: null, unit: null },
+      ];
+
+      const { container } = render(<IngredientList ingredients={ingredients} pantry={pantry} />);
+
+      const badges = container.querySelectorAll('.ingredient-pantry');
+      expect(Array.from(badges).map((badge) => badge.textContent)).toEqual([
+        'Need 1 1/2 cups more',
+        'In pantry',
+        'Not in pantry',
+      ]);
+      expect(container.querySelector('.ingredient-pantry--covered')).not.toBeNull();
+    });
+
+    it('shows no pantry badges without coverage', () => {
+      const { container } = render(<IngredientList ingredients={[createMockIngredient()]} />);
+
+      expect(container.querySelector('.ingredient-pantry')).toBeNull();
+    });
+  });
+
+  describe('sections', () => {
+    it('shows a heading where each section starts', () => {
+      const ingredients = [
+        createMockIngredient({ id: 'ing-1', section: 'For the cake' }),
+        createMockIngredient({ id: 'ing-2', section: 'For the cake' }),
+        createMockIngredient({ id: 'ing-3', section: 'For the frosting' }),
+      ];
+
+      const { container } = render(<IngredientList ingredients={ingredients} />);
+
+      const titles = container.querySelectorAll('.ingredient-section__title');
+      expect(Array.from(titles).map((title) => title.textContent)).toEqual([
+        'For the cake',
+        'For the frosting',
+      ]);
+      expect(container.querySelectorAll('.ingredient-item')).toHaveLength(3);
+    });
+
+    it('shows no headings for unsectioned ingredients', () => {
+      const { container } = render(<IngredientList ingredients={[createMockIngredient()]} />);
+
+      expect(container.querySelector('.ingredient-section')).toBeNull();
+    });
+  });
+
   describe('unique keys', () => {
     it('uses ingredient id as key', () => {
       const ingredients = [
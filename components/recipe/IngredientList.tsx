@@ -4,15 +4,18 @@
  * Ingredient list component
  */
 
-import { useEffect, useMemo, useRef, useState } from 'react';
-import { ScaledIngredient } from '@/types';
+import { Fragment, useEffect, useMemo, useRef, useState } from 'react';
+import { PantryCoverage, ScaledIngredient } from '@/types';
 import { SmartScaledIngredient } from '@/types/api.types';
+import { pantryService } from '@/lib/pantry';
 import AIBadge from './AIBadge';
 import './IngredientList.css';
 
 interface IngredientListProps {
   ingredients: ScaledIngredient[] | SmartScaledIngredient[];
   showAIBadges?: boolean;
+  /** Pantry coverage per ingredient, to mark lines already on hand */
+  pantry?: PantryCoverage[];
 }
 
 function isSmartScaledIngredient(
@@ -21,7 +24,22 @@ function isSmartScaledIngredient(
   return 'aiAdjusted' in ingredient;
 }
 
-function IngredientList({ ingredients, showAIBadges = false }: IngredientListProps) {
+function pantryLabel(coverage: PantryCoverage): string {
+  switch (coverage.status) {
+    case 'covered':
+      return 'In pantry';
+    case 'short':
+      return coverage.needed !== null && coverage.available !== null
+        ? `Need ${pantryService.formatAmount(coverage.needed - coverage.available, coverage.unit)} more`
+        : 'Need more';
+    case 'unknown':
+      return 'In pantry (check amount)';
+    case 'missing':
+      return 'Not in pantry';
+  }
+}
+
+function IngredientList({ ingredients, showAIBadges = false, pantry }: IngredientListProps) {
   const rootRef = useRef<HTMLUListElement | null>(null);
   const [openOriginalId, setOpenOriginalId] = useState<string | null>(null);
 
@@ -30,6 +48,11 @@ function IngredientList({ ingredients, showAIBadges = false }: IngredientListPro
     []
   );
 
+  const pantryById = useMemo(
+    () => new Map((pantry || []).map((coverage) => [coverage.ingredientId, coverage])),
+    [pantry]
+  );
+
   useEffect(() => {
     function handlePointerDown(event: MouseEvent | TouchEvent) {
       const target = event.target as Node | null;
@@ -50,11 +73,9 @@ function IngredientList({ ingredients, showAIBadges = false }: IngredientListPro
 
   return (
     <ul className="ingredient-list" ref={rootRef}>
-      {ingredients.map((ingredient) => {
+      {ingredients.map((ingredient, index) => {
         const isAIAdjusted =
-          showAIBadges &&
-          isSmartScaledIngredient(ingredient) &&
-          ingredient.aiAdjusted;
+          showAIBadges && isSmartScaledIngredient(ingredient) && ingredient.aiAdjusted;
         const adjustmentReason =
           isSmartScaledIngredient(ingredient) && ingredient.aiAdjusted
             ? ingredient.adjustmentReason
@@ -64,46 +85,64 @@ function IngredientList({ ingredients, showAIBadges = false }: IngredientListPro
           typeof (ingredient as ScaledIngredient).parseError === 'string' ||
           ingredient.parseConfidence === 0;
 
-        return (
-          <li key={ingredient.id} className="ingredient-item">
-            <span className="ingredient-text">{ingredient.displayText}</span>
+        const coverage = pantryById.get(ingredient.id);
+        const startsSection =
+          !!ingredient.section && ingredient.section !== ingredients[index - 1]?.section;
 
-            {isAIAdjusted && (
-              <AIBadge reason={adjustmentReason} size="small" />
+        return (
+          <Fragment key={ingredient.id}>
+            {startsSection && (
+              <li className="ingredient-section">
+                <h4 className="ingredient-section__title">{ingredient.section}</h4>
+              </li>
             )}
+            <li className="ingredient-item">
+              <span className="ingredient-text">{ingredient.displayText}</span>
 
-            {showParseWarning && (
-              <span className="ingredient-warning" title={parseWarningTitle}>
-                <svg viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2">
-                  <path d="M10.29 3.86L1.82 18a2 2 0 0 0 1.71 3h16.94a2 2 0 0 0 1.71-3L13.71 3.86a2 2 0 0 0-3.42 0z" />
-                  <line x1="12" y1="9" x2="12" y2="13" />
-                  <line x1="12" y1="17" x2="12.01" y2="17" />
-                </svg>
-              </span>
-            )}
+              {isAIAdjusted && <AIBadge reason={adjustmentReason} size="small" />}
 
-            {ingredient.original !== ingredient.displayText && (
-              <button
-                className="original-toggle"
-                onClick={() =>
-                  setOpenOriginalId((prev) => (prev === ingredient.id ? null : ingredient.id))
-                }
-                title="Show original"
-                aria-expanded={openOriginalId === ingredient.id}
-              >
-                <svg viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2">
-                  <circle cx="12" cy="12" r="10" />
-                  <line x1="12" y1="16" x2="12" y2="12" />
-                  <line x1="12" y1="8" x2="12.01" y2="8" />
-                </svg>
+              {coverage && (
                 <span
-                  className={`original-tooltip ${openOriginalId === ingredient.id ? 'visible' : ''}`}
+                  className={`ingredient-pantry ingredient-pantry--${coverage.status}`}
+                  title={coverage.itemName ? `Pantry: ${coverage.itemName}` : undefined}
                 >
-                  Original: {ingredient.original}
+                  {pantryLabel(coverage)}
                 </span>
-              </button>
-            )}
-          </li>
+              )}
+
+              {showParseWarning && (
+                <span className="ingredient-warning" title={parseWarningTitle}>
+                  <svg viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2">
+                    <path d="M10.29 3.86L1.82 18a2 2 0 0 0 1.71 3h16.94a2 2 0 0 0 1.71-3L13.71 3.86a2 2 0 0 0-3.42 0z" />
+                    <line x1="12" y1="9" x2="12" y2="13" />
+                    <line x1="12" y1="17" x2="12.01" y2="17" />
+                  </svg>
+                </span>
+              )}
+
+              {ingredient.original !== ingredient.displayText && (
+                <button
+                  className="original-toggle"
+                  onClick={() =>
+                    setOpenOriginalId((prev) => (prev === ingredient.id ? null : ingredient.id))
+                  }
+                  title="Show original"
+                  aria-expanded={openOriginalId === ingredient.id}
+                >
+                  <svg viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2">
+                    <circle cx="12" cy="12" r="10" />
+                    <line x1="12" y1="16" x2="12" y2="12" />
+                    <line x1="12" y1="8" x2="12.01" y2="8" />
+                  </svg>
+                  <span
+                    className={`original-tooltip ${openOriginalId === ingredient.id ? 'visible' : ''}`}
+                  >
+                    Original: {ingredient.original}
+                  </span>
+                </button>
+              )}
+            </li>
+          </Fragment>
         );
       })}
     </ul>
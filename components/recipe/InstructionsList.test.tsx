@@ -1,6 +1,6 @@
 import { render, screen } from '@testing-library/react';
 import InstructionsList from './InstructionsList';
-import { Instruction } from '@/types';
+import { Instruction, ScaledInstruction } from '@/types';
 
 describe('InstructionsList', () => {
   const mockInstructions: Instruction[] = [
@@ -41,6 +41,25 @@ describe('InstructionsList', () => {
     });
   });
 
+  describe('sections', () => {
+    it('shows a heading where each section starts', () => {
+      const instructions: Instruction[] = [
+        { step: 1, text: 'Cream the butter', section: 'For the cake' },
+        { step: 2, text: 'Bake for 25 minutes', section: 'For the cake' },
+        { step: 3, text: 'Whip the cream', section: 'For the topping' },
+      ];
+
+      const { container } = render(<InstructionsList instructions={instructions} />);
+
+      const titles = container.querySelectorAll('.instruction-section__title');
+      expect(Array.from(titles).map((title) => title.textContent)).toEqual([
+        'For the cake',
+        'For the topping',
+      ]);
+      expect(container.querySelectorAll('.instruction-item')).toHaveLength(3);
+    });
+  });
+
   describe('temperature display', () => {
     it('displays temperature when provided', () => {
       const instructions: Instruction[] = [
@@ -142,4 +161,40 @@ describe('InstructionsList', () => {
       expect(screen.getByText(/30 minutes/)).toBeInTheDocument();
     });
   });
+
+  describe('scaled instructions', () => {
+    const scaled: ScaledInstruction[] = [
+      {
+        step: 1,
+        text: 'Add 4 cups stock and pour into the 8-inch square pan.',
+        originalText: 'Add 2 cups stock and pour into the 8-inch square pan.',
+        changes: [
+          { type: 'quantity', original: '2 cups', replacement: '4 cups', start: 4, end: 10 },
+        ],
+        panSuggestion: {
+          original: '8-inch square',
+          targetArea: 128,
+          areaUnit: 'sq in',
+          suggestion: 'Use a 9x13-inch pan instead of the 8-inch square pan',
+        },
+      },
+    ];
+
+    it('highlights rewritten spans', () => {
+      const { container } = render(<InstructionsList instructions={scaled} />);
+
+      const mark = container.querySelector('mark.instruction-change--quantity');
+      expect(mark?.textContent).toBe('4 cups');
+      expect(mark?.getAttribute('title')).toBe('Originally: 2 cups');
+      expect(container.querySelector('.instruction-text')?.textContent).toBe(scaled[0].text);
+    });
+
+    it('shows the pan suggestion', () => {
+      const { container } = render(<InstructionsList instructions={scaled} />);
+
+      expect(container.querySelector('.meta-badge--pan')?.textContent).toBe(
+        'Use a 9x13-inch pan instead of the 8-inch square pan'
+      );
+    });
+  });
 });
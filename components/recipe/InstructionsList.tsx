@@ -4,44 +4,89 @@
  * Instructions list component
  */
 
-import { Instruction } from '@/types';
+import { Fragment } from 'react';
+import { Instruction, ScaledInstruction } from '@/types';
 import './InstructionsList.css';
 
 interface InstructionsListProps {
-  instructions: Instruction[];
+  instructions: (Instruction | ScaledInstruction)[];
+}
+
+/**
+ * Render instruction text, highlighting spans rewritten by scaling
+ */
+function renderText(instruction: Instruction | ScaledInstruction) {
+  if (!('changes' in instruction) || instruction.changes.length === 0) {
+    return instruction.text;
+  }
+
+  const parts: React.ReactNode[] = [];
+  let cursor = 0;
+  instruction.changes.forEach((change, index) => {
+    parts.push(instruction.text.slice(cursor, change.start));
+    parts.push(
+      <mark
+        key={index}
+        className={`instruction-change instruction-change--${change.type}`}
+        title={`Originally: ${change.original}`}
+      >
+        {instruction.text.slice(change.start, change.end)}
+      </mark>
+    );
+    cursor = change.end;
+  });
+  parts.push(instruction.text.slice(cursor));
+
+  return parts;
 }
 
 function InstructionsList({ instructions }: InstructionsListProps) {
   return (
     <ol className="instructions-list">
-      {instructions.map((instruction) => (
-        <li key={instruction.step} className="instruction-item">
-          <span className="step-number">{instruction.step}</span>
-          <div className="instruction-content">
-            <p className="instruction-text">{instruction.text}</p>
-
-            <div className="instruction-meta">
-              {instruction.temperature && (
-                <span className="meta-badge meta-badge--temp">
-                  <svg viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2">
-                    <path d="M14 14.76V3.5a2.5 2.5 0 0 0-5 0v11.26a4.5 4.5 0 1 0 5 0z" />
-                  </svg>
-                  {instruction.temperature.value}&deg;{instruction.temperature.unit}
-                </span>
-              )}
-
-              {instruction.time && (
-                <span className="meta-badge meta-badge--time">
-                  <svg viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2">
-                    <circle cx="12" cy="12" r="10" />
-                    <polyline points="12 6 12 12 16 14" />
-                  </svg>
-                  {instruction.time.value} {instruction.time.unit}
-                </span>
-              )}
+      {instructions.map((instruction, index) => (
+        <Fragment key={instruction.step}>
+          {instruction.section && instruction.section !== instructions[index - 1]?.section && (
+            <li className="instruction-section">
+              <h4 className="instruction-section__title">{instruction.section}</h4>
+            </li>
+          )}
+          <li className="instruction-item">
+            <span className="step-number">{instruction.step}</span>
+            <div className="instruction-content">
+              <p className="instruction-text">{renderText(instruction)}</p>
+
+              <div className="instruction-meta">
+                {instruction.temperature && (
+                  <span className="meta-badge meta-badge--temp">
+                    <svg viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2">
+                      <path d="M14 14.76V3.5a2.5 2.5 0 0 0-5 0v11.26a4.5 4.5 0 1 0 5 0z" />
+                    </svg>
+                    {instruction.temperature.value}&deg;{instruction.temperature.unit}
+                  </span>
+                )}
+
+                {instruction.time && (
+                  <span className="meta-badge meta-badge--time">
+                    <svg viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2">
+                      <circle cx="12" cy="12" r="10" />
+                      <polyline points="12 6 12 12 16 14" />
+                    </svg>
+                    {instruction.time.value} {instruction.time.unit}
+                  </span>
+                )}
+
+                {'panSuggestion' in instruction && instruction.panSuggestion && (
+                  <span className="meta-badge meta-badge--pan">
+                    <svg viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2">
+                      <rect x="3" y="7" width="18" height="10" rx="2" />
+                    </svg>
+                    {instruction.panSuggestion.suggestion}
+                  </span>
+                )}
+              </div>
             </div>
-          </div>
-        </li>
+          </li>
+        </Fragment>
       ))}
     </ol>
   );
@@ -0,0 +1,95 @@
+/**
+ * PrintButton Component Tests
+ */
+
+import { TextEncoder } from 'util';
+import { fireEvent, render, screen } from '@testing-library/react';
+import { Recipe, ScaledRecipe } from '@/types';
+import { ingredientParser } from '@/lib/ingredient';
+import { scalingService } from '@/lib/scaling';
+import { createInstruction } from '@/lib/scraper/utils/instructions';
+import PrintButton from './PrintButton';
+
+// jsdom has no TextEncoder, which the QR encoder uses
+Object.assign(global, { TextEncoder });
+
+describe('PrintButton', () => {
+  const recipe: Recipe = {
+    title: 'Pancakes',
+    source: {
+      url: 'https://example.com/pancakes',
+      domain: 'example.com',
+      scrapedAt: new Date(),
+      scrapeMethod: 'schema-org',
+    },
+    servings: { amount: 4, unit: 'servings', originalText: 'Serves 4' },
+    ingredients: ['2 cups flour', '1 1/2 cups milk'].map((line) =>
+      ingredientParser.parseIngredient(line)
+    ),
+    instructions: [createInstruction('Whisk everything together.', 1)],
+  };
+
+  let scaled: ScaledRecipe;
+  let print: jest.SpyInstance;
+
+  beforeAll(async () => {
+    scaled = await scalingService.scaleRecipe(recipe, { multiplier: 2 });
+  });
+
+  beforeEach(() => {
+    print = jest.spyOn(window, 'print').mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    print.mockRestore();
+  });
+
+  const printWith = (layout: string) => {
+    fireEvent.click(screen.getByRole('button', { name: 'Print' }));
+    fireEvent.change(screen.getByLabelText('Layout'), { target: { value: layout } });
+    fireEvent.click(screen.getByRole('button', { name: 'Print recipe' }));
+  };
+
+  it('prints the scaled recipe on an index card', () => {
+    render(<PrintButton recipe={scaled} />);
+
+    printWith('index-card');
+
+    const sheet = document.body.querySelector('.print-sheet--index-card');
+    expect(print).toHaveBeenCalledTimes(1);
+    expect(sheet).not.toBeNull();
+    expect(sheet?.querySelector('style')?.textContent).toContain('6in 4in');
+    expect(sheet?.textContent).toContain('8 servings (scaled 2x)');
+    expect(sheet?.textContent).toContain('4 cups flour');
+    expect(sheet?.querySelector('.print-card__qr path')).not.toBeNull();
+  });
+
+  it('prints two copies on a two-up sheet', () => {
+    render(<PrintButton recipe={scaled} />);
+
+    printWith('two-up');
+
+    expect(document.body.querySelectorAll('.print-sheet--two-up .print-card')).toHaveLength(2);
+  });
+
+  it('prints AI tips when given', () => {
+    render(
+      <PrintButton recipe={scaled} tips={['Rest the batter for 10 minutes']} isAIPowered={true} />
+    );
+
+    printWith('full-page');
+
+    const tips = document.body.querySelector('.print-card__tips');
+    expect(tips?.textContent).toContain('AI Cooking Tips');
+    expect(tips?.textContent).toContain('Rest the batter for 10 minutes');
+  });
+
+  it('removes the sheet after printing', () => {
+    render(<PrintButton recipe={scaled} />);
+
+    printWith('full-page');
+    fireEvent(window, new Event('afterprint'));
+
+    expect(document.body.querySelector('.print-sheet')).toBeNull();
+  });
+});
@@ -0,0 +1,208 @@
+'use client';
+
+/**
+ * Print button: lays the scaled recipe out as a full page, a 4x6 index card
+ * or two copies per sheet, then opens the browser's print dialog, which can
+ * also save a PDF
+ */
+
+import { useEffect, useMemo, useState } from 'react';
+import { createPortal } from 'react-dom';
+import { PrintableRecipe, PrintLayout, ScaledIngredient, ScaledRecipe, UnitSystem } from '@/types';
+import { printService, qrCodeToSvgPath } from '@/lib/print';
+import './PrintButton.css';
+
+interface PrintButtonProps {
+  recipe: ScaledRecipe;
+  /** Ingredients as shown, when they differ from the recipe's (e.g., AI-adjusted) */
+  ingredients?: ScaledIngredient[];
+  tips?: string[];
+  cookingTimeAdjustment?: string;
+  isAIPowered?: boolean;
+}
+
+const LAYOUTS: { value: PrintLayout; label: string }[] = [
+  { value: 'full-page', label: 'Full page' },
+  { value: 'index-card', label: '4x6 index card' },
+  { value: 'two-up', label: 'Two per page' },
+];
+
+// Paper size and margins for each layout
+const PAGE_RULES: Record<PrintLayout, string> = {
+  'full-page': '@page { size: letter portrait; margin: 0.5in; }',
+  'index-card': '@page { size: 6in 4in; margin: 0.25in; }',
+  'two-up': '@page { size: letter landscape; margin: 0.5in; }',
+};
+
+function PrintCopy({ printable }: { printable: PrintableRecipe }) {
+  const { source } = printable;
+  let step = 0;
+
+  return (
+    <article className="print-card">
+      <header className="print-card__header">
+        <div>
+          <h1 className="print-card__title">{printable.title}</h1>
+          <p className="print-card__meta">
+            {printable.servings}
+            {printable.times && ` · ${printable.times}`}
+          </p>
+        </div>
+        {source && (
+          <svg
+            className="print-card__qr"
+            viewBox={`0 0 ${source.qrCode.size + 8} ${source.qrCode.size + 8}`}
+            role="img"
+            aria-label={`QR code linking to ${source.domain}`}
+          >
+            <path d={qrCodeToSvgPath(source.qrCode)} />
+          </svg>
+        )}
+      </header>
+
+      <section className="print-card__ingredients">
+        <h2>Ingredients</h2>
+        {printable.ingredients.map((section, index) => (
+          <div key={index} className="print-card__section">
+            {section.title && <h3>{section.title}</h3>}
+            <ul>
+              {section.lines.map((line, i) => (
+                <li key={i}>{line}</li>
+              ))}
+            </ul>
+          </div>
+        ))}
+      </section>
+
+      <section className="print-card__instructions">
+        <h2>Instructions</h2>
+        {printable.instructions.map((section, index) => {
+          const start = step + 1;
+          step += section.lines.length;
+          return (
+            <div key={index} className="print-card__section">
+              {section.title && <h3>{section.title}</h3>}
+              <ol start={start}>
+                {section.lines.map((line, i) => (
+                  <li key={i}>{line}</li>
+                ))}
+              </ol>
+            </div>
+          );
+        })}
+      </section>
+
+      {(printable.tips.length > 0 || printable.cookingTimeAdjustment) && (
+        <section className="print-card__tips">
+          <h2>{printable.isAIPowered ? 'AI Cooking Tips' : 'Cooking Tips'}</h2>
+          {printable.cookingTimeAdjustment && <p>{printable.cookingTimeAdjustment}</p>}
+          <ul>
+            {printable.tips.map((tip, i) => (
+              <li key={i}>{tip}</li>
+            ))}
+          </ul>
+        </section>
+      )}
+
+      {source && <footer className="print-card__source">{source.url}</footer>}
+    </article>
+  );
+}
+
+function PrintButton({
+  recipe,
+  ingredients,
+  tips,
+  cookingTimeAdjustment,
+  isAIPowered = false,
+}: PrintButtonProps) {
+  const [open, setOpen] = useState(false);
+  const [layout, setLayout] = useState<PrintLayout>('full-page');
+  const [unitSystem, setUnitSystem] = useState<UnitSystem | ''>('');
+  const [printing, setPrinting] = useState(false);
+
+  const printable = useMemo(
+    () =>
+      printing
+        ? printService.buildPrintable(recipe, {
+            unitSystem: unitSystem || undefined,
+            ingredients,
+            tips,
+            cookingTimeAdjustment,
+            isAIPowered,
+          })
+        : null,
+    [printing, recipe, unitSystem, ingredients, tips, cookingTimeAdjustment, isAIPowered]
+  );
+
+  // Open the dialog once the sheet is in the page, and take it out afterwards
+  useEffect(() => {
+    if (!printing) return;
+    const done = () => setPrinting(false);
+    window.addEventListener('afterprint', done);
+    window.print();
+    return () => window.removeEventListener('afterprint', done);
+  }, [printing]);
+
+  return (
+    <div className="print-button">
+      <button
+        type="button"
+        className="print-button__toggle"
+        onClick={() => setOpen(!open)}
+        aria-expanded={open}
+      >
+        <svg viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2">
+          <polyline points="6 9 6 2 18 2 18 9" />
+          <path d="M6 18H4a2 2 0 0 1-2-2v-5a2 2 0 0 1 2-2h16a2 2 0 0 1 2 2v5a2 2 0 0 1-2 2h-2" />
+          <rect x="6" y="14" width="12" height="8" />
+        </svg>
+        Print
+      </button>
+
+      {open && (
+        <div className="print-button__options">
+          <label className="print-button__field">
+            Layout
+            <select value={layout} onChange={(e) => setLayout(e.target.value as PrintLayout)}>
+              {LAYOUTS.map(({ value, label }) => (
+                <option key={value} value={value}>
+                  {label}
+                </option>
+              ))}
+            </select>
+          </label>
+          <label className="print-button__field">
+            Units
+            <select
+              value={unitSystem}
+              onChange={(e) => setUnitSystem(e.target.value as UnitSystem | '')}
+            >
+              <option value="">As shown</option>
+              <option value={UnitSystem.US}>US</option>
+              <option value={UnitSystem.METRIC}>Metric</option>
+            </select>
+          </label>
+          <button type="button" className="print-button__print" onClick={() => setPrinting(true)}>
+            Print recipe
+          </button>
+          <p className="print-button__hint">
+            To get a PDF, choose Save as PDF in the print dialog.
+          </p>
+        </div>
+      )}
+
+      {printable &&
+        createPortal(
+          <div className={`print-sheet print-sheet--${layout}`}>
+            <style>{PAGE_RULES[layout]}</style>
+            <PrintCopy printable={printable} />
+            {layout === 'two-up' && <PrintCopy printable={printable} />}
+          </div>,
+          document.body
+        )}
+    </div>
+  );
+}
+
+export default PrintButton;
@@ -161,6 +161,62 @@ describe('RecipeCard', () => {
     });
   });
 
+  describe('nutrition display', () => {
+    const recipeWithNutrition: Recipe = {
+      ...mockRecipe,
+      nutrition: { calories: 150, fat: '7 g', sodium: '0.1 g' },
+    };
+
+    it('does not render nutrition without data', () => {
+      render(<RecipeCard recipe={mockRecipe} />);
+      expect(screen.getByRole('article').querySelector('.recipe-nutrition')).toBeNull();
+    });
+
+    it('renders per-serving and whole-batch values', () => {
+      render(
+        <RecipeCard
+          recipe={recipeWithNutrition}
+          scaledServings={{ amount: 48, unit: 'cookies', originalText: '' }}
+          multiplier={2}
+        />
+      );
+      const rows = Array.from(
+        screen.getByRole('article').querySelectorAll('.recipe-nutrition tbody tr')
+      );
+
+      expect(rows.map((row) => row.textContent)).toEqual([
+        'Calories150 kcal7200 kcal',
+        'Fat7 g336 g',
+        'Sodium100 mg4800 mg',
+      ]);
+      expect(screen.getByText(/Whole batch \(48/)?.textContent).toContain('cookies');
+    });
+
+    it('flags estimated nutrition and lists lines that were not counted', () => {
+      render(
+        <RecipeCard
+          recipe={{
+            ...recipeWithNutrition,
+            nutritionEstimate: {
+              estimatedAt: '2026-10-19T00:00:00.000Z',
+              matches: [
+                { ingredientId: 'a', original: '2 cups flour', status: 'matched', grams: 240 },
+                { ingredientId: 'b', original: '1 cup dragon fruit', status: 'unmatched' },
+              ],
+            },
+          }}
+        />
+      );
+      const report = screen.getByRole('article').querySelector('.recipe-nutrition-report');
+
+      expect(screen.queryByText('Estimated')).not.toBeNull();
+      expect(report?.querySelector('summary')?.textContent).toBe(
+        'Estimated from 1 of 2 ingredients'
+      );
+      expect(report?.querySelector('li')?.textContent).toContain('1 cup dragon fruit');
+    });
+  });
+
   describe('source link', () => {
     it('renders link to original recipe', () => {
       render(<RecipeCard recipe={mockRecipe} />);
@@ -174,6 +230,22 @@ describe('RecipeCard', () => {
       expect(link).toHaveAttribute('target', '_blank');
       expect(link).toHaveAttribute('rel', 'noopener noreferrer');
     });
+
+    it('shows pasted recipes without a link', () => {
+      const pasted: Recipe = {
+        ...mockRecipe,
+        source: {
+          ...mockRecipe.source,
+          url: 'manual:1',
+          domain: 'pasted text',
+          scrapeMethod: 'manual',
+        },
+      };
+      const { container } = render(<RecipeCard recipe={pasted} />);
+
+      expect(screen.getByText('Imported from pasted text')).not.toBeNull();
+      expect(container.querySelector('a.source-link')).toBeNull();
+    });
   });
 
   describe('optional fields', () => {
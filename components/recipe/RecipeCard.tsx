@@ -4,9 +4,18 @@
  * Recipe card component displaying recipe metadata
  */
 
-import { Recipe, ServingInfo } from '@/types';
+import { useMemo } from 'react';
+import { NutritionMatchStatus, Recipe, ServingInfo } from '@/types';
+import { NUTRIENTS, nutritionService } from '@/lib/nutrition';
 import './RecipeCard.css';
 
+const MATCH_STATUS_LABELS: Record<NutritionMatchStatus, string> = {
+  matched: 'Counted',
+  unmatched: 'Not in the nutrient database',
+  'no-quantity': 'No amount given',
+  'no-weight': "Couldn't convert the amount to grams",
+};
+
 interface RecipeCardProps {
   recipe: Recipe;
   scaledServings?: ServingInfo;
@@ -22,6 +31,15 @@ function RecipeCard({ recipe, scaledServings, multiplier = 1 }: RecipeCardProps)
     return mins > 0 ? `${hours}h ${mins}m` : `${hours}h`;
   };
 
+  // Recomputed whenever the multiplier or scaled serving count changes
+  const nutrition = useMemo(
+    () => nutritionService.scale(recipe.nutrition, recipe.servings, multiplier, scaledServings),
+    [recipe.nutrition, recipe.servings, multiplier, scaledServings]
+  );
+  const estimate = recipe.nutritionEstimate;
+  const unmatched = estimate?.matches.filter((m) => m.status !== 'matched') ?? [];
+  const matchedCount = (estimate?.matches.length ?? 0) - unmatched.length;
+
   return (
     <article className="recipe-card">
       {recipe.image && (
@@ -93,6 +111,54 @@ function RecipeCard({ recipe, scaledServings, multiplier = 1 }: RecipeCardProps)
           </div>
         </div>
 
+        {nutrition && (
+          <table className="recipe-nutrition">
+            <caption>
+              Nutrition
+              {estimate && <span className="recipe-nutrition-badge">Estimated</span>}
+            </caption>
+            <thead>
+              <tr>
+                <th scope="col">Nutrient</th>
+                <th scope="col">Per serving</th>
+                <th scope="col">
+                  Whole batch ({Number(nutrition.servings.toFixed(1))}{' '}
+                  {(scaledServings ?? recipe.servings).unit || 'servings'})
+                </th>
+              </tr>
+            </thead>
+            <tbody>
+              {NUTRIENTS.filter(({ key }) => nutrition.perServing[key]).map(({ key, label }) => (
+                <tr key={key}>
+                  <th scope="row">{label}</th>
+                  <td>{nutritionService.formatAmount(nutrition.perServing[key]!)}</td>
+                  <td>{nutritionService.formatAmount(nutrition.perBatch[key]!)}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        )}
+
+        {nutrition && estimate && (
+          <details className="recipe-nutrition-report">
+            <summary>
+              Estimated from {matchedCount} of {estimate.matches.length} ingredients
+            </summary>
+            {unmatched.length > 0 && (
+              <ul>
+                {unmatched.map((match) => (
+                  <li key={match.ingredientId}>
+                    {match.original}
+                    <span className="recipe-nutrition-report-reason">
+                      {MATCH_STATUS_LABELS[match.status]}
+                    </span>
+                  </li>
+                ))}
+              </ul>
+            )}
+          </details>
+        )}
+
         {recipe.tags && recipe.tags.length > 0 && (
           <div className="recipe-tags">
             {recipe.tags.map((tag) => (
@@ -103,14 +169,18 @@ function RecipeCard({ recipe, scaledServings, multiplier = 1 }: RecipeCardProps)
           </div>
         )}
 
-        <a
-          href={recipe.source.url}
-          target="_blank"
-          rel="noopener noreferrer"
-          className="source-link"
-        >
-          View original on {recipe.source.domain}
-        </a>
+        {recipe.source.scrapeMethod === 'manual' ? (
+          <span className="source-link">Imported from {recipe.source.domain}</span>
+        ) : (
+          <a
+            href={recipe.source.url}
+            target="_blank"
+            rel="noopener noreferrer"
+            className="source-link"
+          >
+            View original on {recipe.source.domain}
+          </a>
+        )}
       </div>
     </article>
   );
@@ -186,6 +186,110 @@ describe('ScalingControls', () => {
     });
   });
 
+  describe('constraint modes', () => {
+    const mockOnScaleTo = jest.fn();
+    const servings = { amount: 4, unit: 'servings', originalText: '4 servings' };
+    const ingredients = [
+      {
+        id: 'eggs',
+        original: '2 eggs',
+        quantity: { type: 'single' as const, value: 2, displayValue: '2' },
+        unit: null,
+        ingredient: 'eggs',
+        parseConfidence: 0.9,
+      },
+    ];
+
+    beforeEach(() => {
+      mockOnScaleTo.mockClear();
+    });
+
+    it('hides servings and ingredient modes without onScaleTo', () => {
+      render(<ScalingControls currentMultiplier={1} onScale={mockOnScale} servings={servings} />);
+
+      expect(screen.queryByText('Servings')).toBeNull();
+      expect(screen.queryByText('I have...')).toBeNull();
+    });
+
+    it('scales to a target serving count', async () => {
+      render(
+        <ScalingControls
+          currentMultiplier={1}
+          onScale={mockOnScale}
+          onScaleTo={mockOnScaleTo}
+          servings={servings}
+        />
+      );
+
+      await userEvent.click(screen.getByText('Servings'));
+      await userEvent.type(screen.getByLabelText('Target servings'), '6{enter}');
+
+      expect(mockOnScaleTo).toHaveBeenCalledWith({ targetServings: 6 });
+    });
+
+    it('scales to an ingredient on hand', async () => {
+      render(
+        <ScalingControls
+          currentMultiplier={1}
+          onScale={mockOnScale}
+          onScaleTo={mockOnScaleTo}
+          ingredients={ingredients}
+        />
+      );
+
+      await userEvent.click(screen.getByText('I have...'));
+      await userEvent.type(screen.getByLabelText('Amount on hand'), '3');
+      await userEvent.click(screen.getByText('Apply'));
+
+      expect(mockOnScaleTo).toHaveBeenCalledWith({
+        ingredientConstraint: { ingredientId: 'eggs', amount: 3, unit: null },
+      });
+    });
+
+    it('scales to an ingredient on hand in another unit', async () => {
+      const flour = {
+        id: 'flour',
+        original: '2 cups flour',
+        quantity: { type: 'single' as const, value: 2, displayValue: '2' },
+        unit: 'cup',
+        ingredient: 'flour',
+        parseConfidence: 0.9,
+      };
+      render(
+        <ScalingControls
+          currentMultiplier={1}
+          onScale={mockOnScale}
+          onScaleTo={mockOnScaleTo}
+          ingredients={[flour]}
+        />
+      );
+
+      await userEvent.click(screen.getByText('I have...'));
+      expect((screen.getByLabelText('Unit on hand') as HTMLSelectElement).value).toBe('cup');
+      await userEvent.selectOptions(screen.getByLabelText('Unit on hand'), 'gram');
+      await userEvent.type(screen.getByLabelText('Amount on hand'), '500');
+      await userEvent.click(screen.getByText('Apply'));
+
+      expect(mockOnScaleTo).toHaveBeenCalledWith({
+        ingredientConstraint: { ingredientId: 'flour', amount: 500, unit: 'gram' },
+      });
+    });
+
+    it('shows which constraint drove the multiplier', () => {
+      render(
+        <ScalingControls
+          currentMultiplier={1.5}
+          onScale={mockOnScale}
+          constraint={{ type: 'ingredient', description: '3 eggs on hand' }}
+        />
+      );
+
+      const currentScaleDiv = screen.getByText('Current:').closest('.current-scale');
+      expect(currentScaleDiv?.textContent).toContain('1.5x');
+      expect(currentScaleDiv?.textContent).toContain('for 3 eggs on hand');
+    });
+  });
+
   describe('disabled state', () => {
     it('disables all preset buttons when disabled prop is true', () => {
       render(<ScalingControls currentMultiplier={1} onScale={mockOnScale} disabled />);
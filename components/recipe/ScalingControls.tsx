@@ -5,31 +5,103 @@
  */
 
 import { useState } from 'react';
+import type { ParsedIngredient, ScalingConstraint, ScalingOptions, ServingInfo } from '@/types';
+import { UNITS, convertUnitWithDensity } from '@/constants';
 import './ScalingControls.css';
 
 interface ScalingControlsProps {
   currentMultiplier: number;
   onScale: (multiplier: number) => void;
   disabled?: boolean;
+  /** Original servings, enables scaling to a serving count */
+  servings?: ServingInfo;
+  /** Recipe ingredients, enables scaling by an ingredient on hand */
+  ingredients?: ParsedIngredient[];
+  /** Called with servings/ingredient options; required for those modes */
+  onScaleTo?: (options: ScalingOptions) => void;
+  /** What drove the current multiplier */
+  constraint?: ScalingConstraint;
 }
 
+type ScalingPanel = 'custom' | 'servings' | 'ingredient';
+
 const PRESET_MULTIPLIERS = [0.5, 1, 2, 3];
 
 function formatMultiplierLabel(multiplier: number): string {
   if (multiplier === 0.5) return '1/2x';
-  return `${multiplier}x`;
+  return `${Number(multiplier.toFixed(2))}x`;
 }
 
-function ScalingControls({ currentMultiplier, onScale, disabled = false }: ScalingControlsProps) {
+/**
+ * Units an on-hand amount of the ingredient can be given in: its own unit
+ * first, then any other unit that converts to it
+ */
+function getOnHandUnits(ingredient: ParsedIngredient): string[] {
+  const { unit } = ingredient;
+  if (!unit) return [];
+  return [
+    unit,
+    ...Object.keys(UNITS).filter(
+      (key) => key !== unit && convertUnitWithDensity(1, key, unit, ingredient.ingredient) !== null
+    ),
+  ];
+}
+
+function ScalingControls({
+  currentMultiplier,
+  onScale,
+  disabled = false,
+  servings,
+  ingredients,
+  onScaleTo,
+  constraint,
+}: ScalingControlsProps) {
   const [customValue, setCustomValue] = useState('');
-  const [showCustom, setShowCustom] = useState(false);
+  const [panel, setPanel] = useState<ScalingPanel | null>(null);
+  const [servingsValue, setServingsValue] = useState('');
+  const [ingredientId, setIngredientId] = useState('');
+  const [amountValue, setAmountValue] = useState('');
+  const [amountUnit, setAmountUnit] = useState('');
+
+  const showCustom = panel === 'custom';
+  const canScaleByServings = !!onScaleTo && !!servings && servings.amount > 0;
+  const scalableIngredients = (ingredients ?? []).filter((i) => i.quantity);
+  const canScaleByIngredient = !!onScaleTo && scalableIngredients.length > 0;
+  const selectedIngredient =
+    scalableIngredients.find((i) => i.id === ingredientId) ?? scalableIngredients[0];
+  const onHandUnits = selectedIngredient ? getOnHandUnits(selectedIngredient) : [];
+  const selectedUnit = onHandUnits.includes(amountUnit) ? amountUnit : onHandUnits[0];
+
+  const togglePanel = (next: ScalingPanel) => {
+    setPanel((prev) => (prev === next ? null : next));
+  };
 
   const handlePresetClick = (multiplier: number) => {
-    setShowCustom(false);
+    setPanel(null);
     setCustomValue('');
     onScale(multiplier);
   };
 
+  const handleServingsSubmit = () => {
+    const value = parseFloat(servingsValue);
+    if (onScaleTo && !isNaN(value) && value > 0) {
+      onScaleTo({ targetServings: value });
+    }
+  };
+
+  const handleIngredientSubmit = () => {
+    const value = parseFloat(amountValue);
+    if (onScaleTo && selectedIngredient && !isNaN(value) && value > 0) {
+      onScaleTo({
+        ingredientConstraint: {
+          ingredientId: selectedIngredient.id,
+          amount: value,
+          unit: selectedUnit ?? null,
+        },
+      });
+    }
+  };
+
   const handleCustomSubmit = () => {
     const value = parseFloat(customValue);
     if (!isNaN(value) && value > 0 && value <= 10) {
@@ -61,11 +133,31 @@ function ScalingControls({ currentMultiplier, onScale, disabled = false }: Scali
 
         <button
           className={`scale-button ${showCustom ? 'scale-button--active' : ''}`}
-          onClick={() => setShowCustom(!showCustom)}
+          onClick={() => togglePanel('custom')}
           disabled={disabled}
         >
           Custom
         </button>
+
+        {canScaleByServings && (
+          <button
+            className={`scale-button ${panel === 'servings' ? 'scale-button--active' : ''}`}
+            onClick={() => togglePanel('servings')}
+            disabled={disabled}
+          >
+            Servings
+          </button>
+        )}
+
+        {canScaleByIngredient && (
+          <button
+            className={`scale-button ${panel === 'ingredient' ? 'scale-button--active' : ''}`}
+            onClick={() => togglePanel('ingredient')}
+            disabled={disabled}
+          >
+            I have...
+          </button>
+        )}
       </div>
 
       {showCustom && (
@@ -92,8 +184,91 @@ function ScalingControls({ currentMultiplier, onScale, disabled = false }: Scali
         </div>
       )}
 
+      {panel === 'servings' && servings && (
+        <div className="custom-input-wrapper">
+          <input
+            type="number"
+            className="custom-input"
+            placeholder={`${servings.amount}`}
+            value={servingsValue}
+            onChange={(e) => setServingsValue(e.target.value)}
+            onKeyDown={(e) => e.key === 'Enter' && handleServingsSubmit()}
+            min="1"
+            step="1"
+            disabled={disabled}
+            aria-label="Target servings"
+          />
+          <span className="custom-input-unit">{servings.unit || 'servings'}</span>
+          <button
+            className="custom-apply-button"
+            onClick={handleServingsSubmit}
+            disabled={disabled || !servingsValue}
+          >
+            Apply
+          </button>
+        </div>
+      )}
+
+      {panel === 'ingredient' && selectedIngredient && (
+        <div className="custom-input-wrapper">
+          <input
+            type="number"
+            className="custom-input"
+            placeholder="Amount"
+            value={amountValue}
+            onChange={(e) => setAmountValue(e.target.value)}
+            onKeyDown={(e) => e.key === 'Enter' && handleIngredientSubmit()}
+            min="0"
+            step="any"
+            disabled={disabled}
+            aria-label="Amount on hand"
+          />
+          {onHandUnits.length > 0 && (
+            <select
+              className="custom-select"
+              value={selectedUnit}
+              onChange={(e) => setAmountUnit(e.target.value)}
+              disabled={disabled}
+              aria-label="Unit on hand"
+            >
+              {onHandUnits.map((unit) => (
+                <option key={unit} value={unit}>
+                  {UNITS[unit]?.name ?? unit}
+                </option>
+              ))}
+            </select>
+          )}
+          <select
+            className="custom-select"
+            value={selectedIngredient.id}
+            onChange={(e) => {
+              setIngredientId(e.target.value);
+              setAmountUnit('');
+            }}
+            disabled={disabled}
+            aria-label="Ingredient on hand"
+          >
+            {scalableIngredients.map((ingredient) => (
+              <option key={ingredient.id} value={ingredient.id}>
+                {ingredient.ingredient}
+              </option>
+            ))}
+          </select>
+          <button
+            className="custom-apply-button"
+            onClick={handleIngredientSubmit}
+            disabled={disabled || !amountValue}
+          >
+            Apply
+          </button>
+        </div>
+      )}
+
       <div className="current-scale">
         Current: <strong>{formatMultiplierLabel(currentMultiplier)}</strong>
+        {constraint && constraint.type !== 'multiplier' && (
+          <span className="current-scale__constraint">for {constraint.description}</span>
+        )}
       </div>
     </div>
   );
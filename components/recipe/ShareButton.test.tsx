@@ -0,0 +1,96 @@
+/**
+ * ShareButton Component Tests
+ */
+
+import { fireEvent, render, screen, waitFor } from '@testing-library/react';
+import { ShareLink } from '@/types';
+import ShareButton from './ShareButton';
+
+describe('ShareButton', () => {
+  const link = (id: string, changes: Partial<ShareLink> = {}): ShareLink => ({
+    id,
+    token: `token-${id}`,
+    targetType: 'recipe',
+    targetId: 'https://example.com/pancakes',
+    title: 'Pancakes',
+    multiplier: 2,
+    expiresAt: null,
+    revokedAt: null,
+    createdAt: '2026-10-01T00:00:00Z',
+    ...changes,
+  });
+
+  it('asks guests to sign in', () => {
+    render(<ShareButton links={[]} canShare={false} onCreate={jest.fn()} onRevoke={jest.fn()} />);
+
+    fireEvent.click(screen.getByText('Share'));
+
+    expect(screen.getByText('Sign in')).not.toBeNull();
+    expect(screen.queryByText('Create link')).toBeNull();
+  });
+
+  it('creates a link at the current scale and chosen expiry', async () => {
+    const onCreate = jest.fn();
+    render(
+      <ShareButton
+        links={[]}
+        defaultMultiplier={1.5}
+        canShare
+        onCreate={onCreate}
+        onRevoke={jest.fn()}
+      />
+    );
+
+    fireEvent.click(screen.getByText('Share'));
+    fireEvent.change(screen.getByLabelText('Expires'), { target: { value: '7' } });
+    fireEvent.click(screen.getByText('Create link'));
+
+    await waitFor(() =>
+      expect(onCreate).toHaveBeenCalledWith({ multiplier: 1.5, expiresInDays: 7 })
+    );
+  });
+
+  it('shows create errors', async () => {
+    render(
+      <ShareButton
+        links={[]}
+        canShare
+        onCreate={() => {
+          throw new Error('Scale must be between 0.1 and 10');
+        }}
+        onRevoke={jest.fn()}
+      />
+    );
+
+    fireEvent.click(screen.getByText('Share'));
+    fireEvent.click(screen.getByText('Create link'));
+
+    expect((await screen.findByRole('alert')).textContent).toBe('Scale must be between 0.1 and 10');
+  });
+
+  it('lists links with their status and revokes active ones', () => {
+    const onRevoke = jest.fn();
+    render(
+      <ShareButton
+        links={[link('a'), link('b', { revokedAt: '2026-10-02T00:00:00Z' })]}
+        canShare
+        onCreate={jest.fn()}
+        onRevoke={onRevoke}
+      />
+    );
+
+    fireEvent.click(screen.getByText('Share'));
+
+    const urls = screen.getAllByLabelText('Share link') as HTMLInputElement[];
+    expect(urls.map((input) => input.value)).toEqual([
+      'http://localhost/shared/token-a',
+      'http://localhost/shared/token-b',
+    ]);
+    expect(screen.getByText('Revoked · 2x')).not.toBeNull();
+    expect(screen.getAllByText('Revoke')).toHaveLength(1);
+
+    fireEvent.click(screen.getByText('Revoke'));
+
+    expect(onRevoke).toHaveBeenCalledWith('a');
+  });
+});
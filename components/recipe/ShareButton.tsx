@@ -0,0 +1,183 @@
+'use client';
+
+/**
+ * Share button: creates public, read-only links to a recipe or collection at
+ * a chosen scale, and lists earlier links so they can be copied or revoked
+ */
+
+import { useState, FormEvent } from 'react';
+import { ShareLink, ShareLinkStatus } from '@/types';
+import { shareService, type ShareLinkOptions } from '@/lib/share';
+import './ShareButton.css';
+
+interface ShareButtonProps {
+  links: ShareLink[];
+  /** Scale new links start at (e.g., the current one) */
+  defaultMultiplier?: number;
+  /** False for guests, who are asked to sign in */
+  canShare: boolean;
+  error?: string | null;
+  /** May throw (e.g., a validation error), which is shown in the panel */
+  onCreate: (options: ShareLinkOptions) => Promise<unknown> | void;
+  onRevoke: (id: string) => void;
+}
+
+const EXPIRY_OPTIONS: { value: string; label: string }[] = [
+  { value: '', label: 'Never' },
+  { value: '1', label: 'In 1 day' },
+  { value: '7', label: 'In 7 days' },
+  { value: '30', label: 'In 30 days' },
+];
+
+const STATUS_LABELS: Record<ShareLinkStatus, string> = {
+  active: 'Active',
+  expired: 'Expired',
+  revoked: 'Revoked',
+};
+
+function ShareButton({
+  links,
+  defaultMultiplier = 1,
+  canShare,
+  error,
+  onCreate,
+  onRevoke,
+}: ShareButtonProps) {
+  const [open, setOpen] = useState(false);
+  const [multiplier, setMultiplier] = useState(String(defaultMultiplier));
+  const [expiry, setExpiry] = useState('');
+  const [creating, setCreating] = useState(false);
+  const [createError, setCreateError] = useState<string | null>(null);
+  const [copiedId, setCopiedId] = useState<string | null>(null);
+
+  const toggle = () => {
+    if (!open) setMultiplier(String(defaultMultiplier));
+    setOpen(!open);
+  };
+
+  const handleCreate = async (e: FormEvent) => {
+    e.preventDefault();
+    setCreateError(null);
+    setCreating(true);
+    try {
+      await onCreate({
+        multiplier: Number(multiplier),
+        expiresInDays: expiry ? Number(expiry) : null,
+      });
+    } catch (err) {
+      setCreateError(err instanceof Error ? err.message : 'Could not create the link.');
+    } finally {
+      setCreating(false);
+    }
+  };
+
+  const handleCopy = async (link: ShareLink, url: string) => {
+    try {
+      await navigator.clipboard.writeText(url);
+      setCopiedId(link.id);
+    } catch {
+      // Clipboard blocked; the URL field can still be selected by hand
+    }
+  };
+
+  return (
+    <div className="share-button">
+      <button type="button" className="share-button__toggle" onClick={toggle} aria-expanded={open}>
+        <svg viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2">
+          <circle cx="18" cy="5" r="3" />
+          <circle cx="6" cy="12" r="3" />
+          <circle cx="18" cy="19" r="3" />
+          <line x1="8.59" y1="13.51" x2="15.42" y2="17.49" />
+          <line x1="15.41" y1="6.51" x2="8.59" y2="10.49" />
+        </svg>
+        Share
+      </button>
+
+      {open && (
+        <div className="share-button__panel">
+          {!canShare ? (
+            <p className="share-button__hint">
+              <a href="/login">Sign in</a> to share a read-only link with anyone.
+            </p>
+          ) : (
+            <>
+              <form className="share-button__form" onSubmit={handleCreate}>
+                <label className="share-button__field">
+                  Scale
+                  <input
+                    type="number"
+                    min="0.1"
+                    max="10"
+                    step="0.1"
+                    value={multiplier}
+                    onChange={(e) => setMultiplier(e.target.value)}
+                  />
+                </label>
+                <label className="share-button__field">
+                  Expires
+                  <select value={expiry} onChange={(e) => setExpiry(e.target.value)}>
+                    {EXPIRY_OPTIONS.map((option) => (
+                      <option key={option.value} value={option.value}>
+                        {option.label}
+                      </option>
+                    ))}
+                  </select>
+                </label>
+                <button type="submit" className="share-button__create" disabled={creating}>
+                  {creating ? 'Creating…' : 'Create link'}
+                </button>
+              </form>
+
+              {(createError || error) && (
+                <p className="share-button__error" role="alert">
+                  {createError || error}
+                </p>
+              )}
+
+              {links.length > 0 && (
+                <ul className="share-button__links">
+                  {links.map((link) => {
+                    const status = shareService.getStatus(link);
+                    const url = shareService.getShareUrl(link.token, window.location.origin);
+                    return (
+                      <li
+                        key={link.id}
+                        className={`share-button__link share-button__link--${status}`}
+                      >
+                        <input
+                          className="share-button__url"
+                          value={url}
+                          readOnly
+                          aria-label="Share link"
+                          onFocus={(e) => e.target.select()}
+                        />
+                        <span className="share-button__meta">
+                          {STATUS_LABELS[status]} · {link.multiplier}x
+                          {status === 'active' &&
+                            link.expiresAt &&
+                            ` · until ${new Date(link.expiresAt).toLocaleDateString()}`}
+                        </span>
+                        {status === 'active' && (
+                          <span className="share-button__link-actions">
+                            <button type="button" onClick={() => handleCopy(link, url)}>
+                              {copiedId === link.id ? 'Copied' : 'Copy'}
+                            </button>
+                            <button type="button" onClick={() => onRevoke(link.id)}>
+                              Revoke
+                            </button>
+                          </span>
+                        )}
+                      </li>
+                    );
+                  })}
+                </ul>
+              )}
+            </>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
+
+export default ShareButton;
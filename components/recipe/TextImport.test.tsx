@@ -0,0 +1,28 @@
+import { fireEvent, render, screen } from '@testing-library/react';
+import TextImport from './TextImport';
+
+describe('TextImport', () => {
+  it('submits the pasted text', () => {
+    const onSubmit = jest.fn();
+    render(<TextImport onSubmit={onSubmit} />);
+
+    fireEvent.change(screen.getByLabelText('Recipe text'), {
+      target: { value: 'Pancakes\nIngredients\n2 cups flour' },
+    });
+    fireEvent.click(screen.getByText('Import Recipe'));
+
+    expect(onSubmit).toHaveBeenCalledWith('Pancakes\nIngredients\n2 cups flour');
+  });
+
+  it('disables submit until there is text', () => {
+    render(<TextImport onSubmit={jest.fn()} />);
+
+    expect((screen.getByText('Import Recipe') as HTMLButtonElement).disabled).toBe(true);
+  });
+
+  it('shows a loading label while disabled', () => {
+    render(<TextImport onSubmit={jest.fn()} disabled />);
+
+    expect(screen.getByText('Loading...')).not.toBeNull();
+  });
+});
@@ -0,0 +1,60 @@
+'use client';
+
+/**
+ * Form for importing a recipe from pasted text, for recipes without a link
+ */
+
+import { useState, FormEvent } from 'react';
+import './TextImport.css';
+
+interface TextImportProps {
+  onSubmit: (text: string) => void;
+  disabled?: boolean;
+}
+
+const PLACEHOLDER = `Grandma's Pancakes
+Serves 4
+
+Ingredients
+2 cups flour
+1 1/2 cups milk
+
+Instructions
+1. Whisk everything together.
+2. Cook on a hot griddle.`;
+
+function TextImport({ onSubmit, disabled = false }: TextImportProps) {
+  const [text, setText] = useState('');
+
+  const handleSubmit = (e: FormEvent) => {
+    e.preventDefault();
+    if (text.trim()) {
+      onSubmit(text);
+    }
+  };
+
+  return (
+    <form className="text-import" onSubmit={handleSubmit}>
+      <textarea
+        className="text-import__input"
+        placeholder={PLACEHOLDER}
+        value={text}
+        onChange={(e) => setText(e.target.value)}
+        disabled={disabled}
+        rows={12}
+        aria-label="Recipe text"
+      />
+
+      <button type="submit" className="text-import__submit" disabled={disabled || !text.trim()}>
+        {disabled ? 'Loading...' : 'Import Recipe'}
+      </button>
+
+      <p className="text-import__hint">
+        Paste a recipe from an email, a PDF or your notes. Put the title first, then the ingredients
+        and steps under their own headings.
+      </p>
+    </form>
+  );
+}
+
+export default TextImport;
@@ -3,12 +3,15 @@
  */
 
 export { default as UrlInput } from './UrlInput';
+export { default as TextImport } from './TextImport';
 export { default as RecipeCard } from './RecipeCard';
 export { default as IngredientList } from './IngredientList';
 export { default as InstructionsList } from './InstructionsList';
 export { default as ScalingControls } from './ScalingControls';
 export { default as SaveButton } from './SaveButton';
 export { default as ExportButton } from './ExportButton';
+export { default as PrintButton } from './PrintButton';
+export { default as ShareButton } from './ShareButton';
 
 // Smart Scaling Components
 export { default as SmartScaleToggle } from './SmartScaleToggle';
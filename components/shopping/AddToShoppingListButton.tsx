@@ -0,0 +1,64 @@
+'use client';
+
+/**
+ * Adds the current recipe (at its current scale) to the latest shopping list
+ */
+
+import { useState } from 'react';
+import Link from 'next/link';
+import { Recipe } from '@/types';
+import { useShoppingList } from '@/hooks/useShoppingList';
+import './AddToShoppingListButton.css';
+
+interface AddToShoppingListButtonProps {
+  recipe: Recipe;
+  multiplier?: number;
+}
+
+function AddToShoppingListButton({ recipe, multiplier = 1 }: AddToShoppingListButtonProps) {
+  const { activeList, loading, createList, addRecipes } = useShoppingList();
+  const [added, setAdded] = useState(false);
+
+  const handleClick = async () => {
+    const input = { recipe, multiplier };
+    if (activeList) {
+      await addRecipes([input]);
+    } else {
+      await createList('Shopping List', [input]);
+    }
+    setAdded(true);
+  };
+
+  if (added) {
+    return (
+      <Link href="/shopping-list" className="add-to-list-button add-to-list-button--added">
+        View shopping list
+      </Link>
+    );
+  }
+
+  return (
+    <button
+      type="button"
+      className="add-to-list-button"
+      onClick={handleClick}
+      disabled={loading}
+      title={activeList ? `Add to "${activeList.name}"` : 'Start a shopping list'}
+    >
+      <svg
+        viewBox="0 0 24 24"
+        fill="none"
+        stroke="currentColor"
+        strokeWidth="2"
+        className="add-to-list-button__icon"
+      >
+        <circle cx="9" cy="21" r="1" />
+        <circle cx="20" cy="21" r="1" />
+        <path d="M1 1h4l2.68 13.39a2 2 0 0 0 2 1.61h9.72a2 2 0 0 0 2-1.61L23 6H6" />
+      </svg>
+      <span>Add to list</span>
+    </button>
+  );
+}
+
+export default AddToShoppingListButton;
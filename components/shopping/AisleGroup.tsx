@@ -0,0 +1,36 @@
+'use client';
+
+/**
+ * Shopping list items under a store aisle heading
+ */
+
+import { ShoppingListAisleGroup } from '@/lib/shopping';
+import ShoppingListItem from './ShoppingListItem';
+import './AisleGroup.css';
+
+interface AisleGroupProps {
+  group: ShoppingListAisleGroup;
+  onToggle: (itemId: string) => void;
+}
+
+function AisleGroup({ group, onToggle }: AisleGroupProps) {
+  const remaining = group.items.filter((item) => !item.checked).length;
+
+  return (
+    <section className="aisle-group" aria-label={group.label}>
+      <h3 className="aisle-group__title">
+        {group.label}
+        <span className="aisle-group__count">
+          {remaining}/{group.items.length}
+        </span>
+      </h3>
+      <ul className="aisle-group__items">
+        {group.items.map((item) => (
+          <ShoppingListItem key={item.id} item={item} onToggle={onToggle} />
+        ))}
+      </ul>
+    </section>
+  );
+}
+
+export default AisleGroup;
@@ -0,0 +1,82 @@
+'use client';
+
+/**
+ * Picks saved recipes (and how much of each) to build a shopping list from
+ */
+
+import { SavedRecipe } from '@/services/favorites';
+import './RecipePicker.css';
+
+interface RecipePickerProps {
+  recipes: SavedRecipe[];
+  /** Selected recipe IDs mapped to their multiplier */
+  selected: Map<string, number>;
+  onChange: (selected: Map<string, number>) => void;
+}
+
+function RecipePicker({ recipes, selected, onChange }: RecipePickerProps) {
+  const toggleRecipe = (recipe: SavedRecipe) => {
+    if (!recipe.id) return;
+    const next = new Map(selected);
+    if (next.has(recipe.id)) {
+      next.delete(recipe.id);
+    } else {
+      next.set(recipe.id, recipe.lastScaledMultiplier ?? 1);
+    }
+    onChange(next);
+  };
+
+  const setMultiplier = (recipeId: string, value: string) => {
+    const multiplier = parseFloat(value);
+    if (isNaN(multiplier) || multiplier <= 0) return;
+    const next = new Map(selected);
+    next.set(recipeId, multiplier);
+    onChange(next);
+  };
+
+  if (recipes.length === 0) {
+    return <p className="recipe-picker__empty">Save some recipes to build a shopping list.</p>;
+  }
+
+  return (
+    <ul className="recipe-picker">
+      {recipes.map((recipe) => {
+        const id = recipe.id ?? '';
+        const isSelected = selected.has(id);
+
+        return (
+          <li
+            key={id || recipe.source.url}
+            className={`recipe-picker__item ${isSelected ? 'recipe-picker__item--selected' : ''}`}
+          >
+            <label className="recipe-picker__label">
+              <input
+                type="checkbox"
+                checked={isSelected}
+                onChange={() => toggleRecipe(recipe)}
+                disabled={!recipe.id}
+              />
+              <span className="recipe-picker__title">{recipe.title}</span>
+            </label>
+            {isSelected && (
+              <label className="recipe-picker__multiplier">
+                <span>×</span>
+                <input
+                  type="number"
+                  min="0.25"
+                  max="10"
+                  step="0.25"
+                  value={selected.get(id)}
+                  onChange={(e) => setMultiplier(id, e.target.value)}
+                  aria-label={`Multiplier for ${recipe.title}`}
+                />
+              </label>
+            )}
+          </li>
+        );
+      })}
+    </ul>
+  );
+}
+
+export default RecipePicker;
@@ -0,0 +1,38 @@
+'use client';
+
+/**
+ * Single shopping list entry with a check-off box
+ */
+
+import { ShoppingListItem as ShoppingListItemType } from '@/types';
+import './ShoppingListItem.css';
+
+interface ShoppingListItemProps {
+  item: ShoppingListItemType;
+  onToggle: (itemId: string) => void;
+}
+
+function ShoppingListItem({ item, onToggle }: ShoppingListItemProps) {
+  const recipeTitles = Array.from(new Set(item.sources.map((s) => s.recipeTitle)));
+
+  return (
+    <li className={`shopping-item ${item.checked ? 'shopping-item--checked' : ''}`}>
+      <label className="shopping-item__label">
+        <input
+          type="checkbox"
+          className="shopping-item__checkbox"
+          checked={item.checked}
+          onChange={() => onToggle(item.id)}
+        />
+        <span className="shopping-item__text">{item.displayText}</span>
+      </label>
+      {recipeTitles.length > 0 && (
+        <span className="shopping-item__sources" title={recipeTitles.join(', ')}>
+          {recipeTitles.length === 1 ? recipeTitles[0] : `${recipeTitles.length} recipes`}
+        </span>
+      )}
+    </li>
+  );
+}
+
+export default ShoppingListItem;
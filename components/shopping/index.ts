@@ -0,0 +1,4 @@
+export { default as ShoppingListItem } from './ShoppingListItem';
+export { default as AisleGroup } from './AisleGroup';
+export { default as RecipePicker } from './RecipePicker';
+export { default as AddToShoppingListButton } from './AddToShoppingListButton';
@@ -0,0 +1,197 @@
+/**
+ * Store aisle constants for grouping shopping list items
+ */
+
+import { StoreAisle } from '@/types/shopping.types';
+
+/**
+ * Display order and labels for store aisles
+ */
+export const STORE_AISLES: { id: StoreAisle; label: string }[] = [
+  { id: 'produce', label: 'Produce' },
+  { id: 'meat-seafood', label: 'Meat & Seafood' },
+  { id: 'dairy-eggs', label: 'Dairy & Eggs' },
+  { id: 'bakery', label: 'Bakery' },
+  { id: 'pantry', label: 'Pantry' },
+  { id: 'spices', label: 'Spices & Seasonings' },
+  { id: 'frozen', label: 'Frozen' },
+  { id: 'beverages', label: 'Beverages' },
+  { id: 'other', label: 'Other' },
+];
+
+/**
+ * Keywords that place an ingredient in an aisle.
+ * The longest matching keyword wins, so compound names like
+ * "peanut butter" or "chicken broth" beat "butter" or "chicken".
+ */
+export const AISLE_KEYWORDS: Record<Exclude<StoreAisle, 'other'>, string[]> = {
+  frozen: ['frozen', 'ice cream'],
+  spices: [
+    'salt',
+    'pepper flakes',
+    'peppercorn',
+    'black pepper',
+    'cumin',
+    'paprika',
+    'cinnamon',
+    'nutmeg',
+    'oregano',
+    'thyme',
+    'rosemary',
+    'turmeric',
+    'coriander',
+    'cardamom',
+    'clove',
+    'chili powder',
+    'garam masala',
+    'curry powder',
+    'bay leaf',
+    'bay leaves',
+    'vanilla',
+    'seasoning',
+    'allspice',
+    'garlic powder',
+    'onion powder',
+  ],
+  'dairy-eggs': [
+    'milk',
+    'butter',
+    'cream',
+    'cheese',
+    'yogurt',
+    'yoghurt',
+    'egg',
+    'ghee',
+    'paneer',
+    'buttermilk',
+    'sour cream',
+    'creme fraiche',
+  ],
+  'meat-seafood': [
+    'chicken',
+    'beef',
+    'pork',
+    'lamb',
+    'turkey',
+    'bacon',
+    'sausage',
+    'ham',
+    'fish',
+    'salmon',
+    'tuna',
+    'shrimp',
+    'prawn',
+    'cod',
+    'mutton',
+  ],
+  bakery: ['bread', 'bun', 'tortilla', 'pita', 'baguette', 'roll', 'naan'],
+  beverages: ['wine', 'beer', 'juice', 'coffee', 'tea', 'soda', 'sparkling water'],
+  produce: [
+    'onion',
+    'garlic',
+    'ginger',
+    'tomato',
+    'potato',
+    'carrot',
+    'celery',
+    'lettuce',
+    'spinach',
+    'kale',
+    'cabbage',
+    'broccoli',
+    'cauliflower',
+    'zucchini',
+    'cucumber',
+    'bell pepper',
+    'chili',
+    'jalapeno',
+    'mushroom',
+    'lemon',
+    'lime',
+    'orange',
+    'apple',
+    'banana',
+    'berries',
+    'avocado',
+    'cilantro',
+    'parsley',
+    'basil',
+    'mint',
+    'scallion',
+    'green onion',
+    'shallot',
+    'leek',
+    'squash',
+    'pumpkin',
+    'corn',
+    'peas',
+    'green beans',
+    'lemon juice',
+    'lime juice',
+  ],
+  pantry: [
+    'flour',
+    'sugar',
+    'rice',
+    'pasta',
+    'noodle',
+    'oil',
+    'vinegar',
+    'honey',
+    'syrup',
+    'baking powder',
+    'baking soda',
+    'yeast',
+    'cocoa',
+    'chocolate',
+    'broth',
+    'stock',
+    'sauce',
+    'lentil',
+    'dal',
+    'chickpea',
+    'beans',
+    'oats',
+    'rolled oats',
+    'nuts',
+    'almond',
+    'walnut',
+    'peanut',
+    'cornstarch',
+    'breadcrumbs',
+    'mustard',
+    'ketchup',
+    'mayonnaise',
+    'coconut milk',
+    'canned',
+    'peanut butter',
+    'almond milk',
+    'cream of tartar',
+    'chicken broth',
+    'chicken stock',
+    'beef broth',
+    'beef stock',
+  ],
+};
+
+/**
+ * Determine which store aisle an ingredient belongs to
+ */
+export function getStoreAisle(ingredientName: string): StoreAisle {
+  const name = ingredientName.toLowerCase();
+  let bestAisle: StoreAisle = 'other';
+  let bestLength = 0;
+
+  for (const [aisle, keywords] of Object.entries(AISLE_KEYWORDS)) {
+    for (const keyword of keywords) {
+      // Match on word starts so "unsalted butter" doesn't hit "salt"
+      const matches = new RegExp(`\\b${keyword}`).test(name);
+      if (matches && keyword.length > bestLength) {
+        bestAisle = aisle as StoreAisle;
+        bestLength = keyword.length;
+      }
+    }
+  }
+
+  return bestAisle;
+}
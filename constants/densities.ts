@@ -0,0 +1,135 @@
+/**
+ * Ingredient densities for volume <-> weight conversion
+ */
+
+import { UnitCategory } from '@/types/ingredient.types';
+import { convertUnit, getUnit } from './units';
+
+/**
+ * Density in grams per milliliter, keyed by normalized (lowercase, singular)
+ * ingredient name. Values follow common baking references
+ * (e.g., 1 cup all-purpose flour = 120 g).
+ */
+export const INGREDIENT_DENSITIES: Record<string, number> = {
+  // Flours and starches
+  flour: 0.507,
+  'all-purpose flour': 0.507,
+  'bread flour': 0.537,
+  'cake flour': 0.482,
+  'whole wheat flour': 0.478,
+  'almond flour': 0.406,
+  cornstarch: 0.541,
+  cornmeal: 0.634,
+  'rolled oat': 0.376,
+  oat: 0.376,
+  breadcrumb: 0.465,
+  panko: 0.211,
+  'cocoa powder': 0.355,
+
+  // Sugars and syrups
+  sugar: 0.845,
+  'granulated sugar': 0.845,
+  'brown sugar': 0.9,
+  'powdered sugar': 0.478,
+  "confectioners' sugar": 0.478,
+  'confectioners sugar': 0.478,
+  honey: 1.42,
+  'maple syrup': 1.32,
+  molasses: 1.42,
+
+  // Fats
+  butter: 0.959,
+  oil: 0.92,
+  'olive oil': 0.92,
+  'vegetable oil': 0.92,
+  shortening: 0.811,
+  'peanut butter': 1.08,
+
+  // Dairy and liquids
+  water: 1.0,
+  milk: 1.03,
+  buttermilk: 1.03,
+  'heavy cream': 1.0,
+  yogurt: 1.03,
+  'sour cream': 0.97,
+
+  // Grains
+  rice: 0.782,
+
+  // Leaveners and seasonings
+  salt: 1.217,
+  'kosher salt': 0.575,
+  'baking soda': 0.974,
+  'baking powder': 0.812,
+  yeast: 0.6,
+
+  // Add-ins
+  'chocolate chip': 0.719,
+  walnut: 0.507,
+  pecan: 0.465,
+  'shredded cheese': 0.423,
+  parmesan: 0.423,
+};
+
+/**
+ * Find the density for an ingredient name.
+ * Only the head noun counts, so a key has to end the name or one of its
+ * parts (split at "and", "or", "for" and "to", ignoring anything after a
+ * comma): "sugar snap peas" and "rice vinegar" don't borrow the density of
+ * sugar or rice. The longest matching key wins, so "brown sugar" beats
+ * "sugar" and "bread flour" beats "flour".
+ */
+export function getIngredientDensity(ingredientName: string): number | undefined {
+  const phrases = ingredientName
+    .toLowerCase()
+    .replace(/\([^)]*\)/g, ' ')
+    .split(/[,;]/)[0]
+    .split(/\b(?:and|or|for|to)\b/)
+    .map((phrase) => phrase.trim())
+    .filter(Boolean);
+  let best: number | undefined;
+  let bestLength = 0;
+
+  for (const [key, density] of Object.entries(INGREDIENT_DENSITIES)) {
+    const escaped = key.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+    // Allow a plural "s"/"es" so "walnuts" and "oats" still match
+    const pattern = new RegExp(`(?:^|\\s)${escaped}(e?s)?$`);
+    if (key.length > bestLength && phrases.some((phrase) => pattern.test(phrase))) {
+      best = density;
+      bestLength = key.length;
+    }
+  }
+
+  return best;
+}
+
+/**
+ * Convert a value between units, crossing volume and weight
+ * using the ingredient's density when the categories differ
+ */
+export function convertUnitWithDensity(
+  value: number,
+  fromUnit: string,
+  toUnit: string,
+  ingredientName: string
+): number | null {
+  const sameCategory = convertUnit(value, fromUnit, toUnit);
+  if (sameCategory !== null) return sameCategory;
+
+  const from = getUnit(fromUnit);
+  const to = getUnit(toUnit);
+  if (!from || !to) return null;
+
+  const density = getIngredientDensity(ingredientName);
+  if (density === undefined) return null;
+
+  if (from.category === UnitCategory.VOLUME && to.category === UnitCategory.WEIGHT) {
+    return (value * from.baseConversion * density) / to.baseConversion;
+  }
+
+  if (from.category === UnitCategory.WEIGHT && to.category === UnitCategory.VOLUME) {
+    return (value * from.baseConversion) / density / to.baseConversion;
+  }
+
+  return null;
+}
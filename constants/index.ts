@@ -4,3 +4,6 @@
 
 export * from './units';
 export * from './fractions';
+export * from './aisles';
+export * from './densities';
+export * from './pans';
@@ -0,0 +1,53 @@
+/**
+ * Standard baking pan sizes for pan-size suggestions when scaling
+ */
+
+/**
+ * A common pan size. Areas are in square inches.
+ */
+export interface StandardPan {
+  /** US label (e.g., "9x13-inch") */
+  inches: string;
+  /** Metric label (e.g., "23x33 cm") */
+  metric: string;
+  /** Base area in square inches */
+  area: number;
+}
+
+/**
+ * Square centimeters per square inch
+ */
+export const SQ_CM_PER_SQ_IN = 6.4516;
+
+export const STANDARD_PANS: StandardPan[] = [
+  { inches: '8x4-inch loaf', metric: '20x10 cm loaf', area: 32 },
+  { inches: '9x5-inch loaf', metric: '23x13 cm loaf', area: 45 },
+  { inches: '8-inch round', metric: '20 cm round', area: 50.3 },
+  { inches: '9-inch round', metric: '23 cm round', area: 63.6 },
+  { inches: '8-inch square', metric: '20 cm square', area: 64 },
+  { inches: '11x7-inch', metric: '28x18 cm', area: 77 },
+  { inches: '10-inch round', metric: '25 cm round', area: 78.5 },
+  { inches: '9-inch square', metric: '23 cm square', area: 81 },
+  { inches: '9x13-inch', metric: '23x33 cm', area: 117 },
+  { inches: '10x15-inch jelly roll', metric: '25x38 cm jelly roll', area: 150 },
+  { inches: '12x17-inch half sheet', metric: '30x43 cm half sheet', area: 204 },
+];
+
+/**
+ * Find the standard pan closest to an area (square inches)
+ * within a relative tolerance
+ */
+export function findClosestPan(area: number, tolerance = 0.15): StandardPan | undefined {
+  let best: StandardPan | undefined;
+  let bestDiff = Infinity;
+
+  for (const pan of STANDARD_PANS) {
+    const diff = Math.abs(pan.area - area) / area;
+    if (diff <= tolerance && diff < bestDiff) {
+      best = pan;
+      bestDiff = diff;
+    }
+  }
+
+  return best;
+}
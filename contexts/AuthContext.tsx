@@ -9,6 +9,7 @@ import { createContext, useContext, useEffect, useState, ReactNode, useCallback,
 import { User, Session, AuthError, AuthChangeEvent } from '@supabase/supabase-js';
 import { createClient, isSupabaseConfigured } from '@/lib/supabase/client';
 import { clearOfflineData } from '@/lib/offline';
+import { tabChannel } from '@/lib/tabs';
 
 interface AuthContextType {
   user: User | null;
@@ -67,14 +68,30 @@ export function AuthProvider({ children }: AuthProviderProps) {
     // Listen for auth state changes
     const {
       data: { subscription },
-    } = supabase.auth.onAuthStateChange((_event: AuthChangeEvent, newSession: Session | null) => {
+    } = supabase.auth.onAuthStateChange((event: AuthChangeEvent, newSession: Session | null) => {
       setSession(newSession);
       setUser(newSession?.user ?? null);
       setLoading(false);
+
+      if (event === 'SIGNED_IN' || event === 'SIGNED_OUT') {
+        tabChannel.post({ type: 'auth-changed', userId: newSession?.user.id ?? null });
+      }
+    });
+
+    // Follow sign-ins and sign-outs from other tabs
+    const unsubscribeTabs = tabChannel.subscribe(async (message) => {
+      if (message.type !== 'auth-changed') return;
+
+      const { data } = await supabase.auth.getSession();
+      const nextUser = data.session?.user ?? null;
+      setSession(data.session);
+      // Keep the same object for the same user so dependents don't reload
+      setUser((prev) => (prev?.id === nextUser?.id ? prev : nextUser));
     });
 
     return () => {
       subscription.unsubscribe();
+      unsubscribeTabs();
     };
   }, [supabase]);
 
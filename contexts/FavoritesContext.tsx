@@ -2,8 +2,9 @@
 
 /**
  * Favorites Context - manages saved recipes
- * Uses localStorage for guests, Supabase for logged-in users
- * Includes offline support with sync capabilities
+ * Reads and writes through a recipe repository: IndexedDB for guests (or
+ * localStorage where it's unavailable), Supabase with an offline copy for
+ * logged-in users, or a self-hosted API
  */
 
 import {
@@ -12,43 +13,22 @@ import {
   useState,
   useEffect,
   useCallback,
+  useMemo,
   ReactNode,
 } from 'react';
 import { useAuth } from './AuthContext';
-import { Recipe } from '@/types';
-import {
-  SavedRecipe,
-  getAllFavorites as getLocalFavorites,
-  saveFavorite as saveLocalFavorite,
-  removeFavorite as removeLocalFavorite,
-  removeFavoriteByUrl as removeLocalFavoriteByUrl,
-  getFavoriteByUrl as getLocalFavoriteByUrl,
-  searchFavorites as searchLocalFavorites,
-  updateNotes as updateLocalNotes,
-  isFavorite as isLocalFavorite,
-} from '@/services/favorites';
-import {
-  getFavorites as getCloudFavorites,
-  searchRecipes,
-  getRecipeBySourceUrl,
-} from '@/lib/supabase/recipes';
+import { Recipe, RecipeContent, RecipeVersion } from '@/types';
+import type { SavedRecipe } from '@/services/favorites';
 import type { DbRecipe } from '@/lib/supabase/types';
+import { getLocalDataCount, getLocalRecipesCount, getMigrationStatus } from '@/services/migration';
+import { addSyncListener, getPendingCount } from '@/services/sync';
 import {
-  hasLocalRecipesToMigrate,
-  getLocalRecipesCount,
-  getMigrationStatus,
-} from '@/services/migration';
-import {
-  isOnline,
-  addSyncListener,
-  createRecipeWithSync,
-  updateRecipeWithSync,
-  deleteRecipeWithSync,
-  getAllFromOffline,
-  saveAllToOffline,
-  getPendingCount,
-} from '@/services/sync';
+  createRecipeRepository,
+  createLocalRecipeRepository,
+  dbRecipeToSavedRecipe,
+} from '@/services/repository';
 import { isIndexedDBAvailable } from '@/lib/offline';
+import { tabChannel } from '@/lib/tabs';
 
 interface FavoritesContextType {
   // State
@@ -63,6 +43,8 @@ interface FavoritesContextType {
   // Migration state
   showMigrationPrompt: boolean;
   localRecipesCount: number;
+  /** Guest shopping lists, meal plan entries, pantry items and collections */
+  localDataCount: number;
   dismissMigrationPrompt: () => void;
 
   // Actions
@@ -77,6 +59,11 @@ interface FavoritesContextType {
   getFavoriteByUrl: (sourceUrl: string) => Promise<SavedRecipe | null>;
   searchFavorites: (query: string) => Promise<SavedRecipe[]>;
   updateNotes: (id: string, notes: string) => Promise<boolean>;
+  updateRecipeContent: (
+    id: string,
+    content: RecipeContent,
+    versions: RecipeVersion[]
+  ) => Promise<boolean>;
   refreshFavorites: () => Promise<void>;
 }
 
@@ -86,91 +73,6 @@ interface FavoritesProviderProps {
   children: ReactNode;
 }
 
-/**
- * Convert a DbRecipe to SavedRecipe format for UI consistency
- */
-function dbRecipeToSavedRecipe(dbRecipe: DbRecipe): SavedRecipe {
-  return {
-    id: dbRecipe.id,
-    title: dbRecipe.title,
-    source: {
-      url: dbRecipe.source_url || '',
-      domain: dbRecipe.source_domain || '',
-      scrapedAt: new Date(dbRecipe.created_at),
-      scrapeMethod: 'schema-org',
-    },
-    description: dbRecipe.description || undefined,
-    image: dbRecipe.image_url || undefined,
-    author: dbRecipe.author || undefined,
-    prepTime: dbRecipe.prep_time ? parseInt(dbRecipe.prep_time) : undefined,
-    cookTime: dbRecipe.cook_time ? parseInt(dbRecipe.cook_time) : undefined,
-    totalTime: dbRecipe.total_time ? parseInt(dbRecipe.total_time) : undefined,
-    servings: {
-      amount: dbRecipe.servings_amount || 1,
-      unit: dbRecipe.servings_unit || 'servings',
-      originalText: `${dbRecipe.servings_amount || 1} ${dbRecipe.servings_unit || 'servings'}`,
-    },
-    ingredients: dbRecipe.ingredients,
-    instructions: dbRecipe.instructions,
-    nutrition: dbRecipe.nutrition || undefined,
-    tags: dbRecipe.tags,
-    savedAt: dbRecipe.created_at,
-    lastViewedAt: dbRecipe.last_viewed_at || dbRecipe.updated_at,
-    notes: dbRecipe.notes || undefined,
-    userTags: [], // Tags are combined in DB
-    lastScaledMultiplier: dbRecipe.last_scale_multiplier,
-  };
-}
-
-/**
- * Convert a Recipe to cloud format for saving
- */
-function recipeToDbFormat(recipe: Recipe, multiplier?: number): {
-  title: string;
-  source_url: string;
-  source_domain: string;
-  image_url: string | null;
-  description: string | null;
-  author: string | null;
-  prep_time: string | null;
-  cook_time: string | null;
-  total_time: string | null;
-  servings_amount: number;
-  servings_unit: string;
-  original_servings_amount: number;
-  ingredients: typeof recipe.ingredients;
-  instructions: typeof recipe.instructions;
-  nutrition: Record<string, string | number | undefined> | null;
-  notes: string | null;
-  tags: string[];
-  is_favorite: boolean;
-  last_scale_multiplier: number;
-  last_viewed_at: string;
-} {
-  return {
-    title: recipe.title,
-    source_url: recipe.source.url,
-    source_domain: recipe.source.domain,
-    image_url: recipe.image || null,
-    description: recipe.description || null,
-    author: recipe.author || null,
-    prep_time: recipe.prepTime ? `${recipe.prepTime} minutes` : null,
-    cook_time: recipe.cookTime ? `${recipe.cookTime} minutes` : null,
-    total_time: recipe.totalTime ? `${recipe.totalTime} minutes` : null,
-    servings_amount: recipe.servings.amount,
-    servings_unit: recipe.servings.unit || 'servings',
-    original_servings_amount: recipe.servings.amount,
-    ingredients: recipe.ingredients,
-    instructions: recipe.instructions,
-    nutrition: recipe.nutrition || null,
-    notes: null,
-    tags: recipe.tags || [],
-    is_favorite: true,
-    last_scale_multiplier: multiplier ?? 1,
-    last_viewed_at: new Date().toISOString(),
-  };
-}
-
 export function FavoritesProvider({ children }: FavoritesProviderProps) {
   const { user, loading: authLoading } = useAuth();
   const [favorites, setFavorites] = useState<SavedRecipe[]>([]);
@@ -178,10 +80,15 @@ export function FavoritesProvider({ children }: FavoritesProviderProps) {
   const [error, setError] = useState<string | null>(null);
   const [showMigrationPrompt, setShowMigrationPrompt] = useState(false);
   const [localRecipesCount, setLocalRecipesCount] = useState(0);
+  const [localDataCount, setLocalDataCount] = useState(0);
   const [isOffline, setIsOffline] = useState(false);
   const [pendingChanges, setPendingChanges] = useState(0);
 
   const isLoggedIn = !!user;
+  const userId = user?.id ?? null;
+
+  const repository = useMemo(() => createRecipeRepository(userId), [userId]);
+  const localRepository = useMemo(() => createLocalRecipeRepository(userId), [userId]);
 
   // Track online/offline status
   useEffect(() => {
@@ -211,15 +118,21 @@ export function FavoritesProvider({ children }: FavoritesProviderProps) {
 
   // Check for migration prompt when user logs in
   useEffect(() => {
-    if (!authLoading && isLoggedIn) {
-      const migrationStatus = getMigrationStatus();
-      const hasLocalRecipes = hasLocalRecipesToMigrate();
-
-      if (hasLocalRecipes && !migrationStatus.hasMigrated) {
-        setLocalRecipesCount(getLocalRecipesCount());
+    if (authLoading || !isLoggedIn || getMigrationStatus().hasMigrated) return;
+
+    let cancelled = false;
+    Promise.all([getLocalRecipesCount(), getLocalDataCount()])
+      .then(([recipeCount, dataCount]) => {
+        if (cancelled || recipeCount + dataCount === 0) return;
+        setLocalRecipesCount(recipeCount);
+        setLocalDataCount(dataCount);
         setShowMigrationPrompt(true);
-      }
-    }
+      })
+      .catch((error) => console.error('Failed to count guest data:', error));
+
+    return () => {
+      cancelled = true;
+    };
   }, [authLoading, isLoggedIn]);
 
   // Load favorites when auth state changes
@@ -265,56 +178,63 @@ export function FavoritesProvider({ children }: FavoritesProviderProps) {
     setError(null);
 
     try {
-      if (isLoggedIn && user) {
-        // Try to load from cloud first
-        if (isOnline()) {
-          const result = await getCloudFavorites(user.id);
-          if (result.error) {
-            throw result.error;
-          }
-          const savedRecipes = result.data.map(dbRecipeToSavedRecipe);
-          setFavorites(savedRecipes);
-
-          // Cache to offline storage
-          if (isIndexedDBAvailable()) {
-            await saveAllToOffline(result.data);
-          }
-        } else {
-          // Offline - load from IndexedDB
-          if (isIndexedDBAvailable()) {
-            const offlineRecipes = await getAllFromOffline(user.id);
-            const savedRecipes = offlineRecipes.map(dbRecipeToSavedRecipe);
-            setFavorites(savedRecipes);
-          }
-        }
-
-        // Update pending changes count
-        await updatePendingCount();
-      } else {
-        // Load from localStorage for guests
-        const localFavorites = getLocalFavorites();
-        setFavorites(localFavorites);
-      }
+      // Logged-in repositories fall back to the offline copy on their own
+      setFavorites(await repository.list());
+      await updatePendingCount();
     } catch (err) {
       console.error('Failed to load favorites:', err);
       setError(err instanceof Error ? err.message : 'Failed to load favorites');
-
-      // Fallback to offline storage or localStorage
-      if (isLoggedIn && user && isIndexedDBAvailable()) {
-        try {
-          const offlineRecipes = await getAllFromOffline(user.id);
-          const savedRecipes = offlineRecipes.map(dbRecipeToSavedRecipe);
-          setFavorites(savedRecipes);
-        } catch {
-          setFavorites(getLocalFavorites());
-        }
-      } else {
-        setFavorites(getLocalFavorites());
-      }
     } finally {
       setLoading(false);
     }
-  }, [isLoggedIn, user, updatePendingCount]);
+  }, [repository, updatePendingCount]);
+
+  // Re-read saved recipes from local storage after another tab (or a sync)
+  // changed them, without a network round trip
+  const reloadFromStorage = useCallback(async () => {
+    if (isLoggedIn && !isIndexedDBAvailable()) return;
+
+    try {
+      setFavorites(await localRepository.list());
+      await updatePendingCount();
+    } catch (err) {
+      console.error('Failed to reload favorites:', err);
+    }
+  }, [isLoggedIn, localRepository, updatePendingCount]);
+
+  // Let other tabs know this one changed saved recipes
+  const notifyOtherTabs = useCallback(() => {
+    tabChannel.post({ type: 'favorites-changed', userId });
+  }, [userId]);
+
+  // Refresh the pending count and tell other tabs after a successful change
+  const afterChange = useCallback(async () => {
+    await updatePendingCount();
+    notifyOtherTabs();
+  }, [updatePendingCount, notifyOtherTabs]);
+
+  // Pick up saves and removals made in other tabs, and syncs run by any tab
+  useEffect(() => {
+    if (authLoading) return;
+
+    const unsubscribeTabs = tabChannel.subscribe((message) => {
+      if (message.type === 'favorites-changed' && message.userId === userId) {
+        reloadFromStorage();
+      }
+    });
+    const unsubscribeSync = addSyncListener((event, data) => {
+      if (event !== 'sync-completed' || !userId) return;
+      const result = data?.result as { downloaded?: number } | undefined;
+      if (data?.fromOtherTab || result?.downloaded) {
+        reloadFromStorage();
+      }
+    });
+
+    return () => {
+      unsubscribeTabs();
+      unsubscribeSync();
+    };
+  }, [authLoading, userId, reloadFromStorage]);
 
   const addFavorite = useCallback(
     async (
@@ -322,49 +242,23 @@ export function FavoritesProvider({ children }: FavoritesProviderProps) {
       options?: { notes?: string; userTags?: string[]; multiplier?: number }
     ): Promise<SavedRecipe | null> => {
       try {
-        if (isLoggedIn && user) {
-          // Save with sync support (handles online/offline)
-          const dbRecipe = recipeToDbFormat(recipe, options?.multiplier);
-          if (options?.notes) {
-            dbRecipe.notes = options.notes;
-          }
-          if (options?.userTags) {
-            dbRecipe.tags = [...dbRecipe.tags, ...options.userTags];
-          }
-
-          const result = await createRecipeWithSync(user.id, dbRecipe);
-          if (result) {
-            const savedRecipe = dbRecipeToSavedRecipe(result);
-            setFavorites((prev) => [savedRecipe, ...prev]);
-            await updatePendingCount();
-            return savedRecipe;
+        const savedRecipe = await repository.create(recipe, options);
+        setFavorites((prev) => {
+          const exists = prev.some((r) => r.source.url === recipe.source.url);
+          if (exists) {
+            return prev.map((r) => (r.source.url === recipe.source.url ? savedRecipe : r));
           }
-          return null;
-        } else {
-          // Save to localStorage for guests
-          const savedRecipe = saveLocalFavorite(recipe, {
-            notes: options?.notes,
-            userTags: options?.userTags,
-            multiplier: options?.multiplier,
-          });
-          setFavorites((prev) => {
-            const exists = prev.some((r) => r.source.url === recipe.source.url);
-            if (exists) {
-              return prev.map((r) =>
-                r.source.url === recipe.source.url ? savedRecipe : r
-              );
-            }
-            return [savedRecipe, ...prev];
-          });
-          return savedRecipe;
-        }
+          return [savedRecipe, ...prev];
+        });
+        await afterChange();
+        return savedRecipe;
       } catch (err) {
         console.error('Failed to add favorite:', err);
         setError(err instanceof Error ? err.message : 'Failed to save recipe');
         return null;
       }
     },
-    [isLoggedIn, user, updatePendingCount]
+    [repository, afterChange]
   );
 
   const removeFavorite = useCallback(
@@ -383,103 +277,53 @@ export function FavoritesProvider({ children }: FavoritesProviderProps) {
         return prev.filter((r) => r.id !== id);
       });
 
-      try {
-        if (isLoggedIn && user) {
-          // Delete with sync support
-          const success = await deleteRecipeWithSync(id, user.id);
-          if (success) {
-            await updatePendingCount();
-            return true;
-          }
-
-          // Restore on failure.
-          if (removed) {
-            setFavorites((prev) => {
-              if (prev.some((r) => r.id === id)) return prev;
-              const next = [...prev];
-              const insertAt = Math.min(
-                removedIndex >= 0 ? removedIndex : 0,
-                next.length
-              );
-              next.splice(insertAt, 0, removed!);
-              return next;
-            });
-          }
+      const restore = () => {
+        if (!removed) return;
+        setFavorites((prev) => {
+          if (prev.some((r) => r.id === id)) return prev;
+          const next = [...prev];
+          const insertAt = Math.min(removedIndex >= 0 ? removedIndex : 0, next.length);
+          next.splice(insertAt, 0, removed!);
+          return next;
+        });
+      };
 
-          setError('Failed to remove recipe');
-          return false;
-        } else {
-          // Remove from localStorage
-          const success = removeLocalFavorite(id);
-          if (!success && removed) {
-            setFavorites((prev) => {
-              if (prev.some((r) => r.id === id)) return prev;
-              const next = [...prev];
-              const insertAt = Math.min(
-                removedIndex >= 0 ? removedIndex : 0,
-                next.length
-              );
-              next.splice(insertAt, 0, removed!);
-              return next;
-            });
-          }
-          return success;
+      try {
+        const success = await repository.delete(id);
+        if (success) {
+          await afterChange();
+          return true;
         }
+
+        restore();
+        setError('Failed to remove recipe');
+        return false;
       } catch (err) {
         console.error('Failed to remove favorite:', err);
-
-        if (removed) {
-          setFavorites((prev) => {
-            if (prev.some((r) => r.id === id)) return prev;
-            const next = [...prev];
-            const insertAt = Math.min(
-              removedIndex >= 0 ? removedIndex : 0,
-              next.length
-            );
-            next.splice(insertAt, 0, removed!);
-            return next;
-          });
-        }
-
+        restore();
         setError(err instanceof Error ? err.message : 'Failed to remove recipe');
         return false;
       }
     },
-    [isLoggedIn, user, updatePendingCount]
+    [repository, afterChange]
   );
 
   const removeFavoriteByUrl = useCallback(
     async (url: string): Promise<boolean> => {
       try {
-        if (isLoggedIn && user) {
-          // Find the recipe first
-          const recipe = favorites.find((r) => r.source.url === url);
-          if (recipe && recipe.id) {
-            return removeFavorite(recipe.id);
-          }
-
-          // If not in local state, try to find in cloud
-          if (isOnline()) {
-            const existing = await getRecipeBySourceUrl(user.id, url);
-            if (existing.data) {
-              return removeFavorite(existing.data.id);
-            }
-          }
-          return false;
-        } else {
-          // Remove from localStorage
-          const success = removeLocalFavoriteByUrl(url);
-          if (success) {
-            setFavorites((prev) => prev.filter((r) => r.source.url !== url));
-          }
-          return success;
+        // Find the recipe first, then ask the repository
+        const recipe =
+          favorites.find((r) => r.source.url === url) ?? (await repository.getByUrl(url));
+        if (recipe && recipe.id) {
+          return removeFavorite(recipe.id);
         }
+        return false;
       } catch (err) {
         console.error('Failed to remove favorite by URL:', err);
         return false;
       }
     },
-    [isLoggedIn, user, favorites, removeFavorite]
+    [repository, favorites, removeFavorite]
   );
 
   const isFavorite = useCallback(
@@ -489,18 +333,14 @@ export function FavoritesProvider({ children }: FavoritesProviderProps) {
         return true;
       }
 
-      if (isLoggedIn && user) {
-        // Only check cloud if online
-        if (isOnline()) {
-          const existing = await getRecipeBySourceUrl(user.id, sourceUrl);
-          return !!existing.data;
-        }
+      try {
+        return !!(await repository.getByUrl(sourceUrl));
+      } catch (err) {
+        console.error('Failed to check favorite:', err);
         return false;
-      } else {
-        return isLocalFavorite(sourceUrl);
       }
     },
-    [isLoggedIn, user, favorites]
+    [repository, favorites]
   );
 
   const getFavoriteByUrl = useCallback(
@@ -512,21 +352,13 @@ export function FavoritesProvider({ children }: FavoritesProviderProps) {
       }
 
       try {
-        if (isLoggedIn && user && isOnline()) {
-          const result = await getRecipeBySourceUrl(user.id, sourceUrl);
-          if (result.data) {
-            return dbRecipeToSavedRecipe(result.data);
-          }
-          return null;
-        } else {
-          return getLocalFavoriteByUrl(sourceUrl);
-        }
+        return await repository.getByUrl(sourceUrl);
       } catch (err) {
         console.error('Failed to get favorite by URL:', err);
         return null;
       }
     },
-    [isLoggedIn, user, favorites]
+    [repository, favorites]
   );
 
   const searchFavoritesHandler = useCallback(
@@ -535,62 +367,56 @@ export function FavoritesProvider({ children }: FavoritesProviderProps) {
         if (!query.trim()) {
           return favorites;
         }
-
-        if (isLoggedIn && user && isOnline()) {
-          const result = await searchRecipes(user.id, query);
-          if (result.error) {
-            throw result.error;
-          }
-          return result.data.map(dbRecipeToSavedRecipe);
-        } else {
-          // Search locally (either localStorage or cached favorites)
-          const q = query.toLowerCase().trim();
-          return favorites.filter(
-            (r) =>
-              r.title.toLowerCase().includes(q) ||
-              r.description?.toLowerCase().includes(q) ||
-              r.author?.toLowerCase().includes(q) ||
-              r.tags?.some((t) => t.toLowerCase().includes(q))
-          );
-        }
+        return await repository.search(query);
       } catch (err) {
         console.error('Failed to search favorites:', err);
         return [];
       }
     },
-    [isLoggedIn, user, favorites]
+    [repository, favorites]
   );
 
   const updateNotesHandler = useCallback(
     async (id: string, notes: string): Promise<boolean> => {
       try {
-        if (isLoggedIn && user) {
-          // Update with sync support
-          const result = await updateRecipeWithSync(id, user.id, { notes });
-          if (result) {
-            setFavorites((prev) =>
-              prev.map((r) => (r.id === id ? { ...r, notes } : r))
-            );
-            await updatePendingCount();
-            return true;
-          }
-          return false;
-        } else {
-          const updated = updateLocalNotes(id, notes);
-          if (updated) {
-            setFavorites((prev) =>
-              prev.map((r) => (r.id === id ? { ...r, notes } : r))
-            );
-            return true;
-          }
-          return false;
+        const updated = await repository.update(id, { notes });
+        if (updated) {
+          setFavorites((prev) => prev.map((r) => (r.id === id ? { ...r, notes } : r)));
+          await afterChange();
+          return true;
         }
+        return false;
       } catch (err) {
         console.error('Failed to update notes:', err);
         return false;
       }
     },
-    [isLoggedIn, user, updatePendingCount]
+    [repository, afterChange]
+  );
+
+  const updateRecipeContentHandler = useCallback(
+    async (id: string, content: RecipeContent, versions: RecipeVersion[]): Promise<boolean> => {
+      const changes = {
+        title: content.title,
+        ingredients: content.ingredients,
+        instructions: content.instructions,
+        versions,
+      };
+
+      try {
+        const updated = await repository.update(id, changes);
+        if (updated) {
+          setFavorites((prev) => prev.map((r) => (r.id === id ? { ...r, ...changes } : r)));
+          await afterChange();
+          return true;
+        }
+        return false;
+      } catch (err) {
+        console.error('Failed to update recipe:', err);
+        return false;
+      }
+    },
+    [repository, afterChange]
   );
 
   const dismissMigrationPrompt = useCallback(() => {
@@ -609,6 +435,7 @@ export function FavoritesProvider({ children }: FavoritesProviderProps) {
     pendingChanges,
     showMigrationPrompt,
     localRecipesCount,
+    localDataCount,
     dismissMigrationPrompt,
     loadFavorites,
     addFavorite,
@@ -618,6 +445,7 @@ export function FavoritesProvider({ children }: FavoritesProviderProps) {
     getFavoriteByUrl,
     searchFavorites: searchFavoritesHandler,
     updateNotes: updateNotesHandler,
+    updateRecipeContent: updateRecipeContentHandler,
     refreshFavorites,
   };
 
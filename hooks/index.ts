@@ -6,7 +6,24 @@ export { useUser } from './useUser';
 export { useOffline } from './useOffline';
 export { useSync } from './useSync';
 export { useInstallPrompt } from './useInstallPrompt';
+export { useShoppingList } from './useShoppingList';
+export { useMealPlan } from './useMealPlan';
+export { usePantry } from './usePantry';
+export { useCookMode } from './useCookMode';
+export { useWakeLock } from './useWakeLock';
+export { useBatchImport } from './useBatchImport';
+export { useCollections } from './useCollections';
+export { useShareLinks } from './useShareLinks';
+export { useSyncDiagnostics } from './useSyncDiagnostics';
 
 export type { OfflineState } from './useOffline';
 export type { UseSyncResult } from './useSync';
 export type { InstallPromptState } from './useInstallPrompt';
+export type { UseShoppingListResult } from './useShoppingList';
+export type { UseMealPlanResult } from './useMealPlan';
+export type { UsePantryResult } from './usePantry';
+export type { UseCookModeResult } from './useCookMode';
+export type { UseBatchImportResult } from './useBatchImport';
+export type { UseCollectionsResult } from './useCollections';
+export type { UseShareLinksResult } from './useShareLinks';
+export type { UseSyncDiagnosticsResult } from './useSyncDiagnostics';
@@ -0,0 +1,157 @@
+/**
+ * useBatchImport hook
+ * Imports a list of recipe URLs into favorites, tracking progress per URL
+ */
+
+'use client';
+
+import { useState, useEffect, useCallback, useRef } from 'react';
+import { useFavorites } from '@/contexts/FavoritesContext';
+import { startBatchImport, getBatchImport, ApiRequestError } from '@/services/api';
+import { BatchImportItem, ErrorCode, type ApiError } from '@/types';
+
+// How often to ask the server for progress
+const POLL_INTERVAL_MS = 1500;
+
+export interface UseBatchImportResult {
+  /** One entry per URL, in the order they were submitted */
+  items: BatchImportItem[];
+  running: boolean;
+  /** Set when the batch couldn't be started or its progress was lost */
+  error: string | null;
+  start: (urls: string[]) => Promise<void>;
+  reset: () => void;
+}
+
+function toError(error: unknown, fallback: string): ApiError {
+  if (error instanceof ApiRequestError) {
+    return { code: error.code as ErrorCode, message: error.message, details: error.details };
+  }
+  return { code: ErrorCode.INTERNAL_ERROR, message: fallback };
+}
+
+/**
+ * Hook to import many recipe URLs at once.
+ * URLs that are already saved are skipped; scraped recipes are saved to favorites.
+ */
+export function useBatchImport(): UseBatchImportResult {
+  const { isFavorite, addFavorite } = useFavorites();
+  const [items, setItems] = useState<BatchImportItem[]>([]);
+  const [running, setRunning] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  // Bumped to stop the polling loop of an earlier batch
+  const runRef = useRef(0);
+  useEffect(() => {
+    return () => {
+      runRef.current++;
+    };
+  }, []);
+
+  const update = useCallback((url: string, changes: Partial<BatchImportItem>) => {
+    setItems((prev) => prev.map((item) => (item.url === url ? { ...item, ...changes } : item)));
+  }, []);
+
+  /**
+   * Save a scraped recipe, unless the page redirected to one that's already saved
+   */
+  const save = useCallback(
+    async (item: BatchImportItem) => {
+      const recipe = item.recipe;
+      if (!recipe) return;
+
+      try {
+        if (await isFavorite(recipe.source.url)) {
+          update(item.url, { status: 'duplicate', recipe });
+          return;
+        }
+        const saved = await addFavorite(recipe);
+        update(
+          item.url,
+          saved
+            ? { status: 'saved', recipe }
+            : {
+                status: 'failed',
+                error: { code: ErrorCode.INTERNAL_ERROR, message: 'Could not save the recipe' },
+              }
+        );
+      } catch (err) {
+        update(item.url, { status: 'failed', error: toError(err, 'Could not save the recipe') });
+      }
+    },
+    [isFavorite, addFavorite, update]
+  );
+
+  const start = useCallback(
+    async (urls: string[]) => {
+      const run = ++runRef.current;
+      const unique = [...new Set(urls.map((url) => url.trim()).filter(Boolean))];
+
+      setError(null);
+      setRunning(true);
+      setItems(unique.map((url) => ({ url, status: 'queued' })));
+
+      try {
+        // Skip recipes that are already saved
+        const saved = await Promise.all(unique.map((url) => isFavorite(url).catch(() => false)));
+        const pending = unique.filter((_, i) => !saved[i]);
+        setItems((prev) =>
+          prev.map((item, i) => (saved[i] ? { ...item, status: 'duplicate' } : item))
+        );
+        if (pending.length === 0) return;
+
+        const job = await startBatchImport(pending);
+        const handled = new Set<string>();
+
+        while (run === runRef.current) {
+          const progress = await getBatchImport(job.id);
+          if (run !== runRef.current) return;
+
+          for (const item of progress.items) {
+            if (handled.has(item.url)) continue;
+
+            if (item.status === 'scraped') {
+              handled.add(item.url);
+              update(item.url, { status: 'scraped', recipe: item.recipe });
+              await save(item);
+            } else {
+              if (item.status === 'failed' || item.status === 'duplicate') handled.add(item.url);
+              update(item.url, { status: item.status, error: item.error });
+            }
+          }
+
+          if (progress.done) return;
+          await new Promise((resolve) => setTimeout(resolve, POLL_INTERVAL_MS));
+        }
+      } catch (err) {
+        if (run !== runRef.current) return;
+        setError(toError(err, 'Bulk import failed').message);
+        setItems((prev) =>
+          prev.map((item) =>
+            item.status === 'queued' || item.status === 'importing'
+              ? { ...item, status: 'failed', error: toError(err, 'Bulk import failed') }
+              : item
+          )
+        );
+      } finally {
+        if (run === runRef.current) setRunning(false);
+      }
+    },
+    [isFavorite, update, save]
+  );
+
+  const reset = useCallback(() => {
+    runRef.current++;
+    setItems([]);
+    setRunning(false);
+    setError(null);
+  }, []);
+
+  return {
+    items,
+    running,
+    error,
+    start,
+    reset,
+  };
+}
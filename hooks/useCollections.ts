@@ -0,0 +1,133 @@
+/**
+ * useCollections hook
+ * Loads, edits and persists recipe collections for the current user (or guest)
+ */
+
+'use client';
+
+import { useState, useEffect, useCallback } from 'react';
+import { useAuth } from '@/contexts/AuthContext';
+import { collectionService, type CollectionInput } from '@/lib/collections';
+import {
+  getCollectionsWithSync,
+  saveCollectionWithSync,
+  deleteCollectionWithSync,
+  addSyncListener,
+} from '@/services/sync';
+import type { RecipeCollection } from '@/types';
+
+export interface UseCollectionsResult {
+  /** Collections in display order */
+  collections: RecipeCollection[];
+  loading: boolean;
+  createCollection: (input: CollectionInput) => Promise<RecipeCollection>;
+  updateCollection: (id: string, changes: Partial<CollectionInput>) => Promise<void>;
+  deleteCollection: (id: string) => Promise<void>;
+  addRecipes: (id: string, recipeIds: string[]) => Promise<void>;
+  removeRecipes: (id: string, recipeIds: string[]) => Promise<void>;
+  moveRecipe: (id: string, recipeId: string, offset: number) => Promise<void>;
+  moveCollection: (id: string, offset: number) => Promise<void>;
+}
+
+function byPosition(a: RecipeCollection, b: RecipeCollection): number {
+  return a.position - b.position || a.createdAt.localeCompare(b.createdAt);
+}
+
+/**
+ * Hook to manage recipe collections
+ */
+export function useCollections(): UseCollectionsResult {
+  const { user } = useAuth();
+  const userId = user?.id ?? null;
+  const [collections, setCollections] = useState<RecipeCollection[]>([]);
+  const [loading, setLoading] = useState(true);
+
+  const loadCollections = useCallback(async () => {
+    try {
+      setCollections(await getCollectionsWithSync(userId));
+    } catch (error) {
+      console.error('Failed to load collections:', error);
+    } finally {
+      setLoading(false);
+    }
+  }, [userId]);
+
+  useEffect(() => {
+    setLoading(true);
+    loadCollections();
+  }, [loadCollections]);
+
+  // Update state immediately, then persist
+  const persist = useCallback(
+    async (changed: RecipeCollection[]) => {
+      if (changed.length === 0) return;
+      const ids = new Set(changed.map((c) => c.id));
+      setCollections((prev) =>
+        [...prev.filter((c) => !ids.has(c.id)), ...changed].sort(byPosition)
+      );
+      try {
+        await Promise.all(changed.map((collection) => saveCollectionWithSync(userId, collection)));
+      } catch (error) {
+        console.error('Failed to save collection:', error);
+      }
+    },
+    [userId]
+  );
+
+  // Reload after a sync pulls changes from other devices or moves
+  // offline-created recipes to their cloud IDs
+  useEffect(() => {
+    return addSyncListener((event) => {
+      if (event === 'sync-completed') {
+        loadCollections();
+      }
+    });
+  }, [loadCollections]);
+
+  const updateOne = useCallback(
+    async (id: string, update: (collection: RecipeCollection) => RecipeCollection) => {
+      const collection = collections.find((c) => c.id === id);
+      if (!collection) return;
+      const updated = update(collection);
+      if (updated !== collection) await persist([updated]);
+    },
+    [collections, persist]
+  );
+
+  const createCollection = useCallback(
+    async (input: CollectionInput) => {
+      const collection = collectionService.createCollection(input, collections);
+      await persist([collection]);
+      return collection;
+    },
+    [collections, persist]
+  );
+
+  const deleteCollection = useCallback(
+    async (id: string) => {
+      setCollections((prev) => prev.filter((c) => c.id !== id));
+      try {
+        await deleteCollectionWithSync(userId, id);
+      } catch (error) {
+        console.error('Failed to delete collection:', error);
+      }
+    },
+    [userId]
+  );
+
+  return {
+    collections,
+    loading,
+    createCollection,
+    updateCollection: (id, changes) =>
+      updateOne(id, (c) => collectionService.updateDetails(c, changes)),
+    deleteCollection,
+    addRecipes: (id, recipeIds) => updateOne(id, (c) => collectionService.addRecipes(c, recipeIds)),
+    removeRecipes: (id, recipeIds) =>
+      updateOne(id, (c) => collectionService.removeRecipes(c, recipeIds)),
+    moveRecipe: (id, recipeId, offset) =>
+      updateOne(id, (c) => collectionService.moveRecipe(c, recipeId, offset)),
+    moveCollection: (id, offset) =>
+      persist(collectionService.moveCollection(collections, id, offset)),
+  };
+}
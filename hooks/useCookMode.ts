@@ -0,0 +1,194 @@
+/**
+ * useCookMode hook
+ * Step position and timers for cook mode, saved in localStorage so a reload resumes
+ */
+
+'use client';
+
+import { useState, useEffect, useCallback, useRef } from 'react';
+import { cookModeService } from '@/lib/cookMode';
+import type { CookProgress, CookTimer, Instruction } from '@/types';
+
+export interface UseCookModeResult {
+  /** Current step index (0-based) */
+  stepIndex: number;
+  timers: CookTimer[];
+  /** Current time, updated every second while a timer runs */
+  now: number;
+  goToStep: (index: number) => void;
+  nextStep: () => void;
+  previousStep: () => void;
+  /** Start (or resume) the timer for a step */
+  startTimer: (instruction: Instruction) => void;
+  pauseTimer: (id: string) => void;
+  resetTimer: (id: string) => void;
+  dismissTimer: (id: string) => void;
+  /** Forget progress and go back to the first step */
+  restart: () => void;
+}
+
+const STORAGE_KEY = 'recipe-journal-cook-progress';
+// Only remember the most recent recipes
+const MAX_SAVED_RECIPES = 5;
+
+function readAllProgress(): CookProgress[] {
+  try {
+    const data = localStorage.getItem(STORAGE_KEY);
+    return data ? (JSON.parse(data) as CookProgress[]) : [];
+  } catch {
+    return [];
+  }
+}
+
+function writeProgress(progress: CookProgress): void {
+  const others = readAllProgress().filter((p) => p.recipeKey !== progress.recipeKey);
+  const saved = [progress, ...others].slice(0, MAX_SAVED_RECIPES);
+  try {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(saved));
+  } catch (error) {
+    console.error('Failed to save cook progress:', error);
+  }
+}
+
+function showNotification(title: string, options: NotificationOptions): void {
+  try {
+    new Notification(title, options);
+  } catch (error) {
+    console.error('Failed to show timer notification:', error);
+  }
+}
+
+function notifyFinished(timer: CookTimer): void {
+  if (typeof navigator !== 'undefined' && 'vibrate' in navigator) {
+    navigator.vibrate([300, 150, 300]);
+  }
+  if (typeof Notification === 'undefined' || Notification.permission !== 'granted') return;
+
+  const options = { body: timer.label, tag: timer.id };
+  if (!('serviceWorker' in navigator)) {
+    showNotification('Timer done', options);
+    return;
+  }
+  // Android Chrome only shows notifications through the service worker;
+  // its Notification constructor throws
+  navigator.serviceWorker
+    .getRegistration()
+    .then((registration) =>
+      registration
+        ? registration.showNotification('Timer done', options)
+        : showNotification('Timer done', options)
+    )
+    .catch((error) => console.error('Failed to show timer notification:', error));
+}
+
+function requestNotificationPermission(): void {
+  if (typeof Notification !== 'undefined' && Notification.permission === 'default') {
+    Notification.requestPermission().catch(() => undefined);
+  }
+}
+
+/**
+ * Hook to run cook mode for one recipe.
+ * Progress is read once on mount, so give the component a `key` per recipe.
+ */
+export function useCookMode(recipeKey: string, instructions: Instruction[]): UseCookModeResult {
+  const stepCount = instructions.length;
+  // Resume saved progress for this recipe
+  const [progress, setProgress] = useState<CookProgress>(() => {
+    const saved =
+      typeof window === 'undefined'
+        ? undefined
+        : readAllProgress().find((p) => p.recipeKey === recipeKey);
+    return saved
+      ? cookModeService.restoreProgress(saved, stepCount)
+      : cookModeService.createProgress(recipeKey);
+  });
+  const [now, setNow] = useState(() => Date.now());
+  const timersRef = useRef(progress.timers);
+
+  useEffect(() => {
+    timersRef.current = progress.timers;
+    writeProgress(progress);
+  }, [progress]);
+
+  const update = useCallback((change: (prev: CookProgress) => Partial<CookProgress>) => {
+    setProgress((prev) => ({ ...prev, ...change(prev), updatedAt: new Date().toISOString() }));
+  }, []);
+
+  const hasRunningTimer = progress.timers.some((timer) => timer.status === 'running');
+
+  // Tick once a second while anything is counting down
+  useEffect(() => {
+    if (!hasRunningTimer) return;
+
+    const tick = () => {
+      const current = Date.now();
+      setNow(current);
+      const { finished } = cookModeService.tick(timersRef.current, current);
+      if (finished.length === 0) return;
+
+      // Mark the timers done first so a failed notification can't repeat every tick
+      update((prev) => ({ timers: cookModeService.tick(prev.timers, current).timers }));
+      finished.forEach(notifyFinished);
+    };
+
+    tick();
+    const interval = setInterval(tick, 1000);
+    return () => clearInterval(interval);
+  }, [hasRunningTimer, update]);
+
+  const goToStep = useCallback(
+    (index: number) =>
+      update(() => ({ stepIndex: Math.min(Math.max(0, index), Math.max(0, stepCount - 1)) })),
+    [update, stepCount]
+  );
+
+  const updateTimer = useCallback(
+    (id: string, change: (timer: CookTimer) => CookTimer) =>
+      update((prev) => ({
+        timers: prev.timers.map((timer) => (timer.id === id ? change(timer) : timer)),
+      })),
+    [update]
+  );
+
+  const startTimer = useCallback(
+    (instruction: Instruction) => {
+      requestNotificationPermission();
+      const current = Date.now();
+      setNow(current);
+      update((prev) => {
+        const existing = prev.timers.find((timer) => timer.step === instruction.step);
+        if (existing) {
+          const restarted =
+            existing.status === 'done' ? cookModeService.resetTimer(existing) : existing;
+          return {
+            timers: prev.timers.map((timer) =>
+              timer.id === existing.id ? cookModeService.startTimer(restarted, current) : timer
+            ),
+          };
+        }
+
+        const timer = cookModeService.createTimer(instruction);
+        return timer
+          ? { timers: [...prev.timers, cookModeService.startTimer(timer, current)] }
+          : {};
+      });
+    },
+    [update]
+  );
+
+  return {
+    stepIndex: progress.stepIndex,
+    timers: progress.timers,
+    now,
+    goToStep,
+    nextStep: () => goToStep(progress.stepIndex + 1),
+    previousStep: () => goToStep(progress.stepIndex - 1),
+    startTimer,
+    pauseTimer: (id: string) => updateTimer(id, (timer) => cookModeService.pauseTimer(timer)),
+    resetTimer: (id: string) => updateTimer(id, (timer) => cookModeService.resetTimer(timer)),
+    dismissTimer: (id: string) =>
+      update((prev) => ({ timers: prev.timers.filter((timer) => timer.id !== id) })),
+    restart: () => setProgress(cookModeService.createProgress(recipeKey)),
+  };
+}
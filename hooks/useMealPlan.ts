@@ -0,0 +1,139 @@
+/**
+ * useMealPlan hook
+ * Loads, edits and persists the meal plan for the current user (or guest)
+ */
+
+'use client';
+
+import { useState, useEffect, useCallback, useMemo } from 'react';
+import { useAuth } from '@/contexts/AuthContext';
+import { addDays, getWeekStart, mealPlanService, type MealPlanEntryInput } from '@/lib/mealPlan';
+import {
+  getMealPlanEntriesWithSync,
+  saveMealPlanEntryWithSync,
+  deleteMealPlanEntryWithSync,
+  addSyncListener,
+} from '@/services/sync';
+import type { MealPlanDay, MealPlanEntry, MealSlot } from '@/types';
+
+export interface UseMealPlanResult {
+  entries: MealPlanEntry[];
+  /** Monday of the week being shown (YYYY-MM-DD) */
+  weekStart: string;
+  /** The shown week laid out by day and meal */
+  days: MealPlanDay[];
+  loading: boolean;
+  previousWeek: () => void;
+  nextWeek: () => void;
+  currentWeek: () => void;
+  addEntry: (input: MealPlanEntryInput) => Promise<MealPlanEntry>;
+  setMultiplier: (id: string, multiplier: number) => Promise<void>;
+  moveEntry: (id: string, date: string, meal: MealSlot) => Promise<void>;
+  removeEntry: (id: string) => Promise<void>;
+}
+
+/**
+ * Hook to manage the weekly meal plan
+ */
+export function useMealPlan(): UseMealPlanResult {
+  const { user } = useAuth();
+  const userId = user?.id ?? null;
+  const [entries, setEntries] = useState<MealPlanEntry[]>([]);
+  const [weekStart, setWeekStart] = useState(() => getWeekStart(new Date()));
+  const [loading, setLoading] = useState(true);
+
+  const loadEntries = useCallback(async () => {
+    try {
+      setEntries(await getMealPlanEntriesWithSync(userId));
+    } catch (error) {
+      console.error('Failed to load meal plan:', error);
+    } finally {
+      setLoading(false);
+    }
+  }, [userId]);
+
+  useEffect(() => {
+    setLoading(true);
+    loadEntries();
+  }, [loadEntries]);
+
+  // Reload after a sync pulls changes from other devices
+  useEffect(() => {
+    return addSyncListener((event) => {
+      if (event === 'sync-completed') {
+        loadEntries();
+      }
+    });
+  }, [loadEntries]);
+
+  const days = useMemo(() => mealPlanService.groupByDay(entries, weekStart), [entries, weekStart]);
+
+  // Update state immediately, then persist
+  const persist = useCallback(
+    async (entry: MealPlanEntry) => {
+      setEntries((prev) => [...prev.filter((e) => e.id !== entry.id), entry]);
+      try {
+        await saveMealPlanEntryWithSync(userId, entry);
+      } catch (error) {
+        console.error('Failed to save meal plan entry:', error);
+      }
+    },
+    [userId]
+  );
+
+  const updateEntry = useCallback(
+    async (id: string, update: (entry: MealPlanEntry) => MealPlanEntry) => {
+      const entry = entries.find((e) => e.id === id);
+      if (!entry) return;
+      await persist(update(entry));
+    },
+    [entries, persist]
+  );
+
+  const addEntry = useCallback(
+    async (input: MealPlanEntryInput) => {
+      const entry = mealPlanService.createEntry(input);
+      await persist(entry);
+      return entry;
+    },
+    [persist]
+  );
+
+  const setMultiplier = useCallback(
+    (id: string, multiplier: number) =>
+      updateEntry(id, (entry) => mealPlanService.setMultiplier(entry, multiplier)),
+    [updateEntry]
+  );
+
+  const moveEntry = useCallback(
+    (id: string, date: string, meal: MealSlot) =>
+      updateEntry(id, (entry) => mealPlanService.moveEntry(entry, date, meal)),
+    [updateEntry]
+  );
+
+  const removeEntry = useCallback(
+    async (id: string) => {
+      setEntries((prev) => prev.filter((e) => e.id !== id));
+      try {
+        await deleteMealPlanEntryWithSync(userId, id);
+      } catch (error) {
+        console.error('Failed to delete meal plan entry:', error);
+      }
+    },
+    [userId]
+  );
+
+  return {
+    entries,
+    weekStart,
+    days,
+    loading,
+    previousWeek: () => setWeekStart((prev) => addDays(prev, -7)),
+    nextWeek: () => setWeekStart((prev) => addDays(prev, 7)),
+    currentWeek: () => setWeekStart(getWeekStart(new Date())),
+    addEntry,
+    setMultiplier,
+    moveEntry,
+    removeEntry,
+  };
+}
@@ -0,0 +1,121 @@
+/**
+ * usePantry hook
+ * Loads, edits and persists the pantry for the current user (or guest)
+ */
+
+'use client';
+
+import { useState, useEffect, useCallback } from 'react';
+import { useAuth } from '@/contexts/AuthContext';
+import { pantryService, type PantryItemInput } from '@/lib/pantry';
+import {
+  getPantryItemsWithSync,
+  savePantryItemWithSync,
+  deletePantryItemWithSync,
+  addSyncListener,
+} from '@/services/sync';
+import type { PantryItem, ScaledIngredient } from '@/types';
+
+export interface UsePantryResult {
+  items: PantryItem[];
+  loading: boolean;
+  /** Throws a validation error for a missing name or unknown unit */
+  addItem: (input: PantryItemInput) => Promise<PantryItem>;
+  /** Throws a validation error for a negative quantity or unknown unit */
+  updateAmount: (id: string, quantity: number | null, unit: string | null) => Promise<void>;
+  removeItem: (id: string) => Promise<void>;
+  /** Take a cooked recipe's ingredients out of the pantry */
+  consume: (ingredients: ScaledIngredient[]) => Promise<void>;
+}
+
+function sortByName(items: PantryItem[]): PantryItem[] {
+  return [...items].sort((a, b) => a.name.localeCompare(b.name));
+}
+
+/**
+ * Hook to manage the pantry
+ */
+export function usePantry(): UsePantryResult {
+  const { user } = useAuth();
+  const userId = user?.id ?? null;
+  const [items, setItems] = useState<PantryItem[]>([]);
+  const [loading, setLoading] = useState(true);
+
+  const loadItems = useCallback(async () => {
+    try {
+      setItems(await getPantryItemsWithSync(userId));
+    } catch (error) {
+      console.error('Failed to load pantry:', error);
+    } finally {
+      setLoading(false);
+    }
+  }, [userId]);
+
+  useEffect(() => {
+    setLoading(true);
+    loadItems();
+  }, [loadItems]);
+
+  // Reload after a sync pulls changes from other devices
+  useEffect(() => {
+    return addSyncListener((event) => {
+      if (event === 'sync-completed') {
+        loadItems();
+      }
+    });
+  }, [loadItems]);
+
+  // Update state immediately, then persist
+  const persist = useCallback(
+    async (changed: PantryItem[], removed: string[] = []) => {
+      const dropped = new Set([...removed, ...changed.map((item) => item.id)]);
+      setItems((prev) => sortByName([...prev.filter((i) => !dropped.has(i.id)), ...changed]));
+      try {
+        await Promise.all([
+          ...changed.map((item) => savePantryItemWithSync(userId, item)),
+          ...removed.map((id) => deletePantryItemWithSync(userId, id)),
+        ]);
+      } catch (error) {
+        console.error('Failed to save pantry:', error);
+      }
+    },
+    [userId]
+  );
+
+  const addItem = useCallback(
+    async (input: PantryItemInput) => {
+      const item = pantryService.createItem(input);
+      await persist([item]);
+      return item;
+    },
+    [persist]
+  );
+
+  const updateAmount = useCallback(
+    async (id: string, quantity: number | null, unit: string | null) => {
+      const item = items.find((i) => i.id === id);
+      if (!item) return;
+      await persist([pantryService.updateAmount(item, quantity, unit)]);
+    },
+    [items, persist]
+  );
+
+  const removeItem = useCallback((id: string) => persist([], [id]), [persist]);
+
+  const consume = useCallback(
+    async (ingredients: ScaledIngredient[]) => {
+      const { updated, depleted } = pantryService.consume(ingredients, items);
+      await persist(updated, depleted);
+    },
+    [items, persist]
+  );
+
+  return {
+    items,
+    loading,
+    addItem,
+    updateAmount,
+    removeItem,
+    consume,
+  };
+}
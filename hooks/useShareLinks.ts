@@ -0,0 +1,112 @@
+/**
+ * useShareLinks hook
+ * Lists, creates and revokes the public share links for one recipe or collection
+ */
+
+'use client';
+
+import { useState, useEffect, useCallback } from 'react';
+import { useAuth } from '@/contexts/AuthContext';
+import { getShareLinks, createShareLink, revokeShareLink } from '@/lib/supabase/shares';
+import type { DbShareLink } from '@/lib/supabase/types';
+import type { NewShareLink, ShareLink, ShareTargetType } from '@/types';
+
+export interface UseShareLinksResult {
+  /** Links for the target, newest first (including revoked and expired ones) */
+  links: ShareLink[];
+  loading: boolean;
+  error: string | null;
+  /** Links live on the server, so only signed-in users can share */
+  canShare: boolean;
+  createLink: (link: NewShareLink) => Promise<ShareLink | null>;
+  revokeLink: (id: string) => Promise<void>;
+}
+
+function dbShareLinkToShareLink(row: Omit<DbShareLink, 'content'>): ShareLink {
+  return {
+    id: row.id,
+    token: row.token,
+    targetType: row.target_type,
+    targetId: row.target_id,
+    title: row.title,
+    multiplier: Number(row.multiplier),
+    expiresAt: row.expires_at,
+    revokedAt: row.revoked_at,
+    createdAt: row.created_at,
+  };
+}
+
+/**
+ * Hook to manage share links for a recipe (by source URL) or a collection (by ID)
+ */
+export function useShareLinks(
+  targetType: ShareTargetType,
+  targetId: string | null
+): UseShareLinksResult {
+  const { user } = useAuth();
+  const userId = user?.id ?? null;
+  const [links, setLinks] = useState<ShareLink[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!userId || !targetId) {
+      setLinks([]);
+      return;
+    }
+
+    let cancelled = false;
+    setLoading(true);
+    getShareLinks(userId, targetType, targetId).then(({ data, error }) => {
+      if (cancelled) return;
+      setLinks(data.map(dbShareLinkToShareLink));
+      setError(error ? 'Could not load share links.' : null);
+      setLoading(false);
+    });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [userId, targetType, targetId]);
+
+  const createLink = useCallback(
+    async (link: NewShareLink) => {
+      if (!userId) return null;
+
+      const { data, error } = await createShareLink({
+        user_id: userId,
+        token: link.token,
+        target_type: link.targetType,
+        target_id: link.targetId,
+        title: link.title,
+        multiplier: link.multiplier,
+        content: link.content,
+        expires_at: link.expiresAt,
+      });
+      if (error || !data) {
+        setError('Could not create the link. Please try again.');
+        return null;
+      }
+
+      const created = dbShareLinkToShareLink(data);
+      setError(null);
+      setLinks((prev) => [created, ...prev]);
+      return created;
+    },
+    [userId]
+  );
+
+  const revokeLink = useCallback(async (id: string) => {
+    const { error } = await revokeShareLink(id);
+    if (error) {
+      setError('Could not revoke the link. Please try again.');
+      return;
+    }
+
+    const revokedAt = new Date().toISOString();
+    setError(null);
+    setLinks((prev) => prev.map((link) => (link.id === id ? { ...link, revokedAt } : link)));
+  }, []);
+
+  return { links, loading, error, canShare: !!userId, createLink, revokeLink };
+}
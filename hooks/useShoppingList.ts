@@ -0,0 +1,161 @@
+/**
+ * useShoppingList hook
+ * Loads, edits and persists shopping lists for the current user (or guest)
+ */
+
+'use client';
+
+import { useState, useEffect, useCallback } from 'react';
+import { useAuth } from '@/contexts/AuthContext';
+import { shoppingListService, type ShoppingListRecipeInput } from '@/lib/shopping';
+import { pantryService } from '@/lib/pantry';
+import {
+  getShoppingListsWithSync,
+  saveShoppingListWithSync,
+  deleteShoppingListWithSync,
+  addSyncListener,
+} from '@/services/sync';
+import type { PantryItem, ShoppingList } from '@/types';
+
+export interface UseShoppingListResult {
+  lists: ShoppingList[];
+  activeList: ShoppingList | null;
+  loading: boolean;
+  selectList: (id: string) => void;
+  createList: (name: string, inputs: ShoppingListRecipeInput[]) => Promise<ShoppingList>;
+  addRecipes: (inputs: ShoppingListRecipeInput[]) => Promise<void>;
+  toggleItem: (itemId: string) => Promise<void>;
+  clearChecked: () => Promise<void>;
+  /** Check off items the pantry already covers; resolves to how many were checked off */
+  checkOffPantry: (pantry: PantryItem[]) => Promise<number>;
+  deleteList: (id: string) => Promise<void>;
+}
+
+/**
+ * Hook to manage shopping lists
+ */
+export function useShoppingList(): UseShoppingListResult {
+  const { user } = useAuth();
+  const userId = user?.id ?? null;
+  const [lists, setLists] = useState<ShoppingList[]>([]);
+  const [activeId, setActiveId] = useState<string | null>(null);
+  const [loading, setLoading] = useState(true);
+
+  const loadLists = useCallback(async () => {
+    try {
+      const loaded = await getShoppingListsWithSync(userId);
+      setLists(loaded);
+      setActiveId((prev) =>
+        prev && loaded.some((l) => l.id === prev) ? prev : loaded[0]?.id ?? null
+      );
+    } catch (error) {
+      console.error('Failed to load shopping lists:', error);
+    } finally {
+      setLoading(false);
+    }
+  }, [userId]);
+
+  useEffect(() => {
+    setLoading(true);
+    loadLists();
+  }, [loadLists]);
+
+  // Reload after a sync pulls changes from other devices
+  useEffect(() => {
+    return addSyncListener((event) => {
+      if (event === 'sync-completed') {
+        loadLists();
+      }
+    });
+  }, [loadLists]);
+
+  const activeList = lists.find((l) => l.id === activeId) ?? null;
+
+  // Update state immediately, then persist
+  const persist = useCallback(
+    async (list: ShoppingList) => {
+      setLists((prev) => [list, ...prev.filter((l) => l.id !== list.id)]);
+      try {
+        await saveShoppingListWithSync(userId, list);
+      } catch (error) {
+        console.error('Failed to save shopping list:', error);
+      }
+    },
+    [userId]
+  );
+
+  const createList = useCallback(
+    async (name: string, inputs: ShoppingListRecipeInput[]) => {
+      const list = shoppingListService.createList(name, inputs);
+      setActiveId(list.id);
+      await persist(list);
+      return list;
+    },
+    [persist]
+  );
+
+  const addRecipes = useCallback(
+    async (inputs: ShoppingListRecipeInput[]) => {
+      if (!activeList) return;
+      const updated = inputs.reduce(
+        (list, input) => shoppingListService.addRecipe(list, input),
+        activeList
+      );
+      await persist(updated);
+    },
+    [activeList, persist]
+  );
+
+  const toggleItem = useCallback(
+    async (itemId: string) => {
+      if (!activeList) return;
+      await persist(shoppingListService.toggleItem(activeList, itemId));
+    },
+    [activeList, persist]
+  );
+
+  const clearChecked = useCallback(async () => {
+    if (!activeList) return;
+    await persist(shoppingListService.clearChecked(activeList));
+  }, [activeList, persist]);
+
+  const checkOffPantry = useCallback(
+    async (pantry: PantryItem[]) => {
+      if (!activeList) return 0;
+      const updated = pantryService.checkOffCovered(activeList, pantry);
+      const count = (list: ShoppingList) => list.items.filter((item) => item.checked).length;
+      await persist(updated);
+      return count(updated) - count(activeList);
+    },
+    [activeList, persist]
+  );
+
+  const deleteList = useCallback(
+    async (id: string) => {
+      const remaining = lists.filter((l) => l.id !== id);
+      setLists(remaining);
+      if (activeId === id) {
+        setActiveId(remaining[0]?.id ?? null);
+      }
+      try {
+        await deleteShoppingListWithSync(userId, id);
+      } catch (error) {
+        console.error('Failed to delete shopping list:', error);
+      }
+    },
+    [lists, activeId, userId]
+  );
+
+  return {
+    lists,
+    activeList,
+    loading,
+    selectList: setActiveId,
+    createList,
+    addRecipes,
+    toggleItem,
+    clearChecked,
+    checkOffPantry,
+    deleteList,
+  };
+}
@@ -13,10 +13,14 @@ import {
   fullSync,
   syncToCloud,
   addSyncListener,
+  getRecipeConflicts,
+  resolveRecipeConflicts,
+  syncLeader,
+  type RecipeConflict,
   type SyncResult,
   type SyncEventType,
 } from '@/services/sync';
-import type { SyncStatus } from '@/lib/offline';
+import type { MergeableRecipeField, SyncStatus } from '@/lib/offline';
 
 // Debounce delay for auto-sync after coming back online
 const ONLINE_SYNC_DELAY = 2000;
@@ -25,8 +29,14 @@ export interface UseSyncResult {
   syncStatus: SyncStatus;
   isSyncing: boolean;
   lastSyncResult: SyncResult | null;
+  /** Recipes edited on two devices that need the user to pick a version */
+  conflicts: RecipeConflict[];
   sync: () => Promise<SyncResult | null>;
   syncPending: () => Promise<SyncResult | null>;
+  resolveConflicts: (
+    recipeId: string,
+    choices: Partial<Record<MergeableRecipeField, 'local' | 'remote'>>
+  ) => Promise<void>;
 }
 
 /**
@@ -38,11 +48,15 @@ export function useSync(): UseSyncResult {
   const [syncStatus, setSyncStatus] = useState<SyncStatus>({
     lastSyncAt: null,
     pendingOperations: 0,
+    unresolvedConflicts: 0,
+    failedOperations: 0,
+    nextRetryAt: null,
     isSyncing: false,
     lastError: null,
   });
   const [isSyncing, setIsSyncing] = useState(false);
   const [lastSyncResult, setLastSyncResult] = useState<SyncResult | null>(null);
+  const [conflicts, setConflicts] = useState<RecipeConflict[]>([]);
   const syncTimeoutRef = useRef<NodeJS.Timeout | null>(null);
 
   // Update sync status
@@ -50,6 +64,7 @@ export function useSync(): UseSyncResult {
     if (user) {
       const status = await getSyncStatus(user.id);
       setSyncStatus(status);
+      setConflicts(status.unresolvedConflicts > 0 ? await getRecipeConflicts(user.id) : []);
     }
   }, [user]);
 
@@ -89,6 +104,23 @@ export function useSync(): UseSyncResult {
     }
   }, [user, isOnline, updateSyncStatus]);
 
+  // Keep the user's picks locally, then upload them
+  const resolveConflicts = useCallback(
+    async (
+      recipeId: string,
+      choices: Partial<Record<MergeableRecipeField, 'local' | 'remote'>>
+    ) => {
+      if (!user) return;
+
+      await resolveRecipeConflicts(recipeId, user.id, choices);
+      await updateSyncStatus();
+      if (isOnline) {
+        await syncPending();
+      }
+    },
+    [user, isOnline, updateSyncStatus, syncPending]
+  );
+
   // Listen for sync events
   useEffect(() => {
     const unsubscribe = addSyncListener(
@@ -118,9 +150,12 @@ export function useSync(): UseSyncResult {
         clearTimeout(syncTimeoutRef.current);
       }
 
-      // Debounce the sync to avoid immediate sync on flaky connections
+      // Debounce the sync to avoid immediate sync on flaky connections.
+      // With several tabs open only the leader syncs; the others hear about it.
       syncTimeoutRef.current = setTimeout(() => {
-        sync();
+        if (syncLeader.isLeader()) {
+          sync();
+        }
       }, ONLINE_SYNC_DELAY);
     }
 
@@ -131,6 +166,24 @@ export function useSync(): UseSyncResult {
     };
   }, [isOnline, wasOffline, user, sync]);
 
+  // Retry failed operations once their backoff has passed
+  useEffect(() => {
+    if (!isOnline || !syncStatus.nextRetryAt) return;
+
+    const delay = Math.max(0, new Date(syncStatus.nextRetryAt).getTime() - Date.now());
+    const timeout = setTimeout(() => {
+      if (syncLeader.isLeader()) {
+        syncPending();
+      }
+    }, delay);
+    return () => clearTimeout(timeout);
+  }, [isOnline, syncStatus.nextRetryAt, syncPending]);
+
+  // Join the election for which tab runs automatic syncs
+  useEffect(() => {
+    syncLeader.start();
+  }, []);
+
   // Initial status fetch
   useEffect(() => {
     updateSyncStatus();
@@ -146,8 +199,10 @@ export function useSync(): UseSyncResult {
     syncStatus,
     isSyncing,
     lastSyncResult,
+    conflicts,
     sync,
     syncPending,
+    resolveConflicts,
   };
 }
 
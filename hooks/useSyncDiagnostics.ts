@@ -0,0 +1,117 @@
+/**
+ * useSyncDiagnostics hook
+ * Lists pending and failed sync operations and lets the user retry, discard or export them
+ */
+
+'use client';
+
+import { useState, useEffect, useCallback } from 'react';
+import { useAuth } from '@/contexts/AuthContext';
+import {
+  addSyncListener,
+  getPendingOperations,
+  getDeadOperations,
+  retryOperationNow,
+  discardOperation,
+  retryDeadOperation,
+  discardDeadOperation,
+} from '@/services/sync';
+import type { DeadSyncOperation, SyncOperation } from '@/lib/offline';
+
+export interface UseSyncDiagnosticsResult {
+  /** Operations waiting to sync, oldest first */
+  pending: SyncOperation[];
+  /** Operations that ran out of retries, newest first */
+  failed: DeadSyncOperation[];
+  loading: boolean;
+  refresh: () => Promise<void>;
+  retryPending: (id: number) => Promise<void>;
+  discardPending: (id: number) => Promise<void>;
+  retryFailed: (id: number) => Promise<void>;
+  discardFailed: (id: number) => Promise<void>;
+  /** Both lists as JSON, for attaching to a bug report */
+  getReport: () => string;
+}
+
+/**
+ * Hook to inspect the sync queue. Only loads while `enabled` (e.g., the panel is open).
+ */
+export function useSyncDiagnostics(enabled = true): UseSyncDiagnosticsResult {
+  const { user } = useAuth();
+  const userId = user?.id ?? null;
+  const [pending, setPending] = useState<SyncOperation[]>([]);
+  const [failed, setFailed] = useState<DeadSyncOperation[]>([]);
+  const [loading, setLoading] = useState(false);
+
+  const refresh = useCallback(async () => {
+    if (!userId) {
+      setPending([]);
+      setFailed([]);
+      return;
+    }
+
+    try {
+      const [pendingOps, failedOps] = await Promise.all([
+        getPendingOperations(userId),
+        getDeadOperations(userId),
+      ]);
+      setPending(pendingOps);
+      setFailed(failedOps);
+    } catch (error) {
+      console.error('Failed to load sync operations:', error);
+    } finally {
+      setLoading(false);
+    }
+  }, [userId]);
+
+  useEffect(() => {
+    if (!enabled) return;
+    setLoading(true);
+    refresh();
+  }, [enabled, refresh]);
+
+  // Keep the lists current while a sync works through the queue
+  useEffect(() => {
+    if (!enabled) return;
+    return addSyncListener((event) => {
+      if (event === 'sync-completed' || event === 'sync-failed') {
+        refresh();
+      }
+    });
+  }, [enabled, refresh]);
+
+  const withRefresh = useCallback(
+    (action: (id: number) => Promise<void>) => async (id: number) => {
+      await action(id);
+      await refresh();
+    },
+    [refresh]
+  );
+
+  const getReport = useCallback(
+    () =>
+      JSON.stringify(
+        {
+          exportedAt: new Date().toISOString(),
+          userAgent: typeof navigator === 'undefined' ? null : navigator.userAgent,
+          pending,
+          failed,
+        },
+        null,
+        2
+      ),
+    [pending, failed]
+  );
+
+  return {
+    pending,
+    failed,
+    loading,
+    refresh,
+    retryPending: withRefresh(retryOperationNow),
+    discardPending: withRefresh(discardOperation),
+    retryFailed: withRefresh(retryDeadOperation),
+    discardFailed: withRefresh(discardDeadOperation),
+    getReport,
+  };
+}
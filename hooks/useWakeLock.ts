@@ -0,0 +1,58 @@
+/**
+ * useWakeLock hook
+ * Keeps the screen on while active, where the browser supports it
+ */
+
+'use client';
+
+import { useEffect, useState } from 'react';
+
+/**
+ * Hold a screen wake lock while `active` is true.
+ * Returns whether a lock is currently held.
+ */
+export function useWakeLock(active: boolean): boolean {
+  const [locked, setLocked] = useState(false);
+
+  useEffect(() => {
+    if (!active || typeof navigator === 'undefined' || !('wakeLock' in navigator)) return;
+
+    let sentinel: WakeLockSentinel | null = null;
+    let cancelled = false;
+
+    const request = async () => {
+      try {
+        const lock = await navigator.wakeLock.request('screen');
+        if (cancelled) {
+          await lock.release();
+          return;
+        }
+        sentinel = lock;
+        setLocked(true);
+        lock.addEventListener('release', () => setLocked(false));
+      } catch (error) {
+        // Denied (e.g., battery saver) - cooking still works, the screen just dims
+        console.warn('Wake lock unavailable:', error);
+      }
+    };
+
+    // The browser drops the lock when the tab is hidden; take it again on return
+    const handleVisibilityChange = () => {
+      if (document.visibilityState === 'visible' && (!sentinel || sentinel.released)) {
+        request();
+      }
+    };
+
+    request();
+    document.addEventListener('visibilitychange', handleVisibilityChange);
+
+    return () => {
+      cancelled = true;
+      document.removeEventListener('visibilitychange', handleVisibilityChange);
+      sentinel?.release().catch(() => undefined);
+      setLocked(false);
+    };
+  }, [active]);
+
+  return locked;
+}
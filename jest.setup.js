@@ -1 +1,7 @@
 import '@testing-library/jest-dom';
+
+// jsdom leaves out structuredClone, which fake-indexeddb needs
+if (typeof globalThis.structuredClone === 'undefined') {
+  const { serialize, deserialize } = require('node:v8');
+  globalThis.structuredClone = (value) => deserialize(serialize(value));
+}
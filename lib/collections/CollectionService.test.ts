@@ -0,0 +1,119 @@
+import { CollectionService } from './CollectionService';
+import { ErrorCode, RecipeCollection } from '@/types';
+
+describe('CollectionService', () => {
+  let service: CollectionService;
+
+  beforeEach(() => {
+    service = new CollectionService();
+  });
+
+  const withRecipes = (name: string, recipeIds: string[]): RecipeCollection =>
+    service.addRecipes(service.createCollection({ name }), recipeIds);
+
+  describe('createCollection', () => {
+    it('trims details and places new collections last', () => {
+      const first = service.createCollection({ name: ' Weeknight ', description: '  ' });
+      const second = service.createCollection(
+        { name: 'Thanksgiving', coverImage: 'https://example.com/turkey.jpg' },
+        [first]
+      );
+
+      expect(first).toMatchObject({ name: 'Weeknight', description: null, position: 0 });
+      expect(second).toMatchObject({
+        coverImage: 'https://example.com/turkey.jpg',
+        recipeIds: [],
+        position: 1,
+      });
+    });
+
+    it('rejects a blank name or a cover that is not a web link', () => {
+      expect(() => service.createCollection({ name: ' ' })).toThrow(
+        expect.objectContaining({ code: ErrorCode.VALIDATION_ERROR })
+      );
+      expect(() =>
+        service.createCollection({ name: 'Soups', coverImage: 'javascript:alert(1)' })
+      ).toThrow(expect.objectContaining({ code: ErrorCode.VALIDATION_ERROR }));
+    });
+  });
+
+  describe('recipes', () => {
+    it('adds recipes once, in order', () => {
+      const collection = withRecipes('Soups', ['r1', 'r2']);
+
+      expect(service.addRecipes(collection, ['r2', 'r3', 'r3']).recipeIds).toEqual([
+        'r1',
+        'r2',
+        'r3',
+      ]);
+      expect(service.addRecipes(collection, ['r1'])).toBe(collection);
+    });
+
+    it('removes recipes', () => {
+      const collection = withRecipes('Soups', ['r1', 'r2', 'r3']);
+
+      expect(service.removeRecipes(collection, ['r2']).recipeIds).toEqual(['r1', 'r3']);
+    });
+
+    it('moves recipes within bounds', () => {
+      const collection = withRecipes('Soups', ['r1', 'r2', 'r3']);
+
+      expect(service.moveRecipe(collection, 'r3', -1).recipeIds).toEqual(['r1', 'r3', 'r2']);
+      expect(service.moveRecipe(collection, 'r1', 1).recipeIds).toEqual(['r2', 'r1', 'r3']);
+      expect(service.moveRecipe(collection, 'r1', -1)).toBe(collection);
+    });
+
+    it('follows a recipe to its new ID', () => {
+      const collection = withRecipes('Soups', ['offline-1', 'r2']);
+
+      expect(service.replaceRecipeId(collection, 'offline-1', 'cloud-1').recipeIds).toEqual([
+        'cloud-1',
+        'r2',
+      ]);
+      expect(service.replaceRecipeId(collection, 'offline-1', 'r2').recipeIds).toEqual(['r2']);
+    });
+
+    it('lists saved recipes in collection order with a fallback cover', () => {
+      const collection = withRecipes('Soups', ['r3', 'gone', 'r1']);
+      const recipes = [
+        { id: 'r1', image: 'https://example.com/r1.jpg' },
+        { id: 'r2' },
+        { id: 'r3' },
+      ];
+
+      expect(service.getRecipes(collection, recipes).map((r) => r.id)).toEqual(['r3', 'r1']);
+      expect(service.getCoverImage(collection, recipes)).toBe('https://example.com/r1.jpg');
+      expect(
+        service.getCoverImage(
+          { ...collection, coverImage: 'https://example.com/soup.jpg' },
+          recipes
+        )
+      ).toBe('https://example.com/soup.jpg');
+    });
+  });
+
+  describe('moveCollection', () => {
+    it('returns only the collections whose position changed', () => {
+      const a = service.createCollection({ name: 'A' });
+      const b = service.createCollection({ name: 'B' }, [a]);
+      const c = service.createCollection({ name: 'C' }, [a, b]);
+
+      const moved = service.moveCollection([a, b, c], c.id, -1);
+
+      expect(moved.map((m) => [m.name, m.position])).toEqual([
+        ['C', 1],
+        ['B', 2],
+      ]);
+      expect(service.moveCollection([a, b, c], a.id, -1)).toEqual([]);
+      expect(service.moveCollection([a, b, c], 'unknown', 1)).toEqual([]);
+    });
+  });
+
+  it('updates details', () => {
+    const collection = service.createCollection({ name: 'Soups', description: 'Warm' });
+
+    const updated = service.updateDetails(collection, { name: 'Stews', coverImage: '' });
+
+    expect(updated).toMatchObject({ name: 'Stews', description: 'Warm', coverImage: null });
+  });
+});
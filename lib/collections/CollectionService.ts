@@ -0,0 +1,185 @@
+/**
+ * Collection service
+ *
+ * Groups saved recipes into ordered collections ("Thanksgiving",
+ * "Weeknight"). Collections hold recipe IDs, so a recipe can sit in
+ * several of them and removing it from one leaves it saved.
+ */
+
+import { v4 as uuidv4 } from 'uuid';
+import { ErrorCode, Recipe, RecipeCollection } from '@/types';
+import { createError } from '@/lib/utils';
+
+/**
+ * Details a collection is created or edited with
+ */
+export interface CollectionInput {
+  name: string;
+  description?: string | null;
+  /** Image URL; blank to use the first recipe's image */
+  coverImage?: string | null;
+}
+
+function normalizeName(name: string): string {
+  const trimmed = name.trim();
+  if (!trimmed) {
+    throw createError(ErrorCode.VALIDATION_ERROR, 'Collections need a name');
+  }
+  return trimmed;
+}
+
+function normalizeCoverImage(url: string | null | undefined): string | null {
+  const trimmed = url?.trim();
+  if (!trimmed) return null;
+
+  try {
+    const { protocol } = new URL(trimmed);
+    if (protocol === 'http:' || protocol === 'https:') return trimmed;
+  } catch {
+    // Fall through to the error below
+  }
+  throw createError(ErrorCode.VALIDATION_ERROR, 'Cover image must be a web link', { url });
+}
+
+export class CollectionService {
+  /**
+   * Create a collection, placed after the existing ones
+   */
+  createCollection(input: CollectionInput, existing: RecipeCollection[] = []): RecipeCollection {
+    const now = new Date().toISOString();
+    return {
+      id: uuidv4(),
+      name: normalizeName(input.name),
+      description: input.description?.trim() || null,
+      coverImage: normalizeCoverImage(input.coverImage),
+      recipeIds: [],
+      position: existing.reduce((max, c) => Math.max(max, c.position + 1), 0),
+      createdAt: now,
+      updatedAt: now,
+    };
+  }
+
+  /**
+   * Change the name, description or cover image
+   */
+  updateDetails(collection: RecipeCollection, changes: Partial<CollectionInput>): RecipeCollection {
+    return {
+      ...collection,
+      ...(changes.name !== undefined && { name: normalizeName(changes.name) }),
+      ...(changes.description !== undefined && {
+        description: changes.description?.trim() || null,
+      }),
+      ...(changes.coverImage !== undefined && {
+        coverImage: normalizeCoverImage(changes.coverImage),
+      }),
+      updatedAt: new Date().toISOString(),
+    };
+  }
+
+  /**
+   * Add recipes to the end, skipping ones already in the collection
+   */
+  addRecipes(collection: RecipeCollection, recipeIds: string[]): RecipeCollection {
+    const added = recipeIds.filter((id) => id && !collection.recipeIds.includes(id));
+    if (added.length === 0) return collection;
+
+    return {
+      ...collection,
+      recipeIds: [...collection.recipeIds, ...new Set(added)],
+      updatedAt: new Date().toISOString(),
+    };
+  }
+
+  /**
+   * Take recipes out of the collection (they stay saved)
+   */
+  removeRecipes(collection: RecipeCollection, recipeIds: string[]): RecipeCollection {
+    const remaining = collection.recipeIds.filter((id) => !recipeIds.includes(id));
+    if (remaining.length === collection.recipeIds.length) return collection;
+
+    return { ...collection, recipeIds: remaining, updatedAt: new Date().toISOString() };
+  }
+
+  /**
+   * Move a recipe up (negative offset) or down the collection
+   */
+  moveRecipe(collection: RecipeCollection, recipeId: string, offset: number): RecipeCollection {
+    const recipeIds = this.move(
+      collection.recipeIds,
+      collection.recipeIds.indexOf(recipeId),
+      offset
+    );
+    if (!recipeIds) return collection;
+
+    return { ...collection, recipeIds, updatedAt: new Date().toISOString() };
+  }
+
+  /**
+   * Move a collection earlier (negative offset) or later. Returns only the
+   * collections whose position changed, ready to save.
+   */
+  moveCollection(collections: RecipeCollection[], id: string, offset: number): RecipeCollection[] {
+    const sorted = [...collections].sort((a, b) => a.position - b.position);
+    const moved = this.move(
+      sorted,
+      sorted.findIndex((c) => c.id === id),
+      offset
+    );
+    if (!moved) return [];
+
+    const now = new Date().toISOString();
+    return moved
+      .map((collection, position) => ({ collection, position }))
+      .filter(({ collection, position }) => collection.position !== position)
+      .map(({ collection, position }) => ({ ...collection, position, updatedAt: now }));
+  }
+
+  /**
+   * Point the collection at a recipe's new ID (e.g., after an offline recipe syncs)
+   */
+  replaceRecipeId(collection: RecipeCollection, oldId: string, newId: string): RecipeCollection {
+    if (!collection.recipeIds.includes(oldId)) return collection;
+
+    const recipeIds = collection.recipeIds.includes(newId)
+      ? collection.recipeIds.filter((id) => id !== oldId)
+      : collection.recipeIds.map((id) => (id === oldId ? newId : id));
+    return { ...collection, recipeIds, updatedAt: new Date().toISOString() };
+  }
+
+  /**
+   * The collection's recipes in order, skipping ones that are no longer saved
+   */
+  getRecipes<T extends Pick<Recipe, 'id'>>(collection: RecipeCollection, recipes: T[]): T[] {
+    const byId = new Map(recipes.filter((r) => r.id).map((r) => [r.id as string, r]));
+    return collection.recipeIds.flatMap((id) => byId.get(id) ?? []);
+  }
+
+  /**
+   * Cover image to show: the chosen one, or the first recipe with an image
+   */
+  getCoverImage(
+    collection: RecipeCollection,
+    recipes: Pick<Recipe, 'id' | 'image'>[]
+  ): string | undefined {
+    return (
+      collection.coverImage ??
+      this.getRecipes(collection, recipes).find((recipe) => recipe.image)?.image
+    );
+  }
+
+  /**
+   * A copy of the list with one item moved, or null if it can't move
+   */
+  private move<T>(items: T[], index: number, offset: number): T[] | null {
+    const target = index + offset;
+    if (index < 0 || offset === 0 || target < 0 || target >= items.length) return null;
+
+    const result = [...items];
+    const [item] = result.splice(index, 1);
+    result.splice(target, 0, item);
+    return result;
+  }
+}
+
+// Export singleton instance
+export const collectionService = new CollectionService();
@@ -0,0 +1,5 @@
+/**
+ * Collection exports
+ */
+
+export * from './CollectionService';
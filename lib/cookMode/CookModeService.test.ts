@@ -0,0 +1,142 @@
+import { CookModeService, formatDuration, timeToSeconds } from './CookModeService';
+import { ScaledIngredient } from '@/types';
+import { ingredientParser } from '@/lib/ingredient';
+import { scalingService } from '@/lib/scaling';
+
+describe('CookModeService', () => {
+  let service: CookModeService;
+
+  beforeEach(() => {
+    service = new CookModeService();
+  });
+
+  const scaled = (lines: string[], multiplier = 1): ScaledIngredient[] =>
+    lines.map((line) =>
+      scalingService.scaleIngredientForDisplay(ingredientParser.parseIngredient(line), multiplier)
+    );
+
+  const stepNames = (text: string, ingredients: ScaledIngredient[]) =>
+    service.findStepIngredients(text, ingredients).map((i) => i.displayText);
+
+  describe('time helpers', () => {
+    it('converts step times to seconds', () => {
+      expect(timeToSeconds({ value: 25, unit: 'minutes', originalText: '25 minutes' })).toBe(1500);
+      expect(timeToSeconds({ value: 1.5, unit: 'hours', originalText: '1 1/2 hours' })).toBe(5400);
+    });
+
+    it('formats durations', () => {
+      expect(formatDuration(65)).toBe('1:05');
+      expect(formatDuration(3725)).toBe('1:02:05');
+      expect(formatDuration(-3)).toBe('0:00');
+    });
+  });
+
+  describe('findStepIngredients', () => {
+    const ingredients = scaled(
+      [
+        '2 cups all-purpose flour',
+        '1 cup brown sugar',
+        '1/2 cup granulated sugar',
+        '2 large eggs',
+        '1/2 cup unsalted butter, softened',
+        '1 tsp salt',
+      ],
+      2
+    );
+
+    it('finds ingredients by full name with their scaled amounts', () => {
+      expect(stepNames('Cream the butter with the brown sugar.', ingredients)).toEqual([
+        '2 cups brown sugar',
+        '1 cup unsalted butter, softened',
+      ]);
+    });
+
+    it('matches plurals and the last word of a unique name', () => {
+      expect(
+        stepNames('Beat in the eggs one at a time, then fold in the flour.', ingredients)
+      ).toEqual(['4 cups all-purpose flour', '4 large eggs']);
+    });
+
+    it('does not guess between ingredients sharing a last word', () => {
+      expect(stepNames('Add the sugar.', ingredients)).toEqual([]);
+    });
+
+    it('matches whole words only', () => {
+      expect(stepNames('Use unsalted water.', scaled(['1 tsp salt']))).toEqual([]);
+      expect(stepNames('Top with berries.', scaled(['1 cup blueberry']))).toEqual([]);
+      expect(stepNames('Top with berries.', scaled(['1 cup berry']))).toEqual(['1 cup berry']);
+    });
+  });
+
+  describe('timers', () => {
+    const step = {
+      step: 3,
+      time: { value: 10, unit: 'minutes' as const, originalText: '10 minutes' },
+    };
+
+    it('creates timers only for steps with a time', () => {
+      const timer = service.createTimer(step);
+      expect(timer).toMatchObject({
+        step: 3,
+        label: 'Step 3 · 10 minutes',
+        durationSeconds: 600,
+        status: 'idle',
+        remainingSeconds: 600,
+      });
+      expect(service.createTimer({ step: 1 })).toBeNull();
+    });
+
+    it('counts down from an absolute end time', () => {
+      const timer = service.startTimer(service.createTimer(step)!, 0);
+      expect(timer.endsAt).toBe(600_000);
+      expect(service.getRemainingSeconds(timer, 60_000)).toBe(540);
+    });
+
+    it('pauses and resumes without losing time', () => {
+      const running = service.startTimer(service.createTimer(step)!, 0);
+      const paused = service.pauseTimer(running, 100_000);
+      expect(paused.status).toBe('paused');
+      expect(service.getRemainingSeconds(paused, 500_000)).toBe(500);
+
+      const resumed = service.startTimer(paused, 500_000);
+      expect(resumed.endsAt).toBe(1_000_000);
+    });
+
+    it('resets to the full duration', () => {
+      const paused = service.pauseTimer(service.startTimer(service.createTimer(step)!, 0), 1000);
+      expect(service.resetTimer(paused)).toMatchObject({ status: 'idle', remainingSeconds: 600 });
+    });
+
+    it('runs several timers at once and reports the ones that finish', () => {
+      const short = service.startTimer(service.createTimer({ ...step, step: 1 })!, 0);
+      const long = service.startTimer(
+        service.createTimer({
+          step: 2,
+          time: { value: 1, unit: 'hours', originalText: '1 hour' },
+        })!,
+        0
+      );
+
+      const early = service.tick([short, long], 300_000);
+      expect(early.finished).toHaveLength(0);
+
+      const { timers, finished } = service.tick([short, long], 600_000);
+      expect(finished.map((t) => t.step)).toEqual([1]);
+      expect(timers.map((t) => t.status)).toEqual(['done', 'running']);
+    });
+  });
+
+  describe('progress', () => {
+    it('clamps restored progress to the current steps', () => {
+      const timer = service.createTimer({
+        step: 5,
+        time: { value: 5, unit: 'minutes', originalText: '5 minutes' },
+      })!;
+      const progress = { ...service.createProgress('recipe-1'), stepIndex: 7, timers: [timer] };
+
+      const restored = service.restoreProgress(progress, 3);
+      expect(restored.stepIndex).toBe(2);
+      expect(restored.timers).toEqual([]);
+    });
+  });
+});
@@ -0,0 +1,177 @@
+/**
+ * Cook mode service
+ *
+ * Works out which ingredients each step uses and runs the step timers.
+ * Timers store absolute end times, so they keep counting across reloads.
+ */
+
+import { v4 as uuidv4 } from 'uuid';
+import { CookProgress, CookTimer, Instruction, ScaledIngredient, TimeInfo } from '@/types';
+import { normalizeIngredientName } from '@/lib/shopping';
+
+function escapeRegExp(value: string): string {
+  return value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+/**
+ * Match a (singular) name in text, allowing plurals like "eggs" or "berries"
+ */
+function mentions(text: string, name: string): boolean {
+  const stem = name.endsWith('y')
+    ? `${escapeRegExp(name.slice(0, -1))}(?:y|ies)`
+    : escapeRegExp(name);
+  return new RegExp(`\\b${stem}(?:e?s)?\\b`).test(text);
+}
+
+/**
+ * Ingredient name without preparation notes ("butter, softened" -> "butter")
+ */
+function ingredientName(ingredient: ScaledIngredient): string {
+  return normalizeIngredientName(ingredient.ingredient.split(',')[0]);
+}
+
+function headWord(name: string): string {
+  const words = name.split(/[\s-]+/);
+  return words[words.length - 1];
+}
+
+/**
+ * Convert a parsed step time to seconds
+ */
+export function timeToSeconds(time: TimeInfo): number {
+  return Math.round(time.value * (time.unit === 'hours' ? 3600 : 60));
+}
+
+/**
+ * Format seconds as m:ss, or h:mm:ss from an hour up
+ */
+export function formatDuration(totalSeconds: number): string {
+  const seconds = Math.max(0, Math.ceil(totalSeconds));
+  const h = Math.floor(seconds / 3600);
+  const m = Math.floor((seconds % 3600) / 60);
+  const s = String(seconds % 60).padStart(2, '0');
+  return h > 0 ? `${h}:${String(m).padStart(2, '0')}:${s}` : `${m}:${s}`;
+}
+
+export class CookModeService {
+  /**
+   * Scaled ingredients a step mentions, in ingredient list order.
+   * The full name is tried first ("brown sugar"); the last word alone
+   * ("sugar") only counts when no other ingredient ends in it.
+   */
+  findStepIngredients(text: string, ingredients: ScaledIngredient[]): ScaledIngredient[] {
+    const stepText = text.toLowerCase();
+    const names = ingredients.map(ingredientName);
+    const headCounts = new Map<string, number>();
+    for (const name of names) {
+      const head = headWord(name);
+      headCounts.set(head, (headCounts.get(head) ?? 0) + 1);
+    }
+
+    return ingredients.filter((_, i) => {
+      const name = names[i];
+      if (!name) return false;
+      if (mentions(stepText, name)) return true;
+
+      const head = headWord(name);
+      return head.length > 2 && headCounts.get(head) === 1 && mentions(stepText, head);
+    });
+  }
+
+  /**
+   * Create an idle timer for a step that mentions a time
+   */
+  createTimer(instruction: Pick<Instruction, 'step' | 'time'>): CookTimer | null {
+    if (!instruction.time) return null;
+
+    const durationSeconds = timeToSeconds(instruction.time);
+    if (durationSeconds <= 0) return null;
+
+    return {
+      id: uuidv4(),
+      step: instruction.step,
+      label: `Step ${instruction.step} · ${instruction.time.value} ${instruction.time.unit}`,
+      durationSeconds,
+      status: 'idle',
+      endsAt: null,
+      remainingSeconds: durationSeconds,
+    };
+  }
+
+  /**
+   * Start or resume a timer
+   */
+  startTimer(timer: CookTimer, now: number = Date.now()): CookTimer {
+    if (timer.status === 'running' || timer.status === 'done') return timer;
+    return { ...timer, status: 'running', endsAt: now + timer.remainingSeconds * 1000 };
+  }
+
+  /**
+   * Pause a running timer
+   */
+  pauseTimer(timer: CookTimer, now: number = Date.now()): CookTimer {
+    if (timer.status !== 'running') return timer;
+    return {
+      ...timer,
+      status: 'paused',
+      endsAt: null,
+      remainingSeconds: this.getRemainingSeconds(timer, now),
+    };
+  }
+
+  /**
+   * Put a timer back to its full duration
+   */
+  resetTimer(timer: CookTimer): CookTimer {
+    return { ...timer, status: 'idle', endsAt: null, remainingSeconds: timer.durationSeconds };
+  }
+
+  /**
+   * Seconds left on a timer
+   */
+  getRemainingSeconds(timer: CookTimer, now: number = Date.now()): number {
+    if (timer.status === 'done') return 0;
+    if (timer.status !== 'running' || timer.endsAt === null) return timer.remainingSeconds;
+    return Math.max(0, Math.ceil((timer.endsAt - now) / 1000));
+  }
+
+  /**
+   * Mark running timers that have reached zero as done.
+   * Returns the updated timers and the ones that just finished.
+   */
+  tick(
+    timers: CookTimer[],
+    now: number = Date.now()
+  ): { timers: CookTimer[]; finished: CookTimer[] } {
+    const finished: CookTimer[] = [];
+    const updated = timers.map((timer) => {
+      if (timer.status !== 'running' || this.getRemainingSeconds(timer, now) > 0) return timer;
+      const done: CookTimer = { ...timer, status: 'done', endsAt: null, remainingSeconds: 0 };
+      finished.push(done);
+      return done;
+    });
+    return { timers: finished.length > 0 ? updated : timers, finished };
+  }
+
+  /**
+   * Fresh progress for a recipe
+   */
+  createProgress(recipeKey: string): CookProgress {
+    return { recipeKey, stepIndex: 0, timers: [], updatedAt: new Date().toISOString() };
+  }
+
+  /**
+   * Keep saved progress in range for the recipe's current steps
+   */
+  restoreProgress(progress: CookProgress, stepCount: number): CookProgress {
+    const maxStep = Math.max(0, stepCount - 1);
+    return {
+      ...progress,
+      stepIndex: Math.min(Math.max(0, progress.stepIndex), maxStep),
+      timers: progress.timers.filter((timer) => timer.step <= stepCount),
+    };
+  }
+}
+
+// Export singleton instance
+export const cookModeService = new CookModeService();
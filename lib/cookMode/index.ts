@@ -0,0 +1,5 @@
+/**
+ * Cook mode exports
+ */
+
+export * from './CookModeService';
@@ -0,0 +1,225 @@
+import { RecipeEditService, diffLines, MAX_RECIPE_VERSIONS } from './RecipeEditService';
+import { Recipe } from '@/types';
+import { ingredientParser } from '@/lib/ingredient';
+import { createInstruction } from '@/lib/scraper/utils/instructions';
+
+describe('RecipeEditService', () => {
+  let service: RecipeEditService;
+
+  beforeEach(() => {
+    service = new RecipeEditService();
+  });
+
+  const createMockRecipe = (overrides: Partial<Recipe> = {}): Recipe => ({
+    id: 'recipe-1',
+    title: 'Pancakes',
+    servings: { amount: 4, unit: 'servings', originalText: '4 servings' },
+    ingredients: [
+      ingredientParser.parseIngredient('2 cups flour'),
+      ingredientParser.parseIngredient('1 cup milk'),
+    ],
+    instructions: [
+      createInstruction('Whisk everything together.', 1),
+      createInstruction('Cook for 3 minutes per side.', 2),
+    ],
+    source: {
+      url: 'https://example.com/pancakes',
+      domain: 'example.com',
+      scrapedAt: new Date(),
+      scrapeMethod: 'schema-org',
+    },
+    rawData: {
+      ingredients: ['2 cups flour', '1 cup milk'],
+      instructions: ['Whisk everything together.', 'Cook for 3 minutes per side.'],
+    },
+    ...overrides,
+  });
+
+  describe('diffLines', () => {
+    it('marks unchanged, added and removed lines', () => {
+      expect(diffLines(['a', 'b', 'c'], ['a', 'c', 'd'])).toEqual([
+        { status: 'unchanged', text: 'a' },
+        { status: 'removed', text: 'b' },
+        { status: 'unchanged', text: 'c' },
+        { status: 'added', text: 'd' },
+      ]);
+    });
+
+    it('ignores surrounding whitespace', () => {
+      expect(diffLines(['  a '], ['a'])).toEqual([{ status: 'unchanged', text: 'a' }]);
+    });
+  });
+
+  describe('ingredient edits', () => {
+    it('parses added ingredients so they can be scaled', () => {
+      const content = service.addIngredient(service.getContent(createMockRecipe()), '3 eggs');
+      const added = content.ingredients[2];
+
+      expect(added.original).toBe('3 eggs');
+      expect(added.quantity?.value).toBe(3);
+    });
+
+    it('re-parses edited ingredients and keeps their ID', () => {
+      const recipe = createMockRecipe();
+      const id = recipe.ingredients[0].id;
+      const content = service.updateIngredient(service.getContent(recipe), id, '3 tbsp sugar');
+
+      expect(content.ingredients[0].id).toBe(id);
+      expect(content.ingredients[0].unit).toBe('tablespoon');
+      expect(content.ingredients[0].quantity?.value).toBe(3);
+    });
+
+    it('keeps sections on edited and added ingredients', () => {
+      const recipe = createMockRecipe({
+        ingredients: createMockRecipe().ingredients.map((i) => ({
+          ...i,
+          section: 'For the batter',
+        })),
+      });
+      let content = service.updateIngredient(
+        service.getContent(recipe),
+        recipe.ingredients[0].id,
+        '3 cups flour'
+      );
+      content = service.addIngredient(content, '2 eggs');
+
+      expect(content.ingredients.map((i) => i.section)).toEqual([
+        'For the batter',
+        'For the batter',
+        'For the batter',
+      ]);
+    });
+
+    it('removes and reorders ingredients', () => {
+      const recipe = createMockRecipe();
+      let content = service.moveIngredient(service.getContent(recipe), 0, 1);
+      expect(content.ingredients[0].original).toBe('1 cup milk');
+
+      content = service.removeIngredient(content, recipe.ingredients[1].id);
+      expect(content.ingredients.map((i) => i.original)).toEqual(['2 cups flour']);
+    });
+  });
+
+  describe('instruction edits', () => {
+    it('renumbers steps after add, move and remove', () => {
+      let content = service.addInstruction(service.getContent(createMockRecipe()), 'Serve.', 0);
+      expect(content.instructions.map((i) => i.step)).toEqual([1, 2, 3]);
+      expect(content.instructions[0].text).toBe('Serve.');
+
+      content = service.moveInstruction(content, 0, 2);
+      expect(content.instructions[2]).toMatchObject({ step: 3, text: 'Serve.' });
+
+      content = service.removeInstruction(content, 0);
+      expect(content.instructions.map((i) => i.step)).toEqual([1, 2]);
+    });
+
+    it('keeps the section of an edited step', () => {
+      const recipe = createMockRecipe({
+        instructions: [{ ...createInstruction('Whisk.', 1), section: 'For the batter' }],
+      });
+      const content = service.updateInstruction(service.getContent(recipe), 0, 'Whisk well.');
+
+      expect(content.instructions[0]).toMatchObject({
+        text: 'Whisk well.',
+        section: 'For the batter',
+      });
+    });
+
+    it('re-extracts time and temperature from edited text', () => {
+      const content = service.updateInstruction(
+        service.getContent(createMockRecipe()),
+        0,
+        'Bake at 350°F for 20 minutes.'
+      );
+
+      expect(content.instructions[0].temperature?.value).toBe(350);
+      expect(content.instructions[0].time?.value).toBe(20);
+      expect(content.instructions[0].step).toBe(1);
+    });
+  });
+
+  describe('commitEdit', () => {
+    it('records the original content on the first edit', () => {
+      const recipe = createMockRecipe();
+      const content = service.addIngredient(service.getContent(recipe), '3 eggs');
+      const { versions } = service.commitEdit(recipe, content);
+
+      expect(versions).toHaveLength(2);
+      expect(versions[0]).toMatchObject({ version: 1, summary: 'Original' });
+      expect(versions[0].ingredients).toHaveLength(2);
+      expect(versions[1]).toMatchObject({ version: 2, summary: 'Added 1 ingredient' });
+    });
+
+    it('summarizes reorders and edits', () => {
+      const recipe = createMockRecipe();
+      const reordered = service.moveInstruction(service.getContent(recipe), 0, 1);
+      expect(service.commitEdit(recipe, reordered).versions[1].summary).toBe('Reordered steps');
+
+      const edited = service.updateIngredient(
+        service.getContent(recipe),
+        recipe.ingredients[1].id,
+        '1 cup oat milk'
+      );
+      expect(service.commitEdit(recipe, edited).versions[1].summary).toBe('Edited 1 ingredient');
+    });
+
+    it('caps history but keeps the original version', () => {
+      let recipe = createMockRecipe();
+      for (let i = 0; i < MAX_RECIPE_VERSIONS + 5; i++) {
+        const content = service.addIngredient(service.getContent(recipe), `${i + 1} eggs`);
+        const result = service.commitEdit(recipe, content);
+        recipe = { ...recipe, ...result.content, versions: result.versions };
+      }
+
+      expect(recipe.versions).toHaveLength(MAX_RECIPE_VERSIONS);
+      expect(recipe.versions![0].summary).toBe('Original');
+    });
+  });
+
+  describe('rollback', () => {
+    it('restores an earlier version as a new version', () => {
+      let recipe = createMockRecipe();
+      const content = service.removeIngredient(
+        service.getContent(recipe),
+        recipe.ingredients[0].id
+      );
+      const edit = service.commitEdit(recipe, content);
+      recipe = { ...recipe, ...edit.content, versions: edit.versions };
+
+      const result = service.rollback(recipe, 1);
+
+      expect(result?.content.ingredients).toHaveLength(2);
+      expect(result?.versions).toHaveLength(3);
+      expect(result?.versions[2].summary).toBe('Rolled back to version 1');
+    });
+
+    it('returns null for an unknown version', () => {
+      expect(service.rollback(createMockRecipe(), 7)).toBeNull();
+    });
+  });
+
+  describe('diffAgainstOriginal', () => {
+    it('diffs against the scraped rawData', () => {
+      const recipe = createMockRecipe();
+      const content = service.updateIngredient(
+        service.getContent(recipe),
+        recipe.ingredients[1].id,
+        '1 cup oat milk'
+      );
+
+      const diff = service.diffAgainstOriginal(recipe, content);
+
+      expect(diff.changeCount).toBe(2);
+      expect(diff.ingredients).toContainEqual({ status: 'removed', text: '1 cup milk' });
+      expect(diff.ingredients).toContainEqual({ status: 'added', text: '1 cup oat milk' });
+      expect(diff.instructions.every((l) => l.status === 'unchanged')).toBe(true);
+    });
+
+    it('falls back to the first version without rawData', () => {
+      const recipe = createMockRecipe({ rawData: undefined });
+      const diff = service.diffAgainstOriginal(recipe);
+
+      expect(diff.changeCount).toBe(0);
+    });
+  });
+});
@@ -0,0 +1,332 @@
+/**
+ * Recipe edit service
+ *
+ * Pure operations for editing a recipe's ingredients and instructions,
+ * recording versions, diffing against the scraped data and rolling back.
+ */
+
+import { Instruction, LineDiff, Recipe, RecipeContent, RecipeDiff, RecipeVersion } from '@/types';
+import { ingredientParser } from '@/lib/ingredient';
+import { createInstruction } from '@/lib/scraper/utils/instructions';
+
+/**
+ * Maximum versions kept per recipe. The first version is always kept.
+ */
+export const MAX_RECIPE_VERSIONS = 20;
+
+/**
+ * Result of committing an edit
+ */
+export interface RecipeEditResult {
+  content: RecipeContent;
+  versions: RecipeVersion[];
+}
+
+/**
+ * Move an array element, returning a new array
+ */
+function moveItem<T>(items: T[], from: number, to: number): T[] {
+  if (from < 0 || from >= items.length || to < 0 || to >= items.length || from === to) {
+    return items;
+  }
+  const next = [...items];
+  const [moved] = next.splice(from, 1);
+  next.splice(to, 0, moved);
+  return next;
+}
+
+/**
+ * Renumber instruction steps after a change
+ */
+function renumber(instructions: Instruction[]): Instruction[] {
+  return instructions.map((instruction, index) => ({ ...instruction, step: index + 1 }));
+}
+
+/**
+ * Put an edited line back in its section, if it had one
+ */
+function withSection<T extends { section?: string }>(item: T, section?: string): T {
+  return section ? { ...item, section } : item;
+}
+
+/**
+ * Line diff using the longest common subsequence
+ */
+export function diffLines(before: string[], after: string[]): LineDiff[] {
+  const m = before.length;
+  const n = after.length;
+  const lcs: number[][] = Array.from({ length: m + 1 }, () => new Array(n + 1).fill(0));
+
+  for (let i = m - 1; i >= 0; i--) {
+    for (let j = n - 1; j >= 0; j--) {
+      lcs[i][j] =
+        before[i].trim() === after[j].trim()
+          ? lcs[i + 1][j + 1] + 1
+          : Math.max(lcs[i + 1][j], lcs[i][j + 1]);
+    }
+  }
+
+  const result: LineDiff[] = [];
+  let i = 0;
+  let j = 0;
+  while (i < m && j < n) {
+    if (before[i].trim() === after[j].trim()) {
+      result.push({ status: 'unchanged', text: after[j] });
+      i++;
+      j++;
+    } else if (lcs[i + 1][j] >= lcs[i][j + 1]) {
+      result.push({ status: 'removed', text: before[i++] });
+    } else {
+      result.push({ status: 'added', text: after[j++] });
+    }
+  }
+  while (i < m) result.push({ status: 'removed', text: before[i++] });
+  while (j < n) result.push({ status: 'added', text: after[j++] });
+
+  return result;
+}
+
+export class RecipeEditService {
+  /**
+   * Get the editable content of a recipe
+   */
+  getContent(recipe: Recipe): RecipeContent {
+    return {
+      title: recipe.title,
+      ingredients: recipe.ingredients,
+      instructions: recipe.instructions,
+    };
+  }
+
+  /**
+   * Add an ingredient line, parsed so it can still be scaled.
+   * The line joins the section of the ingredient above it.
+   */
+  addIngredient(content: RecipeContent, text: string, index?: number): RecipeContent {
+    const ingredients = [...content.ingredients];
+    const position = index ?? ingredients.length;
+    const section = ingredients[position - 1]?.section;
+    const parsed = ingredientParser.parseIngredient(text.trim());
+    ingredients.splice(position, 0, withSection(parsed, section));
+    return { ...content, ingredients };
+  }
+
+  /**
+   * Replace an ingredient's text, re-parsing it and keeping its ID and section
+   */
+  updateIngredient(content: RecipeContent, id: string, text: string): RecipeContent {
+    return {
+      ...content,
+      ingredients: content.ingredients.map((ingredient) =>
+        ingredient.id === id
+          ? withSection(
+              { ...ingredientParser.parseIngredient(text.trim()), id },
+              ingredient.section
+            )
+          : ingredient
+      ),
+    };
+  }
+
+  /**
+   * Remove an ingredient
+   */
+  removeIngredient(content: RecipeContent, id: string): RecipeContent {
+    return {
+      ...content,
+      ingredients: content.ingredients.filter((ingredient) => ingredient.id !== id),
+    };
+  }
+
+  /**
+   * Move an ingredient to a new position
+   */
+  moveIngredient(content: RecipeContent, from: number, to: number): RecipeContent {
+    return { ...content, ingredients: moveItem(content.ingredients, from, to) };
+  }
+
+  /**
+   * Add an instruction step, in the section of the step above it
+   */
+  addInstruction(content: RecipeContent, text: string, index?: number): RecipeContent {
+    const instructions = [...content.instructions];
+    const position = index ?? instructions.length;
+    const section = instructions[position - 1]?.section;
+    instructions.splice(position, 0, withSection(createInstruction(text.trim(), 0), section));
+    return { ...content, instructions: renumber(instructions) };
+  }
+
+  /**
+   * Replace an instruction's text, keeping its section
+   */
+  updateInstruction(content: RecipeContent, index: number, text: string): RecipeContent {
+    return {
+      ...content,
+      instructions: content.instructions.map((instruction, i) =>
+        i === index
+          ? withSection(createInstruction(text.trim(), instruction.step), instruction.section)
+          : instruction
+      ),
+    };
+  }
+
+  /**
+   * Remove an instruction step
+   */
+  removeInstruction(content: RecipeContent, index: number): RecipeContent {
+    return {
+      ...content,
+      instructions: renumber(content.instructions.filter((_, i) => i !== index)),
+    };
+  }
+
+  /**
+   * Move an instruction step to a new position
+   */
+  moveInstruction(content: RecipeContent, from: number, to: number): RecipeContent {
+    return { ...content, instructions: renumber(moveItem(content.instructions, from, to)) };
+  }
+
+  /**
+   * Record edited content as a new version.
+   * The first edit also records the pre-edit content so it can be restored.
+   */
+  commitEdit(recipe: Recipe, content: RecipeContent, summary?: string): RecipeEditResult {
+    const now = new Date().toISOString();
+    let versions = [...(recipe.versions ?? [])];
+
+    if (versions.length === 0) {
+      versions.push({
+        ...this.getContent(recipe),
+        version: 1,
+        createdAt: now,
+        summary: 'Original',
+      });
+    }
+
+    const previous = versions[versions.length - 1];
+    const nextVersion: RecipeVersion = {
+      ...content,
+      version: previous.version + 1,
+      createdAt: now,
+      summary: summary ?? this.summarize(previous, content),
+    };
+    versions.push(nextVersion);
+
+    if (versions.length > MAX_RECIPE_VERSIONS) {
+      versions = [versions[0], ...versions.slice(versions.length - MAX_RECIPE_VERSIONS + 1)];
+    }
+
+    return { content, versions };
+  }
+
+  /**
+   * Restore an earlier version. Rolling back is recorded as a new version.
+   */
+  rollback(recipe: Recipe, version: number): RecipeEditResult | null {
+    const target = recipe.versions?.find((v) => v.version === version);
+    if (!target) return null;
+
+    const content: RecipeContent = {
+      title: target.title,
+      ingredients: target.ingredients,
+      instructions: target.instructions,
+    };
+    return this.commitEdit(recipe, content, `Rolled back to version ${version}`);
+  }
+
+  /**
+   * Diff content against the originally scraped data.
+   * Falls back to the first recorded version when rawData is missing.
+   */
+  diffAgainstOriginal(
+    recipe: Recipe,
+    content: RecipeContent = this.getContent(recipe)
+  ): RecipeDiff {
+    const original = recipe.rawData ?? {
+      ingredients: (recipe.versions?.[0] ?? recipe).ingredients.map((i) => i.original),
+      instructions: (recipe.versions?.[0] ?? recipe).instructions.map((i) => i.text),
+    };
+
+    return this.diff(original, content);
+  }
+
+  /**
+   * Diff two versions' content
+   */
+  diffVersions(from: RecipeContent, to: RecipeContent): RecipeDiff {
+    return this.diff(
+      {
+        ingredients: from.ingredients.map((i) => i.original),
+        instructions: from.instructions.map((i) => i.text),
+      },
+      to
+    );
+  }
+
+  private diff(
+    before: { ingredients: string[]; instructions: string[] },
+    after: RecipeContent
+  ): RecipeDiff {
+    const ingredients = diffLines(
+      before.ingredients,
+      after.ingredients.map((i) => i.original)
+    );
+    const instructions = diffLines(
+      before.instructions,
+      after.instructions.map((i) => i.text)
+    );
+    const changeCount = [...ingredients, ...instructions].filter(
+      (line) => line.status !== 'unchanged'
+    ).length;
+
+    return { ingredients, instructions, changeCount };
+  }
+
+  /**
+   * Describe what changed between two versions
+   */
+  private summarize(previous: RecipeContent, next: RecipeContent): string {
+    const parts: string[] = [];
+    if (previous.title !== next.title) parts.push('renamed');
+
+    const describe = (label: string, before: string[], after: string[]) => {
+      const count = (n: number) => `${n} ${n === 1 ? label.replace(/s$/, '') : label}`;
+      if (before.join('\n') === after.join('\n')) return;
+
+      const sameLines = [...before].sort().join('\n') === [...after].sort().join('\n');
+      if (sameLines) {
+        parts.push(`reordered ${label}`);
+        return;
+      }
+
+      const lines = diffLines(before, after);
+      const added = lines.filter((l) => l.status === 'added').length;
+      const removed = lines.filter((l) => l.status === 'removed').length;
+      if (added === removed) {
+        parts.push(`edited ${count(added)}`);
+        return;
+      }
+      if (added > 0) parts.push(`added ${count(added)}`);
+      if (removed > 0) parts.push(`removed ${count(removed)}`);
+    };
+
+    describe(
+      'ingredients',
+      previous.ingredients.map((i) => i.original),
+      next.ingredients.map((i) => i.original)
+    );
+    describe(
+      'steps',
+      previous.instructions.map((i) => i.text),
+      next.instructions.map((i) => i.text)
+    );
+
+    if (parts.length === 0) return 'No changes';
+    const summary = parts.join(', ');
+    return summary.charAt(0).toUpperCase() + summary.slice(1);
+  }
+}
+
+// Export singleton instance
+export const recipeEditService = new RecipeEditService();
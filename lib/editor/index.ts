@@ -0,0 +1,5 @@
+/**
+ * Recipe editor exports
+ */
+
+export * from './RecipeEditService';
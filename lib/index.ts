@@ -8,3 +8,14 @@ export * from './scraper';
 export * from './ingredient';
 export * from './scaling';
 export * from './llm';
+export * from './shopping';
+export * from './editor';
+export * from './nutrition';
+export * from './mealPlan';
+export * from './pantry';
+export * from './collections';
+export * from './cookMode';
+export * from './interchange';
+export * from './print';
+export * from './share';
+export * from './tabs';
@@ -0,0 +1,156 @@
+/**
+ * @jest-environment node
+ */
+
+import { ErrorCode, PortableRecipe, RecipeFileFormat } from '@/types';
+import { ingredientParser } from '@/lib/ingredient';
+import { createInstruction } from '@/lib/scraper/utils/instructions';
+import { createZip, gzip } from './archive';
+import { RecipeFileService } from './RecipeFileService';
+
+describe('RecipeFileService', () => {
+  const service = new RecipeFileService();
+
+  const recipe: PortableRecipe = {
+    id: 'recipe-1',
+    title: 'Lemon Tart',
+    description: 'Sharp and sweet.',
+    author: 'Ann',
+    source: {
+      url: 'https://www.example.com/lemon-tart',
+      domain: 'example.com',
+      scrapedAt: new Date('2024-03-01T10:00:00Z'),
+      scrapeMethod: 'schema-org',
+    },
+    prepTime: 30,
+    cookTime: 75,
+    servings: { amount: 8, unit: 'slices', originalText: '8 slices' },
+    ingredients: [
+      { ...ingredientParser.parseIngredient('1 1/2 cups flour'), section: 'For the crust' },
+      { ...ingredientParser.parseIngredient('1/2 cup butter'), section: 'For the crust' },
+      { ...ingredientParser.parseIngredient('3 lemons'), section: 'For the filling' },
+    ],
+    instructions: [
+      { ...createInstruction('Press the dough into the pan.', 1), section: 'For the crust' },
+      { ...createInstruction('Whisk the lemon juice and eggs.', 2), section: 'For the filling' },
+    ],
+    nutrition: { calories: 320, fat: '18 g' },
+    tags: ['dessert'],
+    notes: 'Use Meyer lemons in winter',
+    userTags: ['baking', 'spring'],
+    lastScaledMultiplier: 1.5,
+  };
+
+  const roundTrip = async (format: RecipeFileFormat) => {
+    const file = await service.exportRecipes([recipe], format);
+    return service.importFile(file.data);
+  };
+
+  it.each<RecipeFileFormat>(['json-ld', 'paprika', 'bundle'])(
+    'round-trips %s exports',
+    async (format) => {
+      const [imported] = await roundTrip(format);
+
+      expect(imported).toMatchObject({
+        title: 'Lemon Tart',
+        source: { url: 'https://www.example.com/lemon-tart', domain: 'example.com' },
+        prepTime: 30,
+        cookTime: 75,
+        servings: { amount: 8, unit: 'slices' },
+        notes: 'Use Meyer lemons in winter',
+        userTags: ['baking', 'spring'],
+        lastScaledMultiplier: 1.5,
+      });
+      expect(imported.ingredients.map((i) => [i.original, i.section])).toEqual([
+        ['1 1/2 cups flour', 'For the crust'],
+        ['1/2 cup butter', 'For the crust'],
+        ['3 lemons', 'For the filling'],
+      ]);
+      expect(imported.ingredients[0].quantity?.value).toBe(1.5);
+      expect(imported.instructions.map((i) => [i.step, i.section])).toEqual([
+        [1, 'For the crust'],
+        [2, 'For the filling'],
+      ]);
+      expect(imported.nutrition).toMatchObject({ calories: 320, fat: '18 g' });
+    }
+  );
+
+  it('keeps every field in bundles', async () => {
+    const [imported] = await roundTrip('bundle');
+
+    expect(imported).toEqual(recipe);
+  });
+
+  it('names exports after their format', async () => {
+    const file = await service.exportRecipes([recipe], 'paprika');
+
+    expect(file.filename).toMatch(/^recipes-\d{4}-\d{2}-\d{2}\.paprikarecipes$/);
+    expect(file.mimeType).toBe('application/zip');
+  });
+
+  it('reads a recipe exported by Paprika', async () => {
+    const paprika = {
+      uid: 'ABC-123',
+      name: 'Weeknight Chili',
+      ingredients: '1 lb ground beef\n\n1 can (15 oz) kidney beans\n2 tbsp chili powder',
+      directions: 'Brown the beef.\nAdd everything else and simmer for 30 minutes.',
+      servings: '6 servings',
+      prep_time: '10 mins',
+      cook_time: '1 hr 5 mins',
+      source_url: '',
+      categories: ['Dinner'],
+      notes: 'Better the next day.',
+      scale: '1/2',
+      nutritional_info: 'Calories: 410\nProtein: 32 g',
+    };
+    const data = await gzip(new TextEncoder().encode(JSON.stringify(paprika)));
+
+    const [imported] = await service.importFile(data);
+
+    expect(imported.source.scrapeMethod).toBe('manual');
+    expect(imported.ingredients).toHaveLength(3);
+    expect(imported.ingredients[2]).toMatchObject({ unit: 'tablespoon' });
+    expect(imported.instructions[1].time?.value).toBe(30);
+    expect(imported.cookTime).toBe(65);
+    expect(imported.servings.amount).toBe(6);
+    expect(imported.userTags).toEqual(['Dinner']);
+    expect(imported.lastScaledMultiplier).toBe(0.5);
+    expect(imported.nutrition).toEqual({ calories: 410, protein: '32 g' });
+  });
+
+  it('reads JSON-LD from other apps', async () => {
+    const data = new TextEncoder().encode(
+      JSON.stringify([
+        {
+          '@context': 'https://schema.org',
+          '@type': 'Recipe',
+          name: 'Iced Tea',
+          recipeIngredient: ['4 cups water', '2 tea bags'],
+          recipeInstructions: [{ '@type': 'HowToStep', text: 'Steep for 5 minutes.' }],
+        },
+      ])
+    );
+
+    const [imported] = await service.importFile(data);
+
+    expect(imported.title).toBe('Iced Tea');
+    expect(imported.userTags).toEqual([]);
+    expect(imported.ingredients[0].quantity?.value).toBe(4);
+  });
+
+  it('rejects files it cannot read', async () => {
+    await expect(service.importFile(new TextEncoder().encode('not json'))).rejects.toMatchObject({
+      code: ErrorCode.VALIDATION_ERROR,
+    });
+  });
+
+  it('rejects archives whose offsets point past the end of the file', async () => {
+    const zip = createZip([{ name: 'a.paprikarecipe', data: new Uint8Array([1, 2, 3]) }]);
+    // Move the central directory out of the file
+    new DataView(zip.buffer).setUint32(zip.length - 6, zip.length + 100, true);
+
+    await expect(service.importFile(zip)).rejects.toMatchObject({
+      code: ErrorCode.PARSE_FAILED,
+    });
+  });
+});
@@ -0,0 +1,92 @@
+/**
+ * Recipe file service
+ *
+ * Exports saved recipes to files other recipe managers can read, and
+ * imports their files, working out the format from the file's contents.
+ */
+
+import { ErrorCode, PortableRecipe, RecipeFile, RecipeFileFormat } from '@/types';
+import { createError } from '@/lib/utils';
+import { isGzip, isZip } from './archive';
+import { bundleFormat } from './formats/BundleFormat';
+import { jsonLdFormat } from './formats/JsonLdFormat';
+import { paprikaFormat } from './formats/PaprikaFormat';
+
+/**
+ * File name extensions the import accepts
+ */
+export const RECIPE_FILE_EXTENSIONS = ['.json', '.jsonld', '.paprikarecipes', '.paprikarecipe'];
+
+export class RecipeFileService {
+  /**
+   * Export recipes in the given format
+   */
+  async exportRecipes(recipes: PortableRecipe[], format: RecipeFileFormat): Promise<RecipeFile> {
+    const encoder = new TextEncoder();
+    const date = new Date().toISOString().slice(0, 10);
+
+    switch (format) {
+      case 'json-ld':
+        return {
+          filename: `recipes-${date}.jsonld`,
+          mimeType: 'application/ld+json',
+          data: encoder.encode(jsonLdFormat.serialize(recipes)),
+        };
+      case 'paprika':
+        return {
+          filename: `recipes-${date}.paprikarecipes`,
+          mimeType: 'application/zip',
+          data: await paprikaFormat.createArchive(recipes),
+        };
+      case 'bundle':
+        return {
+          filename: `recipe-journal-${date}.json`,
+          mimeType: 'application/json',
+          data: encoder.encode(bundleFormat.serialize(recipes)),
+        };
+    }
+  }
+
+  /**
+   * Read the recipes in an exported file
+   */
+  async importFile(data: Uint8Array): Promise<PortableRecipe[]> {
+    if (isZip(data) || isGzip(data)) {
+      return paprikaFormat.readArchive(data);
+    }
+
+    let json: unknown;
+    try {
+      json = JSON.parse(new TextDecoder().decode(data));
+    } catch {
+      throw createError(
+        ErrorCode.VALIDATION_ERROR,
+        'Unsupported file. Choose a JSON, JSON-LD or Paprika export.'
+      );
+    }
+
+    if (bundleFormat.matches(json)) {
+      return bundleFormat.parse(json);
+    }
+
+    // Unzipped Paprika recipes are plain JSON with text ingredients
+    const items = Array.isArray(json) ? json : [json];
+    if (items.length > 0 && items.every((item) => this.isPaprikaRecipe(item))) {
+      return items.map((item) => paprikaFormat.fromPaprika(item));
+    }
+
+    return jsonLdFormat.parse(json);
+  }
+
+  private isPaprikaRecipe(value: unknown): boolean {
+    return (
+      !!value &&
+      typeof value === 'object' &&
+      typeof (value as { name?: unknown }).name === 'string' &&
+      typeof (value as { ingredients?: unknown }).ingredients === 'string'
+    );
+  }
+}
+
+// Export singleton instance
+export const recipeFileService = new RecipeFileService();
@@ -0,0 +1,223 @@
+/**
+ * Zip and gzip helpers for recipe archives
+ *
+ * Paprika archives are zip files of gzipped JSON. Gzip and inflate use the
+ * platform's CompressionStream; zips are written uncompressed, since each
+ * entry is already gzipped.
+ */
+
+import { ErrorCode } from '@/types';
+import { createError } from '@/lib/utils';
+
+export interface ZipEntry {
+  name: string;
+  data: Uint8Array;
+}
+
+const LOCAL_HEADER = 0x04034b50;
+const CENTRAL_HEADER = 0x02014b50;
+const END_OF_CENTRAL_DIRECTORY = 0x06054b50;
+
+// 1980-01-01 in MS-DOS date format, the earliest date a zip can hold
+const DOS_DATE = 0x21;
+
+// Names are UTF-8
+const UTF8_FLAG = 0x0800;
+
+const CRC_TABLE = Array.from({ length: 256 }, (_, n) => {
+  let c = n;
+  for (let k = 0; k < 8; k++) {
+    c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+  }
+  return c >>> 0;
+});
+
+function crc32(data: Uint8Array): number {
+  let crc = 0xffffffff;
+  for (const byte of data) {
+    crc = CRC_TABLE[(crc ^ byte) & 0xff] ^ (crc >>> 8);
+  }
+  return (crc ^ 0xffffffff) >>> 0;
+}
+
+function concat(chunks: Uint8Array[]): Uint8Array {
+  const result = new Uint8Array(chunks.reduce((sum, chunk) => sum + chunk.length, 0));
+  let offset = 0;
+  for (const chunk of chunks) {
+    result.set(chunk, offset);
+    offset += chunk.length;
+  }
+  return result;
+}
+
+async function pipe(
+  data: Uint8Array,
+  stream: CompressionStream | DecompressionStream
+): Promise<Uint8Array> {
+  const writer = stream.writable.getWriter();
+  writer.write(new Uint8Array(data)).catch(() => undefined);
+  writer.close().catch(() => undefined);
+
+  const chunks: Uint8Array[] = [];
+  const reader = stream.readable.getReader();
+  for (;;) {
+    const { done, value } = await reader.read();
+    if (done) break;
+    chunks.push(value);
+  }
+  return concat(chunks);
+}
+
+/**
+ * Whether the bytes start with the gzip magic number
+ */
+export function isGzip(data: Uint8Array): boolean {
+  return data[0] === 0x1f && data[1] === 0x8b;
+}
+
+/**
+ * Whether the bytes start with a zip local file header
+ */
+export function isZip(data: Uint8Array): boolean {
+  return data[0] === 0x50 && data[1] === 0x4b && data[2] === 0x03 && data[3] === 0x04;
+}
+
+export function gzip(data: Uint8Array): Promise<Uint8Array> {
+  return pipe(data, new CompressionStream('gzip'));
+}
+
+export async function gunzip(data: Uint8Array): Promise<Uint8Array> {
+  return unpack(data, 'gzip');
+}
+
+async function unpack(data: Uint8Array, format: 'gzip' | 'deflate-raw'): Promise<Uint8Array> {
+  try {
+    return await pipe(data, new DecompressionStream(format));
+  } catch {
+    throw createError(ErrorCode.PARSE_FAILED, 'The file is damaged and could not be unpacked');
+  }
+}
+
+/**
+ * Build a zip archive, storing each entry as is
+ */
+export function createZip(entries: ZipEntry[]): Uint8Array {
+  const encoder = new TextEncoder();
+  const locals: Uint8Array[] = [];
+  const centrals: Uint8Array[] = [];
+  let offset = 0;
+
+  for (const entry of entries) {
+    const name = encoder.encode(entry.name);
+    const crc = crc32(entry.data);
+
+    const local = new Uint8Array(30 + name.length);
+    const lv = new DataView(local.buffer);
+    lv.setUint32(0, LOCAL_HEADER, true);
+    lv.setUint16(4, 20, true);
+    lv.setUint16(6, UTF8_FLAG, true);
+    lv.setUint16(8, 0, true);
+    lv.setUint16(12, DOS_DATE, true);
+    lv.setUint32(14, crc, true);
+    lv.setUint32(18, entry.data.length, true);
+    lv.setUint32(22, entry.data.length, true);
+    lv.setUint16(26, name.length, true);
+    local.set(name, 30);
+
+    const central = new Uint8Array(46 + name.length);
+    const cv = new DataView(central.buffer);
+    cv.setUint32(0, CENTRAL_HEADER, true);
+    cv.setUint16(4, 20, true);
+    cv.setUint16(6, 20, true);
+    cv.setUint16(8, UTF8_FLAG, true);
+    cv.setUint16(10, 0, true);
+    cv.setUint16(14, DOS_DATE, true);
+    cv.setUint32(16, crc, true);
+    cv.setUint32(20, entry.data.length, true);
+    cv.setUint32(24, entry.data.length, true);
+    cv.setUint16(28, name.length, true);
+    cv.setUint32(42, offset, true);
+    central.set(name, 46);
+
+    locals.push(local, entry.data);
+    centrals.push(central);
+    offset += local.length + entry.data.length;
+  }
+
+  const directory = concat(centrals);
+  const end = new Uint8Array(22);
+  const ev = new DataView(end.buffer);
+  ev.setUint32(0, END_OF_CENTRAL_DIRECTORY, true);
+  ev.setUint16(8, entries.length, true);
+  ev.setUint16(10, entries.length, true);
+  ev.setUint32(12, directory.length, true);
+  ev.setUint32(16, offset, true);
+
+  return concat([...locals, directory, end]);
+}
+
+/**
+ * Read the entries of a zip archive. Entries may be stored or deflated.
+ */
+export async function readZip(data: Uint8Array): Promise<ZipEntry[]> {
+  const view = new DataView(data.buffer, data.byteOffset, data.byteLength);
+  const decoder = new TextDecoder();
+  const damaged = () =>
+    createError(ErrorCode.PARSE_FAILED, 'The archive is damaged and could not be opened');
+
+  // Offsets come from the file, so check each one before reading from it
+  const checkBounds = (offset: number, length: number) => {
+    if (offset + length > data.length) throw damaged();
+  };
+
+  // The end record sits at the very end, before an optional comment
+  let end = -1;
+  for (let i = data.length - 22; i >= Math.max(0, data.length - 22 - 0xffff); i--) {
+    if (view.getUint32(i, true) === END_OF_CENTRAL_DIRECTORY) {
+      end = i;
+      break;
+    }
+  }
+  if (end < 0) throw damaged();
+
+  const count = view.getUint16(end + 10, true);
+  let position = view.getUint32(end + 16, true);
+  const entries: ZipEntry[] = [];
+
+  for (let i = 0; i < count; i++) {
+    checkBounds(position, 46);
+    if (view.getUint32(position, true) !== CENTRAL_HEADER) throw damaged();
+
+    const method = view.getUint16(position + 10, true);
+    const size = view.getUint32(position + 20, true);
+    const nameLength = view.getUint16(position + 28, true);
+    const extraLength = view.getUint16(position + 30, true);
+    const commentLength = view.getUint16(position + 32, true);
+    const localOffset = view.getUint32(position + 42, true);
+    checkBounds(position + 46, nameLength);
+    const name = decoder.decode(data.subarray(position + 46, position + 46 + nameLength));
+    position += 46 + nameLength + extraLength + commentLength;
+
+    // Folders
+    if (name.endsWith('/')) continue;
+
+    checkBounds(localOffset, 30);
+    const start =
+      localOffset +
+      30 +
+      view.getUint16(localOffset + 26, true) +
+      view.getUint16(localOffset + 28, true);
+    checkBounds(start, size);
+    const raw = data.subarray(start, start + size);
+
+    if (method === 0) {
+      entries.push({ name, data: raw });
+    } else if (method === 8) {
+      entries.push({ name, data: await unpack(raw, 'deflate-raw') });
+    } else {
+      throw createError(ErrorCode.PARSE_FAILED, `Unsupported compression in archive entry ${name}`);
+    }
+  }
+
+  return entries;
+}
@@ -0,0 +1,73 @@
+/**
+ * Recipe Journal JSON bundle
+ *
+ * Every field of every recipe, as saved. Lossless, so it's the format to
+ * use for backups and for moving between accounts.
+ */
+
+import { ErrorCode, PortableRecipe, RecipeBundle } from '@/types';
+import { createError } from '@/lib/utils';
+
+export const BUNDLE_FORMAT = 'recipe-journal';
+export const BUNDLE_VERSION = 1;
+
+function isPortableRecipe(value: unknown): value is PortableRecipe {
+  if (!value || typeof value !== 'object') return false;
+  const recipe = value as Partial<PortableRecipe>;
+  return (
+    typeof recipe.title === 'string' &&
+    Array.isArray(recipe.ingredients) &&
+    Array.isArray(recipe.instructions) &&
+    !!recipe.source &&
+    typeof recipe.source.url === 'string'
+  );
+}
+
+export class BundleFormat {
+  serialize(recipes: PortableRecipe[]): string {
+    const bundle: RecipeBundle = {
+      format: BUNDLE_FORMAT,
+      version: BUNDLE_VERSION,
+      exportedAt: new Date().toISOString(),
+      recipes,
+    };
+    return JSON.stringify(bundle, null, 2);
+  }
+
+  /**
+   * Whether parsed JSON looks like a bundle
+   */
+  matches(data: unknown): boolean {
+    return (
+      !!data && typeof data === 'object' && (data as { format?: unknown }).format === BUNDLE_FORMAT
+    );
+  }
+
+  parse(data: unknown): PortableRecipe[] {
+    const bundle = data as Partial<RecipeBundle>;
+    if (typeof bundle.version === 'number' && bundle.version > BUNDLE_VERSION) {
+      throw createError(
+        ErrorCode.VALIDATION_ERROR,
+        'This file was exported by a newer version of Recipe Journal',
+        { version: bundle.version }
+      );
+    }
+    if (!Array.isArray(bundle.recipes)) {
+      throw createError(ErrorCode.PARSE_FAILED, 'The bundle has no recipe list');
+    }
+
+    const invalid = bundle.recipes.filter((recipe) => !isPortableRecipe(recipe)).length;
+    if (invalid > 0) {
+      throw createError(ErrorCode.PARSE_FAILED, `${invalid} recipes in the bundle are incomplete`);
+    }
+
+    return bundle.recipes.map((recipe) => ({
+      ...recipe,
+      source: { ...recipe.source, scrapedAt: new Date(recipe.source.scrapedAt) },
+      userTags: recipe.userTags ?? [],
+    }));
+  }
+}
+
+// Export singleton instance
+export const bundleFormat = new BundleFormat();
@@ -0,0 +1,156 @@
+/**
+ * schema.org Recipe JSON-LD
+ *
+ * The format recipe pages embed for search engines, so most recipe
+ * managers can read it. Our personal fields (notes, tags, last scale)
+ * travel in a `recipeJournal` property that other apps ignore.
+ */
+
+import { ErrorCode, PortableRecipe } from '@/types';
+import { createError } from '@/lib/utils';
+import { SchemaOrgScraper, SchemaRecipe } from '@/lib/scraper/strategies/SchemaOrgScraper';
+import { parseIngredients, parseMultiplier, sourceFromUrl, withHeadings } from '../utils';
+
+interface JsonLdRecipe extends SchemaRecipe {
+  url?: string;
+  recipeJournal?: {
+    notes?: string;
+    userTags?: string[];
+    lastScaledMultiplier?: number;
+  };
+}
+
+/**
+ * Minutes as an ISO 8601 duration ("PT1H15M")
+ */
+function toIsoDuration(minutes: number | undefined): string | undefined {
+  if (!minutes) return undefined;
+  const hours = Math.floor(minutes / 60);
+  const rest = minutes % 60;
+  return `PT${hours > 0 ? `${hours}H` : ''}${rest > 0 || hours === 0 ? `${rest}M` : ''}`;
+}
+
+function isRecipe(value: unknown): value is JsonLdRecipe {
+  if (!value || typeof value !== 'object') return false;
+  const type = (value as { '@type'?: unknown })['@type'];
+  const types = Array.isArray(type) ? type : [type];
+  return types.some((t) => t === 'Recipe');
+}
+
+export class JsonLdFormat {
+  private schemaOrgScraper = new SchemaOrgScraper();
+
+  /**
+   * A JSON-LD document with one Recipe per recipe
+   */
+  serialize(recipes: PortableRecipe[]): string {
+    return JSON.stringify(
+      {
+        '@context': 'https://schema.org',
+        '@graph': recipes.map((recipe) => this.toJsonLd(recipe)),
+      },
+      null,
+      2
+    );
+  }
+
+  /**
+   * Recipes in a JSON-LD document: a Recipe, a list of them, or a @graph
+   */
+  parse(data: unknown): PortableRecipe[] {
+    const found: JsonLdRecipe[] = [];
+    const visit = (value: unknown) => {
+      if (Array.isArray(value)) {
+        value.forEach(visit);
+      } else if (isRecipe(value)) {
+        found.push(value);
+      } else if (value && typeof value === 'object' && '@graph' in value) {
+        visit((value as { '@graph': unknown })['@graph']);
+      }
+    };
+    visit(data);
+
+    if (found.length === 0) {
+      throw createError(ErrorCode.RECIPE_NOT_FOUND, 'No schema.org recipes found in the file');
+    }
+
+    return found.map((item) => this.fromJsonLd(item));
+  }
+
+  toJsonLd(recipe: PortableRecipe): JsonLdRecipe {
+    const sections = new Set(recipe.instructions.map((i) => i.section));
+    const nutrition = recipe.nutrition;
+
+    return {
+      '@type': 'Recipe',
+      name: recipe.title,
+      description: recipe.description,
+      image: recipe.image,
+      author: recipe.author ? { name: recipe.author } : undefined,
+      url: recipe.source.url,
+      prepTime: toIsoDuration(recipe.prepTime),
+      cookTime: toIsoDuration(recipe.cookTime),
+      totalTime: toIsoDuration(recipe.totalTime),
+      recipeYield: `${recipe.servings.amount} ${recipe.servings.unit}`,
+      recipeIngredient: withHeadings(
+        recipe.ingredients.map((i) => ({ text: i.original, section: i.section }))
+      ),
+      recipeInstructions:
+        sections.size > 1 || !sections.has(undefined)
+          ? [...sections].map((section) => ({
+              '@type': 'HowToSection',
+              name: section,
+              itemListElement: recipe.instructions
+                .filter((i) => i.section === section)
+                .map((i) => ({ '@type': 'HowToStep', text: i.text })),
+            }))
+          : recipe.instructions.map((i) => ({ '@type': 'HowToStep', text: i.text })),
+      nutrition: nutrition
+        ? {
+            '@type': 'NutritionInformation',
+            calories:
+              nutrition.calories !== undefined ? `${nutrition.calories} calories` : undefined,
+            proteinContent: nutrition.protein,
+            carbohydrateContent: nutrition.carbohydrates,
+            fatContent: nutrition.fat,
+            saturatedFatContent: nutrition.saturatedFat,
+            cholesterolContent: nutrition.cholesterol,
+            fiberContent: nutrition.fiber,
+            sodiumContent: nutrition.sodium,
+            sugarContent: nutrition.sugar,
+            servingSize: nutrition.servingSize,
+          }
+        : undefined,
+      keywords: recipe.tags?.join(', ') || undefined,
+      recipeJournal: {
+        notes: recipe.notes,
+        userTags: recipe.userTags,
+        lastScaledMultiplier: recipe.lastScaledMultiplier,
+      },
+    };
+  }
+
+  fromJsonLd(data: JsonLdRecipe): PortableRecipe {
+    const source = sourceFromUrl(typeof data.url === 'string' ? data.url : undefined);
+    const recipe = this.schemaOrgScraper.parseSchemaRecipe(
+      data,
+      source.url,
+      source.domain,
+      source.scrapeMethod
+    );
+    const extra = data.recipeJournal ?? {};
+
+    return {
+      ...recipe,
+      ingredients: parseIngredients(recipe.ingredients),
+      notes: typeof extra.notes === 'string' ? extra.notes : undefined,
+      userTags: Array.isArray(extra.userTags)
+        ? extra.userTags.filter((tag): tag is string => typeof tag === 'string')
+        : [],
+      lastScaledMultiplier: parseMultiplier(extra.lastScaledMultiplier),
+    };
+  }
+}
+
+// Export singleton instance
+export const jsonLdFormat = new JsonLdFormat();
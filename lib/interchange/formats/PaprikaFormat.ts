@@ -0,0 +1,227 @@
+/**
+ * Paprika recipe archives
+ *
+ * A .paprikarecipes file is a zip with one gzipped JSON .paprikarecipe
+ * entry per recipe. Ingredients and directions are plain text, one per
+ * line. Our tags travel as Paprika categories and the last multiplier as
+ * Paprika's scale.
+ */
+
+import { v4 as uuidv4 } from 'uuid';
+import { ErrorCode, PortableRecipe, ServingInfo } from '@/types';
+import { createError } from '@/lib/utils';
+import { createZip, gunzip, gzip, isGzip, isZip, readZip } from '../archive';
+import {
+  formatMinutes,
+  parseIngredientLines,
+  parseMinutes,
+  parseMultiplier,
+  parseStepLines,
+  sourceFromUrl,
+  withHeadings,
+} from '../utils';
+
+/**
+ * A recipe as Paprika exports it
+ */
+export interface PaprikaRecipe {
+  uid: string;
+  name: string;
+  ingredients: string;
+  directions: string;
+  notes: string;
+  description: string;
+  servings: string;
+  prep_time: string;
+  cook_time: string;
+  total_time: string;
+  source: string;
+  source_url: string;
+  image_url: string | null;
+  categories: string[];
+  nutritional_info: string;
+  scale: string | null;
+  created: string;
+  rating: number;
+  difficulty: string;
+  photo_data: string | null;
+  hash: string;
+}
+
+const NUTRITION_LABELS: [key: string, label: string][] = [
+  ['calories', 'Calories'],
+  ['protein', 'Protein'],
+  ['carbohydrates', 'Carbohydrates'],
+  ['fat', 'Fat'],
+  ['saturatedFat', 'Saturated Fat'],
+  ['cholesterol', 'Cholesterol'],
+  ['fiber', 'Fiber'],
+  ['sodium', 'Sodium'],
+  ['sugar', 'Sugar'],
+  ['servingSize', 'Serving Size'],
+];
+
+/**
+ * Paprika's "YYYY-MM-DD HH:MM:SS" timestamp
+ */
+function toPaprikaDate(date: Date): string {
+  return date.toISOString().replace('T', ' ').slice(0, 19);
+}
+
+/**
+ * Entry name for a recipe, unique within the archive
+ */
+function entryName(title: string, used: Set<string>): string {
+  const base = title.replace(/[\\/:*?"<>|]/g, '').trim() || 'Recipe';
+  let name = `${base}.paprikarecipe`;
+  for (let n = 2; used.has(name); n++) {
+    name = `${base} (${n}).paprikarecipe`;
+  }
+  used.add(name);
+  return name;
+}
+
+export class PaprikaFormat {
+  /**
+   * Build a .paprikarecipes archive
+   */
+  async createArchive(recipes: PortableRecipe[]): Promise<Uint8Array> {
+    const encoder = new TextEncoder();
+    const used = new Set<string>();
+
+    const entries = await Promise.all(
+      recipes.map(async (recipe) => ({
+        name: entryName(recipe.title, used),
+        data: await gzip(encoder.encode(JSON.stringify(this.toPaprika(recipe)))),
+      }))
+    );
+
+    return createZip(entries);
+  }
+
+  /**
+   * Read a .paprikarecipes archive or a single gzipped .paprikarecipe
+   */
+  async readArchive(data: Uint8Array): Promise<PortableRecipe[]> {
+    const files = isZip(data)
+      ? (await readZip(data)).filter((entry) => entry.name.endsWith('.paprikarecipe'))
+      : [{ name: 'recipe.paprikarecipe', data }];
+
+    const decoder = new TextDecoder();
+    const recipes: PortableRecipe[] = [];
+    for (const file of files) {
+      const json = isGzip(file.data) ? await gunzip(file.data) : file.data;
+      try {
+        recipes.push(this.fromPaprika(JSON.parse(decoder.decode(json))));
+      } catch {
+        throw createError(ErrorCode.PARSE_FAILED, `Could not read ${file.name}`);
+      }
+    }
+
+    if (recipes.length === 0) {
+      throw createError(ErrorCode.RECIPE_NOT_FOUND, 'No Paprika recipes found in the file');
+    }
+    return recipes;
+  }
+
+  toPaprika(recipe: PortableRecipe): PaprikaRecipe {
+    const nutrition = recipe.nutrition ?? {};
+    const isManual = recipe.source.scrapeMethod === 'manual';
+
+    return {
+      uid: recipe.id || uuidv4(),
+      name: recipe.title,
+      ingredients: withHeadings(
+        recipe.ingredients.map((i) => ({ text: i.original, section: i.section }))
+      ).join('\n'),
+      directions: withHeadings(recipe.instructions).join('\n'),
+      notes: recipe.notes ?? '',
+      description: recipe.description ?? '',
+      servings: recipe.servings.originalText || `${recipe.servings.amount} ${recipe.servings.unit}`,
+      prep_time: formatMinutes(recipe.prepTime),
+      cook_time: formatMinutes(recipe.cookTime),
+      total_time: formatMinutes(recipe.totalTime),
+      source: isManual ? '' : recipe.source.domain,
+      source_url: recipe.source.url,
+      image_url: recipe.image ?? null,
+      categories: recipe.userTags ?? [],
+      nutritional_info: NUTRITION_LABELS.filter(([key]) => nutrition[key] !== undefined)
+        .map(([key, label]) => `${label}: ${nutrition[key]}`)
+        .join('\n'),
+      scale: recipe.lastScaledMultiplier ? String(recipe.lastScaledMultiplier) : null,
+      created: toPaprikaDate(new Date(recipe.source.scrapedAt)),
+      rating: 0,
+      difficulty: '',
+      photo_data: null,
+      hash: '',
+    };
+  }
+
+  fromPaprika(data: Partial<PaprikaRecipe>): PortableRecipe {
+    if (!data || typeof data.name !== 'string') {
+      throw createError(ErrorCode.PARSE_FAILED, 'Not a Paprika recipe');
+    }
+
+    const lines = (text: unknown) => (typeof text === 'string' ? text.split(/\r?\n/) : []);
+    const text = (value: unknown) =>
+      typeof value === 'string' && value.trim() ? value.trim() : undefined;
+
+    const ingredientLines = lines(data.ingredients);
+    const steps = lines(data.directions);
+
+    return {
+      source: sourceFromUrl(text(data.source_url)),
+      title: data.name.trim() || 'Untitled Recipe',
+      description: text(data.description),
+      image: text(data.image_url),
+      prepTime: parseMinutes(data.prep_time),
+      cookTime: parseMinutes(data.cook_time),
+      totalTime: parseMinutes(data.total_time),
+      servings: this.parseServings(text(data.servings)),
+      ingredients: parseIngredientLines(ingredientLines),
+      instructions: parseStepLines(steps),
+      nutrition: this.parseNutrition(lines(data.nutritional_info)),
+      rawData: {
+        ingredients: ingredientLines.map((line) => line.trim()).filter(Boolean),
+        instructions: steps.map((line) => line.trim()).filter(Boolean),
+      },
+      notes: text(data.notes),
+      userTags: Array.isArray(data.categories)
+        ? data.categories.filter((tag): tag is string => typeof tag === 'string')
+        : [],
+      lastScaledMultiplier: parseMultiplier(data.scale),
+    };
+  }
+
+  private parseServings(text: string | undefined): ServingInfo {
+    const match = text?.match(/(\d+)\s*([a-z]+)?/i);
+    if (!text || !match) {
+      return { amount: 4, unit: 'servings', originalText: 'Serves 4' };
+    }
+
+    const unit =
+      match[2] && !/^(people|persons?|servings?)$/i.test(match[2]) ? match[2] : 'servings';
+    return { amount: parseInt(match[1], 10), unit: unit.toLowerCase(), originalText: text };
+  }
+
+  /**
+   * "Calories: 250" lines back into nutrition values
+   */
+  private parseNutrition(lines: string[]): PortableRecipe['nutrition'] {
+    const nutrition: NonNullable<PortableRecipe['nutrition']> = {};
+
+    for (const line of lines) {
+      const match = line.match(/^\s*([^:]+):\s*(.+?)\s*$/);
+      const entry = match && NUTRITION_LABELS.find(([, label]) => label === match[1].trim());
+      if (!match || !entry) continue;
+
+      const [key] = entry;
+      nutrition[key] = key === 'calories' ? parseInt(match[2], 10) || undefined : match[2];
+    }
+
+    return Object.keys(nutrition).length > 0 ? nutrition : undefined;
+  }
+}
+
+// Export singleton instance
+export const paprikaFormat = new PaprikaFormat();
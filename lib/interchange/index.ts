@@ -0,0 +1,9 @@
+/**
+ * Recipe file import/export exports
+ */
+
+export * from './RecipeFileService';
+export * from './formats/JsonLdFormat';
+export * from './formats/PaprikaFormat';
+export * from './formats/BundleFormat';
+export * from './archive';
@@ -0,0 +1,118 @@
+/**
+ * Helpers shared by the recipe file formats
+ */
+
+import { Instruction, ParsedIngredient, RecipeSource } from '@/types';
+import { ingredientParser } from '@/lib/ingredient';
+import { MANUAL_SOURCE_DOMAIN, createManualSource } from '@/lib/scraper/TextRecipeParser';
+import { toInstructions } from '@/lib/scraper/utils/lines';
+import { splitSectionHeadings } from '@/lib/scraper/utils/sections';
+
+/**
+ * Flatten sectioned lines, putting a "Section:" heading line before each section
+ */
+export function withHeadings(lines: { text: string; section?: string }[]): string[] {
+  const result: string[] = [];
+  let section: string | undefined;
+
+  for (const line of lines) {
+    if (line.section && line.section !== section) {
+      result.push(`${line.section}:`);
+    }
+    section = line.section;
+    result.push(line.text);
+  }
+
+  return result;
+}
+
+/**
+ * Parse ingredient lines, turning heading lines into sections
+ */
+export function parseIngredientLines(lines: string[]): ParsedIngredient[] {
+  return splitSectionHeadings(lines.map((line) => line.trim()).filter(Boolean)).map(
+    ({ text, section }) => ({
+      ...ingredientParser.parseIngredient(text),
+      ...(section && { section }),
+    })
+  );
+}
+
+/**
+ * Number step lines, turning heading lines into sections
+ */
+export function parseStepLines(lines: string[]): Instruction[] {
+  return toInstructions(splitSectionHeadings(lines.map((line) => line.trim()).filter(Boolean)));
+}
+
+/**
+ * Parse ingredients that were read without quantities and units
+ */
+export function parseIngredients(ingredients: ParsedIngredient[]): ParsedIngredient[] {
+  return ingredients.map((ingredient) => ({
+    ...ingredientParser.parseIngredient(ingredient.original),
+    id: ingredient.id,
+    ...(ingredient.section && { section: ingredient.section }),
+  }));
+}
+
+/**
+ * Source for an imported recipe. Recipes with no link get a manual source;
+ * linked ones are treated like scraped recipes, as cloud recipes are.
+ */
+export function sourceFromUrl(url: string | undefined): RecipeSource {
+  if (!url?.trim()) return createManualSource();
+
+  let domain = MANUAL_SOURCE_DOMAIN;
+  try {
+    const parsed = new URL(url);
+    if (parsed.protocol === 'http:' || parsed.protocol === 'https:') {
+      domain = parsed.hostname.replace(/^www\./, '');
+    }
+  } catch {
+    // Not a web link; keep it as the recipe's identity anyway
+  }
+
+  return {
+    url: url.trim(),
+    domain,
+    scrapedAt: new Date(),
+    scrapeMethod: domain === MANUAL_SOURCE_DOMAIN ? 'manual' : 'schema-org',
+  };
+}
+
+/**
+ * Read durations like "1 hr 15 mins" or "45" as minutes
+ */
+export function parseMinutes(text: string | undefined | null): number | undefined {
+  if (!text) return undefined;
+  if (/^\s*\d+\s*$/.test(text)) return parseInt(text, 10) || undefined;
+
+  const hours = text.match(/(\d+)\s*(hours?|hrs?|h\b)/i);
+  const minutes = text.match(/(\d+)\s*(minutes?|mins?|m\b)/i);
+  const total =
+    (hours ? parseInt(hours[1], 10) * 60 : 0) + (minutes ? parseInt(minutes[1], 10) : 0);
+  return total > 0 ? total : undefined;
+}
+
+/**
+ * Format minutes the way recipe apps show them ("1 hr 15 mins")
+ */
+export function formatMinutes(minutes: number | undefined): string {
+  if (!minutes) return '';
+  const hours = Math.floor(minutes / 60);
+  const rest = minutes % 60;
+  return [hours > 0 ? `${hours} hr` : '', rest > 0 ? `${rest} mins` : ''].filter(Boolean).join(' ');
+}
+
+/**
+ * Read a multiplier written as a number or a fraction ("1.5", "3/2")
+ */
+export function parseMultiplier(value: unknown): number | undefined {
+  if (typeof value === 'number') return value > 0 ? value : undefined;
+  if (typeof value !== 'string') return undefined;
+
+  const fraction = value.match(/^\s*(\d+(?:\.\d+)?)\s*\/\s*(\d+(?:\.\d+)?)\s*$/);
+  const number = fraction ? parseFloat(fraction[1]) / parseFloat(fraction[2]) : parseFloat(value);
+  return Number.isFinite(number) && number > 0 ? number : undefined;
+}
@@ -0,0 +1,127 @@
+import { MealPlanService, addDays, getWeekStart, toDateKey, fromDateKey } from './MealPlanService';
+import { MealPlanEntry, Recipe } from '@/types';
+import { ingredientParser } from '@/lib/ingredient';
+
+describe('MealPlanService', () => {
+  let service: MealPlanService;
+
+  beforeEach(() => {
+    service = new MealPlanService();
+  });
+
+  const createMockRecipe = (id: string, title: string, ingredients: string[]): Recipe => ({
+    id,
+    title,
+    servings: { amount: 4, unit: 'servings', originalText: '4 servings' },
+    ingredients: ingredients.map((line) => ingredientParser.parseIngredient(line)),
+    instructions: [],
+    source: {
+      url: `https://example.com/${id}`,
+      domain: 'example.com',
+      scrapedAt: new Date(),
+      scrapeMethod: 'schema-org',
+    },
+  });
+
+  const plan = (recipe: Recipe, date: string, multiplier = 1): MealPlanEntry =>
+    service.createEntry({ recipe, date, meal: 'dinner', multiplier });
+
+  describe('date helpers', () => {
+    it('round-trips local date keys', () => {
+      expect(toDateKey(fromDateKey('2026-10-19'))).toBe('2026-10-19');
+    });
+
+    it('adds days across month boundaries', () => {
+      expect(addDays('2026-10-30', 3)).toBe('2026-11-02');
+      expect(addDays('2026-11-02', -7)).toBe('2026-10-26');
+    });
+
+    it('finds the Monday of the week', () => {
+      expect(getWeekStart('2026-10-19')).toBe('2026-10-19'); // Monday
+      expect(getWeekStart('2026-10-25')).toBe('2026-10-19'); // Sunday
+      expect(getWeekStart(new Date(2026, 9, 22))).toBe('2026-10-19');
+    });
+  });
+
+  describe('entries', () => {
+    const pasta = createMockRecipe('r1', 'Pasta', ['1 lb spaghetti']);
+
+    it('creates entries with a default multiplier', () => {
+      const entry = service.createEntry({ recipe: pasta, date: '2026-10-20', meal: 'lunch' });
+
+      expect(entry).toMatchObject({
+        date: '2026-10-20',
+        meal: 'lunch',
+        recipeId: 'r1',
+        recipeTitle: 'Pasta',
+        multiplier: 1,
+      });
+      expect(entry.id).toBeTruthy();
+    });
+
+    it('moves entries and changes their multiplier', () => {
+      const entry = plan(pasta, '2026-10-20');
+
+      expect(service.moveEntry(entry, '2026-10-22', 'lunch')).toMatchObject({
+        date: '2026-10-22',
+        meal: 'lunch',
+      });
+      expect(service.setMultiplier(entry, 2).multiplier).toBe(2);
+    });
+
+    it('lays out a week by day and meal', () => {
+      const entries = [
+        plan(pasta, '2026-10-20'),
+        service.createEntry({ recipe: pasta, date: '2026-10-25', meal: 'breakfast' }),
+        plan(pasta, '2026-10-26'), // next week
+      ];
+
+      const days = service.groupByDay(entries, '2026-10-19');
+
+      expect(days.map((d) => d.date)).toEqual([
+        '2026-10-19',
+        '2026-10-20',
+        '2026-10-21',
+        '2026-10-22',
+        '2026-10-23',
+        '2026-10-24',
+        '2026-10-25',
+      ]);
+      expect(days[1].meals.dinner).toHaveLength(1);
+      expect(days[6].meals.breakfast).toHaveLength(1);
+      expect(days.flatMap((d) => Object.values(d.meals).flat())).toHaveLength(2);
+    });
+  });
+
+  describe('getShoppingInput', () => {
+    const chili = createMockRecipe('r1', 'Chili', ['1 lb ground beef', '1 onion']);
+    const tacos = createMockRecipe('r2', 'Tacos', ['1 lb ground beef']);
+    const removed = createMockRecipe('r3', 'Old Soup', ['1 carrot']);
+
+    it('sums multipliers for recipes planned more than once', () => {
+      const entries = [
+        plan(chili, '2026-10-19'),
+        plan(chili, '2026-10-22', 2),
+        plan(tacos, '2026-10-23'),
+        plan(tacos, '2026-10-27'), // next week
+      ];
+
+      const { inputs, missing } = service.getShoppingInput(entries, '2026-10-19', [chili, tacos]);
+
+      expect(inputs.map((i) => [i.recipe.title, i.multiplier])).toEqual([
+        ['Chili', 3],
+        ['Tacos', 1],
+      ]);
+      expect(missing).toEqual([]);
+    });
+
+    it('reports planned recipes that are no longer saved', () => {
+      const entries = [plan(chili, '2026-10-19'), plan(removed, '2026-10-20')];
+
+      const { inputs, missing } = service.getShoppingInput(entries, '2026-10-19', [chili]);
+
+      expect(inputs).toHaveLength(1);
+      expect(missing).toEqual(['Old Soup']);
+    });
+  });
+});
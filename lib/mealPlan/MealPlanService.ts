@@ -0,0 +1,174 @@
+/**
+ * Meal plan service
+ *
+ * Places saved recipes on a weekly calendar and turns a week's plan into
+ * shopping list input.
+ */
+
+import { v4 as uuidv4 } from 'uuid';
+import { MealPlanDay, MealPlanEntry, MealSlot, Recipe } from '@/types';
+import type { ShoppingListRecipeInput } from '@/lib/shopping';
+
+/**
+ * Meal slots in display order
+ */
+export const MEAL_SLOTS: { id: MealSlot; label: string }[] = [
+  { id: 'breakfast', label: 'Breakfast' },
+  { id: 'lunch', label: 'Lunch' },
+  { id: 'dinner', label: 'Dinner' },
+  { id: 'snack', label: 'Snack' },
+];
+
+/**
+ * What to plan: a recipe, when, and how much of it
+ */
+export interface MealPlanEntryInput {
+  recipe: Pick<Recipe, 'id' | 'title'>;
+  date: string;
+  meal: MealSlot;
+  /** Defaults to 1 */
+  multiplier?: number;
+}
+
+/**
+ * Shopping list input for a week, plus planned recipes that no longer exist
+ */
+export interface MealPlanShoppingInput {
+  inputs: ShoppingListRecipeInput[];
+  /** Titles of planned recipes that aren't saved anymore */
+  missing: string[];
+}
+
+/**
+ * Format a local date as YYYY-MM-DD
+ */
+export function toDateKey(date: Date): string {
+  const month = String(date.getMonth() + 1).padStart(2, '0');
+  const day = String(date.getDate()).padStart(2, '0');
+  return `${date.getFullYear()}-${month}-${day}`;
+}
+
+/**
+ * Parse a YYYY-MM-DD key as a local date
+ */
+export function fromDateKey(key: string): Date {
+  const [year, month, day] = key.split('-').map(Number);
+  return new Date(year, month - 1, day);
+}
+
+/**
+ * Add days to a date key
+ */
+export function addDays(key: string, days: number): string {
+  const date = fromDateKey(key);
+  date.setDate(date.getDate() + days);
+  return toDateKey(date);
+}
+
+/**
+ * Monday of the week containing a date
+ */
+export function getWeekStart(date: Date | string): string {
+  const day = typeof date === 'string' ? fromDateKey(date) : new Date(date);
+  const offset = (day.getDay() + 6) % 7;
+  day.setDate(day.getDate() - offset);
+  return toDateKey(day);
+}
+
+export class MealPlanService {
+  /**
+   * Create an entry for a recipe on a date and meal
+   */
+  createEntry(input: MealPlanEntryInput): MealPlanEntry {
+    const now = new Date().toISOString();
+    return {
+      id: uuidv4(),
+      date: input.date,
+      meal: input.meal,
+      recipeId: input.recipe.id || '',
+      recipeTitle: input.recipe.title,
+      multiplier: input.multiplier ?? 1,
+      createdAt: now,
+      updatedAt: now,
+    };
+  }
+
+  /**
+   * Change how much of the recipe to cook
+   */
+  setMultiplier(entry: MealPlanEntry, multiplier: number): MealPlanEntry {
+    return { ...entry, multiplier, updatedAt: new Date().toISOString() };
+  }
+
+  /**
+   * Move an entry to another date and meal
+   */
+  moveEntry(entry: MealPlanEntry, date: string, meal: MealSlot): MealPlanEntry {
+    return { ...entry, date, meal, updatedAt: new Date().toISOString() };
+  }
+
+  /**
+   * The seven dates of the week starting at weekStart
+   */
+  getWeekDates(weekStart: string): string[] {
+    return Array.from({ length: 7 }, (_, i) => addDays(weekStart, i));
+  }
+
+  /**
+   * Entries that fall within the week starting at weekStart
+   */
+  getWeekEntries(entries: MealPlanEntry[], weekStart: string): MealPlanEntry[] {
+    const weekEnd = addDays(weekStart, 6);
+    return entries.filter((entry) => entry.date >= weekStart && entry.date <= weekEnd);
+  }
+
+  /**
+   * Lay a week's entries out by day and meal
+   */
+  groupByDay(entries: MealPlanEntry[], weekStart: string): MealPlanDay[] {
+    const weekEntries = this.getWeekEntries(entries, weekStart).sort((a, b) =>
+      a.createdAt.localeCompare(b.createdAt)
+    );
+
+    return this.getWeekDates(weekStart).map((date) => {
+      const meals = {} as MealPlanDay['meals'];
+      for (const { id } of MEAL_SLOTS) {
+        meals[id] = weekEntries.filter((entry) => entry.date === date && entry.meal === id);
+      }
+      return { date, meals };
+    });
+  }
+
+  /**
+   * Shopping list input for a week. A recipe planned more than once
+   * is added once with the multipliers summed.
+   */
+  getShoppingInput(
+    entries: MealPlanEntry[],
+    weekStart: string,
+    recipes: Recipe[]
+  ): MealPlanShoppingInput {
+    const recipesById = new Map(recipes.filter((r) => r.id).map((r) => [r.id!, r]));
+    const totals = new Map<string, number>();
+    const missing = new Set<string>();
+
+    for (const entry of this.getWeekEntries(entries, weekStart)) {
+      if (!recipesById.has(entry.recipeId)) {
+        missing.add(entry.recipeTitle);
+        continue;
+      }
+      totals.set(entry.recipeId, (totals.get(entry.recipeId) ?? 0) + entry.multiplier);
+    }
+
+    return {
+      inputs: Array.from(totals, ([recipeId, multiplier]) => ({
+        recipe: recipesById.get(recipeId)!,
+        multiplier,
+      })),
+      missing: Array.from(missing),
+    };
+  }
+}
+
+// Export singleton instance
+export const mealPlanService = new MealPlanService();
@@ -0,0 +1,5 @@
+/**
+ * Meal plan exports
+ */
+
+export * from './MealPlanService';
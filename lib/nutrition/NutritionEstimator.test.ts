@@ -0,0 +1,114 @@
+import { NutritionEstimator, nutritionEstimator, NUTRIENT_FOODS } from './NutritionEstimator';
+import { ServingInfo } from '@/types';
+import { ingredientParser } from '@/lib/ingredient';
+
+describe('NutritionEstimator', () => {
+  let estimator: NutritionEstimator;
+
+  beforeEach(() => {
+    estimator = new NutritionEstimator();
+  });
+
+  const servings = (amount: number): ServingInfo => ({
+    amount,
+    unit: 'servings',
+    originalText: `${amount} servings`,
+  });
+
+  const parse = (lines: string[]) => lines.map((line) => ingredientParser.parseIngredient(line));
+
+  describe('findFood', () => {
+    it('prefers the longest matching name', () => {
+      expect(estimator.findFood('peanut butter')?.name).toBe('peanut butter');
+      expect(estimator.findFood('unsalted butter')?.name).toBe('unsalted butter');
+      expect(estimator.findFood('brown sugar')?.name).toBe('brown sugar');
+    });
+
+    it('matches aliases and plurals', () => {
+      expect(estimator.findFood('flour')?.name).toBe('all-purpose flour');
+      expect(estimator.findFood('walnuts')?.name).toBe('walnut');
+      expect(estimator.findFood('cloves garlic')?.name).toBe('garlic');
+    });
+
+    it('does not match inside other words', () => {
+      expect(estimator.findFood('eggplant')).toBeUndefined();
+      expect(estimator.findFood('dragon fruit')).toBeUndefined();
+    });
+  });
+
+  describe('matchIngredient', () => {
+    it('converts weight and volume to grams', () => {
+      const [beef, flour] = parse(['1 lb ground beef', '1 cup flour']);
+
+      expect(estimator.matchIngredient(beef).grams).toBeCloseTo(453.6, 0);
+      expect(estimator.matchIngredient(flour).grams).toBeCloseTo(120, 0);
+    });
+
+    it('uses piece weights for counted ingredients', () => {
+      const [eggs, garlic] = parse(['3 large eggs', '2 cloves garlic, minced']);
+
+      expect(estimator.matchIngredient(eggs)).toMatchObject({ status: 'matched', grams: 150 });
+      expect(estimator.matchIngredient(garlic)).toMatchObject({ status: 'matched', grams: 6 });
+    });
+
+    it('prefers a labelled size over the typical piece weight', () => {
+      const [tomatoes] = parse(['1 (14 oz) can diced tomatoes']);
+
+      expect(estimator.matchIngredient(tomatoes).grams).toBeCloseTo(396.9, 0);
+    });
+
+    it('reports lines it could not count', () => {
+      const [unknown, salt, leaves] = parse([
+        '2 cups dragon fruit',
+        'Salt to taste',
+        '1 bunch parsley',
+      ]);
+
+      expect(estimator.matchIngredient(unknown).status).toBe('unmatched');
+      expect(estimator.matchIngredient(salt)).toMatchObject({
+        status: 'no-quantity',
+        food: 'salt',
+      });
+      expect(estimator.matchIngredient(leaves)).toMatchObject({
+        status: 'no-weight',
+        food: 'parsley',
+      });
+    });
+  });
+
+  describe('estimate', () => {
+    it('sums matched ingredients per serving', () => {
+      const result = estimator.estimate({
+        ingredients: parse(['200 g white rice', '2 tablespoons olive oil', '1 cup dragon fruit']),
+        servings: servings(2),
+      });
+
+      // 200 g rice = 730 kcal, 2 tbsp oil (27.2 g) = 240 kcal
+      expect(result?.nutrition.calories).toBe(485);
+      expect(result?.nutrition.carbohydrates).toBe('80 g');
+      expect(result?.nutrition.sodium).toBe('5 mg');
+      expect(result?.report.matches.map((m) => m.status)).toEqual([
+        'matched',
+        'matched',
+        'unmatched',
+      ]);
+    });
+
+    it('returns null when nothing matches', () => {
+      expect(
+        estimator.estimate({ ingredients: parse(['1 dragon fruit']), servings: servings(1) })
+      ).toBeNull();
+    });
+  });
+
+  it('bundles foods with every nutrient', () => {
+    expect(NUTRIENT_FOODS.length).toBeGreaterThan(50);
+    for (const food of NUTRIENT_FOODS) {
+      expect(Object.keys(food.per100g)).toHaveLength(9);
+    }
+  });
+
+  it('exports a singleton instance', () => {
+    expect(nutritionEstimator).toBeInstanceOf(NutritionEstimator);
+  });
+});
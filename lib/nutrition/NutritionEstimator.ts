@@ -0,0 +1,196 @@
+/**
+ * Nutrition estimator
+ *
+ * Estimates nutrition from a recipe's ingredients using the bundled
+ * nutrient database, for recipes whose source page lists none.
+ */
+
+import {
+  IngredientNutritionMatch,
+  NutrientFood,
+  NutrientKey,
+  NutritionEstimate,
+  NutritionInfo,
+  ParsedIngredient,
+  Recipe,
+  UnitCategory,
+} from '@/types';
+import { getIngredientDensity, getUnit } from '@/constants';
+import nutrientData from './data/nutrients.json';
+import { NUTRIENTS, nutritionService } from './NutritionService';
+
+/**
+ * Foods bundled with the app
+ */
+export const NUTRIENT_FOODS = nutrientData.foods as NutrientFood[];
+
+interface FoodMatcher {
+  pattern: RegExp;
+  length: number;
+  food: NutrientFood;
+}
+
+function escapeRegExp(value: string): string {
+  return value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+/**
+ * Match a word with an optional plural "s"/"es"
+ */
+function wordPattern(word: string): RegExp {
+  return new RegExp(`\\b${escapeRegExp(word)}(e?s)?\\b`);
+}
+
+function normalizeName(name: string): string {
+  return name.toLowerCase().replace(/\([^)]*\)/g, ' ');
+}
+
+export class NutritionEstimator {
+  private matchers: FoodMatcher[];
+  private foodsByName: Map<string, NutrientFood>;
+
+  constructor(foods: NutrientFood[] = NUTRIENT_FOODS) {
+    this.foodsByName = new Map(foods.map((food) => [food.name, food]));
+    this.matchers = foods.flatMap((food) =>
+      [food.name, ...(food.aliases || [])].map((name) => ({
+        pattern: wordPattern(name),
+        length: name.length,
+        food,
+      }))
+    );
+  }
+
+  /**
+   * Find the food for an ingredient name.
+   * The longest matching name wins, so "peanut butter" beats "butter".
+   */
+  findFood(ingredientName: string): NutrientFood | undefined {
+    const name = normalizeName(ingredientName);
+    let best: FoodMatcher | undefined;
+
+    for (const matcher of this.matchers) {
+      if (matcher.pattern.test(name) && (!best || matcher.length > best.length)) {
+        best = matcher;
+      }
+    }
+
+    return best?.food;
+  }
+
+  /**
+   * Match one ingredient line and work out its weight in grams
+   */
+  matchIngredient(ingredient: ParsedIngredient): IngredientNutritionMatch {
+    const base = { ingredientId: ingredient.id, original: ingredient.original };
+
+    const food = this.findFood(ingredient.ingredient);
+    if (!food) return { ...base, status: 'unmatched' };
+    if (!ingredient.quantity) return { ...base, status: 'no-quantity', food: food.name };
+
+    const grams = this.toGrams(ingredient, food);
+    if (grams === null) return { ...base, status: 'no-weight', food: food.name };
+
+    return { ...base, status: 'matched', food: food.name, grams };
+  }
+
+  /**
+   * Estimate nutrition per serving from the ingredients.
+   * Returns null when no ingredient could be matched.
+   */
+  estimate(recipe: Pick<Recipe, 'ingredients' | 'servings'>): NutritionEstimate | null {
+    const matches = recipe.ingredients.map((ingredient) => this.matchIngredient(ingredient));
+    const totals = {} as Record<NutrientKey, number>;
+    let matchedCount = 0;
+
+    for (const match of matches) {
+      const food = match.food ? this.foodsByName.get(match.food) : undefined;
+      if (match.status !== 'matched' || match.grams === undefined || !food) continue;
+
+      matchedCount++;
+      for (const { key } of NUTRIENTS) {
+        totals[key] = (totals[key] || 0) + (food.per100g[key] * match.grams) / 100;
+      }
+    }
+
+    if (matchedCount === 0) return null;
+
+    const servings = recipe.servings.amount > 0 ? recipe.servings.amount : 1;
+    const nutrition: NutritionInfo = {};
+    for (const { key, unit } of NUTRIENTS) {
+      const value = totals[key] / servings;
+      if (key === 'calories') {
+        nutrition.calories = Math.round(value);
+      } else {
+        nutrition[key] = nutritionService.formatAmount({ value, unit });
+      }
+    }
+
+    return {
+      nutrition,
+      report: { estimatedAt: new Date().toISOString(), matches },
+    };
+  }
+
+  /**
+   * Weight of an ingredient line in grams, or null if it can't be converted
+   */
+  private toGrams(ingredient: ParsedIngredient, food: NutrientFood): number | null {
+    const { quantity } = ingredient;
+    if (!quantity) return null;
+
+    // Use the middle of a range ("2-3 cups")
+    const amount =
+      quantity.type === 'range' && quantity.valueTo !== undefined
+        ? (quantity.value + quantity.valueTo) / 2
+        : quantity.value;
+
+    if (ingredient.unit) {
+      const unit = getUnit(ingredient.unit);
+      if (unit?.category === UnitCategory.WEIGHT) {
+        return amount * unit.baseConversion;
+      }
+      if (unit?.category === UnitCategory.VOLUME) {
+        const density = getIngredientDensity(ingredient.ingredient) ?? food.density;
+        return density === undefined ? null : amount * unit.baseConversion * density;
+      }
+      return null;
+    }
+
+    // Count-based: a labelled size ("1 (14 oz) can") beats typical piece weights
+    const pieceWeight =
+      this.parseWeightNote(ingredient.notes) ?? this.findPieceWeight(ingredient, food);
+    return pieceWeight === undefined ? null : amount * pieceWeight;
+  }
+
+  /**
+   * Grams in a size note like "14 oz" or "400 g"
+   */
+  private parseWeightNote(notes: string | undefined): number | undefined {
+    const match = notes?.match(/(\d+(?:\.\d+)?)\s*-?\s*([a-z.]+)/i);
+    if (!match) return undefined;
+
+    const unit = getUnit(match[2]);
+    return unit?.category === UnitCategory.WEIGHT
+      ? parseFloat(match[1]) * unit.baseConversion
+      : undefined;
+  }
+
+  /**
+   * Typical weight of one piece, using a piece word in the line if there is one
+   */
+  private findPieceWeight(ingredient: ParsedIngredient, food: NutrientFood): number | undefined {
+    if (!food.pieces) return undefined;
+
+    const name = normalizeName(ingredient.ingredient);
+    for (const [word, grams] of Object.entries(food.pieces)) {
+      if (word !== 'default' && wordPattern(word).test(name)) {
+        return grams;
+      }
+    }
+
+    return food.pieces.default;
+  }
+}
+
+// Export singleton instance
+export const nutritionEstimator = new NutritionEstimator();
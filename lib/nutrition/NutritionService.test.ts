@@ -0,0 +1,88 @@
+import { NutritionService, nutritionService } from './NutritionService';
+import { ServingInfo } from '@/types';
+
+describe('NutritionService', () => {
+  let service: NutritionService;
+
+  beforeEach(() => {
+    service = new NutritionService();
+  });
+
+  const fourServings: ServingInfo = { amount: 4, unit: 'servings', originalText: '4 servings' };
+
+  describe('parseNutrientValue', () => {
+    it('parses values with units', () => {
+      expect(service.parseNutrientValue('12 g', 'g')).toEqual({ value: 12, unit: 'g' });
+      expect(service.parseNutrientValue('1,200 mg', 'mg')).toEqual({ value: 1200, unit: 'mg' });
+      expect(service.parseNutrientValue('250 calories', 'kcal')).toEqual({
+        value: 250,
+        unit: 'kcal',
+      });
+    });
+
+    it('converts to the canonical unit', () => {
+      expect(service.parseNutrientValue('0.5 g', 'mg')).toEqual({ value: 500, unit: 'mg' });
+      expect(service.parseNutrientValue('418.4 kJ', 'kcal')?.value).toBeCloseTo(100);
+    });
+
+    it('treats bare numbers as canonical and "<" values as zero', () => {
+      expect(service.parseNutrientValue(320, 'kcal')).toEqual({ value: 320, unit: 'kcal' });
+      expect(service.parseNutrientValue('7', 'g')).toEqual({ value: 7, unit: 'g' });
+      expect(service.parseNutrientValue('< 1 g', 'g')).toEqual({ value: 0, unit: 'g' });
+    });
+
+    it('rejects unparseable values', () => {
+      expect(service.parseNutrientValue('trace', 'g')).toBeUndefined();
+      expect(service.parseNutrientValue('5 cups', 'g')).toBeUndefined();
+      expect(service.parseNutrientValue(NaN, 'kcal')).toBeUndefined();
+    });
+  });
+
+  describe('normalize', () => {
+    it('keeps only nutrients it could parse', () => {
+      expect(
+        service.normalize({ calories: 300, protein: '12 g', fat: 'unknown', servingSize: '1 bowl' })
+      ).toEqual({
+        calories: { value: 300, unit: 'kcal' },
+        protein: { value: 12, unit: 'g' },
+      });
+    });
+  });
+
+  describe('scale', () => {
+    const nutrition = { calories: 200, protein: '10 g', sodium: '300 mg' };
+
+    it('returns null without nutrition', () => {
+      expect(service.scale(undefined, fourServings, 2)).toBeNull();
+    });
+
+    it('keeps per-serving values and scales the batch', () => {
+      const result = service.scale(nutrition, fourServings, 2, { ...fourServings, amount: 8 });
+
+      expect(result?.servings).toBe(8);
+      expect(result?.perServing.calories?.value).toBe(200);
+      expect(result?.perBatch.calories?.value).toBe(1600);
+      expect(result?.perBatch.sodium).toEqual({ value: 2400, unit: 'mg' });
+    });
+
+    it('spreads the batch across rounded serving counts', () => {
+      // 4 servings x 1.1 = 4.4, shown as 4 servings
+      const result = service.scale(nutrition, fourServings, 1.1, { ...fourServings, amount: 4 });
+
+      expect(result?.perBatch.calories?.value).toBeCloseTo(880);
+      expect(result?.perServing.calories?.value).toBeCloseTo(220);
+    });
+  });
+
+  describe('formatAmount', () => {
+    it('rounds for display', () => {
+      expect(service.formatAmount({ value: 2.345, unit: 'g' })).toBe('2.3 g');
+      expect(service.formatAmount({ value: 12.6, unit: 'g' })).toBe('13 g');
+      expect(service.formatAmount({ value: 450.4, unit: 'mg' })).toBe('450 mg');
+    });
+  });
+
+  it('exports a singleton instance', () => {
+    expect(nutritionService).toBeInstanceOf(NutritionService);
+  });
+});
@@ -0,0 +1,143 @@
+/**
+ * Nutrition service
+ *
+ * Parses scraped nutrition strings ("12 g", "1,200 mg") into numeric
+ * amounts and scales them per serving and per batch.
+ */
+
+import {
+  NutrientAmount,
+  NutrientKey,
+  NutrientUnit,
+  NutritionInfo,
+  NutritionValues,
+  ScaledNutrition,
+  ServingInfo,
+} from '@/types';
+
+/**
+ * Display order, labels and canonical units for each nutrient
+ */
+export const NUTRIENTS: { key: NutrientKey; label: string; unit: NutrientUnit }[] = [
+  { key: 'calories', label: 'Calories', unit: 'kcal' },
+  { key: 'fat', label: 'Fat', unit: 'g' },
+  { key: 'saturatedFat', label: 'Saturated fat', unit: 'g' },
+  { key: 'cholesterol', label: 'Cholesterol', unit: 'mg' },
+  { key: 'sodium', label: 'Sodium', unit: 'mg' },
+  { key: 'carbohydrates', label: 'Carbohydrates', unit: 'g' },
+  { key: 'fiber', label: 'Fiber', unit: 'g' },
+  { key: 'sugar', label: 'Sugar', unit: 'g' },
+  { key: 'protein', label: 'Protein', unit: 'g' },
+];
+
+/**
+ * Factor to convert a written unit into each canonical unit
+ */
+const UNIT_FACTORS: Record<string, Partial<Record<NutrientUnit, number>>> = {
+  kcal: { kcal: 1 },
+  cal: { kcal: 1 },
+  calorie: { kcal: 1 },
+  calories: { kcal: 1 },
+  kj: { kcal: 1 / 4.184 },
+  g: { g: 1, mg: 1000 },
+  gram: { g: 1, mg: 1000 },
+  grams: { g: 1, mg: 1000 },
+  mg: { g: 0.001, mg: 1 },
+  milligram: { g: 0.001, mg: 1 },
+  milligrams: { g: 0.001, mg: 1 },
+};
+
+export class NutritionService {
+  /**
+   * Parse a nutrient value into its canonical unit.
+   * Bare numbers are assumed to already be in the canonical unit.
+   */
+  parseNutrientValue(
+    raw: string | number | undefined,
+    unit: NutrientUnit
+  ): NutrientAmount | undefined {
+    if (raw === undefined || raw === null) return undefined;
+
+    if (typeof raw === 'number') {
+      return Number.isFinite(raw) && raw >= 0 ? { value: raw, unit } : undefined;
+    }
+
+    const match = raw
+      .replace(/,/g, '')
+      .trim()
+      .match(/^(<\s*)?(\d+(?:\.\d+)?)\s*([a-zA-Z]*)/);
+    if (!match) return undefined;
+
+    // "< 1 g" is reported as 0
+    const value = match[1] ? 0 : parseFloat(match[2]);
+    const writtenUnit = match[3].toLowerCase();
+    if (!writtenUnit) return { value, unit };
+
+    const factor = UNIT_FACTORS[writtenUnit]?.[unit];
+    if (factor === undefined) return undefined;
+
+    return { value: value * factor, unit };
+  }
+
+  /**
+   * Normalize scraped nutrition into numeric values
+   */
+  normalize(nutrition: NutritionInfo | undefined): NutritionValues {
+    const values: NutritionValues = {};
+    if (!nutrition) return values;
+
+    for (const { key, unit } of NUTRIENTS) {
+      const amount = this.parseNutrientValue(nutrition[key], unit);
+      if (amount) {
+        values[key] = amount;
+      }
+    }
+
+    return values;
+  }
+
+  /**
+   * Nutrition per scaled serving and for the whole scaled batch.
+   * Scraped values are per original serving, so the batch total follows the
+   * multiplier and is then split across the (rounded) scaled serving count.
+   */
+  scale(
+    nutrition: NutritionInfo | undefined,
+    originalServings: ServingInfo,
+    multiplier: number,
+    scaledServings?: ServingInfo
+  ): ScaledNutrition | null {
+    const perOriginalServing = this.normalize(nutrition);
+    if (Object.keys(perOriginalServing).length === 0) return null;
+
+    const baseServings = originalServings.amount > 0 ? originalServings.amount : 1;
+    const servings = scaledServings?.amount || baseServings * multiplier;
+
+    const perBatch = this.multiply(perOriginalServing, baseServings * multiplier);
+    const perServing = this.multiply(perBatch, servings > 0 ? 1 / servings : 0);
+
+    return { perServing, perBatch, servings };
+  }
+
+  /**
+   * Format an amount for display (e.g., "12 g", "450 mg", "320 kcal")
+   */
+  formatAmount(amount: NutrientAmount): string {
+    const rounded =
+      amount.value >= 10 || amount.unit !== 'g'
+        ? Math.round(amount.value)
+        : Math.round(amount.value * 10) / 10;
+    return `${rounded} ${amount.unit}`;
+  }
+
+  private multiply(values: NutritionValues, factor: number): NutritionValues {
+    const result: NutritionValues = {};
+    for (const [key, amount] of Object.entries(values) as [NutrientKey, NutrientAmount][]) {
+      result[key] = { value: amount.value * factor, unit: amount.unit };
+    }
+    return result;
+  }
+}
+
+// Export singleton instance
+export const nutritionService = new NutritionService();
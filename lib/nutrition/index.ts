@@ -0,0 +1,6 @@
+/**
+ * Nutrition exports
+ */
+
+export * from './NutritionService';
+export * from './NutritionEstimator';
@@ -1,10 +1,47 @@
 /**
  * Offline Database using Dexie (IndexedDB wrapper)
- * Stores recipes and sync queue for offline support
+ * Stores recipes, collections, shopping lists, meal plans, the pantry and sync queue
+ * for offline support, plus the recipes guests save
  */
 
 import Dexie, { Table } from 'dexie';
-import type { DbRecipe } from '@/lib/supabase/types';
+import type { Recipe } from '@/types';
+import type {
+  DbCollection,
+  DbMealPlanEntry,
+  DbPantryItem,
+  DbRecipe,
+  DbShoppingList,
+} from '@/lib/supabase/types';
+
+/**
+ * Recipe fields merged one by one when both devices edited a recipe
+ */
+export type MergeableRecipeField =
+  | 'title'
+  | 'description'
+  | 'notes'
+  | 'tags'
+  | 'is_favorite'
+  | 'ingredients'
+  | 'instructions'
+  | 'nutrition'
+  | 'nutrition_estimate'
+  | 'last_scale_multiplier';
+
+/**
+ * The mergeable fields of a recipe as last seen on the server
+ */
+export type RecipeSnapshot = Pick<DbRecipe, MergeableRecipeField | 'updated_at'>;
+
+/**
+ * A field edited differently on this device and on the server
+ */
+export interface RecipeFieldConflict {
+  field: MergeableRecipeField;
+  local: unknown;
+  remote: unknown;
+}
 
 /**
  * Offline recipe - same as DbRecipe but with offline metadata
@@ -14,6 +51,42 @@ export interface OfflineRecipe extends DbRecipe {
   _offlineCreated?: boolean;
   _offlineModified?: boolean;
   _localUpdatedAt?: string;
+  // Server copy the local edits started from (base of the three-way merge)
+  _base?: RecipeSnapshot;
+  // Fields waiting for the user to pick a version
+  _conflicts?: RecipeFieldConflict[];
+}
+
+/**
+ * Offline shopping list - same as DbShoppingList but with offline metadata
+ */
+export interface OfflineShoppingList extends DbShoppingList {
+  _offlineModified?: boolean;
+  _localUpdatedAt?: string;
+}
+
+/**
+ * Offline meal plan entry - same as DbMealPlanEntry but with offline metadata
+ */
+export interface OfflineMealPlanEntry extends DbMealPlanEntry {
+  _offlineModified?: boolean;
+  _localUpdatedAt?: string;
+}
+
+/**
+ * Offline pantry item - same as DbPantryItem but with offline metadata
+ */
+export interface OfflinePantryItem extends DbPantryItem {
+  _offlineModified?: boolean;
+  _localUpdatedAt?: string;
+}
+
+/**
+ * Offline collection - same as DbCollection but with offline metadata
+ */
+export interface OfflineCollection extends DbCollection {
+  _offlineModified?: boolean;
+  _localUpdatedAt?: string;
 }
 
 /**
@@ -21,18 +94,60 @@ export interface OfflineRecipe extends DbRecipe {
  */
 export type SyncOperationType = 'create' | 'update' | 'delete';
 
+/**
+ * Kinds of rows the sync queue can hold
+ */
+export type SyncEntityType = 'recipe' | 'shopping-list' | 'meal-plan' | 'pantry' | 'collection';
+
 /**
  * Sync operation queued for later execution
  */
 export interface SyncOperation {
   id?: number;
   operation: SyncOperationType;
+  /** Entity the operation applies to (missing on older rows = recipe) */
+  entity?: SyncEntityType;
+  /** ID of the row being synced (recipe ID for recipe operations) */
   recipeId: string;
   userId: string;
   data?: Partial<OfflineRecipe>;
   createdAt: string;
   retryCount: number;
   lastError?: string;
+  /** Earliest time to retry after a failure (backoff) */
+  nextAttemptAt?: string;
+}
+
+/**
+ * Sync operation that kept failing, kept until the user retries or discards it
+ */
+export interface DeadSyncOperation extends Omit<SyncOperation, 'nextAttemptAt'> {
+  failedAt: string;
+}
+
+/**
+ * Where the last incremental recipe pull stopped, per user
+ */
+export interface SyncCheckpoint {
+  userId: string;
+  /** updated_at and id of the last cloud row applied */
+  updatedAt: string;
+  lastId: string;
+  /** Last time every recipe was pulled (catches rows removed outright) */
+  fullSyncAt: string;
+}
+
+/**
+ * A recipe saved by a guest, in the same shape services/favorites keeps in
+ * localStorage. Guests never sync, so these carry no sync metadata.
+ */
+export interface GuestRecipe extends Recipe {
+  id: string;
+  savedAt: string;
+  lastViewedAt: string;
+  notes?: string;
+  userTags: string[];
+  lastScaledMultiplier?: number;
 }
 
 /**
@@ -41,6 +156,12 @@ export interface SyncOperation {
 export interface SyncStatus {
   lastSyncAt: string | null;
   pendingOperations: number;
+  /** Recipes with edits that couldn't be merged automatically */
+  unresolvedConflicts: number;
+  /** Operations that gave up retrying and wait in the dead-letter table */
+  failedOperations: number;
+  /** When the next backed-off operation is due, if any */
+  nextRetryAt: string | null;
   isSyncing: boolean;
   lastError: string | null;
 }
@@ -51,6 +172,13 @@ export interface SyncStatus {
 class RecipeJournalDB extends Dexie {
   recipes!: Table<OfflineRecipe, string>;
   syncQueue!: Table<SyncOperation, number>;
+  shoppingLists!: Table<OfflineShoppingList, string>;
+  mealPlanEntries!: Table<OfflineMealPlanEntry, string>;
+  pantryItems!: Table<OfflinePantryItem, string>;
+  collections!: Table<OfflineCollection, string>;
+  deadLetters!: Table<DeadSyncOperation, number>;
+  syncCheckpoints!: Table<SyncCheckpoint, string>;
+  guestRecipes!: Table<GuestRecipe, string>;
 
   constructor() {
     super('RecipeJournalOffline');
@@ -67,6 +195,76 @@ class RecipeJournalDB extends Dexie {
       recipes: 'id, user_id, title, *tags, updated_at, is_deleted',
       syncQueue: '++id, [userId+recipeId], operation, userId, recipeId, createdAt',
     });
+
+    // Add shopping lists
+    this.version(3).stores({
+      recipes: 'id, user_id, title, *tags, updated_at, is_deleted',
+      syncQueue: '++id, [userId+recipeId], operation, userId, recipeId, createdAt',
+      shoppingLists: 'id, user_id, updated_at, is_deleted',
+    });
+
+    // Add meal plan entries
+    this.version(4).stores({
+      recipes: 'id, user_id, title, *tags, updated_at, is_deleted',
+      syncQueue: '++id, [userId+recipeId], operation, userId, recipeId, createdAt',
+      shoppingLists: 'id, user_id, updated_at, is_deleted',
+      mealPlanEntries: 'id, user_id, date, updated_at, is_deleted',
+    });
+
+    // Add pantry items
+    this.version(5).stores({
+      recipes: 'id, user_id, title, *tags, updated_at, is_deleted',
+      syncQueue: '++id, [userId+recipeId], operation, userId, recipeId, createdAt',
+      shoppingLists: 'id, user_id, updated_at, is_deleted',
+      mealPlanEntries: 'id, user_id, date, updated_at, is_deleted',
+      pantryItems: 'id, user_id, key, updated_at, is_deleted',
+    });
+
+    // Add collections
+    this.version(6).stores({
+      recipes: 'id, user_id, title, *tags, updated_at, is_deleted',
+      syncQueue: '++id, [userId+recipeId], operation, userId, recipeId, createdAt',
+      shoppingLists: 'id, user_id, updated_at, is_deleted',
+      mealPlanEntries: 'id, user_id, date, updated_at, is_deleted',
+      pantryItems: 'id, user_id, key, updated_at, is_deleted',
+      collections: 'id, user_id, position, *recipe_ids, updated_at, is_deleted',
+    });
+
+    // Add dead-letter table for operations that ran out of retries
+    this.version(7).stores({
+      recipes: 'id, user_id, title, *tags, updated_at, is_deleted',
+      syncQueue: '++id, [userId+recipeId], operation, userId, recipeId, createdAt',
+      shoppingLists: 'id, user_id, updated_at, is_deleted',
+      mealPlanEntries: 'id, user_id, date, updated_at, is_deleted',
+      pantryItems: 'id, user_id, key, updated_at, is_deleted',
+      collections: 'id, user_id, position, *recipe_ids, updated_at, is_deleted',
+      deadLetters: '++id, userId, failedAt',
+    });
+
+    // Add per-user checkpoints for incremental recipe pulls
+    this.version(8).stores({
+      recipes: 'id, user_id, title, *tags, updated_at, is_deleted',
+      syncQueue: '++id, [userId+recipeId], operation, userId, recipeId, createdAt',
+      shoppingLists: 'id, user_id, updated_at, is_deleted',
+      mealPlanEntries: 'id, user_id, date, updated_at, is_deleted',
+      pantryItems: 'id, user_id, key, updated_at, is_deleted',
+      collections: 'id, user_id, position, *recipe_ids, updated_at, is_deleted',
+      deadLetters: '++id, userId, failedAt',
+      syncCheckpoints: 'userId',
+    });
+
+    // Add guest favorites, moved out of localStorage
+    this.version(9).stores({
+      recipes: 'id, user_id, title, *tags, updated_at, is_deleted',
+      syncQueue: '++id, [userId+recipeId], operation, userId, recipeId, createdAt',
+      shoppingLists: 'id, user_id, updated_at, is_deleted',
+      mealPlanEntries: 'id, user_id, date, updated_at, is_deleted',
+      pantryItems: 'id, user_id, key, updated_at, is_deleted',
+      collections: 'id, user_id, position, *recipe_ids, updated_at, is_deleted',
+      deadLetters: '++id, userId, failedAt',
+      syncCheckpoints: 'userId',
+      guestRecipes: 'id, source.url, savedAt',
+    });
   }
 }
 
@@ -102,13 +300,23 @@ export function isIndexedDBAvailable(): boolean {
 }
 
 /**
- * Clear all offline data (for logout or reset)
+ * Clear all offline data (for logout or reset). Guest favorites are kept,
+ * as they were when they lived in localStorage.
  */
 export async function clearOfflineData(): Promise<void> {
   if (!isIndexedDBAvailable()) return;
 
   const db = getOfflineDb();
-  await Promise.all([db.recipes.clear(), db.syncQueue.clear()]);
+  await Promise.all([
+    db.recipes.clear(),
+    db.syncQueue.clear(),
+    db.shoppingLists.clear(),
+    db.mealPlanEntries.clear(),
+    db.pantryItems.clear(),
+    db.collections.clear(),
+    db.deadLetters.clear(),
+    db.syncCheckpoints.clear(),
+  ]);
 }
 
 /**
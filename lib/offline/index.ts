@@ -2,16 +2,22 @@
  * Offline module exports
  */
 
-export {
-  getOfflineDb,
-  isIndexedDBAvailable,
-  clearOfflineData,
-  getOfflineStats,
-} from './database';
+export { getOfflineDb, isIndexedDBAvailable, clearOfflineData, getOfflineStats } from './database';
 
 export type {
   OfflineRecipe,
+  MergeableRecipeField,
+  RecipeSnapshot,
+  RecipeFieldConflict,
+  OfflineShoppingList,
+  OfflineMealPlanEntry,
+  OfflinePantryItem,
+  OfflineCollection,
   SyncOperation,
+  DeadSyncOperation,
+  SyncCheckpoint,
+  GuestRecipe,
   SyncOperationType,
+  SyncEntityType,
   SyncStatus,
 } from './database';
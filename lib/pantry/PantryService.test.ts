@@ -0,0 +1,158 @@
+import { PantryService, normalizePantryUnit, pantryService } from './PantryService';
+import { PantryItem, ScaledIngredient } from '@/types';
+import { ingredientParser } from '@/lib/ingredient';
+import { scalingService } from '@/lib/scaling';
+import { shoppingListService } from '@/lib/shopping';
+
+describe('PantryService', () => {
+  let service: PantryService;
+
+  beforeEach(() => {
+    service = new PantryService();
+  });
+
+  const scaled = (line: string, multiplier = 1): ScaledIngredient =>
+    scalingService.scaleIngredientForDisplay(ingredientParser.parseIngredient(line), multiplier);
+
+  const pantry = (...inputs: [string, number | null, string | null][]): PantryItem[] =>
+    inputs.map(([name, quantity, unit]) => pantryService.createItem({ name, quantity, unit }));
+
+  describe('normalizePantryUnit', () => {
+    it('normalizes names and abbreviations through getUnit', () => {
+      expect(normalizePantryUnit('Tbsp')).toBe('tablespoon');
+      expect(normalizePantryUnit('cups')).toBe('cup');
+      expect(normalizePantryUnit('fl oz')).toBe('fluidOunce');
+      expect(normalizePantryUnit('')).toBeNull();
+    });
+
+    it('rejects unknown units', () => {
+      expect(() => normalizePantryUnit('handfuls')).toThrow('Unknown unit "handfuls"');
+    });
+  });
+
+  describe('createItem', () => {
+    it('normalizes the name and unit', () => {
+      expect(service.createItem({ name: ' Eggs ', quantity: 6 })).toMatchObject({
+        name: 'Eggs',
+        key: 'egg',
+        quantity: 6,
+        unit: null,
+      });
+      expect(service.createItem({ name: 'Flour', quantity: 2, unit: 'kg' }).unit).toBe('kilogram');
+    });
+
+    it('validates input', () => {
+      expect(() => service.createItem({ name: ' ' })).toThrow('Pantry items need a name');
+      expect(() => service.createItem({ name: 'Milk', quantity: -1 })).toThrow();
+    });
+  });
+
+  describe('findItem', () => {
+    it('prefers exact matches, then the longest contained name', () => {
+      const items = pantry(['flour', 1, 'kg'], ['bread flour', 1, 'kg'], ['butter', 1, 'cup']);
+
+      expect(service.findItem('bread flour', items)?.name).toBe('bread flour');
+      expect(service.findItem('all-purpose flour', items)?.name).toBe('flour');
+      expect(service.findItem('unsalted butter', items)?.name).toBe('butter');
+      expect(service.findItem('buttermilk', items)).toBeUndefined();
+    });
+
+    it("doesn't match a pantry item that only contains the ingredient's name", () => {
+      const items = pantry(['peanut butter', 1, 'cup']);
+
+      expect(service.findItem('butter', items)).toBeUndefined();
+    });
+  });
+
+  describe('checkIngredients', () => {
+    const items = pantry(
+      ['flour', 500, 'g'],
+      ['milk', 1, 'cup'],
+      ['eggs', 2, null],
+      ['salt', null, null]
+    );
+
+    it('accounts for the current scale', () => {
+      const ingredients = [scaled('2 cups flour'), scaled('1 cup milk'), scaled('2 eggs')];
+
+      expect(service.checkIngredients(ingredients, items).map((c) => c.status)).toEqual([
+        'covered',
+        'covered',
+        'covered',
+      ]);
+
+      const doubled = ingredients.map((i) => scaled(i.original, 3));
+      const coverage = service.checkIngredients(doubled, items);
+      expect(coverage.map((c) => c.status)).toEqual(['short', 'short', 'short']);
+      expect(coverage[2]).toMatchObject({ needed: 6, available: 2 });
+    });
+
+    it('converts between volume and weight by density', () => {
+      const [flour] = service.checkIngredients([scaled('4 cups flour')], items);
+
+      // 4 cups of flour is about 480 g
+      expect(flour.status).toBe('covered');
+      expect(flour.available).toBeCloseTo(4.17, 1);
+    });
+
+    it('reports missing and incomparable ingredients', () => {
+      const coverage = service.checkIngredients(
+        [scaled('1 tsp vanilla extract'), scaled('Salt to taste'), scaled('1 cup eggs')],
+        items
+      );
+
+      expect(coverage.map((c) => c.status)).toEqual(['missing', 'covered', 'unknown']);
+    });
+  });
+
+  describe('consume', () => {
+    it('decrements items and reports the ones that ran out', () => {
+      const items = pantry(['flour', 1, 'kg'], ['milk', 1, 'cup'], ['salt', null, null]);
+      const result = service.consume(
+        [scaled('2 cups flour'), scaled('1 cup milk'), scaled('1 tsp salt')],
+        items
+      );
+
+      expect(result.updated).toHaveLength(1);
+      expect(result.updated[0].name).toBe('flour');
+      expect(result.updated[0].quantity).toBeCloseTo(0.76, 2);
+      expect(result.depleted).toEqual([items[1].id]);
+    });
+
+    it('sums lines that use the same item', () => {
+      const items = pantry(['sugar', 2, 'cup']);
+      const result = service.consume([scaled('1/2 cup sugar'), scaled('1/4 cup sugar', 2)], items);
+
+      expect(result.updated[0].quantity).toBeCloseTo(1);
+    });
+  });
+
+  describe('checkOffCovered', () => {
+    it('checks off shopping list items already on hand', () => {
+      const list = shoppingListService.createList('Test', [
+        {
+          recipe: {
+            title: 'Pancakes',
+            servings: { amount: 4, originalText: '4' },
+            ingredients: ['1 cup milk', '2 cups flour'].map((l) =>
+              ingredientParser.parseIngredient(l)
+            ),
+            instructions: [],
+            source: { url: 'u', domain: 'd', scrapedAt: new Date(), scrapeMethod: 'schema-org' },
+          },
+        },
+      ]);
+
+      const checked = service.checkOffCovered(list, pantry(['milk', 1, 'quart']));
+
+      expect(checked.items.map((i) => [i.name, i.checked])).toEqual([
+        ['milk', true],
+        ['flour', false],
+      ]);
+    });
+  });
+
+  it('formats amounts like the ingredient list', () => {
+    expect(service.formatAmount(1.5, 'cup')).toBe('1 1/2 cups');
+  });
+});
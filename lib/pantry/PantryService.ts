@@ -0,0 +1,266 @@
+/**
+ * Pantry service
+ *
+ * Tracks ingredients on hand, checks how well they cover a (scaled)
+ * recipe or shopping list, and takes cooked amounts back out.
+ */
+
+import { v4 as uuidv4 } from 'uuid';
+import { ErrorCode, PantryCoverage, PantryItem, ScaledIngredient, ShoppingList } from '@/types';
+import { UNITS, convertUnitWithDensity, getUnit } from '@/constants';
+import { createError } from '@/lib/utils';
+import { normalizeIngredientName } from '@/lib/shopping';
+import { scalingService } from '@/lib/scaling';
+
+/**
+ * What to put in the pantry
+ */
+export interface PantryItemInput {
+  name: string;
+  /** Null (or omitted) to track "some" without an amount */
+  quantity?: number | null;
+  /** Any unit name or abbreviation that getUnit understands */
+  unit?: string | null;
+}
+
+/**
+ * Pantry changes after cooking
+ */
+export interface PantryConsumeResult {
+  /** Items with their new, lower quantity */
+  updated: PantryItem[];
+  /** IDs of items that ran out */
+  depleted: string[];
+}
+
+// Treat floating point leftovers (e.g., 1e-12 cups) as nothing
+const EPSILON = 1e-6;
+
+function containsWords(text: string, words: string): boolean {
+  return ` ${text} `.includes(` ${words} `);
+}
+
+/**
+ * Normalize a unit to the key ParsedIngredient uses (e.g., "Tbsp" -> "tablespoon").
+ * Returns null for no unit and throws for units getUnit doesn't know.
+ */
+export function normalizePantryUnit(unit: string | null | undefined): string | null {
+  if (!unit?.trim()) return null;
+
+  const definition = getUnit(unit);
+  const key = definition && Object.keys(UNITS).find((k) => UNITS[k] === definition);
+  if (!key) {
+    throw createError(ErrorCode.VALIDATION_ERROR, `Unknown unit "${unit}"`, { unit });
+  }
+  return key;
+}
+
+export class PantryService {
+  /**
+   * Create a pantry item
+   */
+  createItem(input: PantryItemInput): PantryItem {
+    const name = input.name.trim();
+    if (!name) {
+      throw createError(ErrorCode.VALIDATION_ERROR, 'Pantry items need a name');
+    }
+
+    const now = new Date().toISOString();
+    return {
+      id: uuidv4(),
+      name,
+      key: normalizeIngredientName(name),
+      ...this.normalizeAmount(input.quantity ?? null, input.unit ?? null),
+      createdAt: now,
+      updatedAt: now,
+    };
+  }
+
+  /**
+   * Change the amount on hand
+   */
+  updateAmount(item: PantryItem, quantity: number | null, unit: string | null): PantryItem {
+    return {
+      ...item,
+      ...this.normalizeAmount(quantity, unit),
+      updatedAt: new Date().toISOString(),
+    };
+  }
+
+  /**
+   * Find the pantry item for an ingredient name.
+   * An exact match wins; otherwise the longest pantry name contained in the
+   * ingredient (so "all-purpose flour" finds "flour", but "butter" doesn't
+   * find "peanut butter").
+   */
+  findItem(name: string, items: PantryItem[]): PantryItem | undefined {
+    const key = normalizeIngredientName(name);
+    if (!key) return undefined;
+
+    let best: PantryItem | undefined;
+    for (const item of items) {
+      if (item.key === key) return item;
+      if (containsWords(key, item.key) && (!best || item.key.length > best.key.length)) {
+        best = item;
+      }
+    }
+    return best;
+  }
+
+  /**
+   * Check how well the pantry covers each scaled ingredient
+   */
+  checkIngredients(ingredients: ScaledIngredient[], items: PantryItem[]): PantryCoverage[] {
+    return ingredients.map((ingredient) => ({
+      ingredientId: ingredient.id,
+      ...this.checkAmount(
+        ingredient.ingredient,
+        this.neededAmount(ingredient),
+        ingredient.scaledQuantity ? ingredient.scaledUnit : null,
+        items
+      ),
+    }));
+  }
+
+  /**
+   * Check an amount of a named ingredient against the pantry
+   */
+  checkAmount(
+    name: string,
+    needed: number | null,
+    unit: string | null,
+    items: PantryItem[]
+  ): Omit<PantryCoverage, 'ingredientId'> {
+    const item = this.findItem(name, items);
+    if (!item) {
+      return { status: 'missing', needed, available: null, unit };
+    }
+
+    const base = { itemId: item.id, itemName: item.name, needed, unit };
+
+    if (item.quantity === 0) {
+      return { ...base, status: 'short', available: 0 };
+    }
+
+    // "Salt, to taste" or "some flour" on hand
+    if (needed === null || item.quantity === null) {
+      return { ...base, status: 'covered', available: null };
+    }
+
+    const available = this.convert(item.quantity, item.unit, unit, name);
+    if (available === null) {
+      return { ...base, status: 'unknown', available: null };
+    }
+
+    return {
+      ...base,
+      status: available + EPSILON >= needed ? 'covered' : 'short',
+      available,
+    };
+  }
+
+  /**
+   * Take the ingredients of a cooked recipe out of the pantry.
+   * Lines whose amounts can't be converted to the item's unit are left alone.
+   */
+  consume(ingredients: ScaledIngredient[], items: PantryItem[]): PantryConsumeResult {
+    const remaining = new Map(items.map((item) => [item.id, item]));
+    const changed = new Set<string>();
+
+    for (const ingredient of ingredients) {
+      const needed = this.neededAmount(ingredient);
+      const item = this.findItem(ingredient.ingredient, Array.from(remaining.values()));
+      if (!item || needed === null || item.quantity === null) continue;
+
+      const used = this.convert(needed, ingredient.scaledUnit, item.unit, ingredient.ingredient);
+      if (used === null) continue;
+
+      remaining.set(item.id, { ...item, quantity: Math.max(0, item.quantity - used) });
+      changed.add(item.id);
+    }
+
+    const now = new Date().toISOString();
+    const result: PantryConsumeResult = { updated: [], depleted: [] };
+    for (const id of changed) {
+      const item = remaining.get(id)!;
+      if ((item.quantity ?? 0) <= EPSILON) {
+        result.depleted.push(id);
+      } else {
+        result.updated.push({ ...item, updatedAt: now });
+      }
+    }
+    return result;
+  }
+
+  /**
+   * Check off shopping list items the pantry already covers
+   */
+  checkOffCovered(list: ShoppingList, items: PantryItem[]): ShoppingList {
+    return {
+      ...list,
+      items: list.items.map((item) =>
+        !item.checked &&
+        this.checkAmount(item.name, item.quantity, item.unit, items).status === 'covered'
+          ? { ...item, checked: true }
+          : item
+      ),
+      updatedAt: new Date().toISOString(),
+    };
+  }
+
+  /**
+   * Format an amount for display (e.g., "1 1/2 cups")
+   */
+  formatAmount(quantity: number, unit: string | null): string {
+    return scalingService
+      .scaleIngredientForDisplay(
+        {
+          id: 'pantry-amount',
+          original: '',
+          quantity: { type: 'single', value: quantity, displayValue: String(quantity) },
+          unit,
+          ingredient: '',
+          parseConfidence: 1,
+        },
+        1
+      )
+      .displayText.trim();
+  }
+
+  /**
+   * Amount a scaled line calls for (the top of a range)
+   */
+  private neededAmount(ingredient: ScaledIngredient): number | null {
+    if (!ingredient.scaledQuantity) return null;
+    return ingredient.scaledQuantity.valueTo ?? ingredient.scaledQuantity.value;
+  }
+
+  private normalizeAmount(
+    quantity: number | null,
+    unit: string | null
+  ): Pick<PantryItem, 'quantity' | 'unit'> {
+    if (quantity !== null && (!Number.isFinite(quantity) || quantity < 0)) {
+      throw createError(ErrorCode.VALIDATION_ERROR, 'Quantity must be zero or more', {
+        quantity,
+      });
+    }
+    return { quantity, unit: quantity === null ? null : normalizePantryUnit(unit) };
+  }
+
+  /**
+   * Convert between units, crossing volume and weight by density when needed
+   */
+  private convert(
+    value: number,
+    fromUnit: string | null,
+    toUnit: string | null,
+    name: string
+  ): number | null {
+    if (fromUnit === toUnit) return value;
+    if (!fromUnit || !toUnit) return null;
+    return convertUnitWithDensity(value, fromUnit, toUnit, name);
+  }
+}
+
+// Export singleton instance
+export const pantryService = new PantryService();
@@ -0,0 +1,5 @@
+/**
+ * Pantry exports
+ */
+
+export * from './PantryService';
@@ -0,0 +1,106 @@
+/**
+ * @jest-environment node
+ */
+
+import { Recipe, UnitSystem } from '@/types';
+import { ingredientParser } from '@/lib/ingredient';
+import { scalingService } from '@/lib/scaling';
+import { createInstruction } from '@/lib/scraper/utils/instructions';
+import { createManualSource } from '@/lib/scraper/TextRecipeParser';
+import { PrintService } from './PrintService';
+
+describe('PrintService', () => {
+  const service = new PrintService();
+
+  const recipe: Recipe = {
+    title: 'Lemon Tart',
+    source: {
+      url: 'https://www.example.com/lemon-tart',
+      domain: 'example.com',
+      scrapedAt: new Date('2024-03-01T10:00:00Z'),
+      scrapeMethod: 'schema-org',
+    },
+    prepTime: 30,
+    cookTime: 75,
+    servings: { amount: 8, unit: 'slices', originalText: '8 slices' },
+    ingredients: [
+      { ...ingredientParser.parseIngredient('1 cup flour'), section: 'For the crust' },
+      { ...ingredientParser.parseIngredient('1/2 cup butter'), section: 'For the crust' },
+      { ...ingredientParser.parseIngredient('3 lemons'), section: 'For the filling' },
+    ],
+    instructions: [
+      { ...createInstruction('Press the dough into the pan.', 1), section: 'For the crust' },
+      { ...createInstruction('Bake for 15 minutes.', 2), section: 'For the crust' },
+      { ...createInstruction('Whisk the lemon juice and eggs.', 3), section: 'For the filling' },
+    ],
+  };
+
+  it('lays out a scaled recipe', async () => {
+    const scaled = await scalingService.scaleRecipe(recipe, { multiplier: 2 });
+
+    const printable = service.buildPrintable(scaled);
+
+    expect(printable.servings).toBe('16 slices (scaled 2x)');
+    expect(printable.times).toBe('Prep 30 mins · Cook 1 hr 15 mins');
+    expect(printable.ingredients).toEqual([
+      { title: 'For the crust', lines: ['2 cups flour', '1 cup butter'] },
+      { title: 'For the filling', lines: ['6 lemons'] },
+    ]);
+    expect(printable.instructions.map((s) => [s.title, s.lines.length])).toEqual([
+      ['For the crust', 2],
+      ['For the filling', 1],
+    ]);
+    expect(printable.tips).toEqual(scaled.scalingTips ?? []);
+  });
+
+  it('converts amounts to the chosen unit system', async () => {
+    const scaled = await scalingService.scaleRecipe(recipe, { multiplier: 1 });
+
+    const printable = service.buildPrintable(scaled, { unitSystem: UnitSystem.METRIC });
+
+    const lines = printable.ingredients.flatMap((s) => s.lines);
+    expect(lines[0]).not.toMatch(/cup/);
+    expect(lines[2]).toBe('3 lemons');
+  });
+
+  it('prints AI-adjusted ingredients and tips when given', async () => {
+    const scaled = await scalingService.scaleRecipe(recipe, { multiplier: 2 });
+    const ingredients = scaled.scaledIngredients.map((ingredient) => ({
+      ...ingredient,
+      displayText: `${ingredient.displayText}!`,
+    }));
+
+    const printable = service.buildPrintable(scaled, {
+      ingredients,
+      tips: ['Check the crust at 12 minutes'],
+      isAIPowered: true,
+      cookingTimeAdjustment: 'About 5 minutes longer',
+    });
+
+    expect(printable.ingredients[0].lines[0]).toBe('2 cups flour!');
+    expect(printable).toMatchObject({
+      tips: ['Check the crust at 12 minutes'],
+      isAIPowered: true,
+      cookingTimeAdjustment: 'About 5 minutes longer',
+    });
+  });
+
+  it('links back to the source with a QR code', async () => {
+    const scaled = await scalingService.scaleRecipe(recipe, { multiplier: 1 });
+
+    const { source, servings } = service.buildPrintable(scaled);
+
+    expect(servings).toBe('8 slices');
+    expect(source).toMatchObject({ url: recipe.source.url, domain: 'example.com' });
+    expect(source?.qrCode.size).toBeGreaterThanOrEqual(21);
+  });
+
+  it('leaves the QR code off manual recipes', async () => {
+    const scaled = await scalingService.scaleRecipe(
+      { ...recipe, source: createManualSource() },
+      { multiplier: 1 }
+    );
+
+    expect(service.buildPrintable(scaled).source).toBeUndefined();
+  });
+});
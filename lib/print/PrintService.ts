@@ -0,0 +1,115 @@
+/**
+ * Print service
+ *
+ * Lays out a scaled recipe for printing: servings, ingredients in the
+ * chosen unit system, numbered steps, tips and a QR code linking back to
+ * the recipe page. Everything is worked out locally, so printing works
+ * offline.
+ */
+
+import {
+  PrintableRecipe,
+  PrintOptions,
+  PrintSection,
+  ScaledIngredient,
+  ScaledRecipe,
+  UnitSystem,
+} from '@/types';
+import { scalingService } from '@/lib/scaling';
+import { formatMinutes } from '@/lib/interchange/utils';
+import { encodeQrCode } from './QrCode';
+
+/**
+ * Group lines into sections, starting a new one whenever the section changes
+ */
+function toSections(items: { text: string; section?: string }[]): PrintSection[] {
+  const sections: PrintSection[] = [];
+  items.forEach((item, index) => {
+    if (index === 0 || item.section !== items[index - 1].section) {
+      sections.push({ title: item.section, lines: [] });
+    }
+    sections[sections.length - 1].lines.push(item.text);
+  });
+  return sections;
+}
+
+function isWebLink(url: string): boolean {
+  try {
+    const { protocol } = new URL(url);
+    return protocol === 'http:' || protocol === 'https:';
+  } catch {
+    return false;
+  }
+}
+
+export class PrintService {
+  /**
+   * Lay out a scaled recipe for printing
+   */
+  buildPrintable(recipe: ScaledRecipe, options: PrintOptions = {}): PrintableRecipe {
+    const { scaledServings, multiplier } = recipe.scaling;
+    const ingredients = (options.ingredients ?? recipe.scaledIngredients).map((ingredient) =>
+      options.unitSystem ? this.convertIngredient(ingredient, options.unitSystem) : ingredient
+    );
+
+    const times = [
+      recipe.prepTime && `Prep ${formatMinutes(recipe.prepTime)}`,
+      recipe.cookTime && `Cook ${formatMinutes(recipe.cookTime)}`,
+      recipe.totalTime && `Total ${formatMinutes(recipe.totalTime)}`,
+    ].filter(Boolean);
+
+    const { source } = recipe;
+    const linked = source.scrapeMethod !== 'manual' && isWebLink(source.url);
+
+    return {
+      title: recipe.title,
+      servings: `${scaledServings.amount} ${scaledServings.unit || 'servings'}${
+        multiplier !== 1 ? ` (scaled ${multiplier}x)` : ''
+      }`,
+      times: times.length > 0 ? times.join(' · ') : undefined,
+      ingredients: toSections(
+        ingredients.map((ingredient) => ({
+          text: ingredient.displayText,
+          section: ingredient.section,
+        }))
+      ),
+      instructions: toSections(recipe.scaledInstructions),
+      tips: options.tips ?? recipe.scalingTips ?? [],
+      isAIPowered: !!options.isAIPowered,
+      cookingTimeAdjustment: options.cookingTimeAdjustment,
+      source: linked
+        ? { url: source.url, domain: source.domain, qrCode: encodeQrCode(source.url) }
+        : undefined,
+    };
+  }
+
+  /**
+   * Convert an already scaled ingredient to another unit system. Starting
+   * from the scaled amount keeps any AI adjustments.
+   */
+  private convertIngredient(
+    ingredient: ScaledIngredient,
+    unitSystem: UnitSystem
+  ): ScaledIngredient {
+    const { scaledQuantity, scaledUnit } = ingredient;
+    if (!scaledQuantity || !scaledUnit) return ingredient;
+
+    return scalingService.scaleIngredientForDisplay(
+      {
+        ...ingredient,
+        unit: scaledUnit,
+        quantity: {
+          type: scaledQuantity.valueTo !== undefined ? 'range' : 'single',
+          value: scaledQuantity.value,
+          valueTo: scaledQuantity.valueTo,
+          displayValue: scaledQuantity.displayValue,
+        },
+      },
+      1,
+      unitSystem
+    );
+  }
+}
+
+// Export singleton instance
+export const printService = new PrintService();
@@ -0,0 +1,86 @@
+/**
+ * @jest-environment node
+ */
+
+import { ErrorCode, QrCode } from '@/types';
+import { encodeQrCode, qrCodeToSvgPath, reedSolomonRemainder } from './QrCode';
+
+describe('QrCode', () => {
+  const formatBits = ({ modules, size }: QrCode) => {
+    let first = 0;
+    let second = 0;
+    const around: [number, number][] = [
+      ...[0, 1, 2, 3, 4, 5, 7, 8].map((y): [number, number] => [8, y]),
+      ...[7, 5, 4, 3, 2, 1, 0].map((x): [number, number] => [x, 8]),
+    ];
+    around.forEach(([x, y], i) => {
+      if (modules[y][x]) first |= 1 << i;
+    });
+    for (let i = 0; i < 15; i++) {
+      const [x, y] = i < 8 ? [size - 1 - i, 8] : [8, size - 15 + i];
+      if (modules[y][x]) second |= 1 << i;
+    }
+    return { first, second };
+  };
+
+  it('computes error correction codewords', () => {
+    // "HELLO WORLD" at 1-M, from the worked example in the QR code tutorial at thonky.com
+    const data = [32, 91, 11, 120, 209, 114, 220, 77, 67, 64, 236, 17, 236, 17, 236, 17];
+
+    expect(reedSolomonRemainder(data, 10)).toEqual([196, 35, 39, 119, 235, 215, 231, 226, 93, 23]);
+  });
+
+  it('picks the smallest version that fits', () => {
+    expect(encodeQrCode('a'.repeat(14)).size).toBe(21);
+    expect(encodeQrCode('a'.repeat(15)).size).toBe(25);
+    expect(encodeQrCode('https://www.example.com/recipes/lemon-tart').size).toBe(29);
+    expect(encodeQrCode('a'.repeat(2331)).size).toBe(177);
+  });
+
+  it('draws finder patterns in three corners', () => {
+    const { modules, size } = encodeQrCode('https://example.com');
+    const finder = (left: number, top: number) =>
+      modules.slice(top, top + 7).map((row) =>
+        row
+          .slice(left, left + 7)
+          .map(Number)
+          .join('')
+      );
+    const expected = ['1111111', '1000001', '1011101', '1011101', '1011101', '1000001', '1111111'];
+
+    expect(finder(0, 0)).toEqual(expected);
+    expect(finder(size - 7, 0)).toEqual(expected);
+    expect(finder(0, size - 7)).toEqual(expected);
+    expect(modules[size - 8][8]).toBe(true);
+  });
+
+  it('writes matching format information for level M', () => {
+    const qrCode = encodeQrCode('https://example.com/pancakes');
+    const { first, second } = formatBits(qrCode);
+
+    expect(first).toBe(second);
+    const data = (first ^ 0x5412) >> 10;
+    expect(data >> 3).toBe(0b00);
+    // The BCH remainder of valid format information is zero
+    let value = first ^ 0x5412;
+    for (let bit = 14; bit >= 10; bit--) {
+      if (value & (1 << bit)) value ^= 0x537 << (bit - 10);
+    }
+    expect(value).toBe(0);
+  });
+
+  it('rejects text that does not fit', () => {
+    expect(() => encodeQrCode('a'.repeat(2332))).toThrow(
+      expect.objectContaining({ code: ErrorCode.VALIDATION_ERROR })
+    );
+  });
+
+  it('draws one square per dark module', () => {
+    const qrCode = encodeQrCode('hi');
+    const dark = qrCode.modules.flat().filter(Boolean).length;
+
+    const path = qrCodeToSvgPath(qrCode);
+    expect(path.match(/M/g)).toHaveLength(dark);
+    expect(path.startsWith('M4,4h1v1h-1z')).toBe(true);
+  });
+});
@@ -0,0 +1,6 @@
+/**
+ * Print exports
+ */
+
+export * from './PrintService';
+export * from './QrCode';
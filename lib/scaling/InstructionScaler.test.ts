@@ -0,0 +1,122 @@
+import { InstructionScaler, convertTemperature } from './InstructionScaler';
+import { IngredientQuantity, UnitSystem } from '@/types';
+
+describe('InstructionScaler', () => {
+  let scaler: InstructionScaler;
+
+  beforeEach(() => {
+    scaler = new InstructionScaler();
+  });
+
+  // Formats like the ingredient list would, without rounding
+  const scaleBy =
+    (multiplier: number) =>
+    (quantity: IngredientQuantity, unit: string): string => {
+      const from = quantity.value * multiplier;
+      const to = quantity.valueTo !== undefined ? `-${quantity.valueTo * multiplier}` : '';
+      return `${from}${to} ${unit}`;
+    };
+
+  const scale = (text: string, multiplier: number, targetUnitSystem?: UnitSystem) =>
+    scaler.scaleInstruction(
+      { step: 1, text },
+      { multiplier, targetUnitSystem, formatQuantity: scaleBy(multiplier) }
+    );
+
+  describe('inline quantities', () => {
+    it('scales fractions, mixed numbers and ranges', () => {
+      expect(scale('Whisk in 1/2 cup milk.', 2).text).toBe('Whisk in 1 cup milk.');
+      expect(scale('Add 1 1/2 tbsp oil.', 2).text).toBe('Add 3 tablespoon oil.');
+      expect(scale('Add 2-3 tablespoons water.', 2).text).toBe('Add 4-6 tablespoon water.');
+    });
+
+    it('ignores numbers without a unit', () => {
+      const result = scale('Bake for 20 minutes, then cut into 12 squares.', 2);
+
+      expect(result.text).toBe('Bake for 20 minutes, then cut into 12 squares.');
+      expect(result.changes).toEqual([]);
+    });
+
+    it('records where each replacement lands in the scaled text', () => {
+      const result = scale('Add 1 cup stock, then 2 cups more.', 3);
+
+      expect(result.text).toBe('Add 3 cup stock, then 6 cup more.');
+      for (const change of result.changes) {
+        expect(result.text.slice(change.start, change.end)).toBe(change.replacement);
+      }
+    });
+  });
+
+  describe('temperatures', () => {
+    it('converts to the target system and rounds to oven settings', () => {
+      expect(convertTemperature({ value: 350, unit: 'F' }, UnitSystem.METRIC)).toEqual({
+        value: 180,
+        unit: 'C',
+      });
+      expect(convertTemperature({ value: 200, unit: 'C' }, UnitSystem.US)).toEqual({
+        value: 400,
+        unit: 'F',
+      });
+      expect(convertTemperature({ value: 350, unit: 'F' }, UnitSystem.US)).toBeNull();
+    });
+
+    it('rewrites every temperature in the step', () => {
+      const result = scale('Roast at 425 degrees F, then lower to 350°F.', 1, UnitSystem.METRIC);
+
+      expect(result.text).toBe('Roast at 220°C, then lower to 180°C.');
+      expect(result.changes.every((c) => c.type === 'temperature')).toBe(true);
+    });
+
+    it('does not mistake counts for temperatures', () => {
+      expect(scale('Makes 12 cookies.', 1, UnitSystem.METRIC).changes).toEqual([]);
+    });
+
+    it('reads a bare C or F as a unit, not a temperature', () => {
+      const result = scale('Stir in 10 c. water.', 1, UnitSystem.METRIC);
+
+      expect(result.changes.map((c) => c.type)).toEqual(['quantity']);
+      expect(scale('Bake at 180 celsius.', 1, UnitSystem.US).text).toBe('Bake at 350°F.');
+    });
+
+    it('leaves temperatures that already give a conversion', () => {
+      const result = scale('Bake at 350°F (175°C) until golden.', 1, UnitSystem.METRIC);
+
+      expect(result.text).toBe('Bake at 350°F (175°C) until golden.');
+      expect(result.changes).toEqual([]);
+    });
+  });
+
+  describe('pan sizes', () => {
+    it('suggests a standard pan when the batch doubles', () => {
+      const result = scale('Pour into a greased 8-inch square pan.', 2);
+
+      expect(result.panSuggestion).toMatchObject({
+        original: '8-inch square',
+        targetArea: 128,
+        areaUnit: 'sq in',
+      });
+      expect(result.panSuggestion?.suggestion).toBe(
+        'Use a 9x13-inch pan instead of the 8-inch square pan'
+      );
+    });
+
+    it('suggests more pans when no single pan fits', () => {
+      const result = scale('Spread in a 9x13-inch baking dish.', 3);
+
+      expect(result.panSuggestion?.suggestion).toBe(
+        'Use 3 9x13-inch pans, or pans totaling about 351 sq in'
+      );
+    });
+
+    it('handles metric pans', () => {
+      const result = scale('Bake in a 20 cm round tin.', 0.5);
+
+      expect(result.panSuggestion).toMatchObject({ areaUnit: 'sq cm', targetArea: 157 });
+    });
+
+    it('ignores sizes that are not pans and unscaled recipes', () => {
+      expect(scale('Cut into 2-inch pieces and put in a pan.', 2).panSuggestion).toBeUndefined();
+      expect(scale('Pour into a 9x13-inch pan.', 1).panSuggestion).toBeUndefined();
+    });
+  });
+});
@@ -0,0 +1,292 @@
+/**
+ * Instruction scaling
+ *
+ * Deterministic pass over instruction text: converts oven temperatures,
+ * rewrites inline quantities ("add 2 cups of the stock") and suggests
+ * pan-size changes based on area.
+ */
+
+import {
+  Instruction,
+  IngredientQuantity,
+  InstructionChange,
+  PanSizeSuggestion,
+  ScaledInstruction,
+  TemperatureInfo,
+  UnitSystem,
+} from '@/types';
+import {
+  UNIT_ABBREVIATION_MAP,
+  UNICODE_FRACTIONS,
+  SQ_CM_PER_SQ_IN,
+  findClosestPan,
+  parseFraction,
+} from '@/constants';
+
+/**
+ * Formats a scaled inline quantity (e.g., "3 cups"). Returns null to leave it alone.
+ */
+export type InlineQuantityFormatter = (quantity: IngredientQuantity, unit: string) => string | null;
+
+export interface InstructionScalingOptions {
+  multiplier: number;
+  targetUnitSystem?: UnitSystem;
+  /** Scales and formats inline quantities the same way as the ingredient list */
+  formatQuantity: InlineQuantityFormatter;
+}
+
+interface PendingChange {
+  type: InstructionChange['type'];
+  index: number;
+  original: string;
+  replacement: string;
+}
+
+const FRACTION_CHARS = Object.keys(UNICODE_FRACTIONS).join('');
+const NUMBER = `(?:\\d+\\s+\\d+\\/\\d+|\\d+\\/\\d+|\\d+(?:\\.\\d+)?[${FRACTION_CHARS}]?|[${FRACTION_CHARS}])`;
+
+// Longest first so "tablespoons" wins over "tablespoon".
+// Single letters other than "g" are too ambiguous in prose.
+const UNIT_WORDS = Array.from(UNIT_ABBREVIATION_MAP.keys())
+  .filter((abbr) => (abbr.length > 1 || abbr === 'g') && !/^(pinch|dash)/.test(abbr))
+  .sort((a, b) => b.length - a.length)
+  .map((abbr) => abbr.replace(/[.*+?^${}()|[\]\\]/g, '\\$&'));
+
+const QUANTITY_PATTERN = new RegExp(
+  `(${NUMBER})(?:\\s*(?:-|–|to)\\s*(${NUMBER}))?\\s*(${UNIT_WORDS.join('|')})(?![a-z])`,
+  'gi'
+);
+
+// A lone "F" or "C" needs a degree sign or "degrees" first, so "10 c. water" stays cups
+const TEMPERATURE =
+  /(\d{2,3})\s*(?:(?:°\s*|degrees?\s*)(fahrenheit|celsius|F|C)|(fahrenheit|celsius))(?![a-z])/
+    .source;
+
+const TEMPERATURE_PATTERN = new RegExp(TEMPERATURE, 'gi');
+
+// "350°F (175°C)" already gives both, so it's left alone
+const CONVERTED_TEMPERATURE_PATTERN = new RegExp(
+  `${TEMPERATURE}\\s*\\(\\s*${TEMPERATURE}\\s*\\)`,
+  'gi'
+);
+
+const PAN_WORDS = /\b(pan|dish|tin|skillet|springform|pie plate|baking sheet)\b/i;
+const PAN_FOLLOWS =
+  /^\s*(?:[a-z-]+\s+){0,2}(pan|dish|tin|skillet|springform|pie plate|baking sheet)\b/i;
+const RECT_PAN_PATTERN =
+  /(\d+(?:\.\d+)?)\s*(?:x|×|by)\s*(\d+(?:\.\d+)?)(?:\s*-?\s*(inch(?:es)?|"|cm|centimet(?:er|re)s?))?/i;
+const ROUND_PAN_PATTERN =
+  /(\d+(?:\.\d+)?)\s*-?\s*(inch(?:es)?|"|cm|centimet(?:er|re)s?)\s*(round|square)?/i;
+
+/**
+ * Round a converted oven temperature to a setting people actually use
+ */
+function roundTemperature(value: number, unit: 'F' | 'C'): number {
+  if (unit === 'F' && value >= 200) return Math.round(value / 25) * 25;
+  if (unit === 'C' && value >= 100) return Math.round(value / 10) * 10;
+  return Math.round(value);
+}
+
+/**
+ * Convert a temperature to the target system, or null if it's already there
+ */
+export function convertTemperature(
+  temperature: Pick<TemperatureInfo, 'value' | 'unit'>,
+  targetUnitSystem?: UnitSystem
+): { value: number; unit: 'F' | 'C' } | null {
+  if (targetUnitSystem === UnitSystem.METRIC && temperature.unit === 'F') {
+    return { value: roundTemperature(((temperature.value - 32) * 5) / 9, 'C'), unit: 'C' };
+  }
+  if (targetUnitSystem === UnitSystem.US && temperature.unit === 'C') {
+    return { value: roundTemperature((temperature.value * 9) / 5 + 32, 'F'), unit: 'F' };
+  }
+  return null;
+}
+
+function toQuantity(from: number, to: number | null): IngredientQuantity {
+  return to === null
+    ? { type: 'single', value: from, displayValue: `${from}` }
+    : { type: 'range', value: from, valueTo: to, displayValue: `${from}-${to}` };
+}
+
+function formatArea(area: number): string {
+  return `${Math.round(area)}`;
+}
+
+export class InstructionScaler {
+  /**
+   * Scale every instruction in a recipe
+   */
+  scaleInstructions(
+    instructions: Instruction[],
+    options: InstructionScalingOptions
+  ): ScaledInstruction[] {
+    return instructions.map((instruction) => this.scaleInstruction(instruction, options));
+  }
+
+  /**
+   * Scale a single instruction
+   */
+  scaleInstruction(
+    instruction: Instruction,
+    options: InstructionScalingOptions
+  ): ScaledInstruction {
+    const pending = [
+      ...this.findTemperatureChanges(instruction.text, options.targetUnitSystem),
+      ...this.findQuantityChanges(instruction.text, options),
+    ].sort((a, b) => a.index - b.index);
+
+    // Apply non-overlapping rewrites left to right, tracking where each lands
+    let text = '';
+    let cursor = 0;
+    const changes: InstructionChange[] = [];
+    for (const change of pending) {
+      if (change.index < cursor) continue;
+      text += instruction.text.slice(cursor, change.index);
+      const start = text.length;
+      text += change.replacement;
+      changes.push({
+        type: change.type,
+        original: change.original,
+        replacement: change.replacement,
+        start,
+        end: text.length,
+      });
+      cursor = change.index + change.original.length;
+    }
+    text += instruction.text.slice(cursor);
+
+    const convertedTemperature = instruction.temperature
+      ? convertTemperature(instruction.temperature, options.targetUnitSystem)
+      : null;
+
+    return {
+      ...instruction,
+      text,
+      temperature:
+        instruction.temperature && convertedTemperature
+          ? { ...convertedTemperature, originalText: instruction.temperature.originalText }
+          : instruction.temperature,
+      originalText: instruction.text,
+      changes,
+      panSuggestion: this.suggestPanSize(instruction.text, options.multiplier),
+    };
+  }
+
+  private findTemperatureChanges(text: string, targetUnitSystem?: UnitSystem): PendingChange[] {
+    const alreadyConverted = Array.from(text.matchAll(CONVERTED_TEMPERATURE_PATTERN), (match) => ({
+      start: match.index ?? 0,
+      end: (match.index ?? 0) + match[0].length,
+    }));
+
+    const changes: PendingChange[] = [];
+    for (const match of Array.from(text.matchAll(TEMPERATURE_PATTERN))) {
+      const index = match.index ?? 0;
+      if (alreadyConverted.some((range) => index >= range.start && index < range.end)) continue;
+
+      const unit = (match[2] ?? match[3]).toUpperCase().startsWith('C') ? 'C' : 'F';
+      const converted = convertTemperature(
+        { value: parseInt(match[1], 10), unit },
+        targetUnitSystem
+      );
+      if (!converted) continue;
+
+      changes.push({
+        type: 'temperature',
+        index,
+        original: match[0],
+        replacement: `${converted.value}°${converted.unit}`,
+      });
+    }
+    return changes;
+  }
+
+  private findQuantityChanges(text: string, options: InstructionScalingOptions): PendingChange[] {
+    // Nothing to rewrite at 1x without a unit conversion
+    if (options.multiplier === 1 && !options.targetUnitSystem) return [];
+
+    const changes: PendingChange[] = [];
+    for (const match of Array.from(text.matchAll(QUANTITY_PATTERN))) {
+      const from = parseFraction(match[1]);
+      const to = match[2] ? parseFraction(match[2]) : null;
+      const unit = UNIT_ABBREVIATION_MAP.get(match[3].toLowerCase());
+      if (from === null || !unit) continue;
+
+      const replacement = options.formatQuantity(toQuantity(from, to), unit);
+      if (!replacement || replacement === match[0]) continue;
+
+      changes.push({
+        type: 'quantity',
+        index: match.index ?? 0,
+        original: match[0],
+        replacement,
+      });
+    }
+    return changes;
+  }
+
+  /**
+   * Suggest a pan for the scaled batch, keeping batter depth the same
+   */
+  private suggestPanSize(text: string, multiplier: number): PanSizeSuggestion | undefined {
+    if (Math.abs(multiplier - 1) < 0.15 || !PAN_WORDS.test(text)) return undefined;
+
+    const pan = this.findPan(text);
+    if (!pan) return undefined;
+
+    const targetArea = pan.area * multiplier;
+    const areaUnit = pan.metric ? 'sq cm' : 'sq in';
+    const displayArea = formatArea(pan.metric ? targetArea * SQ_CM_PER_SQ_IN : targetArea);
+
+    let suggestion: string;
+    const closest = findClosestPan(targetArea);
+    if (closest && Math.abs(closest.area - pan.area) / pan.area > 0.15) {
+      suggestion = `Use a ${pan.metric ? closest.metric : closest.inches} pan instead of the ${pan.label} pan`;
+    } else if (multiplier > 1) {
+      const count = Math.ceil(multiplier - 0.15);
+      suggestion = `Use ${count} ${pan.label} pans, or pans totaling about ${displayArea} ${areaUnit}`;
+    } else {
+      suggestion = `Use a smaller pan, about ${displayArea} ${areaUnit}`;
+    }
+
+    return { original: pan.label, targetArea: Number(displayArea), areaUnit, suggestion };
+  }
+
+  /**
+   * Find a pan size in the text. Area is returned in square inches.
+   */
+  private findPan(text: string): { label: string; area: number; metric: boolean } | undefined {
+    // The size has to be followed closely by the pan word ("9-inch round cake pan")
+    const nearPan = (match: RegExpMatchArray) =>
+      PAN_FOLLOWS.test(text.slice((match.index ?? 0) + match[0].length));
+
+    const rect = text.match(RECT_PAN_PATTERN);
+    if (rect && nearPan(rect)) {
+      const metric = !!rect[3] && rect[3].toLowerCase().startsWith('c');
+      const factor = metric ? 1 / SQ_CM_PER_SQ_IN : 1;
+      return {
+        label: rect[0].trim(),
+        area: parseFloat(rect[1]) * parseFloat(rect[2]) * factor,
+        metric,
+      };
+    }
+
+    const single = text.match(ROUND_PAN_PATTERN);
+    if (single && nearPan(single)) {
+      const metric = single[2].toLowerCase().startsWith('c');
+      const size = parseFloat(single[1]);
+      const isSquare = single[3]?.toLowerCase() === 'square';
+      const area = isSquare ? size * size : Math.PI * (size / 2) ** 2;
+      return {
+        label: single[0].trim(),
+        area: metric ? area / SQ_CM_PER_SQ_IN : area,
+        metric,
+      };
+    }
+
+    return undefined;
+  }
+}
+
+// Export singleton instance
+export const instructionScaler = new InstructionScaler();
@@ -1,5 +1,6 @@
 import { ScalingService, scalingService } from './ScalingService';
-import { Recipe, ParsedIngredient, UnitSystem } from '@/types';
+import { ErrorCode, Recipe, ParsedIngredient, UnitSystem } from '@/types';
+import { getIngredientDensity } from '@/constants';
 
 describe('ScalingService', () => {
   let service: ScalingService;
@@ -28,7 +29,10 @@ describe('ScalingService', () => {
     description: 'A test recipe',
     servings: { amount: 4, unit: 'servings' },
     ingredients: [createMockIngredient()],
-    instructions: ['Step 1', 'Step 2'],
+    instructions: [
+      { step: 1, text: 'Step 1' },
+      { step: 2, text: 'Step 2' },
+    ],
     source: { type: 'manual' },
     createdAt: new Date(),
     updatedAt: new Date(),
@@ -323,6 +327,272 @@ describe('ScalingService', () => {
     });
   });
 
+  describe('weight conversion', () => {
+    it('weighs volume ingredients with a known density when preferWeight is set', async () => {
+      const recipe = createMockRecipe();
+
+      const result = await service.scaleRecipe(recipe, {
+        multiplier: 1,
+        targetUnitSystem: UnitSystem.METRIC,
+        preferWeight: true,
+      });
+
+      expect(result.scaledIngredients[0].scaledUnit).toBe('gram');
+      expect(result.scaledIngredients[0].scaledQuantity?.value).toBe(240);
+      expect(result.scaledIngredients[0].displayText).toBe('240 grams flour');
+    });
+
+    it('uses the most specific density match', async () => {
+      const recipe = createMockRecipe({
+        ingredients: [
+          createMockIngredient({
+            quantity: { type: 'single', value: 1, displayValue: '1' },
+            ingredient: 'packed brown sugar',
+          }),
+        ],
+      });
+
+      const result = await service.scaleRecipe(recipe, {
+        multiplier: 1,
+        targetUnitSystem: UnitSystem.METRIC,
+        preferWeight: true,
+      });
+
+      expect(result.scaledIngredients[0].scaledQuantity?.value).toBe(213);
+    });
+
+    it('converts metric volumes to weight too', async () => {
+      const recipe = createMockRecipe({
+        ingredients: [
+          createMockIngredient({
+            quantity: { type: 'single', value: 500, displayValue: '500' },
+            unit: 'milliliter',
+            ingredient: 'rice',
+          }),
+        ],
+      });
+
+      const result = await service.scaleRecipe(recipe, {
+        multiplier: 1,
+        targetUnitSystem: UnitSystem.METRIC,
+        preferWeight: true,
+      });
+
+      expect(result.scaledIngredients[0].scaledUnit).toBe('gram');
+      expect(result.scaledIngredients[0].scaledQuantity?.value).toBe(391);
+    });
+
+    it('only takes a density from the head noun', () => {
+      expect(getIngredientDensity('sugar snap peas')).toBeUndefined();
+      expect(getIngredientDensity('rice vinegar')).toBeUndefined();
+      expect(getIngredientDensity('all-purpose flour, plus more for dusting')).toBe(0.507);
+      expect(getIngredientDensity('salt and pepper')).toBe(1.217);
+    });
+
+    it('falls back to volume when the density is unknown', async () => {
+      const recipe = createMockRecipe({
+        ingredients: [createMockIngredient({ ingredient: 'mystery powder' })],
+      });
+
+      const result = await service.scaleRecipe(recipe, {
+        multiplier: 1,
+        targetUnitSystem: UnitSystem.METRIC,
+        preferWeight: true,
+      });
+
+      expect(result.scaledIngredients[0].scaledUnit).toBe('milliliter');
+    });
+
+    it('converts both ends of a range', async () => {
+      const recipe = createMockRecipe({
+        ingredients: [
+          createMockIngredient({
+            quantity: { type: 'range', value: 1, valueTo: 2, displayValue: '1-2' },
+            unit: 'tablespoon',
+            ingredient: 'butter',
+          }),
+        ],
+      });
+
+      const result = await service.scaleRecipe(recipe, {
+        multiplier: 1,
+        targetUnitSystem: UnitSystem.METRIC,
+        preferWeight: true,
+      });
+
+      expect(result.scaledIngredients[0].scaledQuantity).toMatchObject({
+        value: 14,
+        valueTo: 28,
+        displayValue: '14-28',
+      });
+    });
+
+    it('keeps volume output without preferWeight', async () => {
+      const recipe = createMockRecipe();
+
+      const result = await service.scaleRecipe(recipe, {
+        multiplier: 1,
+        targetUnitSystem: UnitSystem.METRIC,
+      });
+
+      expect(result.scaledIngredients[0].scaledUnit).toBe('milliliter');
+    });
+  });
+
+  describe('scaling constraints', () => {
+    it('reports a raw multiplier as the constraint', async () => {
+      const result = await service.scaleRecipe(createMockRecipe(), { multiplier: 2 });
+
+      expect(result.scaling.constraint).toEqual({ type: 'multiplier', description: '2x' });
+    });
+
+    it('scales to a target serving count', async () => {
+      const result = await service.scaleRecipe(createMockRecipe(), { targetServings: 6 });
+
+      expect(result.scaling.multiplier).toBe(1.5);
+      expect(result.scaling.scaledServings.amount).toBe(6);
+      expect(result.scaling.constraint).toMatchObject({ type: 'servings', targetServings: 6 });
+    });
+
+    it('scales to the amount of an ingredient on hand', async () => {
+      const recipe = createMockRecipe({
+        ingredients: [
+          createMockIngredient({
+            id: 'eggs',
+            quantity: { type: 'single', value: 4, displayValue: '4' },
+            unit: null,
+            ingredient: 'eggs',
+          }),
+        ],
+      });
+
+      const result = await service.scaleRecipe(recipe, {
+        ingredientConstraint: { ingredientId: 'eggs', amount: 3 },
+      });
+
+      expect(result.scaling.multiplier).toBe(0.75);
+      expect(result.scaledIngredients[0].scaledQuantity?.value).toBe(3);
+      expect(result.scaling.constraint).toMatchObject({
+        type: 'ingredient',
+        description: '3 eggs on hand',
+      });
+    });
+
+    it('converts the amount on hand into the recipe unit', () => {
+      const recipe = createMockRecipe();
+
+      const { multiplier } = service.resolveMultiplier(recipe, {
+        ingredientConstraint: { ingredientId: 'test-id', amount: 240, unit: 'g' },
+      });
+
+      // 2 cups flour is about 240 g
+      expect(multiplier).toBeCloseTo(1, 1);
+    });
+
+    it('prefers an ingredient constraint over servings and multiplier', () => {
+      const { constraint } = service.resolveMultiplier(createMockRecipe(), {
+        multiplier: 3,
+        targetServings: 8,
+        ingredientConstraint: { ingredientId: 'test-id', amount: 1 },
+      });
+
+      expect(constraint.type).toBe('ingredient');
+    });
+
+    it('rejects unknown ingredients and incompatible units', () => {
+      const recipe = createMockRecipe();
+
+      expect(() =>
+        service.resolveMultiplier(recipe, {
+          ingredientConstraint: { ingredientId: 'missing', amount: 1 },
+        })
+      ).toThrow('Ingredient not found in recipe');
+      expect(() =>
+        service.resolveMultiplier(recipe, {
+          ingredientConstraint: { ingredientId: 'test-id', amount: 1, unit: null },
+        })
+      ).toThrow("Can't compare");
+    });
+
+    it('rejects constraints that resolve past the multiplier range', () => {
+      const recipe = createMockRecipe({
+        ingredients: [
+          createMockIngredient({
+            id: 'eggs',
+            quantity: { type: 'single', value: 2, displayValue: '2' },
+            unit: null,
+            ingredient: 'eggs',
+          }),
+        ],
+      });
+
+      expect(() =>
+        service.resolveMultiplier(recipe, {
+          ingredientConstraint: { ingredientId: 'eggs', amount: 30 },
+        })
+      ).toThrow(
+        expect.objectContaining({
+          code: ErrorCode.INVALID_MULTIPLIER,
+          message:
+            'Scaling to 30 eggs on hand needs a 15x multiplier; recipes can be scaled between 0.1x and 10x',
+        })
+      );
+      expect(() => service.resolveMultiplier(recipe, { targetServings: 100 })).toThrow(
+        expect.objectContaining({ code: ErrorCode.INVALID_MULTIPLIER })
+      );
+    });
+
+    it('rejects non-positive target servings', () => {
+      expect(() =>
+        service.resolveMultiplier(createMockRecipe(), { targetServings: 0 })
+      ).toThrow('Target servings must be greater than 0');
+    });
+  });
+
+  describe('instruction scaling', () => {
+    it('rewrites inline quantities in the steps', async () => {
+      const recipe = createMockRecipe({
+        instructions: [{ step: 1, text: 'Add 2 cups of the stock and bake at 350°F.' }],
+      });
+
+      const result = await service.scaleRecipe(recipe, { multiplier: 2 });
+      const [instruction] = result.scaledInstructions;
+
+      expect(instruction.text).toBe('Add 4 cups of the stock and bake at 350°F.');
+      expect(instruction.originalText).toBe('Add 2 cups of the stock and bake at 350°F.');
+      expect(instruction.changes).toEqual([
+        { type: 'quantity', original: '2 cups', replacement: '4 cups', start: 4, end: 10 },
+      ]);
+    });
+
+    it('converts temperatures with the target unit system', async () => {
+      const recipe = createMockRecipe({
+        instructions: [
+          {
+            step: 1,
+            text: 'Bake at 350°F.',
+            temperature: { value: 350, unit: 'F', originalText: '350°F' },
+          },
+        ],
+      });
+
+      const result = await service.scaleRecipe(recipe, {
+        multiplier: 1,
+        targetUnitSystem: UnitSystem.METRIC,
+      });
+      const [instruction] = result.scaledInstructions;
+
+      expect(instruction.text).toBe('Bake at 180°C.');
+      expect(instruction.temperature).toMatchObject({ value: 180, unit: 'C' });
+    });
+
+    it('leaves instructions untouched at 1x', async () => {
+      const result = await service.scaleRecipe(createMockRecipe(), { multiplier: 1 });
+
+      expect(result.scaledInstructions[0]).toMatchObject({ text: 'Step 1', changes: [] });
+    });
+  });
+
   describe('scaling tips', () => {
     it('returns no tips when multiplier is 1', async () => {
       const recipe = createMockRecipe();
@@ -11,25 +11,63 @@ import {
   ScaledIngredient,
   ScaledQuantity,
   ScalingOptions,
+  ScalingConstraint,
   ParsedIngredient,
   ServingInfo,
   QUANTITY_THRESHOLDS,
   SCALING_TIPS,
   UnitSystem,
+  UnitCategory,
+  ErrorCode,
 } from '@/types';
-import { decimalToDisplay, convertUnit, getUnit, UNITS } from '@/constants';
-import { logger } from '@/lib/utils';
+import { decimalToDisplay, convertUnit, convertUnitWithDensity, getUnit, UNITS } from '@/constants';
+import { createError, logger } from '@/lib/utils';
+import { instructionScaler } from './InstructionScaler';
+
+/**
+ * Multiplier resolved from scaling options
+ */
+export interface ResolvedMultiplier {
+  multiplier: number;
+  constraint: ScalingConstraint;
+}
+
+/** Smallest multiplier a recipe can be scaled by */
+export const MIN_MULTIPLIER = 0.1;
+/** Largest multiplier a recipe can be scaled by */
+export const MAX_MULTIPLIER = 10;
+
+/**
+ * Reject a multiplier worked out from servings or an amount on hand that
+ * falls outside the range a plain multiplier is held to
+ */
+function assertMultiplierInRange(multiplier: number, description: string): void {
+  if (multiplier < MIN_MULTIPLIER || multiplier > MAX_MULTIPLIER) {
+    throw createError(
+      ErrorCode.INVALID_MULTIPLIER,
+      `Scaling to ${description} needs a ${Number(multiplier.toFixed(2))}x multiplier; ` +
+        `recipes can be scaled between ${MIN_MULTIPLIER}x and ${MAX_MULTIPLIER}x`,
+      { multiplier, min: MIN_MULTIPLIER, max: MAX_MULTIPLIER }
+    );
+  }
+}
 
 export class ScalingService {
   /**
    * Scale a recipe by the given options
    */
   async scaleRecipe(recipe: Recipe, options: ScalingOptions): Promise<ScaledRecipe> {
-    const { multiplier, targetUnitSystem, roundingPrecision = 'friendly' } = options;
+    const { multiplier, constraint } = this.resolveMultiplier(recipe, options);
+    const {
+      targetUnitSystem,
+      roundingPrecision = 'friendly',
+      preferWeight = false,
+    } = options;
 
     logger.debug('Scaling recipe', {
       title: recipe.title,
       multiplier,
+      constraint: constraint.type,
       ingredientCount: recipe.ingredients.length,
     });
 
@@ -38,9 +76,28 @@ export class ScalingService {
 
     // Scale ingredients
     const scaledIngredients = recipe.ingredients.map((ingredient) =>
-      this.scaleIngredient(ingredient, multiplier, targetUnitSystem, roundingPrecision)
+      this.scaleIngredient(
+        ingredient,
+        multiplier,
+        targetUnitSystem,
+        roundingPrecision,
+        preferWeight
+      )
     );
 
+    // Rewrite temperatures and inline quantities in the steps
+    const scaledInstructions = instructionScaler.scaleInstructions(recipe.instructions, {
+      multiplier,
+      targetUnitSystem,
+      formatQuantity: (quantity, unit) =>
+        this.scaleIngredient(
+          { id: '', original: '', quantity, unit, ingredient: '', parseConfidence: 1 },
+          multiplier,
+          targetUnitSystem,
+          roundingPrecision
+        ).displayText,
+    });
+
     // Get scaling tips based on multiplier
     const scalingTips = this.getScalingTips(multiplier);
 
@@ -50,16 +107,122 @@ export class ScalingService {
         originalServings: recipe.servings,
         scaledServings,
         multiplier,
+        constraint,
         appliedAt: new Date(),
       },
       originalIngredients: recipe.ingredients,
       scaledIngredients,
+      scaledInstructions,
       scalingTips,
     };
 
     return scaledRecipe;
   }
 
+  /**
+   * Work out the multiplier from the scaling options.
+   * An ingredient constraint wins over target servings, which wins over a raw multiplier.
+   */
+  resolveMultiplier(recipe: Recipe, options: ScalingOptions): ResolvedMultiplier {
+    if (options.ingredientConstraint) {
+      const { ingredientId, amount } = options.ingredientConstraint;
+      const ingredient = recipe.ingredients.find((i) => i.id === ingredientId);
+      if (!ingredient) {
+        throw createError(ErrorCode.VALIDATION_ERROR, 'Ingredient not found in recipe', {
+          ingredientId,
+        });
+      }
+      if (!ingredient.quantity || ingredient.quantity.value <= 0) {
+        throw createError(
+          ErrorCode.VALIDATION_ERROR,
+          `"${ingredient.original}" has no quantity to scale from`
+        );
+      }
+      if (!(amount > 0)) {
+        throw createError(ErrorCode.VALIDATION_ERROR, 'Available amount must be greater than 0');
+      }
+
+      const unit =
+        options.ingredientConstraint.unit === undefined
+          ? ingredient.unit
+          : options.ingredientConstraint.unit;
+      const available = this.convertAvailableAmount(amount, unit, ingredient);
+      // Use the top of a range so the whole scaled range fits what's on hand
+      const needed = ingredient.quantity.valueTo ?? ingredient.quantity.value;
+      const unitLabel = unit ? ` ${getUnit(unit)?.name ?? unit}` : '';
+      const multiplier = available / needed;
+      const description = `${amount}${unitLabel} ${ingredient.ingredient} on hand`;
+      assertMultiplierInRange(multiplier, description);
+
+      return {
+        multiplier,
+        constraint: {
+          type: 'ingredient',
+          description,
+          ingredient: { ingredientId, amount, unit },
+        },
+      };
+    }
+
+    if (options.targetServings !== undefined) {
+      const { targetServings } = options;
+      if (!(targetServings > 0)) {
+        throw createError(ErrorCode.VALIDATION_ERROR, 'Target servings must be greater than 0');
+      }
+      if (!(recipe.servings.amount > 0)) {
+        throw createError(
+          ErrorCode.VALIDATION_ERROR,
+          'Recipe has no serving count to scale from'
+        );
+      }
+
+      const multiplier = targetServings / recipe.servings.amount;
+      const description = `${targetServings} ${recipe.servings.unit || 'servings'}`;
+      assertMultiplierInRange(multiplier, description);
+
+      return {
+        multiplier,
+        constraint: { type: 'servings', description, targetServings },
+      };
+    }
+
+    const multiplier = options.multiplier ?? 1;
+    if (!(multiplier > 0)) {
+      throw createError(ErrorCode.INVALID_MULTIPLIER, 'Multiplier must be greater than 0');
+    }
+
+    return {
+      multiplier,
+      constraint: { type: 'multiplier', description: `${multiplier}x` },
+    };
+  }
+
+  /**
+   * Convert an on-hand amount into the ingredient's unit
+   */
+  private convertAvailableAmount(
+    amount: number,
+    unit: string | null,
+    ingredient: ParsedIngredient
+  ): number {
+    if (!unit || !ingredient.unit) {
+      if (unit === ingredient.unit) return amount;
+      throw createError(
+        ErrorCode.VALIDATION_ERROR,
+        `Can't compare ${unit ?? 'a count'} with ${ingredient.unit ?? 'a count'} of ${ingredient.ingredient}`
+      );
+    }
+
+    const converted = convertUnitWithDensity(amount, unit, ingredient.unit, ingredient.ingredient);
+    if (converted === null) {
+      throw createError(
+        ErrorCode.VALIDATION_ERROR,
+        `Can't convert ${unit} to ${ingredient.unit} for ${ingredient.ingredient}`
+      );
+    }
+    return converted;
+  }
+
   /**
    * Scale a single ingredient for display, using the same rules as recipe scaling
    */
@@ -67,9 +230,16 @@ export class ScalingService {
     ingredient: ParsedIngredient,
     multiplier: number,
     targetUnitSystem?: UnitSystem,
-    roundingPrecision: 'exact' | 'friendly' = 'friendly'
+    roundingPrecision: 'exact' | 'friendly' = 'friendly',
+    preferWeight = false
   ): ScaledIngredient {
-    return this.scaleIngredient(ingredient, multiplier, targetUnitSystem, roundingPrecision);
+    return this.scaleIngredient(
+      ingredient,
+      multiplier,
+      targetUnitSystem,
+      roundingPrecision,
+      preferWeight
+    );
   }
 
   /**
@@ -79,7 +249,8 @@ export class ScalingService {
     ingredient: ParsedIngredient,
     multiplier: number,
     targetUnitSystem?: UnitSystem,
-    roundingPrecision: 'exact' | 'friendly' = 'friendly'
+    roundingPrecision: 'exact' | 'friendly' = 'friendly',
+    preferWeight = false
   ): ScaledIngredient {
     // If no quantity, return ingredient as-is
     if (!ingredient.quantity) {
@@ -106,15 +277,29 @@ export class ScalingService {
 
     // Convert units if requested
     if (targetUnitSystem && ingredient.unit) {
-      const convertedFrom = this.convertToSystem(scaledValue, ingredient.unit, targetUnitSystem);
+      const convertedFrom = this.convertToSystem(
+        scaledValue,
+        ingredient.unit,
+        targetUnitSystem,
+        preferWeight ? ingredient.ingredient : undefined
+      );
       if (convertedFrom) {
         finalValue = convertedFrom.value;
         scaledUnit = convertedFrom.unit;
 
         if (typeof scaledValueTo === 'number') {
-          const convertedTo = convertUnit(scaledValueTo, ingredient.unit, convertedFrom.unit);
+          const convertedTo = convertUnitWithDensity(
+            scaledValueTo,
+            ingredient.unit,
+            convertedFrom.unit,
+            ingredient.ingredient
+          );
           if (convertedTo !== null) {
-            finalValueTo = convertedTo;
+            const crossedCategory =
+              UNITS[ingredient.unit]?.category !== getUnit(convertedFrom.unit)?.category;
+            finalValueTo = crossedCategory
+              ? this.roundWeight(convertedTo, convertedFrom.unit)
+              : convertedTo;
           }
         }
       }
@@ -262,16 +447,30 @@ export class ScalingService {
   }
 
   /**
-   * Convert a value to the target unit system
+   * Convert a value to the target unit system.
+   * When a weight ingredient is given and the target is metric, volumes are
+   * converted to grams using the ingredient's density.
    */
   private convertToSystem(
     value: number,
     fromUnit: string,
-    targetSystem: UnitSystem
+    targetSystem: UnitSystem,
+    weightIngredient?: string
   ): { value: number; unit: string } | null {
     // Get the unit definition
     const unitDef = UNITS[fromUnit];
-    if (!unitDef || unitDef.system === targetSystem) {
+    if (!unitDef) {
+      return null;
+    }
+
+    if (targetSystem === UnitSystem.METRIC && weightIngredient) {
+      const weight = this.convertVolumeToWeight(value, fromUnit, weightIngredient);
+      if (weight) {
+        return weight;
+      }
+    }
+
+    if (unitDef.system === targetSystem) {
       return null; // No conversion needed
     }
 
@@ -289,6 +488,36 @@ export class ScalingService {
     return this.normalizeConvertedValue(converted, targetUnit, targetSystem);
   }
 
+  /**
+   * Convert a volume to grams (or kilograms) using the ingredient's density
+   */
+  private convertVolumeToWeight(
+    value: number,
+    fromUnit: string,
+    ingredientName: string
+  ): { value: number; unit: string } | null {
+    const unitDef = UNITS[fromUnit];
+    // Pinches and dashes stay as they are
+    if (unitDef?.category !== UnitCategory.VOLUME || fromUnit === 'pinch' || fromUnit === 'dash') {
+      return null;
+    }
+
+    const grams = convertUnitWithDensity(value, fromUnit, 'gram', ingredientName);
+    if (grams === null) {
+      return null;
+    }
+
+    const normalized = this.normalizeConvertedValue(grams, 'gram', UnitSystem.METRIC);
+    return { value: this.roundWeight(normalized.value, normalized.unit), unit: normalized.unit };
+  }
+
+  /**
+   * Round density-based gram amounts to whole grams; densities aren't precise enough for more
+   */
+  private roundWeight(value: number, unit: string): number {
+    return unit === 'gram' && value >= 5 ? Math.round(value) : value;
+  }
+
   private normalizeConvertedValue(
     value: number,
     unit: string,
@@ -3,3 +3,4 @@
  */
 
 export * from './ScalingService';
+export * from './InstructionScaler';
@@ -0,0 +1,103 @@
+import { ErrorCode, Recipe } from '@/types';
+import { createError } from '@/lib/utils';
+import { BatchImportService, MAX_BATCH_URLS } from './BatchImportService';
+
+describe('BatchImportService', () => {
+  const recipeFor = (url: string): Recipe => ({
+    title: url,
+    servings: { amount: 4, unit: 'servings', originalText: '4 servings' },
+    ingredients: [],
+    instructions: [],
+    source: {
+      url,
+      domain: new URL(url).hostname,
+      scrapedAt: new Date(),
+      scrapeMethod: 'schema-org',
+    },
+  });
+
+  const waitForJob = async (service: BatchImportService, id: string) => {
+    for (let i = 0; i < 100; i++) {
+      const job = service.getJob(id);
+      if (job.done) return job;
+      await new Promise((resolve) => setTimeout(resolve, 5));
+    }
+    throw new Error('Job did not finish');
+  };
+
+  it('reports a recipe or an error code for each URL', async () => {
+    const scraper = {
+      scrapeRecipe: jest.fn(async (url: string) => {
+        if (url.includes('missing')) {
+          throw createError(ErrorCode.RECIPE_NOT_FOUND, 'No recipe');
+        }
+        return recipeFor(url);
+      }),
+    };
+    const service = new BatchImportService(scraper, { domainDelayMs: 0 });
+
+    const { id, items } = service.createJob([
+      'https://a.com/soup',
+      'https://b.com/missing',
+      'https://a.com/soup',
+    ]);
+    expect(items[2].status).toBe('duplicate');
+
+    const job = await waitForJob(service, id);
+
+    expect(job.items.map((item) => item.status)).toEqual(['scraped', 'failed', 'duplicate']);
+    expect(job.items[0].recipe?.title).toBe('https://a.com/soup');
+    expect(job.items[1].error?.code).toBe(ErrorCode.RECIPE_NOT_FOUND);
+    expect(scraper.scrapeRecipe).toHaveBeenCalledTimes(2);
+  });
+
+  it('scrapes one page at a time per domain, several domains at once', async () => {
+    const active = new Map<string, number>();
+    let maxPerDomain = 0;
+    let maxOverall = 0;
+    const scraper = {
+      scrapeRecipe: jest.fn(async (url: string) => {
+        const domain = new URL(url).hostname;
+        active.set(domain, (active.get(domain) ?? 0) + 1);
+        maxPerDomain = Math.max(maxPerDomain, active.get(domain)!);
+        maxOverall = Math.max(
+          maxOverall,
+          [...active.values()].reduce((a, b) => a + b, 0)
+        );
+        await new Promise((resolve) => setTimeout(resolve, 5));
+        active.set(domain, active.get(domain)! - 1);
+        return recipeFor(url);
+      }),
+    };
+    const service = new BatchImportService(scraper, { concurrency: 2, domainDelayMs: 1 });
+
+    const { id } = service.createJob([
+      'https://a.com/1',
+      'https://a.com/2',
+      'https://www.a.com/3',
+      'https://b.com/1',
+      'https://c.com/1',
+    ]);
+    const job = await waitForJob(service, id);
+
+    expect(job.items.every((item) => item.status === 'scraped')).toBe(true);
+    expect(maxPerDomain).toBe(1);
+    expect(maxOverall).toBe(2);
+  });
+
+  it('rejects empty and oversized batches', () => {
+    const service = new BatchImportService({ scrapeRecipe: jest.fn() });
+    const urls = Array.from({ length: MAX_BATCH_URLS + 1 }, (_, i) => `https://a.com/${i}`);
+
+    expect(() => service.createJob([])).toThrow('At least one URL is required');
+    expect(() => service.createJob(urls)).toThrow(`at most ${MAX_BATCH_URLS} URLs`);
+  });
+
+  it('reports unknown jobs', () => {
+    const service = new BatchImportService({ scrapeRecipe: jest.fn() });
+
+    expect(() => service.getJob('nope')).toThrow(
+      expect.objectContaining({ code: ErrorCode.IMPORT_JOB_NOT_FOUND })
+    );
+  });
+});
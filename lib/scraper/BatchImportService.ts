@@ -0,0 +1,175 @@
+/**
+ * Batch import service
+ *
+ * Scrapes a list of recipe URLs in the background. A few domains are
+ * scraped at once, and pages on the same domain are fetched one after
+ * another with a pause in between so a long list doesn't hammer one site.
+ * Jobs live in memory; clients poll for progress and save the recipes.
+ */
+
+import { v4 as uuidv4 } from 'uuid';
+import { BatchImportItem, BatchImportJob, ErrorCode } from '@/types';
+import { createError, logger, toApiError } from '@/lib/utils';
+import { CacheService } from '@/lib/cache';
+import { ScraperService, scraperService } from './ScraperService';
+
+/**
+ * Most URLs accepted in one batch
+ */
+export const MAX_BATCH_URLS = 100;
+
+// Domains scraped at the same time
+const DEFAULT_CONCURRENCY = 3;
+
+// Pause between two pages on the same domain
+const DEFAULT_DOMAIN_DELAY_MS = 2000;
+
+// Finished jobs are kept this long for clients to collect
+const JOB_TTL_MS = 60 * 60 * 1000;
+
+export interface BatchImportOptions {
+  concurrency?: number;
+  domainDelayMs?: number;
+}
+
+/**
+ * Domain used to group URLs; unparseable URLs get a group of their own
+ */
+function domainOf(url: string): string {
+  try {
+    return new URL(url).hostname.replace(/^www\./, '');
+  } catch {
+    return url;
+  }
+}
+
+function sleep(ms: number): Promise<void> {
+  return new Promise((resolve) => setTimeout(resolve, ms));
+}
+
+export class BatchImportService {
+  private jobs = new CacheService(JOB_TTL_MS);
+  private readonly concurrency: number;
+  private readonly domainDelayMs: number;
+
+  constructor(
+    private scraper: Pick<ScraperService, 'scrapeRecipe'> = scraperService,
+    options: BatchImportOptions = {}
+  ) {
+    this.concurrency = Math.max(1, options.concurrency ?? DEFAULT_CONCURRENCY);
+    this.domainDelayMs = Math.max(0, options.domainDelayMs ?? DEFAULT_DOMAIN_DELAY_MS);
+  }
+
+  /**
+   * Queue URLs for scraping and start working through them.
+   * Returns straight away; poll getJob for progress.
+   */
+  createJob(urls: string[]): BatchImportJob {
+    if (urls.length === 0) {
+      throw createError(ErrorCode.VALIDATION_ERROR, 'At least one URL is required');
+    }
+    if (urls.length > MAX_BATCH_URLS) {
+      throw createError(
+        ErrorCode.VALIDATION_ERROR,
+        `A batch can have at most ${MAX_BATCH_URLS} URLs`,
+        { maxUrls: MAX_BATCH_URLS }
+      );
+    }
+
+    const seen = new Set<string>();
+    const items: BatchImportItem[] = urls.map((raw) => {
+      const url = raw.trim();
+      const status = seen.has(url) ? 'duplicate' : 'queued';
+      seen.add(url);
+      return { url, status };
+    });
+
+    const job: BatchImportJob = {
+      id: uuidv4(),
+      items,
+      done: false,
+      createdAt: new Date().toISOString(),
+    };
+    this.jobs.set(job.id, job);
+
+    logger.info('Starting batch import', { jobId: job.id, urls: items.length });
+    this.run(job).catch((error) => {
+      logger.error('Batch import failed', {
+        jobId: job.id,
+        error: error instanceof Error ? error.message : 'Unknown',
+      });
+    });
+
+    return this.snapshot(job);
+  }
+
+  /**
+   * Current progress of a job
+   */
+  getJob(id: string): BatchImportJob {
+    const job = this.jobs.get<BatchImportJob>(id);
+    if (!job) {
+      throw createError(ErrorCode.IMPORT_JOB_NOT_FOUND, 'Import job not found or expired', {
+        jobId: id,
+      });
+    }
+    return this.snapshot(job);
+  }
+
+  /**
+   * Scrape the queued URLs. Resolves when each one has been scraped or has failed.
+   */
+  private async run(job: BatchImportJob): Promise<void> {
+    const byDomain = new Map<string, BatchImportItem[]>();
+    for (const item of job.items) {
+      if (item.status !== 'queued') continue;
+      const domain = domainOf(item.url);
+      byDomain.set(domain, [...(byDomain.get(domain) ?? []), item]);
+    }
+
+    // Each worker takes a whole domain, so no two requests hit a site at once
+    const queues = [...byDomain.values()];
+    let next = 0;
+    const worker = async () => {
+      while (next < queues.length) {
+        const queue = queues[next++];
+        for (let i = 0; i < queue.length; i++) {
+          if (i > 0 && this.domainDelayMs > 0) await sleep(this.domainDelayMs);
+          await this.importItem(queue[i]);
+        }
+      }
+    };
+
+    await Promise.all(
+      Array.from({ length: Math.min(this.concurrency, queues.length) }, () => worker())
+    );
+
+    job.done = true;
+    logger.info('Finished batch import', {
+      jobId: job.id,
+      scraped: job.items.filter((item) => item.status === 'scraped').length,
+      failed: job.items.filter((item) => item.status === 'failed').length,
+    });
+  }
+
+  private async importItem(item: BatchImportItem): Promise<void> {
+    item.status = 'importing';
+    try {
+      item.recipe = await this.scraper.scrapeRecipe(item.url);
+      item.status = 'scraped';
+    } catch (error) {
+      item.error = toApiError(error);
+      item.status = 'failed';
+    }
+  }
+
+  /**
+   * Copy of a job, so callers can't change it while it runs
+   */
+  private snapshot(job: BatchImportJob): BatchImportJob {
+    return { ...job, items: job.items.map((item) => ({ ...item })) };
+  }
+}
+
+// Export singleton instance
+export const batchImportService = new BatchImportService();
@@ -0,0 +1,193 @@
+import { readFileSync } from 'node:fs';
+import path from 'node:path';
+import {
+  ScraperRegistry,
+  ScraperStrategy,
+  createDefaultRegistry,
+  matchesDomain,
+} from './ScraperRegistry';
+import { Recipe } from '@/types';
+
+const loadFixture = (name: string) =>
+  readFileSync(path.join(__dirname, 'fixtures', `${name}.html`), 'utf-8');
+
+const createMockRecipe = (title: string): Recipe => ({
+  title,
+  servings: { amount: 4, unit: 'servings', originalText: 'Serves 4' },
+  ingredients: [],
+  instructions: [],
+  source: {
+    url: 'https://example.com/recipe',
+    domain: 'example.com',
+    scrapedAt: new Date(),
+    scrapeMethod: 'dom',
+  },
+});
+
+const createStrategy = (
+  name: ScraperStrategy['name'],
+  confidence: number,
+  found = true
+): ScraperStrategy => ({
+  name,
+  scrape: jest.fn(async () => (found ? createMockRecipe(name) : null)),
+  confidence: () => confidence,
+});
+
+describe('matchesDomain', () => {
+  it('matches domains, subdomains and wildcards', () => {
+    expect(matchesDomain('*', 'anything.com')).toBe(true);
+    expect(matchesDomain('example.com', 'www.example.com')).toBe(true);
+    expect(matchesDomain('example.com', 'blog.example.com')).toBe(true);
+    expect(matchesDomain('example.com', 'notexample.com')).toBe(false);
+    expect(matchesDomain('*.example.com', 'example.com')).toBe(false);
+    expect(matchesDomain('*.example.com', 'blog.example.com')).toBe(true);
+  });
+});
+
+describe('ScraperRegistry', () => {
+  it('tries site-specific strategies before catch-all ones', () => {
+    const generic = createStrategy('dom', 0.5);
+    const site = createStrategy('wprm', 0.5);
+    const registry = new ScraperRegistry().register(generic).register(site, ['example.com']);
+
+    expect(registry.getStrategies('example.com')).toEqual([site, generic]);
+    expect(registry.getStrategies('other.com')).toEqual([generic]);
+  });
+
+  it('keeps the most confident result', async () => {
+    const registry = new ScraperRegistry()
+      .register(createStrategy('schema-org', 0.6))
+      .register(createStrategy('wprm', 0.8))
+      .register(createStrategy('tasty', 0.9, false));
+
+    const result = await registry.scrape('<html></html>', 'https://example.com', 'example.com');
+
+    expect(result?.method).toBe('wprm');
+    expect(result?.confidence).toBe(0.8);
+    expect(result?.recipe.title).toBe('wprm');
+  });
+
+  it('returns null when no strategy finds a recipe', async () => {
+    const registry = new ScraperRegistry().register(createStrategy('dom', 1, false));
+
+    expect(await registry.scrape('', 'https://example.com', 'example.com')).toBeNull();
+  });
+});
+
+/**
+ * Saved pages run through the default strategies offline.
+ * To cover a new site, save its HTML in fixtures/ and add a row here.
+ */
+describe('default registry fixtures', () => {
+  const registry = createDefaultRegistry();
+  const scrapeFixture = (name: string, domain: string) =>
+    registry.scrape(loadFixture(name), `https://${domain}/${name}`, domain);
+
+  it('reads WPRM cards with their groups', async () => {
+    const result = await scrapeFixture('wprm-lemon-tart', 'sunnykitchen.example');
+
+    expect(result?.method).toBe('wprm');
+    expect(result?.recipe.ingredients.map((i) => [i.original, i.section])).toEqual([
+      ['1 1/2 cups all-purpose flour', 'For the crust'],
+      ['1/2 cup butter, cold, cubed', 'For the crust'],
+      ['3 large eggs', 'For the filling'],
+      ['1/2 cup lemon juice (about 3 lemons)', 'For the filling'],
+    ]);
+    expect(result?.recipe.instructions.map((i) => i.section)).toEqual([
+      'For the crust',
+      'For the crust',
+      'For the filling',
+    ]);
+    expect(result?.recipe).toMatchObject({
+      title: 'Lemon Tart',
+      author: 'Ana Ruiz',
+      prepTime: 25,
+      cookTime: 35,
+      totalTime: 60,
+      servings: { amount: 8, unit: 'slices' },
+      tags: ['Dessert', 'French'],
+    });
+  });
+
+  it('reads Tasty Recipes cards with their groups', async () => {
+    const result = await scrapeFixture('tasty-oatmeal-cookies', 'crumbs.example');
+
+    expect(result?.method).toBe('tasty');
+    expect(result?.recipe.ingredients.map((i) => i.section)).toEqual([
+      'Cookies',
+      'Cookies',
+      'Cookies',
+      'Maple glaze',
+      'Maple glaze',
+    ]);
+    expect(result?.recipe.instructions).toHaveLength(3);
+    expect(result?.recipe).toMatchObject({
+      title: 'Glazed Oatmeal Cookies',
+      image: 'https://crumbs.example/uploads/oatmeal-cookies.jpg',
+      totalTime: 87,
+      servings: { amount: 24, unit: 'cookies' },
+    });
+  });
+
+  it('prefers Schema.org data over stray page lists', async () => {
+    const result = await scrapeFixture('schema-org-tomato-soup', 'souphouse.example');
+
+    expect(result?.method).toBe('schema-org');
+    expect(result?.recipe.ingredients).toHaveLength(5);
+    expect(result?.recipe.instructions[0].temperature?.value).toBe(425);
+  });
+
+  it('reads microdata recipes with legacy properties and text times', async () => {
+    const result = await scrapeFixture('microdata-banana-bread', 'oldfamilyrecipes.example');
+
+    expect(result?.method).toBe('microdata');
+    expect(result?.recipe.ingredients).toHaveLength(5);
+    expect(result?.recipe.instructions.map((i) => i.step)).toEqual([1, 2, 3]);
+    expect(result?.recipe).toMatchObject({
+      title: "Grandma's Banana Bread",
+      author: 'Helen Carter',
+      image: 'https://oldfamilyrecipes.example/img/banana-bread.jpg',
+      prepTime: 15,
+      cookTime: 65,
+      servings: { originalText: '1 loaf (10 slices)' },
+      nutrition: { calories: 210, fat: '7 g', sugar: '18 g' },
+      tags: ['Breads'],
+    });
+  });
+
+  it('reads RDFa recipes with nested steps', async () => {
+    const result = await scrapeFixture('rdfa-turkey-chili', 'weeknightpots.example');
+
+    expect(result?.method).toBe('microdata');
+    expect(result?.recipe.ingredients).toHaveLength(6);
+    expect(result?.recipe.instructions[2]).toMatchObject({
+      step: 3,
+      text: 'Simmer for 30 minutes, stirring now and then.',
+      time: { value: 30 },
+    });
+    expect(result?.recipe).toMatchObject({
+      title: 'Turkey Chili',
+      author: 'Marcus Lee',
+      prepTime: 10,
+      cookTime: 40,
+      totalTime: 50,
+      servings: { amount: 6 },
+      nutrition: { calories: 320, protein: '28 g protein' },
+      tags: ['American'],
+    });
+  });
+
+  it('falls back to the DOM scraper on plain blog posts', async () => {
+    const result = await scrapeFixture('plain-blog-cabbage-salad', 'gimmesomeoven.com');
+
+    expect(result?.method).toBe('dom');
+    expect(result?.recipe.title).toBe('Colorful Cabbage Salad');
+    expect(result?.recipe.ingredients).toHaveLength(4);
+    expect(result?.recipe.instructions).toHaveLength(2);
+  });
+
+  it('finds nothing on pages without a recipe', async () => {
+    expect(await scrapeFixture('no-recipe', 'crumbs.example')).toBeNull();
+  });
+});
@@ -0,0 +1,116 @@
+/**
+ * Registry of scraping strategies
+ *
+ * Strategies are registered against domain patterns. For a page, every
+ * strategy whose pattern matches the domain gets a try, and the result
+ * with the highest confidence wins.
+ */
+
+import { Recipe, RecipeSource } from '@/types';
+import { logger } from '@/lib/utils';
+import { SchemaOrgScraper } from './strategies/SchemaOrgScraper';
+import { MicrodataScraper } from './strategies/MicrodataScraper';
+import { WprmScraper } from './strategies/WprmScraper';
+import { TastyRecipesScraper } from './strategies/TastyRecipesScraper';
+import { GenericDomScraper } from './strategies/GenericDomScraper';
+
+/**
+ * A way of extracting a recipe from a page
+ */
+export interface ScraperStrategy {
+  /** Recorded as the recipe's scrape method */
+  readonly name: RecipeSource['scrapeMethod'];
+  /** Extract a recipe, or null if the page has nothing this strategy understands */
+  scrape(html: string, url: string, domain: string): Promise<Recipe | null>;
+  /** How far to trust a recipe this strategy produced, from 0 to 1 */
+  confidence(recipe: Recipe): number;
+}
+
+export interface ScrapeResult {
+  recipe: Recipe;
+  method: RecipeSource['scrapeMethod'];
+  confidence: number;
+}
+
+interface RegisteredStrategy {
+  pattern: string;
+  strategy: ScraperStrategy;
+}
+
+/**
+ * Check a domain against a pattern.
+ * "*" matches every domain, "example.com" matches it and its subdomains,
+ * and "*.example.com" matches only subdomains.
+ */
+export function matchesDomain(pattern: string, domain: string): boolean {
+  const host = domain.toLowerCase().replace(/^www\./, '');
+  const target = pattern.toLowerCase();
+
+  if (target === '*') return true;
+  if (target.startsWith('*.')) return host.endsWith(target.slice(1));
+  return host === target || host.endsWith(`.${target}`);
+}
+
+export class ScraperRegistry {
+  private entries: RegisteredStrategy[] = [];
+
+  /**
+   * Register a strategy for some domain patterns (every domain by default)
+   */
+  register(strategy: ScraperStrategy, patterns: string[] = ['*']): this {
+    for (const pattern of patterns) {
+      this.entries.push({ pattern, strategy });
+    }
+    return this;
+  }
+
+  /**
+   * Strategies to try for a domain. Site-specific ones come before
+   * catch-all ones; otherwise registration order is kept.
+   */
+  getStrategies(domain: string): ScraperStrategy[] {
+    const matching = this.entries.filter((entry) => matchesDomain(entry.pattern, domain));
+    const ordered = [
+      ...matching.filter((entry) => entry.pattern !== '*'),
+      ...matching.filter((entry) => entry.pattern === '*'),
+    ];
+    return [...new Set(ordered.map((entry) => entry.strategy))];
+  }
+
+  /**
+   * Run every matching strategy and keep the most confident result.
+   * Ties go to the strategy tried first.
+   */
+  async scrape(html: string, url: string, domain: string): Promise<ScrapeResult | null> {
+    let best: ScrapeResult | null = null;
+
+    for (const strategy of this.getStrategies(domain)) {
+      logger.debug(`Trying ${strategy.name} scraper`);
+      const recipe = await strategy.scrape(html, url, domain);
+      if (!recipe) continue;
+
+      const confidence = strategy.confidence(recipe);
+      logger.debug(`${strategy.name} scraper found a recipe`, { confidence });
+      if (!best || confidence > best.confidence) {
+        best = { recipe, method: strategy.name, confidence };
+      }
+    }
+
+    return best;
+  }
+}
+
+/**
+ * Registry with the built-in strategies.
+ * Plugin scrapers are found by their card markup rather than by domain, so
+ * they run on every site; their undiscounted confidence puts them ahead of
+ * structured data when both are equally complete.
+ */
+export function createDefaultRegistry(): ScraperRegistry {
+  return new ScraperRegistry()
+    .register(new SchemaOrgScraper())
+    .register(new MicrodataScraper())
+    .register(new WprmScraper())
+    .register(new TastyRecipesScraper())
+    .register(new GenericDomScraper());
+}
@@ -0,0 +1,40 @@
+import { ScraperService } from './ScraperService';
+
+describe('ScraperService', () => {
+  describe('importRecipe', () => {
+    const service = new ScraperService();
+
+    it('parses the ingredients of pasted text', async () => {
+      const recipe = await service.importRecipe(
+        'Toast\nIngredients\n2 slices bread\n1 tbsp butter\nInstructions\nToast the bread.'
+      );
+
+      expect(recipe.source.scrapeMethod).toBe('manual');
+      expect(recipe.ingredients[1]).toMatchObject({ unit: 'tablespoon', ingredient: 'butter' });
+    });
+
+    it('reads structured data in pasted HTML', async () => {
+      const recipe = await service.importRecipe(`
+        <script type="application/ld+json">
+          {"@type": "Recipe", "name": "Iced Tea", "recipeIngredient": ["4 cups water", "2 tea bags"],
+           "recipeInstructions": ["Steep the tea for 5 minutes."]}
+        </script>
+      `);
+
+      expect(recipe.title).toBe('Iced Tea');
+      expect(recipe.source).toMatchObject({ scrapeMethod: 'manual', domain: 'pasted text' });
+      expect(recipe.ingredients[0].quantity?.value).toBe(4);
+    });
+
+    it('falls back to the text of pasted HTML', async () => {
+      const recipe = await service.importRecipe(
+        '<p><b>Iced Tea</b></p><p>Ingredients</p><ul><li>4 cups water</li><li>2 tea bags</li></ul>' +
+          '<p>Method</p><p>Steep the tea for 5 minutes.</p>'
+      );
+
+      expect(recipe.title).toBe('Iced Tea');
+      expect(recipe.ingredients.map((i) => i.original)).toEqual(['4 cups water', '2 tea bags']);
+      expect(recipe.instructions[0].text).toBe('Steep the tea for 5 minutes.');
+    });
+  });
+});
@@ -4,25 +4,28 @@
 
 import { Recipe, ErrorCode } from '@/types';
 import { createError, logger } from '@/lib/utils';
-import { SchemaOrgScraper } from './strategies/SchemaOrgScraper';
-import { GenericDomScraper } from './strategies/GenericDomScraper';
+import { ScraperRegistry, ScraperStrategy, createDefaultRegistry } from './ScraperRegistry';
+import { MANUAL_SOURCE_DOMAIN, createManualSource, textRecipeParser } from './TextRecipeParser';
+import { htmlToText } from './utils/lines';
 import { fetchPage, FetchResult } from './utils/fetcher';
 import { CacheService } from '@/lib/cache';
-
-export interface ScrapeResult {
-  recipe: Recipe;
-  method: 'schema-org' | 'dom' | 'puppeteer';
-}
+import { ingredientParser } from '@/lib/ingredient';
+import { nutritionEstimator, nutritionService } from '@/lib/nutrition';
 
 export class ScraperService {
   private cache: CacheService;
-  private schemaOrgScraper: SchemaOrgScraper;
-  private genericDomScraper: GenericDomScraper;
+  private registry: ScraperRegistry;
 
-  constructor() {
+  constructor(registry: ScraperRegistry = createDefaultRegistry()) {
     this.cache = new CacheService();
-    this.schemaOrgScraper = new SchemaOrgScraper();
-    this.genericDomScraper = new GenericDomScraper();
+    this.registry = registry;
+  }
+
+  /**
+   * Add a site-specific strategy (e.g., ['example.com'])
+   */
+  registerStrategy(strategy: ScraperStrategy, patterns?: string[]): void {
+    this.registry.register(strategy, patterns);
   }
 
   /**
@@ -44,8 +47,9 @@ export class ScraperService {
     // Fetch the page
     const fetchResult = await fetchPage(url);
 
-    // Try scraping strategies in order
-    const recipe = await this.tryScrapingStrategies(fetchResult, parsedUrl);
+    // Try the registered strategies and keep the best result
+    const scraped = await this.tryScrapingStrategies(fetchResult, parsedUrl);
+    const recipe = this.withNutritionEstimate(this.withParsedIngredients(scraped));
 
     // Cache the result
     this.cache.set(url, recipe);
@@ -53,6 +57,22 @@ export class ScraperService {
     return recipe;
   }
 
+  /**
+   * Import a recipe from pasted text or HTML, with no page to fetch
+   */
+  async importRecipe(content: string): Promise<Recipe> {
+    const isHtml = /<\/?[a-z][^>]*>/i.test(content);
+
+    // Saved pages and copied recipe cards can still carry structured data
+    const scraped = isHtml ? await this.registry.scrape(content, '', MANUAL_SOURCE_DOMAIN) : null;
+    const imported = scraped
+      ? { ...scraped.recipe, source: createManualSource() }
+      : textRecipeParser.parse(isHtml ? htmlToText(content) : content);
+
+    logger.info('Imported pasted recipe', { title: imported.title });
+    return this.withNutritionEstimate(this.withParsedIngredients(imported));
+  }
+
   /**
    * Validate and parse URL
    */
@@ -74,26 +94,51 @@ export class ScraperService {
   }
 
   /**
-   * Try different scraping strategies in order of preference
+   * Parse the scraped ingredient lines into quantities, units and names
+   */
+  private withParsedIngredients(recipe: Recipe): Recipe {
+    return {
+      ...recipe,
+      ingredients: recipe.ingredients.map((ingredient) => ({
+        ...ingredientParser.parseIngredient(ingredient.original),
+        id: ingredient.id,
+        section: ingredient.section,
+      })),
+    };
+  }
+
+  /**
+   * Estimate nutrition from the ingredients when the page didn't provide any
+   */
+  private withNutritionEstimate(recipe: Recipe): Recipe {
+    if (Object.keys(nutritionService.normalize(recipe.nutrition)).length > 0) {
+      return recipe;
+    }
+
+    const estimate = nutritionEstimator.estimate(recipe);
+    if (!estimate) return recipe;
+
+    logger.debug('Estimated nutrition from ingredients', {
+      matched: estimate.report.matches.filter((m) => m.status === 'matched').length,
+      total: estimate.report.matches.length,
+    });
+    return { ...recipe, nutrition: estimate.nutrition, nutritionEstimate: estimate.report };
+  }
+
+  /**
+   * Try every strategy registered for the domain and keep the most confident recipe
    */
   private async tryScrapingStrategies(fetchResult: FetchResult, url: URL): Promise<Recipe> {
     const { html, finalUrl } = fetchResult;
     const domain = url.hostname.replace('www.', '');
 
-    // Strategy 1: Try Schema.org JSON-LD (most reliable)
-    logger.debug('Trying Schema.org scraper');
-    const schemaRecipe = await this.schemaOrgScraper.scrape(html, finalUrl, domain);
-    if (schemaRecipe) {
-      logger.info('Successfully scraped with Schema.org', { url: finalUrl });
-      return schemaRecipe;
-    }
-
-    // Strategy 2: Try generic DOM parsing
-    logger.debug('Trying generic DOM scraper');
-    const domRecipe = await this.genericDomScraper.scrape(html, finalUrl, domain);
-    if (domRecipe) {
-      logger.info('Successfully scraped with DOM parser', { url: finalUrl });
-      return domRecipe;
+    const result = await this.registry.scrape(html, finalUrl, domain);
+    if (result) {
+      logger.info(`Successfully scraped with ${result.method}`, {
+        url: finalUrl,
+        confidence: result.confidence,
+      });
+      return result.recipe;
     }
 
     // All strategies failed
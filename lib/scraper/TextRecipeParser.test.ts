@@ -0,0 +1,101 @@
+import { TextRecipeParser } from './TextRecipeParser';
+import { AppError } from '@/lib/utils';
+import { ErrorCode } from '@/types';
+
+describe('TextRecipeParser', () => {
+  const parser = new TextRecipeParser();
+
+  it('splits text by its headings', () => {
+    const recipe = parser.parse(`
+Grandma's Pancakes
+Fluffy weekend pancakes.
+Serves 6
+Prep time: 10 minutes
+Cook time: 1 hour 5 minutes
+
+Ingredients:
+- 2 cups flour
+- 1 1/2 cups milk
+• 2 eggs
+
+Directions
+1. Whisk the flour, milk and eggs together.
+Let the batter rest.
+2. Cook on a hot griddle for 3 minutes per side.
+
+Notes
+Freezes well.
+`);
+
+    expect(recipe.title).toBe("Grandma's Pancakes");
+    expect(recipe.description).toBe('Fluffy weekend pancakes.');
+    expect(recipe.servings).toMatchObject({ amount: 6, unit: 'servings' });
+    expect(recipe.prepTime).toBe(10);
+    expect(recipe.cookTime).toBe(65);
+    expect(recipe.ingredients.map((i) => i.original)).toEqual([
+      '2 cups flour',
+      '1 1/2 cups milk',
+      '2 eggs',
+    ]);
+    expect(recipe.instructions.map((i) => i.text)).toEqual([
+      'Whisk the flour, milk and eggs together. Let the batter rest.',
+      'Cook on a hot griddle for 3 minutes per side.',
+    ]);
+    expect(recipe.instructions[1].time?.value).toBe(3);
+    expect(recipe.source).toMatchObject({ scrapeMethod: 'manual', domain: 'pasted text' });
+    expect(recipe.source.url).toMatch(/^manual:/);
+  });
+
+  it('keeps subheadings as sections', () => {
+    const recipe = parser.parse(`
+Lemon Tart
+Ingredients
+For the crust:
+1 1/2 cups flour
+1/2 cup butter
+For the filling:
+3 eggs
+Instructions
+For the crust
+Press the dough into the pan.
+For serving, top with cream.
+`);
+
+    expect(recipe.ingredients.map((i) => [i.original, i.section])).toEqual([
+      ['1 1/2 cups flour', 'For the crust'],
+      ['1/2 cup butter', 'For the crust'],
+      ['3 eggs', 'For the filling'],
+    ]);
+    expect(recipe.instructions.map((i) => [i.text, i.section])).toEqual([
+      ['Press the dough into the pan.', 'For the crust'],
+      ['For serving, top with cream.', 'For the crust'],
+    ]);
+  });
+
+  it('reads ingredients by their amounts when there are no headings', () => {
+    const recipe = parser.parse(`
+Quick Guacamole
+Makes 2 cups
+2 avocados
+1 lime, juiced
+a pinch of salt
+Mash the avocados with the lime juice.
+Season with salt and serve.
+`);
+
+    expect(recipe.title).toBe('Quick Guacamole');
+    expect(recipe.servings).toMatchObject({ amount: 2, unit: 'cups' });
+    expect(recipe.ingredients).toHaveLength(3);
+    expect(recipe.instructions).toHaveLength(2);
+  });
+
+  it('throws when there are no ingredients', () => {
+    expect(() => parser.parse('Just a note about dinner.')).toThrow(AppError);
+
+    try {
+      parser.parse('Just a note about dinner.');
+    } catch (error) {
+      expect((error as AppError).code).toBe(ErrorCode.NO_INGREDIENTS_FOUND);
+    }
+  });
+});
@@ -0,0 +1,286 @@
+/**
+ * Text recipe parser
+ *
+ * Splits pasted recipe text (from emails, PDFs or family notes) into a
+ * title, ingredients and instructions, using headings where there are
+ * any and the shape of the lines where there aren't.
+ */
+
+import { v4 as uuidv4 } from 'uuid';
+import { ErrorCode, Recipe, RecipeSource, ServingInfo } from '@/types';
+import { createError } from '@/lib/utils';
+import { SectionedText, cleanLineText, toIngredients, toInstructions } from './utils/lines';
+import { parseSectionHeading } from './utils/sections';
+
+/**
+ * Domain shown for recipes that didn't come from a web page
+ */
+export const MANUAL_SOURCE_DOMAIN = 'pasted text';
+
+/**
+ * Source for a recipe that was pasted in rather than scraped
+ */
+export function createManualSource(): RecipeSource {
+  return {
+    url: `manual:${uuidv4()}`,
+    domain: MANUAL_SOURCE_DOMAIN,
+    scrapedAt: new Date(),
+    scrapeMethod: 'manual',
+  };
+}
+
+const INGREDIENTS_HEADING = /^(ingredients?|what you('ll)? need|you('ll)? need)\s*:?$/i;
+const INSTRUCTIONS_HEADING = /^(instructions?|directions?|method|preparation|steps?)\s*:?$/i;
+const OTHER_HEADING = /^(notes?|tips?|nutrition|equipment|storage)\s*:?$/i;
+
+// Bullets and step numbers in front of a line ("- ", "•", "1.", "2)", "Step 3:")
+const LIST_MARKER = /^(?:[-*•·–]\s*|(?:step\s*)?\d{1,2}\s*[.):]\s+|step\s*\d{1,2}\s*[-–]?\s*)/i;
+const NUMBERED_LINE = /^(?:step\s*)?\d{1,2}\s*[.):]\s+/i;
+
+// Lines that start with an amount ("2 cups", "½ tsp", "a pinch")
+const AMOUNT_START = /^(\d|[¼½¾⅓⅔⅛⅜⅝⅞]|(a|an|one|two|three|a few|pinch|dash|handful)\s)/i;
+
+const SERVINGS_LINE = /^(serves|servings|yield|yields|makes)\b\s*:?\s*(.*)$/i;
+const TIME_LINE = /^(prep|cook|cooking|bake|baking|total)(\s*time)?\s*:?\s*(.+)$/i;
+
+type Block = 'intro' | 'ingredients' | 'instructions' | 'other';
+
+interface TextRecipeParts {
+  /** Lines between the title and the first block (servings, times, description) */
+  intro: string[];
+  ingredients: SectionedText[];
+  instructions: SectionedText[];
+}
+
+export class TextRecipeParser {
+  /**
+   * Build a recipe from pasted text.
+   * Ingredients come back unparsed; ScraperService parses them like scraped ones.
+   */
+  parse(text: string): Recipe {
+    const lines = text
+      .split(/\r?\n/)
+      .map((line) => cleanLineText(line))
+      .filter(Boolean);
+
+    const first = lines[0] ?? '';
+    const title =
+      !this.headingBlock(first) && !this.looksLikeIngredient(first) && first.length <= 120
+        ? first
+        : undefined;
+    const body = title ? lines.slice(1) : lines;
+
+    const hasHeadings = body.some((line) => {
+      const block = this.headingBlock(line);
+      return block === 'ingredients' || block === 'instructions';
+    });
+    const { intro, ingredients, instructions } = hasHeadings
+      ? this.splitByHeadings(body)
+      : this.splitByShape(body);
+
+    if (ingredients.length === 0) {
+      throw createError(
+        ErrorCode.NO_INGREDIENTS_FOUND,
+        'Could not find any ingredients. Put them under an "Ingredients" heading, one per line.'
+      );
+    }
+
+    const details = this.readDetails(intro);
+
+    return {
+      source: createManualSource(),
+      title: title || 'Untitled Recipe',
+      description: details.description,
+      prepTime: details.prepTime,
+      cookTime: details.cookTime,
+      totalTime: details.totalTime,
+      servings: details.servings,
+      ingredients: toIngredients(ingredients),
+      instructions: toInstructions(instructions),
+      rawData: {
+        ingredients: ingredients.map((i) => i.text),
+        instructions: instructions.map((i) => i.text),
+      },
+    };
+  }
+
+  /**
+   * Which block a heading line starts, if it is one
+   */
+  private headingBlock(line: string): Block | null {
+    if (INGREDIENTS_HEADING.test(line)) return 'ingredients';
+    if (INSTRUCTIONS_HEADING.test(line)) return 'instructions';
+    if (OTHER_HEADING.test(line)) return 'other';
+    return null;
+  }
+
+  /**
+   * Follow "Ingredients" and "Instructions" headings. Subheadings inside a
+   * block ("For the sauce:") become sections.
+   */
+  private splitByHeadings(lines: string[]): TextRecipeParts {
+    const intro: string[] = [];
+    const ingredients: SectionedText[] = [];
+    const steps: SectionedText[] = [];
+    let block: Block = 'intro';
+    let section: string | undefined;
+
+    for (const line of lines) {
+      const next = this.headingBlock(line);
+      if (next) {
+        block = next;
+        section = undefined;
+        continue;
+      }
+
+      if (block === 'intro') {
+        intro.push(line);
+      } else if (block === 'ingredients' || block === 'instructions') {
+        const heading = this.parseHeading(line, block);
+        if (heading) {
+          section = heading;
+          continue;
+        }
+
+        if (block === 'ingredients') {
+          const text = line.replace(LIST_MARKER, '');
+          if (text) ingredients.push(section ? { text, section } : { text });
+        } else {
+          steps.push(section ? { text: line, section } : { text: line });
+        }
+      }
+    }
+
+    return { intro, ingredients, instructions: this.joinSteps(steps) };
+  }
+
+  /**
+   * Section heading inside a block. Steps like "For serving, top with cream"
+   * read like headings, so step headings must be short or end in a colon.
+   */
+  private parseHeading(line: string, block: Block): string | null {
+    const heading = parseSectionHeading(line);
+    if (!heading || block === 'ingredients') return heading;
+    return line.endsWith(':') || heading.split(' ').length <= 4 ? heading : null;
+  }
+
+  /**
+   * Without headings, read lines that start with an amount as ingredients
+   * and the longer lines after them as steps
+   */
+  private splitByShape(lines: string[]): TextRecipeParts {
+    const firstIngredient = lines.findIndex((line) => this.looksLikeIngredient(line));
+    if (firstIngredient === -1) {
+      return { intro: lines, ingredients: [], instructions: [] };
+    }
+
+    let end = firstIngredient;
+    while (end < lines.length && this.looksLikeIngredient(lines[end])) end++;
+
+    return {
+      intro: lines.slice(0, firstIngredient),
+      ingredients: lines
+        .slice(firstIngredient, end)
+        .map((line) => ({ text: line.replace(LIST_MARKER, '') })),
+      instructions: this.joinSteps(lines.slice(end).map((line) => ({ text: line }))),
+    };
+  }
+
+  /**
+   * Short lines starting with an amount. "1. Mix well" is a numbered step.
+   */
+  private looksLikeIngredient(line: string): boolean {
+    const text = line.replace(/^[-*•·–]\s*/, '');
+    return (
+      text.length < 100 &&
+      AMOUNT_START.test(text) &&
+      !NUMBERED_LINE.test(text) &&
+      !/[.!?]$/.test(text)
+    );
+  }
+
+  /**
+   * When steps are numbered, unnumbered lines continue the step above
+   */
+  private joinSteps(lines: SectionedText[]): SectionedText[] {
+    const numbered = lines.some((line) => NUMBERED_LINE.test(line.text));
+    const steps: SectionedText[] = [];
+
+    for (const line of lines) {
+      const text = line.text.replace(LIST_MARKER, '');
+      if (!text) continue;
+
+      const previous = steps[steps.length - 1];
+      if (
+        numbered &&
+        previous &&
+        !NUMBERED_LINE.test(line.text) &&
+        previous.section === line.section
+      ) {
+        previous.text = `${previous.text} ${text}`;
+      } else {
+        steps.push({ ...line, text });
+      }
+    }
+
+    return steps;
+  }
+
+  /**
+   * Servings, times and a description from the lines under the title
+   */
+  private readDetails(lines: string[]) {
+    let servings: ServingInfo = { amount: 4, unit: 'servings', originalText: 'Serves 4' };
+    const times: Record<'prepTime' | 'cookTime' | 'totalTime', number | undefined> = {
+      prepTime: undefined,
+      cookTime: undefined,
+      totalTime: undefined,
+    };
+    const description: string[] = [];
+
+    for (const line of lines) {
+      const servingsMatch = line.match(SERVINGS_LINE);
+      const amount = servingsMatch?.[2].match(/(\d+)\s*([a-z]+)?/i);
+      if (servingsMatch && amount) {
+        const unit = amount[2] && !/^(people|persons?)$/i.test(amount[2]) ? amount[2] : 'servings';
+        servings = {
+          amount: parseInt(amount[1], 10),
+          unit: unit.toLowerCase(),
+          originalText: line,
+        };
+        continue;
+      }
+
+      const timeMatch = line.match(TIME_LINE);
+      const minutes = timeMatch ? this.parseMinutes(timeMatch[3]) : undefined;
+      if (timeMatch && minutes) {
+        const kind = timeMatch[1].toLowerCase();
+        const key = kind === 'prep' ? 'prepTime' : kind === 'total' ? 'totalTime' : 'cookTime';
+        times[key] = minutes;
+        continue;
+      }
+
+      description.push(line);
+    }
+
+    return {
+      servings,
+      ...times,
+      description: description.length > 0 ? description.join(' ') : undefined,
+    };
+  }
+
+  /**
+   * Read durations like "1 hour 15 minutes" as minutes
+   */
+  private parseMinutes(text: string): number | undefined {
+    const hours = text.match(/(\d+)\s*(hours?|hrs?)/i);
+    const minutes = text.match(/(\d+)\s*(minutes?|mins?)/i);
+    const total =
+      (hours ? parseInt(hours[1], 10) * 60 : 0) + (minutes ? parseInt(minutes[1], 10) : 0);
+    return total > 0 ? total : undefined;
+  }
+}
+
+// Export singleton instance
+export const textRecipeParser = new TextRecipeParser();
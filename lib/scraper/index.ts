@@ -3,6 +3,13 @@
  */
 
 export * from './ScraperService';
+export * from './ScraperRegistry';
+export * from './TextRecipeParser';
+export * from './BatchImportService';
 export * from './strategies/SchemaOrgScraper';
+export * from './strategies/MicrodataScraper';
+export * from './strategies/WprmScraper';
+export * from './strategies/TastyRecipesScraper';
 export * from './strategies/GenericDomScraper';
 export * from './utils/fetcher';
+export * from './utils/instructions';
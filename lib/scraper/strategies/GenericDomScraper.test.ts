@@ -32,5 +32,77 @@ describe('GenericDomScraper', () => {
     expect(recipe?.rawData?.ingredients[2]).toContain('lime');
     expect(recipe?.rawData?.instructions?.length).toBeGreaterThanOrEqual(1);
   });
-});
 
+  it('keeps subheadings between lists as sections', async () => {
+    const html = `
+      <html>
+        <body>
+          <h1 class="entry-title">Lemon Tart</h1>
+          <div class="entry-content">
+            <h2>Ingredients</h2>
+            <h3>For the crust</h3>
+            <ul>
+              <li>1 1/4 cups flour</li>
+              <li>1/2 cup butter</li>
+            </ul>
+            <p><strong>For the filling:</strong></p>
+            <ul>
+              <li>3 large eggs</li>
+              <li>1/2 cup lemon juice</li>
+            </ul>
+            <h2>Instructions</h2>
+            <p>Press the crust into the pan and bake.</p>
+          </div>
+        </body>
+      </html>
+    `;
+
+    const scraper = new GenericDomScraper();
+    const recipe = await scraper.scrape(html, 'https://example.com/lemon-tart', 'example.com');
+
+    expect(recipe?.ingredients.map((i) => [i.original, i.section])).toEqual([
+      ['1 1/4 cups flour', 'For the crust'],
+      ['1/2 cup butter', 'For the crust'],
+      ['3 large eggs', 'For the filling'],
+      ['1/2 cup lemon juice', 'For the filling'],
+    ]);
+    expect(recipe?.rawData?.ingredients).toEqual([
+      '1 1/4 cups flour',
+      '1/2 cup butter',
+      '3 large eggs',
+      '1/2 cup lemon juice',
+    ]);
+  });
+
+  it('reads section names from grouped ingredient markup', async () => {
+    const html = `
+      <html>
+        <body>
+          <h1>Chicken Curry</h1>
+          <div class="wprm-recipe-ingredient-group">
+            <h4 class="wprm-recipe-group-name">Marinade</h4>
+            <ul>
+              <li class="wprm-recipe-ingredient">1 cup yogurt</li>
+              <li class="wprm-recipe-ingredient">1 tsp turmeric</li>
+            </ul>
+          </div>
+          <div class="wprm-recipe-ingredient-group">
+            <h4 class="wprm-recipe-group-name">Curry</h4>
+            <ul>
+              <li class="wprm-recipe-ingredient">2 onions, sliced</li>
+            </ul>
+          </div>
+          <ol>
+            <li class="wprm-recipe-instruction">Marinate the chicken for 30 minutes.</li>
+          </ol>
+        </body>
+      </html>
+    `;
+
+    const scraper = new GenericDomScraper();
+    const recipe = await scraper.scrape(html, 'https://example.com/curry', 'example.com');
+
+    expect(recipe?.ingredients.map((i) => i.section)).toEqual(['Marinade', 'Marinade', 'Curry']);
+    expect(recipe?.instructions[0].section).toBeUndefined();
+  });
+});
@@ -6,15 +6,20 @@
  */
 
 import * as cheerio from 'cheerio';
-import { v4 as uuidv4 } from 'uuid';
 import {
   Recipe,
-  ParsedIngredient,
-  Instruction,
   ServingInfo,
   RecipeSource,
 } from '@/types';
 import { logger } from '@/lib/utils';
+import type { ScraperStrategy } from '../ScraperRegistry';
+import { scoreCompleteness } from '../utils/confidence';
+import { SectionedText, toIngredients, toInstructions } from '../utils/lines';
+import { cleanSectionHeading, parseSectionHeading } from '../utils/sections';
+
+// Top-level recipe headings, which are never section names
+const MAIN_HEADING_REGEX =
+  /^\s*(ingredients?|instructions?|directions?|method|preparation|steps?)\s*:?\s*$/i;
 
 // Common CSS selectors for recipe content
 const INGREDIENT_SELECTORS = [
@@ -67,7 +72,9 @@ const IMAGE_SELECTORS = [
   '.wprm-recipe-image img',
 ];
 
-export class GenericDomScraper {
+export class GenericDomScraper implements ScraperStrategy {
+  readonly name = 'dom';
+
   /**
    * Attempt to scrape recipe using DOM parsing
    */
@@ -106,11 +113,11 @@ export class GenericDomScraper {
         description,
         image,
         servings,
-        ingredients: this.convertToIngredients(ingredients),
-        instructions: this.convertToInstructions(instructions),
+        ingredients: toIngredients(ingredients),
+        instructions: toInstructions(instructions),
         rawData: {
-          ingredients,
-          instructions,
+          ingredients: ingredients.map((i) => i.text),
+          instructions: instructions.map((i) => i.text),
         },
       };
     } catch (error) {
@@ -122,20 +129,21 @@ export class GenericDomScraper {
   /**
    * Find ingredients using various selectors
    */
-  private findIngredients($: cheerio.CheerioAPI): string[] {
+  private findIngredients($: cheerio.CheerioAPI): SectionedText[] {
     for (const selector of INGREDIENT_SELECTORS) {
       const elements = $(selector);
       if (elements.length > 0) {
-        const ingredients: string[] = [];
+        const ingredients: SectionedText[] = [];
         elements.each((_, el) => {
           const text = $(el).text().trim();
           if (text && text.length > 2 && text.length < 500) {
-            ingredients.push(text);
+            ingredients.push({ text, section: this.findListSection($(el)) });
           }
         });
-        if (ingredients.length >= 2) {
-          logger.debug(`Found ${ingredients.length} ingredients using selector: ${selector}`);
-          return ingredients;
+        const sectioned = this.applyHeadingLines(ingredients);
+        if (sectioned.length >= 2) {
+          logger.debug(`Found ${sectioned.length} ingredients using selector: ${selector}`);
+          return sectioned;
         }
       }
     }
@@ -156,15 +164,15 @@ export class GenericDomScraper {
   /**
    * Find instructions using various selectors
    */
-  private findInstructions($: cheerio.CheerioAPI): string[] {
+  private findInstructions($: cheerio.CheerioAPI): SectionedText[] {
     for (const selector of INSTRUCTION_SELECTORS) {
       const elements = $(selector);
       if (elements.length > 0) {
-        const instructions: string[] = [];
+        const instructions: SectionedText[] = [];
         elements.each((_, el) => {
           const text = $(el).text().trim();
           if (text && text.length > 10) {
-            instructions.push(text);
+            instructions.push({ text, section: this.findListSection($(el)) });
           }
         });
         if (instructions.length >= 1) {
@@ -188,6 +196,54 @@ export class GenericDomScraper {
     return [];
   }
 
+  /**
+   * Subheading just above the list an element is in (e.g., <h4>For the sauce</h4><ul>...)
+   */
+  private findListSection(el: cheerio.Cheerio<cheerio.AnyNode>): string | undefined {
+    const list = el.closest('ul,ol');
+    const container = list.length > 0 ? list : el.parent();
+
+    let prev = container.prev();
+    while (prev.length > 0 && !prev.text().trim()) {
+      prev = prev.prev();
+    }
+    if (prev.length === 0) return undefined;
+
+    const tag = prev.get(0)?.tagName?.toLowerCase() || '';
+    const className = prev.attr('class') || '';
+    const isHeading = /^h[2-6]$/.test(tag) || /group-name|section-title|subheading/i.test(className);
+    const text = prev.text().trim();
+
+    if (isHeading && text.length <= 60 && !/\d/.test(text) && !MAIN_HEADING_REGEX.test(text)) {
+      return cleanSectionHeading(text) || undefined;
+    }
+    if (tag === 'p') {
+      const heading = parseSectionHeading(text);
+      return heading && !MAIN_HEADING_REGEX.test(heading) ? heading : undefined;
+    }
+    return undefined;
+  }
+
+  /**
+   * Treat heading lines inside a list ("For the crust:") as the section of the lines below
+   */
+  private applyHeadingLines(items: SectionedText[]): SectionedText[] {
+    const result: SectionedText[] = [];
+    let current: string | undefined;
+
+    for (const item of items) {
+      const heading = parseSectionHeading(item.text);
+      if (heading) {
+        current = heading;
+        continue;
+      }
+      const section = item.section ?? current;
+      result.push(section ? { text: item.text, section } : { text: item.text });
+    }
+
+    return result;
+  }
+
   private getRecipeContentRoot($: cheerio.CheerioAPI): cheerio.Cheerio<cheerio.Element> {
     const entry = $('.entry-content').first();
     if (entry.length > 0) return entry;
@@ -202,7 +258,7 @@ export class GenericDomScraper {
     $: cheerio.CheerioAPI,
     headingRegex: RegExp,
     stopHeadingRegexes: RegExp[]
-  ): string[] {
+  ): SectionedText[] {
     const root = this.getRecipeContentRoot($);
 
     const headingEl = this.findHeadingElement(root, headingRegex);
@@ -210,8 +266,8 @@ export class GenericDomScraper {
 
     const items = this.collectListItemsAfterHeading($, headingEl, stopHeadingRegexes);
     return items
-      .map((t) => t.trim())
-      .filter((t) => t.length > 0 && t.length < 500);
+      .map((item) => ({ ...item, text: item.text.trim() }))
+      .filter((item) => item.text.length > 0 && item.text.length < 500);
   }
 
   private findHeadingElement(
@@ -233,8 +289,13 @@ export class GenericDomScraper {
     $: cheerio.CheerioAPI,
     headingEl: cheerio.Cheerio<cheerio.Element>,
     stopHeadingRegexes: RegExp[]
-  ): string[] {
-    const items: string[] = [];
+  ): SectionedText[] {
+    const items: SectionedText[] = [];
+    // Subheadings between lists ("For the sauce") name the lines that follow
+    let section: string | undefined;
+    const push = (text: string) => {
+      items.push(section ? { text, section } : { text });
+    };
 
     // Handle patterns like <p><strong>Ingredients:</strong></p>
     let cursor = headingEl;
@@ -253,18 +314,25 @@ export class GenericDomScraper {
       if (cursorTag === 'h1' || cursorTag === 'h2' || cursorTag === 'h3' || cursorTag === 'h4' || cursorTag === 'h5' || cursorTag === 'h6') {
         const t = cursor.text().trim();
         if (stopHeadingRegexes.some((r) => r.test(t))) break;
+        if (t && t.length <= 60 && !MAIN_HEADING_REGEX.test(t)) section = cleanSectionHeading(t);
         continue;
       }
 
       if (cursorTag === 'p') {
         const t = cursor.text().trim();
         if (stopHeadingRegexes.some((r) => r.test(t))) break;
+
+        const heading = parseSectionHeading(t);
+        if (heading) {
+          section = heading;
+          continue;
+        }
       }
 
       if (cursorTag === 'ul' || cursorTag === 'ol') {
         cursor.children('li').each((_, li) => {
           const t = $(li).text().trim();
-          if (t) items.push(t);
+          if (t) push(t);
         });
         continue;
       }
@@ -275,7 +343,7 @@ export class GenericDomScraper {
         if (listItems.length > 0) {
           listItems.each((_, li) => {
             const t = $(li).text().trim();
-            if (t) items.push(t);
+            if (t) push(t);
           });
           continue;
         }
@@ -284,7 +352,7 @@ export class GenericDomScraper {
       // Fallback: treat consecutive paragraphs as steps/lines
       if (cursorTag === 'p') {
         const t = cursor.text().trim();
-        if (t.length > 10) items.push(t);
+        if (t.length > 10) push(t);
       }
     }
 
@@ -372,67 +440,9 @@ export class GenericDomScraper {
   }
 
   /**
-   * Convert string array to ParsedIngredient array
-   */
-  private convertToIngredients(ingredients: string[]): ParsedIngredient[] {
-    return ingredients.map((text) => ({
-      id: uuidv4(),
-      original: text,
-      quantity: null,
-      unit: null,
-      ingredient: text,
-      parseConfidence: 0,
-    }));
-  }
-
-  /**
-   * Convert string array to Instruction array
-   */
-  private convertToInstructions(instructions: string[]): Instruction[] {
-    return instructions.map((text, index) => ({
-      step: index + 1,
-      text: text.trim(),
-      temperature: this.extractTemperature(text),
-      time: this.extractTime(text),
-    }));
-  }
-
-  /**
-   * Extract temperature from text
-   */
-  private extractTemperature(
-    text: string
-  ): { value: number; unit: 'F' | 'C'; originalText: string } | undefined {
-    const match = text.match(/(\d{2,3})\s*°?\s*(degrees?\s*)?(F|C|fahrenheit|celsius)/i);
-    if (!match) return undefined;
-
-    const value = parseInt(match[1], 10);
-    const unit = match[3].toUpperCase().startsWith('C') ? 'C' : 'F';
-
-    return {
-      value,
-      unit: unit as 'F' | 'C',
-      originalText: match[0],
-    };
-  }
-
-  /**
-   * Extract time from text
+   * Common page patterns can pick up the wrong lists, so trust it least
    */
-  private extractTime(
-    text: string
-  ): { value: number; unit: 'minutes' | 'hours'; originalText: string } | undefined {
-    const match = text.match(/(\d+)\s*(minutes?|mins?|hours?|hrs?)/i);
-    if (!match) return undefined;
-
-    const value = parseInt(match[1], 10);
-    const unitText = match[2].toLowerCase();
-    const unit = unitText.startsWith('h') ? 'hours' : 'minutes';
-
-    return {
-      value,
-      unit,
-      originalText: match[0],
-    };
+  confidence(recipe: Recipe): number {
+    return 0.6 * scoreCompleteness(recipe);
   }
 }
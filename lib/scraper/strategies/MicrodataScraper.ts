@@ -0,0 +1,249 @@
+/**
+ * Microdata and RDFa recipe scraper
+ *
+ * Older sites describe recipes with schema.org attributes on the page
+ * markup (itemscope/itemprop or typeof/property) instead of JSON-LD.
+ * The properties are read into the same shape as a JSON-LD recipe and
+ * converted by the Schema.org scraper.
+ */
+
+import * as cheerio from 'cheerio';
+import { Recipe } from '@/types';
+import { logger } from '@/lib/utils';
+import type { ScraperStrategy } from '../ScraperRegistry';
+import { scoreCompleteness } from '../utils/confidence';
+import { cleanLineText } from '../utils/lines';
+import { SchemaInstructionItem, SchemaOrgScraper, SchemaRecipe } from './SchemaOrgScraper';
+
+type MicrodataValue = string | MicrodataItem;
+
+interface MicrodataItem {
+  type: string;
+  properties: Record<string, MicrodataValue[]>;
+}
+
+const RECIPE_SELECTOR = '[itemscope][itemtype*="Recipe"], [typeof*="Recipe"]';
+
+// Properties that hold one value per list item when marked up on a whole list
+const LIST_PROPERTIES = ['recipeIngredient', 'ingredients', 'recipeInstructions'];
+
+export class MicrodataScraper implements ScraperStrategy {
+  readonly name = 'microdata';
+
+  private schemaOrgScraper = new SchemaOrgScraper();
+
+  /**
+   * Attempt to scrape the first microdata or RDFa recipe on the page
+   */
+  async scrape(html: string, url: string, domain: string): Promise<Recipe | null> {
+    try {
+      const $ = cheerio.load(html);
+      const root = $(RECIPE_SELECTOR)
+        .filter((_, el) => this.typeOf($(el)) === 'Recipe')
+        .first();
+      if (root.length === 0) return null;
+
+      const item = this.readItem($, root);
+      const data = this.toSchemaRecipe(item);
+      if (!data.recipeIngredient?.length) {
+        logger.debug('Microdata recipe has no ingredients');
+        return null;
+      }
+
+      logger.debug('Found microdata recipe data');
+      return this.schemaOrgScraper.parseSchemaRecipe(data, url, domain, 'microdata');
+    } catch (error) {
+      logger.error('Microdata scraper error', {
+        error: error instanceof Error ? error.message : 'Unknown',
+      });
+      return null;
+    }
+  }
+
+  /**
+   * Markup attributes are easier to get wrong than JSON-LD, so trust them a little less
+   */
+  confidence(recipe: Recipe): number {
+    return 0.85 * scoreCompleteness(recipe);
+  }
+
+  /**
+   * Item type without its vocabulary ("http://schema.org/Recipe" -> "Recipe")
+   */
+  private typeOf(el: cheerio.Cheerio<cheerio.Element>): string {
+    const types = (el.attr('itemtype') || el.attr('typeof') || '').split(/\s+/);
+    const names = types.map((type) => type.replace(/^.*[/:#]/, ''));
+    return names.find((name) => name === 'Recipe') || names[0] || '';
+  }
+
+  /**
+   * Property names on an element, without vocabulary prefixes ("schema:name" -> "name")
+   */
+  private propertyNames(el: cheerio.Cheerio<cheerio.Element>): string[] {
+    return (el.attr('itemprop') || el.attr('property') || '')
+      .split(/\s+/)
+      .map((name) => name.replace(/^.*[/:#]/, ''))
+      .filter(Boolean);
+  }
+
+  private isItem(el: cheerio.Cheerio<cheerio.Element>): boolean {
+    return el.attr('itemscope') !== undefined || el.attr('typeof') !== undefined;
+  }
+
+  /**
+   * Read an item's properties, stopping at nested items (which are read as their own item)
+   */
+  private readItem($: cheerio.CheerioAPI, root: cheerio.Cheerio<cheerio.Element>): MicrodataItem {
+    const properties: Record<string, MicrodataValue[]> = {};
+
+    const visit = (parent: cheerio.Cheerio<cheerio.Element>) => {
+      parent.children().each((_, child) => {
+        const el = $(child);
+        const names = this.propertyNames(el);
+        const isItem = this.isItem(el);
+
+        for (const name of names) {
+          const values = isItem ? [this.readItem($, el)] : this.readValues($, el, name);
+          properties[name] = [...(properties[name] ?? []), ...values];
+        }
+
+        if (!isItem) visit(el);
+      });
+    };
+
+    visit(root);
+    return { type: this.typeOf(root), properties };
+  }
+
+  /**
+   * Value of a property element, following the microdata rules for
+   * which attribute holds the value
+   */
+  private readValues(
+    $: cheerio.CheerioAPI,
+    el: cheerio.Cheerio<cheerio.Element>,
+    name: string
+  ): string[] {
+    const tag = el.get(0)?.tagName?.toLowerCase() || '';
+
+    const content = el.attr('content');
+    if (content !== undefined) return [content.trim()];
+
+    if (['img', 'audio', 'video', 'source'].includes(tag)) {
+      return [el.attr('data-src') || el.attr('src') || ''];
+    }
+    if (tag === 'link' || (tag === 'a' && (name === 'url' || name === 'image'))) {
+      return [el.attr('href') || ''];
+    }
+    if (tag === 'time') return [el.attr('datetime') || cleanLineText(el.text())];
+    if (tag === 'data' || tag === 'meter') return [el.attr('value') || cleanLineText(el.text())];
+
+    // A whole list marked as the ingredients or steps
+    if (LIST_PROPERTIES.includes(name)) {
+      const items = el.find('li');
+      const paragraphs = el.children('p');
+      const parts = items.length > 0 ? items : paragraphs.length > 1 ? paragraphs : null;
+      if (parts) {
+        return parts
+          .toArray()
+          .map((part) => cleanLineText($(part).text()))
+          .filter(Boolean);
+      }
+    }
+
+    return [cleanLineText(el.text())];
+  }
+
+  /**
+   * Build the JSON-LD shaped recipe from the item's properties
+   */
+  private toSchemaRecipe(item: MicrodataItem): SchemaRecipe {
+    const { properties } = item;
+    const texts = (name: string) =>
+      (properties[name] ?? []).map((value) => this.textOf(value)).filter(Boolean);
+    const first = (name: string) => texts(name)[0] || undefined;
+
+    const nutrition = properties.nutrition?.find(
+      (value): value is MicrodataItem => typeof value !== 'string'
+    );
+
+    return {
+      '@type': 'Recipe',
+      name: first('name'),
+      description: first('description'),
+      image: (properties.image ?? [])
+        .map((value) =>
+          typeof value === 'string'
+            ? value
+            : this.textOf(value.properties.url?.[0] ?? value.properties.contentUrl?.[0] ?? '')
+        )
+        .filter(Boolean),
+      author: first('author'),
+      prepTime: this.toIsoDuration(first('prepTime')),
+      cookTime: this.toIsoDuration(first('cookTime')),
+      totalTime: this.toIsoDuration(first('totalTime')),
+      recipeYield: texts('recipeYield').length > 0 ? texts('recipeYield') : undefined,
+      // "ingredients" is the property name before schema.org renamed it
+      recipeIngredient: [...texts('recipeIngredient'), ...texts('ingredients')],
+      recipeInstructions: (properties.recipeInstructions ?? []).map((value) =>
+        this.toInstructionItem(value)
+      ),
+      nutrition: nutrition
+        ? Object.fromEntries(
+            Object.entries(nutrition.properties).map(([key, values]) => [
+              key,
+              this.textOf(values[0]),
+            ])
+          )
+        : undefined,
+      keywords: first('keywords'),
+      recipeCategory: texts('recipeCategory'),
+      recipeCuisine: texts('recipeCuisine'),
+    };
+  }
+
+  /**
+   * HowToStep and HowToSection items keep their structure; anything else is a plain step
+   */
+  private toInstructionItem(value: MicrodataValue): SchemaInstructionItem {
+    if (typeof value === 'string') return value;
+
+    const { properties } = value;
+    if (properties.itemListElement) {
+      return {
+        '@type': value.type,
+        name: properties.name?.map((name) => this.textOf(name))[0],
+        itemListElement: properties.itemListElement.map((step) => this.toInstructionItem(step)),
+      };
+    }
+
+    return { '@type': value.type, text: this.textOf(value) };
+  }
+
+  /**
+   * Plain text of a value. Nested items (a Person author, a HowToStep)
+   * are read through their name or text.
+   */
+  private textOf(value: MicrodataValue | undefined): string {
+    if (!value) return '';
+    if (typeof value === 'string') return value;
+
+    const { properties } = value;
+    return this.textOf(properties.text?.[0] ?? properties.name?.[0] ?? properties.url?.[0]);
+  }
+
+  /**
+   * Times are meant to be ISO 8601 durations, but older markup often has
+   * plain text like "1 hr 15 mins"
+   */
+  private toIsoDuration(text: string | undefined): string | undefined {
+    if (!text) return undefined;
+    if (/^P/i.test(text)) return text;
+
+    const hours = text.match(/(\d+)\s*(hours?|hrs?|h\b)/i);
+    const minutes = text.match(/(\d+)\s*(minutes?|mins?|m\b)/i);
+    if (!hours && !minutes) return undefined;
+
+    return `PT${hours ? `${hours[1]}H` : ''}${minutes ? `${minutes[1]}M` : ''}`;
+  }
+}
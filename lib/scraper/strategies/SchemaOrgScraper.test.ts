@@ -0,0 +1,107 @@
+import { SchemaOrgScraper } from './SchemaOrgScraper';
+
+describe('SchemaOrgScraper', () => {
+  const page = (recipe: object) => `
+    <html>
+      <head>
+        <script type="application/ld+json">${JSON.stringify(recipe)}</script>
+      </head>
+      <body></body>
+    </html>
+  `;
+
+  const scrape = (recipe: object) =>
+    new SchemaOrgScraper().scrape(page(recipe), 'https://example.com/cake', 'example.com');
+
+  it('keeps HowToSection names on their steps', async () => {
+    const recipe = await scrape({
+      '@type': 'Recipe',
+      name: 'Layer Cake',
+      recipeIngredient: ['2 cups flour'],
+      recipeInstructions: [
+        {
+          '@type': 'HowToSection',
+          name: 'For the cake',
+          itemListElement: [
+            { '@type': 'HowToStep', text: 'Whisk the flour and sugar.' },
+            { '@type': 'HowToStep', text: 'Bake at 350°F for 30 minutes.' },
+          ],
+        },
+        {
+          '@type': 'HowToSection',
+          name: 'For the frosting:',
+          itemListElement: [{ '@type': 'HowToStep', text: 'Beat the butter until fluffy.' }],
+        },
+      ],
+    });
+
+    expect(recipe?.instructions.map((i) => [i.step, i.section])).toEqual([
+      [1, 'For the cake'],
+      [2, 'For the cake'],
+      [3, 'For the frosting'],
+    ]);
+    expect(recipe?.instructions[1].time?.value).toBe(30);
+    expect(recipe?.rawData?.instructions).toHaveLength(3);
+  });
+
+  it('turns heading lines in recipeIngredient into sections', async () => {
+    const recipe = await scrape({
+      '@type': 'Recipe',
+      name: 'Layer Cake',
+      recipeIngredient: [
+        'For the cake:',
+        '2 cups flour',
+        '1 cup sugar',
+        'For the frosting',
+        '1 cup butter',
+        'For garnish: fresh berries',
+      ],
+      recipeInstructions: ['Mix everything.'],
+    });
+
+    expect(recipe?.ingredients.map((i) => [i.original, i.section])).toEqual([
+      ['2 cups flour', 'For the cake'],
+      ['1 cup sugar', 'For the cake'],
+      ['1 cup butter', 'For the frosting'],
+      ['For garnish: fresh berries', 'For the frosting'],
+    ]);
+    expect(recipe?.rawData?.ingredients).toEqual([
+      '2 cups flour',
+      '1 cup sugar',
+      '1 cup butter',
+      'For garnish: fresh berries',
+    ]);
+  });
+
+  it('keeps "For the ..." sentences as steps', async () => {
+    const recipe = await scrape({
+      '@type': 'Recipe',
+      name: 'Lemon Cake',
+      recipeIngredient: ['2 cups flour'],
+      recipeInstructions: [
+        'For the cake:',
+        'Bake for 30 minutes.',
+        'For the glaze, whisk powdered sugar and milk.',
+        'For a thinner glaze add more milk.',
+      ],
+    });
+
+    expect(recipe?.instructions.map((i) => [i.text, i.section])).toEqual([
+      ['Bake for 30 minutes.', 'For the cake'],
+      ['For the glaze, whisk powdered sugar and milk.', 'For the cake'],
+      ['For a thinner glaze add more milk.', 'For the cake'],
+    ]);
+  });
+
+  it('leaves recipes without headings unsectioned', async () => {
+    const recipe = await scrape({
+      '@type': 'Recipe',
+      name: 'Toast',
+      recipeIngredient: ['2 slices bread', '1 tbsp butter'],
+      recipeInstructions: [{ '@type': 'HowToStep', text: 'Toast the bread and butter it.' }],
+    });
+
+    expect(recipe?.ingredients.every((i) => i.section === undefined)).toBe(true);
+    expect(recipe?.instructions[0].section).toBeUndefined();
+  });
+});
@@ -6,7 +6,6 @@
  */
 
 import * as cheerio from 'cheerio';
-import { v4 as uuidv4 } from 'uuid';
 import {
   Recipe,
   ParsedIngredient,
@@ -15,8 +14,20 @@ import {
   RecipeSource,
 } from '@/types';
 import { logger } from '@/lib/utils';
+import type { ScraperStrategy } from '../ScraperRegistry';
+import { scoreCompleteness } from '../utils/confidence';
+import { extractTemperature, extractTime } from '../utils/instructions';
+import { SectionedText, toIngredients } from '../utils/lines';
+import { cleanSectionHeading, parseSectionHeading, splitSectionHeadings } from '../utils/sections';
 
-interface SchemaRecipe {
+export type SchemaInstructionItem =
+  | string
+  | { '@type'?: string; text?: string; name?: string; itemListElement?: SchemaInstructionItem[] };
+
+/**
+ * Recipe as described by schema.org, however it was embedded in the page
+ */
+export interface SchemaRecipe {
   '@type': string | string[];
   name?: string;
   description?: string;
@@ -27,7 +38,7 @@ interface SchemaRecipe {
   totalTime?: string;
   recipeYield?: string | number | string[];
   recipeIngredient?: string[];
-  recipeInstructions?: string | string[] | { text: string }[] | { '@type': string; text: string }[];
+  recipeInstructions?: string | SchemaInstructionItem[];
   nutrition?: {
     calories?: string;
     proteinContent?: string;
@@ -40,7 +51,9 @@ interface SchemaRecipe {
   recipeCuisine?: string | string[];
 }
 
-export class SchemaOrgScraper {
+export class SchemaOrgScraper implements ScraperStrategy {
+  readonly name = 'schema-org';
+
   /**
    * Decode HTML entities in a string
    */
@@ -136,20 +149,24 @@ export class SchemaOrgScraper {
   }
 
   /**
-   * Parse Schema.org recipe data into our Recipe format
+   * Parse Schema.org recipe data into our Recipe format.
+   * Also used for recipes read from microdata and RDFa markup.
    */
-  private parseSchemaRecipe(
+  parseSchemaRecipe(
     data: SchemaRecipe,
     url: string,
-    domain: string
+    domain: string,
+    scrapeMethod: RecipeSource['scrapeMethod'] = 'schema-org'
   ): Recipe {
     const source: RecipeSource = {
       url,
       domain,
       scrapedAt: new Date(),
-      scrapeMethod: 'schema-org',
+      scrapeMethod,
     };
 
+    const ingredients = this.parseIngredients(data.recipeIngredient);
+
     return {
       source,
       title: this.decodeHtmlEntities(data.name) || 'Untitled Recipe',
@@ -160,14 +177,12 @@ export class SchemaOrgScraper {
       cookTime: this.parseISODuration(data.cookTime),
       totalTime: this.parseISODuration(data.totalTime),
       servings: this.parseServings(data.recipeYield),
-      ingredients: this.parseIngredients(data.recipeIngredient),
+      ingredients,
       instructions: this.parseInstructions(data.recipeInstructions),
       nutrition: this.parseNutrition(data.nutrition),
       tags: this.parseTags(data),
       rawData: {
-        ingredients: (data.recipeIngredient || []).map(
-          (i) => this.decodeHtmlEntities(i) || i
-        ),
+        ingredients: ingredients.map((i) => i.original),
         instructions: this.extractRawInstructions(data.recipeInstructions).map(
           (i) => this.decodeHtmlEntities(i) || i
         ),
@@ -280,38 +295,24 @@ export class SchemaOrgScraper {
   }
 
   /**
-   * Parse ingredients array
+   * Parse ingredients array. Heading lines ("For the sauce:") become the
+   * section of the ingredients below them.
    */
   private parseIngredients(ingredients: string[] | undefined): ParsedIngredient[] {
     if (!ingredients || !Array.isArray(ingredients)) return [];
 
-    return ingredients.map((ingredient) => {
-      const decoded = this.decodeHtmlEntities(ingredient) || ingredient;
-      return {
-        id: uuidv4(),
-        original: decoded,
-        quantity: null,
-        unit: null,
-        ingredient: decoded,
-        parseConfidence: 0,
-      };
-    });
+    const decoded = ingredients.map((ingredient) => this.decodeHtmlEntities(ingredient) || ingredient);
+
+    return toIngredients(splitSectionHeadings(decoded));
   }
 
   /**
    * Parse instructions from various formats
    */
-  private parseInstructions(
-    instructions:
-      | string
-      | string[]
-      | { text: string }[]
-      | { '@type': string; text: string }[]
-      | undefined
-  ): Instruction[] {
+  private parseInstructions(instructions: SchemaRecipe['recipeInstructions']): Instruction[] {
     if (!instructions) return [];
 
-    let steps: string[] = [];
+    let steps: SectionedText[] = [];
 
     if (typeof instructions === 'string') {
       // Decode first, then split by newlines or periods
@@ -319,93 +320,73 @@ export class SchemaOrgScraper {
       steps = decoded
         .split(/\n|(?<=\.)\s+(?=[A-Z])/)
         .map((s) => s.trim())
-        .filter((s) => s.length > 0);
+        .filter((s) => s.length > 0)
+        .map((text) => ({ text }));
     } else if (Array.isArray(instructions)) {
-      steps = instructions.map((item) => {
-        if (typeof item === 'string') return item;
-        if (item && typeof item === 'object' && 'text' in item) return item.text;
-        return '';
-      }).filter((s) => s.length > 0);
+      steps = this.flattenInstructions(instructions);
     }
 
-    return steps.map((text, index) => {
+    return steps.map(({ text, section }, index) => {
       const decoded = this.decodeHtmlEntities(text.trim()) || text.trim();
       return {
         step: index + 1,
         text: decoded,
-        temperature: this.extractTemperature(decoded),
-        time: this.extractTime(decoded),
+        temperature: extractTemperature(decoded),
+        time: extractTime(decoded),
+        ...(section && { section }),
       };
     });
   }
 
   /**
-   * Extract raw instructions for storage
+   * Flatten HowToSection/HowToStep items into steps, keeping section names.
+   * Plain heading strings ("For the crust:") start a section too.
    */
-  private extractRawInstructions(
-    instructions:
-      | string
-      | string[]
-      | { text: string }[]
-      | { '@type': string; text: string }[]
-      | undefined
-  ): string[] {
-    if (!instructions) return [];
+  private flattenInstructions(items: SchemaInstructionItem[], section?: string): SectionedText[] {
+    const steps: SectionedText[] = [];
+    let current = section;
+
+    for (const item of items) {
+      if (typeof item === 'string') {
+        const heading = parseSectionHeading(this.decodeHtmlEntities(item) || item);
+        if (heading) {
+          current = heading;
+        } else if (item.trim()) {
+          steps.push({ text: item, section: current });
+        }
+        continue;
+      }
 
-    if (typeof instructions === 'string') {
-      return [instructions];
-    }
+      if (!item || typeof item !== 'object') continue;
 
-    if (Array.isArray(instructions)) {
-      return instructions.map((item) => {
-        if (typeof item === 'string') return item;
-        if (item && typeof item === 'object' && 'text' in item) return item.text;
-        return '';
-      }).filter((s) => s.length > 0);
+      if (Array.isArray(item.itemListElement)) {
+        const name = this.decodeHtmlEntities(item.name);
+        steps.push(
+          ...this.flattenInstructions(item.itemListElement, name ? cleanSectionHeading(name) : current)
+        );
+      } else if (item.text) {
+        steps.push({ text: item.text, section: current });
+      }
     }
 
-    return [];
+    return steps;
   }
 
   /**
-   * Extract temperature from instruction text
+   * Extract raw instructions for storage
    */
-  private extractTemperature(
-    text: string
-  ): { value: number; unit: 'F' | 'C'; originalText: string } | undefined {
-    // Match patterns like "350°F", "350 degrees F", "180°C"
-    const match = text.match(/(\d{2,3})\s*°?\s*(degrees?\s*)?(F|C|fahrenheit|celsius)/i);
-    if (!match) return undefined;
-
-    const value = parseInt(match[1], 10);
-    const unit = match[3].toUpperCase().startsWith('C') ? 'C' : 'F';
-
-    return {
-      value,
-      unit: unit as 'F' | 'C',
-      originalText: match[0],
-    };
-  }
+  private extractRawInstructions(instructions: SchemaRecipe['recipeInstructions']): string[] {
+    if (!instructions) return [];
 
-  /**
-   * Extract time from instruction text
-   */
-  private extractTime(
-    text: string
-  ): { value: number; unit: 'minutes' | 'hours'; originalText: string } | undefined {
-    // Match patterns like "30 minutes", "1 hour", "45 min"
-    const match = text.match(/(\d+)\s*(minutes?|mins?|hours?|hrs?)/i);
-    if (!match) return undefined;
+    if (typeof instructions === 'string') {
+      return [instructions];
+    }
 
-    const value = parseInt(match[1], 10);
-    const unitText = match[2].toLowerCase();
-    const unit = unitText.startsWith('h') ? 'hours' : 'minutes';
+    if (Array.isArray(instructions)) {
+      return this.flattenInstructions(instructions).map((step) => step.text);
+    }
 
-    return {
-      value,
-      unit,
-      originalText: match[0],
-    };
+    return [];
   }
 
   /**
@@ -417,13 +398,26 @@ export class SchemaOrgScraper {
     if (!nutrition) return undefined;
 
     return {
-      calories: nutrition.calories ? parseInt(nutrition.calories, 10) : undefined,
+      calories: nutrition.calories ? parseInt(nutrition.calories.replace(/,/g, ''), 10) : undefined,
       protein: nutrition.proteinContent,
       carbohydrates: nutrition.carbohydrateContent,
       fat: nutrition.fatContent,
+      saturatedFat: nutrition.saturatedFatContent,
+      cholesterol: nutrition.cholesterolContent,
+      fiber: nutrition.fiberContent,
+      sodium: nutrition.sodiumContent,
+      sugar: nutrition.sugarContent,
+      servingSize: nutrition.servingSize,
     };
   }
 
+  /**
+   * Structured data is written for search engines, so it's usually complete
+   */
+  confidence(recipe: Recipe): number {
+    return 0.9 * scoreCompleteness(recipe);
+  }
+
   /**
    * Parse tags from keywords, category, and cuisine
    */
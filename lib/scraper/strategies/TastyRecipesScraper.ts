@@ -0,0 +1,136 @@
+/**
+ * Tasty Recipes scraper
+ *
+ * Recipe cards from the Tasty Recipes plugin keep ingredients and steps
+ * in body blocks, with subheadings between the lists for each group.
+ */
+
+import * as cheerio from 'cheerio';
+import { Recipe, RecipeSource, ServingInfo } from '@/types';
+import { logger } from '@/lib/utils';
+import type { ScraperStrategy } from '../ScraperRegistry';
+import { scoreCompleteness } from '../utils/confidence';
+import { SectionedText, cleanLineText, toIngredients, toInstructions } from '../utils/lines';
+import { cleanSectionHeading, parseSectionHeading } from '../utils/sections';
+
+export class TastyRecipesScraper implements ScraperStrategy {
+  readonly name = 'tasty';
+
+  /**
+   * Attempt to scrape the first Tasty Recipes card on the page
+   */
+  async scrape(html: string, url: string, domain: string): Promise<Recipe | null> {
+    try {
+      const $ = cheerio.load(html);
+      const card = $('.tasty-recipes').first();
+      if (card.length === 0) return null;
+
+      const ingredients = this.findLines($, card.find('.tasty-recipes-ingredients').first());
+      const title = cleanLineText(card.find('.tasty-recipes-title').first().text());
+      if (ingredients.length === 0 || !title) {
+        logger.debug('Tasty Recipes card is missing a title or ingredients');
+        return null;
+      }
+
+      const source: RecipeSource = {
+        url,
+        domain,
+        scrapedAt: new Date(),
+        scrapeMethod: 'tasty',
+      };
+      const instructions = this.findLines($, card.find('.tasty-recipes-instructions').first());
+      const image = card.find('.tasty-recipes-image img').first();
+      const tags = ['category', 'cuisine']
+        .map((field) => cleanLineText(card.find(`.tasty-recipes-${field}`).first().text()))
+        .filter(Boolean);
+
+      return {
+        source,
+        title,
+        description:
+          cleanLineText(card.find('.tasty-recipes-description').first().text()) || undefined,
+        image: image.attr('data-lazy-src') || image.attr('src') || undefined,
+        author: cleanLineText(card.find('.tasty-recipes-author-name').first().text()) || undefined,
+        prepTime: this.parseMinutes(card.find('.tasty-recipes-prep-time').first().text()),
+        cookTime: this.parseMinutes(card.find('.tasty-recipes-cook-time').first().text()),
+        totalTime: this.parseMinutes(card.find('.tasty-recipes-total-time').first().text()),
+        servings: this.findServings(card),
+        ingredients: toIngredients(ingredients),
+        instructions: toInstructions(instructions),
+        tags: tags.length > 0 ? tags : undefined,
+        rawData: {
+          ingredients: ingredients.map((i) => i.text),
+          instructions: instructions.map((i) => i.text),
+        },
+      };
+    } catch (error) {
+      logger.error('Tasty Recipes scraper error', {
+        error: error instanceof Error ? error.message : 'Unknown',
+      });
+      return null;
+    }
+  }
+
+  /**
+   * Completeness alone: unlike structured data (0.9x) the card markup isn't
+   * discounted, so an equally complete card wins
+   */
+  confidence(recipe: Recipe): number {
+    return scoreCompleteness(recipe);
+  }
+
+  /**
+   * List items in a block, named by the subheading above their list
+   */
+  private findLines(
+    $: cheerio.CheerioAPI,
+    block: cheerio.Cheerio<cheerio.Element>
+  ): SectionedText[] {
+    const lines: SectionedText[] = [];
+    let section: string | undefined;
+
+    block.find('h3, h4, h5, p, li').each((_, el) => {
+      const tag = el.tagName.toLowerCase();
+      const text = cleanLineText($(el).text());
+      if (!text) return;
+
+      if (tag === 'li') {
+        lines.push(section ? { text, section } : { text });
+      } else if (tag === 'p') {
+        // Some cards put group names in paragraphs ("For the glaze:")
+        section = parseSectionHeading(text) ?? section;
+      } else if (!/^(ingredients|instructions)$/i.test(text)) {
+        section = cleanSectionHeading(text) || section;
+      }
+    });
+
+    return lines;
+  }
+
+  /**
+   * Read durations like "1 hour 15 minutes" as minutes
+   */
+  private parseMinutes(text: string): number | undefined {
+    const hours = text.match(/(\d+)\s*(hours?|hrs?)/i);
+    const minutes = text.match(/(\d+)\s*(minutes?|mins?)/i);
+    const total =
+      (hours ? parseInt(hours[1], 10) * 60 : 0) + (minutes ? parseInt(minutes[1], 10) : 0);
+    return total > 0 ? total : undefined;
+  }
+
+  /**
+   * Yields read like "12 cookies", often followed by scaling buttons
+   */
+  private findServings(card: cheerio.Cheerio<cheerio.Element>): ServingInfo {
+    const text = cleanLineText(card.find('.tasty-recipes-yield').first().text());
+    const match = text.match(/(\d+)\s*([a-z]+)?/i);
+
+    if (!match) {
+      return { amount: 4, unit: 'servings', originalText: 'Serves 4' };
+    }
+
+    const amount = parseInt(match[1], 10);
+    const unit = match[2] && !/^x$/i.test(match[2]) ? match[2].toLowerCase() : 'servings';
+    return { amount, unit, originalText: `${amount} ${unit}` };
+  }
+}
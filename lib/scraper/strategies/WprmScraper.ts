@@ -0,0 +1,175 @@
+/**
+ * WP Recipe Maker scraper
+ *
+ * Many food blogs render their recipe cards with the WP Recipe Maker
+ * plugin. The card markup keeps ingredient and step groups, and splits
+ * each ingredient into amount, unit, name and notes.
+ */
+
+import * as cheerio from 'cheerio';
+import { Recipe, RecipeSource, ServingInfo } from '@/types';
+import { logger } from '@/lib/utils';
+import type { ScraperStrategy } from '../ScraperRegistry';
+import { scoreCompleteness } from '../utils/confidence';
+import { SectionedText, cleanLineText, toIngredients, toInstructions } from '../utils/lines';
+import { cleanSectionHeading } from '../utils/sections';
+
+export class WprmScraper implements ScraperStrategy {
+  readonly name = 'wprm';
+
+  /**
+   * Attempt to scrape the first WPRM recipe card on the page
+   */
+  async scrape(html: string, url: string, domain: string): Promise<Recipe | null> {
+    try {
+      const $ = cheerio.load(html);
+      const card = $('.wprm-recipe').first();
+      if (card.length === 0) return null;
+
+      const ingredients = this.findIngredients($, card);
+      const title = cleanLineText(card.find('.wprm-recipe-name').first().text());
+      if (ingredients.length === 0 || !title) {
+        logger.debug('WPRM recipe card is missing a title or ingredients');
+        return null;
+      }
+
+      const source: RecipeSource = {
+        url,
+        domain,
+        scrapedAt: new Date(),
+        scrapeMethod: 'wprm',
+      };
+      const instructions = this.findInstructions($, card);
+      const image = card.find('.wprm-recipe-image img').first();
+      const tags = ['course', 'cuisine', 'keyword']
+        .flatMap((field) => card.find(`.wprm-recipe-${field}`).first().text().split(','))
+        .map((tag) => tag.trim())
+        .filter(Boolean);
+
+      return {
+        source,
+        title,
+        description: cleanLineText(card.find('.wprm-recipe-summary').first().text()) || undefined,
+        image: image.attr('data-lazy-src') || image.attr('src') || undefined,
+        author: cleanLineText(card.find('.wprm-recipe-author').first().text()) || undefined,
+        prepTime: this.findTime(card, 'prep_time'),
+        cookTime: this.findTime(card, 'cook_time'),
+        totalTime: this.findTime(card, 'total_time'),
+        servings: this.findServings(card),
+        ingredients: toIngredients(ingredients),
+        instructions: toInstructions(instructions),
+        tags: tags.length > 0 ? [...new Set(tags)] : undefined,
+        rawData: {
+          ingredients: ingredients.map((i) => i.text),
+          instructions: instructions.map((i) => i.text),
+        },
+      };
+    } catch (error) {
+      logger.error('WPRM scraper error', {
+        error: error instanceof Error ? error.message : 'Unknown',
+      });
+      return null;
+    }
+  }
+
+  /**
+   * Completeness alone, with no discount: the plugin's markup is the card
+   * readers see, so it beats equally complete structured data (scored at 0.9x)
+   */
+  confidence(recipe: Recipe): number {
+    return scoreCompleteness(recipe);
+  }
+
+  /**
+   * Ingredient lines with their group names
+   */
+  private findIngredients(
+    $: cheerio.CheerioAPI,
+    card: cheerio.Cheerio<cheerio.Element>
+  ): SectionedText[] {
+    const lines: SectionedText[] = [];
+
+    card.find('.wprm-recipe-ingredient-group').each((_, group) => {
+      const section = this.groupName($(group));
+      $(group)
+        .find('.wprm-recipe-ingredient')
+        .each((_, el) => {
+          const text = this.ingredientText($(el));
+          if (text) lines.push(section ? { text, section } : { text });
+        });
+    });
+
+    return lines;
+  }
+
+  /**
+   * Rebuild an ingredient line from its parts so screen-reader text and
+   * checkboxes inside the line are left out
+   */
+  private ingredientText(el: cheerio.Cheerio<cheerio.Element>): string {
+    const part = (name: string) =>
+      cleanLineText(el.find(`.wprm-recipe-ingredient-${name}`).first().text());
+
+    const main = [part('amount'), part('unit'), part('name')].filter(Boolean).join(' ');
+    if (!main) return cleanLineText(el.text());
+
+    const notes = part('notes');
+    if (!notes) return main;
+    return notes.startsWith('(') ? `${main} ${notes}` : `${main}, ${notes}`;
+  }
+
+  /**
+   * Steps with their group names
+   */
+  private findInstructions(
+    $: cheerio.CheerioAPI,
+    card: cheerio.Cheerio<cheerio.Element>
+  ): SectionedText[] {
+    const steps: SectionedText[] = [];
+
+    card.find('.wprm-recipe-instruction-group').each((_, group) => {
+      const section = this.groupName($(group));
+      $(group)
+        .find('.wprm-recipe-instruction')
+        .each((_, el) => {
+          const textEl = $(el).find('.wprm-recipe-instruction-text');
+          const text = cleanLineText((textEl.length > 0 ? textEl : $(el)).text());
+          if (text) steps.push(section ? { text, section } : { text });
+        });
+    });
+
+    return steps;
+  }
+
+  private groupName(group: cheerio.Cheerio<cheerio.Element>): string | undefined {
+    const name = cleanSectionHeading(group.find('.wprm-recipe-group-name').first().text());
+    return name || undefined;
+  }
+
+  /**
+   * Times are split into hours and minutes fields (e.g., prep_time-hours)
+   */
+  private findTime(card: cheerio.Cheerio<cheerio.Element>, field: string): number | undefined {
+    const read = (unit: string) =>
+      parseInt(card.find(`.wprm-recipe-${field}-${unit}`).first().text(), 10) || 0;
+
+    const minutes = read('hours') * 60 + read('minutes');
+    return minutes > 0 ? minutes : undefined;
+  }
+
+  private findServings(card: cheerio.Cheerio<cheerio.Element>): ServingInfo {
+    const servings = card.find('.wprm-recipe-servings').first();
+    const amount = parseFloat(servings.attr('data-servings') || servings.text());
+    const unit = cleanLineText(card.find('.wprm-recipe-servings-unit').first().text());
+
+    if (!amount || amount <= 0) {
+      return { amount: 4, unit: 'servings', originalText: 'Serves 4' };
+    }
+
+    return {
+      amount,
+      unit: unit || 'servings',
+      originalText: `${amount} ${unit || 'servings'}`,
+    };
+  }
+}
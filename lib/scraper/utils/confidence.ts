@@ -0,0 +1,25 @@
+/**
+ * Scoring for scraped recipes, used to pick between strategies
+ */
+
+import { Recipe } from '@/types';
+
+/**
+ * How complete a scraped recipe looks, from 0 to 1.
+ * Ingredients and steps matter most; title, image and times fill in the rest.
+ */
+export function scoreCompleteness(recipe: Recipe): number {
+  let score = 0;
+
+  if (recipe.title && recipe.title !== 'Untitled Recipe') score += 0.15;
+
+  // Two or three lines is already a plausible ingredient list
+  score += 0.35 * Math.min(recipe.ingredients.length / 3, 1);
+  score += 0.3 * Math.min(recipe.instructions.length / 2, 1);
+
+  if (recipe.image) score += 0.1;
+  if (recipe.prepTime || recipe.cookTime || recipe.totalTime) score += 0.05;
+  if (recipe.description) score += 0.05;
+
+  return Math.round(score * 100) / 100;
+}
@@ -0,0 +1,54 @@
+/**
+ * Instruction text helpers shared by the scrapers and the recipe editor
+ */
+
+import { Instruction, TemperatureInfo, TimeInfo } from '@/types';
+
+/**
+ * Extract temperature from instruction text
+ */
+export function extractTemperature(text: string): TemperatureInfo | undefined {
+  // Match patterns like "350°F", "350 degrees F", "180°C"
+  const match = text.match(/(\d{2,3})\s*°?\s*(degrees?\s*)?(F|C|fahrenheit|celsius)/i);
+  if (!match) return undefined;
+
+  const value = parseInt(match[1], 10);
+  const unit = match[3].toUpperCase().startsWith('C') ? 'C' : 'F';
+
+  return {
+    value,
+    unit,
+    originalText: match[0],
+  };
+}
+
+/**
+ * Extract time from instruction text
+ */
+export function extractTime(text: string): TimeInfo | undefined {
+  // Match patterns like "30 minutes", "1 hour", "45 min"
+  const match = text.match(/(\d+)\s*(minutes?|mins?|hours?|hrs?)/i);
+  if (!match) return undefined;
+
+  const value = parseInt(match[1], 10);
+  const unitText = match[2].toLowerCase();
+  const unit = unitText.startsWith('h') ? 'hours' : 'minutes';
+
+  return {
+    value,
+    unit,
+    originalText: match[0],
+  };
+}
+
+/**
+ * Build an Instruction from step text
+ */
+export function createInstruction(text: string, step: number): Instruction {
+  return {
+    step,
+    text,
+    temperature: extractTemperature(text),
+    time: extractTime(text),
+  };
+}
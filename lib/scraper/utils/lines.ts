@@ -0,0 +1,65 @@
+/**
+ * Helpers for turning scraped text lines into recipe ingredients and steps
+ */
+
+import * as cheerio from 'cheerio';
+import { v4 as uuidv4 } from 'uuid';
+import { Instruction, ParsedIngredient } from '@/types';
+import { extractTemperature, extractTime } from './instructions';
+
+/**
+ * A scraped line and the section heading it was listed under
+ */
+export interface SectionedText {
+  text: string;
+  section?: string;
+}
+
+/**
+ * Collapse runs of whitespace left over from markup
+ */
+export function cleanLineText(text: string): string {
+  return text.replace(/\s+/g, ' ').trim();
+}
+
+/**
+ * Plain text of an HTML fragment, one line per block element or <br>
+ */
+export function htmlToText(html: string): string {
+  const $ = cheerio.load(html);
+  $('script, style, noscript').remove();
+  $('br').replaceWith('\n');
+  $('p, div, li, tr, h1, h2, h3, h4, h5, h6, section, article').each((_, el) => {
+    $(el).prepend('\n').append('\n');
+  });
+  return $('body').text();
+}
+
+/**
+ * Convert scraped lines to unparsed ingredients.
+ * ScraperService parses quantities and units once a strategy has been picked.
+ */
+export function toIngredients(lines: SectionedText[]): ParsedIngredient[] {
+  return lines.map(({ text, section }) => ({
+    id: uuidv4(),
+    original: text,
+    quantity: null,
+    unit: null,
+    ingredient: text,
+    parseConfidence: 0,
+    ...(section && { section }),
+  }));
+}
+
+/**
+ * Convert scraped steps to numbered instructions
+ */
+export function toInstructions(steps: SectionedText[]): Instruction[] {
+  return steps.map(({ text, section }, index) => ({
+    step: index + 1,
+    text: text.trim(),
+    temperature: extractTemperature(text),
+    time: extractTime(text),
+    ...(section && { section }),
+  }));
+}
@@ -0,0 +1,55 @@
+/**
+ * Section heading helpers shared by the scrapers
+ *
+ * Multi-part recipes group their ingredients and steps under headings
+ * like "For the sauce:". Sites put these headings in the ingredient list
+ * itself, in HowToSection names, or in subheadings between lists.
+ */
+
+const MAX_HEADING_LENGTH = 60;
+
+/**
+ * Tidy a heading for display ("For the Sauce:" -> "For the Sauce")
+ */
+export function cleanSectionHeading(text: string): string {
+  return text.replace(/\s+/g, ' ').trim().replace(/\s*:$/, '');
+}
+
+/**
+ * If a scraped line is really a section heading, return the heading.
+ * Headings have no amounts and either end in a colon or read "For the ...";
+ * a colon mid-line ("For garnish: parsley") means it's an ingredient, and
+ * sentence punctuation ("For the glaze, whisk...") means it's a step.
+ */
+export function parseSectionHeading(text: string): string | null {
+  const trimmed = text.replace(/\s+/g, ' ').trim();
+  if (!trimmed || trimmed.length > MAX_HEADING_LENGTH || /\d/.test(trimmed)) return null;
+  if (trimmed.slice(0, -1).includes(':')) return null;
+
+  const isForHeading = /^for (the |a |an )?\S/i.test(trimmed) && !/,|[.!?;]$/.test(trimmed);
+  if (trimmed.endsWith(':') || isForHeading) {
+    const heading = cleanSectionHeading(trimmed);
+    return heading || null;
+  }
+
+  return null;
+}
+
+/**
+ * Attach each line to the heading above it, dropping the heading lines
+ */
+export function splitSectionHeadings(lines: string[]): { text: string; section?: string }[] {
+  const result: { text: string; section?: string }[] = [];
+  let section: string | undefined;
+
+  for (const line of lines) {
+    const heading = parseSectionHeading(line);
+    if (heading) {
+      section = heading;
+      continue;
+    }
+    result.push(section ? { text: line, section } : { text: line });
+  }
+
+  return result;
+}
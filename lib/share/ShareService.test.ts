@@ -0,0 +1,101 @@
+/**
+ * @jest-environment node
+ */
+
+import { ErrorCode, Recipe } from '@/types';
+import { collectionService } from '@/lib/collections';
+import { ShareService } from './ShareService';
+
+describe('ShareService', () => {
+  const service = new ShareService();
+
+  const recipe = {
+    id: 'r1',
+    title: 'Lemon Tart',
+    source: {
+      url: 'https://www.example.com/lemon-tart',
+      domain: 'example.com',
+      scrapedAt: new Date('2024-03-01T10:00:00Z'),
+      scrapeMethod: 'schema-org',
+    },
+    servings: { amount: 8, unit: 'slices', originalText: '8 slices' },
+    ingredients: [],
+    instructions: [],
+    versions: [],
+    // Saved-recipe fields that must not be shared
+    notes: 'Use less sugar next time',
+    userTags: ['dessert'],
+  } as Recipe;
+
+  it('shares a copy of the recipe without personal fields', () => {
+    const link = service.createRecipeLink(recipe, { multiplier: 2 });
+
+    expect(link).toMatchObject({
+      targetType: 'recipe',
+      targetId: 'https://www.example.com/lemon-tart',
+      title: 'Lemon Tart',
+      multiplier: 2,
+      expiresAt: null,
+    });
+    expect(link.token).toMatch(/^[0-9a-f]{32}$/);
+    expect(link.content.type).toBe('recipe');
+    const shared = link.content.type === 'recipe' ? link.content.recipe : {};
+    expect(shared).toMatchObject({ id: 'r1', title: 'Lemon Tart' });
+    expect(shared).not.toHaveProperty('notes');
+    expect(shared).not.toHaveProperty('userTags');
+    expect(shared).not.toHaveProperty('versions');
+  });
+
+  it('shares a collection with its recipes in order', () => {
+    const collection = collectionService.createCollection({
+      name: 'Desserts',
+      description: 'Sweet things',
+    });
+
+    const link = service.createCollectionLink(collection, [recipe], { expiresInDays: 7 });
+
+    expect(link).toMatchObject({ targetType: 'collection', targetId: collection.id });
+    expect(link.content).toMatchObject({
+      type: 'collection',
+      name: 'Desserts',
+      description: 'Sweet things',
+      recipes: [{ id: 'r1', title: 'Lemon Tart' }],
+    });
+    const days = (new Date(link.expiresAt as string).getTime() - Date.now()) / 86400000;
+    expect(days).toBeCloseTo(7, 2);
+  });
+
+  it('rejects scales and expiries out of range', () => {
+    expect(() => service.createRecipeLink(recipe, { multiplier: 20 })).toThrow(
+      expect.objectContaining({ code: ErrorCode.VALIDATION_ERROR })
+    );
+    expect(() => service.createRecipeLink(recipe, { expiresInDays: 0 })).toThrow(
+      expect.objectContaining({ code: ErrorCode.VALIDATION_ERROR })
+    );
+    expect(() => service.createRecipeLink(recipe, { expiresInDays: 0.01 })).toThrow(
+      'Expiry must be at least one whole day'
+    );
+  });
+
+  it('reports revoked and expired links', () => {
+    const now = new Date('2026-05-01T12:00:00Z');
+
+    expect(service.getStatus({ expiresAt: null, revokedAt: null }, now)).toBe('active');
+    expect(service.getStatus({ expiresAt: '2026-05-02T00:00:00Z', revokedAt: null }, now)).toBe(
+      'active'
+    );
+    expect(service.getStatus({ expiresAt: '2026-04-30T00:00:00Z', revokedAt: null }, now)).toBe(
+      'expired'
+    );
+    expect(service.getStatus({ expiresAt: null, revokedAt: '2026-04-01T00:00:00Z' }, now)).toBe(
+      'revoked'
+    );
+  });
+
+  it('builds the public URL and fresh tokens', () => {
+    expect(service.getShareUrl('abc123', 'https://recipes.example.com/')).toBe(
+      'https://recipes.example.com/shared/abc123'
+    );
+    expect(service.generateToken()).not.toBe(service.generateToken());
+  });
+});
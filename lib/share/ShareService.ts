@@ -0,0 +1,155 @@
+/**
+ * Share service
+ *
+ * Builds public share links for a recipe or a collection. The shared recipes
+ * are copied into the link with only the fields a visitor needs, so notes,
+ * edit history and later changes stay private.
+ */
+
+import {
+  ErrorCode,
+  NewShareLink,
+  Recipe,
+  RecipeCollection,
+  ShareLink,
+  ShareLinkStatus,
+} from '@/types';
+import { createError } from '@/lib/utils';
+
+/** Same range the scale API accepts */
+const MIN_MULTIPLIER = 0.1;
+const MAX_MULTIPLIER = 10;
+
+const TOKEN_BYTES = 16;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * How a link is shared
+ */
+export interface ShareLinkOptions {
+  /** Scale to show the recipes at (default 1) */
+  multiplier?: number;
+  /** Whole days until the link stops working; null or omitted for never */
+  expiresInDays?: number | null;
+}
+
+export class ShareService {
+  /**
+   * Create a link to one recipe
+   */
+  createRecipeLink(recipe: Recipe, options: ShareLinkOptions = {}): NewShareLink {
+    return {
+      ...this.createLink(options),
+      targetType: 'recipe',
+      targetId: recipe.source.url,
+      title: recipe.title,
+      content: { type: 'recipe', recipe: this.toSharedRecipe(recipe) },
+    };
+  }
+
+  /**
+   * Create a link to a collection and the given saved recipes in it
+   */
+  createCollectionLink(
+    collection: RecipeCollection,
+    recipes: Recipe[],
+    options: ShareLinkOptions = {}
+  ): NewShareLink {
+    return {
+      ...this.createLink(options),
+      targetType: 'collection',
+      targetId: collection.id,
+      title: collection.name,
+      content: {
+        type: 'collection',
+        name: collection.name,
+        description: collection.description,
+        coverImage: collection.coverImage,
+        recipes: recipes.map((recipe) => this.toSharedRecipe(recipe)),
+      },
+    };
+  }
+
+  /**
+   * Whether a link still works
+   */
+  getStatus(
+    link: Pick<ShareLink, 'expiresAt' | 'revokedAt'>,
+    now: Date = new Date()
+  ): ShareLinkStatus {
+    if (link.revokedAt) return 'revoked';
+    if (link.expiresAt && new Date(link.expiresAt).getTime() <= now.getTime()) return 'expired';
+    return 'active';
+  }
+
+  /**
+   * Public URL of a link
+   */
+  getShareUrl(token: string, origin: string): string {
+    return `${origin.replace(/\/+$/, '')}/shared/${encodeURIComponent(token)}`;
+  }
+
+  /**
+   * Random URL-safe token (128 bits, hex encoded)
+   */
+  generateToken(): string {
+    const bytes = crypto.getRandomValues(new Uint8Array(TOKEN_BYTES));
+    return Array.from(bytes, (byte) => byte.toString(16).padStart(2, '0')).join('');
+  }
+
+  private createLink(
+    options: ShareLinkOptions
+  ): Pick<NewShareLink, 'token' | 'multiplier' | 'expiresAt'> {
+    const { multiplier = 1, expiresInDays = null } = options;
+
+    if (
+      !Number.isFinite(multiplier) ||
+      multiplier < MIN_MULTIPLIER ||
+      multiplier > MAX_MULTIPLIER
+    ) {
+      throw createError(
+        ErrorCode.VALIDATION_ERROR,
+        `Scale must be between ${MIN_MULTIPLIER} and ${MAX_MULTIPLIER}`,
+        { multiplier }
+      );
+    }
+    if (expiresInDays !== null && !(Number.isInteger(expiresInDays) && expiresInDays >= 1)) {
+      throw createError(ErrorCode.VALIDATION_ERROR, 'Expiry must be at least one whole day', {
+        expiresInDays,
+      });
+    }
+
+    return {
+      token: this.generateToken(),
+      multiplier,
+      expiresAt:
+        expiresInDays === null ? null : new Date(Date.now() + expiresInDays * DAY_MS).toISOString(),
+    };
+  }
+
+  /**
+   * The parts of a recipe a visitor sees
+   */
+  private toSharedRecipe(recipe: Recipe): Recipe {
+    return {
+      id: recipe.id,
+      source: recipe.source,
+      title: recipe.title,
+      description: recipe.description,
+      image: recipe.image,
+      author: recipe.author,
+      prepTime: recipe.prepTime,
+      cookTime: recipe.cookTime,
+      totalTime: recipe.totalTime,
+      servings: recipe.servings,
+      ingredients: recipe.ingredients,
+      instructions: recipe.instructions,
+      nutrition: recipe.nutrition,
+      nutritionEstimate: recipe.nutritionEstimate,
+      tags: recipe.tags,
+    };
+  }
+}
+
+// Export singleton instance
+export const shareService = new ShareService();
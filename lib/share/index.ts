@@ -0,0 +1,5 @@
+/**
+ * Share exports
+ */
+
+export * from './ShareService';
@@ -0,0 +1,235 @@
+import { ShoppingListService, normalizeIngredientName } from './ShoppingListService';
+import { ParsedIngredient, Recipe } from '@/types';
+
+describe('ShoppingListService', () => {
+  let service: ShoppingListService;
+
+  beforeEach(() => {
+    service = new ShoppingListService();
+  });
+
+  const createMockIngredient = (
+    value: number | null,
+    unit: string | null,
+    ingredient: string
+  ): ParsedIngredient => ({
+    id: `${ingredient}-${value}-${unit}`,
+    original: `${value ?? ''} ${unit ?? ''} ${ingredient}`.trim(),
+    quantity:
+      value === null ? null : { type: 'single', value, displayValue: String(value) },
+    unit,
+    ingredient,
+    parseConfidence: 0.9,
+  });
+
+  const createMockRecipe = (id: string, ingredients: ParsedIngredient[]): Recipe => ({
+    id,
+    title: `Recipe ${id}`,
+    servings: { amount: 4, unit: 'servings', originalText: '4 servings' },
+    ingredients,
+    instructions: [],
+    source: {
+      url: `https://example.com/${id}`,
+      domain: 'example.com',
+      scrapedAt: new Date(),
+      scrapeMethod: 'schema-org',
+    },
+  });
+
+  describe('normalizeIngredientName', () => {
+    it('lowercases and singularizes the last word', () => {
+      expect(normalizeIngredientName('Tomatoes')).toBe('tomato');
+      expect(normalizeIngredientName('cherries')).toBe('cherry');
+      expect(normalizeIngredientName('large eggs')).toBe('large egg');
+    });
+
+    it('leaves words ending in ss or us alone', () => {
+      expect(normalizeIngredientName('swiss')).toBe('swiss');
+      expect(normalizeIngredientName('asparagus')).toBe('asparagus');
+    });
+
+    it('strips parentheticals and punctuation', () => {
+      expect(normalizeIngredientName('flour (all-purpose)')).toBe('flour');
+      expect(normalizeIngredientName('butter, softened')).toBe('butter softened');
+    });
+  });
+
+  describe('createList', () => {
+    it('merges like ingredients across recipes', () => {
+      const list = service.createList('Weekly', [
+        { recipe: createMockRecipe('a', [createMockIngredient(2, 'cup', 'flour')]) },
+        { recipe: createMockRecipe('b', [createMockIngredient(1, 'cup', 'flour')]) },
+      ]);
+
+      expect(list.items).toHaveLength(1);
+      expect(list.items[0].quantity).toBe(3);
+      expect(list.items[0].unit).toBe('cup');
+      expect(list.items[0].sources).toHaveLength(2);
+      expect(list.recipes.map((r) => r.recipeId)).toEqual(['a', 'b']);
+    });
+
+    it('applies the recipe multiplier', () => {
+      const list = service.createList('Weekly', [
+        {
+          recipe: createMockRecipe('a', [createMockIngredient(2, 'cup', 'flour')]),
+          multiplier: 2,
+        },
+      ]);
+
+      expect(list.items[0].quantity).toBe(4);
+      expect(list.recipes[0].multiplier).toBe(2);
+    });
+
+    it('converts compatible units to the larger unit before summing', () => {
+      const list = service.createList('Weekly', [
+        { recipe: createMockRecipe('a', [createMockIngredient(1, 'cup', 'milk')]) },
+        { recipe: createMockRecipe('b', [createMockIngredient(8, 'tablespoon', 'milk')]) },
+      ]);
+
+      expect(list.items).toHaveLength(1);
+      expect(list.items[0].unit).toBe('cup');
+      expect(list.items[0].quantity).toBeCloseTo(1.5, 1);
+    });
+
+    it('keeps incompatible units as separate items', () => {
+      const list = service.createList('Weekly', [
+        { recipe: createMockRecipe('a', [createMockIngredient(1, 'cup', 'butter')]) },
+        { recipe: createMockRecipe('b', [createMockIngredient(100, 'gram', 'butter')]) },
+      ]);
+
+      expect(list.items).toHaveLength(2);
+    });
+
+    it('sums unitless counts', () => {
+      const list = service.createList('Weekly', [
+        { recipe: createMockRecipe('a', [createMockIngredient(2, null, 'eggs')]) },
+        { recipe: createMockRecipe('b', [createMockIngredient(1, null, 'egg')]) },
+      ]);
+
+      expect(list.items).toHaveLength(1);
+      expect(list.items[0].quantity).toBe(3);
+    });
+
+    it('attaches "as needed" lines to an existing item', () => {
+      const list = service.createList('Weekly', [
+        { recipe: createMockRecipe('a', [createMockIngredient(1, 'teaspoon', 'salt')]) },
+        { recipe: createMockRecipe('b', [createMockIngredient(null, null, 'salt')]) },
+      ]);
+
+      expect(list.items).toHaveLength(1);
+      expect(list.items[0].quantity).toBe(1);
+      expect(list.items[0].sources).toHaveLength(2);
+    });
+
+    it('assigns store aisles', () => {
+      const list = service.createList('Weekly', [
+        {
+          recipe: createMockRecipe('a', [
+            createMockIngredient(2, null, 'onions'),
+            createMockIngredient(1, 'cup', 'unsalted butter'),
+            createMockIngredient(1, 'teaspoon', 'salt'),
+          ]),
+        },
+      ]);
+
+      const aisles = Object.fromEntries(list.items.map((i) => [i.name, i.aisle]));
+      expect(aisles).toEqual({
+        onions: 'produce',
+        'unsalted butter': 'dairy-eggs',
+        salt: 'spices',
+      });
+    });
+  });
+
+  describe('addRecipe', () => {
+    it('replaces the recipe reference when the same recipe is added again', () => {
+      const recipe = createMockRecipe('a', [createMockIngredient(1, 'cup', 'flour')]);
+      let list = service.createList('Weekly', [{ recipe }]);
+      list = service.addRecipe(list, { recipe, multiplier: 2 });
+
+      expect(list.recipes).toHaveLength(1);
+      expect(list.recipes[0].multiplier).toBe(2);
+      expect(list.items).toHaveLength(1);
+      expect(list.items[0].quantity).toBe(2);
+      expect(list.items[0].sources).toHaveLength(1);
+    });
+
+    it('replaces only its own share of items merged with other recipes', () => {
+      const bread = createMockRecipe('a', [
+        createMockIngredient(2, 'cup', 'flour'),
+        createMockIngredient(1, 'tsp', 'yeast'),
+      ]);
+      const cake = createMockRecipe('b', [createMockIngredient(1, 'cup', 'flour')]);
+      let list = service.createList('Weekly', [{ recipe: bread }, { recipe: cake }]);
+      list = service.addRecipe(list, { recipe: bread });
+
+      const flour = list.items.find((item) => item.key === 'flour');
+      expect(flour?.quantity).toBe(3);
+      expect(flour?.sources.map((s) => s.recipeId)).toEqual(['b', 'a']);
+      expect(list.items.filter((item) => item.key === 'yeast')).toHaveLength(1);
+    });
+
+    it('does not mutate the original list', () => {
+      const list = service.createList('Weekly', [
+        { recipe: createMockRecipe('a', [createMockIngredient(1, 'cup', 'flour')]) },
+      ]);
+      service.addRecipe(list, {
+        recipe: createMockRecipe('b', [createMockIngredient(1, 'cup', 'flour')]),
+      });
+
+      expect(list.items[0].quantity).toBe(1);
+      expect(list.items[0].sources).toHaveLength(1);
+    });
+  });
+
+  describe('toggleItem and clearChecked', () => {
+    it('checks items off and clears them', () => {
+      let list = service.createList('Weekly', [
+        {
+          recipe: createMockRecipe('a', [
+            createMockIngredient(1, 'cup', 'flour'),
+            createMockIngredient(2, null, 'eggs'),
+          ]),
+        },
+      ]);
+      const flourId = list.items.find((i) => i.name === 'flour')!.id;
+
+      list = service.toggleItem(list, flourId);
+      expect(list.items.find((i) => i.id === flourId)?.checked).toBe(true);
+
+      list = service.clearChecked(list);
+      expect(list.items).toHaveLength(1);
+      expect(list.items[0].name).toBe('eggs');
+    });
+  });
+
+  describe('groupByAisle', () => {
+    it('returns non-empty groups in store order', () => {
+      const list = service.createList('Weekly', [
+        {
+          recipe: createMockRecipe('a', [
+            createMockIngredient(1, 'teaspoon', 'salt'),
+            createMockIngredient(2, null, 'carrots'),
+          ]),
+        },
+      ]);
+
+      const groups = service.groupByAisle(list.items);
+      expect(groups.map((g) => g.aisle)).toEqual(['produce', 'spices']);
+    });
+  });
+
+  describe('formatForClipboard', () => {
+    it('includes aisle headers and check boxes', () => {
+      let list = service.createList('Weekly', [
+        { recipe: createMockRecipe('a', [createMockIngredient(2, null, 'carrots')]) },
+      ]);
+      list = service.toggleItem(list, list.items[0].id);
+
+      const text = service.formatForClipboard(list);
+      expect(text).toContain('PRODUCE');
+      expect(text).toContain('[x] 2 carrots');
+      expect(text).toContain('For: Recipe a');
+    });
+  });
+});
@@ -0,0 +1,352 @@
+/**
+ * Shopping list service
+ *
+ * Builds shopping lists from scaled recipe ingredients, merging like
+ * ingredients into a common unit and grouping them by store aisle.
+ */
+
+import { v4 as uuidv4 } from 'uuid';
+import {
+  Recipe,
+  ScaledIngredient,
+  ShoppingList,
+  ShoppingListItem,
+  ShoppingListRecipeRef,
+  StoreAisle,
+} from '@/types';
+import { convertUnit, getUnit, getStoreAisle, STORE_AISLES } from '@/constants';
+import { scalingService } from '@/lib/scaling';
+
+/**
+ * A recipe to add to a shopping list
+ */
+export interface ShoppingListRecipeInput {
+  recipe: Recipe;
+  /** Defaults to 1 */
+  multiplier?: number;
+}
+
+/**
+ * Items grouped under a store aisle
+ */
+export interface ShoppingListAisleGroup {
+  aisle: StoreAisle;
+  label: string;
+  items: ShoppingListItem[];
+}
+
+/**
+ * Normalize an ingredient name so "Tomatoes" and "tomato" merge
+ */
+export function normalizeIngredientName(name: string): string {
+  const cleaned = name
+    .toLowerCase()
+    .replace(/\([^)]*\)/g, '')
+    .replace(/^of\s+/, '')
+    .replace(/[^a-z0-9\s-]/g, '')
+    .replace(/\s+/g, ' ')
+    .trim();
+
+  const words = cleaned.split(' ');
+  const last = words[words.length - 1] || '';
+
+  let singular = last;
+  if (last.endsWith('ies') && last.length > 4) {
+    singular = `${last.slice(0, -3)}y`;
+  } else if (last.endsWith('oes') || last.endsWith('ches') || last.endsWith('shes')) {
+    singular = last.slice(0, -2);
+  } else if (last.endsWith('s') && !last.endsWith('ss') && !last.endsWith('us') && last.length > 3) {
+    singular = last.slice(0, -1);
+  }
+
+  return [...words.slice(0, -1), singular].join(' ');
+}
+
+export class ShoppingListService {
+  /**
+   * Create a new shopping list from one or more recipes
+   */
+  createList(name: string, inputs: ShoppingListRecipeInput[] = []): ShoppingList {
+    const now = new Date().toISOString();
+    const list: ShoppingList = {
+      id: uuidv4(),
+      name,
+      recipes: [],
+      items: [],
+      createdAt: now,
+      updatedAt: now,
+    };
+
+    return inputs.reduce((acc, input) => this.addRecipe(acc, input), list);
+  }
+
+  /**
+   * Scale a recipe and merge its ingredients into the list
+   */
+  addRecipe(list: ShoppingList, input: ShoppingListRecipeInput): ShoppingList {
+    const multiplier = input.multiplier ?? 1;
+    const scaledIngredients = input.recipe.ingredients.map((ingredient) =>
+      scalingService.scaleIngredientForDisplay(ingredient, multiplier)
+    );
+
+    return this.addScaledIngredients(
+      list,
+      {
+        recipeId: input.recipe.id || input.recipe.source.url,
+        title: input.recipe.title,
+        multiplier,
+      },
+      scaledIngredients
+    );
+  }
+
+  /**
+   * Merge already-scaled ingredients into the list. Adding a recipe that's
+   * already on the list replaces its earlier amounts rather than adding to them.
+   */
+  addScaledIngredients(
+    list: ShoppingList,
+    recipeRef: ShoppingListRecipeRef,
+    ingredients: ScaledIngredient[]
+  ): ShoppingList {
+    const items = this.removeRecipeItems(list.items, recipeRef.recipeId);
+
+    for (const ingredient of ingredients) {
+      this.mergeIngredient(items, recipeRef, ingredient);
+    }
+
+    const recipes = [
+      ...list.recipes.filter((r) => r.recipeId !== recipeRef.recipeId),
+      recipeRef,
+    ];
+
+    return {
+      ...list,
+      recipes,
+      items,
+      updatedAt: new Date().toISOString(),
+    };
+  }
+
+  /**
+   * Toggle the checked state of an item
+   */
+  toggleItem(list: ShoppingList, itemId: string): ShoppingList {
+    return {
+      ...list,
+      items: list.items.map((item) =>
+        item.id === itemId ? { ...item, checked: !item.checked } : item
+      ),
+      updatedAt: new Date().toISOString(),
+    };
+  }
+
+  /**
+   * Remove all checked items
+   */
+  clearChecked(list: ShoppingList): ShoppingList {
+    return {
+      ...list,
+      items: list.items.filter((item) => !item.checked),
+      updatedAt: new Date().toISOString(),
+    };
+  }
+
+  /**
+   * Group items by store aisle, in store order
+   */
+  groupByAisle(items: ShoppingListItem[]): ShoppingListAisleGroup[] {
+    return STORE_AISLES.map(({ id, label }) => ({
+      aisle: id,
+      label,
+      items: items
+        .filter((item) => item.aisle === id)
+        .sort((a, b) => a.name.localeCompare(b.name)),
+    })).filter((group) => group.items.length > 0);
+  }
+
+  /**
+   * Format the list as plain text for the clipboard
+   */
+  formatForClipboard(list: ShoppingList): string {
+    const lines: string[] = [list.name, '='.repeat(list.name.length), ''];
+
+    for (const group of this.groupByAisle(list.items)) {
+      lines.push(group.label.toUpperCase());
+      group.items.forEach((item) => {
+        lines.push(`[${item.checked ? 'x' : ' '}] ${item.displayText}`);
+      });
+      lines.push('');
+    }
+
+    if (list.recipes.length > 0) {
+      lines.push(`For: ${list.recipes.map((r) => r.title).join(', ')}`);
+    }
+
+    return lines.join('\n').trim();
+  }
+
+  /**
+   * Merge a single scaled ingredient into the item list (mutates `items`)
+   */
+  private mergeIngredient(
+    items: ShoppingListItem[],
+    recipeRef: ShoppingListRecipeRef,
+    ingredient: ScaledIngredient
+  ): void {
+    const name = ingredient.ingredient.trim() || ingredient.original.trim();
+    if (!name) return;
+
+    const key = normalizeIngredientName(name);
+    const quantity = ingredient.scaledQuantity
+      ? ingredient.scaledQuantity.valueTo ?? ingredient.scaledQuantity.value
+      : null;
+    const unit = quantity !== null ? ingredient.scaledUnit : null;
+
+    const source = {
+      recipeId: recipeRef.recipeId,
+      recipeTitle: recipeRef.title,
+      ingredientId: ingredient.id,
+      displayText: ingredient.displayText,
+      quantity,
+      unit,
+    };
+
+    const sameKey = items.filter((item) => item.key === key);
+
+    // "Salt, to taste" style lines just attach to any existing entry
+    if (quantity === null) {
+      const target = sameKey[0];
+      if (target) {
+        target.sources.push(source);
+        target.checked = false;
+        return;
+      }
+    } else {
+      for (const target of sameKey) {
+        const merged = this.sumQuantities(target.quantity, target.unit, quantity, unit);
+        if (merged) {
+          target.quantity = merged.quantity;
+          target.unit = merged.unit;
+          target.displayText = this.formatItem(name, merged.quantity, merged.unit);
+          target.sources.push(source);
+          target.checked = false;
+          return;
+        }
+      }
+    }
+
+    items.push({
+      id: uuidv4(),
+      key,
+      name,
+      quantity,
+      unit,
+      displayText: quantity !== null ? this.formatItem(name, quantity, unit) : name,
+      aisle: getStoreAisle(name),
+      checked: false,
+      sources: [source],
+    });
+  }
+
+  /**
+   * Copy the items without one recipe's lines: items only that recipe needed
+   * are dropped, and shared items lose the amounts it added
+   */
+  private removeRecipeItems(items: ShoppingListItem[], recipeId: string): ShoppingListItem[] {
+    const result: ShoppingListItem[] = [];
+
+    for (const item of items) {
+      const sources = item.sources.filter((source) => source.recipeId !== recipeId);
+      if (sources.length === 0) continue;
+      if (sources.length === item.sources.length) {
+        result.push({ ...item, sources });
+        continue;
+      }
+
+      let quantity = item.quantity;
+      for (const source of item.sources) {
+        if (source.recipeId !== recipeId || quantity === null || source.quantity == null) continue;
+        const removed =
+          source.unit && item.unit
+            ? convertUnit(source.quantity, source.unit, item.unit)
+            : !source.unit && !item.unit
+              ? source.quantity
+              : null;
+        if (removed !== null) quantity -= removed;
+      }
+
+      // Nothing measurable left, only "to taste" lines from other recipes
+      if (quantity !== null && quantity <= 1e-9) {
+        result.push({ ...item, quantity: null, unit: null, displayText: item.name, sources });
+        continue;
+      }
+
+      result.push({
+        ...item,
+        quantity,
+        displayText:
+          quantity !== null ? this.formatItem(item.name, quantity, item.unit) : item.displayText,
+        sources,
+      });
+    }
+
+    return result;
+  }
+
+  /**
+   * Sum two quantities, converting to the larger of the two units.
+   * Returns null when the units can't be converted into each other.
+   */
+  private sumQuantities(
+    existingQuantity: number | null,
+    existingUnit: string | null,
+    quantity: number,
+    unit: string | null
+  ): { quantity: number; unit: string | null } | null {
+    if (existingQuantity === null) {
+      return { quantity, unit };
+    }
+
+    if (!existingUnit || !unit) {
+      return !existingUnit && !unit ? { quantity: existingQuantity + quantity, unit: null } : null;
+    }
+
+    const existingDef = getUnit(existingUnit);
+    const incomingDef = getUnit(unit);
+    if (!existingDef || !incomingDef) {
+      return existingUnit === unit ? { quantity: existingQuantity + quantity, unit } : null;
+    }
+
+    const targetUnit =
+      incomingDef.baseConversion > existingDef.baseConversion ? unit : existingUnit;
+
+    const existingConverted = convertUnit(existingQuantity, existingUnit, targetUnit);
+    const incomingConverted = convertUnit(quantity, unit, targetUnit);
+    if (existingConverted === null || incomingConverted === null) {
+      return null;
+    }
+
+    return { quantity: existingConverted + incomingConverted, unit: targetUnit };
+  }
+
+  /**
+   * Format a merged item using the scaling service's display rules
+   */
+  private formatItem(name: string, quantity: number, unit: string | null): string {
+    return scalingService.scaleIngredientForDisplay(
+      {
+        id: 'shopping-item',
+        original: name,
+        quantity: { type: 'single', value: quantity, displayValue: String(quantity) },
+        unit,
+        ingredient: name,
+        parseConfidence: 1,
+      },
+      1
+    ).displayText;
+  }
+}
+
+// Export singleton instance
+export const shoppingListService = new ShoppingListService();
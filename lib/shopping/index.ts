@@ -0,0 +1,5 @@
+/**
+ * Shopping list exports
+ */
+
+export * from './ShoppingListService';
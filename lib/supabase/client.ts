@@ -27,3 +27,15 @@ export function isSupabaseConfigured(): boolean {
     process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY
   );
 }
+
+/**
+ * Get a Supabase client instance
+ * Throws error if not configured
+ */
+export function requireClient(): SupabaseClient {
+  const client = createClient();
+  if (!client) {
+    throw new Error('Supabase is not configured. Please set environment variables.');
+  }
+  return client;
+}
@@ -0,0 +1,74 @@
+/**
+ * Collection CRUD operations for Supabase
+ */
+
+import { requireClient } from './client';
+import type { DbCollection, DbQueryResult, DbListResult } from './types';
+
+const TABLE_NAME = 'recipe_collections';
+
+/**
+ * Get all collections for a user
+ */
+export async function getCollections(userId: string): Promise<DbListResult<DbCollection>> {
+  try {
+    const client = requireClient();
+    const { data, error } = await client
+      .from(TABLE_NAME)
+      .select('*')
+      .eq('user_id', userId)
+      .eq('is_deleted', false)
+      .order('position', { ascending: true });
+
+    if (error) throw error;
+    return { data: data || [], error: null };
+  } catch (error) {
+    console.error('Failed to get collections:', error);
+    return { data: [], error: error as Error };
+  }
+}
+
+/**
+ * Create or update a collection.
+ * IDs are generated on the client, so the same call handles both.
+ */
+export async function upsertCollection(
+  collection: DbCollection
+): Promise<DbQueryResult<DbCollection>> {
+  try {
+    const client = requireClient();
+    const { data, error } = await client
+      .from(TABLE_NAME)
+      .upsert(collection, { onConflict: 'id' })
+      .select()
+      .single();
+
+    if (error) throw error;
+    return { data, error: null };
+  } catch (error) {
+    console.error('Failed to save collection:', error);
+    return { data: null, error: error as Error };
+  }
+}
+
+/**
+ * Soft delete a collection
+ */
+export async function deleteCollection(id: string): Promise<DbQueryResult<null>> {
+  try {
+    const client = requireClient();
+    const { error } = await client
+      .from(TABLE_NAME)
+      .update({
+        is_deleted: true,
+        updated_at: new Date().toISOString(),
+      })
+      .eq('id', id);
+
+    if (error) throw error;
+    return { data: null, error: null };
+  } catch (error) {
+    console.error('Failed to delete collection:', error);
+    return { data: null, error: error as Error };
+  }
+}
@@ -1,8 +1,8 @@
 // Browser client - use in Client Components
-export { createClient, isSupabaseConfigured } from './client';
+export { createClient, isSupabaseConfigured, requireClient } from './client';
 
 // Server client - use in Server Components
-export { createClient as createServerClient } from './server';
+export { createClient as createServerClient, getShareLink } from './server';
 
 // Middleware helper - use in middleware.ts
 export { updateSession } from './middleware';
@@ -12,6 +12,12 @@ export type {
   DbRecipe,
   NewDbRecipe,
   DbRecipeUpdate,
+  DbShoppingList,
+  DbMealPlanEntry,
+  DbPantryItem,
+  DbCollection,
+  DbShareLink,
+  DbPublicShareLink,
   DbQueryResult,
   DbListResult,
 } from './types';
@@ -19,6 +25,7 @@ export type {
 // Recipe CRUD operations
 export {
   getRecipes,
+  getRecipeChanges,
   getRecipeById,
   getFavorites,
   searchRecipes,
@@ -34,3 +41,18 @@ export {
   getRecipeCount,
   getRecipeBySourceUrl,
 } from './recipes';
+
+// Shopping list operations
+export { getShoppingLists, upsertShoppingList, deleteShoppingList } from './shoppingLists';
+
+// Meal plan operations
+export { getMealPlanEntries, upsertMealPlanEntry, deleteMealPlanEntry } from './mealPlans';
+
+// Pantry operations
+export { getPantryItems, upsertPantryItem, deletePantryItem } from './pantry';
+
+// Collection operations
+export { getCollections, upsertCollection, deleteCollection } from './collections';
+
+// Share link operations
+export { getShareLinks, createShareLink, revokeShareLink } from './shares';
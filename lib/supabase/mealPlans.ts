@@ -0,0 +1,74 @@
+/**
+ * Meal plan CRUD operations for Supabase
+ */
+
+import { requireClient } from './client';
+import type { DbMealPlanEntry, DbQueryResult, DbListResult } from './types';
+
+const TABLE_NAME = 'meal_plan_entries';
+
+/**
+ * Get all meal plan entries for a user
+ */
+export async function getMealPlanEntries(userId: string): Promise<DbListResult<DbMealPlanEntry>> {
+  try {
+    const client = requireClient();
+    const { data, error } = await client
+      .from(TABLE_NAME)
+      .select('*')
+      .eq('user_id', userId)
+      .eq('is_deleted', false)
+      .order('date', { ascending: true });
+
+    if (error) throw error;
+    return { data: data || [], error: null };
+  } catch (error) {
+    console.error('Failed to get meal plan entries:', error);
+    return { data: [], error: error as Error };
+  }
+}
+
+/**
+ * Create or update a meal plan entry.
+ * IDs are generated on the client, so the same call handles both.
+ */
+export async function upsertMealPlanEntry(
+  entry: DbMealPlanEntry
+): Promise<DbQueryResult<DbMealPlanEntry>> {
+  try {
+    const client = requireClient();
+    const { data, error } = await client
+      .from(TABLE_NAME)
+      .upsert(entry, { onConflict: 'id' })
+      .select()
+      .single();
+
+    if (error) throw error;
+    return { data, error: null };
+  } catch (error) {
+    console.error('Failed to save meal plan entry:', error);
+    return { data: null, error: error as Error };
+  }
+}
+
+/**
+ * Soft delete a meal plan entry
+ */
+export async function deleteMealPlanEntry(id: string): Promise<DbQueryResult<null>> {
+  try {
+    const client = requireClient();
+    const { error } = await client
+      .from(TABLE_NAME)
+      .update({
+        is_deleted: true,
+        updated_at: new Date().toISOString(),
+      })
+      .eq('id', id);
+
+    if (error) throw error;
+    return { data: null, error: null };
+  } catch (error) {
+    console.error('Failed to delete meal plan entry:', error);
+    return { data: null, error: error as Error };
+  }
+}
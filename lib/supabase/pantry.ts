@@ -0,0 +1,72 @@
+/**
+ * Pantry CRUD operations for Supabase
+ */
+
+import { requireClient } from './client';
+import type { DbPantryItem, DbQueryResult, DbListResult } from './types';
+
+const TABLE_NAME = 'pantry_items';
+
+/**
+ * Get all pantry items for a user
+ */
+export async function getPantryItems(userId: string): Promise<DbListResult<DbPantryItem>> {
+  try {
+    const client = requireClient();
+    const { data, error } = await client
+      .from(TABLE_NAME)
+      .select('*')
+      .eq('user_id', userId)
+      .eq('is_deleted', false)
+      .order('name', { ascending: true });
+
+    if (error) throw error;
+    return { data: data || [], error: null };
+  } catch (error) {
+    console.error('Failed to get pantry items:', error);
+    return { data: [], error: error as Error };
+  }
+}
+
+/**
+ * Create or update a pantry item.
+ * IDs are generated on the client, so the same call handles both.
+ */
+export async function upsertPantryItem(item: DbPantryItem): Promise<DbQueryResult<DbPantryItem>> {
+  try {
+    const client = requireClient();
+    const { data, error } = await client
+      .from(TABLE_NAME)
+      .upsert(item, { onConflict: 'id' })
+      .select()
+      .single();
+
+    if (error) throw error;
+    return { data, error: null };
+  } catch (error) {
+    console.error('Failed to save pantry item:', error);
+    return { data: null, error: error as Error };
+  }
+}
+
+/**
+ * Soft delete a pantry item
+ */
+export async function deletePantryItem(id: string): Promise<DbQueryResult<null>> {
+  try {
+    const client = requireClient();
+    const { error } = await client
+      .from(TABLE_NAME)
+      .update({
+        is_deleted: true,
+        updated_at: new Date().toISOString(),
+      })
+      .eq('id', id);
+
+    if (error) throw error;
+    return { data: null, error: null };
+  } catch (error) {
+    console.error('Failed to delete pantry item:', error);
+    return { data: null, error: error as Error };
+  }
+}
@@ -40,6 +40,38 @@ export async function getRecipes(userId: string): Promise<DbListResult<DbRecipe>
   }
 }
 
+/**
+ * Get recipes changed after a cursor, oldest change first
+ * Ordered by (updated_at, id) so a page boundary never splits rows that share
+ * a timestamp. Includes soft-deleted rows so deletes reach other devices.
+ */
+export async function getRecipeChanges(
+  userId: string,
+  afterUpdatedAt: string,
+  afterId: string,
+  limit: number
+): Promise<DbListResult<DbRecipe>> {
+  try {
+    const client = getClient();
+    // Quoted because timestamps contain characters PostgREST filters reserve
+    const after = `"${afterUpdatedAt}"`;
+    const { data, error } = await client
+      .from(TABLE_NAME)
+      .select('*')
+      .eq('user_id', userId)
+      .or(`updated_at.gt.${after},and(updated_at.eq.${after},id.gt.${afterId})`)
+      .order('updated_at', { ascending: true })
+      .order('id', { ascending: true })
+      .limit(limit);
+
+    if (error) throw error;
+    return { data: data || [], error: null };
+  } catch (error) {
+    console.error('Failed to get recipe changes:', error);
+    return { data: [], error: error as Error };
+  }
+}
+
 /**
  * Get a single recipe by ID
  */
@@ -1,5 +1,7 @@
 import { createServerClient, type CookieOptions } from '@supabase/ssr';
 import { cookies } from 'next/headers';
+import type { PublicShareLink } from '@/types';
+import type { DbPublicShareLink } from './types';
 
 /**
  * Creates a Supabase client for use in Server Components.
@@ -35,3 +37,39 @@ export function createClient() {
     }
   );
 }
+
+/**
+ * Look up a share link for the public share page.
+ * Runs as the visitor (usually signed out): get_share_link() is the only way
+ * in, and it leaves out the content once the link is revoked or expired.
+ * Returns null for unknown tokens or when Supabase isn't configured.
+ */
+export async function getShareLink(token: string): Promise<PublicShareLink | null> {
+  const supabase = createClient();
+  if (!supabase) {
+    return null;
+  }
+
+  const { data, error } = await supabase
+    .rpc('get_share_link', { share_token: token })
+    .maybeSingle<DbPublicShareLink>();
+
+  if (error) {
+    console.error('Failed to get share link:', error);
+    return null;
+  }
+  if (!data) {
+    return null;
+  }
+
+  return {
+    token: data.token,
+    targetType: data.target_type,
+    title: data.title,
+    multiplier: Number(data.multiplier),
+    content: data.content,
+    expiresAt: data.expires_at,
+    revokedAt: data.revoked_at,
+    createdAt: data.created_at,
+  };
+}
@@ -0,0 +1,80 @@
+/**
+ * Share link operations for Supabase
+ * Links are online-only: a public page needs the copy on the server
+ */
+
+import { requireClient } from './client';
+import type { DbShareLink, DbQueryResult, DbListResult } from './types';
+
+const TABLE_NAME = 'share_links';
+
+// Everything but the (possibly large) content copy
+const LINK_COLUMNS =
+  'id, user_id, token, target_type, target_id, title, multiplier, expires_at, revoked_at, created_at';
+
+/**
+ * Get a user's share links for one recipe or collection, newest first
+ */
+export async function getShareLinks(
+  userId: string,
+  targetType: DbShareLink['target_type'],
+  targetId: string
+): Promise<DbListResult<Omit<DbShareLink, 'content'>>> {
+  try {
+    const client = requireClient();
+    const { data, error } = await client
+      .from(TABLE_NAME)
+      .select(LINK_COLUMNS)
+      .eq('user_id', userId)
+      .eq('target_type', targetType)
+      .eq('target_id', targetId)
+      .order('created_at', { ascending: false });
+
+    if (error) throw error;
+    return { data: data || [], error: null };
+  } catch (error) {
+    console.error('Failed to get share links:', error);
+    return { data: [], error: error as Error };
+  }
+}
+
+/**
+ * Create a share link
+ */
+export async function createShareLink(
+  link: Omit<DbShareLink, 'id' | 'revoked_at' | 'created_at'>
+): Promise<DbQueryResult<Omit<DbShareLink, 'content'>>> {
+  try {
+    const client = requireClient();
+    const { data, error } = await client
+      .from(TABLE_NAME)
+      .insert(link)
+      .select(LINK_COLUMNS)
+      .single();
+
+    if (error) throw error;
+    return { data, error: null };
+  } catch (error) {
+    console.error('Failed to create share link:', error);
+    return { data: null, error: error as Error };
+  }
+}
+
+/**
+ * Revoke a share link; its page stops working immediately
+ */
+export async function revokeShareLink(id: string): Promise<DbQueryResult<null>> {
+  try {
+    const client = requireClient();
+    const { error } = await client
+      .from(TABLE_NAME)
+      .update({ revoked_at: new Date().toISOString() })
+      .eq('id', id);
+
+    if (error) throw error;
+    return { data: null, error: null };
+  } catch (error) {
+    console.error('Failed to revoke share link:', error);
+    return { data: null, error: error as Error };
+  }
+}
@@ -0,0 +1,74 @@
+/**
+ * Shopping list CRUD operations for Supabase
+ */
+
+import { requireClient } from './client';
+import type { DbShoppingList, DbQueryResult, DbListResult } from './types';
+
+const TABLE_NAME = 'shopping_lists';
+
+/**
+ * Get all shopping lists for a user
+ */
+export async function getShoppingLists(userId: string): Promise<DbListResult<DbShoppingList>> {
+  try {
+    const client = requireClient();
+    const { data, error } = await client
+      .from(TABLE_NAME)
+      .select('*')
+      .eq('user_id', userId)
+      .eq('is_deleted', false)
+      .order('updated_at', { ascending: false });
+
+    if (error) throw error;
+    return { data: data || [], error: null };
+  } catch (error) {
+    console.error('Failed to get shopping lists:', error);
+    return { data: [], error: error as Error };
+  }
+}
+
+/**
+ * Create or update a shopping list.
+ * IDs are generated on the client, so the same call handles both.
+ */
+export async function upsertShoppingList(
+  list: DbShoppingList
+): Promise<DbQueryResult<DbShoppingList>> {
+  try {
+    const client = requireClient();
+    const { data, error } = await client
+      .from(TABLE_NAME)
+      .upsert(list, { onConflict: 'id' })
+      .select()
+      .single();
+
+    if (error) throw error;
+    return { data, error: null };
+  } catch (error) {
+    console.error('Failed to save shopping list:', error);
+    return { data: null, error: error as Error };
+  }
+}
+
+/**
+ * Soft delete a shopping list
+ */
+export async function deleteShoppingList(id: string): Promise<DbQueryResult<null>> {
+  try {
+    const client = requireClient();
+    const { error } = await client
+      .from(TABLE_NAME)
+      .update({
+        is_deleted: true,
+        updated_at: new Date().toISOString(),
+      })
+      .eq('id', id);
+
+    if (error) throw error;
+    return { data: null, error: null };
+  } catch (error) {
+    console.error('Failed to delete shopping list:', error);
+    return { data: null, error: error as Error };
+  }
+}
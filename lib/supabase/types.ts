@@ -3,7 +3,18 @@
  * Maps to the recipes table schema
  */
 
-import { ParsedIngredient, Instruction, NutritionInfo } from '@/types';
+import {
+  ParsedIngredient,
+  Instruction,
+  MealSlot,
+  NutritionInfo,
+  NutritionEstimateReport,
+  RecipeVersion,
+  SharedContent,
+  ShareTargetType,
+  ShoppingListItem,
+  ShoppingListRecipeRef,
+} from '@/types';
 
 /**
  * Database recipe row - matches Supabase schema exactly
@@ -30,10 +41,16 @@ export interface DbRecipe {
   servings_unit: string | null;
   original_servings_amount: number | null;
 
-  // Content (stored as JSONB)
+  // Content (stored as JSONB, with each line's optional section)
   ingredients: ParsedIngredient[];
   instructions: Instruction[];
   nutrition: NutritionInfo | null;
+  // Set when nutrition was estimated from the ingredients (missing on older cached rows)
+  nutrition_estimate?: NutritionEstimateReport | null;
+
+  // Originally scraped text and edit history (missing on rows cached before these columns existed)
+  raw_data?: { ingredients: string[]; instructions: string[] } | null;
+  versions?: RecipeVersion[];
 
   // User additions
   notes: string | null;
@@ -68,6 +85,130 @@ export type DbRecipeUpdate = Partial<
   Omit<DbRecipe, 'id' | 'user_id' | 'created_at' | 'sync_version'>
 >;
 
+/**
+ * Database shopping list row - matches the shopping_lists table
+ */
+export interface DbShoppingList {
+  id: string;
+  user_id: string;
+  name: string;
+
+  // Content (stored as JSONB)
+  recipes: ShoppingListRecipeRef[];
+  items: ShoppingListItem[];
+
+  // Timestamps
+  created_at: string;
+  updated_at: string;
+
+  // Sync metadata
+  sync_version: number;
+  is_deleted: boolean;
+}
+
+/**
+ * Database meal plan entry row - matches the meal_plan_entries table
+ */
+export interface DbMealPlanEntry {
+  id: string;
+  user_id: string;
+
+  // Placement (date is a local calendar date, YYYY-MM-DD)
+  date: string;
+  meal: MealSlot;
+
+  // Planned recipe
+  recipe_id: string;
+  recipe_title: string;
+  multiplier: number;
+
+  // Timestamps
+  created_at: string;
+  updated_at: string;
+
+  // Sync metadata
+  sync_version: number;
+  is_deleted: boolean;
+}
+
+/**
+ * Database pantry item row - matches the pantry_items table
+ */
+export interface DbPantryItem {
+  id: string;
+  user_id: string;
+
+  // Item
+  name: string;
+  key: string;
+  quantity: number | null;
+  unit: string | null;
+
+  // Timestamps
+  created_at: string;
+  updated_at: string;
+
+  // Sync metadata
+  sync_version: number;
+  is_deleted: boolean;
+}
+
+/**
+ * Database collection row - matches the recipe_collections table
+ */
+export interface DbCollection {
+  id: string;
+  user_id: string;
+
+  // Collection
+  name: string;
+  description: string | null;
+  cover_image_url: string | null;
+  position: number;
+
+  // Recipe IDs in display order
+  recipe_ids: string[];
+
+  // Timestamps
+  created_at: string;
+  updated_at: string;
+
+  // Sync metadata
+  sync_version: number;
+  is_deleted: boolean;
+}
+
+/**
+ * Database share link row - matches the share_links table
+ */
+export interface DbShareLink {
+  id: string;
+  user_id: string;
+  token: string;
+
+  // Shared target and how it's shown
+  target_type: ShareTargetType;
+  target_id: string;
+  title: string;
+  multiplier: number;
+  content: SharedContent;
+
+  // Access
+  expires_at: string | null;
+  revoked_at: string | null;
+
+  // Timestamps
+  created_at: string;
+}
+
+/**
+ * Row returned by get_share_link() - content is null once the link is
+ * revoked or expired
+ */
+export type DbPublicShareLink = Omit<DbShareLink, 'id' | 'user_id' | 'target_id' | 'content'> & {
+  content: SharedContent | null;
+};
+
 /**
  * Database query response type
  */
@@ -0,0 +1,71 @@
+import { TabChannel, TabMessage } from './TabChannel';
+
+// In-memory BroadcastChannel: delivers to every other channel with the same name
+class FakeBroadcastChannel {
+  static open: FakeBroadcastChannel[] = [];
+  onmessage: ((event: { data: unknown }) => void) | null = null;
+
+  constructor(readonly name: string) {
+    FakeBroadcastChannel.open.push(this);
+  }
+
+  postMessage(data: unknown) {
+    FakeBroadcastChannel.open
+      .filter((channel) => channel !== this && channel.name === this.name)
+      .forEach((channel) => channel.onmessage?.({ data: JSON.parse(JSON.stringify(data)) }));
+  }
+
+  close() {
+    FakeBroadcastChannel.open = FakeBroadcastChannel.open.filter((channel) => channel !== this);
+  }
+}
+
+describe('TabChannel', () => {
+  const original = globalThis.BroadcastChannel;
+
+  beforeEach(() => {
+    FakeBroadcastChannel.open = [];
+    globalThis.BroadcastChannel = FakeBroadcastChannel as unknown as typeof BroadcastChannel;
+  });
+
+  afterEach(() => {
+    globalThis.BroadcastChannel = original;
+  });
+
+  const message: TabMessage = { type: 'favorites-changed', userId: 'user-1' };
+
+  it('delivers messages to other tabs but not back to the sender', () => {
+    const sender = new TabChannel('test');
+    const receiver = new TabChannel('test');
+    const sent = jest.fn();
+    const received = jest.fn();
+    sender.subscribe(sent);
+    receiver.subscribe(received);
+
+    sender.post(message);
+
+    expect(received).toHaveBeenCalledWith(message);
+    expect(sent).not.toHaveBeenCalled();
+  });
+
+  it('stops delivering after unsubscribing', () => {
+    const sender = new TabChannel('test');
+    const receiver = new TabChannel('test');
+    const received = jest.fn();
+    const unsubscribe = receiver.subscribe(received);
+    sender.post(message);
+
+    unsubscribe();
+    sender.post({ type: 'auth-changed', userId: null });
+
+    expect(received).toHaveBeenCalledTimes(1);
+  });
+
+  it('does nothing without BroadcastChannel', () => {
+    Reflect.deleteProperty(globalThis, 'BroadcastChannel');
+    const channel = new TabChannel('test');
+
+    expect(() => channel.post(message)).not.toThrow();
+    expect(typeof channel.subscribe(jest.fn())).toBe('function');
+  });
+});
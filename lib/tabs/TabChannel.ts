@@ -0,0 +1,82 @@
+/**
+ * Tab channel
+ *
+ * Messages between tabs and windows of the app on the same origin, over
+ * BroadcastChannel. A tab never receives its own messages. Where
+ * BroadcastChannel is missing (older browsers, the server) posting does
+ * nothing, so each tab simply works on its own as before.
+ */
+
+/**
+ * Counts from a finished sync, for tabs deciding whether to reload
+ */
+export interface TabSyncSummary {
+  uploaded: number;
+  downloaded: number;
+  conflicts: number;
+}
+
+/**
+ * Messages sent between tabs
+ */
+export type TabMessage =
+  /** Saved recipes changed locally (userId null for guests) */
+  | { type: 'favorites-changed'; userId: string | null }
+  /** A sync finished; its changes are in the shared IndexedDB */
+  | { type: 'sync-completed'; userId: string; result: TabSyncSummary }
+  /** Signed in, out, or as someone else */
+  | { type: 'auth-changed'; userId: string | null };
+
+export type TabMessageListener = (message: TabMessage) => void;
+
+export class TabChannel {
+  private channel: BroadcastChannel | null = null;
+  private listeners = new Set<TabMessageListener>();
+
+  constructor(private readonly name: string) {}
+
+  /**
+   * Send a message to every other tab
+   */
+  post(message: TabMessage): void {
+    try {
+      this.getChannel()?.postMessage(message);
+    } catch (error) {
+      // A closed channel or an uncloneable payload shouldn't break the caller
+      console.warn('Failed to notify other tabs:', error);
+    }
+  }
+
+  /**
+   * Listen for messages from other tabs
+   */
+  subscribe(listener: TabMessageListener): () => void {
+    this.getChannel();
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  /**
+   * Stop sending and receiving (reopens on next use)
+   */
+  close(): void {
+    this.channel?.close();
+    this.channel = null;
+  }
+
+  private getChannel(): BroadcastChannel | null {
+    if (this.channel) return this.channel;
+    if (typeof BroadcastChannel === 'undefined') return null;
+
+    this.channel = new BroadcastChannel(this.name);
+    this.channel.onmessage = (event: MessageEvent<TabMessage>) => {
+      this.listeners.forEach((listener) => listener(event.data));
+    };
+    return this.channel;
+  }
+}
+
+// Export singleton instance
+export const tabChannel = new TabChannel('recipe-journal');
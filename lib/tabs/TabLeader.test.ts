@@ -0,0 +1,88 @@
+import { TabLeader, withTabLock } from './TabLeader';
+
+type LockCallback = (lock: { name: string } | null) => unknown;
+
+// Exclusive locks shared by every "tab" in the test, granted in request order
+function createFakeLocks() {
+  const held = new Set<string>();
+  const waiting = new Map<string, (() => void)[]>();
+
+  const run = (name: string, callback: LockCallback) => {
+    held.add(name);
+    return Promise.resolve(callback({ name })).finally(() => {
+      held.delete(name);
+      waiting.get(name)?.shift()?.();
+    });
+  };
+
+  return {
+    request(name: string, optionsOrCallback: object | LockCallback, maybeCallback?: LockCallback) {
+      const options = (typeof optionsOrCallback === 'function' ? {} : optionsOrCallback) as {
+        ifAvailable?: boolean;
+      };
+      const callback = (maybeCallback ?? optionsOrCallback) as LockCallback;
+
+      if (!held.has(name)) return run(name, callback);
+      if (options.ifAvailable) return Promise.resolve(callback(null));
+      return new Promise((resolve) => {
+        waiting.set(name, [...(waiting.get(name) ?? []), () => resolve(run(name, callback))]);
+      });
+    },
+  };
+}
+
+describe('TabLeader', () => {
+  const original = Object.getOwnPropertyDescriptor(navigator, 'locks');
+
+  beforeEach(() => {
+    Object.defineProperty(navigator, 'locks', { value: createFakeLocks(), configurable: true });
+  });
+
+  afterEach(() => {
+    if (original) {
+      Object.defineProperty(navigator, 'locks', original);
+    } else {
+      delete (navigator as { locks?: unknown }).locks;
+    }
+  });
+
+  it('elects the first tab to ask and keeps the others waiting', async () => {
+    const first = new TabLeader('leader');
+    const second = new TabLeader('leader');
+    const onLead = jest.fn();
+    second.subscribe(onLead);
+
+    first.start();
+    second.start();
+    await Promise.resolve();
+
+    expect(first.isLeader()).toBe(true);
+    expect(second.isLeader()).toBe(false);
+    expect(onLead).not.toHaveBeenCalled();
+  });
+
+  it('leads alone without Web Locks', () => {
+    delete (navigator as { locks?: unknown }).locks;
+    const leader = new TabLeader('leader');
+
+    leader.start();
+
+    expect(leader.isLeader()).toBe(true);
+  });
+
+  describe('withTabLock', () => {
+    it('skips the task while another tab holds the lock', async () => {
+      let release!: () => void;
+      const running = withTabLock(
+        'sync',
+        () => new Promise<string>((resolve) => (release = () => resolve('first')))
+      );
+
+      await expect(withTabLock('sync', async () => 'second')).resolves.toBeNull();
+
+      release();
+      await expect(running).resolves.toBe('first');
+      await expect(withTabLock('sync', async () => 'third')).resolves.toBe('third');
+    });
+  });
+});
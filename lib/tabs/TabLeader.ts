@@ -0,0 +1,82 @@
+/**
+ * Tab leader election
+ *
+ * Uses the Web Locks API: every tab asks for the same lock and the one that
+ * gets it keeps it until it closes, when the browser hands it to the next
+ * tab in line. Without Web Locks every tab leads, which is how the app
+ * behaved before tabs coordinated.
+ */
+
+type LeaderListener = (isLeader: boolean) => void;
+
+function getLockManager(): LockManager | null {
+  if (typeof navigator === 'undefined' || !navigator.locks) return null;
+  return navigator.locks;
+}
+
+/**
+ * Run a task while holding a lock shared by all tabs. Resolves to null
+ * without running it if another tab holds the lock.
+ */
+export async function withTabLock<T>(name: string, task: () => Promise<T>): Promise<T | null> {
+  const locks = getLockManager();
+  if (!locks) return task();
+
+  return locks.request(name, { ifAvailable: true }, (lock) => (lock ? task() : null));
+}
+
+export class TabLeader {
+  private leader = false;
+  private started = false;
+  private listeners = new Set<LeaderListener>();
+
+  constructor(private readonly lockName: string) {}
+
+  /**
+   * Join the election (safe to call more than once)
+   */
+  start(): void {
+    if (this.started) return;
+    this.started = true;
+
+    const locks = getLockManager();
+    if (!locks) {
+      this.setLeader(true);
+      return;
+    }
+
+    locks
+      .request(this.lockName, () => {
+        this.setLeader(true);
+        // Hold the lock for the life of the tab
+        return new Promise<void>(() => {});
+      })
+      .catch((error) => {
+        console.warn('Tab leader election failed, leading this tab alone:', error);
+        this.setLeader(true);
+      });
+  }
+
+  /**
+   * Whether this tab currently leads
+   */
+  isLeader(): boolean {
+    return this.leader;
+  }
+
+  /**
+   * Be told when this tab becomes the leader
+   */
+  subscribe(listener: LeaderListener): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  private setLeader(leader: boolean): void {
+    if (this.leader === leader) return;
+    this.leader = leader;
+    this.listeners.forEach((listener) => listener(leader));
+  }
+}
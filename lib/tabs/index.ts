@@ -0,0 +1,6 @@
+/**
+ * Cross-tab coordination exports
+ */
+
+export * from './TabChannel';
+export * from './TabLeader';
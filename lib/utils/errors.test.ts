@@ -1,5 +1,11 @@
 import { ErrorCode } from '@/types';
-import { AppError, createError, toApiError, getErrorStatusCode } from './errors';
+import {
+  AppError,
+  createError,
+  toApiError,
+  getErrorStatusCode,
+  isQuotaExceededError,
+} from './errors';
 
 describe('Error Utilities', () => {
   describe('AppError', () => {
@@ -76,4 +82,20 @@ describe('Error Utilities', () => {
       expect(getErrorStatusCode(null)).toBe(500);
     });
   });
+
+  describe('isQuotaExceededError', () => {
+    it('recognizes quota errors from localStorage and IndexedDB', () => {
+      expect(isQuotaExceededError(new DOMException('Full', 'QuotaExceededError'))).toBe(true);
+      expect(isQuotaExceededError({ name: 'NS_ERROR_DOM_QUOTA_REACHED' })).toBe(true);
+      expect(
+        isQuotaExceededError({ name: 'AbortError', inner: { name: 'QuotaExceededError' } })
+      ).toBe(true);
+    });
+
+    it('ignores other errors', () => {
+      expect(isQuotaExceededError(new Error('Quota'))).toBe(false);
+      expect(isQuotaExceededError('QuotaExceededError')).toBe(false);
+      expect(isQuotaExceededError(null)).toBe(false);
+    });
+  });
 });
@@ -38,7 +38,10 @@ function getStatusCode(code: ErrorCode): number {
     case ErrorCode.VALIDATION_ERROR:
     case ErrorCode.INVALID_MULTIPLIER:
       return 400;
+    case ErrorCode.UNAUTHORIZED:
+      return 401;
     case ErrorCode.RECIPE_NOT_FOUND:
+    case ErrorCode.IMPORT_JOB_NOT_FOUND:
       return 404;
     case ErrorCode.BLOCKED_BY_SITE:
     case ErrorCode.RATE_LIMITED:
@@ -49,12 +52,29 @@ function getStatusCode(code: ErrorCode): number {
     case ErrorCode.NO_INGREDIENTS_FOUND:
     case ErrorCode.NETWORK_ERROR:
       return 502;
+    case ErrorCode.STORAGE_FULL:
+      return 507;
     case ErrorCode.INTERNAL_ERROR:
     default:
       return 500;
   }
 }
 
+/**
+ * Whether a storage write failed because the browser is out of space.
+ * Covers localStorage and IndexedDB, including Dexie's wrapped errors.
+ */
+export function isQuotaExceededError(error: unknown): boolean {
+  if (!error || typeof error !== 'object') return false;
+
+  const { name, inner } = error as { name?: string; inner?: unknown };
+  return (
+    name === 'QuotaExceededError' ||
+    name === 'NS_ERROR_DOM_QUOTA_REACHED' ||
+    (inner !== undefined && inner !== error && isQuotaExceededError(inner))
+  );
+}
+
 /**
  * Convert error to API error response
  */
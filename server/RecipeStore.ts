@@ -0,0 +1,143 @@
+/**
+ * SQLite storage for the self-hosted recipe API
+ *
+ * Each recipe is kept as its SavedRecipe JSON, with the columns we look
+ * recipes up by pulled out alongside it.
+ */
+
+import { randomUUID } from 'node:crypto';
+import Database from 'better-sqlite3';
+import type { Recipe } from '@/types';
+import type { SavedRecipe } from '@/services/favorites';
+import type { RecipeChanges, SaveRecipeOptions } from '@/services/repository/RecipeRepository';
+
+const SCHEMA = `
+  CREATE TABLE IF NOT EXISTS recipes (
+    id TEXT PRIMARY KEY,
+    source_url TEXT NOT NULL,
+    title TEXT NOT NULL,
+    saved_at TEXT NOT NULL,
+    data TEXT NOT NULL
+  );
+  CREATE INDEX IF NOT EXISTS recipes_source_url ON recipes (source_url);
+  CREATE INDEX IF NOT EXISTS recipes_saved_at ON recipes (saved_at);
+`;
+
+// Title, description, author or any tag, matching the Supabase search
+const SEARCH_SQL = `
+  SELECT data FROM recipes
+  WHERE title LIKE :pattern ESCAPE '\\'
+    OR json_extract(data, '$.description') LIKE :pattern ESCAPE '\\'
+    OR json_extract(data, '$.author') LIKE :pattern ESCAPE '\\'
+    OR EXISTS (
+      SELECT 1 FROM json_each(data, '$.tags') WHERE value LIKE :pattern ESCAPE '\\'
+    )
+  ORDER BY saved_at DESC
+`;
+
+function toLikePattern(query: string): string {
+  return `%${query.replace(/[\\%_]/g, (c) => `\\${c}`)}%`;
+}
+
+export class SqliteRecipeStore {
+  private readonly db: Database.Database;
+
+  /**
+   * @param path SQLite file, or ':memory:' for a throwaway store
+   */
+  constructor(path: string = ':memory:') {
+    this.db = new Database(path);
+    this.db.pragma('journal_mode = WAL');
+    this.db.exec(SCHEMA);
+  }
+
+  list(): SavedRecipe[] {
+    return this.parseRows(this.db.prepare('SELECT data FROM recipes ORDER BY saved_at DESC').all());
+  }
+
+  get(id: string): SavedRecipe | null {
+    return this.parseRow(this.db.prepare('SELECT data FROM recipes WHERE id = ?').get(id));
+  }
+
+  getByUrl(sourceUrl: string): SavedRecipe | null {
+    return this.parseRow(
+      this.db.prepare('SELECT data FROM recipes WHERE source_url = ?').get(sourceUrl)
+    );
+  }
+
+  search(query: string): SavedRecipe[] {
+    if (!query.trim()) return this.list();
+    return this.parseRows(
+      this.db.prepare(SEARCH_SQL).all({ pattern: toLikePattern(query.trim()) })
+    );
+  }
+
+  /**
+   * Save a recipe; saving the same source URL again updates the earlier copy
+   */
+  create(recipe: Recipe, options: SaveRecipeOptions = {}): SavedRecipe {
+    const existing = this.getByUrl(recipe.source.url);
+    const now = new Date().toISOString();
+
+    return this.write({
+      ...recipe,
+      id: existing?.id ?? randomUUID(),
+      savedAt: existing?.savedAt ?? now,
+      lastViewedAt: now,
+      notes: options.notes || existing?.notes,
+      userTags: options.userTags || existing?.userTags || [],
+      lastScaledMultiplier: options.multiplier,
+    });
+  }
+
+  update(id: string, changes: RecipeChanges): SavedRecipe | null {
+    const existing = this.get(id);
+    if (!existing) return null;
+
+    return this.write({ ...existing, ...changes, lastViewedAt: new Date().toISOString() });
+  }
+
+  delete(id: string): boolean {
+    return this.db.prepare('DELETE FROM recipes WHERE id = ?').run(id).changes > 0;
+  }
+
+  upsert(recipes: SavedRecipe[]): SavedRecipe[] {
+    const saveAll = this.db.transaction((items: SavedRecipe[]) =>
+      items.map((recipe) => this.write({ ...recipe, id: recipe.id || randomUUID() }))
+    );
+    return saveAll(recipes);
+  }
+
+  close(): void {
+    this.db.close();
+  }
+
+  private write(recipe: SavedRecipe): SavedRecipe {
+    this.db
+      .prepare(
+        `INSERT INTO recipes (id, source_url, title, saved_at, data)
+         VALUES (:id, :sourceUrl, :title, :savedAt, :data)
+         ON CONFLICT (id) DO UPDATE SET
+           source_url = excluded.source_url,
+           title = excluded.title,
+           saved_at = excluded.saved_at,
+           data = excluded.data`
+      )
+      .run({
+        id: recipe.id,
+        sourceUrl: recipe.source.url,
+        title: recipe.title,
+        savedAt: recipe.savedAt,
+        data: JSON.stringify(recipe),
+      });
+    return recipe;
+  }
+
+  private parseRow(row: unknown): SavedRecipe | null {
+    return row ? (JSON.parse((row as { data: string }).data) as SavedRecipe) : null;
+  }
+
+  private parseRows(rows: unknown[]): SavedRecipe[] {
+    return rows.map((row) => JSON.parse((row as { data: string }).data) as SavedRecipe);
+  }
+}
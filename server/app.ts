@@ -0,0 +1,179 @@
+/**
+ * HTTP routes for the self-hosted recipe API
+ *
+ *   GET    /health
+ *   GET    /recipes               all recipes (?q= to search, ?sourceUrl= to look one up)
+ *   POST   /recipes               save { recipe, options }
+ *   PUT    /recipes               save an array of recipes as given
+ *   GET    /recipes/:id
+ *   PATCH  /recipes/:id           edit title, ingredients, instructions, versions or notes
+ *   DELETE /recipes/:id
+ *
+ * Responses use the { success, data, error } envelope of the app's API routes.
+ */
+
+import { timingSafeEqual } from 'node:crypto';
+import type { IncomingMessage, RequestListener, ServerResponse } from 'node:http';
+import { ErrorCode, type Recipe } from '@/types';
+import type { SavedRecipe } from '@/services/favorites';
+import type { RecipeChanges } from '@/services/repository/RecipeRepository';
+import { createError, getErrorStatusCode, toApiError } from '@/lib/utils/errors';
+import type { SqliteRecipeStore } from './RecipeStore';
+
+export interface RecipeApiOptions {
+  /** When set, requests must send it as a bearer token */
+  token?: string;
+  /** Origin allowed to call the API from a browser, e.g. https://recipes.example.com */
+  allowedOrigin?: string;
+}
+
+const MAX_BODY_BYTES = 5 * 1024 * 1024;
+
+const EDITABLE_FIELDS: (keyof RecipeChanges)[] = [
+  'title',
+  'ingredients',
+  'instructions',
+  'versions',
+  'notes',
+  'lastScaledMultiplier',
+];
+
+function sendJson(res: ServerResponse, status: number, body: unknown): void {
+  res.writeHead(status, { 'Content-Type': 'application/json' });
+  res.end(JSON.stringify(body));
+}
+
+async function readJson(req: IncomingMessage): Promise<unknown> {
+  let size = 0;
+  const chunks: Buffer[] = [];
+  for await (const chunk of req) {
+    size += chunk.length;
+    if (size > MAX_BODY_BYTES) {
+      throw createError(ErrorCode.VALIDATION_ERROR, 'Request body is too large');
+    }
+    chunks.push(chunk);
+  }
+
+  try {
+    return JSON.parse(Buffer.concat(chunks).toString('utf8') || 'null');
+  } catch {
+    throw createError(ErrorCode.VALIDATION_ERROR, 'Request body must be JSON');
+  }
+}
+
+function isAuthorized(req: IncomingMessage, token: string): boolean {
+  const expected = Buffer.from(`Bearer ${token}`);
+  const actual = Buffer.from(req.headers.authorization ?? '');
+  return actual.length === expected.length && timingSafeEqual(actual, expected);
+}
+
+function assertRecipe(value: unknown): asserts value is Recipe {
+  const recipe = value as Recipe | null;
+  if (!recipe?.title || !recipe.source?.url) {
+    throw createError(ErrorCode.VALIDATION_ERROR, 'Recipes need a title and a source URL');
+  }
+}
+
+function pickChanges(body: unknown): RecipeChanges {
+  const input = (body ?? {}) as Record<string, unknown>;
+  return Object.fromEntries(
+    EDITABLE_FIELDS.filter((field) => input[field] !== undefined).map((field) => [
+      field,
+      input[field],
+    ])
+  );
+}
+
+function notFound(id: string) {
+  return createError(ErrorCode.RECIPE_NOT_FOUND, 'Recipe not found', { id });
+}
+
+/**
+ * Build the request handler for a store
+ */
+export function createRecipeApi(
+  store: SqliteRecipeStore,
+  options: RecipeApiOptions = {}
+): RequestListener {
+  async function route(req: IncomingMessage): Promise<{ status: number; data: unknown }> {
+    const url = new URL(req.url ?? '/', 'http://localhost');
+    const [collection, id, ...rest] = url.pathname
+      .split('/')
+      .filter(Boolean)
+      .map(decodeURIComponent);
+
+    if (collection === 'health' && !id && req.method === 'GET') {
+      return { status: 200, data: { ok: true } };
+    }
+    if (collection !== 'recipes' || rest.length > 0) {
+      throw createError(ErrorCode.RECIPE_NOT_FOUND, 'Not found', { path: url.pathname });
+    }
+
+    if (!id) {
+      switch (req.method) {
+        case 'GET': {
+          const sourceUrl = url.searchParams.get('sourceUrl');
+          if (sourceUrl) {
+            const recipe = store.getByUrl(sourceUrl);
+            return { status: 200, data: recipe ? [recipe] : [] };
+          }
+          return { status: 200, data: store.search(url.searchParams.get('q') ?? '') };
+        }
+        case 'POST': {
+          const body = (await readJson(req)) as { recipe?: unknown; options?: unknown } | null;
+          assertRecipe(body?.recipe);
+          return { status: 201, data: store.create(body.recipe, body.options ?? {}) };
+        }
+        case 'PUT': {
+          const body = await readJson(req);
+          if (!Array.isArray(body)) {
+            throw createError(ErrorCode.VALIDATION_ERROR, 'Expected an array of recipes');
+          }
+          body.forEach(assertRecipe);
+          return { status: 200, data: store.upsert(body as SavedRecipe[]) };
+        }
+      }
+    } else {
+      switch (req.method) {
+        case 'GET': {
+          const recipe = store.get(id);
+          if (!recipe) throw notFound(id);
+          return { status: 200, data: recipe };
+        }
+        case 'PATCH': {
+          const recipe = store.update(id, pickChanges(await readJson(req)));
+          if (!recipe) throw notFound(id);
+          return { status: 200, data: recipe };
+        }
+        case 'DELETE': {
+          if (!store.delete(id)) throw notFound(id);
+          return { status: 200, data: { deleted: true } };
+        }
+      }
+    }
+
+    throw createError(ErrorCode.VALIDATION_ERROR, `Method ${req.method} not allowed`);
+  }
+
+  return async (req, res) => {
+    if (options.allowedOrigin) {
+      res.setHeader('Access-Control-Allow-Origin', options.allowedOrigin);
+      res.setHeader('Access-Control-Allow-Headers', 'Authorization, Content-Type, Accept');
+      res.setHeader('Access-Control-Allow-Methods', 'GET, POST, PUT, PATCH, DELETE');
+      if (req.method === 'OPTIONS') {
+        res.writeHead(204).end();
+        return;
+      }
+    }
+
+    try {
+      if (options.token && !isAuthorized(req, options.token)) {
+        throw createError(ErrorCode.UNAUTHORIZED, 'Missing or invalid API token');
+      }
+      const { status, data } = await route(req);
+      sendJson(res, status, { success: true, data });
+    } catch (error) {
+      sendJson(res, getErrorStatusCode(error), { success: false, error: toApiError(error) });
+    }
+  };
+}
@@ -0,0 +1,46 @@
+/* eslint-disable no-console */
+/**
+ * Self-hosted recipe API for running Recipe Journal on-prem without Supabase.
+ *
+ * Usage:
+ *   npm run api
+ *
+ * Environment:
+ *   PORT                 port to listen on (default 4000)
+ *   RECIPE_DB_PATH       SQLite file (default ./recipes.db)
+ *   RECIPE_API_TOKEN     bearer token clients must send (optional; the app sends none)
+ *   RECIPE_API_ORIGIN    origin allowed to call the API from a browser (optional)
+ *
+ * Point the app at it with NEXT_PUBLIC_RECIPE_API_ENABLED=true and
+ * RECIPE_API_URL. The app calls it from its server without a token, so run
+ * both on a trusted network and keep the API reachable only from the app.
+ */
+
+import { createServer } from 'node:http';
+import { SqliteRecipeStore } from './RecipeStore';
+import { createRecipeApi } from './app';
+
+const port = Number(process.env.PORT) || 4000;
+const dbPath = process.env.RECIPE_DB_PATH || './recipes.db';
+
+const store = new SqliteRecipeStore(dbPath);
+const server = createServer(
+  createRecipeApi(store, {
+    token: process.env.RECIPE_API_TOKEN || undefined,
+    allowedOrigin: process.env.RECIPE_API_ORIGIN || undefined,
+  })
+);
+
+server.listen(port, () => {
+  console.log(`Recipe API listening on http://localhost:${port} (database: ${dbPath})`);
+});
+
+function shutdown() {
+  server.close(() => {
+    store.close();
+    process.exit(0);
+  });
+}
+
+process.on('SIGINT', shutdown);
+process.on('SIGTERM', shutdown);
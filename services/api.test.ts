@@ -1,4 +1,12 @@
-import { parseRecipe, scaleRecipe, checkHealth, ApiRequestError } from './api';
+import {
+  parseRecipe,
+  importRecipeText,
+  startBatchImport,
+  getBatchImport,
+  scaleRecipe,
+  checkHealth,
+  ApiRequestError,
+} from './api';
 import { Recipe, ScalingOptions } from '@/types';
 
 // Mock fetch globally
@@ -97,6 +105,64 @@ describe('API Service', () => {
     });
   });
 
+  describe('importRecipeText', () => {
+    it('sends POST request with the pasted text', async () => {
+      mockFetch.mockResolvedValueOnce({
+        ok: true,
+        headers: { get: () => 'application/json' },
+        text: async () => JSON.stringify({ success: true, data: mockRecipe }),
+      });
+
+      const result = await importRecipeText('Pancakes\n\nIngredients\n2 cups flour');
+
+      expect(mockFetch).toHaveBeenCalledWith('/api/recipes/import', {
+        method: 'POST',
+        headers: { Accept: 'application/json', 'Content-Type': 'application/json' },
+        body: JSON.stringify({ text: 'Pancakes\n\nIngredients\n2 cups flour' }),
+      });
+      expect(result.title).toBe('Test Recipe');
+    });
+  });
+
+  describe('batch import', () => {
+    const job = {
+      id: 'job-1',
+      items: [{ url: 'https://example.com/recipe', status: 'queued' }],
+      done: false,
+      createdAt: '2024-01-01T00:00:00.000Z',
+    };
+
+    it('starts a job with the URLs', async () => {
+      mockFetch.mockResolvedValueOnce({
+        ok: true,
+        headers: { get: () => 'application/json' },
+        text: async () => JSON.stringify({ success: true, data: job }),
+      });
+
+      const result = await startBatchImport(['https://example.com/recipe']);
+
+      expect(mockFetch).toHaveBeenCalledWith('/api/recipes/import-batch', {
+        method: 'POST',
+        headers: { Accept: 'application/json', 'Content-Type': 'application/json' },
+        body: JSON.stringify({ urls: ['https://example.com/recipe'] }),
+      });
+      expect(result.id).toBe('job-1');
+    });
+
+    it('fetches job progress', async () => {
+      mockFetch.mockResolvedValueOnce({
+        ok: true,
+        headers: { get: () => 'application/json' },
+        text: async () => JSON.stringify({ success: true, data: { ...job, done: true } }),
+      });
+
+      const result = await getBatchImport('job-1');
+
+      expect(mockFetch.mock.calls[0][0]).toBe('/api/recipes/import-batch/job-1');
+      expect(result.done).toBe(true);
+    });
+  });
+
   describe('scaleRecipe', () => {
     const scalingOptions: ScalingOptions = {
       multiplier: 2,
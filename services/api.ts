@@ -9,6 +9,7 @@ import {
   ApiError,
   SmartScaleData,
   ErrorCode,
+  BatchImportJob,
 } from '@/types';
 
 const API_BASE_URL = '/api';
@@ -101,6 +102,33 @@ export async function parseRecipe(url: string): Promise<Recipe> {
   });
 }
 
+/**
+ * Import a recipe from pasted text or HTML
+ */
+export async function importRecipeText(text: string): Promise<Recipe> {
+  return apiFetch<Recipe>('/recipes/import', {
+    method: 'POST',
+    body: JSON.stringify({ text }),
+  });
+}
+
+/**
+ * Start scraping a list of recipe URLs
+ */
+export async function startBatchImport(urls: string[]): Promise<BatchImportJob> {
+  return apiFetch<BatchImportJob>('/recipes/import-batch', {
+    method: 'POST',
+    body: JSON.stringify({ urls }),
+  });
+}
+
+/**
+ * Get the progress of a batch import
+ */
+export async function getBatchImport(jobId: string): Promise<BatchImportJob> {
+  return apiFetch<BatchImportJob>(`/recipes/import-batch/${encodeURIComponent(jobId)}`);
+}
+
 /**
  * Scale a parsed recipe
  */
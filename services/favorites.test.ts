@@ -7,7 +7,10 @@ import {
   removeFavorite,
   removeFavoriteByUrl,
   updateNotes,
+  updateRecipeContent,
   updateUserTags,
+  updateFavorite,
+  upsertFavorites,
   updateLastViewed,
   searchFavorites,
   getRecentFavorites,
@@ -15,9 +18,11 @@ import {
   clearAllFavorites,
   exportFavorites,
   importFavorites,
+  matchesSearch,
+  toSavedRecipe,
   SavedRecipe,
 } from './favorites';
-import { Recipe } from '@/types';
+import { ErrorCode, Recipe } from '@/types';
 
 describe('Favorites Service', () => {
   const mockRecipe: Recipe = {
@@ -119,6 +124,67 @@ describe('Favorites Service', () => {
       const favorites = getAllFavorites();
       expect(favorites[0].title).toBe('Another Recipe');
     });
+
+    it('reports a full localStorage as STORAGE_FULL', () => {
+      const setItem = jest.spyOn(Storage.prototype, 'setItem').mockImplementation(() => {
+        throw new DOMException('Quota exceeded', 'QuotaExceededError');
+      });
+
+      try {
+        expect(() => saveFavorite(mockRecipe)).toThrow(
+          expect.objectContaining({ code: ErrorCode.STORAGE_FULL })
+        );
+      } finally {
+        setItem.mockRestore();
+      }
+    });
+  });
+
+  describe('toSavedRecipe', () => {
+    it('keeps the ID, save date, notes and tags of an earlier copy', () => {
+      const existing: SavedRecipe = {
+        ...mockRecipe,
+        id: 'recipe-old',
+        savedAt: '2024-01-01T00:00:00.000Z',
+        lastViewedAt: '2024-01-01T00:00:00.000Z',
+        notes: 'Old notes',
+        userTags: ['weeknight'],
+      };
+
+      const saved = toSavedRecipe({ ...mockRecipe, id: '' }, undefined, existing);
+
+      expect(saved.id).toBe('recipe-old');
+      expect(saved.savedAt).toBe('2024-01-01T00:00:00.000Z');
+      expect(saved.notes).toBe('Old notes');
+      expect(saved.userTags).toEqual(['weeknight']);
+      expect(saved.lastViewedAt).not.toBe(existing.lastViewedAt);
+    });
+
+    it('generates an ID when the recipe has none', () => {
+      const saved = toSavedRecipe({ ...mockRecipe, id: '' });
+
+      expect(saved.id).toMatch(/^recipe_/);
+      expect(saved.userTags).toEqual([]);
+    });
+  });
+
+  describe('matchesSearch', () => {
+    const saved: SavedRecipe = {
+      ...mockRecipe,
+      savedAt: '2024-01-01T00:00:00.000Z',
+      lastViewedAt: '2024-01-01T00:00:00.000Z',
+      notes: 'Grandma used brown butter',
+      userTags: ['holiday'],
+    };
+
+    it('matches notes and user tags ignoring case', () => {
+      expect(matchesSearch(saved, 'BROWN butter')).toBe(true);
+      expect(matchesSearch(saved, 'Holiday')).toBe(true);
+    });
+
+    it('does not match unrelated text', () => {
+      expect(matchesSearch(saved, 'lasagna')).toBe(false);
+    });
   });
 
   describe('getFavoriteById', () => {
@@ -200,6 +266,24 @@ describe('Favorites Service', () => {
     });
   });
 
+  describe('updateRecipeContent', () => {
+    it('replaces title, ingredients, instructions and versions', () => {
+      const saved = saveFavorite(mockRecipe);
+      const content = { title: 'Edited', ingredients: [], instructions: [] };
+      const versions = [{ ...content, version: 2, createdAt: '2026-01-01', summary: 'Edited' }];
+
+      const updated = updateRecipeContent(saved.id!, content, versions);
+
+      expect(updated?.title).toBe('Edited');
+      expect(updated?.versions).toEqual(versions);
+      expect(getAllFavorites()[0].title).toBe('Edited');
+    });
+
+    it('returns null for non-existent recipe', () => {
+      expect(updateRecipeContent('nonexistent', { title: '', ingredients: [], instructions: [] }, [])).toBeNull();
+    });
+  });
+
   describe('updateUserTags', () => {
     it('updates user tags for a recipe', () => {
       const saved = saveFavorite(mockRecipe);
@@ -213,6 +297,45 @@ describe('Favorites Service', () => {
     });
   });
 
+  describe('updateFavorite', () => {
+    it('applies changes and keeps the rest of the recipe', () => {
+      const saved = saveFavorite(mockRecipe, { notes: 'Old notes' });
+      const updated = updateFavorite(saved.id!, { title: 'Edited', lastScaledMultiplier: 2 });
+
+      expect(updated).toMatchObject({
+        title: 'Edited',
+        notes: 'Old notes',
+        lastScaledMultiplier: 2,
+      });
+      expect(getFavoriteById(saved.id!)?.title).toBe('Edited');
+    });
+
+    it('returns null for non-existent recipe', () => {
+      expect(updateFavorite('nonexistent', { title: 'Edited' })).toBeNull();
+    });
+  });
+
+  describe('upsertFavorites', () => {
+    it('replaces recipes with the same ID and adds new ones first', () => {
+      const saved = saveFavorite(mockRecipe);
+      const incoming: SavedRecipe = {
+        ...saveFavorite(mockRecipe2),
+        id: 'recipe-3',
+        title: 'New Recipe',
+        source: { ...mockRecipe2.source, url: 'https://example.com/recipe-3' },
+      };
+
+      upsertFavorites([{ ...saved, title: 'Replaced' }, incoming]);
+
+      expect(getAllFavorites().map((r) => r.title)).toEqual([
+        'New Recipe',
+        'Another Recipe',
+        'Replaced',
+      ]);
+      expect(getFavoriteById('recipe-3')).not.toBeNull();
+    });
+  });
+
   describe('updateLastViewed', () => {
     it('updates lastViewedAt timestamp', async () => {
       const saved = saveFavorite(mockRecipe);
@@ -1,8 +1,13 @@
 /**
  * Favorites service for managing saved recipes in localStorage
+ *
+ * Guests now keep favorites in IndexedDB (see guestFavorites.ts). This store
+ * is the fallback when IndexedDB can't be used, and where the one-time move
+ * reads from.
  */
 
-import { Recipe } from '@/types';
+import { ErrorCode, Recipe, RecipeContent, RecipeVersion } from '@/types';
+import { AppError, createError, isQuotaExceededError } from '@/lib/utils/errors';
 
 const STORAGE_KEY = 'recipe-journal-favorites';
 
@@ -20,10 +25,84 @@ export interface SavedRecipe extends Recipe {
 /**
  * Generate a unique ID for a recipe
  */
-function generateId(): string {
+export function generateId(): string {
   return `recipe_${Date.now()}_${Math.random().toString(36).substring(2, 9)}`;
 }
 
+/**
+ * Thrown when the browser has no room left for saved recipes
+ */
+export function storageFullError() {
+  return createError(
+    ErrorCode.STORAGE_FULL,
+    'This browser is out of space for saved recipes. Remove a few or sign in to keep them in the cloud.'
+  );
+}
+
+/**
+ * Write all saved recipes back to localStorage
+ */
+function persist(favorites: SavedRecipe[]): void {
+  try {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(favorites));
+  } catch (error) {
+    if (isQuotaExceededError(error)) throw storageFullError();
+    throw error;
+  }
+}
+
+/**
+ * Build the saved copy of a recipe, keeping the ID, save date, notes and
+ * tags of an earlier copy of the same recipe
+ */
+export function toSavedRecipe(
+  recipe: Recipe,
+  options?: { notes?: string; userTags?: string[]; multiplier?: number },
+  existing?: SavedRecipe | null
+): SavedRecipe {
+  const now = new Date().toISOString();
+  return {
+    ...recipe,
+    id: recipe.id || existing?.id || generateId(),
+    savedAt: existing?.savedAt ?? now,
+    lastViewedAt: now,
+    notes: options?.notes || existing?.notes,
+    userTags: options?.userTags || existing?.userTags || [],
+    lastScaledMultiplier: options?.multiplier,
+  };
+}
+
+/**
+ * Whether a saved recipe matches a search by title, description,
+ * ingredients, tags, notes or author
+ */
+export function matchesSearch(recipe: SavedRecipe, query: string): boolean {
+  const q = query.toLowerCase().trim();
+
+  // Search in title
+  if (recipe.title.toLowerCase().includes(q)) return true;
+
+  // Search in description
+  if (recipe.description?.toLowerCase().includes(q)) return true;
+
+  // Search in ingredients
+  if (recipe.ingredients.some((ing) => ing.ingredient.toLowerCase().includes(q))) return true;
+
+  // Search in tags
+  if (recipe.tags?.some((tag) => tag.toLowerCase().includes(q))) return true;
+
+  // Search in user tags
+  if (recipe.userTags.some((tag) => tag.toLowerCase().includes(q))) return true;
+
+  // Search in notes
+  if (recipe.notes?.toLowerCase().includes(q)) return true;
+
+  // Search in author
+  if (recipe.author?.toLowerCase().includes(q)) return true;
+
+  return false;
+}
+
 /**
  * Get all saved recipes from localStorage
  */
@@ -70,20 +149,11 @@ export function saveFavorite(
   options?: { notes?: string; userTags?: string[]; multiplier?: number }
 ): SavedRecipe {
   const favorites = getAllFavorites();
-  const now = new Date().toISOString();
 
   // Check if already exists
   const existingIndex = favorites.findIndex((r) => r.source.url === recipe.source.url);
 
-  const savedRecipe: SavedRecipe = {
-    ...recipe,
-    id: recipe.id || generateId(),
-    savedAt: existingIndex >= 0 ? favorites[existingIndex].savedAt : now,
-    lastViewedAt: now,
-    notes: options?.notes || (existingIndex >= 0 ? favorites[existingIndex].notes : undefined),
-    userTags: options?.userTags || (existingIndex >= 0 ? favorites[existingIndex].userTags : []),
-    lastScaledMultiplier: options?.multiplier,
-  };
+  const savedRecipe = toSavedRecipe(recipe, options, favorites[existingIndex]);
 
   if (existingIndex >= 0) {
     // Update existing
@@ -93,7 +163,7 @@ export function saveFavorite(
     favorites.unshift(savedRecipe);
   }
 
-  localStorage.setItem(STORAGE_KEY, JSON.stringify(favorites));
+  persist(favorites);
   return savedRecipe;
 }
 
@@ -108,7 +178,7 @@ export function removeFavorite(id: string): boolean {
     return false; // Nothing was removed
   }
 
-  localStorage.setItem(STORAGE_KEY, JSON.stringify(filteredFavorites));
+  persist(filteredFavorites);
   return true;
 }
 
@@ -123,7 +193,7 @@ export function removeFavoriteByUrl(sourceUrl: string): boolean {
     return false;
   }
 
-  localStorage.setItem(STORAGE_KEY, JSON.stringify(filteredFavorites));
+  persist(filteredFavorites);
   return true;
 }
 
@@ -139,7 +209,7 @@ export function updateNotes(id: string, notes: string): SavedRecipe | null {
   favorites[index].notes = notes;
   favorites[index].lastViewedAt = new Date().toISOString();
 
-  localStorage.setItem(STORAGE_KEY, JSON.stringify(favorites));
+  persist(favorites);
   return favorites[index];
 }
 
@@ -155,56 +225,93 @@ export function updateUserTags(id: string, userTags: string[]): SavedRecipe | nu
   favorites[index].userTags = userTags;
   favorites[index].lastViewedAt = new Date().toISOString();
 
-  localStorage.setItem(STORAGE_KEY, JSON.stringify(favorites));
+  persist(favorites);
   return favorites[index];
 }
 
 /**
- * Update last viewed timestamp
+ * Replace a saved recipe's editable content and version history
  */
-export function updateLastViewed(id: string): void {
+export function updateRecipeContent(
+  id: string,
+  content: RecipeContent,
+  versions: RecipeVersion[]
+): SavedRecipe | null {
   const favorites = getAllFavorites();
   const index = favorites.findIndex((r) => r.id === id);
 
-  if (index >= 0) {
-    favorites[index].lastViewedAt = new Date().toISOString();
-    localStorage.setItem(STORAGE_KEY, JSON.stringify(favorites));
-  }
+  if (index < 0) return null;
+
+  favorites[index] = {
+    ...favorites[index],
+    title: content.title,
+    ingredients: content.ingredients,
+    instructions: content.instructions,
+    versions,
+    lastViewedAt: new Date().toISOString(),
+  };
+
+  persist(favorites);
+  return favorites[index];
 }
 
 /**
- * Search favorites by title, ingredients, or tags
+ * Apply edits to a saved recipe
  */
-export function searchFavorites(query: string): SavedRecipe[] {
-  if (!query.trim()) return getAllFavorites();
-
+export function updateFavorite(
+  id: string,
+  changes: Partial<Omit<SavedRecipe, 'id' | 'savedAt'>>
+): SavedRecipe | null {
   const favorites = getAllFavorites();
-  const q = query.toLowerCase().trim();
+  const index = favorites.findIndex((r) => r.id === id);
 
-  return favorites.filter((recipe) => {
-    // Search in title
-    if (recipe.title.toLowerCase().includes(q)) return true;
+  if (index < 0) return null;
+
+  favorites[index] = {
+    ...favorites[index],
+    ...changes,
+    lastViewedAt: new Date().toISOString(),
+  };
 
-    // Search in description
-    if (recipe.description?.toLowerCase().includes(q)) return true;
+  persist(favorites);
+  return favorites[index];
+}
 
-    // Search in ingredients
-    if (recipe.ingredients.some((ing) => ing.ingredient.toLowerCase().includes(q))) return true;
+/**
+ * Save recipes as given, replacing any with the same ID
+ */
+export function upsertFavorites(recipes: SavedRecipe[]): SavedRecipe[] {
+  const incoming = new Map(recipes.map((r) => [r.id, r]));
+  const favorites = getAllFavorites().map((r) => {
+    const replacement = incoming.get(r.id);
+    incoming.delete(r.id);
+    return replacement ?? r;
+  });
 
-    // Search in tags
-    if (recipe.tags?.some((tag) => tag.toLowerCase().includes(q))) return true;
+  persist([...incoming.values(), ...favorites]);
+  return recipes;
+}
 
-    // Search in user tags
-    if (recipe.userTags.some((tag) => tag.toLowerCase().includes(q))) return true;
+/**
+ * Update last viewed timestamp
+ */
+export function updateLastViewed(id: string): void {
+  const favorites = getAllFavorites();
+  const index = favorites.findIndex((r) => r.id === id);
 
-    // Search in notes
-    if (recipe.notes?.toLowerCase().includes(q)) return true;
+  if (index >= 0) {
+    favorites[index].lastViewedAt = new Date().toISOString();
+    persist(favorites);
+  }
+}
 
-    // Search in author
-    if (recipe.author?.toLowerCase().includes(q)) return true;
+/**
+ * Search favorites by title, ingredients, or tags
+ */
+export function searchFavorites(query: string): SavedRecipe[] {
+  if (!query.trim()) return getAllFavorites();
 
-    return false;
-  });
+  return getAllFavorites().filter((recipe) => matchesSearch(recipe, query));
 }
 
 /**
@@ -254,13 +361,14 @@ export function importFavorites(json: string, merge: boolean = true): number {
       const newRecipes = imported.filter((r) => !existingUrls.has(r.source.url));
       const merged = [...existing, ...newRecipes];
 
-      localStorage.setItem(STORAGE_KEY, JSON.stringify(merged));
+      persist(merged);
       return newRecipes.length;
     } else {
-      localStorage.setItem(STORAGE_KEY, JSON.stringify(imported));
+      persist(imported);
       return imported.length;
     }
   } catch (error) {
+    if (error instanceof AppError && error.code === ErrorCode.STORAGE_FULL) throw error;
     console.error('Failed to import favorites:', error);
     throw new Error('Failed to import favorites: Invalid format');
   }
@@ -0,0 +1,95 @@
+import {
+  getGuestStoreVersion,
+  normalizeLegacyFavorites,
+  prepareGuestStore,
+  GUEST_STORE_VERSION,
+} from './guestFavorites';
+import type { SavedRecipe } from './favorites';
+
+describe('guestFavorites', () => {
+  const legacy: SavedRecipe = {
+    id: 'recipe-1',
+    title: 'Test Recipe',
+    servings: { amount: 4, unit: 'servings', originalText: '4 servings' },
+    ingredients: [],
+    instructions: [{ step: 1, text: 'Mix ingredients' }],
+    source: {
+      url: 'https://example.com/recipe-1',
+      domain: 'example.com',
+      scrapedAt: new Date('2024-01-01T00:00:00.000Z'),
+      scrapeMethod: 'schema-org',
+    },
+    savedAt: '2024-01-02T00:00:00.000Z',
+    lastViewedAt: '2024-01-03T00:00:00.000Z',
+    userTags: ['weeknight'],
+  };
+
+  beforeEach(() => {
+    localStorage.clear();
+  });
+
+  describe('normalizeLegacyFavorites', () => {
+    it('keeps well-formed favorites as they are', () => {
+      expect(normalizeLegacyFavorites([legacy])).toEqual([legacy]);
+    });
+
+    it('drops entries without a title or source URL', () => {
+      const broken = [
+        { ...legacy, id: 'no-title', title: '' },
+        { ...legacy, id: 'no-source', source: undefined },
+        null,
+      ] as unknown as SavedRecipe[];
+
+      expect(normalizeLegacyFavorites([...broken, legacy])).toEqual([legacy]);
+    });
+
+    it('keeps the first copy of a repeated ID', () => {
+      const older = { ...legacy, title: 'Older copy' };
+
+      const result = normalizeLegacyFavorites([legacy, older]);
+
+      expect(result).toHaveLength(1);
+      expect(result[0].title).toBe('Test Recipe');
+    });
+
+    it('fills in missing IDs, dates and tags', () => {
+      const partial = {
+        ...legacy,
+        id: '',
+        lastViewedAt: undefined,
+        userTags: undefined,
+      } as unknown as SavedRecipe;
+
+      const [result] = normalizeLegacyFavorites([partial]);
+
+      expect(result.id).toMatch(/^recipe_/);
+      expect(result.lastViewedAt).toBe(legacy.savedAt);
+      expect(result.userTags).toEqual([]);
+    });
+  });
+
+  describe('getGuestStoreVersion', () => {
+    it('is 0 before any migration has run', () => {
+      expect(getGuestStoreVersion()).toBe(0);
+    });
+
+    it('reads the recorded version', () => {
+      localStorage.setItem('recipe-journal-guest-store-version', String(GUEST_STORE_VERSION));
+      expect(getGuestStoreVersion()).toBe(GUEST_STORE_VERSION);
+    });
+
+    it('ignores an unreadable version', () => {
+      localStorage.setItem('recipe-journal-guest-store-version', 'abc');
+      expect(getGuestStoreVersion()).toBe(0);
+    });
+  });
+
+  describe('prepareGuestStore', () => {
+    it('stays on localStorage when IndexedDB is unavailable', async () => {
+      localStorage.setItem('recipe-journal-favorites', JSON.stringify([legacy]));
+
+      await expect(prepareGuestStore()).resolves.toBe(false);
+      expect(JSON.parse(localStorage.getItem('recipe-journal-favorites')!)).toHaveLength(1);
+    });
+  });
+});
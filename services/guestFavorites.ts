@@ -0,0 +1,251 @@
+/**
+ * Guest favorites stored in IndexedDB
+ *
+ * Guests used to keep every saved recipe in one localStorage key that was
+ * re-read and rewritten on each change and ran into the ~5MB quota. They now
+ * get their own Dexie table; the versioned migrations below move anything
+ * left in localStorage over the first time the store is opened.
+ */
+
+import { getOfflineDb, isIndexedDBAvailable, type GuestRecipe } from '@/lib/offline';
+import { isQuotaExceededError } from '@/lib/utils/errors';
+import type { Recipe } from '@/types';
+import {
+  type SavedRecipe,
+  clearAllFavorites,
+  generateId,
+  getAllFavorites,
+  matchesSearch,
+  storageFullError,
+  toSavedRecipe,
+} from './favorites';
+
+const VERSION_KEY = 'recipe-journal-guest-store-version';
+
+/**
+ * One step in bringing a guest's stored favorites up to date
+ */
+interface GuestStoreMigration {
+  version: number;
+  description: string;
+  migrate: () => Promise<void>;
+}
+
+const MIGRATIONS: GuestStoreMigration[] = [
+  {
+    version: 1,
+    description: 'Move favorites out of localStorage',
+    migrate: async () => {
+      const legacy = getAllFavorites();
+      if (legacy.length === 0) return;
+
+      await getOfflineDb().guestRecipes.bulkPut(normalizeLegacyFavorites(legacy));
+      clearAllFavorites();
+    },
+  },
+];
+
+/** Version a fully migrated guest store is at */
+export const GUEST_STORE_VERSION = MIGRATIONS[MIGRATIONS.length - 1].version;
+
+/**
+ * Clean up favorites read from localStorage before storing them: drop entries
+ * without a title or source, give missing IDs one, and keep the first
+ * (newest) copy of a repeated ID
+ */
+export function normalizeLegacyFavorites(favorites: SavedRecipe[]): GuestRecipe[] {
+  const now = new Date().toISOString();
+  const seen = new Set<string>();
+  const result: GuestRecipe[] = [];
+
+  for (const recipe of favorites) {
+    if (!recipe?.title || !recipe.source?.url) continue;
+
+    const id = recipe.id || generateId();
+    if (seen.has(id)) continue;
+    seen.add(id);
+
+    const savedAt = recipe.savedAt || now;
+    result.push({
+      ...recipe,
+      id,
+      savedAt,
+      lastViewedAt: recipe.lastViewedAt || savedAt,
+      userTags: Array.isArray(recipe.userTags) ? recipe.userTags : [],
+    });
+  }
+  return result;
+}
+
+/**
+ * Version the guest store was last migrated to (0 before any migration)
+ */
+export function getGuestStoreVersion(): number {
+  try {
+    const version = Number(localStorage.getItem(VERSION_KEY));
+    return Number.isInteger(version) && version > 0 ? version : 0;
+  } catch {
+    return 0;
+  }
+}
+
+/**
+ * Run the migrations this browser hasn't run yet, in order. A failed step
+ * stops the run and leaves its version unrecorded so it's retried next time.
+ */
+export async function migrateGuestStore(): Promise<number> {
+  let version = getGuestStoreVersion();
+
+  for (const migration of MIGRATIONS) {
+    if (migration.version <= version) continue;
+
+    await write(migration.migrate);
+    version = migration.version;
+    localStorage.setItem(VERSION_KEY, String(version));
+  }
+  return version;
+}
+
+let ready: Promise<boolean> | null = null;
+
+/**
+ * Migrate the guest store once per page load. Resolves to false when guests
+ * should stay on localStorage: IndexedDB is unavailable, or the move failed
+ * (for example, out of space) and the old favorites were left where they were.
+ */
+export function prepareGuestStore(): Promise<boolean> {
+  ready ??= (async () => {
+    if (!isIndexedDBAvailable()) return false;
+    try {
+      await migrateGuestStore();
+      return true;
+    } catch (error) {
+      console.error('Failed to move guest favorites to IndexedDB:', error);
+      return false;
+    }
+  })();
+  return ready;
+}
+
+/**
+ * Run a write, reporting a full disk as STORAGE_FULL
+ */
+async function write<T>(operation: () => Promise<T>): Promise<T> {
+  try {
+    return await operation();
+  } catch (error) {
+    if (isQuotaExceededError(error)) throw storageFullError();
+    throw error;
+  }
+}
+
+/**
+ * Get all guest favorites, most recently saved first
+ */
+export async function getAllGuestFavorites(): Promise<SavedRecipe[]> {
+  return getOfflineDb().guestRecipes.orderBy('savedAt').reverse().toArray();
+}
+
+/**
+ * Get a guest favorite by ID
+ */
+export async function getGuestFavoriteById(id: string): Promise<SavedRecipe | null> {
+  return (await getOfflineDb().guestRecipes.get(id)) ?? null;
+}
+
+/**
+ * Get a guest favorite by source URL
+ */
+export async function getGuestFavoriteByUrl(sourceUrl: string): Promise<SavedRecipe | null> {
+  return (await getOfflineDb().guestRecipes.where('source.url').equals(sourceUrl).first()) ?? null;
+}
+
+/**
+ * Search guest favorites by title, ingredients, tags, notes or author
+ */
+export async function searchGuestFavorites(query: string): Promise<SavedRecipe[]> {
+  const favorites = await getAllGuestFavorites();
+  if (!query.trim()) return favorites;
+  return favorites.filter((recipe) => matchesSearch(recipe, query));
+}
+
+/**
+ * Save a recipe, replacing an earlier copy from the same source URL
+ */
+export async function saveGuestFavorite(
+  recipe: Recipe,
+  options?: { notes?: string; userTags?: string[]; multiplier?: number }
+): Promise<SavedRecipe> {
+  const db = getOfflineDb();
+  return write(() =>
+    db.transaction('rw', db.guestRecipes, async () => {
+      const existing = await db.guestRecipes.where('source.url').equals(recipe.source.url).first();
+      const saved = toSavedRecipe(recipe, options, existing) as GuestRecipe;
+
+      if (existing && existing.id !== saved.id) {
+        await db.guestRecipes.delete(existing.id);
+      }
+      await db.guestRecipes.put(saved);
+      return saved;
+    })
+  );
+}
+
+/**
+ * Apply edits to a guest favorite
+ */
+export async function updateGuestFavorite(
+  id: string,
+  changes: Partial<Omit<SavedRecipe, 'id' | 'savedAt'>>
+): Promise<SavedRecipe | null> {
+  const db = getOfflineDb();
+  return write(() =>
+    db.transaction('rw', db.guestRecipes, async () => {
+      const existing = await db.guestRecipes.get(id);
+      if (!existing) return null;
+
+      const updated: GuestRecipe = {
+        ...existing,
+        ...changes,
+        lastViewedAt: new Date().toISOString(),
+      };
+      await db.guestRecipes.put(updated);
+      return updated;
+    })
+  );
+}
+
+/**
+ * Remove a guest favorite
+ */
+export async function removeGuestFavorite(id: string): Promise<boolean> {
+  const db = getOfflineDb();
+  return db.transaction('rw', db.guestRecipes, async () => {
+    if (!(await db.guestRecipes.get(id))) return false;
+    await db.guestRecipes.delete(id);
+    return true;
+  });
+}
+
+/**
+ * Save recipes as given, replacing any with the same ID
+ */
+export async function upsertGuestFavorites(recipes: SavedRecipe[]): Promise<SavedRecipe[]> {
+  const rows = recipes.map((recipe) => ({ ...recipe, id: recipe.id || generateId() }));
+  await write(() => getOfflineDb().guestRecipes.bulkPut(rows));
+  return rows;
+}
+
+/**
+ * Count guest favorites
+ */
+export async function getGuestFavoritesCount(): Promise<number> {
+  return getOfflineDb().guestRecipes.count();
+}
+
+/**
+ * Remove every guest favorite (after moving them to the cloud)
+ */
+export async function clearGuestFavorites(): Promise<void> {
+  await getOfflineDb().guestRecipes.clear();
+}
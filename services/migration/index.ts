@@ -1,8 +1,13 @@
 /**
- * Migration service for moving localStorage recipes to cloud storage
+ * Migration service for moving guest recipes to cloud storage, along with
+ * the guest's shopping lists, meal plan, pantry and collections
  */
 
-import { SavedRecipe, getAllFavorites, clearAllFavorites } from '../favorites';
+import { SavedRecipe, clearAllFavorites } from '../favorites';
+import { clearGuestFavorites } from '../guestFavorites';
+import { GuestRecipeRepository } from '../repository';
+import { adoptGuestData, getGuestDataCount, remapRecipeReferences } from '../sync';
+import { isIndexedDBAvailable } from '@/lib/offline';
 import { createRecipe, getRecipeBySourceUrl } from '@/lib/supabase/recipes';
 import type { NewDbRecipe } from '@/lib/supabase/types';
 
@@ -18,23 +23,43 @@ export interface MigrationResult {
   success: boolean;
   migratedCount: number;
   skippedCount: number;
+  /** Shopping lists, meal plan entries, pantry items and collections moved */
+  adoptedCount: number;
   errorCount: number;
   errors: string[];
 }
 
 /**
- * Check if there are localStorage recipes that haven't been migrated
+ * Check if there are guest recipes that haven't been migrated
  */
-export function hasLocalRecipesToMigrate(): boolean {
-  const favorites = getAllFavorites();
-  return favorites.length > 0;
+export async function hasLocalRecipesToMigrate(): Promise<boolean> {
+  return (await getLocalRecipesCount()) > 0;
 }
 
 /**
- * Get count of local recipes
+ * Get count of guest recipes
  */
-export function getLocalRecipesCount(): number {
-  return getAllFavorites().length;
+export async function getLocalRecipesCount(): Promise<number> {
+  return (await new GuestRecipeRepository().list()).length;
+}
+
+/**
+ * Get count of the guest's other data (shopping lists, meal plan entries,
+ * pantry items and collections)
+ */
+export async function getLocalDataCount(): Promise<number> {
+  return getGuestDataCount();
+}
+
+/**
+ * Remove guest recipes from both the IndexedDB store and any localStorage
+ * copy that was never moved over
+ */
+async function clearLocalRecipes(): Promise<void> {
+  if (isIndexedDBAvailable()) {
+    await clearGuestFavorites();
+  }
+  clearAllFavorites();
 }
 
 /**
@@ -68,7 +93,7 @@ function setMigrationStatus(status: MigrationStatus): void {
 }
 
 /**
- * Convert a localStorage SavedRecipe to cloud DbRecipe format
+ * Convert a guest SavedRecipe to cloud DbRecipe format
  */
 function convertToDbRecipe(recipe: SavedRecipe, userId: string): Omit<NewDbRecipe, 'user_id'> {
   return {
@@ -93,6 +118,9 @@ function convertToDbRecipe(recipe: SavedRecipe, userId: string): Omit<NewDbRecip
     ingredients: recipe.ingredients,
     instructions: recipe.instructions,
     nutrition: recipe.nutrition || null,
+    nutrition_estimate: recipe.nutritionEstimate || null,
+    raw_data: recipe.rawData || null,
+    versions: recipe.versions || [],
 
     // User additions
     notes: recipe.notes || null,
@@ -108,7 +136,8 @@ function convertToDbRecipe(recipe: SavedRecipe, userId: string): Omit<NewDbRecip
 }
 
 /**
- * Migrate all localStorage recipes to cloud storage
+ * Migrate all guest recipes to cloud storage, and move the guest's other
+ * data to the account
  */
 export async function migrateLocalToCloud(
   userId: string,
@@ -123,17 +152,16 @@ export async function migrateLocalToCloud(
     success: false,
     migratedCount: 0,
     skippedCount: 0,
+    adoptedCount: 0,
     errorCount: 0,
     errors: [],
   };
 
   try {
-    const localRecipes = getAllFavorites();
+    // Collections and meal plans point at guest recipe IDs, remapped below
+    result.adoptedCount = await adoptGuestData(userId);
 
-    if (localRecipes.length === 0) {
-      result.success = true;
-      return result;
-    }
+    const localRecipes = await new GuestRecipeRepository().list();
 
     for (const recipe of localRecipes) {
       try {
@@ -141,6 +169,7 @@ export async function migrateLocalToCloud(
         if (skipDuplicates) {
           const existing = await getRecipeBySourceUrl(userId, recipe.source.url);
           if (existing.data) {
+            if (recipe.id) await remapRecipeReferences(userId, recipe.id, existing.data.id);
             result.skippedCount++;
             continue;
           }
@@ -154,6 +183,9 @@ export async function migrateLocalToCloud(
           result.errorCount++;
           result.errors.push(`Failed to migrate "${recipe.title}": ${createResult.error.message}`);
         } else {
+          if (recipe.id && createResult.data) {
+            await remapRecipeReferences(userId, recipe.id, createResult.data.id);
+          }
           result.migratedCount++;
         }
       } catch (error) {
@@ -162,9 +194,9 @@ export async function migrateLocalToCloud(
       }
     }
 
-    // Clear localStorage if requested and migration was successful
+    // Clear guest recipes if requested and migration was successful
     if (clearLocalAfter && result.errorCount === 0) {
-      clearAllFavorites();
+      await clearLocalRecipes();
     }
 
     // Update migration status
@@ -0,0 +1,81 @@
+/**
+ * Recipe repository for guests
+ *
+ * Keeps favorites in IndexedDB, moving any left in localStorage over on
+ * first use. Browsers without IndexedDB, or where the move failed, stay on
+ * localStorage.
+ */
+
+import type { Recipe } from '@/types';
+import type { SavedRecipe } from '@/services/favorites';
+import {
+  getAllGuestFavorites,
+  getGuestFavoriteById,
+  getGuestFavoriteByUrl,
+  prepareGuestStore,
+  removeGuestFavorite,
+  saveGuestFavorite,
+  searchGuestFavorites,
+  updateGuestFavorite,
+  upsertGuestFavorites,
+} from '@/services/guestFavorites';
+import type { RecipeChanges, RecipeRepository, SaveRecipeOptions } from './RecipeRepository';
+import { LocalStorageRecipeRepository } from './LocalStorageRecipeRepository';
+
+const indexedDbRepository: RecipeRepository = {
+  list: getAllGuestFavorites,
+  get: getGuestFavoriteById,
+  getByUrl: getGuestFavoriteByUrl,
+  search: searchGuestFavorites,
+  create: saveGuestFavorite,
+  update: updateGuestFavorite,
+  delete: removeGuestFavorite,
+  upsert: upsertGuestFavorites,
+};
+
+export class GuestRecipeRepository implements RecipeRepository {
+  private backend: Promise<RecipeRepository> | null = null;
+
+  async list(): Promise<SavedRecipe[]> {
+    return this.use((repo) => repo.list());
+  }
+
+  async get(id: string): Promise<SavedRecipe | null> {
+    return this.use((repo) => repo.get(id));
+  }
+
+  async getByUrl(sourceUrl: string): Promise<SavedRecipe | null> {
+    return this.use((repo) => repo.getByUrl(sourceUrl));
+  }
+
+  async search(query: string): Promise<SavedRecipe[]> {
+    return this.use((repo) => repo.search(query));
+  }
+
+  async create(recipe: Recipe, options?: SaveRecipeOptions): Promise<SavedRecipe> {
+    return this.use((repo) => repo.create(recipe, options));
+  }
+
+  async update(id: string, changes: RecipeChanges): Promise<SavedRecipe | null> {
+    return this.use((repo) => repo.update(id, changes));
+  }
+
+  async delete(id: string): Promise<boolean> {
+    return this.use((repo) => repo.delete(id));
+  }
+
+  async upsert(recipes: SavedRecipe[]): Promise<SavedRecipe[]> {
+    return this.use((repo) => repo.upsert(recipes));
+  }
+
+  /**
+   * Run against IndexedDB once the guest store is migrated, or localStorage
+   * when it can't be
+   */
+  private async use<T>(operation: (repo: RecipeRepository) => Promise<T>): Promise<T> {
+    this.backend ??= prepareGuestStore().then((ready) =>
+      ready ? indexedDbRepository : new LocalStorageRecipeRepository()
+    );
+    return operation(await this.backend);
+  }
+}
@@ -0,0 +1,51 @@
+/**
+ * Recipe repository backed by localStorage, for guests
+ */
+
+import type { Recipe } from '@/types';
+import {
+  type SavedRecipe,
+  getAllFavorites,
+  getFavoriteById,
+  getFavoriteByUrl,
+  removeFavorite,
+  saveFavorite,
+  searchFavorites,
+  updateFavorite,
+  upsertFavorites,
+} from '@/services/favorites';
+import type { RecipeChanges, RecipeRepository, SaveRecipeOptions } from './RecipeRepository';
+
+export class LocalStorageRecipeRepository implements RecipeRepository {
+  async list(): Promise<SavedRecipe[]> {
+    return getAllFavorites();
+  }
+
+  async get(id: string): Promise<SavedRecipe | null> {
+    return getFavoriteById(id);
+  }
+
+  async getByUrl(sourceUrl: string): Promise<SavedRecipe | null> {
+    return getFavoriteByUrl(sourceUrl);
+  }
+
+  async search(query: string): Promise<SavedRecipe[]> {
+    return searchFavorites(query);
+  }
+
+  async create(recipe: Recipe, options?: SaveRecipeOptions): Promise<SavedRecipe> {
+    return saveFavorite(recipe, options);
+  }
+
+  async update(id: string, changes: RecipeChanges): Promise<SavedRecipe | null> {
+    return updateFavorite(id, changes);
+  }
+
+  async delete(id: string): Promise<boolean> {
+    return removeFavorite(id);
+  }
+
+  async upsert(recipes: SavedRecipe[]): Promise<SavedRecipe[]> {
+    return upsertFavorites(recipes);
+  }
+}
@@ -0,0 +1,84 @@
+/**
+ * Recipe repository backed by IndexedDB, for signed-in users
+ *
+ * Reads come from the local copy only. Writes go through the sync manager,
+ * which sends them to Supabase when online and queues them otherwise.
+ */
+
+import { ErrorCode, type Recipe } from '@/types';
+import type { SavedRecipe } from '@/services/favorites';
+import { createError } from '@/lib/utils';
+import {
+  createRecipeWithSync,
+  deleteRecipeWithSync,
+  getAllFromOffline,
+  getFromOffline,
+  updateRecipeWithSync,
+} from '@/services/sync';
+import type { RecipeChanges, RecipeRepository, SaveRecipeOptions } from './RecipeRepository';
+import { matchesQuery } from './RecipeRepository';
+import {
+  changesToDbUpdate,
+  dbRecipeToSavedRecipe,
+  recipeToDbFormat,
+  savedRecipeToDbFormat,
+} from './mappers';
+
+export class OfflineRecipeRepository implements RecipeRepository {
+  constructor(private readonly userId: string) {}
+
+  async list(): Promise<SavedRecipe[]> {
+    const rows = await getAllFromOffline(this.userId);
+    return rows.sort((a, b) => b.created_at.localeCompare(a.created_at)).map(dbRecipeToSavedRecipe);
+  }
+
+  async get(id: string): Promise<SavedRecipe | null> {
+    const row = await getFromOffline(id);
+    if (!row || row.user_id !== this.userId || row.is_deleted) return null;
+    return dbRecipeToSavedRecipe(row);
+  }
+
+  async getByUrl(sourceUrl: string): Promise<SavedRecipe | null> {
+    const recipes = await this.list();
+    return recipes.find((r) => r.source.url === sourceUrl) ?? null;
+  }
+
+  async search(query: string): Promise<SavedRecipe[]> {
+    const recipes = await this.list();
+    if (!query.trim()) return recipes;
+    return recipes.filter((r) => matchesQuery(r, query));
+  }
+
+  async create(recipe: Recipe, options?: SaveRecipeOptions): Promise<SavedRecipe> {
+    const row = await createRecipeWithSync(this.userId, recipeToDbFormat(recipe, options));
+    if (!row) {
+      throw createError(ErrorCode.INTERNAL_ERROR, 'Failed to save recipe');
+    }
+    return dbRecipeToSavedRecipe(row);
+  }
+
+  async update(id: string, changes: RecipeChanges): Promise<SavedRecipe | null> {
+    const row = await updateRecipeWithSync(id, this.userId, changesToDbUpdate(changes));
+    return row ? dbRecipeToSavedRecipe(row) : null;
+  }
+
+  async delete(id: string): Promise<boolean> {
+    return deleteRecipeWithSync(id, this.userId);
+  }
+
+  /**
+   * Recipes not stored here yet are created, so they get new IDs
+   */
+  async upsert(recipes: SavedRecipe[]): Promise<SavedRecipe[]> {
+    const saved: SavedRecipe[] = [];
+    for (const recipe of recipes) {
+      const row = savedRecipeToDbFormat(recipe);
+      const result =
+        recipe.id && (await this.get(recipe.id))
+          ? await updateRecipeWithSync(recipe.id, this.userId, row)
+          : await createRecipeWithSync(this.userId, row);
+      if (result) saved.push(dbRecipeToSavedRecipe(result));
+    }
+    return saved;
+  }
+}
@@ -0,0 +1,64 @@
+/**
+ * Recipe repository
+ *
+ * One interface over every place saved recipes can live: IndexedDB for
+ * guests (falling back to localStorage), IndexedDB and Supabase for
+ * signed-in users, and a self-hosted API for on-prem installs. Implementations return null (or false) when a recipe
+ * doesn't exist and throw when the storage itself fails.
+ */
+
+import type { Recipe } from '@/types';
+import type { SavedRecipe } from '@/services/favorites';
+
+/**
+ * Extras stored alongside a recipe when it's saved
+ */
+export interface SaveRecipeOptions {
+  notes?: string;
+  userTags?: string[];
+  multiplier?: number;
+}
+
+/**
+ * Fields of a saved recipe that can be edited after saving
+ */
+export type RecipeChanges = Partial<
+  Pick<
+    SavedRecipe,
+    'title' | 'ingredients' | 'instructions' | 'versions' | 'notes' | 'lastScaledMultiplier'
+  >
+>;
+
+export interface RecipeRepository {
+  /** All saved recipes, newest first */
+  list(): Promise<SavedRecipe[]>;
+
+  get(id: string): Promise<SavedRecipe | null>;
+
+  getByUrl(sourceUrl: string): Promise<SavedRecipe | null>;
+
+  /** Recipes whose title, description, author or tags match; everything for a blank query */
+  search(query: string): Promise<SavedRecipe[]>;
+
+  create(recipe: Recipe, options?: SaveRecipeOptions): Promise<SavedRecipe>;
+
+  update(id: string, changes: RecipeChanges): Promise<SavedRecipe | null>;
+
+  delete(id: string): Promise<boolean>;
+
+  /** Save recipes as given, replacing any with the same ID */
+  upsert(recipes: SavedRecipe[]): Promise<SavedRecipe[]>;
+}
+
+/**
+ * Case-insensitive match used by repositories that search in memory
+ */
+export function matchesQuery(recipe: SavedRecipe, query: string): boolean {
+  const q = query.toLowerCase().trim();
+  return (
+    recipe.title.toLowerCase().includes(q) ||
+    !!recipe.description?.toLowerCase().includes(q) ||
+    !!recipe.author?.toLowerCase().includes(q) ||
+    !!recipe.tags?.some((tag) => tag.toLowerCase().includes(q))
+  );
+}
@@ -0,0 +1,142 @@
+/** @jest-environment node */
+import { createServer, type Server } from 'node:http';
+import type { AddressInfo } from 'node:net';
+import { SqliteRecipeStore } from '@/server/RecipeStore';
+import { createRecipeApi } from '@/server/app';
+import { ErrorCode, type Recipe } from '@/types';
+import { SelfHostedRecipeRepository } from './SelfHostedRecipeRepository';
+
+const recipe = (title: string, url: string, extra: Partial<Recipe> = {}): Recipe => ({
+  title,
+  servings: { amount: 4, unit: 'servings', originalText: '4 servings' },
+  ingredients: [],
+  instructions: [{ step: 1, text: 'Cook' }],
+  source: {
+    url,
+    domain: 'example.com',
+    scrapedAt: new Date('2026-01-01'),
+    scrapeMethod: 'schema-org',
+  },
+  ...extra,
+});
+
+describe('SelfHostedRecipeRepository', () => {
+  let store: SqliteRecipeStore;
+  let server: Server;
+  let baseUrl: string;
+
+  const start = async (token?: string) => {
+    store = new SqliteRecipeStore(':memory:');
+    server = createServer(createRecipeApi(store, { token }));
+    await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve));
+    baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+  };
+
+  afterEach(async () => {
+    await new Promise((resolve) => server.close(resolve));
+    store.close();
+  });
+
+  describe('without a token', () => {
+    let repository: SelfHostedRecipeRepository;
+
+    beforeEach(async () => {
+      await start();
+      repository = new SelfHostedRecipeRepository({ baseUrl: `${baseUrl}/` });
+    });
+
+    it('creates, reads, updates and deletes recipes', async () => {
+      const saved = await repository.create(recipe('Soup', 'https://example.com/soup'), {
+        notes: 'Extra salt',
+        multiplier: 2,
+      });
+
+      expect(saved).toMatchObject({ title: 'Soup', notes: 'Extra salt', lastScaledMultiplier: 2 });
+      expect(await repository.get(saved.id!)).toMatchObject({ title: 'Soup' });
+      expect((await repository.getByUrl('https://example.com/soup'))?.id).toBe(saved.id);
+
+      const updated = await repository.update(saved.id!, { title: 'Better soup', notes: '' });
+      expect(updated).toMatchObject({ title: 'Better soup', notes: '', savedAt: saved.savedAt });
+
+      expect(await repository.delete(saved.id!)).toBe(true);
+      expect(await repository.get(saved.id!)).toBeNull();
+      expect(await repository.delete(saved.id!)).toBe(false);
+      expect(await repository.update(saved.id!, { title: 'Gone' })).toBeNull();
+    });
+
+    it('keeps one copy per source URL', async () => {
+      const first = await repository.create(recipe('Soup', 'https://example.com/soup'), {
+        notes: 'Mine',
+      });
+      const second = await repository.create(recipe('Soup v2', 'https://example.com/soup'));
+
+      expect(second).toMatchObject({ id: first.id, title: 'Soup v2', notes: 'Mine' });
+      expect(await repository.list()).toHaveLength(1);
+    });
+
+    it('searches titles, descriptions, authors and tags', async () => {
+      await repository.create(recipe('Tomato soup', 'https://example.com/1'));
+      await repository.create(
+        recipe('Bread', 'https://example.com/2', { author: 'Ann Tomato-Smith' })
+      );
+      await repository.create(recipe('Salad', 'https://example.com/3', { tags: ['summer'] }));
+      await repository.create(recipe('100% rye', 'https://example.com/4'));
+
+      const titles = async (query: string) =>
+        (await repository.search(query)).map((r) => r.title).sort();
+
+      expect(await titles('tomato')).toEqual(['Bread', 'Tomato soup']);
+      expect(await titles('SUMMER')).toEqual(['Salad']);
+      expect(await titles('%')).toEqual(['100% rye']);
+      expect(await titles('  ')).toHaveLength(4);
+    });
+
+    it('upserts recipes with their own IDs and timestamps', async () => {
+      const saved = await repository.create(recipe('Soup', 'https://example.com/soup'));
+
+      await repository.upsert([
+        { ...saved, title: 'Renamed' },
+        {
+          ...recipe('Stew', 'https://example.com/stew'),
+          id: 'imported-1',
+          savedAt: '2020-01-01T00:00:00.000Z',
+          lastViewedAt: '2020-01-01T00:00:00.000Z',
+          userTags: [],
+        },
+      ]);
+
+      const recipes = await repository.list();
+      expect(recipes.map((r) => [r.id, r.title])).toEqual([
+        [saved.id, 'Renamed'],
+        ['imported-1', 'Stew'],
+      ]);
+    });
+
+    it('rejects recipes without a source URL', async () => {
+      await expect(
+        repository.create({ ...recipe('Soup', ''), source: undefined } as unknown as Recipe)
+      ).rejects.toMatchObject({ code: ErrorCode.VALIDATION_ERROR });
+    });
+  });
+
+  describe('with a token', () => {
+    beforeEach(() => start('secret-token'));
+
+    it('requires the token', async () => {
+      const anonymous = new SelfHostedRecipeRepository({ baseUrl });
+      const wrong = new SelfHostedRecipeRepository({ baseUrl, token: 'nope' });
+      const authorized = new SelfHostedRecipeRepository({ baseUrl, token: 'secret-token' });
+
+      await expect(anonymous.list()).rejects.toMatchObject({ code: ErrorCode.UNAUTHORIZED });
+      await expect(wrong.list()).rejects.toMatchObject({ code: ErrorCode.UNAUTHORIZED });
+      await expect(authorized.list()).resolves.toEqual([]);
+    });
+  });
+
+  it('reports an unreachable server as a network error', async () => {
+    await start();
+    const repository = new SelfHostedRecipeRepository({ baseUrl: 'http://127.0.0.1:1' });
+
+    await expect(repository.list()).rejects.toMatchObject({ code: ErrorCode.NETWORK_ERROR });
+  });
+});
@@ -0,0 +1,126 @@
+/**
+ * Recipe repository backed by the self-hosted recipe API (see server/)
+ *
+ * Lets Recipe Journal run fully on-prem without Supabase. Responses use the
+ * same { success, data, error } envelope as the app's own API routes.
+ */
+
+import { ApiError, ErrorCode, type Recipe } from '@/types';
+import type { SavedRecipe } from '@/services/favorites';
+import { AppError, createError } from '@/lib/utils';
+import type { RecipeChanges, RecipeRepository, SaveRecipeOptions } from './RecipeRepository';
+
+export interface SelfHostedConfig {
+  /** Where the API is served, e.g. http://recipes.internal:4000 */
+  baseUrl: string;
+  /** Sent as a bearer token when the server requires one */
+  token?: string;
+}
+
+export class SelfHostedRecipeRepository implements RecipeRepository {
+  private readonly baseUrl: string;
+  private readonly token?: string;
+
+  constructor(config: SelfHostedConfig) {
+    this.baseUrl = config.baseUrl.replace(/\/+$/, '');
+    this.token = config.token;
+  }
+
+  async list(): Promise<SavedRecipe[]> {
+    return this.request<SavedRecipe[]>('/recipes');
+  }
+
+  async get(id: string): Promise<SavedRecipe | null> {
+    return this.orNull(this.request<SavedRecipe>(`/recipes/${encodeURIComponent(id)}`));
+  }
+
+  async getByUrl(sourceUrl: string): Promise<SavedRecipe | null> {
+    const matches = await this.request<SavedRecipe[]>(
+      `/recipes?sourceUrl=${encodeURIComponent(sourceUrl)}`
+    );
+    return matches[0] ?? null;
+  }
+
+  async search(query: string): Promise<SavedRecipe[]> {
+    if (!query.trim()) return this.list();
+    return this.request<SavedRecipe[]>(`/recipes?q=${encodeURIComponent(query.trim())}`);
+  }
+
+  async create(recipe: Recipe, options?: SaveRecipeOptions): Promise<SavedRecipe> {
+    return this.request<SavedRecipe>('/recipes', {
+      method: 'POST',
+      body: JSON.stringify({ recipe, options }),
+    });
+  }
+
+  async update(id: string, changes: RecipeChanges): Promise<SavedRecipe | null> {
+    return this.orNull(
+      this.request<SavedRecipe>(`/recipes/${encodeURIComponent(id)}`, {
+        method: 'PATCH',
+        body: JSON.stringify(changes),
+      })
+    );
+  }
+
+  async delete(id: string): Promise<boolean> {
+    const result = await this.orNull(
+      this.request<{ deleted: boolean }>(`/recipes/${encodeURIComponent(id)}`, {
+        method: 'DELETE',
+      })
+    );
+    return !!result?.deleted;
+  }
+
+  async upsert(recipes: SavedRecipe[]): Promise<SavedRecipe[]> {
+    return this.request<SavedRecipe[]>('/recipes', {
+      method: 'PUT',
+      body: JSON.stringify(recipes),
+    });
+  }
+
+  /**
+   * Treat a missing recipe as null rather than an error
+   */
+  private async orNull<T>(request: Promise<T>): Promise<T | null> {
+    try {
+      return await request;
+    } catch (error) {
+      if (error instanceof AppError && error.code === ErrorCode.RECIPE_NOT_FOUND) return null;
+      throw error;
+    }
+  }
+
+  private async request<T>(path: string, options: RequestInit = {}): Promise<T> {
+    let response: Response;
+    try {
+      response = await fetch(`${this.baseUrl}${path}`, {
+        ...options,
+        headers: {
+          Accept: 'application/json',
+          'Content-Type': 'application/json',
+          ...(this.token && { Authorization: `Bearer ${this.token}` }),
+        },
+      });
+    } catch (error) {
+      throw createError(
+        ErrorCode.NETWORK_ERROR,
+        error instanceof Error ? error.message : 'Network error'
+      );
+    }
+
+    const body = (await response.json().catch(() => null)) as {
+      success?: boolean;
+      data?: T;
+      error?: ApiError;
+    } | null;
+
+    if (!response.ok || body?.success !== true) {
+      throw createError(
+        (body?.error?.code as ErrorCode) ?? ErrorCode.INTERNAL_ERROR,
+        body?.error?.message ?? `Request failed (HTTP ${response.status})`,
+        body?.error?.details
+      );
+    }
+    return body.data as T;
+  }
+}
@@ -0,0 +1,88 @@
+/**
+ * Recipe repository backed by Supabase, for signed-in users who are online
+ */
+
+import { ErrorCode, type Recipe } from '@/types';
+import type { SavedRecipe } from '@/services/favorites';
+import { createError } from '@/lib/utils';
+import {
+  createRecipe,
+  deleteRecipe,
+  getFavorites,
+  getRecipeById,
+  getRecipeBySourceUrl,
+  searchRecipes,
+  updateRecipe,
+  upsertRecipes,
+} from '@/lib/supabase/recipes';
+import type { DbRecipe } from '@/lib/supabase/types';
+import type { RecipeChanges, RecipeRepository, SaveRecipeOptions } from './RecipeRepository';
+import {
+  changesToDbUpdate,
+  dbRecipeToSavedRecipe,
+  recipeToDbFormat,
+  savedRecipeToDbFormat,
+} from './mappers';
+
+/**
+ * Unwrap a Supabase result, turning its error into an AppError
+ */
+function unwrap<T>(result: { data: T; error: Error | null }): T {
+  if (result.error) {
+    throw createError(ErrorCode.NETWORK_ERROR, result.error.message);
+  }
+  return result.data;
+}
+
+export class SupabaseRecipeRepository implements RecipeRepository {
+  constructor(private readonly userId: string) {}
+
+  /**
+   * Saved recipes as stored rows, for callers that cache them offline
+   */
+  async listRows(): Promise<DbRecipe[]> {
+    return unwrap(await getFavorites(this.userId));
+  }
+
+  async list(): Promise<SavedRecipe[]> {
+    return (await this.listRows()).map(dbRecipeToSavedRecipe);
+  }
+
+  async get(id: string): Promise<SavedRecipe | null> {
+    const row = unwrap(await getRecipeById(id));
+    return row && !row.is_deleted ? dbRecipeToSavedRecipe(row) : null;
+  }
+
+  async getByUrl(sourceUrl: string): Promise<SavedRecipe | null> {
+    const row = unwrap(await getRecipeBySourceUrl(this.userId, sourceUrl));
+    return row ? dbRecipeToSavedRecipe(row) : null;
+  }
+
+  async search(query: string): Promise<SavedRecipe[]> {
+    if (!query.trim()) return this.list();
+    return unwrap(await searchRecipes(this.userId, query.trim())).map(dbRecipeToSavedRecipe);
+  }
+
+  async create(recipe: Recipe, options?: SaveRecipeOptions): Promise<SavedRecipe> {
+    const row = unwrap(await createRecipe(this.userId, recipeToDbFormat(recipe, options)));
+    if (!row) {
+      throw createError(ErrorCode.INTERNAL_ERROR, 'Failed to save recipe');
+    }
+    return dbRecipeToSavedRecipe(row);
+  }
+
+  async update(id: string, changes: RecipeChanges): Promise<SavedRecipe | null> {
+    const row = unwrap(await updateRecipe(id, changesToDbUpdate(changes)));
+    return row ? dbRecipeToSavedRecipe(row) : null;
+  }
+
+  async delete(id: string): Promise<boolean> {
+    unwrap(await deleteRecipe(id));
+    return true;
+  }
+
+  async upsert(recipes: SavedRecipe[]): Promise<SavedRecipe[]> {
+    const rows = recipes.map((recipe) => ({ ...savedRecipeToDbFormat(recipe), id: recipe.id }));
+    return unwrap(await upsertRecipes(this.userId, rows)).map(dbRecipeToSavedRecipe);
+  }
+}
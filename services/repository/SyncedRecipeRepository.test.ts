@@ -0,0 +1,134 @@
+import { SyncedRecipeRepository } from './SyncedRecipeRepository';
+import type { DbRecipe } from '@/lib/supabase/types';
+import type { Recipe } from '@/types';
+import { getFavorites, searchRecipes } from '@/lib/supabase/recipes';
+import {
+  createRecipeWithSync,
+  getAllFromOffline,
+  isOnline,
+  saveAllToOffline,
+} from '@/services/sync';
+
+jest.mock('@/lib/supabase/recipes', () => ({
+  getFavorites: jest.fn(),
+  searchRecipes: jest.fn(),
+}));
+
+jest.mock('@/lib/offline', () => ({
+  isIndexedDBAvailable: jest.fn(() => true),
+}));
+
+jest.mock('@/services/sync', () => ({
+  isOnline: jest.fn(() => true),
+  saveAllToOffline: jest.fn(async (rows: unknown[]) => rows),
+  getAllFromOffline: jest.fn(),
+  createRecipeWithSync: jest.fn(),
+}));
+
+const row = (id: string, title: string, createdAt: string): DbRecipe => ({
+  id,
+  user_id: 'user-1',
+  title,
+  source_url: `https://example.com/${id}`,
+  source_domain: 'example.com',
+  image_url: null,
+  description: null,
+  author: null,
+  prep_time: '10 minutes',
+  cook_time: null,
+  total_time: null,
+  servings_amount: 2,
+  servings_unit: 'servings',
+  original_servings_amount: 2,
+  ingredients: [],
+  instructions: [],
+  nutrition: null,
+  notes: 'Family favourite',
+  tags: ['soup'],
+  is_favorite: true,
+  last_scale_multiplier: 1,
+  created_at: createdAt,
+  updated_at: createdAt,
+  last_viewed_at: null,
+  sync_version: 1,
+  is_deleted: false,
+});
+
+describe('SyncedRecipeRepository', () => {
+  const repository = new SyncedRecipeRepository('user-1');
+  const soup = row('r1', 'Soup', '2026-01-01T00:00:00.000Z');
+  const stew = row('r2', 'Stew', '2026-02-01T00:00:00.000Z');
+  const recipe = {
+    title: 'Soup',
+    source: { url: 'https://example.com/r1', domain: 'example.com' },
+    servings: { amount: 2, unit: 'servings' },
+    tags: ['soup'],
+  } as Recipe;
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    jest.spyOn(console, 'error').mockImplementation(() => undefined);
+    (isOnline as jest.Mock).mockReturnValue(true);
+    (getAllFromOffline as jest.Mock).mockResolvedValue([soup, stew]);
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('lists from the cloud and caches the rows offline', async () => {
+    (getFavorites as jest.Mock).mockResolvedValue({ data: [soup], error: null });
+
+    const recipes = await repository.list();
+
+    expect(recipes).toEqual([
+      expect.objectContaining({ id: 'r1', title: 'Soup', prepTime: 10, notes: 'Family favourite' }),
+    ]);
+    expect(saveAllToOffline).toHaveBeenCalledWith([soup]);
+    expect(getAllFromOffline).not.toHaveBeenCalled();
+  });
+
+  it('lists the local copy of a recipe with unsynced edits', async () => {
+    (getFavorites as jest.Mock).mockResolvedValue({ data: [soup], error: null });
+    (saveAllToOffline as jest.Mock).mockResolvedValueOnce([{ ...soup, title: 'My soup' }]);
+
+    const recipes = await repository.list();
+
+    expect(recipes.map((r) => r.title)).toEqual(['My soup']);
+  });
+
+  it('lists the offline copy, newest first, while offline', async () => {
+    (isOnline as jest.Mock).mockReturnValue(false);
+
+    const recipes = await repository.list();
+
+    expect(recipes.map((r) => r.id)).toEqual(['r2', 'r1']);
+    expect(getFavorites).not.toHaveBeenCalled();
+  });
+
+  it('falls back to the offline copy when the cloud fails', async () => {
+    (searchRecipes as jest.Mock).mockResolvedValue({ data: [], error: new Error('timeout') });
+
+    const recipes = await repository.search('stew');
+
+    expect(recipes.map((r) => r.title)).toEqual(['Stew']);
+  });
+
+  it('saves through the sync manager', async () => {
+    (createRecipeWithSync as jest.Mock).mockResolvedValue(soup);
+
+    const saved = await repository.create(recipe, { userTags: ['weeknight'], multiplier: 2 });
+
+    expect(saved.id).toBe('r1');
+    expect(createRecipeWithSync).toHaveBeenCalledWith(
+      'user-1',
+      expect.objectContaining({ tags: ['soup', 'weeknight'], last_scale_multiplier: 2 })
+    );
+  });
+
+  it('throws when the recipe could not be saved', async () => {
+    (createRecipeWithSync as jest.Mock).mockResolvedValue(null);
+
+    await expect(repository.create(recipe)).rejects.toThrow('Failed to save recipe');
+  });
+});
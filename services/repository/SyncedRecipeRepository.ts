@@ -0,0 +1,89 @@
+/**
+ * Recipe repository for signed-in users
+ *
+ * Reads from Supabase while online, caching what it loads in IndexedDB,
+ * and from that cache when offline or when Supabase fails. Writes go
+ * through the offline repository so they are queued while offline.
+ */
+
+import type { Recipe } from '@/types';
+import type { SavedRecipe } from '@/services/favorites';
+import { isIndexedDBAvailable } from '@/lib/offline';
+import { isOnline, saveAllToOffline } from '@/services/sync';
+import type { RecipeChanges, RecipeRepository, SaveRecipeOptions } from './RecipeRepository';
+import { OfflineRecipeRepository } from './OfflineRecipeRepository';
+import { SupabaseRecipeRepository } from './SupabaseRecipeRepository';
+import { dbRecipeToSavedRecipe } from './mappers';
+
+export class SyncedRecipeRepository implements RecipeRepository {
+  private readonly cloud: SupabaseRecipeRepository;
+  private readonly offline: OfflineRecipeRepository;
+
+  constructor(userId: string) {
+    this.cloud = new SupabaseRecipeRepository(userId);
+    this.offline = new OfflineRecipeRepository(userId);
+  }
+
+  async list(): Promise<SavedRecipe[]> {
+    return this.read(
+      async () => {
+        // Recipes with unsynced edits or open conflicts show the local copy
+        const rows = await saveAllToOffline(await this.cloud.listRows());
+        return rows.filter((row) => !row.is_deleted).map(dbRecipeToSavedRecipe);
+      },
+      () => this.offline.list()
+    );
+  }
+
+  async get(id: string): Promise<SavedRecipe | null> {
+    return this.read(
+      () => this.cloud.get(id),
+      () => this.offline.get(id)
+    );
+  }
+
+  async getByUrl(sourceUrl: string): Promise<SavedRecipe | null> {
+    return this.read(
+      () => this.cloud.getByUrl(sourceUrl),
+      () => this.offline.getByUrl(sourceUrl)
+    );
+  }
+
+  async search(query: string): Promise<SavedRecipe[]> {
+    return this.read(
+      () => this.cloud.search(query),
+      () => this.offline.search(query)
+    );
+  }
+
+  async create(recipe: Recipe, options?: SaveRecipeOptions): Promise<SavedRecipe> {
+    return this.offline.create(recipe, options);
+  }
+
+  async update(id: string, changes: RecipeChanges): Promise<SavedRecipe | null> {
+    return this.offline.update(id, changes);
+  }
+
+  async delete(id: string): Promise<boolean> {
+    return this.offline.delete(id);
+  }
+
+  async upsert(recipes: SavedRecipe[]): Promise<SavedRecipe[]> {
+    return this.offline.upsert(recipes);
+  }
+
+  /**
+   * Read from the cloud when online, falling back to the offline copy
+   */
+  private async read<T>(fromCloud: () => Promise<T>, fromOffline: () => Promise<T>): Promise<T> {
+    if (!isOnline()) return fromOffline();
+
+    try {
+      return await fromCloud();
+    } catch (error) {
+      if (!isIndexedDBAvailable()) throw error;
+      console.error('Failed to read recipes from the cloud, using offline copy:', error);
+      return fromOffline();
+    }
+  }
+}
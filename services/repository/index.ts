@@ -0,0 +1,54 @@
+/**
+ * Recipe repository exports
+ */
+
+import type { RecipeRepository } from './RecipeRepository';
+import { GuestRecipeRepository } from './GuestRecipeRepository';
+import { OfflineRecipeRepository } from './OfflineRecipeRepository';
+import { SelfHostedRecipeRepository } from './SelfHostedRecipeRepository';
+import { SyncedRecipeRepository } from './SyncedRecipeRepository';
+
+export type { RecipeRepository, RecipeChanges, SaveRecipeOptions } from './RecipeRepository';
+export { matchesQuery } from './RecipeRepository';
+export {
+  dbRecipeToSavedRecipe,
+  recipeToDbFormat,
+  savedRecipeToDbFormat,
+  changesToDbUpdate,
+} from './mappers';
+export { LocalStorageRecipeRepository } from './LocalStorageRecipeRepository';
+export { GuestRecipeRepository } from './GuestRecipeRepository';
+export { OfflineRecipeRepository } from './OfflineRecipeRepository';
+export { SupabaseRecipeRepository } from './SupabaseRecipeRepository';
+export { SyncedRecipeRepository } from './SyncedRecipeRepository';
+export { SelfHostedRecipeRepository } from './SelfHostedRecipeRepository';
+export type { SelfHostedConfig } from './SelfHostedRecipeRepository';
+
+// Requests go through the app's proxy route (trusted networks only, see README)
+function createSelfHostedRepository(): RecipeRepository | null {
+  if (process.env.NEXT_PUBLIC_RECIPE_API_ENABLED !== 'true') return null;
+  return new SelfHostedRecipeRepository({ baseUrl: '/api/self-hosted' });
+}
+
+/**
+ * Pick where saved recipes live: the self-hosted API when one is configured,
+ * otherwise Supabase (with an offline copy) for signed-in users and
+ * IndexedDB for guests
+ */
+export function createRecipeRepository(userId: string | null): RecipeRepository {
+  return (
+    createSelfHostedRepository() ??
+    (userId ? new SyncedRecipeRepository(userId) : new GuestRecipeRepository())
+  );
+}
+
+/**
+ * The copy of saved recipes kept on this device, for re-reading after another
+ * tab changes them. Self-hosted installs keep none, so this reads the API.
+ */
+export function createLocalRecipeRepository(userId: string | null): RecipeRepository {
+  return (
+    createSelfHostedRepository() ??
+    (userId ? new OfflineRecipeRepository(userId) : new GuestRecipeRepository())
+  );
+}
@@ -0,0 +1,111 @@
+/**
+ * Conversions between saved recipes and Supabase rows
+ */
+
+import type { Recipe } from '@/types';
+import type { SavedRecipe } from '@/services/favorites';
+import type { DbRecipe, DbRecipeUpdate, NewDbRecipe } from '@/lib/supabase/types';
+import type { RecipeChanges, SaveRecipeOptions } from './RecipeRepository';
+
+/**
+ * Convert a DbRecipe to SavedRecipe format for UI consistency
+ */
+export function dbRecipeToSavedRecipe(dbRecipe: DbRecipe): SavedRecipe {
+  return {
+    id: dbRecipe.id,
+    title: dbRecipe.title,
+    source: {
+      url: dbRecipe.source_url || '',
+      domain: dbRecipe.source_domain || '',
+      scrapedAt: new Date(dbRecipe.created_at),
+      scrapeMethod: 'schema-org',
+    },
+    description: dbRecipe.description || undefined,
+    image: dbRecipe.image_url || undefined,
+    author: dbRecipe.author || undefined,
+    prepTime: dbRecipe.prep_time ? parseInt(dbRecipe.prep_time) : undefined,
+    cookTime: dbRecipe.cook_time ? parseInt(dbRecipe.cook_time) : undefined,
+    totalTime: dbRecipe.total_time ? parseInt(dbRecipe.total_time) : undefined,
+    servings: {
+      amount: dbRecipe.servings_amount || 1,
+      unit: dbRecipe.servings_unit || 'servings',
+      originalText: `${dbRecipe.servings_amount || 1} ${dbRecipe.servings_unit || 'servings'}`,
+    },
+    ingredients: dbRecipe.ingredients,
+    instructions: dbRecipe.instructions,
+    nutrition: dbRecipe.nutrition || undefined,
+    nutritionEstimate: dbRecipe.nutrition_estimate || undefined,
+    rawData: dbRecipe.raw_data || undefined,
+    versions: dbRecipe.versions || [],
+    tags: dbRecipe.tags,
+    savedAt: dbRecipe.created_at,
+    lastViewedAt: dbRecipe.last_viewed_at || dbRecipe.updated_at,
+    notes: dbRecipe.notes || undefined,
+    userTags: [], // Tags are combined in DB
+    lastScaledMultiplier: dbRecipe.last_scale_multiplier,
+  };
+}
+
+/**
+ * Convert a Recipe to cloud format for saving
+ */
+export function recipeToDbFormat(
+  recipe: Recipe,
+  options?: SaveRecipeOptions
+): Omit<NewDbRecipe, 'user_id'> {
+  return {
+    title: recipe.title,
+    source_url: recipe.source.url,
+    source_domain: recipe.source.domain,
+    image_url: recipe.image || null,
+    description: recipe.description || null,
+    author: recipe.author || null,
+    prep_time: recipe.prepTime ? `${recipe.prepTime} minutes` : null,
+    cook_time: recipe.cookTime ? `${recipe.cookTime} minutes` : null,
+    total_time: recipe.totalTime ? `${recipe.totalTime} minutes` : null,
+    servings_amount: recipe.servings.amount,
+    servings_unit: recipe.servings.unit || 'servings',
+    original_servings_amount: recipe.servings.amount,
+    ingredients: recipe.ingredients,
+    instructions: recipe.instructions,
+    nutrition: recipe.nutrition || null,
+    nutrition_estimate: recipe.nutritionEstimate || null,
+    raw_data: recipe.rawData || null,
+    versions: recipe.versions || [],
+    notes: options?.notes || null,
+    tags: [...(recipe.tags || []), ...(options?.userTags || [])],
+    is_favorite: true,
+    last_scale_multiplier: options?.multiplier ?? 1,
+    last_viewed_at: new Date().toISOString(),
+  };
+}
+
+/**
+ * Convert a saved recipe to cloud format, keeping its notes, tags and timestamps
+ */
+export function savedRecipeToDbFormat(recipe: SavedRecipe): Omit<NewDbRecipe, 'user_id'> {
+  return {
+    ...recipeToDbFormat(recipe, {
+      notes: recipe.notes,
+      userTags: recipe.userTags,
+      multiplier: recipe.lastScaledMultiplier,
+    }),
+    last_viewed_at: recipe.lastViewedAt,
+  };
+}
+
+/**
+ * Convert edited fields to a cloud update
+ */
+export function changesToDbUpdate(changes: RecipeChanges): DbRecipeUpdate {
+  return {
+    ...(changes.title !== undefined && { title: changes.title }),
+    ...(changes.ingredients !== undefined && { ingredients: changes.ingredients }),
+    ...(changes.instructions !== undefined && { instructions: changes.instructions }),
+    ...(changes.versions !== undefined && { versions: changes.versions }),
+    ...(changes.notes !== undefined && { notes: changes.notes }),
+    ...(changes.lastScaledMultiplier !== undefined && {
+      last_scale_multiplier: changes.lastScaledMultiplier,
+    }),
+  };
+}
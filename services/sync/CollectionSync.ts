@@ -0,0 +1,114 @@
+/**
+ * Collection Sync
+ * Stores recipe collections in IndexedDB and syncs them to Supabase when signed in
+ */
+
+import { getOfflineDb, type OfflineCollection } from '@/lib/offline';
+import { getCollections, upsertCollection, deleteCollection } from '@/lib/supabase/collections';
+import type { DbCollection } from '@/lib/supabase/types';
+import type { RecipeCollection } from '@/types';
+import { collectionService } from '@/lib/collections';
+import {
+  LOCAL_USER_ID,
+  createEntitySyncHandler,
+  deleteEntityWithSync,
+  getLocalEntities,
+  saveEntityWithSync,
+  type EntitySyncAdapter,
+} from './EntitySync';
+
+/**
+ * Convert a database row to a RecipeCollection
+ */
+export function dbCollectionToCollection(row: DbCollection): RecipeCollection {
+  return {
+    id: row.id,
+    name: row.name,
+    description: row.description,
+    coverImage: row.cover_image_url,
+    recipeIds: row.recipe_ids ?? [],
+    position: row.position,
+    createdAt: row.created_at,
+    updatedAt: row.updated_at,
+  };
+}
+
+/**
+ * Convert a RecipeCollection to a database row
+ */
+export function collectionToDbFormat(collection: RecipeCollection, userId: string): DbCollection {
+  return {
+    id: collection.id,
+    user_id: userId,
+    name: collection.name,
+    description: collection.description,
+    cover_image_url: collection.coverImage,
+    position: collection.position,
+    recipe_ids: collection.recipeIds,
+    created_at: collection.createdAt,
+    updated_at: collection.updatedAt,
+    sync_version: 1,
+    is_deleted: false,
+  };
+}
+
+export const collectionSyncAdapter: EntitySyncAdapter<OfflineCollection> = {
+  entity: 'collection',
+  getTable: () => getOfflineDb().collections,
+  fetchAll: getCollections,
+  upsert: upsertCollection,
+  remove: deleteCollection,
+};
+
+export const collectionSyncHandler = createEntitySyncHandler(collectionSyncAdapter);
+
+/**
+ * Get collections for a user (or the guest when userId is null), in display order
+ */
+export async function getCollectionsWithSync(userId: string | null): Promise<RecipeCollection[]> {
+  const rows = await getLocalEntities(collectionSyncAdapter, userId ?? LOCAL_USER_ID);
+  return rows
+    .map(dbCollectionToCollection)
+    .sort((a, b) => a.position - b.position || a.createdAt.localeCompare(b.createdAt));
+}
+
+/**
+ * Save a collection locally and sync it if signed in
+ */
+export async function saveCollectionWithSync(
+  userId: string | null,
+  collection: RecipeCollection
+): Promise<RecipeCollection> {
+  const saved = await saveEntityWithSync(
+    collectionSyncAdapter,
+    collectionToDbFormat(collection, userId ?? LOCAL_USER_ID)
+  );
+  return dbCollectionToCollection(saved);
+}
+
+/**
+ * Delete a collection locally and sync it if signed in
+ */
+export async function deleteCollectionWithSync(
+  userId: string | null,
+  id: string
+): Promise<boolean> {
+  return deleteEntityWithSync(collectionSyncAdapter, userId ?? LOCAL_USER_ID, id);
+}
+
+/**
+ * Point a user's collections at a recipe's new ID (after an offline-created
+ * recipe gets its cloud ID)
+ */
+export async function remapCollectionRecipeId(
+  userId: string,
+  oldId: string,
+  newId: string
+): Promise<void> {
+  for (const collection of await getCollectionsWithSync(userId)) {
+    const updated = collectionService.replaceRecipeId(collection, oldId, newId);
+    if (updated !== collection) {
+      await saveCollectionWithSync(userId, updated);
+    }
+  }
+}
@@ -0,0 +1,141 @@
+import {
+  createSnapshot,
+  getLocalChanges,
+  mergeTags,
+  mergeText,
+  resolveConflict,
+} from './ConflictResolver';
+import type { DbRecipe } from '@/lib/supabase/types';
+import type { OfflineRecipe } from '@/lib/offline';
+
+describe('ConflictResolver', () => {
+  const base: DbRecipe = {
+    id: 'recipe-1',
+    user_id: 'user-1',
+    title: 'Tomato Soup',
+    source_url: 'https://example.com/soup',
+    source_domain: 'example.com',
+    image_url: null,
+    description: 'Simple soup',
+    author: null,
+    prep_time: null,
+    cook_time: null,
+    total_time: null,
+    servings_amount: 4,
+    servings_unit: 'servings',
+    original_servings_amount: 4,
+    ingredients: [],
+    instructions: [{ step: 1, text: 'Simmer' }],
+    nutrition: null,
+    notes: 'Use ripe tomatoes\nSimmer 20 minutes\nServe hot',
+    tags: ['soup', 'vegetarian'],
+    is_favorite: true,
+    last_scale_multiplier: 1,
+    created_at: '2026-10-01T00:00:00.000Z',
+    updated_at: '2026-10-01T00:00:00.000Z',
+    last_viewed_at: null,
+    sync_version: 1,
+    is_deleted: false,
+  };
+
+  // Local copy edited offline, starting from base
+  const localEdit = (changes: Partial<DbRecipe>): OfflineRecipe => ({
+    ...base,
+    ...changes,
+    _offlineModified: true,
+    _localUpdatedAt: '2026-10-03T00:00:00.000Z',
+    _base: createSnapshot(base),
+  });
+
+  // Same recipe edited on another device
+  const remoteEdit = (changes: Partial<DbRecipe>): DbRecipe => ({
+    ...base,
+    ...changes,
+    updated_at: '2026-10-02T00:00:00.000Z',
+  });
+
+  describe('mergeTags', () => {
+    it('keeps additions from both sides and removals from either', () => {
+      expect(
+        mergeTags(['soup', 'vegetarian'], ['soup', 'quick'], ['vegetarian', 'winter'])
+      ).toEqual(['quick', 'winter']);
+    });
+  });
+
+  describe('mergeText', () => {
+    it('combines edits to different lines', () => {
+      expect(mergeText('a\nb\nc', 'a\nB\nc', 'a\nb\nc\nd')).toBe('a\nB\nc\nd');
+    });
+
+    it('returns null when both sides change the same line differently', () => {
+      expect(mergeText('a\nb\nc', 'a\nX\nc', 'a\nY\nc')).toBeNull();
+    });
+
+    it('accepts the same edit made on both sides', () => {
+      expect(mergeText('a\nb', 'a\nB\nc', 'a\nB\nc')).toBe('a\nB\nc');
+    });
+  });
+
+  describe('resolveConflict', () => {
+    it('merges notes and tags edited on two devices', () => {
+      const local = localEdit({
+        notes: 'Use ripe tomatoes\nSimmer 25 minutes\nServe hot',
+        tags: ['soup', 'vegetarian', 'quick'],
+      });
+      const remote = remoteEdit({
+        notes: 'Use ripe tomatoes\nSimmer 20 minutes\nServe hot\nTop with basil',
+        tags: ['soup', 'winter'],
+        title: 'Roasted Tomato Soup',
+      });
+
+      const result = resolveConflict(local, remote);
+
+      expect(result.winner).toBe('merged');
+      expect(result.conflicts).toEqual([]);
+      expect(result.resolvedRecipe).toMatchObject({
+        title: 'Roasted Tomato Soup',
+        notes: 'Use ripe tomatoes\nSimmer 25 minutes\nServe hot\nTop with basil',
+        tags: ['soup', 'quick', 'winter'],
+      });
+      expect(Object.keys(result.localChanges).sort()).toEqual(['notes', 'tags']);
+    });
+
+    it('leaves fields edited differently on both sides for the user', () => {
+      const local = localEdit({ title: 'Weeknight Soup', is_favorite: false });
+      const remote = remoteEdit({ title: 'Roasted Tomato Soup' });
+
+      const result = resolveConflict(local, remote);
+
+      expect(result.conflicts).toEqual([
+        { field: 'title', local: 'Weeknight Soup', remote: 'Roasted Tomato Soup' },
+      ]);
+      expect(result.resolvedRecipe.title).toBe('Weeknight Soup');
+      expect(result.localChanges).toEqual({ is_favorite: false });
+    });
+
+    it('takes the remote copy when nothing changed locally', () => {
+      const result = resolveConflict(localEdit({}), remoteEdit({ description: 'Rich soup' }));
+
+      expect(result.winner).toBe('remote');
+      expect(result.resolvedRecipe.description).toBe('Rich soup');
+      expect(result.localChanges).toEqual({});
+    });
+
+    it('falls back to last-write-wins without a base', () => {
+      const local: OfflineRecipe = {
+        ...localEdit({ title: 'Weeknight Soup' }),
+        _base: undefined,
+        sync_version: 2,
+      };
+
+      const result = resolveConflict(local, remoteEdit({ title: 'Roasted Tomato Soup' }));
+
+      expect(result.winner).toBe('local');
+      expect(result.resolvedRecipe.title).toBe('Weeknight Soup');
+    });
+  });
+
+  it('lists fields changed since the base', () => {
+    expect(Object.keys(getLocalChanges(localEdit({ notes: 'Less salt' })))).toEqual(['notes']);
+  });
+});
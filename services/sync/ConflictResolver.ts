@@ -1,19 +1,54 @@
 /**
  * Conflict Resolver Service
  * Handles merge conflicts between local and remote data
- * Strategy: Last-write-wins based on updated_at timestamp
+ * Strategy: field-level three-way merge against the last synced copy (the
+ * base). Fields changed on one side take that side's value, tags merge as a
+ * set and notes merge line by line. Anything else edited on both sides is
+ * left for the user to pick. Recipes cached before bases were kept fall back
+ * to last-write-wins.
  */
 
 import type { DbRecipe } from '@/lib/supabase/types';
-import type { OfflineRecipe } from '@/lib/offline';
+import type {
+  MergeableRecipeField,
+  OfflineRecipe,
+  RecipeFieldConflict,
+  RecipeSnapshot,
+} from '@/lib/offline';
+
+/**
+ * Fields compared and merged one by one
+ */
+export const MERGEABLE_FIELDS: MergeableRecipeField[] = [
+  'title',
+  'description',
+  'notes',
+  'tags',
+  'is_favorite',
+  'ingredients',
+  'instructions',
+  'nutrition',
+  'nutrition_estimate',
+  'last_scale_multiplier',
+];
+
+// Above this many line pairs, notes edited on both sides are left to the user
+const MAX_TEXT_MERGE_CELLS = 1_000_000;
 
 /**
  * Conflict resolution result
  */
 export interface ConflictResolution {
-  winner: 'local' | 'remote';
+  /** 'merged' when both sides contributed changes */
+  winner: 'local' | 'remote' | 'merged';
+  /** Remote row with the merged fields applied (conflicting fields keep the local value) */
   resolvedRecipe: DbRecipe;
+  /** True when both sides changed the recipe since the base */
   hadConflict: boolean;
+  /** Fields that couldn't be merged automatically */
+  conflicts: RecipeFieldConflict[];
+  /** Merged fields that differ from the remote row and need uploading */
+  localChanges: Partial<DbRecipe>;
 }
 
 /**
@@ -29,64 +64,263 @@ export interface ConflictDetails {
 }
 
 /**
- * Resolve conflict between local and remote recipe
- * Uses last-write-wins strategy based on updated_at
+ * A recipe with fields waiting for the user to pick a version
  */
-export function resolveConflict(
-  local: OfflineRecipe,
-  remote: DbRecipe
-): ConflictResolution {
+export interface RecipeConflict {
+  recipeId: string;
+  title: string;
+  fields: RecipeFieldConflict[];
+}
+
+/**
+ * The mergeable fields of a recipe, kept as the base for later merges
+ */
+export function createSnapshot(recipe: DbRecipe): RecipeSnapshot {
+  const snapshot = { updated_at: recipe.updated_at } as RecipeSnapshot;
+  for (const field of MERGEABLE_FIELDS) {
+    (snapshot as Record<string, unknown>)[field] = recipe[field];
+  }
+  return snapshot;
+}
+
+function isSameValue(a: unknown, b: unknown): boolean {
+  return JSON.stringify(a ?? null) === JSON.stringify(b ?? null);
+}
+
+/**
+ * Three-way merge of tags: additions from either side are kept, and a tag
+ * removed on either side stays removed
+ */
+export function mergeTags(base: string[], local: string[], remote: string[]): string[] {
+  return [...new Set([...local, ...remote])].filter(
+    (tag) => !base.includes(tag) || (local.includes(tag) && remote.includes(tag))
+  );
+}
+
+interface TextHunk {
+  /** Replaced base lines [start, end) */
+  start: number;
+  end: number;
+  lines: string[];
+}
+
+/**
+ * Line ranges of base that other replaces, from a longest common subsequence
+ */
+function diffLines(base: string[], other: string[]): TextHunk[] {
+  const n = base.length;
+  const m = other.length;
+
+  // lcs[i][j] = LCS length of base[i..] and other[j..]
+  const lcs = Array.from({ length: n + 1 }, () => new Array<number>(m + 1).fill(0));
+  for (let i = n - 1; i >= 0; i--) {
+    for (let j = m - 1; j >= 0; j--) {
+      lcs[i][j] =
+        base[i] === other[j] ? lcs[i + 1][j + 1] + 1 : Math.max(lcs[i + 1][j], lcs[i][j + 1]);
+    }
+  }
+
+  const hunks: TextHunk[] = [];
+  let i = 0;
+  let j = 0;
+  let hunk: TextHunk | null = null;
+  while (i < n || j < m) {
+    if (i < n && j < m && base[i] === other[j]) {
+      if (hunk) hunks.push(hunk);
+      hunk = null;
+      i++;
+      j++;
+      continue;
+    }
+    hunk = hunk ?? { start: i, end: i, lines: [] };
+    if (j < m && (i === n || lcs[i][j + 1] >= lcs[i + 1][j])) {
+      hunk.lines.push(other[j++]);
+    } else {
+      hunk.end = ++i;
+    }
+  }
+  if (hunk) hunks.push(hunk);
+  return hunks;
+}
+
+/**
+ * Three-way merge of text by lines. Returns null when both sides changed the
+ * same lines (or inserted at the same place) differently.
+ */
+export function mergeText(base: string, local: string, remote: string): string | null {
+  if (local === remote || remote === base) return local;
+  if (local === base) return remote;
+
+  const baseLines = base.split('\n');
+  const localLines = local.split('\n');
+  const remoteLines = remote.split('\n');
+  if (baseLines.length * Math.max(localLines.length, remoteLines.length) > MAX_TEXT_MERGE_CELLS) {
+    return null;
+  }
+
+  const hunks = [...diffLines(baseLines, localLines), ...diffLines(baseLines, remoteLines)].sort(
+    (a, b) => a.start - b.start || a.end - b.end
+  );
+
+  const merged: TextHunk[] = [];
+  for (const hunk of hunks) {
+    const previous = merged[merged.length - 1];
+    if (previous && (hunk.start < previous.end || hunk.start === previous.start)) {
+      // Both sides made the very same change
+      if (
+        hunk.start === previous.start &&
+        hunk.end === previous.end &&
+        isSameValue(hunk.lines, previous.lines)
+      ) {
+        continue;
+      }
+      return null;
+    }
+    merged.push(hunk);
+  }
+
+  const result: string[] = [];
+  let cursor = 0;
+  for (const hunk of merged) {
+    result.push(...baseLines.slice(cursor, hunk.start), ...hunk.lines);
+    cursor = hunk.end;
+  }
+  result.push(...baseLines.slice(cursor));
+  return result.join('\n');
+}
+
+/**
+ * Merge one field edited on both sides; undefined when it can't be merged
+ */
+function mergeField(
+  field: MergeableRecipeField,
+  base: unknown,
+  local: unknown,
+  remote: unknown
+): { value: unknown } | undefined {
+  if (field === 'tags') {
+    return {
+      value: mergeTags(
+        (base as string[] | null) ?? [],
+        (local as string[] | null) ?? [],
+        (remote as string[] | null) ?? []
+      ),
+    };
+  }
+
+  if (field === 'notes') {
+    const text = mergeText(
+      (base as string | null) ?? '',
+      (local as string | null) ?? '',
+      (remote as string | null) ?? ''
+    );
+    return text === null ? undefined : { value: text || null };
+  }
+
+  return undefined;
+}
+
+/**
+ * Last-write-wins, for recipes without a base
+ */
+function resolveByTimestamp(local: OfflineRecipe, remote: DbRecipe): ConflictResolution {
   const localTime = new Date(local._localUpdatedAt || local.updated_at).getTime();
   const remoteTime = new Date(remote.updated_at).getTime();
-
-  // Check if there's actually a conflict
   const hadConflict = localTime !== remoteTime && local.sync_version !== remote.sync_version;
 
-  if (!hadConflict) {
-    // No conflict, prefer remote as it's the source of truth
+  if (!hadConflict || localTime <= remoteTime) {
+    // Remote is the source of truth
     return {
       winner: 'remote',
       resolvedRecipe: remote,
-      hadConflict: false,
+      hadConflict,
+      conflicts: [],
+      localChanges: {},
     };
   }
 
-  // Last-write-wins
-  if (localTime > remoteTime) {
-    // Local is newer - merge local changes onto remote base
-    const resolvedRecipe: DbRecipe = {
-      ...remote,
-      // Apply local changes
-      title: local.title,
-      description: local.description,
-      notes: local.notes,
-      tags: local.tags,
-      is_favorite: local.is_favorite,
-      ingredients: local.ingredients,
-      instructions: local.instructions,
-      nutrition: local.nutrition,
-      last_scale_multiplier: local.last_scale_multiplier,
-      last_viewed_at: local.last_viewed_at,
-      // Keep remote's sync metadata but increment version
-      updated_at: new Date().toISOString(),
-      sync_version: remote.sync_version + 1,
-    };
+  const localChanges = createSnapshot(local) as Partial<DbRecipe>;
+  delete localChanges.updated_at;
+  return {
+    winner: 'local',
+    resolvedRecipe: { ...remote, ...localChanges },
+    hadConflict,
+    conflicts: [],
+    localChanges,
+  };
+}
 
-    return {
-      winner: 'local',
-      resolvedRecipe,
-      hadConflict: true,
-    };
+/**
+ * Resolve conflict between local and remote recipe
+ * Merges field by field against the local recipe's base
+ */
+export function resolveConflict(
+  local: OfflineRecipe,
+  remote: DbRecipe
+): ConflictResolution {
+  const base = local._base;
+  if (!base) {
+    return resolveByTimestamp(local, remote);
+  }
+
+  const resolved: DbRecipe = { ...remote };
+  const localChanges: Partial<DbRecipe> = {};
+  const conflicts: RecipeFieldConflict[] = [];
+  let localChanged = false;
+  let remoteChanged = false;
+
+  for (const field of MERGEABLE_FIELDS) {
+    const baseValue = base[field];
+    const localValue = local[field];
+    const remoteValue = remote[field];
+
+    const localEdited = !isSameValue(localValue, baseValue);
+    const remoteEdited = !isSameValue(remoteValue, baseValue);
+    localChanged ||= localEdited;
+    remoteChanged ||= remoteEdited;
+
+    let value: unknown = remoteValue;
+    if (localEdited && !remoteEdited) {
+      value = localValue;
+    } else if (localEdited && remoteEdited && !isSameValue(localValue, remoteValue)) {
+      const merged = mergeField(field, baseValue, localValue, remoteValue);
+      if (merged) {
+        value = merged.value;
+      } else {
+        // Show the local edit until the user picks
+        conflicts.push({ field, local: localValue, remote: remoteValue });
+        value = localValue;
+      }
+    }
+
+    (resolved as unknown as Record<string, unknown>)[field] = value;
+    if (!isSameValue(value, remoteValue) && !conflicts.some((c) => c.field === field)) {
+      (localChanges as Record<string, unknown>)[field] = value;
+    }
   }
 
-  // Remote is newer or same time - use remote
   return {
-    winner: 'remote',
-    resolvedRecipe: remote,
-    hadConflict: true,
+    winner: !localChanged ? 'remote' : remoteChanged ? 'merged' : 'local',
+    resolvedRecipe: resolved,
+    hadConflict: localChanged && remoteChanged,
+    conflicts,
+    localChanges,
   };
 }
 
+/**
+ * Fields of a local recipe that differ from its base, ready to upload
+ */
+export function getLocalChanges(local: OfflineRecipe): Partial<DbRecipe> {
+  const changes: Partial<DbRecipe> = {};
+  for (const field of MERGEABLE_FIELDS) {
+    if (!local._base || !isSameValue(local[field], local._base[field])) {
+      (changes as Record<string, unknown>)[field] = local[field];
+    }
+  }
+  return changes;
+}
+
 /**
  * Get detailed conflict information for logging
  */
@@ -142,10 +376,15 @@ export function mergeRecipes(
 }
 
 /**
- * Check if a recipe has local modifications
+ * Check if a recipe has local modifications, including a merge still waiting
+ * for the user to pick between versions
  */
 export function hasLocalModifications(recipe: OfflineRecipe): boolean {
-  return recipe._offlineCreated === true || recipe._offlineModified === true;
+  return (
+    recipe._offlineCreated === true ||
+    recipe._offlineModified === true ||
+    !!recipe._conflicts?.length
+  );
 }
 
 /**
@@ -0,0 +1,293 @@
+/**
+ * Entity Sync
+ * Offline-first sync for rows whose IDs are generated on the client
+ * (shopping lists, etc.). Recipes keep their own flow in SyncManager
+ * because the cloud assigns their IDs.
+ */
+
+import type { Table } from 'dexie';
+import {
+  isIndexedDBAvailable,
+  type SyncEntityType,
+  type SyncOperation,
+} from '@/lib/offline';
+import type { DbListResult, DbQueryResult } from '@/lib/supabase/types';
+import { queueOperation, clearRecipeQueue } from './OfflineQueue';
+import { isOnline } from './connectivity';
+
+/**
+ * User ID for rows owned by a guest. These stay local and are never queued.
+ */
+export const LOCAL_USER_ID = 'local';
+
+/**
+ * Sync metadata shared by client-ID rows
+ */
+export interface SyncableRow {
+  id: string;
+  user_id: string;
+  updated_at: string;
+  is_deleted: boolean;
+  _offlineModified?: boolean;
+  _localUpdatedAt?: string;
+}
+
+/**
+ * Storage callbacks for one entity type
+ */
+export interface EntitySyncAdapter<T extends SyncableRow> {
+  entity: SyncEntityType;
+  getTable: () => Table<T, string>;
+  fetchAll: (userId: string) => Promise<DbListResult<T>>;
+  upsert: (row: T) => Promise<DbQueryResult<T>>;
+  remove: (id: string) => Promise<DbQueryResult<null>>;
+}
+
+/**
+ * Result of pulling an entity type from the cloud
+ */
+export interface EntityPullResult {
+  downloaded: number;
+  conflicts: number;
+}
+
+/**
+ * Type-erased handler used by SyncManager to process queued operations
+ */
+export interface EntitySyncHandler {
+  processOperation: (op: SyncOperation) => Promise<void>;
+  pullFromCloud: (userId: string) => Promise<EntityPullResult>;
+  countGuestRows: () => Promise<number>;
+  adoptGuestRows: (userId: string) => Promise<number>;
+}
+
+/**
+ * Remove offline-only metadata before sending a row to the cloud
+ */
+function toCloudRow<T extends SyncableRow>(row: T): T {
+  const { _offlineModified, _localUpdatedAt, ...cloudRow } = row;
+  return cloudRow as T;
+}
+
+/**
+ * Get all local (non-deleted) rows for a user
+ */
+export async function getLocalEntities<T extends SyncableRow>(
+  adapter: EntitySyncAdapter<T>,
+  userId: string
+): Promise<T[]> {
+  if (!isIndexedDBAvailable()) return [];
+
+  return adapter
+    .getTable()
+    .where('user_id')
+    .equals(userId)
+    .and((row) => !row.is_deleted)
+    .toArray();
+}
+
+/**
+ * Save a row locally, then push it to the cloud or queue it for later
+ */
+export async function saveEntityWithSync<T extends SyncableRow>(
+  adapter: EntitySyncAdapter<T>,
+  row: T
+): Promise<T> {
+  const now = new Date().toISOString();
+  const localRow: T = {
+    ...row,
+    updated_at: now,
+    _offlineModified: row.user_id !== LOCAL_USER_ID,
+    _localUpdatedAt: now,
+  };
+
+  if (isIndexedDBAvailable()) {
+    await adapter.getTable().put(localRow);
+  }
+
+  if (row.user_id === LOCAL_USER_ID) {
+    return localRow;
+  }
+
+  if (isOnline()) {
+    const result = await adapter.upsert(toCloudRow(localRow));
+    if (result.data) {
+      const syncedRow: T = { ...result.data, _offlineModified: false };
+      if (isIndexedDBAvailable()) {
+        await adapter.getTable().put(syncedRow);
+        await clearRecipeQueue(row.user_id, row.id);
+      }
+      return syncedRow;
+    }
+  }
+
+  // Offline or the upload failed: upload the latest local copy on next sync
+  await queueOperation('update', row.id, row.user_id, undefined, adapter.entity);
+  return localRow;
+}
+
+/**
+ * Delete a row locally, then in the cloud or queue it for later
+ */
+export async function deleteEntityWithSync<T extends SyncableRow>(
+  adapter: EntitySyncAdapter<T>,
+  userId: string,
+  id: string
+): Promise<boolean> {
+  if (userId === LOCAL_USER_ID) {
+    if (isIndexedDBAvailable()) {
+      await adapter.getTable().delete(id);
+    }
+    return true;
+  }
+
+  if (isOnline()) {
+    const result = await adapter.remove(id);
+    if (!result.error) {
+      if (isIndexedDBAvailable()) {
+        await adapter.getTable().delete(id);
+        await clearRecipeQueue(userId, id);
+      }
+      return true;
+    }
+  }
+
+  if (!isIndexedDBAvailable()) return false;
+
+  // Keep a tombstone so the next pull doesn't resurrect the row
+  const changes = {
+    is_deleted: true,
+    _offlineModified: true,
+    _localUpdatedAt: new Date().toISOString(),
+  } as Partial<T>;
+  await adapter.getTable().update(id, changes as never);
+  await queueOperation('delete', id, userId, undefined, adapter.entity);
+
+  return true;
+}
+
+/**
+ * Upload a queued operation. Throws if the cloud call fails.
+ */
+export async function processEntityOperation<T extends SyncableRow>(
+  adapter: EntitySyncAdapter<T>,
+  op: SyncOperation
+): Promise<void> {
+  const table = adapter.getTable();
+
+  if (op.operation === 'delete') {
+    const deleteResult = await adapter.remove(op.recipeId);
+    if (deleteResult.error) {
+      throw deleteResult.error;
+    }
+    await table.delete(op.recipeId);
+    return;
+  }
+
+  // Creates and updates upload whatever the latest local copy is
+  const localRow = await table.get(op.recipeId);
+  if (!localRow) return;
+
+  const upsertResult = await adapter.upsert(toCloudRow(localRow));
+  if (!upsertResult.data) {
+    throw new Error(upsertResult.error?.message || `Failed to save ${adapter.entity}`);
+  }
+  await table.put({ ...upsertResult.data, _offlineModified: false });
+}
+
+/**
+ * Download rows from the cloud, resolving local edits by last write wins
+ */
+export async function pullEntitiesFromCloud<T extends SyncableRow>(
+  adapter: EntitySyncAdapter<T>,
+  userId: string
+): Promise<EntityPullResult> {
+  const result: EntityPullResult = { downloaded: 0, conflicts: 0 };
+  if (!isIndexedDBAvailable()) return result;
+
+  const cloudResult = await adapter.fetchAll(userId);
+  if (cloudResult.error) {
+    throw cloudResult.error;
+  }
+
+  const table = adapter.getTable();
+  // Include deleted rows so an offline delete isn't undone by the pull
+  const localRows = await table.where('user_id').equals(userId).toArray();
+  const localMap = new Map(localRows.map((row) => [row.id, row]));
+
+  for (const cloudRow of cloudResult.data) {
+    const localRow = localMap.get(cloudRow.id);
+    localMap.delete(cloudRow.id);
+
+    if (localRow?._offlineModified) {
+      result.conflicts++;
+      const localTime = new Date(localRow._localUpdatedAt || localRow.updated_at).getTime();
+      if (localTime >= new Date(cloudRow.updated_at).getTime()) {
+        await queueOperation(
+          localRow.is_deleted ? 'delete' : 'update',
+          localRow.id,
+          userId,
+          undefined,
+          adapter.entity
+        );
+        continue;
+      }
+    }
+
+    await table.put({ ...cloudRow, _offlineModified: false });
+    result.downloaded++;
+  }
+
+  // Rows that exist locally but not in the cloud
+  for (const [id, localRow] of localMap) {
+    if (localRow._offlineModified && !localRow.is_deleted) {
+      // Never uploaded
+      await queueOperation('update', id, userId, undefined, adapter.entity);
+    } else {
+      // Deleted from cloud (or delete already applied)
+      await table.delete(id);
+    }
+  }
+
+  return result;
+}
+
+/**
+ * Move a guest's rows to a signed-in user, uploading them (or queueing them
+ * while offline). Returns how many rows moved.
+ */
+export async function adoptGuestEntities<T extends SyncableRow>(
+  adapter: EntitySyncAdapter<T>,
+  userId: string
+): Promise<number> {
+  if (!isIndexedDBAvailable()) return 0;
+
+  const table = adapter.getTable();
+  const guestRows = await table.where('user_id').equals(LOCAL_USER_ID).toArray();
+
+  let adopted = 0;
+  for (const row of guestRows) {
+    if (row.is_deleted) {
+      await table.delete(row.id);
+      continue;
+    }
+    // Same ID, so this replaces the guest row
+    await saveEntityWithSync(adapter, { ...row, user_id: userId });
+    adopted++;
+  }
+  return adopted;
+}
+
+/**
+ * Bind an adapter into the handler shape SyncManager dispatches to
+ */
+export function createEntitySyncHandler<T extends SyncableRow>(
+  adapter: EntitySyncAdapter<T>
+): EntitySyncHandler {
+  return {
+    processOperation: (op) => processEntityOperation(adapter, op),
+    pullFromCloud: (userId) => pullEntitiesFromCloud(adapter, userId),
+    countGuestRows: async () => (await getLocalEntities(adapter, LOCAL_USER_ID)).length,
+    adoptGuestRows: (userId) => adoptGuestEntities(adapter, userId),
+  };
+}
@@ -0,0 +1,118 @@
+/**
+ * Meal Plan Sync
+ * Stores meal plan entries in IndexedDB and syncs them to Supabase when signed in
+ */
+
+import { getOfflineDb, type OfflineMealPlanEntry } from '@/lib/offline';
+import {
+  getMealPlanEntries,
+  upsertMealPlanEntry,
+  deleteMealPlanEntry,
+} from '@/lib/supabase/mealPlans';
+import type { DbMealPlanEntry } from '@/lib/supabase/types';
+import type { MealPlanEntry } from '@/types';
+import {
+  LOCAL_USER_ID,
+  createEntitySyncHandler,
+  deleteEntityWithSync,
+  getLocalEntities,
+  saveEntityWithSync,
+  type EntitySyncAdapter,
+} from './EntitySync';
+
+/**
+ * Convert a database row to a MealPlanEntry
+ */
+export function dbMealPlanEntryToMealPlanEntry(row: DbMealPlanEntry): MealPlanEntry {
+  return {
+    id: row.id,
+    date: row.date,
+    meal: row.meal,
+    recipeId: row.recipe_id,
+    recipeTitle: row.recipe_title,
+    // NUMERIC columns come back from Supabase as strings
+    multiplier: Number(row.multiplier) || 1,
+    createdAt: row.created_at,
+    updatedAt: row.updated_at,
+  };
+}
+
+/**
+ * Convert a MealPlanEntry to a database row
+ */
+export function mealPlanEntryToDbFormat(entry: MealPlanEntry, userId: string): DbMealPlanEntry {
+  return {
+    id: entry.id,
+    user_id: userId,
+    date: entry.date,
+    meal: entry.meal,
+    recipe_id: entry.recipeId,
+    recipe_title: entry.recipeTitle,
+    multiplier: entry.multiplier,
+    created_at: entry.createdAt,
+    updated_at: entry.updatedAt,
+    sync_version: 1,
+    is_deleted: false,
+  };
+}
+
+export const mealPlanSyncAdapter: EntitySyncAdapter<OfflineMealPlanEntry> = {
+  entity: 'meal-plan',
+  getTable: () => getOfflineDb().mealPlanEntries,
+  fetchAll: getMealPlanEntries,
+  upsert: upsertMealPlanEntry,
+  remove: deleteMealPlanEntry,
+};
+
+export const mealPlanSyncHandler = createEntitySyncHandler(mealPlanSyncAdapter);
+
+/**
+ * Get meal plan entries for a user (or the guest when userId is null), by date
+ */
+export async function getMealPlanEntriesWithSync(userId: string | null): Promise<MealPlanEntry[]> {
+  const rows = await getLocalEntities(mealPlanSyncAdapter, userId ?? LOCAL_USER_ID);
+  return rows.map(dbMealPlanEntryToMealPlanEntry).sort((a, b) => a.date.localeCompare(b.date));
+}
+
+/**
+ * Save a meal plan entry locally and sync it if signed in
+ */
+export async function saveMealPlanEntryWithSync(
+  userId: string | null,
+  entry: MealPlanEntry
+): Promise<MealPlanEntry> {
+  const saved = await saveEntityWithSync(
+    mealPlanSyncAdapter,
+    mealPlanEntryToDbFormat(entry, userId ?? LOCAL_USER_ID)
+  );
+  return dbMealPlanEntryToMealPlanEntry(saved);
+}
+
+/**
+ * Delete a meal plan entry locally and sync it if signed in
+ */
+export async function deleteMealPlanEntryWithSync(
+  userId: string | null,
+  id: string
+): Promise<boolean> {
+  return deleteEntityWithSync(mealPlanSyncAdapter, userId ?? LOCAL_USER_ID, id);
+}
+
+/**
+ * Point a user's meal plan entries at a recipe's new ID (after an
+ * offline-created recipe gets its cloud ID)
+ */
+export async function remapMealPlanRecipeId(
+  userId: string,
+  oldId: string,
+  newId: string
+): Promise<void> {
+  const entries = await getMealPlanEntriesWithSync(userId);
+  for (const entry of entries.filter((e) => e.recipeId === oldId)) {
+    await saveMealPlanEntryWithSync(userId, {
+      ...entry,
+      recipeId: newId,
+      updatedAt: new Date().toISOString(),
+    });
+  }
+}
@@ -0,0 +1,137 @@
+import 'fake-indexeddb/auto';
+import {
+  discardDeadOperation,
+  failOperation,
+  getDeadOperations,
+  getPendingOperations,
+  getRetryDelay,
+  isOperationDue,
+  queueOperation,
+  retryDeadOperation,
+} from './OfflineQueue';
+import { getOfflineDb, type SyncOperation } from '@/lib/offline';
+
+describe('OfflineQueue', () => {
+  describe('getRetryDelay', () => {
+    it('doubles after each failure, between half and the full delay', () => {
+      expect(getRetryDelay(1, () => 0)).toBe(2_500);
+      expect(getRetryDelay(1, () => 1)).toBe(5_000);
+      expect(getRetryDelay(3, () => 1)).toBe(20_000);
+    });
+
+    it('caps the delay', () => {
+      expect(getRetryDelay(30, () => 1)).toBe(10 * 60_000);
+    });
+  });
+
+  describe('isOperationDue', () => {
+    const op: SyncOperation = {
+      operation: 'update',
+      recipeId: 'recipe-1',
+      userId: 'user-1',
+      createdAt: '2026-10-18T10:00:00.000Z',
+      retryCount: 1,
+    };
+    const now = new Date('2026-10-18T10:01:00.000Z');
+
+    it('is due without a backoff or once it has passed', () => {
+      expect(isOperationDue(op, now)).toBe(true);
+      expect(isOperationDue({ ...op, nextAttemptAt: '2026-10-18T10:00:30.000Z' }, now)).toBe(true);
+    });
+
+    it('waits while backing off', () => {
+      expect(isOperationDue({ ...op, nextAttemptAt: '2026-10-18T10:05:00.000Z' }, now)).toBe(false);
+    });
+  });
+
+  describe('dead letters', () => {
+    // Fail an operation until it runs out of retries
+    const killOperation = async (id: number) => {
+      for (let attempt = 0; attempt < 5; attempt++) {
+        await failOperation(id, 'Server error');
+      }
+    };
+
+    beforeEach(async () => {
+      const db = getOfflineDb();
+      await Promise.all([db.syncQueue.clear(), db.deadLetters.clear()]);
+    });
+
+    it('moves an operation to the dead-letter table after its last retry', async () => {
+      const id = (await queueOperation('update', 'recipe-1', 'user-1', { title: 'Soup' }))!;
+
+      for (let attempt = 0; attempt < 4; attempt++) {
+        expect(await failOperation(id, 'Server error')).toBe(true);
+      }
+      expect(await failOperation(id, 'Server error')).toBe(false);
+
+      expect(await getPendingOperations('user-1')).toEqual([]);
+      expect(await getDeadOperations('user-1')).toEqual([
+        expect.objectContaining({
+          operation: 'update',
+          recipeId: 'recipe-1',
+          data: { title: 'Soup' },
+          retryCount: 5,
+          lastError: 'Server error',
+        }),
+      ]);
+    });
+
+    it('requeues a retried operation with fresh retries', async () => {
+      await killOperation(
+        (await queueOperation('update', 'recipe-1', 'user-1', { title: 'Soup' }))!
+      );
+      const [dead] = await getDeadOperations('user-1');
+
+      await retryDeadOperation(dead.id!);
+
+      expect(await getDeadOperations('user-1')).toEqual([]);
+      expect(await getPendingOperations('user-1')).toEqual([
+        expect.objectContaining({ operation: 'update', data: { title: 'Soup' }, retryCount: 0 }),
+      ]);
+    });
+
+    it('keeps newer pending edits on top of a retried update', async () => {
+      await killOperation(
+        (await queueOperation('update', 'recipe-1', 'user-1', { title: 'Soup', notes: 'Old' }))!
+      );
+      await queueOperation('update', 'recipe-1', 'user-1', { notes: 'New' });
+      const [dead] = await getDeadOperations('user-1');
+
+      await retryDeadOperation(dead.id!);
+
+      const pending = await getPendingOperations('user-1');
+      expect(pending).toHaveLength(1);
+      expect(pending[0]).toMatchObject({
+        operation: 'update',
+        data: { title: 'Soup', notes: 'New' },
+        retryCount: 0,
+      });
+    });
+
+    it('keeps a newer pending delete', async () => {
+      await killOperation(
+        (await queueOperation('update', 'recipe-1', 'user-1', { title: 'Soup' }))!
+      );
+      await queueOperation('delete', 'recipe-1', 'user-1');
+      const [dead] = await getDeadOperations('user-1');
+
+      await retryDeadOperation(dead.id!);
+
+      const pending = await getPendingOperations('user-1');
+      expect(pending.map((op) => op.operation)).toEqual(['delete']);
+    });
+
+    it('discards a dead operation', async () => {
+      await killOperation(
+        (await queueOperation('update', 'recipe-1', 'user-1', { title: 'Soup' }))!
+      );
+      const [dead] = await getDeadOperations('user-1');
+
+      await discardDeadOperation(dead.id!);
+
+      expect(await getDeadOperations('user-1')).toEqual([]);
+      expect(await getPendingOperations('user-1')).toEqual([]);
+    });
+  });
+});
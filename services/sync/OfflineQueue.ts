@@ -6,12 +6,47 @@
 import {
   getOfflineDb,
   isIndexedDBAvailable,
+  type DeadSyncOperation,
   type SyncOperation,
   type SyncOperationType,
+  type SyncEntityType,
   type OfflineRecipe,
 } from '@/lib/offline';
 
-const MAX_RETRY_COUNT = 3;
+const MAX_RETRY_COUNT = 5;
+
+// Backoff between retries: 5s, 10s, 20s... capped at 10 minutes
+const RETRY_BASE_DELAY_MS = 5_000;
+const RETRY_MAX_DELAY_MS = 10 * 60_000;
+
+/**
+ * Delay before the next attempt after `retryCount` failures, with jitter so
+ * tabs and devices that failed together don't retry in lockstep
+ */
+export function getRetryDelay(
+  retryCount: number,
+  random: () => number = Math.random
+): number {
+  const delay = Math.min(
+    RETRY_MAX_DELAY_MS,
+    RETRY_BASE_DELAY_MS * 2 ** Math.max(0, retryCount - 1)
+  );
+  // Anywhere from half to the full delay
+  return Math.round(delay / 2 + (random() * delay) / 2);
+}
+
+/**
+ * Whether an operation's backoff has passed
+ */
+export function isOperationDue(
+  operation: SyncOperation,
+  now: Date = new Date()
+): boolean {
+  return (
+    !operation.nextAttemptAt ||
+    new Date(operation.nextAttemptAt).getTime() <= now.getTime()
+  );
+}
 
 /**
  * Add an operation to the sync queue
@@ -20,7 +55,8 @@ export async function queueOperation(
   operation: SyncOperationType,
   recipeId: string,
   userId: string,
-  data?: Partial<OfflineRecipe>
+  data?: Partial<OfflineRecipe>,
+  entity: SyncEntityType = 'recipe'
 ): Promise<number | undefined> {
   if (!isIndexedDBAvailable()) {
     console.warn('IndexedDB not available, operation not queued');
@@ -29,21 +65,8 @@ export async function queueOperation(
 
   const db = getOfflineDb();
 
-  // Check if there's already a pending operation for this recipe
-  let existingOp: SyncOperation | undefined;
-  try {
-    existingOp = await db.syncQueue
-      .where('[userId+recipeId]')
-      .equals([userId, recipeId])
-      .first();
-  } catch {
-    // Backwards compatibility for older IndexedDB versions without the compound index
-    existingOp = await db.syncQueue
-      .where('recipeId')
-      .equals(recipeId)
-      .and((op) => op.userId === userId)
-      .first();
-  }
+  // Check if there's already a pending operation for this row
+  const existingOp = await findPendingOperation(userId, recipeId, entity);
 
   if (existingOp) {
     // Merge operations intelligently
@@ -60,6 +83,7 @@ export async function queueOperation(
   // Add new operation
   const syncOp: SyncOperation = {
     operation,
+    entity,
     recipeId,
     userId,
     data,
@@ -70,6 +94,32 @@ export async function queueOperation(
   return db.syncQueue.add(syncOp);
 }
 
+/**
+ * Find the pending operation for a row, if any
+ */
+async function findPendingOperation(
+  userId: string,
+  recipeId: string,
+  entity: SyncEntityType
+): Promise<SyncOperation | undefined> {
+  const db = getOfflineDb();
+  const isSameEntity = (op: SyncOperation) => (op.entity ?? 'recipe') === entity;
+  try {
+    return await db.syncQueue
+      .where('[userId+recipeId]')
+      .equals([userId, recipeId])
+      .and(isSameEntity)
+      .first();
+  } catch {
+    // Backwards compatibility for older IndexedDB versions without the compound index
+    return db.syncQueue
+      .where('recipeId')
+      .equals(recipeId)
+      .and((op) => op.userId === userId && isSameEntity(op))
+      .first();
+  }
+}
+
 /**
  * Merge two operations on the same recipe
  */
@@ -185,7 +235,9 @@ export async function clearRecipeQueue(
 }
 
 /**
- * Mark an operation as failed (increment retry count)
+ * Mark an operation as failed. Schedules a retry with backoff, or moves the
+ * operation to the dead-letter table once it runs out of retries.
+ * Returns whether it will be retried.
  */
 export async function failOperation(
   operationId: number,
@@ -201,39 +253,151 @@ export async function failOperation(
   const newRetryCount = operation.retryCount + 1;
 
   if (newRetryCount >= MAX_RETRY_COUNT) {
-    // Move to dead letter queue or just delete
     console.error(
       `Operation ${operationId} failed after ${MAX_RETRY_COUNT} retries:`,
       error
     );
-    await db.syncQueue.delete(operationId);
+    // Keep it for the user to retry, discard or export
+    const { id, nextAttemptAt, ...rest } = operation;
+    await db.transaction('rw', db.syncQueue, db.deadLetters, async () => {
+      await db.syncQueue.delete(operationId);
+      await db.deadLetters.add({
+        ...rest,
+        retryCount: newRetryCount,
+        lastError: error,
+        failedAt: new Date().toISOString(),
+      });
+    });
     return false;
   }
 
   await db.syncQueue.update(operationId, {
     retryCount: newRetryCount,
     lastError: error,
+    nextAttemptAt: new Date(
+      Date.now() + getRetryDelay(newRetryCount)
+    ).toISOString(),
   });
 
   return true;
 }
 
 /**
- * Clear all pending operations for a user
+ * Clear the backoff on a pending operation so the next sync tries it
+ */
+export async function retryOperationNow(operationId: number): Promise<void> {
+  if (!isIndexedDBAvailable()) return;
+
+  const db = getOfflineDb();
+  await db.syncQueue.update(operationId, { nextAttemptAt: undefined });
+}
+
+/**
+ * Drop a pending operation without syncing it
+ */
+export async function discardOperation(operationId: number): Promise<void> {
+  await completeOperation(operationId);
+}
+
+/**
+ * Get operations that ran out of retries, newest first
+ */
+export async function getDeadOperations(
+  userId: string
+): Promise<DeadSyncOperation[]> {
+  if (!isIndexedDBAvailable()) return [];
+
+  const db = getOfflineDb();
+  const operations = await db.deadLetters
+    .where('userId')
+    .equals(userId)
+    .sortBy('failedAt');
+  return operations.reverse();
+}
+
+/**
+ * Get count of operations that ran out of retries
+ */
+export async function getDeadCount(userId?: string): Promise<number> {
+  if (!isIndexedDBAvailable()) return 0;
+
+  const db = getOfflineDb();
+  if (userId) {
+    return db.deadLetters.where('userId').equals(userId).count();
+  }
+  return db.deadLetters.count();
+}
+
+/**
+ * Put a dead operation back in the queue with fresh retries.
+ * Any newer pending operation on the same row is applied on top of it, so
+ * the old data never overwrites newer edits or undoes a delete.
+ */
+export async function retryDeadOperation(operationId: number): Promise<void> {
+  if (!isIndexedDBAvailable()) return;
+
+  const db = getOfflineDb();
+  await db.transaction('rw', db.syncQueue, db.deadLetters, async () => {
+    const dead = await db.deadLetters.get(operationId);
+    if (!dead) return;
+
+    await db.deadLetters.delete(operationId);
+    const { id, failedAt, lastError, ...operation } = dead;
+    const pending = await findPendingOperation(
+      dead.userId,
+      dead.recipeId,
+      dead.entity ?? 'recipe'
+    );
+
+    if (!pending) {
+      await db.syncQueue.add({ ...operation, retryCount: 0 });
+      return;
+    }
+
+    const merged = mergeOperations(dead, pending.operation, pending.data);
+    if (merged === null) {
+      // A create that never reached the server, since deleted
+      await db.syncQueue.delete(pending.id!);
+      return;
+    }
+    await db.syncQueue.update(pending.id!, {
+      ...merged,
+      retryCount: 0,
+      lastError: undefined,
+      nextAttemptAt: undefined,
+    });
+  });
+}
+
+/**
+ * Delete a dead operation for good
+ */
+export async function discardDeadOperation(operationId: number): Promise<void> {
+  if (!isIndexedDBAvailable()) return;
+
+  const db = getOfflineDb();
+  await db.deadLetters.delete(operationId);
+}
+
+/**
+ * Clear all pending and dead operations for a user
  */
 export async function clearUserQueue(userId: string): Promise<void> {
   if (!isIndexedDBAvailable()) return;
 
   const db = getOfflineDb();
-  await db.syncQueue.where('userId').equals(userId).delete();
+  await Promise.all([
+    db.syncQueue.where('userId').equals(userId).delete(),
+    db.deadLetters.where('userId').equals(userId).delete(),
+  ]);
 }
 
 /**
- * Clear all pending operations
+ * Clear all pending and dead operations
  */
 export async function clearAllQueues(): Promise<void> {
   if (!isIndexedDBAvailable()) return;
 
   const db = getOfflineDb();
-  await db.syncQueue.clear();
+  await Promise.all([db.syncQueue.clear(), db.deadLetters.clear()]);
 }
@@ -0,0 +1,93 @@
+/**
+ * Pantry Sync
+ * Stores pantry items in IndexedDB and syncs them to Supabase when signed in
+ */
+
+import { getOfflineDb, type OfflinePantryItem } from '@/lib/offline';
+import { getPantryItems, upsertPantryItem, deletePantryItem } from '@/lib/supabase/pantry';
+import type { DbPantryItem } from '@/lib/supabase/types';
+import type { PantryItem } from '@/types';
+import {
+  LOCAL_USER_ID,
+  createEntitySyncHandler,
+  deleteEntityWithSync,
+  getLocalEntities,
+  saveEntityWithSync,
+  type EntitySyncAdapter,
+} from './EntitySync';
+
+/**
+ * Convert a database row to a PantryItem
+ */
+export function dbPantryItemToPantryItem(row: DbPantryItem): PantryItem {
+  return {
+    id: row.id,
+    name: row.name,
+    key: row.key,
+    // NUMERIC columns come back from Supabase as strings
+    quantity: row.quantity === null ? null : Number(row.quantity),
+    unit: row.unit,
+    createdAt: row.created_at,
+    updatedAt: row.updated_at,
+  };
+}
+
+/**
+ * Convert a PantryItem to a database row
+ */
+export function pantryItemToDbFormat(item: PantryItem, userId: string): DbPantryItem {
+  return {
+    id: item.id,
+    user_id: userId,
+    name: item.name,
+    key: item.key,
+    quantity: item.quantity,
+    unit: item.unit,
+    created_at: item.createdAt,
+    updated_at: item.updatedAt,
+    sync_version: 1,
+    is_deleted: false,
+  };
+}
+
+export const pantrySyncAdapter: EntitySyncAdapter<OfflinePantryItem> = {
+  entity: 'pantry',
+  getTable: () => getOfflineDb().pantryItems,
+  fetchAll: getPantryItems,
+  upsert: upsertPantryItem,
+  remove: deletePantryItem,
+};
+
+export const pantrySyncHandler = createEntitySyncHandler(pantrySyncAdapter);
+
+/**
+ * Get pantry items for a user (or the guest when userId is null), by name
+ */
+export async function getPantryItemsWithSync(userId: string | null): Promise<PantryItem[]> {
+  const rows = await getLocalEntities(pantrySyncAdapter, userId ?? LOCAL_USER_ID);
+  return rows.map(dbPantryItemToPantryItem).sort((a, b) => a.name.localeCompare(b.name));
+}
+
+/**
+ * Save a pantry item locally and sync it if signed in
+ */
+export async function savePantryItemWithSync(
+  userId: string | null,
+  item: PantryItem
+): Promise<PantryItem> {
+  const saved = await saveEntityWithSync(
+    pantrySyncAdapter,
+    pantryItemToDbFormat(item, userId ?? LOCAL_USER_ID)
+  );
+  return dbPantryItemToPantryItem(saved);
+}
+
+/**
+ * Delete a pantry item locally and sync it if signed in
+ */
+export async function deletePantryItemWithSync(
+  userId: string | null,
+  id: string
+): Promise<boolean> {
+  return deleteEntityWithSync(pantrySyncAdapter, userId ?? LOCAL_USER_ID, id);
+}
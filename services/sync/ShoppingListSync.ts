@@ -0,0 +1,96 @@
+/**
+ * Shopping List Sync
+ * Stores shopping lists in IndexedDB and syncs them to Supabase when signed in
+ */
+
+import { getOfflineDb, type OfflineShoppingList } from '@/lib/offline';
+import {
+  getShoppingLists,
+  upsertShoppingList,
+  deleteShoppingList,
+} from '@/lib/supabase/shoppingLists';
+import type { DbShoppingList } from '@/lib/supabase/types';
+import type { ShoppingList } from '@/types';
+import {
+  LOCAL_USER_ID,
+  createEntitySyncHandler,
+  deleteEntityWithSync,
+  getLocalEntities,
+  saveEntityWithSync,
+  type EntitySyncAdapter,
+} from './EntitySync';
+
+/**
+ * Convert a database row to a ShoppingList
+ */
+export function dbShoppingListToShoppingList(row: DbShoppingList): ShoppingList {
+  return {
+    id: row.id,
+    name: row.name,
+    recipes: row.recipes || [],
+    items: row.items || [],
+    createdAt: row.created_at,
+    updatedAt: row.updated_at,
+  };
+}
+
+/**
+ * Convert a ShoppingList to a database row
+ */
+export function shoppingListToDbFormat(list: ShoppingList, userId: string): DbShoppingList {
+  return {
+    id: list.id,
+    user_id: userId,
+    name: list.name,
+    recipes: list.recipes,
+    items: list.items,
+    created_at: list.createdAt,
+    updated_at: list.updatedAt,
+    sync_version: 1,
+    is_deleted: false,
+  };
+}
+
+export const shoppingListSyncAdapter: EntitySyncAdapter<OfflineShoppingList> = {
+  entity: 'shopping-list',
+  getTable: () => getOfflineDb().shoppingLists,
+  fetchAll: getShoppingLists,
+  upsert: upsertShoppingList,
+  remove: deleteShoppingList,
+};
+
+export const shoppingListSyncHandler = createEntitySyncHandler(shoppingListSyncAdapter);
+
+/**
+ * Get shopping lists for a user (or the guest when userId is null), newest first
+ */
+export async function getShoppingListsWithSync(userId: string | null): Promise<ShoppingList[]> {
+  const rows = await getLocalEntities(shoppingListSyncAdapter, userId ?? LOCAL_USER_ID);
+  return rows
+    .map(dbShoppingListToShoppingList)
+    .sort((a, b) => b.updatedAt.localeCompare(a.updatedAt));
+}
+
+/**
+ * Save a shopping list locally and sync it if signed in
+ */
+export async function saveShoppingListWithSync(
+  userId: string | null,
+  list: ShoppingList
+): Promise<ShoppingList> {
+  const saved = await saveEntityWithSync(
+    shoppingListSyncAdapter,
+    shoppingListToDbFormat(list, userId ?? LOCAL_USER_ID)
+  );
+  return dbShoppingListToShoppingList(saved);
+}
+
+/**
+ * Delete a shopping list locally and sync it if signed in
+ */
+export async function deleteShoppingListWithSync(
+  userId: string | null,
+  id: string
+): Promise<boolean> {
+  return deleteEntityWithSync(shoppingListSyncAdapter, userId ?? LOCAL_USER_ID, id);
+}
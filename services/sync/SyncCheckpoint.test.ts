@@ -0,0 +1,55 @@
+import {
+  advanceCursor,
+  getPullStart,
+  isFullSyncDue,
+  CHECKPOINT_OVERLAP_MS,
+  FULL_SYNC_INTERVAL_MS,
+} from './SyncCheckpoint';
+import type { SyncCheckpoint } from '@/lib/offline';
+
+describe('SyncCheckpoint', () => {
+  const checkpoint: SyncCheckpoint = {
+    userId: 'user-1',
+    updatedAt: '2026-10-19T10:00:00.000Z',
+    lastId: 'b',
+    fullSyncAt: '2026-10-18T00:00:00.000Z',
+  };
+
+  it('starts incremental pulls a little before the checkpoint', () => {
+    expect(getPullStart(checkpoint)).toEqual({
+      updatedAt: new Date(Date.parse(checkpoint.updatedAt) - CHECKPOINT_OVERLAP_MS).toISOString(),
+      id: '',
+    });
+  });
+
+  it('asks for a full pull once the last one is a week old', () => {
+    const fullSyncAt = Date.parse(checkpoint.fullSyncAt);
+
+    expect(isFullSyncDue(checkpoint, new Date(fullSyncAt + 60_000))).toBe(false);
+    expect(isFullSyncDue(checkpoint, new Date(fullSyncAt + FULL_SYNC_INTERVAL_MS))).toBe(true);
+  });
+
+  describe('advanceCursor', () => {
+    const cursor = { updatedAt: checkpoint.updatedAt, id: checkpoint.lastId };
+
+    it('moves to the latest row, breaking timestamp ties by ID', () => {
+      expect(
+        advanceCursor(cursor, [
+          { id: 'z', updated_at: '2026-10-19T09:59:00.000Z' },
+          { id: 'c', updated_at: '2026-10-19T10:00:00.000Z' },
+          { id: 'a', updated_at: '2026-10-19T10:00:00.000Z' },
+        ])
+      ).toEqual({ updatedAt: '2026-10-19T10:00:00.000Z', id: 'c' });
+    });
+
+    it('never moves backwards', () => {
+      expect(advanceCursor(cursor, [{ id: 'z', updated_at: '2026-10-19T09:00:00.000Z' }])).toBe(
+        cursor
+      );
+    });
+
+    it('starts from the beginning without rows or a cursor', () => {
+      expect(advanceCursor(null, [])).toEqual({ updatedAt: new Date(0).toISOString(), id: '' });
+    });
+  });
+});
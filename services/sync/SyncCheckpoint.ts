@@ -0,0 +1,87 @@
+/**
+ * Sync Checkpoint Service
+ * Tracks where each user's last incremental recipe pull stopped
+ */
+
+import { getOfflineDb, isIndexedDBAvailable, type SyncCheckpoint } from '@/lib/offline';
+
+// Re-read this far behind the checkpoint: rows committed late can carry an
+// updated_at from before rows that were already pulled
+export const CHECKPOINT_OVERLAP_MS = 60_000;
+
+// Pull everything again after this long, to drop rows removed outright
+export const FULL_SYNC_INTERVAL_MS = 7 * 24 * 60 * 60_000;
+
+// Start of time, for users without any recipes yet
+const EPOCH = new Date(0).toISOString();
+
+/**
+ * Position in the (updated_at, id) order of cloud rows
+ */
+export interface SyncCursor {
+  updatedAt: string;
+  id: string;
+}
+
+/**
+ * Get a user's checkpoint, if they have pulled before
+ */
+export async function getSyncCheckpoint(userId: string): Promise<SyncCheckpoint | undefined> {
+  if (!isIndexedDBAvailable()) return undefined;
+
+  const db = getOfflineDb();
+  return db.syncCheckpoints.get(userId);
+}
+
+/**
+ * Save a user's checkpoint
+ */
+export async function saveSyncCheckpoint(checkpoint: SyncCheckpoint): Promise<void> {
+  if (!isIndexedDBAvailable()) return;
+
+  const db = getOfflineDb();
+  await db.syncCheckpoints.put(checkpoint);
+}
+
+/**
+ * Forget a user's checkpoint so the next sync pulls everything
+ */
+export async function clearSyncCheckpoint(userId: string): Promise<void> {
+  if (!isIndexedDBAvailable()) return;
+
+  const db = getOfflineDb();
+  await db.syncCheckpoints.delete(userId);
+}
+
+/**
+ * Whether the last full pull is too old to keep pulling incrementally from
+ */
+export function isFullSyncDue(checkpoint: SyncCheckpoint, now: Date = new Date()): boolean {
+  return now.getTime() - new Date(checkpoint.fullSyncAt).getTime() >= FULL_SYNC_INTERVAL_MS;
+}
+
+/**
+ * Cursor to start an incremental pull from, a little before the checkpoint
+ */
+export function getPullStart(checkpoint: SyncCheckpoint): SyncCursor {
+  const time = new Date(checkpoint.updatedAt).getTime() - CHECKPOINT_OVERLAP_MS;
+  return { updatedAt: new Date(Math.max(0, time)).toISOString(), id: '' };
+}
+
+/**
+ * The later of a cursor and the rows pulled after it
+ */
+export function advanceCursor(
+  cursor: SyncCursor | null,
+  rows: { id: string; updated_at: string }[]
+): SyncCursor {
+  let latest = cursor ?? { updatedAt: EPOCH, id: '' };
+  for (const row of rows) {
+    const time = new Date(row.updated_at).getTime();
+    const latestTime = new Date(latest.updatedAt).getTime();
+    if (time > latestTime || (time === latestTime && row.id > latest.id)) {
+      latest = { updatedAt: row.updated_at, id: row.id };
+    }
+  }
+  return latest;
+}
@@ -0,0 +1,255 @@
+import 'fake-indexeddb/auto';
+import { getOfflineDb, type OfflineRecipe } from '@/lib/offline';
+import { createRecipe, getRecipeById, updateRecipe } from '@/lib/supabase/recipes';
+import { upsertCollection } from '@/lib/supabase/collections';
+import { upsertMealPlanEntry } from '@/lib/supabase/mealPlans';
+import type { DbCollection, DbMealPlanEntry, DbRecipe } from '@/lib/supabase/types';
+import { createSnapshot } from './ConflictResolver';
+import { queueOperation } from './OfflineQueue';
+import {
+  adoptGuestData,
+  getGuestDataCount,
+  getRecipeConflicts,
+  saveAllToOffline,
+  syncToCloud,
+  updateRecipeWithSync,
+} from './SyncManager';
+import { LOCAL_USER_ID } from './EntitySync';
+
+jest.mock('@/lib/supabase/recipes', () => ({
+  createRecipe: jest.fn(),
+  getRecipeById: jest.fn(),
+  updateRecipe: jest.fn(),
+}));
+
+jest.mock('@/lib/supabase/collections', () => ({
+  upsertCollection: jest.fn(async (row: unknown) => ({ data: row, error: null })),
+}));
+
+jest.mock('@/lib/supabase/mealPlans', () => ({
+  upsertMealPlanEntry: jest.fn(async (row: unknown) => ({ data: row, error: null })),
+}));
+
+describe('SyncManager', () => {
+  const base: DbRecipe = {
+    id: 'recipe-1',
+    user_id: 'user-1',
+    title: 'Tomato Soup',
+    source_url: 'https://example.com/soup',
+    source_domain: 'example.com',
+    image_url: null,
+    description: null,
+    author: null,
+    prep_time: null,
+    cook_time: null,
+    total_time: null,
+    servings_amount: 4,
+    servings_unit: 'servings',
+    original_servings_amount: 4,
+    ingredients: [],
+    instructions: [{ step: 1, text: 'Simmer' }],
+    nutrition: null,
+    notes: null,
+    tags: ['soup'],
+    is_favorite: true,
+    last_scale_multiplier: 1,
+    created_at: '2026-10-01T00:00:00.000Z',
+    updated_at: '2026-10-01T00:00:00.000Z',
+    last_viewed_at: null,
+    sync_version: 1,
+    is_deleted: false,
+  };
+
+  const remote: DbRecipe = {
+    ...base,
+    title: 'Roasted Tomato Soup',
+    updated_at: '2026-10-02T00:00:00.000Z',
+  };
+
+  beforeEach(async () => {
+    const db = getOfflineDb();
+    await Promise.all([
+      db.recipes.clear(),
+      db.syncQueue.clear(),
+      db.collections.clear(),
+      db.mealPlanEntries.clear(),
+    ]);
+  });
+
+  describe('saveAllToOffline', () => {
+    it('caches cloud recipes with no local edits', async () => {
+      await getOfflineDb().recipes.put({ ...base, _base: createSnapshot(base) });
+
+      const stored = await saveAllToOffline([remote]);
+
+      expect(stored.map((r) => r.title)).toEqual(['Roasted Tomato Soup']);
+      expect((await getOfflineDb().recipes.get('recipe-1'))?.title).toBe('Roasted Tomato Soup');
+    });
+
+    it('keeps the local edit while a conflict is open', async () => {
+      const conflicted: OfflineRecipe = {
+        ...remote,
+        title: 'Grandma Soup',
+        _offlineModified: true,
+        _base: createSnapshot(remote),
+        _conflicts: [{ field: 'title', local: 'Grandma Soup', remote: 'Roasted Tomato Soup' }],
+      };
+      await getOfflineDb().recipes.put(conflicted);
+
+      const stored = await saveAllToOffline([
+        { ...remote, updated_at: '2026-10-03T00:00:00.000Z' },
+      ]);
+
+      expect(stored.map((r) => r.title)).toEqual(['Grandma Soup']);
+      expect(await getOfflineDb().recipes.get('recipe-1')).toEqual(conflicted);
+      expect(await getRecipeConflicts('user-1')).toEqual([
+        expect.objectContaining({ recipeId: 'recipe-1', fields: conflicted._conflicts }),
+      ]);
+    });
+
+    it('keeps edits still waiting to upload', async () => {
+      await getOfflineDb().recipes.put({
+        ...base,
+        notes: 'Add basil',
+        _offlineModified: true,
+        _base: createSnapshot(base),
+      });
+
+      await saveAllToOffline([remote]);
+
+      expect((await getOfflineDb().recipes.get('recipe-1'))?.notes).toBe('Add basil');
+    });
+  });
+
+  describe('syncToCloud', () => {
+    const collection: DbCollection = {
+      id: 'collection-1',
+      user_id: 'user-1',
+      name: 'Weeknight',
+      description: null,
+      cover_image_url: null,
+      position: 0,
+      recipe_ids: ['offline-1', 'recipe-2'],
+      created_at: '2026-10-01T00:00:00.000Z',
+      updated_at: '2026-10-01T00:00:00.000Z',
+      sync_version: 1,
+      is_deleted: false,
+    };
+
+    beforeEach(async () => {
+      jest.spyOn(console, 'log').mockImplementation(() => undefined);
+      const offline: OfflineRecipe = { ...base, id: 'offline-1', _offlineCreated: true };
+      await getOfflineDb().recipes.put(offline);
+      await queueOperation('create', 'offline-1', 'user-1', offline);
+      (createRecipe as jest.Mock).mockResolvedValue({
+        data: { ...base, id: 'cloud-1' },
+        error: null,
+      });
+    });
+
+    afterEach(() => {
+      jest.restoreAllMocks();
+    });
+
+    it('points collections at the cloud ID of an offline-created recipe', async () => {
+      await getOfflineDb().collections.put(collection);
+
+      const result = await syncToCloud('user-1');
+
+      expect(result.uploaded).toBe(1);
+      expect((await getOfflineDb().collections.get('collection-1'))?.recipe_ids).toEqual([
+        'cloud-1',
+        'recipe-2',
+      ]);
+      expect(upsertCollection).toHaveBeenCalledWith(
+        expect.objectContaining({ id: 'collection-1', recipe_ids: ['cloud-1', 'recipe-2'] })
+      );
+    });
+
+    it('points meal plan entries at the cloud ID of an offline-created recipe', async () => {
+      const entry: DbMealPlanEntry = {
+        id: 'entry-1',
+        user_id: 'user-1',
+        date: '2026-10-20',
+        meal: 'dinner',
+        recipe_id: 'offline-1',
+        recipe_title: 'Tomato Soup',
+        multiplier: 1,
+        created_at: '2026-10-01T00:00:00.000Z',
+        updated_at: '2026-10-01T00:00:00.000Z',
+        sync_version: 1,
+        is_deleted: false,
+      };
+      await getOfflineDb().mealPlanEntries.put(entry);
+
+      await syncToCloud('user-1');
+
+      expect((await getOfflineDb().mealPlanEntries.get('entry-1'))?.recipe_id).toBe('cloud-1');
+      expect(upsertMealPlanEntry).toHaveBeenCalledWith(
+        expect.objectContaining({ id: 'entry-1', recipe_id: 'cloud-1' })
+      );
+    });
+
+    it('merges an edit made after the create synced against the uploaded copy', async () => {
+      await syncToCloud('user-1');
+
+      const offline = jest.spyOn(navigator, 'onLine', 'get').mockReturnValue(false);
+      await updateRecipeWithSync('cloud-1', 'user-1', { title: 'Grandma Soup' });
+      offline.mockRestore();
+      (getRecipeById as jest.Mock).mockResolvedValue({
+        data: {
+          ...base,
+          id: 'cloud-1',
+          title: 'Roasted Tomato Soup',
+          updated_at: '2026-10-05T00:00:00.000Z',
+        },
+        error: null,
+      });
+
+      const result = await syncToCloud('user-1');
+
+      expect(result.conflicts).toBe(1);
+      expect(updateRecipe).not.toHaveBeenCalled();
+      expect(await getRecipeConflicts('user-1')).toEqual([
+        expect.objectContaining({
+          recipeId: 'cloud-1',
+          fields: [expect.objectContaining({ field: 'title', local: 'Grandma Soup' })],
+        }),
+      ]);
+    });
+  });
+
+  describe('adoptGuestData', () => {
+    const guestCollection: DbCollection = {
+      id: 'collection-1',
+      user_id: LOCAL_USER_ID,
+      name: 'Weeknight',
+      description: null,
+      cover_image_url: null,
+      position: 0,
+      recipe_ids: [],
+      created_at: '2026-10-01T00:00:00.000Z',
+      updated_at: '2026-10-01T00:00:00.000Z',
+      sync_version: 1,
+      is_deleted: false,
+    };
+
+    it("moves a guest's rows to the signed-in user and uploads them", async () => {
+      await getOfflineDb().collections.bulkPut([
+        guestCollection,
+        { ...guestCollection, id: 'collection-2', is_deleted: true },
+      ]);
+      expect(await getGuestDataCount()).toBe(1);
+
+      expect(await adoptGuestData('user-1')).toBe(1);
+
+      expect(await getGuestDataCount()).toBe(0);
+      expect(await getOfflineDb().collections.toArray()).toEqual([
+        expect.objectContaining({ id: 'collection-1', user_id: 'user-1' }),
+      ]);
+      expect(upsertCollection).toHaveBeenCalledWith(
+        expect.objectContaining({ id: 'collection-1', user_id: 'user-1' })
+      );
+    });
+  });
+});
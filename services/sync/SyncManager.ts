@@ -6,11 +6,16 @@
 import {
   getOfflineDb,
   isIndexedDBAvailable,
+  type MergeableRecipeField,
   type OfflineRecipe,
+  type SyncCheckpoint,
+  type SyncEntityType,
   type SyncStatus,
 } from '@/lib/offline';
 import {
   getRecipes,
+  getRecipeChanges,
+  getRecipeById,
   createRecipe,
   updateRecipe,
   deleteRecipe,
@@ -22,9 +27,56 @@ import {
   failOperation,
   queueOperation,
   getPendingCount,
+  getDeadCount,
+  isOperationDue,
   clearRecipeQueue,
 } from './OfflineQueue';
-import { resolveConflict, getConflictDetails } from './ConflictResolver';
+import {
+  resolveConflict,
+  getConflictDetails,
+  createSnapshot,
+  getLocalChanges,
+  hasLocalModifications,
+  type ConflictResolution,
+  type RecipeConflict,
+} from './ConflictResolver';
+import {
+  getSyncCheckpoint,
+  saveSyncCheckpoint,
+  isFullSyncDue,
+  getPullStart,
+  advanceCursor,
+} from './SyncCheckpoint';
+import { isOnline } from './connectivity';
+import { TabLeader, tabChannel, withTabLock } from '@/lib/tabs';
+import type { EntitySyncHandler } from './EntitySync';
+import { shoppingListSyncHandler } from './ShoppingListSync';
+import { mealPlanSyncHandler, remapMealPlanRecipeId } from './MealPlanSync';
+import { pantrySyncHandler } from './PantrySync';
+import { collectionSyncHandler, remapCollectionRecipeId } from './CollectionSync';
+
+export { isOnline };
+
+// Recipes fetched per request during an incremental pull
+const RECIPE_PAGE_SIZE = 200;
+
+// Held by whichever tab is syncing, so two tabs never sync at once
+const SYNC_LOCK = 'recipe-journal-sync';
+
+/**
+ * Tab that runs automatic syncs when the app is open in several
+ */
+export const syncLeader = new TabLeader('recipe-journal-sync-leader');
+
+/**
+ * Sync handlers for rows with client-generated IDs, keyed by queue entity
+ */
+const ENTITY_HANDLERS: Partial<Record<SyncEntityType, EntitySyncHandler>> = {
+  'shopping-list': shoppingListSyncHandler,
+  'meal-plan': mealPlanSyncHandler,
+  pantry: pantrySyncHandler,
+  collection: collectionSyncHandler,
+};
 
 /**
  * Sync result
@@ -33,6 +85,8 @@ export interface SyncResult {
   success: boolean;
   uploaded: number;
   downloaded: number;
+  /** Cloud rows pulled that needed no local change */
+  skipped: number;
   conflicts: number;
   errors: string[];
 }
@@ -45,6 +99,7 @@ export type SyncEventType =
   | 'sync-completed'
   | 'sync-failed'
   | 'conflict-resolved'
+  | 'conflict-detected'
   | 'id-remapped'
   | 'operation-completed';
 
@@ -68,10 +123,56 @@ let lastError: string | null = null;
  * Add a sync event listener
  */
 export function addSyncListener(listener: SyncEventListener): () => void {
+  relayOtherTabs();
   listeners.add(listener);
   return () => listeners.delete(listener);
 }
 
+let relayingOtherTabs = false;
+
+/**
+ * Replay syncs finished in other tabs as local events, so listeners reload
+ * what those syncs wrote to the shared IndexedDB
+ */
+function relayOtherTabs(): void {
+  if (relayingOtherTabs) return;
+  relayingOtherTabs = true;
+
+  tabChannel.subscribe((message) => {
+    if (message.type === 'sync-completed') {
+      emitEvent('sync-completed', {
+        result: message.result,
+        userId: message.userId,
+        fromOtherTab: true,
+      });
+    }
+  });
+}
+
+/**
+ * Run a sync unless another tab is already syncing, then tell the other tabs
+ */
+async function runExclusive(
+  userId: string,
+  task: () => Promise<SyncResult>
+): Promise<SyncResult> {
+  const result = await withTabLock(SYNC_LOCK, task);
+  if (!result) {
+    return {
+      success: false,
+      uploaded: 0,
+      downloaded: 0,
+      skipped: 0,
+      conflicts: 0,
+      errors: ['Sync already in progress in another tab'],
+    };
+  }
+
+  const { uploaded, downloaded, conflicts } = result;
+  tabChannel.post({ type: 'sync-completed', userId, result: { uploaded, downloaded, conflicts } });
+  return result;
+}
+
 /**
  * Emit a sync event
  */
@@ -84,22 +185,24 @@ function emitEvent(event: SyncEventType, data?: Record<string, unknown>): void {
  */
 export async function getSyncStatus(userId?: string): Promise<SyncStatus> {
   const pendingOperations = await getPendingCount(userId);
+  const unresolvedConflicts = userId ? (await getRecipeConflicts(userId)).length : 0;
+  const failedOperations = await getDeadCount(userId);
+  const retryTimes = userId
+    ? (await getPendingOperations(userId)).flatMap((op) =>
+        op.nextAttemptAt && !isOperationDue(op) ? [op.nextAttemptAt] : []
+      )
+    : [];
   return {
     lastSyncAt,
     pendingOperations,
+    unresolvedConflicts,
+    failedOperations,
+    nextRetryAt: retryTimes.sort()[0] ?? null,
     isSyncing,
     lastError,
   };
 }
 
-/**
- * Check if we're currently online
- */
-export function isOnline(): boolean {
-  if (typeof window === 'undefined') return true;
-  return navigator.onLine;
-}
-
 /**
  * Save recipe to offline storage
  */
@@ -111,25 +214,46 @@ export async function saveToOffline(recipe: DbRecipe): Promise<void> {
     ...recipe,
     _offlineModified: false,
     _offlineCreated: false,
+    _base: createSnapshot(recipe),
   };
 
   await db.recipes.put(offlineRecipe);
 }
 
 /**
- * Save multiple recipes to offline storage
+ * Save multiple cloud recipes to offline storage, leaving alone local copies
+ * with edits still to upload or conflicts waiting for the user. Returns each
+ * recipe as it is now stored.
  */
-export async function saveAllToOffline(recipes: DbRecipe[]): Promise<void> {
-  if (!isIndexedDBAvailable()) return;
+export async function saveAllToOffline(recipes: DbRecipe[]): Promise<DbRecipe[]> {
+  if (!isIndexedDBAvailable()) return recipes;
 
   const db = getOfflineDb();
-  const offlineRecipes: OfflineRecipe[] = recipes.map((recipe) => ({
-    ...recipe,
-    _offlineModified: false,
-    _offlineCreated: false,
-  }));
+  return db.transaction('rw', db.recipes, async () => {
+    const localRecipes = await db.recipes.bulkGet(recipes.map((recipe) => recipe.id));
+    const stored: OfflineRecipe[] = [];
+    const changed: OfflineRecipe[] = [];
+
+    recipes.forEach((recipe, index) => {
+      const local = localRecipes[index];
+      if (local && hasLocalModifications(local)) {
+        stored.push(local);
+        return;
+      }
 
-  await db.recipes.bulkPut(offlineRecipes);
+      const offlineRecipe: OfflineRecipe = {
+        ...recipe,
+        _offlineModified: false,
+        _offlineCreated: false,
+        _base: createSnapshot(recipe),
+      };
+      stored.push(offlineRecipe);
+      changed.push(offlineRecipe);
+    });
+
+    await db.recipes.bulkPut(changed);
+    return stored;
+  });
 }
 
 /**
@@ -333,14 +457,137 @@ export async function deleteRecipeWithSync(
   return true;
 }
 
+/**
+ * Get recipes with edits waiting for the user to pick a version
+ */
+export async function getRecipeConflicts(userId: string): Promise<RecipeConflict[]> {
+  if (!isIndexedDBAvailable()) return [];
+
+  const db = getOfflineDb();
+  const recipes = await db.recipes
+    .where('user_id')
+    .equals(userId)
+    .filter((r) => !r.is_deleted && !!r._conflicts?.length)
+    .toArray();
+
+  return recipes.map((r) => ({ recipeId: r.id, title: r.title, fields: r._conflicts ?? [] }));
+}
+
+/**
+ * Apply the user's pick for each conflicting field (local when not given)
+ * and queue the result for upload
+ */
+export async function resolveRecipeConflicts(
+  id: string,
+  userId: string,
+  choices: Partial<Record<MergeableRecipeField, 'local' | 'remote'>>
+): Promise<DbRecipe | null> {
+  if (!isIndexedDBAvailable()) return null;
+
+  const db = getOfflineDb();
+  const existing = await db.recipes.get(id);
+  if (!existing?._conflicts?.length) return null;
+
+  const picked: Partial<DbRecipe> = {};
+  for (const conflict of existing._conflicts) {
+    (picked as Record<string, unknown>)[conflict.field] =
+      choices[conflict.field] === 'remote' ? conflict.remote : conflict.local;
+  }
+
+  const now = new Date().toISOString();
+  const resolved: OfflineRecipe = {
+    ...existing,
+    ...picked,
+    _conflicts: undefined,
+    _localUpdatedAt: now,
+  };
+  const changes = getLocalChanges(resolved);
+  resolved._offlineModified = Object.keys(changes).length > 0;
+
+  await db.recipes.put(resolved);
+  if (resolved._offlineModified) {
+    await queueOperation('update', id, userId, changes as Partial<OfflineRecipe>);
+  }
+
+  return resolved;
+}
+
+/**
+ * Merge a locally edited recipe with a newer server copy.
+ * Uploads the merged fields, or keeps the merge locally (and drops the queued
+ * update) when some fields need the user to pick.
+ */
+async function mergeWithRemote(
+  local: OfflineRecipe,
+  remote: DbRecipe,
+  userId: string
+): Promise<ConflictResolution> {
+  const resolution = resolveConflict(local, remote);
+
+  if (resolution.hadConflict) {
+    const details = getConflictDetails(local, remote);
+    console.log('Conflict resolved:', details);
+    emitEvent('conflict-resolved', { details, winner: resolution.winner });
+  }
+
+  if (resolution.conflicts.length > 0) {
+    const db = getOfflineDb();
+    await db.recipes.put({
+      ...resolution.resolvedRecipe,
+      _offlineCreated: false,
+      _offlineModified: true,
+      _localUpdatedAt: local._localUpdatedAt,
+      _base: createSnapshot(remote),
+      _conflicts: resolution.conflicts,
+    });
+    await clearRecipeQueue(userId, local.id);
+    emitEvent('conflict-detected', {
+      recipeId: local.id,
+      fields: resolution.conflicts.map((c) => c.field),
+    });
+  } else if (Object.keys(resolution.localChanges).length > 0) {
+    const updateResult = await updateRecipe(local.id, resolution.localChanges);
+    if (!updateResult.data) {
+      throw new Error(updateResult.error?.message || 'Failed to update recipe');
+    }
+    await saveToOffline(updateResult.data);
+    await clearRecipeQueue(userId, local.id);
+  } else {
+    await saveToOffline(remote);
+    await clearRecipeQueue(userId, local.id);
+  }
+
+  return resolution;
+}
+
+/**
+ * Point collections and meal plans that hold a recipe's local ID (an
+ * offline-created or guest recipe) at its cloud ID. The recipe is already
+ * uploaded, so a failure here is logged rather than failing (and re-running)
+ * the upload.
+ */
+export async function remapRecipeReferences(userId: string, oldId: string, newId: string): Promise<void> {
+  try {
+    await remapCollectionRecipeId(userId, oldId, newId);
+    await remapMealPlanRecipeId(userId, oldId, newId);
+  } catch (error) {
+    console.error('Failed to update collections or meal plans for a synced recipe:', error);
+  }
+}
+
 /**
  * Sync all pending operations to cloud
  */
 export async function syncToCloud(userId: string): Promise<SyncResult> {
+  return runExclusive(userId, () => uploadPending(userId));
+}
+
+async function uploadPending(userId: string): Promise<SyncResult> {
   const result: SyncResult = {
     success: false,
     uploaded: 0,
     downloaded: 0,
+    skipped: 0,
     conflicts: 0,
     errors: [],
   };
@@ -360,58 +607,79 @@ export async function syncToCloud(userId: string): Promise<SyncResult> {
   emitEvent('sync-started');
 
   try {
-    // Get pending operations
-    const operations = await getPendingOperations(userId);
+    // Get pending operations, skipping ones still backing off after a failure
+    const operations = (await getPendingOperations(userId)).filter((op) => isOperationDue(op));
 
     // Process each operation
     for (const op of operations) {
       try {
-        switch (op.operation) {
-          case 'create': {
-            if (op.data) {
-              const { id, _offlineCreated, _offlineModified, _localUpdatedAt, ...recipeData } = op.data as OfflineRecipe;
-              const createResult = await createRecipe(userId, recipeData as Omit<NewDbRecipe, 'user_id'>);
-              if (createResult.data) {
-                // Update local ID to match cloud ID
-                const db = getOfflineDb();
-                await db.recipes.delete(op.recipeId);
-                await db.recipes.put({
-                  ...createResult.data,
-                  _offlineCreated: false,
-                  _offlineModified: false,
-                });
-                emitEvent('id-remapped', { oldId: op.recipeId, newId: createResult.data.id, recipe: createResult.data });
-                result.uploaded++;
-              } else {
-                throw new Error(createResult.error?.message || 'Failed to create recipe');
+        const entityHandler = op.entity ? ENTITY_HANDLERS[op.entity] : undefined;
+        if (entityHandler) {
+          await entityHandler.processOperation(op);
+          result.uploaded++;
+        } else {
+          switch (op.operation) {
+            case 'create': {
+              if (op.data) {
+                const { id, _offlineCreated, _offlineModified, _localUpdatedAt, ...recipeData } = op.data as OfflineRecipe;
+                const createResult = await createRecipe(userId, recipeData as Omit<NewDbRecipe, 'user_id'>);
+                if (createResult.data) {
+                  // Update local ID to match cloud ID
+                  const db = getOfflineDb();
+                  await db.recipes.delete(op.recipeId);
+                  await db.recipes.put({
+                    ...createResult.data,
+                    _offlineCreated: false,
+                    _offlineModified: false,
+                    _base: createSnapshot(createResult.data),
+                  });
+                  await remapRecipeReferences(userId, op.recipeId, createResult.data.id);
+                  emitEvent('id-remapped', { oldId: op.recipeId, newId: createResult.data.id, recipe: createResult.data });
+                  result.uploaded++;
+                } else {
+                  throw new Error(createResult.error?.message || 'Failed to create recipe');
+                }
               }
+              break;
             }
-            break;
-          }
 
-          case 'update': {
-            if (op.data) {
-              const { _offlineCreated, _offlineModified, _localUpdatedAt, ...updates } = op.data;
-              const updateResult = await updateRecipe(op.recipeId, updates);
-              if (updateResult.data) {
-                await saveToOffline(updateResult.data);
-                result.uploaded++;
-              } else {
-                throw new Error(updateResult.error?.message || 'Failed to update recipe');
+            case 'update': {
+              if (op.data) {
+                // If the server copy moved on since this device's base, merge instead of overwriting
+                const local = await getFromOffline(op.recipeId);
+                if (local?._base) {
+                  const remoteResult = await getRecipeById(op.recipeId);
+                  if (remoteResult.error) throw remoteResult.error;
+                  if (remoteResult.data && remoteResult.data.updated_at !== local._base.updated_at) {
+                    const resolution = await mergeWithRemote(local, remoteResult.data, userId);
+                    if (resolution.hadConflict) result.conflicts++;
+                    result.uploaded++;
+                    break;
+                  }
+                }
+
+                const { _offlineCreated, _offlineModified, _localUpdatedAt, _base, _conflicts, ...updates } = op.data;
+                const updateResult = await updateRecipe(op.recipeId, updates);
+                if (updateResult.data) {
+                  await saveToOffline(updateResult.data);
+                  result.uploaded++;
+                } else {
+                  throw new Error(updateResult.error?.message || 'Failed to update recipe');
+                }
               }
+              break;
             }
-            break;
-          }
 
-          case 'delete': {
-            const deleteResult = await deleteRecipe(op.recipeId);
-            if (!deleteResult.error) {
-              await deleteFromOffline(op.recipeId);
-              result.uploaded++;
-            } else {
-              throw new Error(deleteResult.error.message);
+            case 'delete': {
+              const deleteResult = await deleteRecipe(op.recipeId);
+              if (!deleteResult.error) {
+                await deleteFromOffline(op.recipeId);
+                result.uploaded++;
+              } else {
+                throw new Error(deleteResult.error.message);
+              }
+              break;
             }
-            break;
           }
         }
 
@@ -421,7 +689,7 @@ export async function syncToCloud(userId: string): Promise<SyncResult> {
         const errorMsg = error instanceof Error ? error.message : 'Unknown error';
         const shouldRetry = await failOperation(op.id!, errorMsg);
         if (!shouldRetry) {
-          result.errors.push(`Failed to ${op.operation} recipe: ${errorMsg}`);
+          result.errors.push(`Failed to ${op.operation} ${op.entity ?? 'recipe'}: ${errorMsg}`);
         }
       }
     }
@@ -441,14 +709,130 @@ export async function syncToCloud(userId: string): Promise<SyncResult> {
   return result;
 }
 
+/**
+ * Apply one cloud recipe (or tombstone) to the local copy
+ */
+async function applyCloudRecipe(
+  cloudRecipe: DbRecipe,
+  localRecipe: OfflineRecipe | undefined,
+  userId: string,
+  result: SyncResult
+): Promise<void> {
+  if (cloudRecipe.is_deleted) {
+    // Deleted on another device; drop any pending edit along with it
+    if (localRecipe) {
+      await deleteFromOffline(cloudRecipe.id);
+      await clearRecipeQueue(userId, cloudRecipe.id);
+      result.downloaded++;
+    } else {
+      result.skipped++;
+    }
+    return;
+  }
+
+  if (localRecipe?._base?.updated_at === cloudRecipe.updated_at) {
+    // Local copy started from this very version; pending edits go up from the queue
+    result.skipped++;
+  } else if (localRecipe && hasLocalModifications(localRecipe)) {
+    // Pending local deletes are uploaded from the queue; otherwise merge the two
+    if (!localRecipe.is_deleted) {
+      const resolution = await mergeWithRemote(localRecipe, cloudRecipe, userId);
+      if (resolution.hadConflict) result.conflicts++;
+    }
+    result.downloaded++;
+  } else {
+    // New from cloud, or no local edits - take the cloud version
+    await saveToOffline(cloudRecipe);
+    result.downloaded++;
+  }
+}
+
+/**
+ * Pull every recipe and reconcile the local copies against them
+ */
+async function pullAllRecipes(userId: string, result: SyncResult): Promise<void> {
+  const cloudResult = await getRecipes(userId);
+  if (cloudResult.error) {
+    throw cloudResult.error;
+  }
+
+  const cloudRecipes = cloudResult.data;
+
+  // Get local recipes
+  const localRecipes = await getAllFromOfflineForSync(userId);
+  const localMap = new Map(localRecipes.map((r) => [r.id, r]));
+
+  // Process cloud recipes
+  for (const cloudRecipe of cloudRecipes) {
+    await applyCloudRecipe(cloudRecipe, localMap.get(cloudRecipe.id), userId, result);
+    localMap.delete(cloudRecipe.id);
+  }
+
+  // Handle recipes that exist locally but not in cloud
+  for (const [id, localRecipe] of localMap) {
+    if (localRecipe._offlineCreated) {
+      // Created offline, needs to be uploaded
+      await queueOperation('create', id, userId, localRecipe);
+    } else if (!localRecipe.is_deleted) {
+      // Deleted from cloud - remove locally
+      await deleteFromOffline(id);
+    }
+  }
+
+  const cursor = advanceCursor(null, cloudRecipes);
+  await saveSyncCheckpoint({
+    userId,
+    updatedAt: cursor.updatedAt,
+    lastId: cursor.id,
+    fullSyncAt: new Date().toISOString(),
+  });
+}
+
+/**
+ * Pull only recipes changed since the checkpoint, a page at a time
+ */
+async function pullRecipeChanges(
+  userId: string,
+  checkpoint: SyncCheckpoint,
+  result: SyncResult
+): Promise<void> {
+  let cursor = getPullStart(checkpoint);
+
+  for (;;) {
+    const page = await getRecipeChanges(userId, cursor.updatedAt, cursor.id, RECIPE_PAGE_SIZE);
+    if (page.error) {
+      throw page.error;
+    }
+
+    for (const cloudRecipe of page.data) {
+      await applyCloudRecipe(cloudRecipe, await getFromOffline(cloudRecipe.id), userId, result);
+    }
+
+    if (page.data.length === 0) break;
+
+    // Save progress so an interrupted sync picks up from here
+    const last = page.data[page.data.length - 1];
+    cursor = { updatedAt: last.updated_at, id: last.id };
+    const latest = advanceCursor({ updatedAt: checkpoint.updatedAt, id: checkpoint.lastId }, [last]);
+    await saveSyncCheckpoint({ ...checkpoint, updatedAt: latest.updatedAt, lastId: latest.id });
+
+    if (page.data.length < RECIPE_PAGE_SIZE) break;
+  }
+}
+
 /**
  * Sync from cloud to local (download)
  */
 export async function syncFromCloud(userId: string): Promise<SyncResult> {
+  return runExclusive(userId, () => downloadChanges(userId));
+}
+
+async function downloadChanges(userId: string): Promise<SyncResult> {
   const result: SyncResult = {
     success: false,
     uploaded: 0,
     downloaded: 0,
+    skipped: 0,
     conflicts: 0,
     errors: [],
   };
@@ -459,63 +843,18 @@ export async function syncFromCloud(userId: string): Promise<SyncResult> {
   }
 
   try {
-    // Get recipes from cloud
-    const cloudResult = await getRecipes(userId);
-    if (cloudResult.error) {
-      throw cloudResult.error;
-    }
-
-    const cloudRecipes = cloudResult.data;
-
-    // Get local recipes
-    const localRecipes = await getAllFromOfflineForSync(userId);
-    const localMap = new Map(localRecipes.map((r) => [r.id, r]));
-
-    // Process cloud recipes
-    for (const cloudRecipe of cloudRecipes) {
-      const localRecipe = localMap.get(cloudRecipe.id);
-
-      if (!localRecipe) {
-        // New from cloud - save locally
-        await saveToOffline(cloudRecipe);
-        result.downloaded++;
-      } else if (localRecipe._offlineModified) {
-        // Conflict - resolve it
-        const resolution = resolveConflict(localRecipe, cloudRecipe);
-
-        if (resolution.hadConflict) {
-          const details = getConflictDetails(localRecipe, cloudRecipe);
-          console.log('Conflict resolved:', details);
-          result.conflicts++;
-          emitEvent('conflict-resolved', { details, winner: resolution.winner });
-        }
-
-        if (resolution.winner === 'local') {
-          // Need to upload local changes
-          await queueOperation('update', localRecipe.id, userId, localRecipe);
-        } else {
-          // Use cloud version
-          await saveToOffline(resolution.resolvedRecipe);
-        }
-        result.downloaded++;
-      } else {
-        // No conflict - update local with cloud version
-        await saveToOffline(cloudRecipe);
-        result.downloaded++;
-      }
-
-      localMap.delete(cloudRecipe.id);
+    const checkpoint = await getSyncCheckpoint(userId);
+    if (!checkpoint || isFullSyncDue(checkpoint)) {
+      await pullAllRecipes(userId, result);
+    } else {
+      await pullRecipeChanges(userId, checkpoint, result);
     }
 
-    // Handle recipes that exist locally but not in cloud
-    for (const [id, localRecipe] of localMap) {
-      if (localRecipe._offlineCreated) {
-        // Created offline, needs to be uploaded
-        await queueOperation('create', id, userId, localRecipe);
-      } else if (!localRecipe.is_deleted) {
-        // Deleted from cloud - remove locally
-        await deleteFromOffline(id);
-      }
+    // Pull other synced entities (shopping lists, ...)
+    for (const handler of Object.values(ENTITY_HANDLERS)) {
+      const pulled = await handler.pullFromCloud(userId);
+      result.downloaded += pulled.downloaded;
+      result.conflicts += pulled.conflicts;
     }
 
     result.success = true;
@@ -533,24 +872,51 @@ export async function syncFromCloud(userId: string): Promise<SyncResult> {
  * Full bidirectional sync
  */
 export async function fullSync(userId: string): Promise<SyncResult> {
-  // First, upload local changes
-  const uploadResult = await syncToCloud(userId);
+  return runExclusive(userId, async () => {
+    // First, upload local changes
+    const uploadResult = await uploadPending(userId);
+
+    // Then, download cloud changes
+    const downloadResult = await downloadChanges(userId);
+
+    // If there were new operations queued during download (conflicts resolved to local)
+    // upload them
+    const pendingCount = await getPendingCount(userId);
+    if (pendingCount > 0) {
+      await uploadPending(userId);
+    }
 
-  // Then, download cloud changes
-  const downloadResult = await syncFromCloud(userId);
+    return {
+      success: uploadResult.success && downloadResult.success,
+      uploaded: uploadResult.uploaded,
+      downloaded: downloadResult.downloaded,
+      skipped: downloadResult.skipped,
+      conflicts: uploadResult.conflicts + downloadResult.conflicts,
+      errors: [...uploadResult.errors, ...downloadResult.errors],
+    };
+  });
+}
 
-  // If there were new operations queued during download (conflicts resolved to local)
-  // upload them
-  const pendingCount = await getPendingCount(userId);
-  if (pendingCount > 0) {
-    await syncToCloud(userId);
+/**
+ * Count shopping lists, meal plan entries, pantry items and collections a
+ * guest left on this device
+ */
+export async function getGuestDataCount(): Promise<number> {
+  let count = 0;
+  for (const handler of Object.values(ENTITY_HANDLERS)) {
+    count += await handler.countGuestRows();
   }
+  return count;
+}
 
-  return {
-    success: uploadResult.success && downloadResult.success,
-    uploaded: uploadResult.uploaded,
-    downloaded: downloadResult.downloaded,
-    conflicts: downloadResult.conflicts,
-    errors: [...uploadResult.errors, ...downloadResult.errors],
-  };
+/**
+ * Move a guest's shopping lists, meal plan, pantry and collections to a
+ * signed-in user and upload them. Returns how many rows moved.
+ */
+export async function adoptGuestData(userId: string): Promise<number> {
+  let adopted = 0;
+  for (const handler of Object.values(ENTITY_HANDLERS)) {
+    adopted += await handler.adoptGuestRows(userId);
+  }
+  return adopted;
 }
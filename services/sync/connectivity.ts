@@ -0,0 +1,11 @@
+/**
+ * Connectivity helpers shared by the sync services
+ */
+
+/**
+ * Check if we're currently online
+ */
+export function isOnline(): boolean {
+  if (typeof window === 'undefined') return true;
+  return navigator.onLine;
+}
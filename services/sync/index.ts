@@ -18,6 +18,12 @@ export {
   syncToCloud,
   syncFromCloud,
   fullSync,
+  getRecipeConflicts,
+  resolveRecipeConflicts,
+  remapRecipeReferences,
+  getGuestDataCount,
+  adoptGuestData,
+  syncLeader,
 } from './SyncManager';
 
 export type { SyncResult, SyncEventType, SyncEventListener } from './SyncManager';
@@ -29,18 +35,75 @@ export {
   getPendingCount,
   completeOperation,
   failOperation,
+  getRetryDelay,
+  isOperationDue,
+  retryOperationNow,
+  discardOperation,
+  getDeadOperations,
+  getDeadCount,
+  retryDeadOperation,
+  discardDeadOperation,
   clearUserQueue,
   clearAllQueues,
 } from './OfflineQueue';
 
+// Incremental pull checkpoints
+export {
+  getSyncCheckpoint,
+  saveSyncCheckpoint,
+  clearSyncCheckpoint,
+  isFullSyncDue,
+  getPullStart,
+  advanceCursor,
+} from './SyncCheckpoint';
+
+export type { SyncCursor } from './SyncCheckpoint';
+
 // Conflict Resolver
 export {
   resolveConflict,
   getConflictDetails,
+  createSnapshot,
+  getLocalChanges,
+  mergeTags,
+  mergeText,
+  MERGEABLE_FIELDS,
   mergeRecipes,
   hasLocalModifications,
   isRemoteNewer,
   isLocalNewer,
 } from './ConflictResolver';
 
-export type { ConflictResolution, ConflictDetails } from './ConflictResolver';
+export type { ConflictResolution, ConflictDetails, RecipeConflict } from './ConflictResolver';
+
+// Client-ID entity sync
+export { LOCAL_USER_ID } from './EntitySync';
+export type { EntitySyncAdapter, EntitySyncHandler, SyncableRow } from './EntitySync';
+
+// Shopping lists
+export {
+  getShoppingListsWithSync,
+  saveShoppingListWithSync,
+  deleteShoppingListWithSync,
+} from './ShoppingListSync';
+
+// Meal plans
+export {
+  getMealPlanEntriesWithSync,
+  saveMealPlanEntryWithSync,
+  deleteMealPlanEntryWithSync,
+} from './MealPlanSync';
+
+// Pantry
+export {
+  getPantryItemsWithSync,
+  savePantryItemWithSync,
+  deletePantryItemWithSync,
+} from './PantrySync';
+
+// Collections
+export {
+  getCollectionsWithSync,
+  saveCollectionWithSync,
+  deleteCollectionWithSync,
+} from './CollectionSync';
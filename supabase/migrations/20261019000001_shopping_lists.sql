@@ -0,0 +1,50 @@
+-- Shopping lists built from saved recipes
+-- IDs are generated on the client so lists can be created offline
+
+CREATE TABLE shopping_lists (
+  id UUID PRIMARY KEY,
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+
+  name TEXT NOT NULL,
+
+  -- Content (stored as JSONB)
+  recipes JSONB NOT NULL DEFAULT '[]',
+  items JSONB NOT NULL DEFAULT '[]',
+
+  -- Timestamps
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  updated_at TIMESTAMPTZ DEFAULT NOW(),
+
+  -- Sync
+  sync_version INTEGER DEFAULT 1,
+  is_deleted BOOLEAN DEFAULT false
+);
+
+-- Row Level Security
+ALTER TABLE shopping_lists ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view own shopping lists"
+  ON shopping_lists FOR SELECT
+  USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can insert own shopping lists"
+  ON shopping_lists FOR INSERT
+  WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can update own shopping lists"
+  ON shopping_lists FOR UPDATE
+  USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can delete own shopping lists"
+  ON shopping_lists FOR DELETE
+  USING (auth.uid() = user_id);
+
+-- Indexes
+CREATE INDEX idx_shopping_lists_user_updated
+  ON shopping_lists(user_id, updated_at DESC) WHERE is_deleted = false;
+
+-- Reuses update_updated_at() from the recipes schema
+CREATE TRIGGER shopping_lists_updated_at
+  BEFORE UPDATE ON shopping_lists
+  FOR EACH ROW
+  EXECUTE FUNCTION update_updated_at();
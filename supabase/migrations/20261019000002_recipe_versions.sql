@@ -0,0 +1,5 @@
+-- Keep the originally scraped text and the edit history for each recipe
+
+ALTER TABLE recipes
+  ADD COLUMN raw_data JSONB,
+  ADD COLUMN versions JSONB NOT NULL DEFAULT '[]';
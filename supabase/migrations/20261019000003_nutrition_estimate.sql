@@ -0,0 +1,4 @@
+-- Mark nutrition that was estimated from the ingredients, with the per-ingredient match report
+
+ALTER TABLE recipes
+  ADD COLUMN nutrition_estimate JSONB;
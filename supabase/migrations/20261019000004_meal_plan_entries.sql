@@ -0,0 +1,53 @@
+-- Meal plan: saved recipes placed on dates and meal slots
+-- IDs are generated on the client so entries can be planned offline
+
+CREATE TABLE meal_plan_entries (
+  id UUID PRIMARY KEY,
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+
+  -- Placement (local calendar date)
+  date DATE NOT NULL,
+  meal TEXT NOT NULL CHECK (meal IN ('breakfast', 'lunch', 'dinner', 'snack')),
+
+  -- Planned recipe (title is kept so the plan still reads if the recipe is removed)
+  recipe_id TEXT NOT NULL,
+  recipe_title TEXT NOT NULL,
+  multiplier NUMERIC NOT NULL DEFAULT 1 CHECK (multiplier > 0),
+
+  -- Timestamps
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  updated_at TIMESTAMPTZ DEFAULT NOW(),
+
+  -- Sync
+  sync_version INTEGER DEFAULT 1,
+  is_deleted BOOLEAN DEFAULT false
+);
+
+-- Row Level Security
+ALTER TABLE meal_plan_entries ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view own meal plan entries"
+  ON meal_plan_entries FOR SELECT
+  USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can insert own meal plan entries"
+  ON meal_plan_entries FOR INSERT
+  WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can update own meal plan entries"
+  ON meal_plan_entries FOR UPDATE
+  USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can delete own meal plan entries"
+  ON meal_plan_entries FOR DELETE
+  USING (auth.uid() = user_id);
+
+-- Indexes
+CREATE INDEX idx_meal_plan_entries_user_date
+  ON meal_plan_entries(user_id, date) WHERE is_deleted = false;
+
+-- Reuses update_updated_at() from the recipes schema
+CREATE TRIGGER meal_plan_entries_updated_at
+  BEFORE UPDATE ON meal_plan_entries
+  FOR EACH ROW
+  EXECUTE FUNCTION update_updated_at();
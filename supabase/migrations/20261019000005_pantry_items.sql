@@ -0,0 +1,50 @@
+-- Pantry: ingredients on hand, matched against recipes and shopping lists
+-- IDs are generated on the client so the pantry can be edited offline
+
+CREATE TABLE pantry_items (
+  id UUID PRIMARY KEY,
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+
+  -- Item (key is the normalized name used for matching)
+  name TEXT NOT NULL,
+  key TEXT NOT NULL,
+  quantity NUMERIC CHECK (quantity IS NULL OR quantity >= 0),
+  unit TEXT,
+
+  -- Timestamps
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  updated_at TIMESTAMPTZ DEFAULT NOW(),
+
+  -- Sync
+  sync_version INTEGER DEFAULT 1,
+  is_deleted BOOLEAN DEFAULT false
+);
+
+-- Row Level Security
+ALTER TABLE pantry_items ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view own pantry items"
+  ON pantry_items FOR SELECT
+  USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can insert own pantry items"
+  ON pantry_items FOR INSERT
+  WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can update own pantry items"
+  ON pantry_items FOR UPDATE
+  USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can delete own pantry items"
+  ON pantry_items FOR DELETE
+  USING (auth.uid() = user_id);
+
+-- Indexes
+CREATE INDEX idx_pantry_items_user_key
+  ON pantry_items(user_id, key) WHERE is_deleted = false;
+
+-- Reuses update_updated_at() from the recipes schema
+CREATE TRIGGER pantry_items_updated_at
+  BEFORE UPDATE ON pantry_items
+  FOR EACH ROW
+  EXECUTE FUNCTION update_updated_at();
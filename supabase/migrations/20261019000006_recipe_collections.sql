@@ -0,0 +1,53 @@
+-- Collections: ordered groups of saved recipes ("Thanksgiving", "Weeknight")
+-- IDs are generated on the client so collections can be edited offline
+
+CREATE TABLE recipe_collections (
+  id UUID PRIMARY KEY,
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+
+  -- Collection
+  name TEXT NOT NULL CHECK (length(trim(name)) > 0),
+  description TEXT,
+  cover_image_url TEXT,
+  position INTEGER NOT NULL DEFAULT 0,
+
+  -- Recipe IDs in display order (a recipe can be in several collections)
+  recipe_ids TEXT[] NOT NULL DEFAULT '{}',
+
+  -- Timestamps
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  updated_at TIMESTAMPTZ DEFAULT NOW(),
+
+  -- Sync
+  sync_version INTEGER DEFAULT 1,
+  is_deleted BOOLEAN DEFAULT false
+);
+
+-- Row Level Security
+ALTER TABLE recipe_collections ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view own collections"
+  ON recipe_collections FOR SELECT
+  USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can insert own collections"
+  ON recipe_collections FOR INSERT
+  WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can update own collections"
+  ON recipe_collections FOR UPDATE
+  USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can delete own collections"
+  ON recipe_collections FOR DELETE
+  USING (auth.uid() = user_id);
+
+-- Indexes
+CREATE INDEX idx_recipe_collections_user_position
+  ON recipe_collections(user_id, position) WHERE is_deleted = false;
+
+-- Reuses update_updated_at() from the recipes schema
+CREATE TRIGGER recipe_collections_updated_at
+  BEFORE UPDATE ON recipe_collections
+  FOR EACH ROW
+  EXECUTE FUNCTION update_updated_at();
@@ -0,0 +1,85 @@
+-- Share links: public, read-only pages for a recipe or collection
+-- Content is copied into the link when it's created; visitors read it through
+-- get_share_link() and never touch the owner's tables
+
+CREATE TABLE share_links (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+
+  -- Public token used in /shared/<token>
+  token TEXT NOT NULL UNIQUE CHECK (length(token) >= 32),
+
+  -- What is shared (recipe source URL or collection ID) and how it's shown
+  target_type TEXT NOT NULL CHECK (target_type IN ('recipe', 'collection')),
+  target_id TEXT NOT NULL,
+  title TEXT NOT NULL,
+  multiplier NUMERIC NOT NULL DEFAULT 1 CHECK (multiplier >= 0.1 AND multiplier <= 10),
+  content JSONB NOT NULL,
+
+  -- Access (a link stops working once expired or revoked)
+  expires_at TIMESTAMPTZ,
+  revoked_at TIMESTAMPTZ,
+
+  -- Timestamps
+  created_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+-- Row Level Security (owners only; visitors go through get_share_link)
+ALTER TABLE share_links ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view own share links"
+  ON share_links FOR SELECT
+  USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can insert own share links"
+  ON share_links FOR INSERT
+  WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can update own share links"
+  ON share_links FOR UPDATE
+  USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can delete own share links"
+  ON share_links FOR DELETE
+  USING (auth.uid() = user_id);
+
+-- Indexes
+CREATE INDEX idx_share_links_user_target
+  ON share_links(user_id, target_type, target_id);
+
+-- Look up one link by token. Returns the link's status for any token, but the
+-- content only while the link is neither revoked nor expired.
+CREATE FUNCTION get_share_link(share_token TEXT)
+RETURNS TABLE (
+  token TEXT,
+  target_type TEXT,
+  title TEXT,
+  multiplier NUMERIC,
+  content JSONB,
+  expires_at TIMESTAMPTZ,
+  revoked_at TIMESTAMPTZ,
+  created_at TIMESTAMPTZ
+)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT
+    link.token,
+    link.target_type,
+    link.title,
+    link.multiplier,
+    CASE
+      WHEN link.revoked_at IS NULL AND (link.expires_at IS NULL OR link.expires_at > NOW())
+      THEN link.content
+    END,
+    link.expires_at,
+    link.revoked_at,
+    link.created_at
+  FROM share_links AS link
+  WHERE link.token = share_token;
+$$;
+
+REVOKE ALL ON FUNCTION get_share_link(TEXT) FROM PUBLIC;
+GRANT EXECUTE ON FUNCTION get_share_link(TEXT) TO anon, authenticated;
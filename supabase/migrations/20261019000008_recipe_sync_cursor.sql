@@ -0,0 +1,12 @@
+-- Incremental sync: clients pull recipes changed after their last checkpoint,
+-- ordered by (updated_at, id), soft-deleted rows included
+
+CREATE INDEX idx_recipes_user_updated_id
+  ON recipes(user_id, updated_at, id);
+
+-- Stamp server time on inserts as well as updates, so the cursor doesn't
+-- depend on the clock of the device that wrote the row
+CREATE TRIGGER recipes_sync_cursor
+  BEFORE INSERT OR UPDATE ON recipes
+  FOR EACH ROW
+  EXECUTE FUNCTION update_updated_at();
@@ -3,6 +3,7 @@
  */
 
 import { Recipe } from './recipe.types';
+import { BatchImportJob } from './import.types';
 import { ScaledRecipe, ScalingOptions, ScaledIngredient } from './scaling.types';
 
 /**
@@ -13,6 +14,22 @@ export interface ParseRecipeRequest {
   url: string;
 }
 
+/**
+ * Request to import a recipe from pasted text or HTML
+ */
+export interface ImportRecipeRequest {
+  /** Pasted recipe text or HTML */
+  text: string;
+}
+
+/**
+ * Request to start a batch import
+ */
+export interface BatchImportRequest {
+  /** Recipe page URLs to scrape */
+  urls: string[];
+}
+
 /**
  * Request to scale a recipe
  */
@@ -41,6 +58,9 @@ export enum ErrorCode {
   // Scaling errors
   INVALID_MULTIPLIER = 'INVALID_MULTIPLIER',
 
+  // Batch import errors
+  IMPORT_JOB_NOT_FOUND = 'IMPORT_JOB_NOT_FOUND',
+
   // AI/LLM errors
   AI_CONFIG_ERROR = 'AI_CONFIG_ERROR',
   AI_SCALING_FAILED = 'AI_SCALING_FAILED',
@@ -50,6 +70,8 @@ export enum ErrorCode {
   INTERNAL_ERROR = 'INTERNAL_ERROR',
   VALIDATION_ERROR = 'VALIDATION_ERROR',
   NETWORK_ERROR = 'NETWORK_ERROR',
+  UNAUTHORIZED = 'UNAUTHORIZED',
+  STORAGE_FULL = 'STORAGE_FULL',
 }
 
 /**
@@ -95,6 +117,11 @@ export interface ApiResponse<T> {
  */
 export type ParseRecipeResponse = ApiResponse<Recipe>;
 
+/**
+ * Response for the batch import endpoints
+ */
+export type BatchImportResponse = ApiResponse<BatchImportJob>;
+
 /**
  * Response for scale recipe endpoint
  */
@@ -0,0 +1,23 @@
+/**
+ * Recipe collection type definitions
+ */
+
+/**
+ * A user-defined, ordered group of saved recipes (e.g., "Thanksgiving").
+ * A recipe can belong to any number of collections.
+ */
+export interface RecipeCollection {
+  /** Client-generated identifier */
+  id: string;
+  name: string;
+  description: string | null;
+  /** Cover image URL; when null the first recipe's image is shown */
+  coverImage: string | null;
+  /** IDs of the saved recipes, in display order */
+  recipeIds: string[];
+  /** Place among the user's collections (lower comes first) */
+  position: number;
+  /** Timestamps */
+  createdAt: string;
+  updatedAt: string;
+}
@@ -0,0 +1,38 @@
+/**
+ * Cook mode type definitions
+ */
+
+/**
+ * Timer lifecycle
+ */
+export type CookTimerStatus = 'idle' | 'running' | 'paused' | 'done';
+
+/**
+ * A countdown started from a step's time
+ */
+export interface CookTimer {
+  id: string;
+  /** Step the timer belongs to (1-indexed) */
+  step: number;
+  /** Label shown with the countdown (e.g., "Step 3 · 25 minutes") */
+  label: string;
+  /** Full duration in seconds */
+  durationSeconds: number;
+  status: CookTimerStatus;
+  /** Epoch milliseconds the timer reaches zero (while running) */
+  endsAt: number | null;
+  /** Seconds left when paused or idle */
+  remainingSeconds: number;
+}
+
+/**
+ * Where the cook is in a recipe, saved so a reload picks up where it left off
+ */
+export interface CookProgress {
+  /** Recipe ID, or source URL for unsaved recipes */
+  recipeKey: string;
+  /** Current step index (0-based) */
+  stepIndex: number;
+  timers: CookTimer[];
+  updatedAt: string;
+}
@@ -0,0 +1,50 @@
+/**
+ * Recipe editing and version history type definitions
+ */
+
+import { ParsedIngredient } from './ingredient.types';
+import { Instruction } from './recipe.types';
+
+/**
+ * The parts of a recipe the editor can change
+ */
+export interface RecipeContent {
+  title: string;
+  ingredients: ParsedIngredient[];
+  instructions: Instruction[];
+}
+
+/**
+ * A saved snapshot of a recipe's editable content
+ */
+export interface RecipeVersion extends RecipeContent {
+  /** Version number (1 = content as first saved) */
+  version: number;
+  /** When this version was created */
+  createdAt: string;
+  /** Short description of the change (e.g., "Edited 2 ingredients") */
+  summary: string;
+}
+
+/**
+ * Status of a line in a diff
+ */
+export type LineDiffStatus = 'unchanged' | 'added' | 'removed';
+
+/**
+ * A single line in a diff
+ */
+export interface LineDiff {
+  status: LineDiffStatus;
+  text: string;
+}
+
+/**
+ * Diff of a recipe's ingredients and instructions against a baseline
+ */
+export interface RecipeDiff {
+  ingredients: LineDiff[];
+  instructions: LineDiff[];
+  /** Number of added + removed lines */
+  changeCount: number;
+}
@@ -0,0 +1,46 @@
+/**
+ * Batch import type definitions
+ */
+
+import { Recipe } from './recipe.types';
+import { ApiError } from './api.types';
+
+/**
+ * Where one URL of a batch import is up to
+ */
+export type BatchImportStatus =
+  /** Waiting for a free slot or for its domain's delay */
+  | 'queued'
+  /** Being fetched and scraped */
+  | 'importing'
+  /** Scraped; the client still has to save it */
+  | 'scraped'
+  /** Saved to favorites */
+  | 'saved'
+  /** Already saved, or listed twice in the batch */
+  | 'duplicate'
+  | 'failed';
+
+/**
+ * Progress for one URL of a batch import
+ */
+export interface BatchImportItem {
+  url: string;
+  status: BatchImportStatus;
+  /** Scraped recipe, once status is 'scraped' */
+  recipe?: Recipe;
+  /** Why the URL failed, including the ErrorCode */
+  error?: ApiError;
+}
+
+/**
+ * A batch import job
+ */
+export interface BatchImportJob {
+  id: string;
+  /** One entry per submitted URL, in the order they were submitted */
+  items: BatchImportItem[];
+  /** Whether every URL has been scraped or has failed */
+  done: boolean;
+  createdAt: string;
+}
@@ -6,3 +6,14 @@ export * from './ingredient.types';
 export * from './recipe.types';
 export * from './scaling.types';
 export * from './api.types';
+export * from './shopping.types';
+export * from './editor.types';
+export * from './nutrition.types';
+export * from './mealPlan.types';
+export * from './pantry.types';
+export * from './cookMode.types';
+export * from './import.types';
+export * from './interchange.types';
+export * from './print.types';
+export * from './collection.types';
+export * from './share.types';
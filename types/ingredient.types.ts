@@ -72,4 +72,6 @@ export interface ParsedIngredient {
   parseConfidence: number;
   /** Error message if parsing partially failed */
   parseError?: string;
+  /** Section the line is listed under (e.g., "For the sauce") */
+  section?: string;
 }
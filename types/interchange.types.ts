@@ -0,0 +1,44 @@
+/**
+ * Recipe file import/export type definitions
+ */
+
+import { Recipe } from './recipe.types';
+
+/**
+ * File formats recipes can be exported to and imported from
+ */
+export type RecipeFileFormat =
+  /** schema.org Recipe JSON-LD, as embedded in recipe pages */
+  | 'json-ld'
+  /** Paprika archive (.paprikarecipes): a zip of gzipped JSON recipes */
+  | 'paprika'
+  /** Our own JSON bundle, keeping every field */
+  | 'bundle';
+
+/**
+ * A recipe with the personal fields saved alongside it
+ */
+export interface PortableRecipe extends Recipe {
+  notes?: string;
+  userTags?: string[];
+  lastScaledMultiplier?: number;
+}
+
+/**
+ * JSON bundle of exported recipes
+ */
+export interface RecipeBundle {
+  format: 'recipe-journal';
+  version: number;
+  exportedAt: string;
+  recipes: PortableRecipe[];
+}
+
+/**
+ * An exported file, ready to download
+ */
+export interface RecipeFile {
+  filename: string;
+  mimeType: string;
+  data: Uint8Array;
+}
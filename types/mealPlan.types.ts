@@ -0,0 +1,38 @@
+/**
+ * Meal plan type definitions
+ */
+
+/**
+ * Meal slots within a day
+ */
+export type MealSlot = 'breakfast' | 'lunch' | 'dinner' | 'snack';
+
+/**
+ * A saved recipe planned for a date and meal
+ */
+export interface MealPlanEntry {
+  /** Client-generated identifier */
+  id: string;
+  /** Local calendar date (YYYY-MM-DD) */
+  date: string;
+  meal: MealSlot;
+  /** ID of the saved recipe */
+  recipeId: string;
+  /** Recipe title at the time it was planned */
+  recipeTitle: string;
+  /** Multiplier to cook the recipe at */
+  multiplier: number;
+  /** Timestamps */
+  createdAt: string;
+  updatedAt: string;
+}
+
+/**
+ * One day of a weekly plan
+ */
+export interface MealPlanDay {
+  /** Local calendar date (YYYY-MM-DD) */
+  date: string;
+  /** Entries for each meal slot, in the order they were added */
+  meals: Record<MealSlot, MealPlanEntry[]>;
+}
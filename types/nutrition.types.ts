@@ -0,0 +1,112 @@
+/**
+ * Nutrition type definitions
+ */
+
+import type { NutritionInfo } from './recipe.types';
+
+/**
+ * Nutrients we normalize and scale
+ */
+export type NutrientKey =
+  | 'calories'
+  | 'fat'
+  | 'saturatedFat'
+  | 'cholesterol'
+  | 'sodium'
+  | 'carbohydrates'
+  | 'fiber'
+  | 'sugar'
+  | 'protein';
+
+/**
+ * Canonical unit for a nutrient
+ */
+export type NutrientUnit = 'kcal' | 'g' | 'mg';
+
+/**
+ * A numeric nutrient amount in its canonical unit
+ */
+export interface NutrientAmount {
+  value: number;
+  unit: NutrientUnit;
+}
+
+/**
+ * Parsed nutrient amounts; nutrients the source didn't list are omitted
+ */
+export type NutritionValues = Partial<Record<NutrientKey, NutrientAmount>>;
+
+/**
+ * Nutrition for a scaled recipe
+ */
+export interface ScaledNutrition {
+  /** Amounts in one scaled serving */
+  perServing: NutritionValues;
+  /** Amounts in the whole scaled batch */
+  perBatch: NutritionValues;
+  /** Number of servings in the scaled batch */
+  servings: number;
+}
+
+/**
+ * A food in the bundled nutrient database
+ */
+export interface NutrientFood {
+  /** Canonical name, lowercase singular (e.g., "all-purpose flour") */
+  name: string;
+  /** Other names that should match this food */
+  aliases?: string[];
+  /** Nutrients per 100 g, in canonical units */
+  per100g: Record<NutrientKey, number>;
+  /** Grams per milliliter, used when the density table has no entry */
+  density?: number;
+  /** Grams per piece for count-based lines, keyed by piece word ("clove", "can") or "default" */
+  pieces?: Record<string, number>;
+}
+
+/**
+ * Why an ingredient line did or didn't count toward an estimate
+ */
+export type NutritionMatchStatus =
+  /** Matched to a food and converted to grams */
+  | 'matched'
+  /** No food in the database matched the ingredient name */
+  | 'unmatched'
+  /** Matched, but the line has no quantity ("salt to taste") */
+  | 'no-quantity'
+  /** Matched, but the amount couldn't be converted to grams */
+  | 'no-weight';
+
+/**
+ * How one ingredient line was matched for a nutrition estimate
+ */
+export interface IngredientNutritionMatch {
+  ingredientId: string;
+  /** Original ingredient text */
+  original: string;
+  status: NutritionMatchStatus;
+  /** Name of the matched food */
+  food?: string;
+  /** Weight counted toward the estimate, in grams (only when matched) */
+  grams?: number;
+}
+
+/**
+ * Marks recipe nutrition as estimated from the ingredients.
+ * Absent when the nutrition came from the source page.
+ */
+export interface NutritionEstimateReport {
+  /** When the estimate was computed (ISO string) */
+  estimatedAt: string;
+  /** One entry per ingredient line, in recipe order */
+  matches: IngredientNutritionMatch[];
+}
+
+/**
+ * Result of estimating nutrition from a recipe's ingredients
+ */
+export interface NutritionEstimate {
+  /** Estimated nutrition per original serving */
+  nutrition: NutritionInfo;
+  report: NutritionEstimateReport;
+}
@@ -0,0 +1,52 @@
+/**
+ * Pantry type definitions
+ */
+
+/**
+ * An ingredient on hand
+ */
+export interface PantryItem {
+  /** Client-generated identifier */
+  id: string;
+  /** Ingredient name shown to the user */
+  name: string;
+  /** Normalized key used to match recipe ingredients */
+  key: string;
+  /** Amount on hand, null when only "some" is tracked */
+  quantity: number | null;
+  /** Normalized unit key (see getUnit), null for counted items */
+  unit: string | null;
+  /** Timestamps */
+  createdAt: string;
+  updatedAt: string;
+}
+
+/**
+ * How well the pantry covers an ingredient
+ */
+export type PantryCoverageStatus =
+  /** Enough on hand */
+  | 'covered'
+  /** On hand, but not enough */
+  | 'short'
+  /** On hand, but the amounts can't be compared (e.g., "1 onion" vs "500 g onion") */
+  | 'unknown'
+  /** Not in the pantry */
+  | 'missing';
+
+/**
+ * Pantry coverage for one ingredient line
+ */
+export interface PantryCoverage {
+  ingredientId: string;
+  status: PantryCoverageStatus;
+  /** Matched pantry item */
+  itemId?: string;
+  itemName?: string;
+  /** Amount needed, in `unit` */
+  needed: number | null;
+  /** Amount on hand converted to `unit` (null when not comparable) */
+  available: number | null;
+  /** Unit of needed/available (the ingredient's scaled unit) */
+  unit: string | null;
+}
@@ -0,0 +1,71 @@
+/**
+ * Printable recipe card type definitions
+ */
+
+import { UnitSystem } from './ingredient.types';
+import { ScaledIngredient } from './scaling.types';
+
+/**
+ * Page layouts a recipe can be printed in
+ */
+export type PrintLayout =
+  /** One recipe on a letter/A4 page */
+  | 'full-page'
+  /** A 4x6 inch index card */
+  | 'index-card'
+  /** Two copies side by side on a landscape page */
+  | 'two-up';
+
+/**
+ * What to print besides the scaled recipe itself
+ */
+export interface PrintOptions {
+  /** Convert amounts to this system; omit to keep the recipe's units */
+  unitSystem?: UnitSystem;
+  /** Ingredients to print instead of the recipe's scaled list (e.g., AI-adjusted) */
+  ingredients?: ScaledIngredient[];
+  /** Tips to print instead of the recipe's scaling tips */
+  tips?: string[];
+  /** Whether the tips came from AI smart scaling */
+  isAIPowered?: boolean;
+  cookingTimeAdjustment?: string;
+}
+
+/**
+ * A QR code as a square grid of modules (true = dark)
+ */
+export interface QrCode {
+  size: number;
+  modules: boolean[][];
+}
+
+/**
+ * Lines printed under an optional section heading
+ */
+export interface PrintSection {
+  title?: string;
+  lines: string[];
+}
+
+/**
+ * A scaled recipe laid out as text, ready to render for print
+ */
+export interface PrintableRecipe {
+  title: string;
+  /** e.g., "12 cookies (scaled 2x)" */
+  servings: string;
+  /** e.g., "Prep 15 mins · Cook 1 hr" */
+  times?: string;
+  ingredients: PrintSection[];
+  /** Steps, numbered across sections */
+  instructions: PrintSection[];
+  tips: string[];
+  isAIPowered: boolean;
+  cookingTimeAdjustment?: string;
+  /** Link back to the recipe page; absent for pasted and manual recipes */
+  source?: {
+    url: string;
+    domain: string;
+    qrCode: QrCode;
+  };
+}
@@ -3,6 +3,8 @@
  */
 
 import { ParsedIngredient } from './ingredient.types';
+import type { RecipeVersion } from './editor.types';
+import type { NutritionEstimateReport } from './nutrition.types';
 
 /**
  * Information about where the recipe was scraped from
@@ -15,7 +17,7 @@ export interface RecipeSource {
   /** When the recipe was scraped */
   scrapedAt: Date;
   /** Method used to scrape the recipe */
-  scrapeMethod: 'schema-org' | 'dom' | 'puppeteer';
+  scrapeMethod: 'schema-org' | 'microdata' | 'dom' | 'puppeteer' | 'wprm' | 'tasty' | 'manual';
 }
 
 /**
@@ -66,6 +68,8 @@ export interface Instruction {
   temperature?: TemperatureInfo;
   /** Time mentioned in this step, if any */
   time?: TimeInfo;
+  /** Section the step belongs to (e.g., "For the crust") */
+  section?: string;
 }
 
 /**
@@ -76,9 +80,13 @@ export interface NutritionInfo {
   protein?: string;
   carbohydrates?: string;
   fat?: string;
+  saturatedFat?: string;
+  cholesterol?: string;
   fiber?: string;
   sodium?: string;
   sugar?: string;
+  /** Serving size the values refer to (e.g., "1 slice") */
+  servingSize?: string;
   [key: string]: string | number | undefined;
 }
 
@@ -112,8 +120,10 @@ export interface Recipe {
   ingredients: ParsedIngredient[];
   /** Cooking instructions */
   instructions: Instruction[];
-  /** Nutritional information */
+  /** Nutritional information (per original serving) */
   nutrition?: NutritionInfo;
+  /** Present when nutrition was estimated from the ingredients instead of scraped */
+  nutritionEstimate?: NutritionEstimateReport;
   /** Recipe tags/categories */
   tags?: string[];
   /** Original raw data for debugging */
@@ -121,6 +131,8 @@ export interface Recipe {
     ingredients: string[];
     instructions: string[];
   };
+  /** Edit history, oldest first (present once the recipe has been edited) */
+  versions?: RecipeVersion[];
   /** Cloud sync fields */
   createdAt?: string;
   updatedAt?: string;
@@ -3,18 +3,55 @@
  */
 
 import { ParsedIngredient, UnitSystem } from './ingredient.types';
-import { Recipe, ServingInfo } from './recipe.types';
+import { Instruction, Recipe, ServingInfo } from './recipe.types';
 
 /**
- * Options for scaling a recipe
+ * An ingredient amount on hand that limits how far a recipe can be scaled
+ */
+export interface IngredientConstraint {
+  /** ID of the recipe ingredient */
+  ingredientId: string;
+  /** Amount available */
+  amount: number;
+  /** Unit of the available amount; defaults to the ingredient's own unit */
+  unit?: string | null;
+}
+
+/**
+ * Which option determined the multiplier
+ */
+export type ScalingConstraintType = 'multiplier' | 'servings' | 'ingredient';
+
+/**
+ * Describes what drove the multiplier of a scaled recipe
+ */
+export interface ScalingConstraint {
+  type: ScalingConstraintType;
+  /** Human-readable explanation (e.g., "3 eggs on hand") */
+  description: string;
+  /** Requested serving count, for servings constraints */
+  targetServings?: number;
+  /** Ingredient amount on hand, for ingredient constraints */
+  ingredient?: IngredientConstraint;
+}
+
+/**
+ * Options for scaling a recipe.
+ * Precedence: ingredientConstraint, then targetServings, then multiplier.
  */
 export interface ScalingOptions {
   /** Multiplier to apply (e.g., 0.5, 1, 2, 3) */
-  multiplier: number;
+  multiplier?: number;
+  /** Scale to this many servings */
+  targetServings?: number;
+  /** Scale so an ingredient uses exactly the amount on hand */
+  ingredientConstraint?: IngredientConstraint;
   /** Convert units to specific system while scaling */
   targetUnitSystem?: UnitSystem;
   /** How to round the results */
   roundingPrecision?: 'exact' | 'friendly';
+  /** When converting to metric, weigh ingredients with a known density (e.g., flour in grams) */
+  preferWeight?: boolean;
 }
 
 /**
@@ -49,6 +86,50 @@ export interface ScaledIngredient extends ParsedIngredient {
   displayText: string;
 }
 
+/**
+ * Kind of rewrite applied to instruction text
+ */
+export type InstructionChangeType = 'temperature' | 'quantity';
+
+/**
+ * A rewritten span of instruction text
+ */
+export interface InstructionChange {
+  type: InstructionChangeType;
+  /** Text as it appeared in the original instruction */
+  original: string;
+  /** Text that replaced it */
+  replacement: string;
+  /** Start offset of the replacement in the scaled text */
+  start: number;
+  /** End offset (exclusive) of the replacement in the scaled text */
+  end: number;
+}
+
+/**
+ * Suggested pan change when a step mentions a pan size
+ */
+export interface PanSizeSuggestion {
+  /** Pan size as written in the step (e.g., "9x13-inch") */
+  original: string;
+  /** Area needed for the scaled batch */
+  targetArea: number;
+  areaUnit: 'sq in' | 'sq cm';
+  /** Human-readable suggestion */
+  suggestion: string;
+}
+
+/**
+ * An instruction after scaling has been applied
+ */
+export interface ScaledInstruction extends Instruction {
+  /** Instruction text before scaling */
+  originalText: string;
+  /** Rewritten spans, in order of appearance */
+  changes: InstructionChange[];
+  panSuggestion?: PanSizeSuggestion;
+}
+
 /**
  * Scaling metadata
  */
@@ -59,6 +140,8 @@ export interface ScalingInfo {
   scaledServings: ServingInfo;
   /** Multiplier that was applied */
   multiplier: number;
+  /** What determined the multiplier */
+  constraint: ScalingConstraint;
   /** When scaling was applied */
   appliedAt: Date;
 }
@@ -73,6 +156,8 @@ export interface ScaledRecipe extends Omit<Recipe, 'ingredients'> {
   originalIngredients: ParsedIngredient[];
   /** Scaled ingredients with display text */
   scaledIngredients: ScaledIngredient[];
+  /** Instructions with temperatures, inline quantities and pan sizes adjusted */
+  scaledInstructions: ScaledInstruction[];
   /** Cooking tips based on the scaling factor */
   scalingTips?: string[];
 }
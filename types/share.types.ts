@@ -0,0 +1,57 @@
+/**
+ * Share link type definitions
+ */
+
+import { Recipe } from './recipe.types';
+
+export type ShareTargetType = 'recipe' | 'collection';
+
+export type ShareLinkStatus = 'active' | 'expired' | 'revoked';
+
+/**
+ * What a share link shows. Recipes are copied when the link is created, so
+ * later edits (and personal notes) never reach the public page.
+ */
+export type SharedContent =
+  | { type: 'recipe'; recipe: Recipe }
+  | {
+      type: 'collection';
+      name: string;
+      description: string | null;
+      coverImage: string | null;
+      recipes: Recipe[];
+    };
+
+/**
+ * A share link as its owner sees it
+ */
+export interface ShareLink {
+  id: string;
+  /** Unguessable token used in the public URL */
+  token: string;
+  targetType: ShareTargetType;
+  /** Source URL of a shared recipe, or the collection ID */
+  targetId: string;
+  title: string;
+  /** Scale the recipes are shown at */
+  multiplier: number;
+  /** Null when the link never expires */
+  expiresAt: string | null;
+  revokedAt: string | null;
+  createdAt: string;
+}
+
+/**
+ * A share link ready to be stored
+ */
+export interface NewShareLink extends Omit<ShareLink, 'id' | 'revokedAt' | 'createdAt'> {
+  content: SharedContent;
+}
+
+/**
+ * A share link as the public page sees it; content is only present while the
+ * link is active
+ */
+export interface PublicShareLink extends Omit<ShareLink, 'id' | 'targetId'> {
+  content: SharedContent | null;
+}
@@ -0,0 +1,88 @@
+/**
+ * Shopping list type definitions
+ */
+
+/**
+ * Store aisles used to group shopping list items
+ */
+export type StoreAisle =
+  | 'produce'
+  | 'meat-seafood'
+  | 'dairy-eggs'
+  | 'bakery'
+  | 'pantry'
+  | 'spices'
+  | 'frozen'
+  | 'beverages'
+  | 'other';
+
+/**
+ * A recipe line that contributed to a shopping list item
+ */
+export interface ShoppingListItemSource {
+  /** ID of the saved recipe */
+  recipeId: string;
+  /** Recipe title at the time the item was added */
+  recipeTitle: string;
+  /** ID of the scaled ingredient within the recipe */
+  ingredientId: string;
+  /** Scaled display text of the ingredient line */
+  displayText: string;
+  /** Quantity the line added to the item, null for "as needed" lines */
+  quantity?: number | null;
+  /** Unit of that quantity */
+  unit?: string | null;
+}
+
+/**
+ * A single (merged) entry on a shopping list
+ */
+export interface ShoppingListItem {
+  /** Unique identifier for React keys */
+  id: string;
+  /** Normalized key used to merge like ingredients */
+  key: string;
+  /** Ingredient name shown to the user */
+  name: string;
+  /** Summed quantity, null for "as needed" items */
+  quantity: number | null;
+  /** Common unit the quantity is expressed in */
+  unit: string | null;
+  /** Ready-to-display text (e.g., "3 cups flour") */
+  displayText: string;
+  /** Store aisle the item is grouped under */
+  aisle: StoreAisle;
+  /** Whether the item has been checked off */
+  checked: boolean;
+  /** Recipe lines merged into this item */
+  sources: ShoppingListItemSource[];
+}
+
+/**
+ * A recipe that was added to a shopping list
+ */
+export interface ShoppingListRecipeRef {
+  /** ID of the saved recipe */
+  recipeId: string;
+  /** Recipe title */
+  title: string;
+  /** Multiplier the recipe was scaled by */
+  multiplier: number;
+}
+
+/**
+ * A shopping list built from one or more saved recipes
+ */
+export interface ShoppingList {
+  /** Client-generated identifier */
+  id: string;
+  /** List name (e.g., "Week of Oct 19") */
+  name: string;
+  /** Recipes that contributed to the list */
+  recipes: ShoppingListRecipeRef[];
+  /** Merged items */
+  items: ShoppingListItem[];
+  /** Timestamps */
+  createdAt: string;
+  updatedAt: string;
+}